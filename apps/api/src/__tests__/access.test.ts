@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { canAccess, ROUTE_ACCESS } from '../lib/access.js';
+
+/**
+ * Team Role Access Tests
+ *
+ * These tests verify that:
+ * 1. Owners can use every route group, including ones without a policy
+ * 2. Moderators can run chat but not payouts or connections
+ * 3. Read-only roles are limited to GET requests
+ */
+
+describe('Team Role Access', () => {
+  it('should allow the owner everywhere', () => {
+    expect(canAccess('owner', 'DELETE', ROUTE_ACCESS.connections)).toBe(true);
+    expect(canAccess('owner', 'POST')).toBe(true);
+  });
+
+  it('should let moderators use chat but not connections or payments', () => {
+    expect(canAccess('moderator', 'POST', ROUTE_ACCESS.chat)).toBe(true);
+    expect(canAccess('moderator', 'GET', ROUTE_ACCESS.chat)).toBe(true);
+    expect(canAccess('moderator', 'DELETE', ROUTE_ACCESS.connections)).toBe(false);
+    // Payments registers no policy, so only the owner gets in
+    expect(canAccess('moderator', 'POST')).toBe(false);
+    expect(canAccess('manager', 'POST')).toBe(false);
+  });
+
+  it('should keep analysts read-only', () => {
+    expect(canAccess('analyst', 'GET', ROUTE_ACCESS.analytics)).toBe(true);
+    expect(canAccess('analyst', 'HEAD', ROUTE_ACCESS.orders)).toBe(true);
+    expect(canAccess('analyst', 'POST', ROUTE_ACCESS.offers)).toBe(false);
+    expect(canAccess('analyst', 'PATCH', ROUTE_ACCESS.orders)).toBe(false);
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import fp from 'fastify-plugin';
+import rateLimit from '@fastify/rate-limit';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import type { Database } from '@unifyed/db';
+import { profiles } from '@unifyed/db/schema';
+import { authPlugin } from '../plugins/auth.js';
+import {
+  ApiKeyService,
+  API_KEY_PREFIX,
+  hashApiKey,
+  getRateLimitKey,
+  getRateLimitMax,
+} from '../services/api-key.service.js';
+
+// Session tokens aren't used here; keep Supabase (and its env) out of the test
+vi.mock('../lib/supabase.js', () => ({ verifySupabaseToken: vi.fn(async () => null) }));
+
+/**
+ * API Key Tests
+ *
+ * These tests run the auth plugin and rate limiter against an in-memory key table and verify that:
+ * 1. A key can only use routes and methods its scopes allow
+ * 2. Revoked and expired keys are rejected
+ * 3. Each valid key is limited to its own requests per minute
+ * 4. Keys that don't authenticate are limited by IP instead of getting a bucket of their own
+ */
+
+const creatorId = '11111111-1111-1111-1111-111111111111';
+
+interface TestApiKey {
+  id: string;
+  creatorId: string;
+  keyHash: string;
+  scopes: string[];
+  rateLimitPerMinute: number;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+}
+
+let keyCounter = 0;
+
+// Keys are unique per test so the module-level limit cache can't leak between them
+function makeKey(overrides: Partial<Omit<TestApiKey, 'id' | 'keyHash'>> = {}): { key: string; row: TestApiKey } {
+  keyCounter++;
+  const key = `${API_KEY_PREFIX}${String(keyCounter).padStart(48, '0')}`;
+  return {
+    key,
+    row: {
+      id: `key-${keyCounter}`,
+      creatorId,
+      keyHash: hashApiKey(key),
+      scopes: ['offers:read'],
+      rateLimitPerMinute: 120,
+      lastUsedAt: null,
+      expiresAt: null,
+      revokedAt: null,
+      ...overrides,
+    },
+  };
+}
+
+/**
+ * Just enough of a database for key lookups: rows are matched on the key
+ * hash bound into the query and, like the real query, revoked keys are left out
+ */
+function createKeyDb(keys: TestApiKey[]) {
+  const dialect = new PgDialect();
+
+  return {
+    select: () => ({
+      from: (table: unknown) => ({
+        where: (condition: SQL) => ({
+          limit: async () => {
+            if (table === profiles) {
+              return [{ id: creatorId, email: 'creator@example.com', name: 'Creator', handle: 'creator' }];
+            }
+            const [keyHash] = dialect.sqlToQuery(condition).params;
+            return keys.filter(row => row.keyHash === keyHash && !row.revokedAt);
+          },
+        }),
+      }),
+    }),
+    update: () => ({ set: () => ({ where: async () => [] }) }),
+  } as unknown as Database;
+}
+
+async function buildApp(keys: TestApiKey[]): Promise<FastifyInstance> {
+  const app = Fastify();
+  const db = createKeyDb(keys);
+  await app.register(fp(async (instance) => {
+    instance.decorate('db', db);
+  }, { name: 'db' }));
+
+  await app.register(rateLimit, {
+    max: async (_request, key) => getRateLimitMax(key, new ApiKeyService(db)),
+    keyGenerator: (request) => getRateLimitKey(request, new ApiKeyService(db)),
+    timeWindow: '1 minute',
+  });
+
+  // Public routes see the same Authorization header but never check it
+  app.get('/public', async () => ({ ok: true }));
+
+  await app.register(async (instance) => {
+    await instance.register(authPlugin, { apiKeyScope: 'offers' });
+    instance.addHook('onRequest', instance.authenticate);
+    instance.get('/', async (request) => ({ creatorId: request.creator.id, apiKeyId: request.apiKey?.id }));
+    instance.post('/', async () => ({ ok: true }));
+  }, { prefix: '/offers' });
+
+  await app.register(async (instance) => {
+    await instance.register(authPlugin);
+    instance.addHook('onRequest', instance.authenticate);
+    instance.get('/', async () => ({ ok: true }));
+  }, { prefix: '/payouts' });
+
+  return app;
+}
+
+function bearer(key: string) {
+  return { authorization: `Bearer ${key}` };
+}
+
+describe('API Keys', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    await app?.close();
+  });
+
+  describe('scopes', () => {
+    const { key, row } = makeKey({ scopes: ['offers:read'] });
+
+    beforeEach(async () => {
+      app = await buildApp([row]);
+    });
+
+    it('should let a key read with the read scope and act as its owner', async () => {
+      const response = await app.inject({ method: 'GET', url: '/offers', headers: bearer(key) });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ creatorId, apiKeyId: row.id });
+    });
+
+    it('should reject writes without the write scope', async () => {
+      const response = await app.inject({ method: 'POST', url: '/offers', headers: bearer(key) });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json().message).toContain('offers:write');
+    });
+
+    it('should reject keys on routes that take no API keys', async () => {
+      const response = await app.inject({ method: 'GET', url: '/payouts', headers: bearer(key) });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('revoked and expired keys', () => {
+    it('should reject a revoked key', async () => {
+      const { key, row } = makeKey({ revokedAt: new Date(Date.now() - 1000) });
+      app = await buildApp([row]);
+
+      const response = await app.inject({ method: 'GET', url: '/offers', headers: bearer(key) });
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject an expired key', async () => {
+      const { key, row } = makeKey({ expiresAt: new Date(Date.now() - 1000) });
+      app = await buildApp([row]);
+
+      const response = await app.inject({ method: 'GET', url: '/offers', headers: bearer(key) });
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject a key that was never issued', async () => {
+      app = await buildApp([]);
+
+      const response = await app.inject({ method: 'GET', url: '/offers', headers: bearer(makeKey().key) });
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('rate limits', () => {
+    it('should hold each key to its own limit', async () => {
+      const limited = makeKey({ rateLimitPerMinute: 2 });
+      const other = makeKey({ rateLimitPerMinute: 2 });
+      app = await buildApp([limited.row, other.row]);
+
+      const statuses: number[] = [];
+      for (let i = 0; i < 3; i++) {
+        const response = await app.inject({ method: 'GET', url: '/offers', headers: bearer(limited.key) });
+        statuses.push(response.statusCode);
+      }
+      expect(statuses).toEqual([200, 200, 429]);
+
+      // Another key from the same IP still has its own allowance
+      const response = await app.inject({ method: 'GET', url: '/offers', headers: bearer(other.key) });
+      expect(response.statusCode).toBe(200);
+    });
+
+    it('should bucket only keys that authenticate by key', async () => {
+      const valid = makeKey();
+      const revoked = makeKey({ revokedAt: new Date() });
+      const expired = makeKey({ expiresAt: new Date(Date.now() - 1000) });
+      const service = new ApiKeyService(createKeyDb([valid.row, revoked.row, expired.row]));
+
+      const keyFor = (key: string) =>
+        getRateLimitKey({ headers: bearer(key), ip: '203.0.113.7' } as never, service);
+
+      expect(await keyFor(valid.key)).toBe(`api-key:${valid.row.keyHash}`);
+      expect(await keyFor(revoked.key)).toBe('203.0.113.7');
+      expect(await keyFor(expired.key)).toBe('203.0.113.7');
+      expect(await keyFor(makeKey().key)).toBe('203.0.113.7');
+    });
+
+    it('should not let made-up keys get around the IP limit on public routes', async () => {
+      app = await buildApp([]);
+      const limit = await getRateLimitMax('203.0.113.7', new ApiKeyService(createKeyDb([])));
+
+      let lastStatus = 0;
+      for (let i = 0; i <= limit; i++) {
+        const response = await app.inject({ method: 'GET', url: '/public', headers: bearer(makeKey().key) });
+        lastStatus = response.statusCode;
+      }
+
+      expect(lastStatus).toBe(429);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { Database } from '@unifyed/db';
+import { attributionContexts, attributionTouchpoints, orders } from '@unifyed/db/schema';
+import { resolveShortLinkQuerySchema } from '@unifyed/types/api';
+import {
+  AttributionService,
+  creditTouchpoints,
+  visitorLinkUrl,
+  type Touch,
+} from '../services/attribution.service.js';
+
+/**
+ * Multi-touch Attribution Tests
+ *
+ * These tests verify that:
+ * 1. First and last touch give the whole order to one touchpoint
+ * 2. Linear and time decay split it across every touchpoint, adding up to 1
+ * 3. Touchpoints after the order or outside the lookback window get nothing
+ * 4. A page view and a later click on a link from that page credit the same order
+ */
+
+const orderedAt = new Date('2026-03-15T12:00:00Z');
+
+function daysBefore(days: number): Date {
+  return new Date(orderedAt.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+// Replay link click, then a live, then the bio link the viewer bought through
+const touches: Touch[] = [
+  { surface: 'link_in_bio', platform: null, occurredAt: daysBefore(0) },
+  { surface: 'replay', platform: 'youtube', occurredAt: daysBefore(14) },
+  { surface: 'live', platform: 'tiktok', occurredAt: daysBefore(7) },
+];
+
+function creditBySurface(model: Parameters<typeof creditTouchpoints>[2]) {
+  return Object.fromEntries(
+    creditTouchpoints(touches, orderedAt, model).map(({ touch, credit }) => [touch.surface, credit])
+  );
+}
+
+describe('Multi-touch attribution', () => {
+  it('should credit the first or last touchpoint in full', () => {
+    expect(creditBySurface('first_touch')).toEqual({ replay: 1 });
+    expect(creditBySurface('last_touch')).toEqual({ link_in_bio: 1 });
+  });
+
+  it('should split credit across touchpoints', () => {
+    const linear = creditBySurface('linear');
+    expect(linear['replay']).toBeCloseTo(1 / 3);
+    expect(linear['live']).toBeCloseTo(1 / 3);
+    expect(linear['link_in_bio']).toBeCloseTo(1 / 3);
+
+    // Weights 1/4, 1/2 and 1 for touches 14, 7 and 0 days out
+    const decay = creditBySurface('time_decay');
+    expect(decay['replay']).toBeCloseTo(1 / 7);
+    expect(decay['live']).toBeCloseTo(2 / 7);
+    expect(decay['link_in_bio']).toBeCloseTo(4 / 7);
+  });
+
+  it('should ignore touchpoints after the order or outside the lookback', () => {
+    const credited = creditTouchpoints(
+      [
+        { surface: 'clip', platform: 'tiktok', occurredAt: daysBefore(45) },
+        { surface: 'live', platform: 'twitch', occurredAt: daysBefore(2) },
+        { surface: 'replay', platform: 'youtube', occurredAt: daysBefore(-1) },
+      ],
+      orderedAt,
+      'linear'
+    );
+
+    expect(credited).toEqual([
+      { touch: { surface: 'live', platform: 'twitch', occurredAt: daysBefore(2) }, credit: 1 },
+    ]);
+    expect(creditTouchpoints([], orderedAt, 'first_touch')).toEqual([]);
+  });
+});
+
+/**
+ * Stands in for the tables the attribution service touches: inserts are kept
+ * as touchpoints (stamped with the current time) and selects return the
+ * shared link's context, the given orders or every touchpoint so far
+ */
+function createAttributionDb(orderRows: Array<{ id: string; total: number; createdAt: Date; visitorId: string }>) {
+  const touchpoints: Array<typeof attributionTouchpoints.$inferInsert & { occurredAt: Date }> = [];
+
+  const query = (table: unknown) => {
+    const rows = () => {
+      if (table === attributionContexts) return [{ surface: 'replay', platform: 'youtube' }];
+      if (table === orders) return orderRows.map(row => ({ ...row, surface: 'replay', platform: 'youtube' }));
+      return [...touchpoints].sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+    };
+    const chain = {
+      leftJoin: () => chain,
+      where: () => chain,
+      orderBy: () => chain,
+      limit: () => chain,
+      then: (resolve: (value: unknown) => unknown) => resolve(rows()),
+    };
+    return chain;
+  };
+
+  const db = {
+    select: () => ({ from: query }),
+    insert: () => ({
+      values: async (values: typeof attributionTouchpoints.$inferInsert) => {
+        touchpoints.push({ ...values, occurredAt: new Date() });
+      },
+    }),
+  } as unknown as Database;
+
+  return { db, touchpoints };
+}
+
+describe('Attribution across a visit', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should credit a page view and a later click from that page to the same order', async () => {
+    const creatorId = '11111111-1111-1111-1111-111111111111';
+    const visitorId = 'v_1742000000000_abc123def';
+    const { db, touchpoints } = createAttributionDb([
+      { id: 'order-1', total: 5000, createdAt: orderedAt, visitorId },
+    ]);
+    const attribution = new AttributionService(db);
+
+    vi.useFakeTimers();
+
+    // The replay page reports the view with the visitor's cookie ID
+    vi.setSystemTime(daysBefore(3));
+    await attribution.recordView({ creatorId, visitorId, type: 'replay_view', platform: 'youtube' });
+
+    // Days later they tap a buy link rendered on that page; /go reads the
+    // visitor from the link's query string
+    vi.setSystemTime(daysBefore(1));
+    const link = new URL(visitorLinkUrl('https://api.example.com', 'abc123', visitorId));
+    const query = resolveShortLinkQuerySchema.parse(Object.fromEntries(link.searchParams));
+    await attribution.recordLinkClick({
+      creatorId,
+      visitorId: query.visitorId!,
+      shortLinkId: '66666666-6666-6666-6666-666666666666',
+      attributionContextId: '77777777-7777-7777-7777-777777777777',
+    });
+
+    vi.useRealTimers();
+
+    expect(new Set(touchpoints.map(touch => touch.visitorId))).toEqual(new Set([visitorId]));
+
+    const [order] = await attribution.getCreditedOrders(
+      creatorId,
+      { start: daysBefore(1), end: orderedAt },
+      'linear'
+    );
+
+    expect(order?.orderId).toBe('order-1');
+    expect(order?.touches.map(({ touch, credit }) => [touch.occurredAt, credit])).toEqual([
+      [daysBefore(3), 0.5],
+      [daysBefore(1), 0.5],
+    ]);
+  });
+
+  it('should leave links without a visitor untouched', () => {
+    expect(visitorLinkUrl('https://api.example.com', 'abc123', undefined)).toBe('https://api.example.com/go/abc123');
+    expect(visitorLinkUrl('https://api.example.com', 'abc123', 'v 1')).toBe('https://api.example.com/go/abc123?visitorId=v%201');
+  });
+});
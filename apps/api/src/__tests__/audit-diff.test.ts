@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { diffChanges } from '../services/audit.service.js';
+
+/**
+ * Audit Diff Tests
+ *
+ * These tests verify that:
+ * 1. Only fields that changed are recorded, with before and after values
+ * 2. updatedAt is ignored and dates are stored as ISO strings
+ * 3. Deleted resources record every field going to null
+ */
+
+describe('Audit Diff', () => {
+  it('should record only changed fields', () => {
+    const changes = diffChanges(
+      { id: 'o1', name: 'Live deal', value: 20, status: 'active', metadata: { tier: 1 } },
+      { id: 'o1', name: 'Live deal', value: 35, status: 'active', metadata: { tier: 2 } }
+    );
+
+    expect(changes).toEqual({
+      value: { from: 20, to: 35 },
+      metadata: { from: { tier: 1 }, to: { tier: 2 } },
+    });
+  });
+
+  it('should ignore updatedAt and serialize dates', () => {
+    const changes = diffChanges(
+      { endsAt: new Date('2026-01-01T00:00:00Z'), updatedAt: new Date('2026-01-01T00:00:00Z') },
+      { endsAt: new Date('2026-01-02T00:00:00Z'), updatedAt: new Date('2026-01-03T00:00:00Z') }
+    );
+
+    expect(changes).toEqual({
+      endsAt: { from: '2026-01-01T00:00:00.000Z', to: '2026-01-02T00:00:00.000Z' },
+    });
+  });
+
+  it('should record deletions as changes to null', () => {
+    expect(diffChanges({ platform: 'tiktok', displayName: null }, {})).toEqual({
+      platform: { from: 'tiktok', to: null },
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { allocateBundlePrice } from '../services/pricing.js';
+
+/**
+ * Bundle Pricing Tests
+ *
+ * These tests verify that:
+ * 1. Per-item overrides are used as-is when every item has one
+ * 2. Without overrides, the bundle price is split by regular price
+ * 3. Rounding never loses or adds a cent
+ * 4. Mixed overrides leave the remainder to the other items
+ */
+
+describe('Bundle Price Allocation', () => {
+  it('should use override values when every item has one', () => {
+    const shares = allocateBundlePrice(
+      [
+        { price: 3000, overrideValue: 2000 },
+        { price: 2000, overrideValue: 1500 },
+      ],
+      3500
+    );
+
+    expect(shares).toEqual([2000, 1500]);
+  });
+
+  it('should split the bundle price in proportion to regular prices', () => {
+    const shares = allocateBundlePrice(
+      [
+        { price: 3000, overrideValue: null },
+        { price: 1000, overrideValue: null },
+      ],
+      2000
+    );
+
+    expect(shares).toEqual([1500, 500]);
+  });
+
+  it('should always add up to the bundle price', () => {
+    const shares = allocateBundlePrice(
+      [
+        { price: 999, overrideValue: null },
+        { price: 999, overrideValue: null },
+        { price: 999, overrideValue: null },
+      ],
+      1000
+    );
+
+    expect(shares.reduce((sum, share) => sum + share, 0)).toBe(1000);
+    expect(shares).toEqual([333, 333, 334]);
+  });
+
+  it('should give the remainder to items without an override', () => {
+    const shares = allocateBundlePrice(
+      [
+        { price: 5000, overrideValue: 1000 },
+        { price: 2000, overrideValue: null },
+        { price: 2000, overrideValue: null },
+      ],
+      4000
+    );
+
+    expect(shares).toEqual([1000, 1500, 1500]);
+  });
+
+  it('should split evenly when regular prices are all zero', () => {
+    const shares = allocateBundlePrice(
+      [
+        { price: 0, overrideValue: null },
+        { price: 0, overrideValue: null },
+      ],
+      1001
+    );
+
+    expect(shares).toEqual([500, 501]);
+  });
+});
@@ -0,0 +1,278 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { encrypt, AppError, ErrorCodes } from '@unifyed/utils';
+import { CommerceBackendRegistry, type CommerceBackend } from '@unifyed/commerce';
+import {
+  shortLinks,
+  offers,
+  offerProducts,
+  products,
+  variants,
+  platformConnections,
+  attributionContexts,
+  carts,
+  cartItems,
+  checkoutSessions,
+  reservations,
+} from '@unifyed/db/schema';
+import { CheckoutService } from '../services/checkout.service.js';
+import { createMemoryDb } from './memory-db.js';
+
+/**
+ * Cart Tests
+ *
+ * These tests run the checkout service against an in-memory database and verify that:
+ * 1. Adding the same link + variant again increases the existing line's quantity
+ * 2. The same bundle added with other variants is priced as another bundle
+ * 3. Removing a line removes it, and removing a bundle component removes the whole bundle
+ * 4. Converting a cart creates one checkout session and reserves every line
+ * 5. Two conversions racing on the same cart create only one checkout session
+ * 6. A cart whose store checkout fails stays open and can be checked out again
+ */
+
+const creatorId = '11111111-1111-1111-1111-111111111111';
+const connectionId = '22222222-2222-2222-2222-222222222222';
+const contextId = '33333333-3333-3333-3333-333333333333';
+const encryptionKey = '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+
+function seed() {
+  const product = (id: string, title: string) => ({
+    id, creatorId, connectionId, externalId: `ext-${id}`, title,
+  });
+  const variant = (id: string, productId: string, price: number) => ({
+    id, productId, externalId: `ext-${id}`, title: id, price, inventoryQuantity: 10,
+  });
+  const offer = (id: string, type: 'percentage_off' | 'bundle', value: number) => ({
+    id, creatorId, name: id, type, value, status: 'active' as const,
+  });
+  const link = (id: string, code: string, offerId: string) => ({
+    id, creatorId, code, offerId, attributionContextId: contextId,
+  });
+
+  return createMemoryDb(new Map<never, Array<Record<string, unknown>>>([
+    [platformConnections as never, [{
+      id: connectionId,
+      creatorId,
+      platform: 'shopify',
+      credentials: encrypt(JSON.stringify({ shopDomain: 'test-shop.myshopify.com' }), encryptionKey),
+      status: 'active',
+    }]],
+    [attributionContexts as never, [{ id: contextId, creatorId, surface: 'live', platform: 'tiktok' }]],
+    [products as never, [product('shirt', 'Shirt'), product('cap', 'Cap'), product('mug', 'Mug')]],
+    [variants as never, [
+      variant('shirt-s', 'shirt', 2000),
+      variant('shirt-m', 'shirt', 2000),
+      variant('cap-one', 'cap', 1500),
+      variant('cap-two', 'cap', 1500),
+      variant('mug-one', 'mug', 1000),
+    ]],
+    [offers as never, [offer('shirt-offer', 'percentage_off', 10), offer('kit-offer', 'bundle', 2000)]],
+    [offerProducts as never, [
+      { id: 'op-shirt', offerId: 'shirt-offer', productId: 'shirt' },
+      { id: 'op-cap', offerId: 'kit-offer', productId: 'cap' },
+      { id: 'op-mug', offerId: 'kit-offer', productId: 'mug' },
+    ]],
+    [shortLinks as never, [link('shirt-link', 'SHIRT', 'shirt-offer'), link('kit-link', 'KIT', 'kit-offer')]],
+  ]));
+}
+
+function createBackends() {
+  const buildCheckout = vi.fn(async ({ checkoutSessionId }: { checkoutSessionId: string }) => ({
+    url: `https://test-shop.myshopify.com/checkout/${checkoutSessionId}`,
+    externalCheckoutId: `ext-${checkoutSessionId}`,
+  }));
+  const backends = new CommerceBackendRegistry().register(
+    'shopify',
+    () => ({ platform: 'shopify', buildCheckout }) as unknown as CommerceBackend
+  );
+  return { backends, buildCheckout };
+}
+
+describe('Carts', () => {
+  let memory: ReturnType<typeof seed>;
+  let checkout: CheckoutService;
+  let buildCheckout: ReturnType<typeof createBackends>['buildCheckout'];
+
+  beforeEach(() => {
+    memory = seed();
+    const created = createBackends();
+    buildCheckout = created.buildCheckout;
+    checkout = new CheckoutService(memory.db, encryptionKey, created.backends);
+  });
+
+  describe('adding items', () => {
+    it('should create a cart with the link item, priced with the offer', async () => {
+      const cart = await checkout.createCart({ code: 'SHIRT', variantId: 'shirt-m', quantity: 1, visitorId: 'visitor-1' });
+
+      expect(cart.cart.status).toBe('open');
+      expect(cart.cart.visitorId).toBe('visitor-1');
+      expect(cart.items).toHaveLength(1);
+      expect(cart.items[0]).toMatchObject({ variantId: 'shirt-m', quantity: 1, price: 2000, offerPrice: 1800 });
+      expect(cart.total).toBe(1800);
+    });
+
+    it('should add to the quantity of a line already in the cart', async () => {
+      const { cart } = await checkout.createCart({ code: 'SHIRT', variantId: 'shirt-m', quantity: 1 });
+
+      const updated = await checkout.addCartItem(cart.id, { code: 'SHIRT', variantId: 'shirt-m', quantity: 2 });
+
+      expect(updated.items).toHaveLength(1);
+      expect(updated.items[0]!.quantity).toBe(3);
+      expect(updated.itemCount).toBe(3);
+    });
+
+    it('should add one line per bundle component', async () => {
+      const { cart } = await checkout.createCart({ code: 'SHIRT', variantId: 'shirt-s', quantity: 1 });
+
+      const updated = await checkout.addCartItem(cart.id, { code: 'KIT', quantity: 1 });
+
+      expect(updated.items.map(item => item.variantId)).toEqual(['shirt-s', 'cap-one', 'mug-one']);
+      // The bundle price is shared across its components
+      expect(updated.items.slice(1).reduce((sum, item) => sum + item.total, 0)).toBe(2000);
+    });
+
+    it('should price the same bundle with other variants as another bundle', async () => {
+      const { cart } = await checkout.createCart({ code: 'KIT', variantId: 'cap-one', quantity: 1 });
+      await checkout.addCartItem(cart.id, { code: 'KIT', variantId: 'cap-two', quantity: 1 });
+
+      const updated = await checkout.addCartItem(cart.id, { code: 'KIT', variantId: 'cap-one', quantity: 1 });
+
+      expect(updated.items.map(item => [item.variantId, item.quantity])).toEqual([
+        ['cap-one', 2],
+        ['mug-one', 2],
+        ['cap-two', 1],
+        ['mug-one', 1],
+      ]);
+      // Three bundles at the bundle price
+      expect(updated.total).toBe(3 * 2000);
+    });
+
+    it('should refuse more than the variant has in stock', async () => {
+      const { cart } = await checkout.createCart({ code: 'SHIRT', variantId: 'shirt-m', quantity: 8 });
+
+      await expect(
+        checkout.addCartItem(cart.id, { code: 'SHIRT', variantId: 'shirt-m', quantity: 3 })
+      ).rejects.toMatchObject({ code: ErrorCodes.INSUFFICIENT_INVENTORY });
+    });
+  });
+
+  describe('removing items', () => {
+    it('should remove a single line', async () => {
+      const { cart } = await checkout.createCart({ code: 'SHIRT', variantId: 'shirt-s', quantity: 1 });
+      const { items } = await checkout.addCartItem(cart.id, { code: 'SHIRT', variantId: 'shirt-m', quantity: 1 });
+
+      const updated = await checkout.removeCartItem(cart.id, items[0]!.id);
+
+      expect(updated.items.map(item => item.variantId)).toEqual(['shirt-m']);
+    });
+
+    it('should remove the whole bundle when one component is removed', async () => {
+      const { cart } = await checkout.createCart({ code: 'SHIRT', variantId: 'shirt-s', quantity: 1 });
+      const { items } = await checkout.addCartItem(cart.id, { code: 'KIT', quantity: 1 });
+      const mug = items.find(item => item.variantId === 'mug-one')!;
+
+      const updated = await checkout.removeCartItem(cart.id, mug.id);
+
+      expect(updated.items.map(item => item.variantId)).toEqual(['shirt-s']);
+    });
+
+    it('should leave other bundles from the same link in the cart', async () => {
+      const { cart } = await checkout.createCart({ code: 'KIT', variantId: 'cap-one', quantity: 1 });
+      const { items } = await checkout.addCartItem(cart.id, { code: 'KIT', variantId: 'cap-two', quantity: 1 });
+      const capTwo = items.find(item => item.variantId === 'cap-two')!;
+
+      const updated = await checkout.removeCartItem(cart.id, capTwo.id);
+
+      expect(updated.items.map(item => item.variantId)).toEqual(['cap-one', 'mug-one']);
+      expect(updated.total).toBe(2000);
+    });
+
+    it('should not find a line from another cart', async () => {
+      const first = await checkout.createCart({ code: 'SHIRT', quantity: 1 });
+      const second = await checkout.createCart({ code: 'SHIRT', quantity: 1 });
+
+      await expect(
+        checkout.removeCartItem(second.cart.id, first.items[0]!.id)
+      ).rejects.toMatchObject({ code: ErrorCodes.NOT_FOUND });
+    });
+  });
+
+  describe('converting', () => {
+    it('should turn the cart into one checkout session and reserve every line', async () => {
+      const { cart } = await checkout.createCart({ code: 'SHIRT', variantId: 'shirt-m', quantity: 2 });
+      await checkout.addCartItem(cart.id, { code: 'KIT', quantity: 1 });
+
+      const result = await checkout.checkoutCart(cart.id);
+
+      expect(result.isExisting).toBe(false);
+      expect(result.checkoutUrl).toBe(`https://test-shop.myshopify.com/checkout/${result.checkoutSession.id}`);
+      expect(result.checkoutSession.total).toBe(2 * 1800 + 2000);
+      expect(memory.rows(reservations).map(row => [row.variantId, row.quantity])).toEqual([
+        ['shirt-m', 2],
+        ['cap-one', 1],
+        ['mug-one', 1],
+      ]);
+
+      const [converted] = memory.rows(carts);
+      expect(converted).toMatchObject({ status: 'converted', checkoutSessionId: result.checkoutSession.id });
+    });
+
+    it('should return the same session when converted again, and refuse further changes', async () => {
+      const { cart } = await checkout.createCart({ code: 'SHIRT', quantity: 1 });
+      const first = await checkout.checkoutCart(cart.id);
+
+      const second = await checkout.checkoutCart(cart.id);
+
+      expect(second.isExisting).toBe(true);
+      expect(second.checkoutSession.id).toBe(first.checkoutSession.id);
+      await expect(
+        checkout.addCartItem(cart.id, { code: 'SHIRT', quantity: 1 })
+      ).rejects.toMatchObject({ code: ErrorCodes.CONFLICT });
+    });
+
+    it('should create only one checkout session when two conversions race', async () => {
+      const { cart } = await checkout.createCart({ code: 'SHIRT', quantity: 1 });
+      await checkout.addCartItem(cart.id, { code: 'KIT', quantity: 1 });
+
+      const results = await Promise.allSettled([checkout.checkoutCart(cart.id), checkout.checkoutCart(cart.id)]);
+
+      const converted = results.filter(result => result.status === 'fulfilled');
+      const refused = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      expect(converted).toHaveLength(1);
+      expect(refused).toHaveLength(1);
+      expect(refused[0]!.reason).toBeInstanceOf(AppError);
+      expect(refused[0]!.reason.code).toBe(ErrorCodes.CONFLICT);
+
+      expect(memory.rows(checkoutSessions)).toHaveLength(1);
+      expect(memory.rows(reservations)).toHaveLength(3);
+      expect(buildCheckout).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reopen the cart when the store checkout fails, so a retry succeeds', async () => {
+      const { cart } = await checkout.createCart({ code: 'SHIRT', quantity: 1 });
+      await checkout.addCartItem(cart.id, { code: 'KIT', quantity: 1 });
+      buildCheckout.mockRejectedValueOnce(new Error('Shopify is down'));
+
+      await expect(checkout.checkoutCart(cart.id)).rejects.toMatchObject({ code: ErrorCodes.INTEGRATION_ERROR });
+      expect(memory.rows(carts)[0]).toMatchObject({ status: 'open', checkoutSessionId: null });
+      expect(memory.rows(checkoutSessions)).toHaveLength(0);
+      expect(memory.rows(reservations)).toHaveLength(0);
+      expect(memory.rows(shortLinks).map(link => link.clickCount)).toEqual([0, 0]);
+
+      const retry = await checkout.checkoutCart(cart.id);
+
+      expect(retry.isExisting).toBe(false);
+      expect(retry.checkoutUrl).toBe(`https://test-shop.myshopify.com/checkout/${retry.checkoutSession.id}`);
+      expect(memory.rows(carts)[0]).toMatchObject({ status: 'converted', checkoutSessionId: retry.checkoutSession.id });
+      expect(memory.rows(reservations)).toHaveLength(3);
+      expect(memory.rows(shortLinks).map(link => link.clickCount)).toEqual([1, 1]);
+    });
+
+    it('should refuse an empty cart', async () => {
+      const { cart, items } = await checkout.createCart({ code: 'SHIRT', quantity: 1 });
+      await checkout.removeCartItem(cart.id, items[0]!.id);
+
+      await expect(checkout.checkoutCart(cart.id)).rejects.toMatchObject({ code: ErrorCodes.VALIDATION_ERROR });
+      expect(memory.rows(cartItems)).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { detectAnswerTopic, draftAnswer, type AnswerProduct } from '../services/chat-answer.service.js';
+
+/**
+ * Chat Auto-Answer Tests
+ *
+ * These tests verify that:
+ * 1. Questions are sorted into size, material, shipping, returns and stock
+ * 2. Sizes come from the option that holds them, with sold-out sizes called out
+ * 3. Materials come from the description and stock from inventory, per variant when named
+ * 4. The creator's FAQ wins over catalog data, product entries over general ones
+ */
+
+function variant(title: string, option1: string | null, option2: string | null, inventoryQuantity: number) {
+  return { title, option1, option2, option3: null, inventoryQuantity, inventoryPolicy: 'deny' };
+}
+
+const hoodie: AnswerProduct = {
+  id: 'product-1',
+  title: 'Cloud Hoodie',
+  description: '<p>Our softest hoodie yet.</p><p>Made from 80% organic cotton and 20% recycled polyester. Machine washable.</p>',
+  variants: [
+    variant('Black / S', 'Black', 'S', 4),
+    variant('Black / M', 'Black', 'M', 12),
+    variant('Black / L', 'Black', 'L', 0),
+    variant('Sand / M', 'Sand', 'M', 0),
+  ],
+};
+
+describe('Chat auto-answers', () => {
+  it('should detect what a question is about', () => {
+    expect(detectAnswerTopic('what size should I get?')).toBe('size');
+    expect(detectAnswerTopic('is it made of cotton?')).toBe('material');
+    expect(detectAnswerTopic('do you ship to Canada?')).toBe('shipping');
+    expect(detectAnswerTopic('can I return it if it doesnt fit?')).toBe('returns');
+    expect(detectAnswerTopic('is M in stock?')).toBe('stock');
+    expect(detectAnswerTopic('what color is that?')).toBeNull();
+  });
+
+  it('should answer sizes from variant options', () => {
+    expect(draftAnswer('what sizes does it come in?', hoodie, [])).toEqual({
+      topic: 'size',
+      answer: 'Cloud Hoodie comes in S, M. Sold out: L.',
+      source: 'catalog',
+    });
+  });
+
+  it('should answer materials and stock from the catalog', () => {
+    expect(draftAnswer('what is the fabric?', hoodie, [])?.answer).toBe(
+      'Cloud Hoodie: Made from 80% organic cotton and 20% recycled polyester.'
+    );
+    expect(draftAnswer('is S in stock?', hoodie, [])?.answer).toBe('Only 4 left of Cloud Hoodie in S!');
+    expect(draftAnswer('is sand available?', hoodie, [])?.answer).toBe('Cloud Hoodie in Sand is sold out right now.');
+    expect(draftAnswer('still in stock?', hoodie, [])?.answer).toBe('Cloud Hoodie is in stock.');
+    // Policies only come from the FAQ
+    expect(draftAnswer('do you ship to Canada?', hoodie, [])).toBeNull();
+  });
+
+  it('should prefer the creator\'s FAQ', () => {
+    const faqs = [
+      { productId: null, topic: 'shipping' as const, question: 'Shipping?', answer: 'We ship worldwide in 3-5 days.' },
+      { productId: null, topic: 'size' as const, question: 'Sizing?', answer: 'Everything runs true to size.' },
+      { productId: 'product-1', topic: 'size' as const, question: 'Hoodie fit?', answer: 'The hoodie is oversized, size down.' },
+      { productId: 'product-2', topic: 'material' as const, question: 'Fabric?', answer: 'Pure linen.' },
+      { productId: null, topic: null, question: 'Is the gift wrapping free?', answer: 'Gift wrap is free over $50!' },
+    ];
+
+    expect(draftAnswer('do you ship to Canada?', hoodie, faqs)).toEqual({
+      topic: 'shipping',
+      answer: 'We ship worldwide in 3-5 days.',
+      source: 'faq',
+    });
+    expect(draftAnswer('how does it fit?', hoodie, faqs)?.answer).toBe('The hoodie is oversized, size down.');
+    // Another product's entry doesn't apply
+    expect(draftAnswer('what material is it?', hoodie, faqs)?.source).toBe('catalog');
+    expect(draftAnswer('is gift wrapping free with my order?', hoodie, faqs)).toEqual({
+      topic: null,
+      answer: 'Gift wrap is free over $50!',
+      source: 'faq',
+    });
+  });
+});
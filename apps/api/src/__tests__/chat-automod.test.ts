@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import type { ChatMessage } from '@unifyed/types';
+import { ChatAutomod, DEFAULT_MODERATION_SETTINGS, findLinkHosts } from '../services/chat-moderation.service.js';
+
+/**
+ * Chat Automod Tests
+ *
+ * These tests verify that:
+ * 1. Blocked terms match whole words only, ignoring case
+ * 2. Links are caught unless their domain is allowed
+ * 3. Shouting and spam are flagged, short messages and quiet authors are not
+ * 4. Moderators, the creator and non-chat messages are never screened
+ */
+
+function chat(content: string, overrides: Partial<ChatMessage['user']> = {}): ChatMessage {
+  return {
+    id: `msg-${Math.random().toString(36).slice(2)}`,
+    platform: 'twitch',
+    type: 'chat',
+    content,
+    user: {
+      id: 'viewer-1',
+      username: 'viewer',
+      badges: [],
+      isModerator: false,
+      isSubscriber: false,
+      isVerified: false,
+      ...overrides,
+    },
+    timestamp: new Date(),
+  };
+}
+
+describe('ChatAutomod', () => {
+  it('should match blocked terms as whole words', () => {
+    const automod = new ChatAutomod({ ...DEFAULT_MODERATION_SETTINGS, blockedTerms: ['scam', 'c.o.d'] });
+
+    expect(automod.check(chat('this is a SCAM'))).toEqual(['blocked_term']);
+    expect(automod.check(chat('scampi for dinner'))).toEqual([]);
+    expect(automod.check(chat('pay c.o.d please'))).toEqual(['blocked_term']);
+    expect(automod.check(chat('pay cxoxd please'))).toEqual([]);
+  });
+
+  it('should flag links outside the allowed domains', () => {
+    const automod = new ChatAutomod({ ...DEFAULT_MODERATION_SETTINGS, allowedLinkDomains: ['glowlab.com'] });
+
+    expect(findLinkHosts('see https://www.Example.com/x and free-stuff.xyz')).toEqual(['example.com', 'free-stuff.xyz']);
+    expect(automod.check(chat('grab it at https://shop.glowlab.com/serum'))).toEqual([]);
+    expect(automod.check(chat('cheaper at dupes.shop'))).toEqual(['link']);
+    // A sentence ending in a period isn't a link
+    expect(automod.check(chat('i love it.really'))).toEqual([]);
+  });
+
+  it('should flag shouting and spam', () => {
+    const automod = new ChatAutomod(DEFAULT_MODERATION_SETTINGS);
+    const now = Date.now();
+
+    expect(automod.check(chat('WHERE IS MY ORDER ALREADY'))).toEqual(['caps']);
+    expect(automod.check(chat('OMG LOL'))).toEqual([]);
+    expect(automod.check(chat('soooooooooooooooooo good'))).toEqual(['spam']);
+
+    expect(automod.check(chat('buy now', { id: 'viewer-2' }), now)).toEqual([]);
+    expect(automod.check(chat('buy now', { id: 'viewer-2' }), now + 1000)).toEqual([]);
+    expect(automod.check(chat('Buy  now', { id: 'viewer-2' }), now + 2000)).toEqual(['spam']);
+    // Once the window passes, the author starts over
+    expect(automod.check(chat('buy now', { id: 'viewer-2' }), now + 60_000)).toEqual([]);
+  });
+
+  it('should not screen moderators, the creator or non-chat messages', () => {
+    const automod = new ChatAutomod({ ...DEFAULT_MODERATION_SETTINGS, blockedTerms: ['scam'] });
+
+    expect(automod.check(chat('SCAM ALERT WATCH OUT', { isModerator: true }))).toEqual([]);
+    expect(automod.check(chat('not a scam', { badges: ['creator'] }))).toEqual([]);
+    expect(automod.check({ ...chat('scam'), type: 'gift' })).toEqual([]);
+  });
+});
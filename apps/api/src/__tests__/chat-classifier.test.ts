@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { ChatMessage } from '@unifyed/types';
+import { RegexChatClassifier, classifyMessages } from '../services/ai-chat.service.js';
+import { ModelChatClassifier } from '../services/chat-classifier.service.js';
+
+/**
+ * Chat Classifier Tests
+ *
+ * These tests run the model classifier against a local mock endpoint and verify that:
+ * 1. Messages are sent in batches along with the catalog
+ * 2. Intent, language and product mentions come from the model, limited to catalog products
+ * 3. Failed batches and skipped messages fall back to the regex engine
+ * 4. A message is sent to the model once; later calls use its cached classification
+ * 5. The regex engine matches product mentions by catalog title
+ */
+
+interface ClassifierInput {
+  catalog: Array<{ id: string; title: string }>;
+  messages: Array<{ index: number; type: string; content: string }>;
+}
+
+const catalog = [
+  { id: 'p-1', title: 'Glow Serum' },
+  { id: 'p-2', title: 'Night Cream' },
+];
+
+function chat(id: string, content: string): ChatMessage {
+  return {
+    id,
+    platform: 'tiktok',
+    type: 'chat',
+    content,
+    user: {
+      id: `user-${id}`,
+      username: `viewer${id}`,
+      badges: [],
+      isModerator: false,
+      isSubscriber: false,
+      isVerified: false,
+    },
+    timestamp: new Date(),
+  };
+}
+
+describe('ModelChatClassifier', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: Array<{ authorization: string | undefined; model: string; input: ClassifierInput }>;
+  let respond: (input: ClassifierInput) => { status: number; results?: unknown[] };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const body = JSON.parse(raw) as { model: string; messages: Array<{ role: string; content: string }> };
+        const input = JSON.parse(body.messages[1]?.content ?? '{}') as ClassifierInput;
+        requests.push({ authorization: req.headers.authorization, model: body.model, input });
+
+        const { status, results } = respond(input);
+        res.statusCode = status;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({
+          choices: [{ message: { role: 'assistant', content: JSON.stringify({ results }) } }],
+        }));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it('should send messages in batches with the catalog', async () => {
+    respond = input => ({
+      status: 200,
+      results: input.messages.map(m => ({
+        index: m.index,
+        intent: 'other',
+        isQuestion: false,
+        sentiment: 'neutral',
+        productIds: [],
+        language: 'en',
+        confidence: 0.4,
+      })),
+    });
+
+    const classifier = new ModelChatClassifier({ baseUrl, model: 'mock-model', apiKey: 'test-key', batchSize: 10 });
+    const messages = Array.from({ length: 25 }, (_, i) => chat(String(i), `message ${i}`));
+
+    const results = await classifier.classify(messages, catalog);
+
+    expect(results).toHaveLength(25);
+    expect(requests.map(r => r.input.messages.length)).toEqual([10, 10, 5]);
+    expect(requests[0]).toMatchObject({ authorization: 'Bearer test-key', model: 'mock-model' });
+    expect(requests[0]?.input.catalog).toEqual(catalog);
+    expect(requests[2]?.input.messages[0]).toEqual({ index: 0, type: 'chat', content: 'message 20' });
+  });
+
+  it('should ground product mentions in the catalog', async () => {
+    respond = () => ({
+      status: 200,
+      results: [
+        {
+          index: 0,
+          intent: 'purchase',
+          isQuestion: false,
+          sentiment: 'positive',
+          productIds: ['p-1', 'p-999'],
+          language: 'ES',
+          confidence: 0.9,
+        },
+        { index: 1, intent: 'question', sentiment: 'neutral', productIds: ['p-2'], language: 'en', confidence: 0.7 },
+      ],
+    });
+
+    const classifier = new ModelChatClassifier({ baseUrl, model: 'mock-model' });
+    const analyzed = await classifyMessages(
+      [chat('1', 'quiero el sérum brillante ya'), chat('2', 'does the night one work on dry skin')],
+      classifier,
+      catalog
+    );
+
+    expect(requests[0]?.authorization).toBeUndefined();
+    expect(analyzed[0]).toMatchObject({
+      priority: 'high',
+      message: { id: '1' },
+      signals: {
+        intent: 'purchase',
+        hasBuyingIntent: true,
+        language: 'es',
+        productMentions: [{ productId: 'p-1', title: 'Glow Serum' }],
+        suggestedAction: 'Drop a link now! This viewer is ready to buy.',
+      },
+    });
+    expect(analyzed[1]?.signals).toMatchObject({
+      intent: 'question',
+      isQuestion: true,
+      productMentions: [{ productId: 'p-2', title: 'Night Cream' }],
+    });
+  });
+
+  it('should fall back to the regex engine', async () => {
+    const classifier = new ModelChatClassifier({ baseUrl, model: 'mock-model' });
+    const messages = [chat('1', 'how much is the Glow Serum?'), chat('2', 'love this')];
+
+    respond = () => ({ status: 500 });
+    const failed = await classifier.classify(messages, catalog);
+    expect(failed).toEqual(await new RegexChatClassifier().classify(messages, catalog));
+
+    // The model skipped the second message
+    respond = () => ({
+      status: 200,
+      results: [{ index: 0, intent: 'purchase', sentiment: 'neutral', productIds: ['p-1'], language: 'en', confidence: 0.8 }],
+    });
+    const partial = await classifier.classify(messages, catalog);
+    expect(partial[0]).toMatchObject({ intent: 'purchase', language: 'en' });
+    expect(partial[1]).toMatchObject({ intent: 'praise', sentiment: 'positive', language: null });
+  });
+
+  describe('cache', () => {
+    beforeEach(() => {
+      respond = input => ({
+        status: 200,
+        results: input.messages.map(m => ({
+          index: m.index, intent: 'question', sentiment: 'neutral', productIds: [], language: 'en', confidence: 0.6,
+        })),
+      });
+    });
+
+    function sent() {
+      return requests.map(r => r.input.messages.map(m => m.content));
+    }
+
+    it('should only send messages it has not classified yet', async () => {
+      const classifier = new ModelChatClassifier({ baseUrl, model: 'mock-model' });
+      const first = [chat('1', 'is it vegan?'), chat('2', 'what sizes?')];
+
+      const before = await classifier.classify(first, catalog);
+      const after = await classifier.classify([...first, chat('3', 'ships to canada?')], catalog);
+
+      expect(sent()).toEqual([['is it vegan?', 'what sizes?'], ['ships to canada?']]);
+      expect(after.slice(0, 2)).toEqual(before);
+      expect(after[2]).toMatchObject({ intent: 'question', language: 'en' });
+    });
+
+    it('should forget the least recently used messages past its size', async () => {
+      const classifier = new ModelChatClassifier({ baseUrl, model: 'mock-model', cacheSize: 2 });
+
+      await classifier.classify([chat('1', 'one'), chat('2', 'two')], catalog);
+      await classifier.classify([chat('1', 'one'), chat('3', 'three')], catalog);
+      await classifier.classify([chat('1', 'one'), chat('2', 'two')], catalog);
+
+      expect(sent()).toEqual([['one', 'two'], ['three'], ['two']]);
+    });
+  });
+});
+
+describe('RegexChatClassifier', () => {
+  it('should match product mentions by catalog title', async () => {
+    const [mention, none] = await new RegexChatClassifier().classify(
+      [chat('1', 'is the glow serum in stock?'), chat('2', 'glowing reviews on this cream')],
+      catalog
+    );
+
+    expect(mention).toMatchObject({
+      intent: 'purchase',
+      isQuestion: true,
+      productMentions: [{ productId: 'p-1', title: 'Glow Serum' }],
+      language: null,
+    });
+    expect(none?.productMentions).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import type { ChatMessage } from '@unifyed/types';
+import { parseChatCommand, processMessage } from '../services/ai-chat.service.js';
+import {
+  commandValues,
+  parseBuyArgs,
+  renderCommandReply,
+  DEFAULT_COMMAND_RESPONSES,
+  type CommandProduct,
+} from '../services/chat-command.service.js';
+
+/**
+ * Chat Command Tests
+ *
+ * These tests verify that:
+ * 1. Commands are parsed from chat messages, and only from the start of one
+ * 2. !buy reads a quantity and a variant from what follows it
+ * 3. Replies are built from the spotlighted product, and skipped when they
+ *    need something it doesn't have
+ */
+
+const product: CommandProduct = {
+  title: 'Cloud Hoodie',
+  regularPrice: 6000,
+  price: 4800,
+  offerId: 'offer-1',
+  variants: ['S', 'M', 'L'].map((size, index) => ({
+    id: `variant-${size}`,
+    title: size,
+    option1: size,
+    option2: null,
+    option3: null,
+    inventoryQuantity: index === 2 ? 0 : 4,
+    inventoryPolicy: 'deny',
+  })),
+};
+
+function chat(content: string): ChatMessage {
+  return {
+    id: 'msg-1',
+    platform: 'twitch',
+    type: 'chat',
+    content,
+    user: { id: 'u-1', username: 'maya', badges: [], isModerator: false, isSubscriber: false, isVerified: false },
+    timestamp: new Date(),
+  };
+}
+
+describe('Chat commands', () => {
+  it('should parse commands at the start of a message', () => {
+    expect(parseChatCommand('!buy 2 M')).toEqual({ name: 'buy', args: ['2', 'M'] });
+    expect(parseChatCommand('  !PRICE ')).toEqual({ name: 'price', args: [] });
+    expect(parseChatCommand('what is the !price')).toBeNull();
+    expect(parseChatCommand('!!!')).toBeNull();
+
+    expect(processMessage(chat('!sizes')).command).toEqual({ name: 'sizes', args: [] });
+    expect(processMessage(chat('love it')).command).toBeUndefined();
+  });
+
+  it('should read a quantity and variant for !buy', () => {
+    expect(parseBuyArgs([], product)).toEqual({ quantity: 1, variantId: null });
+    expect(parseBuyArgs(['2'], product)).toEqual({ quantity: 2, variantId: null });
+    expect(parseBuyArgs(['3x', 'm'], product)).toEqual({ quantity: 3, variantId: 'variant-M' });
+    expect(parseBuyArgs(['500'], product).quantity).toBe(10);
+    expect(parseBuyArgs(['XXL'], product).variantId).toBeNull();
+  });
+
+  it('should build replies from the spotlighted product', () => {
+    const values = commandValues(chat('!price'), product, 2);
+
+    expect(renderCommandReply(DEFAULT_COMMAND_RESPONSES.price, values)).toBe('@maya Cloud Hoodie is $48.00, was $60.00');
+    expect(renderCommandReply(DEFAULT_COMMAND_RESPONSES.sizes, values)).toBe('@maya Cloud Hoodie comes in S, M, L (sold out)');
+    expect(renderCommandReply('{product} for {price} {unknown}', values)).toBe('Cloud Hoodie for $48.00 {unknown}');
+
+    // No link yet, and no sizes on a product without them
+    expect(renderCommandReply(DEFAULT_COMMAND_RESPONSES.link, { ...values, link: null })).toBeNull();
+    const oneSize = commandValues(chat('!sizes'), { ...product, variants: [] }, 1);
+    expect(renderCommandReply(DEFAULT_COMMAND_RESPONSES.sizes, oneSize)).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  transcriptCsvHeader,
+  toTranscriptCsvRow,
+  toTranscriptJsonLine,
+  type TranscriptMessageRow,
+} from '../services/chat-transcript.service.js';
+
+/**
+ * Chat Transcript Export Tests
+ *
+ * These tests verify that:
+ * 1. CSV rows line up with the header and quote commas, quotes and newlines
+ * 2. Chat content that a spreadsheet would run as a formula is neutralized
+ * 3. JSONL export writes one message per line
+ */
+
+function createMessage(overrides: Partial<TranscriptMessageRow> = {}): TranscriptMessageRow {
+  return {
+    id: '7f1c7a52-3f0e-4c55-9d61-2d8f0b8f4a10',
+    platform: 'tiktok',
+    externalId: 'msg-1',
+    type: 'chat',
+    content: 'how much is the serum?',
+    emotes: null,
+    authorId: 'u-1',
+    authorName: 'glowfan',
+    authorImageUrl: null,
+    badges: ['subscriber'],
+    isModerator: false,
+    isSubscriber: true,
+    isVerified: false,
+    gift: null,
+    giftValue: 0,
+    signals: { hasBuyingIntent: true, isQuestion: true, sentiment: 'neutral' },
+    sentAt: new Date('2026-02-01T20:15:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Chat Transcript Export', () => {
+  it('should write one CSV row per message matching the header', () => {
+    const header = transcriptCsvHeader().trim().split(',');
+    const row = toTranscriptCsvRow(createMessage()).trim().split(',');
+
+    expect(row).toHaveLength(header.length);
+    expect(row).toEqual([
+      '2026-02-01T20:15:00.000Z',
+      'tiktok',
+      'chat',
+      'glowfan',
+      'u-1',
+      'how much is the serum?',
+      'subscriber',
+      '',
+      '',
+      '0',
+      'true',
+      'true',
+      'neutral',
+    ]);
+  });
+
+  it('should quote fields with commas, quotes and newlines', () => {
+    const row = toTranscriptCsvRow(createMessage({ content: 'love it, "need" two\nplease' }));
+
+    expect(row).toContain('"love it, ""need"" two\nplease"');
+  });
+
+  it('should neutralize content that starts like a formula', () => {
+    const row = toTranscriptCsvRow(createMessage({ content: '=HYPERLINK("http://evil.test")' }));
+
+    expect(row).toContain(`"'=HYPERLINK(""http://evil.test"")"`);
+  });
+
+  it('should include gifts in the CSV row', () => {
+    const row = toTranscriptCsvRow(createMessage({
+      type: 'gift',
+      gift: { id: 'rose', name: 'Rose', value: 1, count: 5 },
+      giftValue: 5,
+    }));
+
+    expect(row).toContain(',Rose,5,5,');
+  });
+
+  it('should write JSONL as one JSON object per line', () => {
+    const line = toTranscriptJsonLine(createMessage());
+
+    expect(line.endsWith('\n')).toBe(true);
+    expect(line.trim()).not.toContain('\n');
+    expect(JSON.parse(line)).toMatchObject({ externalId: 'msg-1', sentAt: '2026-02-01T20:15:00.000Z' });
+  });
+});
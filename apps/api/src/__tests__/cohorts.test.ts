@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { cohortWeek, summarizeCohort, type CohortBuyer } from '../services/cohort.service.js';
+
+/**
+ * Buyer Cohort Tests
+ *
+ * These tests verify that:
+ * 1. Buyers fall into the week (Monday, UTC) of their first order
+ * 2. Repeat rate and median time to second order only count repeat buyers
+ * 3. LTV is every order's revenue per buyer, in dollars
+ */
+
+function buyer(overrides: Partial<CohortBuyer>): CohortBuyer {
+  return {
+    firstOrderAt: new Date('2026-03-10T18:00:00Z'),
+    secondOrderAt: null,
+    platform: 'tiktok',
+    surface: 'live',
+    orders: 1,
+    revenue: 4800,
+    ...overrides,
+  };
+}
+
+describe('Buyer cohorts', () => {
+  it('should key cohorts by the Monday of the first-purchase week', () => {
+    expect(cohortWeek(new Date('2026-03-09T00:00:00Z'))).toBe('2026-03-09'); // Monday
+    expect(cohortWeek(new Date('2026-03-12T10:00:00Z'))).toBe('2026-03-09');
+    expect(cohortWeek(new Date('2026-03-15T23:59:59Z'))).toBe('2026-03-09'); // Sunday
+  });
+
+  it('should report repeat rate, time to second order and LTV', () => {
+    const stats = summarizeCohort([
+      buyer({ secondOrderAt: new Date('2026-03-12T18:00:00Z'), orders: 3, revenue: 14400 }),
+      buyer({ secondOrderAt: new Date('2026-03-20T18:00:00Z'), orders: 2, revenue: 9600 }),
+      buyer({}),
+      buyer({}),
+    ]);
+
+    expect(stats).toEqual({
+      buyers: 4,
+      repeatBuyers: 2,
+      repeatRate: 50,
+      medianDaysToSecondOrder: 6,
+      avgOrders: 1.75,
+      ltv: 84,
+      revenue: 336,
+    });
+  });
+
+  it('should handle a cohort with no repeat buyers', () => {
+    expect(summarizeCohort([buyer({})])).toMatchObject({ repeatRate: 0, medianDaysToSecondOrder: null, ltv: 48 });
+    expect(summarizeCohort([])).toMatchObject({ buyers: 0, repeatRate: 0, ltv: 0 });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assignVariant,
+  wilsonInterval,
+  summarizeVariants,
+  type VariantCounts,
+} from '../services/experiment.service.js';
+
+/**
+ * Offer Experiment Tests
+ *
+ * These tests verify that:
+ * 1. A visitor always lands in the same variant, and traffic follows the weights
+ * 2. Conversion rate intervals are Wilson intervals
+ * 3. Variants are compared with the control, and only called significant
+ *    when an interval excludes zero
+ */
+
+const experimentId = '33333333-3333-3333-3333-333333333333';
+
+describe('Variant assignment', () => {
+  const variants = [
+    { id: 'control', weight: 1 },
+    { id: 'bigger-discount', weight: 3 },
+  ];
+
+  it('should give a visitor the same variant every time', () => {
+    const first = assignVariant(experimentId, 'visitor-1', variants);
+    for (let i = 0; i < 5; i++) {
+      expect(assignVariant(experimentId, 'visitor-1', variants)).toBe(first);
+    }
+  });
+
+  it('should split traffic by weight', () => {
+    const assigned = { control: 0, 'bigger-discount': 0 };
+    for (let i = 0; i < 4000; i++) {
+      assigned[assignVariant(experimentId, `visitor-${i}`, variants)!.id as keyof typeof assigned]++;
+    }
+
+    expect(assigned.control / 4000).toBeGreaterThan(0.22);
+    expect(assigned.control / 4000).toBeLessThan(0.28);
+  });
+
+  it('should not assign anything without weight', () => {
+    expect(assignVariant(experimentId, 'visitor-1', [])).toBeUndefined();
+  });
+});
+
+describe('Experiment results', () => {
+  function counts(visitors: number, converted: number, orderValue = 5000): VariantCounts {
+    return {
+      visitors,
+      converted,
+      checkouts: visitors,
+      orders: converted,
+      revenue: converted * orderValue,
+      revenueSquares: converted * orderValue * orderValue,
+    };
+  }
+
+  it('should give a Wilson interval for the conversion rate', () => {
+    const [low, high] = wilsonInterval(10, 100);
+    expect(low).toBeCloseTo(0.0552, 3);
+    expect(high).toBeCloseTo(0.1744, 3);
+    expect(wilsonInterval(0, 0)).toEqual([0, 0]);
+  });
+
+  it('should compare each variant with the control', () => {
+    const [control, variant] = summarizeVariants([counts(1000, 100), counts(1000, 150)]);
+
+    expect(control!.vsControl).toBeNull();
+    expect(control!.conversionRate).toBe(10);
+    expect(control!.revenuePerVisitor).toBe(5);
+    expect(variant!.vsControl).toMatchObject({ conversionRateDiff: 5, revenuePerVisitorDiff: 2.5, significant: true });
+    expect(variant!.vsControl!.conversionRateDiffCi[0]).toBeGreaterThan(0);
+  });
+
+  it('should not call a small difference significant', () => {
+    const [, variant] = summarizeVariants([counts(50, 5), counts(50, 6)]);
+
+    expect(variant!.vsControl!.significant).toBe(false);
+    expect(variant!.vsControl!.conversionRateDiffCi[0]).toBeLessThan(0);
+  });
+});
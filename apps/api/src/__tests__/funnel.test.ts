@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { buildFunnel, type FunnelCounts } from '../services/funnel.service.js';
+
+/**
+ * Conversion Funnel Tests
+ *
+ * These tests verify that:
+ * 1. Rejected visits count as impressions, and stock rejections as clicks
+ * 2. Each stage's rate is relative to the stage before it
+ * 3. Drop-offs are attributed to the last stage the visitor reached
+ */
+
+const counts: FunnelCounts = {
+  rejections: { link_expired: 10, offer_inactive: 5, insufficient_inventory: 5 },
+  checkoutsStarted: 80,
+  redirected: 76,
+  completed: 40,
+  abandonedAfterRedirect: 30,
+  revenue: 192000,
+};
+
+describe('Conversion funnel', () => {
+  it('should count every visit from impression to completed order', () => {
+    const funnel = buildFunnel(counts);
+
+    expect(funnel.stages).toEqual([
+      { stage: 'impression', count: 100, rate: 100 },
+      { stage: 'click', count: 85, rate: 85 },
+      { stage: 'checkout_started', count: 80, rate: 94.1 },
+      { stage: 'redirected', count: 76, rate: 95 },
+      { stage: 'completed', count: 40, rate: 52.6 },
+    ]);
+    expect(funnel.conversionRate).toBe(40);
+    expect(funnel.revenue).toBe(1920);
+  });
+
+  it('should break down why visitors dropped off', () => {
+    expect(buildFunnel(counts).dropOffs).toEqual([
+      { stage: 'impression', reason: 'link_expired', count: 10 },
+      { stage: 'impression', reason: 'offer_inactive', count: 5 },
+      { stage: 'click', reason: 'insufficient_inventory', count: 5 },
+      { stage: 'checkout_started', reason: 'checkout_failed', count: 4 },
+      { stage: 'redirected', reason: 'abandoned_after_redirect', count: 30 },
+      { stage: 'redirected', reason: 'in_progress', count: 6 },
+    ]);
+  });
+
+  it('should handle a link nobody visited', () => {
+    const funnel = buildFunnel({
+      rejections: {},
+      checkoutsStarted: 0,
+      redirected: 0,
+      completed: 0,
+      abandonedAfterRedirect: 0,
+      revenue: 0,
+    });
+
+    expect(funnel.stages.every(stage => stage.count === 0)).toBe(true);
+    expect(funnel.dropOffs).toEqual([]);
+    expect(funnel.conversionRate).toBe(0);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import type { Database } from '@unifyed/db';
+import { chatGifts } from '@unifyed/db/schema';
+import type { ChatGift, ChatMessage, ChatPlatform } from '@unifyed/types';
+import { estimateGiftPayout } from '../services/gift-payouts.js';
+import { ChatTranscriptService } from '../services/chat-transcript.service.js';
+
+/**
+ * Gift Revenue Tests
+ *
+ * These tests verify that:
+ * 1. A gift's value counts every gift in it, and the payout uses its platform's rate
+ * 2. Gifts are stored against the live session next to the transcript
+ * 3. A TikTok streak is stored once, from its final message
+ */
+
+function giftMessage(id: string, platform: ChatPlatform, gift: ChatGift): ChatMessage {
+  return {
+    id,
+    platform,
+    type: 'gift',
+    content: `sent ${gift.count}x ${gift.name}`,
+    user: { id: 'u-1', username: 'glowfan', badges: ['gift_sender'], isModerator: false, isSubscriber: false, isVerified: false },
+    gift,
+    timestamp: new Date('2026-02-01T20:15:00Z'),
+  };
+}
+
+describe('Gift revenue', () => {
+  it('should estimate payout by platform', () => {
+    expect(estimateGiftPayout('youtube', { value: 1000, count: 1 })).toEqual({
+      value: 1000,
+      payoutRate: 7000,
+      estimatedPayout: 700,
+    });
+    expect(estimateGiftPayout('twitch', { value: 1, count: 500 })).toEqual({
+      value: 500,
+      payoutRate: 10000,
+      estimatedPayout: 500,
+    });
+    expect(estimateGiftPayout('tiktok', { value: 1, count: 5 }).estimatedPayout).toBe(3);
+  });
+
+  it('should store gifts for the live session, once per streak', async () => {
+    const inserted: Array<{ table: unknown; rows: Array<Record<string, unknown>> }> = [];
+    const db = {
+      select: () => ({ from: () => ({ where: () => ({ orderBy: () => ({ limit: async () => [{ id: 'session-1' }] }) }) }) }),
+      insert: (table: unknown) => ({
+        values: (rows: Array<Record<string, unknown>>) => ({
+          onConflictDoNothing: async () => {
+            inserted.push({ table, rows });
+          },
+        }),
+      }),
+    } as unknown as Database;
+
+    const transcripts = new ChatTranscriptService(db);
+    transcripts.record('creator-1', giftMessage('tt-1', 'tiktok', { id: '5655', name: 'Rose', value: 1, count: 3, streaking: true }));
+    transcripts.record('creator-1', giftMessage('tt-2', 'tiktok', { id: '5655', name: 'Rose', value: 1, count: 10 }));
+    transcripts.record('creator-1', giftMessage('yt-1', 'youtube', { id: 'yt-1', name: 'Super Chat', value: 500, count: 1 }));
+    await transcripts.close();
+
+    const gifts = inserted.find(insert => insert.table === chatGifts)?.rows ?? [];
+    expect(gifts.map(gift => [gift['externalId'], gift['value'], gift['estimatedPayout']])).toEqual([
+      ['tt-2', 10, 5],
+      ['yt-1', 500, 350],
+    ]);
+    expect(gifts[0]).toMatchObject({ liveSessionId: 'session-1', creatorId: 'creator-1', count: 10 });
+  });
+});
@@ -0,0 +1,302 @@
+import { randomUUID } from 'crypto';
+import { Column, SQL, getTableColumns, getTableName, is, type Table } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { Database } from '@unifyed/db';
+
+/**
+ * In-memory stand-in for the database, for running services in tests
+ *
+ * Understands the query shapes services use: selects with inner/left joins,
+ * where clauses made of `and`-ed comparisons (=, <>, <, <=, >, >=, in,
+ * is null), inserts with returning and onConflictDoUpdate, updates with
+ * `column + n` expressions, and deletes. Transactions run against the same
+ * tables without isolation. Anything else throws, so a test can't pass by
+ * silently ignoring part of a query.
+ */
+
+type Row = Record<string, unknown>;
+type Joined = Record<string, Row | null>; // table name -> row
+
+const dialect = new PgDialect();
+
+function columnKeys(table: Table): Map<string, string> {
+  return new Map(Object.entries(getTableColumns(table)).map(([key, column]) => [column.name, key]));
+}
+
+function comparable(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(value)) {
+    return new Date(value).getTime();
+  }
+  return value;
+}
+
+export function createMemoryDb(seed: Map<Table, Row[]> = new Map()) {
+  const tables = new Map<string, { table: Table; rows: Row[]; keys: Map<string, string> }>();
+
+  function storeFor(table: Table) {
+    const name = getTableName(table);
+    let store = tables.get(name);
+    if (!store) {
+      store = { table, rows: [], keys: columnKeys(table) };
+      tables.set(name, store);
+    }
+    return store;
+  }
+
+  for (const [table, rows] of seed) {
+    storeFor(table).rows.push(...rows.map(row => withDefaults(table, row)));
+  }
+
+  function withDefaults(table: Table, values: Row): Row {
+    const row: Row = {};
+    for (const [key, column] of Object.entries(getTableColumns(table))) {
+      if (values[key] !== undefined) {
+        row[key] = values[key];
+      } else if (column.default !== undefined && !is(column.default, SQL)) {
+        row[key] = column.default;
+      } else if (column.hasDefault && column.columnType === 'PgUUID') {
+        row[key] = randomUUID();
+      } else if (column.hasDefault && column.dataType === 'date') {
+        row[key] = new Date();
+      } else {
+        row[key] = null;
+      }
+    }
+    return row;
+  }
+
+  // "table"."column" -> value in a joined row
+  function lookup(joined: Joined, reference: string): unknown {
+    const match = /^"(\w+)"\."(\w+)"$/.exec(reference.trim());
+    if (!match) throw new Error(`Unsupported column reference: ${reference}`);
+    const [, tableName, columnName] = match as unknown as [string, string, string];
+    const store = tables.get(tableName);
+    const row = joined[tableName];
+    if (!store || !row) return null;
+    return row[store.keys.get(columnName)!];
+  }
+
+  function operand(joined: Joined, text: string, params: unknown[]): unknown {
+    const trimmed = text.trim();
+    const param = /^\$(\d+)$/.exec(trimmed);
+    if (param) return params[Number(param[1]) - 1];
+    if (/^-?\d+$/.test(trimmed)) return Number(trimmed);
+    if (/^'.*'$/.test(trimmed)) return trimmed.slice(1, -1);
+    return lookup(joined, trimmed);
+  }
+
+  function matches(joined: Joined, condition: SQL | undefined): boolean {
+    if (!condition) return true;
+    const { sql: text, params } = dialect.sqlToQuery(condition);
+    const body = text.startsWith('(') && text.endsWith(')') ? text.slice(1, -1) : text;
+
+    return body.split(' and ').every(clause => {
+      let match = /^(.+?) (not in|in) \((.+)\)$/.exec(clause);
+      if (match) {
+        const value = comparable(operand(joined, match[1]!, params));
+        const list = match[3]!.split(', ').map(item => comparable(operand(joined, item, params)));
+        return match[2] === 'in' ? list.includes(value) : !list.includes(value);
+      }
+
+      match = /^(.+?) is (not )?null$/.exec(clause);
+      if (match) {
+        const value = operand(joined, match[1]!, params);
+        return match[2] ? value !== null && value !== undefined : value === null || value === undefined;
+      }
+
+      match = /^(.+?) (=|<>|<=|>=|<|>) (.+)$/.exec(clause);
+      if (match) {
+        const left = comparable(operand(joined, match[1]!, params)) as number;
+        const right = comparable(operand(joined, match[3]!, params)) as number;
+        switch (match[2]) {
+          case '=': return left === right;
+          case '<>': return left !== right;
+          case '<': return left < right;
+          case '<=': return left <= right;
+          case '>': return left > right;
+          case '>=': return left >= right;
+        }
+      }
+
+      throw new Error(`Unsupported condition: ${clause}`);
+    });
+  }
+
+  // `column + n` in update sets
+  function evaluate(row: Row, table: Table, value: unknown): unknown {
+    if (!is(value, SQL)) return value;
+    const { sql: text, params } = dialect.sqlToQuery(value);
+    const match = /^(.+?) \+ (.+)$/.exec(text);
+    if (!match) throw new Error(`Unsupported expression: ${text}`);
+    const joined = { [getTableName(table)]: row };
+    return Number(operand(joined, match[1]!, params)) + Number(operand(joined, match[2]!, params));
+  }
+
+  function project(joined: Joined, fromTable: Table, selection: Record<string, unknown> | undefined): Row {
+    if (!selection) return { ...joined[getTableName(fromTable)] };
+
+    const result: Row = {};
+    for (const [key, value] of Object.entries(selection)) {
+      if (is(value, Column)) {
+        const store = storeFor(value.table);
+        const row = joined[getTableName(value.table)];
+        result[key] = row ? row[store.keys.get(value.name)!] : null;
+      } else {
+        const row = joined[getTableName(value as Table)];
+        result[key] = row ? { ...row } : null;
+      }
+    }
+    return result;
+  }
+
+  function select(selection?: Record<string, unknown>) {
+    return {
+      from(fromTable: Table) {
+        const joins: Array<{ table: Table; on: SQL; left: boolean }> = [];
+        let condition: SQL | undefined;
+        let order: Column | undefined;
+        let limit: number | undefined;
+
+        const run = () => {
+          let rows: Joined[] = storeFor(fromTable).rows.map(row => ({ [getTableName(fromTable)]: row }));
+          for (const join of joins) {
+            const joinRows = storeFor(join.table).rows;
+            rows = rows.flatMap(joined => {
+              const found = joinRows
+                .map(row => ({ ...joined, [getTableName(join.table)]: row }))
+                .filter(candidate => matches(candidate, join.on));
+              return found.length > 0 || !join.left ? found : [{ ...joined, [getTableName(join.table)]: null }];
+            });
+          }
+          rows = rows.filter(joined => matches(joined, condition));
+          if (order) {
+            const sortBy = order;
+            const key = storeFor(sortBy.table).keys.get(sortBy.name)!;
+            const tableName = getTableName(sortBy.table);
+            rows.sort((a, b) =>
+              (comparable(a[tableName]?.[key]) as number) - (comparable(b[tableName]?.[key]) as number));
+          }
+          return rows.slice(0, limit).map(joined => project(joined, fromTable, selection));
+        };
+
+        const query = {
+          innerJoin(table: Table, on: SQL) { joins.push({ table, on, left: false }); return query; },
+          leftJoin(table: Table, on: SQL) { joins.push({ table, on, left: true }); return query; },
+          where(where: SQL | undefined) { condition = where; return query; },
+          orderBy(column: unknown) { if (is(column, Column)) order = column; return query; },
+          limit(count: number) { limit = count; return query; },
+          for() { return query; },
+          then<T>(resolve: (rows: Row[]) => T, reject?: (error: unknown) => T) {
+            return Promise.resolve().then(run).then(resolve, reject);
+          },
+        };
+        return query;
+      },
+    };
+  }
+
+  function insert(table: Table) {
+    return {
+      values(values: Row | Row[]) {
+        const store = storeFor(table);
+        let conflict: { target: Column[]; set: Row } | undefined;
+        let returning: Record<string, unknown> | undefined | null = null;
+
+        const run = () => {
+          const written = (Array.isArray(values) ? values : [values]).map(value => {
+            const row = withDefaults(table, value);
+            const existing = conflict && store.rows.find(candidate =>
+              conflict!.target.every(column => {
+                const key = store.keys.get(column.name)!;
+                return candidate[key] === row[key];
+              }));
+            if (existing) {
+              for (const [key, set] of Object.entries(conflict!.set)) {
+                existing[key] = evaluate(existing, table, set);
+              }
+              return existing;
+            }
+            store.rows.push(row);
+            return row;
+          });
+          return returning === null
+            ? []
+            : written.map(row => project({ [getTableName(table)]: row }, table, returning ?? undefined));
+        };
+
+        const query = {
+          onConflictDoUpdate(config: { target: Column[]; set: Row }) { conflict = config; return query; },
+          onConflictDoNothing() { return query; },
+          returning(selection?: Record<string, unknown>) { returning = selection; return query; },
+          then<T>(resolve: (rows: Row[]) => T, reject?: (error: unknown) => T) {
+            return Promise.resolve().then(run).then(resolve, reject);
+          },
+        };
+        return query;
+      },
+    };
+  }
+
+  function update(table: Table) {
+    return {
+      set(values: Row) {
+        let condition: SQL | undefined;
+        let returning: Record<string, unknown> | undefined | null = null;
+
+        const run = () => {
+          const name = getTableName(table);
+          const updated = storeFor(table).rows.filter(row => matches({ [name]: row }, condition));
+          for (const row of updated) {
+            const next = Object.fromEntries(
+              Object.entries(values).map(([key, value]) => [key, evaluate(row, table, value)])
+            );
+            Object.assign(row, next);
+          }
+          return returning === null
+            ? []
+            : updated.map(row => project({ [name]: row }, table, returning ?? undefined));
+        };
+
+        const query = {
+          where(where: SQL | undefined) { condition = where; return query; },
+          returning(selection?: Record<string, unknown>) { returning = selection; return query; },
+          then<T>(resolve: (rows: Row[]) => T, reject?: (error: unknown) => T) {
+            return Promise.resolve().then(run).then(resolve, reject);
+          },
+        };
+        return query;
+      },
+    };
+  }
+
+  function remove(table: Table) {
+    let condition: SQL | undefined;
+    const run = () => {
+      const store = storeFor(table);
+      const name = getTableName(table);
+      store.rows = store.rows.filter(row => !matches({ [name]: row }, condition));
+      return [];
+    };
+    const query = {
+      where(where: SQL | undefined) { condition = where; return query; },
+      then<T>(resolve: (rows: Row[]) => T, reject?: (error: unknown) => T) {
+        return Promise.resolve().then(run).then(resolve, reject);
+      },
+    };
+    return query;
+  }
+
+  const db = {
+    select,
+    insert,
+    update,
+    delete: remove,
+    transaction: async <T>(fn: (tx: unknown) => Promise<T>) => fn(db),
+  };
+
+  return {
+    db: db as unknown as Database,
+    rows: <T extends Table>(table: T) => storeFor(table).rows as Array<T['$inferSelect']>,
+  };
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { matchOrderLines, type CheckoutCartItem } from '../services/order-lines.js';
+
+/**
+ * Order Line Matching Tests
+ *
+ * These tests verify that:
+ * 1. Each order line is matched to its cart line, with that line's discount
+ * 2. A variant on several cart lines keeps each line's offer, whether the
+ *    store keeps the lines apart or merges them
+ * 3. Quantities no cart line accounts for are kept without a discount
+ */
+
+const externalIds = new Map([
+  ['var-shirt', 'gid-shirt'],
+  ['var-mug', 'gid-mug'],
+]);
+
+// The shirt is in two bundles and also bought on its own
+const cartItems: CheckoutCartItem[] = [
+  { variantId: 'var-shirt', quantity: 1, price: 2000, offerPrice: 1500, offerId: 'offer-bundle-a' },
+  { variantId: 'var-mug', quantity: 1, price: 1000, offerPrice: 500, offerId: 'offer-bundle-a' },
+  { variantId: 'var-shirt', quantity: 1, price: 2000, offerPrice: 1200, offerId: 'offer-bundle-b' },
+  { variantId: 'var-shirt', quantity: 2, price: 2000 },
+];
+
+describe('Order line matching', () => {
+  it('should match lines the store keeps apart to their own cart lines', () => {
+    const lines = matchOrderLines(
+      [
+        { externalVariantId: 'gid-shirt', title: 'Shirt', quantity: 1, price: 1500 },
+        { externalVariantId: 'gid-mug', title: 'Mug', quantity: 1, price: 500 },
+        { externalVariantId: 'gid-shirt', title: 'Shirt', quantity: 1, price: 1200 },
+        { externalVariantId: 'gid-shirt', title: 'Shirt', quantity: 2, price: 2000 },
+      ],
+      cartItems,
+      externalIds
+    );
+
+    expect(lines.map(line => [line.variantId, line.quantity, line.discount, line.offerId])).toEqual([
+      ['var-shirt', 1, 500, 'offer-bundle-a'],
+      ['var-mug', 1, 500, 'offer-bundle-a'],
+      ['var-shirt', 1, 800, 'offer-bundle-b'],
+      ['var-shirt', 2, 0, undefined],
+    ]);
+  });
+
+  it('should split a merged line across the cart lines it covers', () => {
+    const lines = matchOrderLines(
+      [
+        { externalVariantId: 'gid-shirt', title: 'Shirt', quantity: 4, price: 1675 },
+        { externalVariantId: 'gid-mug', title: 'Mug', quantity: 1, price: 500 },
+      ],
+      cartItems,
+      externalIds
+    );
+
+    expect(lines.map(line => [line.variantId, line.quantity, line.discount, line.offerId])).toEqual([
+      ['var-shirt', 1, 500, 'offer-bundle-a'],
+      ['var-shirt', 1, 800, 'offer-bundle-b'],
+      ['var-shirt', 2, 0, undefined],
+      ['var-mug', 1, 500, 'offer-bundle-a'],
+    ]);
+    expect(lines.every(line => line.price === (line.variantId === 'var-mug' ? 500 : 1675))).toBe(true);
+  });
+
+  it('should keep quantities the cart does not account for without a discount', () => {
+    const lines = matchOrderLines(
+      [
+        { externalVariantId: 'gid-mug', title: 'Mug', quantity: 3, price: 1000 },
+        { externalVariantId: 'gid-hat', title: 'Hat', quantity: 1, price: 1500 },
+      ],
+      cartItems,
+      externalIds
+    );
+
+    expect(lines).toEqual([
+      {
+        variantId: 'var-mug',
+        externalVariantId: 'gid-mug',
+        title: 'Mug',
+        quantity: 1,
+        price: 1000,
+        originalPrice: 1000,
+        discount: 500,
+        offerId: 'offer-bundle-a',
+      },
+      { variantId: '', externalVariantId: 'gid-mug', title: 'Mug', quantity: 2, price: 1000 },
+      { variantId: '', externalVariantId: 'gid-hat', title: 'Hat', quantity: 1, price: 1500 },
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import type { Database } from '@unifyed/db';
+import type { ChatMessage, ChatPlatform } from '@unifyed/types';
+import { resolveShortLinkQuerySchema } from '@unifyed/types/api';
+import { ViewerService, viewerTier } from '../services/viewer.service.js';
+
+/**
+ * Viewer Profile Tests
+ *
+ * These tests verify that:
+ * 1. Viewers become buyers with their first order and VIPs past the spend or order threshold
+ * 2. Buyer badges are matched by platform account, so one viewer is badged on every platform
+ * 3. The ?v= handle on links is read leniently and never fails a checkout
+ */
+
+function viewer(id: string, ordersCount: number, lifetimeSpend: number) {
+  return {
+    id,
+    creatorId: 'creator-1',
+    handle: `h${id}`,
+    displayName: id,
+    email: null,
+    ordersCount,
+    lifetimeSpend,
+    sessionsAttended: 3,
+    firstSeenAt: new Date(),
+    lastSeenAt: new Date(),
+    lastPurchaseAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+function chat(platform: ChatPlatform, userId: string): ChatMessage {
+  return {
+    id: `${platform}-${userId}`,
+    platform,
+    type: 'chat',
+    content: 'hi!',
+    user: { id: userId, username: userId, badges: [], isModerator: false, isSubscriber: false, isVerified: false },
+    timestamp: new Date(),
+  };
+}
+
+describe('Viewer profiles', () => {
+  it('should tier viewers by purchase history', () => {
+    expect(viewerTier({ ordersCount: 0, lifetimeSpend: 0 })).toBeNull();
+    expect(viewerTier({ ordersCount: 1, lifetimeSpend: 2_500 })).toBe('buyer');
+    expect(viewerTier({ ordersCount: 2, lifetimeSpend: 50_000 })).toBe('vip');
+    expect(viewerTier({ ordersCount: 5, lifetimeSpend: 9_000 })).toBe('vip');
+  });
+
+  it('should badge buyers on each of their chat accounts', async () => {
+    const rows = [
+      { platform: 'twitch', platformUserId: 't-1', viewer: viewer('v-1', 6, 12_000) },
+      { platform: 'tiktok', platformUserId: 'tt-1', viewer: viewer('v-1', 6, 12_000) },
+      { platform: 'youtube', platformUserId: 'y-2', viewer: viewer('v-2', 1, 4_000) },
+    ];
+    const db = {
+      select: () => ({ from: () => ({ innerJoin: () => ({ where: async () => rows }) }) }),
+    } as unknown as Database;
+
+    const service = new ViewerService(db);
+    await service.loadBadges('creator-1');
+
+    expect(service.badgeFor('creator-1', chat('twitch', 't-1'))).toEqual({
+      id: 'v-1',
+      tier: 'vip',
+      ordersCount: 6,
+      lifetimeSpend: 12_000,
+      sessionsAttended: 3,
+    });
+    expect(service.badgeFor('creator-1', chat('tiktok', 'tt-1'))?.id).toBe('v-1');
+    expect(service.badgeFor('creator-1', chat('youtube', 'y-2'))?.tier).toBe('buyer');
+    // Same user ID on another platform is someone else
+    expect(service.badgeFor('creator-1', chat('youtube', 't-1'))).toBeUndefined();
+    expect(service.badgeFor('creator-2', chat('twitch', 't-1'))).toBeUndefined();
+  });
+
+  it('should read the viewer handle from link clicks', () => {
+    expect(resolveShortLinkQuerySchema.parse({ v: 'k3x9m2qa7b' }).v).toBe('k3x9m2qa7b');
+    expect(resolveShortLinkQuerySchema.parse({ v: '<script>' }).v).toBeUndefined();
+    expect(resolveShortLinkQuerySchema.parse({}).v).toBeUndefined();
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
+import { signWebhookPayload, verifyHmacSignature } from '@unifyed/utils';
+
+/**
+ * Outbound Webhook Signing Tests
+ *
+ * These tests verify that:
+ * 1. The signature is the HMAC of `${timestamp}.${body}` a receiver can recompute
+ * 2. Changing the timestamp or body changes the signature
+ */
+
+describe('Outbound Webhook Signing', () => {
+  const secret = 'whsec_test_secret';
+  const body = JSON.stringify({ id: 'evt_1', type: 'PURCHASE_COMPLETED', data: { total: 4200 } });
+  const timestamp = 1767225600;
+
+  it('should sign timestamp and body so a receiver can verify it', () => {
+    const signature = signWebhookPayload(body, timestamp, secret);
+
+    const expected = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('base64');
+    expect(signature).toBe(expected);
+    expect(verifyHmacSignature(`${timestamp}.${body}`, signature, secret)).toBe(true);
+  });
+
+  it('should not verify when the timestamp or body is changed', () => {
+    const signature = signWebhookPayload(body, timestamp, secret);
+
+    expect(verifyHmacSignature(`${timestamp + 1}.${body}`, signature, secret)).toBe(false);
+    expect(verifyHmacSignature(`${timestamp}.${body} `, signature, secret)).toBe(false);
+  });
+});
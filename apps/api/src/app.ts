@@ -10,7 +10,9 @@ import { env } from './config/env.js';
 import { dbPlugin } from './plugins/db.js';
 import { redisPlugin } from './plugins/redis.js';
 import { eventsPlugin } from './plugins/events.js';
+import { auditPlugin } from './plugins/audit.js';
 import { errorHandler } from './plugins/error-handler.js';
+import { ApiKeyService, getRateLimitKey, getRateLimitMax } from './services/api-key.service.js';
 
 // Routes
 import { healthRoutes } from './routes/health.js';
@@ -18,12 +20,18 @@ import { authRoutes } from './routes/auth.js';
 import { connectionsRoutes } from './routes/connections.js';
 import { catalogRoutes } from './routes/catalog.js';
 import { offersRoutes } from './routes/offers.js';
+import { experimentsRoutes } from './routes/experiments.js';
 import { streamsRoutes } from './routes/streams.js';
 import { replaysRoutes } from './routes/replays.js';
 import { linksRoutes } from './routes/links.js';
 import { checkoutRoutes } from './routes/checkout.js';
+import { cartsRoutes } from './routes/carts.js';
 import { ordersRoutes } from './routes/orders.js';
 import { webhooksRoutes } from './routes/webhooks.js';
+import { webhookEndpointsRoutes } from './routes/webhook-endpoints.js';
+import { apiKeysRoutes } from './routes/api-keys.js';
+import { teamRoutes } from './routes/team.js';
+import { auditRoutes } from './routes/audit.js';
 import { publicRoutes } from './routes/public.js';
 import { metricsRoutes } from './routes/metrics.js';
 import { paymentsRoutes } from './routes/payments.js';
@@ -32,6 +40,9 @@ import { analyticsRoutes } from './routes/analytics.js';
 import { chatRoutes, chatWebSocketRoutes } from './routes/chat.js';
 import { chatCommerceRoutes } from './routes/chat-commerce.js';
 import { chatAIRoutes } from './routes/chat-ai.js';
+import { chatAnswersRoutes } from './routes/chat-answers.js';
+import { chatCommandsRoutes } from './routes/chat-commands.js';
+import { viewersRoutes } from './routes/viewers.js';
 import { sessionTemplatesRoutes } from './routes/session-templates.js';
 
 export async function buildApp() {
@@ -73,9 +84,11 @@ export async function buildApp() {
     credentials: true,
   });
 
-  // Rate limiting
+  // Rate limiting - per API key (each key has its own limit), otherwise per IP.
+  // app.db is decorated further down, so the service is created per lookup.
   await app.register(rateLimit, {
-    max: 100,
+    max: async (_request, key) => getRateLimitMax(key, new ApiKeyService(app.db)),
+    keyGenerator: (request) => getRateLimitKey(request, new ApiKeyService(app.db)),
     timeWindow: '1 minute',
   });
 
@@ -92,6 +105,7 @@ export async function buildApp() {
   await app.register(dbPlugin);
   await app.register(redisPlugin);
   await app.register(eventsPlugin);
+  await app.register(auditPlugin);
 
   // Error handler
   app.setErrorHandler(errorHandler);
@@ -99,15 +113,21 @@ export async function buildApp() {
   // Routes
   await app.register(healthRoutes, { prefix: '/health' });
   await app.register(authRoutes, { prefix: '/auth' });
+  await app.register(apiKeysRoutes, { prefix: '/api-keys' });
+  await app.register(teamRoutes, { prefix: '/team' });
+  await app.register(auditRoutes, { prefix: '/audit' });
   await app.register(connectionsRoutes, { prefix: '/connections' });
   await app.register(catalogRoutes, { prefix: '/catalog' });
   await app.register(offersRoutes, { prefix: '/offers' });
+  await app.register(experimentsRoutes, { prefix: '/experiments' });
   await app.register(streamsRoutes, { prefix: '/streams' });
   await app.register(replaysRoutes, { prefix: '/replays' });
   await app.register(linksRoutes, { prefix: '/links' });
   await app.register(checkoutRoutes, { prefix: '/go' });
+  await app.register(cartsRoutes, { prefix: '/carts' });
   await app.register(ordersRoutes, { prefix: '/orders' });
   await app.register(webhooksRoutes, { prefix: '/webhooks' });
+  await app.register(webhookEndpointsRoutes, { prefix: '/webhook-endpoints' });
   await app.register(publicRoutes, { prefix: '/public' });
   await app.register(metricsRoutes, { prefix: '/metrics' });
   await app.register(paymentsRoutes, { prefix: '/payments' });
@@ -117,6 +137,9 @@ export async function buildApp() {
   await app.register(chatWebSocketRoutes, { prefix: '/chat' });
   await app.register(chatCommerceRoutes, { prefix: '/chat-commerce' });
   await app.register(chatAIRoutes, { prefix: '/chat-ai' });
+  await app.register(chatAnswersRoutes, { prefix: '/chat-answers' });
+  await app.register(chatCommandsRoutes, { prefix: '/chat-commands' });
+  await app.register(viewersRoutes, { prefix: '/viewers' });
   await app.register(sessionTemplatesRoutes, { prefix: '/session-templates' });
 
   return app;
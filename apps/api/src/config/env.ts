@@ -55,6 +55,12 @@ const envSchema = z.object({
   // Supabase
   SUPABASE_URL: z.string().url().optional(),
   SUPABASE_SERVICE_ROLE_KEY: z.string().optional(),
+
+  // Chat classifier: model-backed when a key or endpoint is set, regex otherwise
+  OPENAI_API_KEY: z.string().optional(),
+  CHAT_CLASSIFIER_URL: z.string().url().default('https://api.openai.com/v1'),
+  CHAT_CLASSIFIER_MODEL: z.string().default('gpt-4o-mini'),
+  CHAT_CLASSIFIER: z.enum(['regex', 'model']).optional(),
 });
 
 function validateEnv() {
@@ -0,0 +1,57 @@
+import type { TeamRole } from '@unifyed/types/api';
+
+/**
+ * Team roles allowed on a route group. GET/HEAD requests check `read`,
+ * everything else `write`. The account owner is always allowed; route
+ * groups registered without a policy are owner-only.
+ */
+export interface RouteAccess {
+  read: readonly TeamRole[];
+  write: readonly TeamRole[];
+}
+
+const ALL_ROLES: readonly TeamRole[] = ['manager', 'producer', 'moderator', 'analyst'];
+const PRODUCTION: readonly TeamRole[] = ['manager', 'producer'];
+const LIVE_CREW: readonly TeamRole[] = ['manager', 'producer', 'moderator'];
+const REPORTING: readonly TeamRole[] = ['manager', 'producer', 'analyst'];
+
+export const ROUTE_ACCESS = {
+  // /auth/me, logout - every member can see who they are
+  account: { read: ALL_ROLES, write: ALL_ROLES },
+
+  // Commerce setup
+  catalog: { read: REPORTING, write: PRODUCTION },
+  offers: { read: REPORTING, write: PRODUCTION },
+  links: { read: REPORTING, write: PRODUCTION },
+
+  // Running the show
+  streams: { read: REPORTING, write: PRODUCTION },
+  replays: { read: REPORTING, write: PRODUCTION },
+  liveSessions: { read: [...LIVE_CREW, 'analyst'], write: PRODUCTION },
+  sessionTemplates: { read: PRODUCTION, write: PRODUCTION },
+  chat: { read: LIVE_CREW, write: LIVE_CREW },
+
+  // Numbers
+  analytics: { read: REPORTING, write: [] },
+  metrics: { read: REPORTING, write: ALL_ROLES }, // writes are UI event tracking
+  orders: { read: ['manager', 'analyst'], write: ['manager'] },
+  // Viewer profiles; emails only where orders are readable
+  viewers: { read: [...LIVE_CREW, 'analyst'], write: [] },
+
+  // Account administration
+  connections: { read: ['manager'], write: ['manager'] },
+  webhooks: { read: ['manager'], write: ['manager'] },
+  team: { read: ['manager'], write: ['manager'] },
+  audit: { read: ['manager'], write: [] },
+} satisfies Record<string, RouteAccess>;
+
+export function canAccess(role: TeamRole, method: string, access?: RouteAccess): boolean {
+  if (role === 'owner') {
+    return true;
+  }
+  if (!access) {
+    return false;
+  }
+  const roles = method === 'GET' || method === 'HEAD' ? access.read : access.write;
+  return roles.includes(role);
+}
@@ -0,0 +1,15 @@
+import { RegexChatClassifier, type ChatClassifier } from '../services/ai-chat.service.js';
+import { ModelChatClassifier } from '../services/chat-classifier.service.js';
+import { env } from '../config/env.js';
+
+// Chat is only sent to a model when asked for; an API key alone (or the
+// placeholder from .env.example) keeps the regex engine
+const useModel = env.CHAT_CLASSIFIER === 'model';
+
+export const chatClassifier: ChatClassifier = useModel
+  ? new ModelChatClassifier({
+      baseUrl: env.CHAT_CLASSIFIER_URL,
+      model: env.CHAT_CLASSIFIER_MODEL,
+      apiKey: env.OPENAI_API_KEY,
+    })
+  : new RegexChatClassifier();
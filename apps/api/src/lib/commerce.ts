@@ -0,0 +1,9 @@
+import { createCommerceRegistry } from '@unifyed/commerce';
+import { env } from '../config/env.js';
+
+// Commerce backends, keyed by connection platform. Stripe is keyed as `stripe`.
+export const commerceBackends = createCommerceRegistry({
+  shopifyWebhookSecret: env.SHOPIFY_CLIENT_SECRET,
+  stripeWebhookSecret: env.STRIPE_WEBHOOK_SECRET,
+  appUrl: env.APP_URL,
+});
@@ -0,0 +1,66 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import fp from 'fastify-plugin';
+import { AUDIT_REASON_HEADER } from '@unifyed/types/api';
+import { AuditService, diffChanges } from '../services/audit.service.js';
+
+const MAX_REASON_LENGTH = 500;
+
+export interface AuditEntry {
+  action: string;
+  resourceType: string;
+  resourceId?: string | null;
+  // Snapshots of the resource around the change; only differing fields are kept
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    audit: (request: FastifyRequest, entry: AuditEntry) => Promise<void>;
+  }
+}
+
+async function auditPluginCallback(fastify: FastifyInstance) {
+  const auditService = new AuditService(fastify.db);
+
+  /**
+   * Record an authenticated change to the audit log. Call it after the change
+   * succeeded. A failed write is logged rather than thrown, so a change that
+   * already happened is never reported to the client as failed.
+   */
+  async function audit(request: FastifyRequest, entry: AuditEntry): Promise<void> {
+    const reasonHeader = request.headers[AUDIT_REASON_HEADER];
+    const reason = typeof reasonHeader === 'string' && reasonHeader.trim()
+      ? reasonHeader.trim().slice(0, MAX_REASON_LENGTH)
+      : null;
+
+    const userAgent = request.headers['user-agent'];
+
+    try {
+      await auditService.record({
+        creatorId: request.creator.id,
+        ...(request.apiKey
+          ? { actorType: 'api_key' as const, actorId: request.apiKey.id, actorRole: null }
+          : { actorType: 'user' as const, actorId: request.member.profileId, actorRole: request.member.role }),
+        action: entry.action,
+        resourceType: entry.resourceType,
+        resourceId: entry.resourceId ?? null,
+        changes: diffChanges(entry.before ?? {}, entry.after ?? {}),
+        reason,
+        method: request.method,
+        route: request.routeOptions.url ?? request.url,
+        ipAddress: request.ip,
+        userAgent: userAgent ?? null,
+      });
+    } catch (error) {
+      fastify.log.error({ err: error, action: entry.action, resourceId: entry.resourceId }, 'Failed to write audit log');
+    }
+  }
+
+  fastify.decorate('audit', audit);
+}
+
+export const auditPlugin = fp(auditPluginCallback, {
+  name: 'audit',
+  dependencies: ['db'],
+});
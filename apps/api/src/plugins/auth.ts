@@ -1,18 +1,33 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import fp from 'fastify-plugin';
-import { eq } from 'drizzle-orm';
-import { profiles } from '@unifyed/db/schema';
-import { unauthorized } from '@unifyed/utils';
+import { eq, and } from 'drizzle-orm';
+import { profiles, teamMembers } from '@unifyed/db/schema';
+import { unauthorized, forbidden } from '@unifyed/utils';
+import { TEAM_ACCOUNT_HEADER, type ApiKeyResource, type TeamRole } from '@unifyed/types/api';
 import { verifySupabaseToken } from '../lib/supabase.js';
+import { canAccess, type RouteAccess } from '../lib/access.js';
+import { ApiKeyService, API_KEY_PREFIX } from '../services/api-key.service.js';
 
 declare module 'fastify' {
   interface FastifyRequest {
+    // The account being acted on. For team members this is the account
+    // owner's profile, not their own.
     creator: {
       id: string;
       email: string;
       name: string;
       handle: string | null;
     };
+    // Set when the request authenticated with an API key instead of a session
+    apiKey: {
+      id: string;
+      scopes: string[];
+    } | null;
+    // Who is acting on the account and with which role
+    member: {
+      profileId: string;
+      role: TeamRole;
+    };
   }
 }
 
@@ -24,9 +39,113 @@ declare module '@fastify/jwt' {
   }
 }
 
-async function authPluginCallback(fastify: FastifyInstance) {
+export interface AuthPluginOptions {
+  /**
+   * Accept API keys on these routes. GET/HEAD need `<scope>:read`, other
+   * methods `<scope>:write`. Without it, API keys are rejected.
+   */
+  apiKeyScope?: ApiKeyResource;
+  /**
+   * Team roles allowed on these routes. Without it, only the account owner
+   * can use them.
+   */
+  access?: RouteAccess;
+}
+
+type ProfileSummary = Pick<typeof profiles.$inferSelect, 'id' | 'email' | 'name' | 'handle'>;
+
+function toCreator(profile: ProfileSummary): FastifyRequest['creator'] {
+  return {
+    id: profile.id,
+    email: profile.email,
+    name: profile.name || 'Creator',
+    handle: profile.handle,
+  };
+}
+
+async function authPluginCallback(fastify: FastifyInstance, options: AuthPluginOptions) {
+  const apiKeyService = new ApiKeyService(fastify.db);
+
+  /**
+   * Authenticate a server-to-server request made with an API key
+   */
+  async function authenticateApiKey(request: FastifyRequest, key: string) {
+    const apiKey = await apiKeyService.authenticate(key);
+    if (!apiKey) {
+      throw unauthorized('Invalid, expired or revoked API key');
+    }
+
+    if (!options.apiKeyScope) {
+      throw forbidden('API keys cannot access this endpoint');
+    }
+
+    const access = request.method === 'GET' || request.method === 'HEAD' ? 'read' : 'write';
+    const requiredScope = `${options.apiKeyScope}:${access}`;
+    if (!apiKey.scopes.includes(requiredScope)) {
+      throw forbidden(`API key is missing the ${requiredScope} scope`);
+    }
+
+    const [profile] = await fastify.db
+      .select({
+        id: profiles.id,
+        email: profiles.email,
+        name: profiles.name,
+        handle: profiles.handle,
+      })
+      .from(profiles)
+      .where(eq(profiles.id, apiKey.creatorId))
+      .limit(1);
+
+    if (!profile) {
+      throw unauthorized('API key owner not found');
+    }
+
+    // Keys belong to the account, so they act as its owner within their scopes
+    request.creator = toCreator(profile);
+    request.apiKey = { id: apiKey.id, scopes: apiKey.scopes };
+    request.member = { profileId: profile.id, role: 'owner' };
+  }
+
+  /**
+   * Switch to the account named in the X-Creator-Id header, if the user is a
+   * member of it, and check their role against the route policy
+   */
+  async function resolveTeamAccount(request: FastifyRequest, own: ProfileSummary) {
+    const accountId = request.headers[TEAM_ACCOUNT_HEADER];
+
+    if (typeof accountId !== 'string' || accountId === own.id) {
+      request.creator = toCreator(own);
+      request.member = { profileId: own.id, role: 'owner' };
+      return;
+    }
+
+    const [membership] = await fastify.db
+      .select({
+        role: teamMembers.role,
+        id: profiles.id,
+        email: profiles.email,
+        name: profiles.name,
+        handle: profiles.handle,
+      })
+      .from(teamMembers)
+      .innerJoin(profiles, eq(teamMembers.creatorId, profiles.id))
+      .where(and(
+        eq(teamMembers.creatorId, accountId),
+        eq(teamMembers.profileId, own.id)
+      ))
+      .limit(1);
+
+    if (!membership) {
+      throw forbidden('You are not a member of this account');
+    }
+
+    const { role, ...account } = membership;
+    request.creator = toCreator(account);
+    request.member = { profileId: own.id, role };
+  }
+
   /**
-   * Authentication hook - verifies Supabase JWT and loads creator profile
+   * Authentication hook - verifies Supabase JWT (or an API key) and loads creator profile
    */
   fastify.decorate('authenticate', async function (
     request: FastifyRequest,
@@ -40,6 +159,12 @@ async function authPluginCallback(fastify: FastifyInstance) {
     
     const token = authHeader.substring(7);
     
+    if (token.startsWith(API_KEY_PREFIX)) {
+      await authenticateApiKey(request, token);
+      return;
+    }
+    request.apiKey = null;
+    
     // Verify with Supabase
     const user = await verifySupabaseToken(token);
     if (!user) {
@@ -58,9 +183,11 @@ async function authPluginCallback(fastify: FastifyInstance) {
       .where(eq(profiles.id, user.id))
       .limit(1);
 
-    if (!profile) {
+    let own: ProfileSummary | undefined = profile;
+
+    if (!own) {
       // Profile doesn't exist yet - create it
-      const [newProfile] = await fastify.db
+      [own] = await fastify.db
         .insert(profiles)
         .values({
           id: user.id,
@@ -75,28 +202,20 @@ async function authPluginCallback(fastify: FastifyInstance) {
           handle: profiles.handle,
         });
       
-      if (!newProfile) {
+      if (!own) {
         throw unauthorized('Failed to create profile');
       }
-      
-      request.creator = {
-        id: newProfile.id,
-        email: newProfile.email,
-        name: newProfile.name || 'Creator',
-        handle: newProfile.handle,
-      };
-    } else {
-      request.creator = {
-        id: profile.id,
-        email: profile.email,
-        name: profile.name || 'Creator',
-        handle: profile.handle,
-      };
+    }
+
+    await resolveTeamAccount(request, own);
+
+    if (!canAccess(request.member.role, request.method, options.access)) {
+      throw forbidden(`The ${request.member.role} role cannot access this endpoint`);
     }
   });
 }
 
-export const authPlugin = fp(authPluginCallback, {
+export const authPlugin = fp<AuthPluginOptions>(authPluginCallback, {
   name: 'auth',
   dependencies: ['db'],
 });
@@ -12,6 +12,8 @@ declare module 'fastify' {
       streamDetection: Queue;
       reservationExpiry: Queue;
       eventProcessor: Queue;
+      flashSale: Queue;
+      webhookDelivery: Queue;
     };
   }
 }
@@ -35,6 +37,8 @@ async function redisPluginCallback(fastify: FastifyInstance) {
     streamDetection: new Queue('stream-detection', { connection }),
     reservationExpiry: new Queue('reservation-expiry', { connection }),
     eventProcessor: new Queue('event-processor', { connection }),
+    flashSale: new Queue('flash-sale', { connection }),
+    webhookDelivery: new Queue('webhook-delivery', { connection }),
   };
 
   fastify.decorate('redis', redis);
@@ -2,7 +2,12 @@ import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { eq, and, count, sum, desc } from 'drizzle-orm';
 import { AnalyticsService } from '../services/analytics.service.js';
+import { ATTRIBUTION_MODELS } from '../services/attribution.service.js';
+import { CohortService } from '../services/cohort.service.js';
+import { FunnelService } from '../services/funnel.service.js';
 import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
+import { platformSchema } from '@unifyed/types';
 import { liveSessions, orders, checkoutSessions, attributionContexts, streams } from '@unifyed/db/schema';
 
 // Validation schemas
@@ -10,17 +15,40 @@ const periodSchema = z.object({
   period: z.enum(['day', 'week', 'month', '7d', '30d', '90d']).optional().default('7d'),
 });
 
+const revenueBreakdownSchema = periodSchema.extend({
+  model: z.enum(ATTRIBUTION_MODELS).optional().default('last_touch'),
+});
+
 const topItemsSchema = z.object({
   period: z.enum(['day', 'week', 'month', '7d', '30d', '90d']).optional().default('7d'),
   limit: z.coerce.number().min(1).max(50).optional().default(5),
 });
 
+const cohortsSchema = z.object({
+  weeks: z.coerce.number().int().min(1).max(52).optional().default(12),
+});
+
+// ?from=&to= override ?period=
+const funnelSchema = periodSchema
+  .extend({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    platform: platformSchema.optional(),
+    limit: z.coerce.number().min(1).max(100).optional().default(20),
+  })
+  .refine(query => !query.from || !query.to || query.from < query.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
 export async function analyticsRoutes(fastify: FastifyInstance) {
   // Initialize analytics service
   const analyticsService = new AnalyticsService(fastify.db);
+  const cohortService = new CohortService(fastify.db);
+  const funnelService = new FunnelService(fastify.db);
 
   // All routes require authentication
-  await fastify.register(authPlugin);
+  await fastify.register(authPlugin, { apiKeyScope: 'analytics', access: ROUTE_ACCESS.analytics });
   fastify.addHook('onRequest', fastify.authenticate);
 
   /**
@@ -36,20 +64,22 @@ export async function analyticsRoutes(fastify: FastifyInstance) {
   /**
    * GET /analytics/revenue/by-platform
    * Get revenue breakdown by platform (TikTok, YouTube, Twitch, etc.)
+   * ?model= first_touch, last_touch (default), linear or time_decay
    */
   fastify.get('/revenue/by-platform', async (request, reply) => {
-    const { period } = periodSchema.parse(request.query);
-    const data = await analyticsService.getRevenueByPlatform(request.creator.id, period);
+    const { period, model } = revenueBreakdownSchema.parse(request.query);
+    const data = await analyticsService.getRevenueByPlatform(request.creator.id, period, model);
     return reply.send({ platforms: data });
   });
 
   /**
    * GET /analytics/revenue/by-surface
    * Get revenue breakdown by surface type (live, replay, link_in_bio, etc.)
+   * ?model= first_touch, last_touch (default), linear or time_decay
    */
   fastify.get('/revenue/by-surface', async (request, reply) => {
-    const { period } = periodSchema.parse(request.query);
-    const data = await analyticsService.getRevenueBySurface(request.creator.id, period);
+    const { period, model } = revenueBreakdownSchema.parse(request.query);
+    const data = await analyticsService.getRevenueBySurface(request.creator.id, period, model);
     return reply.send({ surfaces: data });
   });
 
@@ -133,6 +163,57 @@ export async function analyticsRoutes(fastify: FastifyInstance) {
     });
   });
 
+  /**
+   * GET /analytics/cohorts
+   * Buyer cohorts by first-purchase week and surface: repeat rate, time to
+   * second order and LTV
+   */
+  fastify.get('/cohorts', async (request, reply) => {
+    const { weeks } = cohortsSchema.parse(request.query);
+    const cohorts = await cohortService.getWeeklyCohorts(request.creator.id, weeks);
+    return reply.send({ weeks, cohorts });
+  });
+
+  /**
+   * GET /analytics/cohorts/platforms
+   * Buyer cohorts by the platform of their first purchase
+   */
+  fastify.get('/cohorts/platforms', async (request, reply) => {
+    const { weeks } = cohortsSchema.parse(request.query);
+    const platforms = await cohortService.getPlatformCohorts(request.creator.id, weeks);
+    return reply.send({ weeks, platforms });
+  });
+
+  /**
+   * Funnel filters from the query
+   */
+  function parseFunnelQuery(query: unknown) {
+    const { period, from, to, platform, limit } = funnelSchema.parse(query);
+    const range = from ? { start: from, end: to ?? new Date() } : analyticsService.getDateRange(period);
+    return { range, platform, limit };
+  }
+
+  /**
+   * GET /analytics/funnel/links
+   * Impression → click → checkout started → redirected → completed for each
+   * short link, with why visitors dropped off
+   */
+  fastify.get('/funnel/links', async (request, reply) => {
+    const filters = parseFunnelQuery(request.query);
+    const links = await funnelService.getLinkFunnels(request.creator.id, filters);
+    return reply.send({ range: filters.range, links });
+  });
+
+  /**
+   * GET /analytics/funnel/sessions
+   * The same funnel for each live session, across all of its links
+   */
+  fastify.get('/funnel/sessions', async (request, reply) => {
+    const filters = parseFunnelQuery(request.query);
+    const sessions = await funnelService.getSessionFunnels(request.creator.id, filters);
+    return reply.send({ range: filters.range, sessions });
+  });
+
   // Session analytics schemas
   const sessionsQuerySchema = z.object({
     page: z.coerce.number().min(1).default(1),
@@ -314,6 +395,12 @@ export async function analyticsRoutes(fastify: FastifyInstance) {
       .where(eq(attributionContexts.liveSessionId, id))
       .groupBy(attributionContexts.platform);
 
+    // Gifts and donations, the session's other revenue stream
+    const giftsByPlatform = await analyticsService.getSessionGiftsByPlatform(id);
+    const topGifters = await analyticsService.getSessionTopGifters(id, 10);
+    const giftValue = giftsByPlatform.reduce((total, row) => total + row.value, 0);
+    const giftPayout = giftsByPlatform.reduce((total, row) => total + row.estimatedPayout, 0);
+
     return reply.send({
       session: {
         id: session.id,
@@ -345,12 +432,23 @@ export async function analyticsRoutes(fastify: FastifyInstance) {
         checkouts: checkoutCount,
         conversionRate: Math.round(conversionRate * 10) / 10,
         averageOrderValue: orderCount > 0 ? Math.round(totalRevenue / orderCount) : 0,
+        giftValue,
+        giftPayout,
+        // Order revenue plus the estimated gift payout
+        monetization: totalRevenue + giftPayout,
       },
       revenueByPlatform: revenueByPlatform.map(r => ({
         platform: r.platform,
         revenue: Number(r.revenue || 0),
         orders: Number(r.orderCount || 0),
       })),
+      gifts: {
+        value: giftValue,
+        estimatedPayout: giftPayout,
+        count: giftsByPlatform.reduce((total, row) => total + row.count, 0),
+        byPlatform: giftsByPlatform,
+        topGifters,
+      },
       orders: sessionOrders.map(o => ({
         id: o.id,
         totalAmount: o.totalAmount,
@@ -0,0 +1,48 @@
+import { FastifyInstance } from 'fastify';
+import { createApiKeyRequestSchema, apiKeyParamsSchema } from '@unifyed/types/api';
+import { authPlugin } from '../plugins/auth.js';
+import { ApiKeyService } from '../services/api-key.service.js';
+
+// Key management needs a logged-in session; API keys can't mint other keys
+export async function apiKeysRoutes(fastify: FastifyInstance) {
+  await fastify.register(authPlugin);
+  fastify.addHook('onRequest', fastify.authenticate);
+
+  const apiKeyService = new ApiKeyService(fastify.db);
+
+  /**
+   * GET /api-keys
+   * List API keys
+   */
+  fastify.get('/', async (request, reply) => {
+    const keys = await apiKeyService.list(request.creator.id);
+    return reply.send({ apiKeys: keys });
+  });
+
+  /**
+   * POST /api-keys
+   * Create an API key. The response includes the key itself (shown once).
+   */
+  fastify.post('/', async (request, reply) => {
+    const body = createApiKeyRequestSchema.parse(request.body);
+
+    const result = await apiKeyService.create(request.creator.id, {
+      name: body.name,
+      scopes: body.scopes,
+      rateLimitPerMinute: body.rateLimitPerMinute,
+      expiresAt: body.expiresAt,
+    });
+
+    return reply.status(201).send(result);
+  });
+
+  /**
+   * DELETE /api-keys/:id
+   * Revoke an API key
+   */
+  fastify.delete('/:id', async (request, reply) => {
+    const { id } = apiKeyParamsSchema.parse(request.params);
+    const apiKey = await apiKeyService.revoke(request.creator.id, id);
+    return reply.send({ apiKey });
+  });
+}
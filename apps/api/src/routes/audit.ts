@@ -0,0 +1,23 @@
+import { FastifyInstance } from 'fastify';
+import { listAuditLogQuerySchema } from '@unifyed/types/api';
+import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
+import { AuditService } from '../services/audit.service.js';
+
+export async function auditRoutes(fastify: FastifyInstance) {
+  await fastify.register(authPlugin, { access: ROUTE_ACCESS.audit });
+  fastify.addHook('onRequest', fastify.authenticate);
+
+  const auditService = new AuditService(fastify.db);
+
+  /**
+   * GET /audit
+   * Who changed what on the account, newest first. Filter by action,
+   * resource, actor or time range.
+   */
+  fastify.get('/', async (request, reply) => {
+    const query = listAuditLogQuerySchema.parse(request.query);
+    const result = await auditService.list(request.creator.id, query);
+    return reply.send(result);
+  });
+}
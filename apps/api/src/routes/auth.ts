@@ -11,12 +11,13 @@ import {
 } from '@unifyed/types/api';
 import { AppError, ErrorCodes, generateId } from '@unifyed/utils';
 import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
 
 const SESSION_DURATION_DAYS = 30;
 
 export async function authRoutes(fastify: FastifyInstance) {
   // Register auth plugin for protected routes
-  await fastify.register(authPlugin);
+  await fastify.register(authPlugin, { access: ROUTE_ACCESS.account });
 
   // POST /auth/signup
   fastify.post('/signup', async (request, reply) => {
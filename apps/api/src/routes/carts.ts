@@ -0,0 +1,120 @@
+import { FastifyInstance } from 'fastify';
+import {
+  createCartRequestSchema,
+  addCartItemRequestSchema,
+  cartParamsSchema,
+  cartItemParamsSchema,
+} from '@unifyed/types/api';
+import { EVENT_TYPES } from '@unifyed/events';
+import { CheckoutService, type PricedCart } from '../services/checkout.service.js';
+import { env } from '../config/env.js';
+import { commerceBackends } from '../lib/commerce.js';
+
+function toCartResponse(priced: PricedCart) {
+  return {
+    cart: {
+      id: priced.cart.id,
+      status: priced.cart.status,
+      visitorId: priced.cart.visitorId,
+      expiresAt: priced.cart.expiresAt,
+    },
+    items: priced.items,
+    itemCount: priced.itemCount,
+    subtotal: priced.subtotal,
+    discount: priced.discount,
+    total: priced.total,
+    currency: priced.currency,
+  };
+}
+
+export async function cartsRoutes(fastify: FastifyInstance) {
+  const checkoutService = new CheckoutService(fastify.db, env.CREDENTIALS_ENCRYPTION_KEY, commerceBackends);
+
+  // All cart routes are public - viewers shop without an account
+
+  /**
+   * POST /carts
+   * Create a cart seeded with the item behind a short link
+   */
+  fastify.post('/', async (request, reply) => {
+    const body = createCartRequestSchema.parse(request.body);
+
+    const priced = await checkoutService.createCart({
+      code: body.code,
+      quantity: body.quantity,
+      ...(body.variantId && { variantId: body.variantId }),
+      ...(body.visitorId && { visitorId: body.visitorId }),
+    });
+
+    return reply.status(201).send(toCartResponse(priced));
+  });
+
+  /**
+   * GET /carts/:id
+   * Get a cart with every line priced by its offer
+   */
+  fastify.get('/:id', async (request, reply) => {
+    const { id } = cartParamsSchema.parse(request.params);
+    const priced = await checkoutService.priceCart(id);
+    return reply.send(toCartResponse(priced));
+  });
+
+  /**
+   * POST /carts/:id/items
+   * Add an item from another short link (or more of the same one)
+   */
+  fastify.post('/:id/items', async (request, reply) => {
+    const { id } = cartParamsSchema.parse(request.params);
+    const body = addCartItemRequestSchema.parse(request.body);
+
+    const priced = await checkoutService.addCartItem(id, {
+      code: body.code,
+      quantity: body.quantity,
+      ...(body.variantId && { variantId: body.variantId }),
+    });
+
+    return reply.send(toCartResponse(priced));
+  });
+
+  /**
+   * DELETE /carts/:id/items/:itemId
+   * Remove a line from the cart
+   */
+  fastify.delete('/:id/items/:itemId', async (request, reply) => {
+    const { id, itemId } = cartItemParamsSchema.parse(request.params);
+    const priced = await checkoutService.removeCartItem(id, itemId);
+    return reply.send(toCartResponse(priced));
+  });
+
+  /**
+   * POST /carts/:id/checkout
+   * Convert the cart into one checkout session and reserve every line
+   */
+  fastify.post('/:id/checkout', async (request, reply) => {
+    const { id } = cartParamsSchema.parse(request.params);
+
+    const result = await checkoutService.checkoutCart(id, {
+      ...(request.headers['user-agent'] && { userAgent: request.headers['user-agent'] }),
+      ipAddress: request.ip,
+    });
+
+    const session = result.checkoutSession;
+
+    if (!result.isExisting && session.shortLinkId && session.offerId) {
+      await fastify.emitEvent(EVENT_TYPES.CHECKOUT_STARTED, {
+        checkoutSessionId: session.id,
+        shortLinkId: session.shortLinkId,
+        offerId: session.offerId,
+        attributionContextId: session.attributionContextId,
+        cartTotal: session.total,
+        itemCount: session.cartItems.reduce((sum, item) => sum + item.quantity, 0),
+      }, { creatorId: session.creatorId });
+    }
+
+    return reply.send({
+      checkoutSessionId: session.id,
+      checkoutUrl: result.checkoutUrl,
+      expiresAt: session.expiresAt,
+    });
+  });
+}
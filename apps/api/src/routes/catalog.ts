@@ -9,12 +9,15 @@ import {
   type GetProductResponse,
   type SyncCatalogResponse,
 } from '@unifyed/types/api';
-import { AppError, ErrorCodes, decrypt } from '@unifyed/utils';
+import { AppError, ErrorCodes, decrypt, integrationError } from '@unifyed/utils';
+import type { CatalogProductInput } from '@unifyed/commerce';
 import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
+import { commerceBackends } from '../lib/commerce.js';
 import { env } from '../config/env.js';
 
 export async function catalogRoutes(fastify: FastifyInstance) {
-  await fastify.register(authPlugin);
+  await fastify.register(authPlugin, { apiKeyScope: 'catalog', access: ROUTE_ACCESS.catalog });
   fastify.addHook('onRequest', fastify.authenticate);
 
   // GET /catalog/products - List products
@@ -177,8 +180,8 @@ export async function catalogRoutes(fastify: FastifyInstance) {
       throw new AppError(ErrorCodes.NOT_FOUND, 'Connection not found');
     }
 
-    if (connection.platform !== 'shopify') {
-      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Only Shopify connections support catalog sync');
+    if (!commerceBackends.has(connection.platform)) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, `${connection.platform} connections don't support catalog sync`);
     }
 
     // Do synchronous sync (worker not required)
@@ -194,82 +197,33 @@ export async function catalogRoutes(fastify: FastifyInstance) {
         throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to decrypt store credentials');
       }
       
-      const credentials = JSON.parse(decryptedStr) as { accessToken: string; shopDomain: string };
+      const backend = commerceBackends.create(connection.platform, JSON.parse(decryptedStr) as Record<string, string>);
+      request.log.info({ platform: connection.platform }, 'Fetching catalog');
       
-      const { accessToken, shopDomain } = credentials;
-      request.log.info({ shopDomain }, 'Fetching products from Shopify');
-      
-      // Fetch products from Shopify
-      const shopifyUrl = `https://${shopDomain}.myshopify.com/admin/api/2024-01/products.json?limit=250`;
-      const shopifyRes = await fetch(shopifyUrl, {
-        headers: {
-          'X-Shopify-Access-Token': accessToken,
-          'Content-Type': 'application/json',
-        },
-      });
-      
-      if (!shopifyRes.ok) {
-        const error = await shopifyRes.text();
-        request.log.error({ status: shopifyRes.status, error, shopDomain }, 'Shopify API error');
-        throw new AppError(ErrorCodes.INTEGRATION_ERROR, `Shopify API error: ${shopifyRes.status} - ${error}`);
-      }
-      
-      interface ShopifyVariant {
-        id: number;
-        title: string;
-        sku: string;
-        barcode: string;
-        price: string;
-        compare_at_price: string | null;
-        inventory_quantity: number;
-        inventory_policy: string;
-        option1: string | null;
-        option2: string | null;
-        option3: string | null;
-        inventory_item_id: number;
-        weight: number;
-        weight_unit: string;
-      }
-      
-      interface ShopifyProduct {
-        id: number;
-        title: string;
-        body_html: string;
-        vendor: string;
-        product_type: string;
-        images: Array<{ src: string }>;
-        variants: ShopifyVariant[];
+      let catalog: CatalogProductInput[];
+      try {
+        catalog = await backend.syncCatalog();
+      } catch (err) {
+        request.log.error({ err, platform: connection.platform }, 'Catalog fetch failed');
+        throw integrationError(connection.platform, err instanceof Error ? err.message : 'Failed to fetch catalog');
       }
       
-      const data = (await shopifyRes.json()) as { products: ShopifyProduct[] };
-      
-      request.log.info(`Fetched ${data.products.length} products from Shopify`);
+      request.log.info(`Fetched ${catalog.length} products from ${connection.platform}`);
       
       // Import products and variants
-      for (const shopifyProduct of data.products) {
+      for (const { variants: catalogVariants, ...catalogProduct } of catalog) {
         const [product] = await fastify.db
           .insert(products)
           .values({
+            ...catalogProduct,
             connectionId,
-            externalId: String(shopifyProduct.id),
-            title: shopifyProduct.title,
-            description: shopifyProduct.body_html,
-            vendor: shopifyProduct.vendor,
-            productType: shopifyProduct.product_type,
-            imageUrl: shopifyProduct.images[0]?.src ?? null,
-            images: shopifyProduct.images.map((img) => img.src),
             isActive: true,
             lastSyncedAt: new Date(),
           })
           .onConflictDoUpdate({
             target: [products.connectionId, products.externalId],
             set: {
-              title: shopifyProduct.title,
-              description: shopifyProduct.body_html,
-              vendor: shopifyProduct.vendor,
-              productType: shopifyProduct.product_type,
-              imageUrl: shopifyProduct.images[0]?.src ?? null,
-              images: shopifyProduct.images.map((img) => img.src),
+              ...catalogProduct,
               lastSyncedAt: new Date(),
               updatedAt: new Date(),
             },
@@ -279,44 +233,17 @@ export async function catalogRoutes(fastify: FastifyInstance) {
         if (!product) continue;
         
         // Upsert variants
-        for (const shopifyVariant of shopifyProduct.variants) {
+        for (const variant of catalogVariants) {
           await fastify.db
             .insert(variants)
             .values({
+              ...variant,
               productId: product.id,
-              externalId: String(shopifyVariant.id),
-              title: shopifyVariant.title,
-              sku: shopifyVariant.sku || null,
-              barcode: shopifyVariant.barcode || null,
-              price: Math.round(parseFloat(shopifyVariant.price) * 100),
-              compareAtPrice: shopifyVariant.compare_at_price
-                ? Math.round(parseFloat(shopifyVariant.compare_at_price) * 100)
-                : null,
-              inventoryQuantity: shopifyVariant.inventory_quantity,
-              inventoryPolicy: shopifyVariant.inventory_policy,
-              option1: shopifyVariant.option1,
-              option2: shopifyVariant.option2,
-              option3: shopifyVariant.option3,
-              inventoryItemId: String(shopifyVariant.inventory_item_id),
-              weight: String(shopifyVariant.weight),
-              weightUnit: shopifyVariant.weight_unit,
-              isActive: true,
             })
             .onConflictDoUpdate({
               target: [variants.productId, variants.externalId],
               set: {
-                title: shopifyVariant.title,
-                sku: shopifyVariant.sku || null,
-                barcode: shopifyVariant.barcode || null,
-                price: Math.round(parseFloat(shopifyVariant.price) * 100),
-                compareAtPrice: shopifyVariant.compare_at_price
-                  ? Math.round(parseFloat(shopifyVariant.compare_at_price) * 100)
-                  : null,
-                inventoryQuantity: shopifyVariant.inventory_quantity,
-                inventoryPolicy: shopifyVariant.inventory_policy,
-                option1: shopifyVariant.option1,
-                option2: shopifyVariant.option2,
-                option3: shopifyVariant.option3,
+                ...variant,
                 updatedAt: new Date(),
               },
             });
@@ -336,7 +263,7 @@ export async function catalogRoutes(fastify: FastifyInstance) {
       
       const response: SyncCatalogResponse = {
         jobId: `sync-${connectionId}-${Date.now()}`,
-        message: `Catalog sync completed. Imported ${data.products.length} products.`,
+        message: `Catalog sync completed. Imported ${catalog.length} products.`,
       };
       
       return reply.send(response);
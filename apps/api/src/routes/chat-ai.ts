@@ -3,13 +3,18 @@ import { z } from 'zod';
 import { eq, and } from 'drizzle-orm';
 import { AppError, ErrorCodes } from '@unifyed/utils';
 import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
 import { getChatService } from '../services/chat.service.js';
 import { 
   analyzeMessage, 
   analyzeMessages, 
+  classifyMessages,
+  countProductMentions,
   getSuggestedActions
 } from '../services/ai-chat.service.js';
-import { offers } from '@unifyed/db/schema';
+import { toSuggestedAction } from '../services/chat-answer.service.js';
+import { chatClassifier } from '../lib/chat-classifier.js';
+import { offers, products, platformConnections } from '@unifyed/db/schema';
 import type { ChatMessage } from '@unifyed/types';
 
 // Request schemas
@@ -27,7 +32,7 @@ const batchAnalyzeSchema = z.object({
 });
 
 export async function chatAIRoutes(fastify: FastifyInstance) {
-  await fastify.register(authPlugin);
+  await fastify.register(authPlugin, { access: ROUTE_ACCESS.chat });
   fastify.addHook('onRequest', fastify.authenticate);
 
   /**
@@ -117,7 +122,7 @@ export async function chatAIRoutes(fastify: FastifyInstance) {
     const creatorId = request.creator.id;
 
     // Get recent messages
-    const messages = chatService.getMessages(creatorId, 100);
+    const messages = await chatService.getMessages(creatorId, 100);
 
     // Get active offer IDs
     const activeOffers = await fastify.db
@@ -130,8 +135,12 @@ export async function chatAIRoutes(fastify: FastifyInstance) {
 
     const activeOfferIds = activeOffers.map(o => o.id);
 
-    // Get suggestions
-    const actions = getSuggestedActions(messages, activeOfferIds);
+    // Get suggestions, with answers drafted for viewers' questions first
+    const answerSuggestions = await chatService.getAnswerSuggestions(creatorId);
+    const actions = [
+      ...answerSuggestions.map(toSuggestedAction),
+      ...getSuggestedActions(messages, activeOfferIds),
+    ];
 
     // Get stats
     const analyzed = analyzeMessages(messages);
@@ -170,7 +179,7 @@ export async function chatAIRoutes(fastify: FastifyInstance) {
     const creatorId = request.creator.id;
 
     // Get all messages
-    const messages = chatService.getMessages(creatorId);
+    const messages = await chatService.getMessages(creatorId, 1000);
 
     if (messages.length === 0) {
       return reply.send({
@@ -180,14 +189,27 @@ export async function chatAIRoutes(fastify: FastifyInstance) {
           questions: 0,
           sentimentBreakdown: { positive: 0, neutral: 0, negative: 0 },
           topKeywords: [],
+          topProducts: [],
+          languages: {},
         },
         signals: [],
         suggestions: [],
       });
     }
 
-    // Analyze all messages
-    const analyzed = analyzeMessages(messages);
+    // The creator's catalog, so product mentions point at real products
+    const catalog = await fastify.db
+      .select({ id: products.id, title: products.title })
+      .from(products)
+      .innerJoin(platformConnections, eq(products.connectionId, platformConnections.id))
+      .where(and(
+        eq(platformConnections.creatorId, creatorId),
+        eq(products.isActive, true),
+        eq(products.isArchived, false)
+      ));
+
+    // Classify all messages
+    const analyzed = await classifyMessages(messages, chatClassifier, catalog);
 
     // Get active offers
     const activeOffers = await fastify.db
@@ -223,6 +245,14 @@ export async function chatAIRoutes(fastify: FastifyInstance) {
       .slice(0, 10)
       .map(([keyword, count]) => ({ keyword, count }));
 
+    // Languages the classifier could tell apart
+    const languageCounts: Record<string, number> = {};
+    analyzed.forEach(r => {
+      if (r.signals.language) {
+        languageCounts[r.signals.language] = (languageCounts[r.signals.language] ?? 0) + 1;
+      }
+    });
+
     return reply.send({
       analysis: {
         totalMessages: messages.length,
@@ -230,7 +260,10 @@ export async function chatAIRoutes(fastify: FastifyInstance) {
         questions: analyzed.filter(r => r.signals.isQuestion).length,
         sentimentBreakdown,
         topKeywords,
+        topProducts: countProductMentions(analyzed).slice(0, 10),
+        languages: languageCounts,
         highPriorityCount: analyzed.filter(r => r.priority === 'high').length,
+        classifier: chatClassifier.name,
       },
       signals: analyzed
         .filter(r => r.priority !== 'low')
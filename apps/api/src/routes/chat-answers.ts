@@ -0,0 +1,218 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { AppError, ErrorCodes } from '@unifyed/utils';
+import {
+  createProductFaqSchema,
+  updateProductFaqSchema,
+  productFaqParamsSchema,
+  listProductFaqsQuerySchema,
+  updateChatAnswerSettingsSchema,
+  draftAnswerSchema,
+} from '@unifyed/types/api';
+import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
+import { getChatService } from '../services/chat.service.js';
+import { ChatAnswerService, draftAnswer } from '../services/chat-answer.service.js';
+
+const suggestionParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export async function chatAnswersRoutes(fastify: FastifyInstance) {
+  const answers = new ChatAnswerService(fastify.db, fastify.redis);
+
+  await fastify.register(authPlugin, { access: ROUTE_ACCESS.chat });
+  fastify.addHook('onRequest', fastify.authenticate);
+
+  function requireChatService() {
+    const chatService = getChatService();
+    if (!chatService) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Chat service not initialized');
+    }
+    return chatService;
+  }
+
+  // ============================================
+  // FAQ entries
+  // ============================================
+
+  /**
+   * GET /chat-answers/faqs
+   * The creator's FAQ entries, optionally for one product
+   */
+  fastify.get('/faqs', async (request, reply) => {
+    const { productId } = listProductFaqsQuerySchema.parse(request.query);
+    const faqs = await answers.listFaqs(request.creator.id, productId);
+    return reply.send({ faqs });
+  });
+
+  /**
+   * POST /chat-answers/faqs
+   * Add an FAQ entry, for one product or all of them
+   */
+  fastify.post('/faqs', async (request, reply) => {
+    const body = createProductFaqSchema.parse(request.body);
+    const faq = await answers.createFaq(request.creator.id, body);
+
+    await fastify.audit(request, {
+      action: 'product_faq.created',
+      resourceType: 'product_faq',
+      resourceId: faq.id,
+      after: faq,
+    });
+
+    return reply.status(201).send({ faq });
+  });
+
+  /**
+   * PATCH /chat-answers/faqs/:id
+   */
+  fastify.patch('/faqs/:id', async (request, reply) => {
+    const { id } = productFaqParamsSchema.parse(request.params);
+    const body = updateProductFaqSchema.parse(request.body);
+
+    const result = await answers.updateFaq(request.creator.id, id, body);
+    if (!result) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'FAQ entry not found');
+    }
+
+    await fastify.audit(request, {
+      action: 'product_faq.updated',
+      resourceType: 'product_faq',
+      resourceId: id,
+      before: result.before,
+      after: result.after,
+    });
+
+    return reply.send({ faq: result.after });
+  });
+
+  /**
+   * DELETE /chat-answers/faqs/:id
+   */
+  fastify.delete('/faqs/:id', async (request, reply) => {
+    const { id } = productFaqParamsSchema.parse(request.params);
+
+    const deleted = await answers.deleteFaq(request.creator.id, id);
+    if (!deleted) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'FAQ entry not found');
+    }
+
+    await fastify.audit(request, {
+      action: 'product_faq.deleted',
+      resourceType: 'product_faq',
+      resourceId: id,
+      before: deleted,
+    });
+
+    return reply.send({ success: true });
+  });
+
+  // ============================================
+  // Settings
+  // ============================================
+
+  /**
+   * GET /chat-answers/settings
+   */
+  fastify.get('/settings', async (request, reply) => {
+    const settings = await answers.getSettings(request.creator.id);
+    return reply.send({ settings });
+  });
+
+  /**
+   * PUT /chat-answers/settings
+   * Turn auto-send on or off and set its rate limits
+   */
+  fastify.put('/settings', async (request, reply) => {
+    const update = updateChatAnswerSettingsSchema.parse(request.body);
+    const creatorId = request.creator.id;
+
+    const before = await answers.getSettings(creatorId);
+    const settings = await answers.updateSettings(creatorId, update);
+
+    await fastify.audit(request, {
+      action: 'chat_answers.settings_updated',
+      resourceType: 'chat_answer_settings',
+      resourceId: creatorId,
+      before,
+      after: settings,
+    });
+
+    return reply.send({ settings });
+  });
+
+  // ============================================
+  // Drafts
+  // ============================================
+
+  /**
+   * POST /chat-answers/draft
+   * Preview the answer a question would get, e.g. while writing FAQ entries
+   */
+  fastify.post('/draft', async (request, reply) => {
+    const { question, productId } = draftAnswerSchema.parse(request.body);
+    const creatorId = request.creator.id;
+
+    const product = productId
+      ? await answers.getProduct(creatorId, productId)
+      : await answers.getSpotlightProduct(creatorId);
+    if (productId && !product) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Product not found');
+    }
+
+    const faqs = await answers.listFaqs(creatorId);
+    const drafted = draftAnswer(question, product, faqs);
+
+    return reply.send({
+      productId: product?.id ?? null,
+      answer: drafted,
+    });
+  });
+
+  /**
+   * GET /chat-answers/suggestions
+   * Answers drafted for viewers' questions, newest first
+   */
+  fastify.get('/suggestions', async (request, reply) => {
+    const suggestions = await requireChatService().getAnswerSuggestions(request.creator.id);
+    return reply.send({ suggestions });
+  });
+
+  /**
+   * POST /chat-answers/suggestions/:id/send
+   * Send a drafted answer to the platform the question came from
+   */
+  fastify.post('/suggestions/:id/send', async (request, reply) => {
+    const { id } = suggestionParamsSchema.parse(request.params);
+
+    let suggestion;
+    try {
+      suggestion = await requireChatService().sendAnswerSuggestion(request.creator.id, id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to send answer';
+      throw new AppError(ErrorCodes.INTEGRATION_ERROR, message);
+    }
+
+    if (!suggestion) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Suggestion not found');
+    }
+
+    return reply.send({ success: true });
+  });
+
+  /**
+   * DELETE /chat-answers/suggestions/:id
+   * Dismiss a drafted answer
+   */
+  fastify.delete('/suggestions/:id', async (request, reply) => {
+    const { id } = suggestionParamsSchema.parse(request.params);
+
+    const suggestion = await requireChatService().dismissAnswerSuggestion(request.creator.id, id);
+    if (!suggestion) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Suggestion not found');
+    }
+
+    return reply.send({ success: true });
+  });
+}
@@ -0,0 +1,63 @@
+import { FastifyInstance } from 'fastify';
+import {
+  chatCommandParamsSchema,
+  updateChatCommandSchema,
+  chatCommandUsageQuerySchema,
+} from '@unifyed/types/api';
+import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
+import { getChatService } from '../services/chat.service.js';
+import { ChatCommandService, DEFAULT_COMMAND_RESPONSES } from '../services/chat-command.service.js';
+
+export async function chatCommandsRoutes(fastify: FastifyInstance) {
+  const commands = new ChatCommandService(fastify.db, fastify.redis);
+
+  await fastify.register(authPlugin, { access: ROUTE_ACCESS.chat });
+  fastify.addHook('onRequest', fastify.authenticate);
+
+  /**
+   * GET /chat-commands
+   * Every command viewers can use, with the creator's settings and the
+   * built-in replies
+   */
+  fastify.get('/', async (request, reply) => {
+    const settings = await commands.listSettings(request.creator.id);
+    return reply.send({ commands: settings, defaultResponses: DEFAULT_COMMAND_RESPONSES });
+  });
+
+  /**
+   * PUT /chat-commands/:command
+   * Turn a command on or off, pick its platforms, cooldowns and wording
+   */
+  fastify.put('/:command', async (request, reply) => {
+    const { command } = chatCommandParamsSchema.parse(request.params);
+    const update = updateChatCommandSchema.parse(request.body);
+    const creatorId = request.creator.id;
+
+    const before = await commands.getSettings(creatorId, command);
+    const settings = await commands.updateSettings(creatorId, command, update);
+
+    // A running chat picks the change up straight away
+    await getChatService()?.reloadChatCommands(creatorId);
+
+    await fastify.audit(request, {
+      action: 'chat_command.updated',
+      resourceType: 'chat_command',
+      resourceId: command,
+      before,
+      after: settings,
+    });
+
+    return reply.send({ command: settings });
+  });
+
+  /**
+   * GET /chat-commands/usage
+   * Uses per command, by platform and outcome, and what their links sold
+   */
+  fastify.get('/usage', async (request, reply) => {
+    const query = chatCommandUsageQuerySchema.parse(request.query);
+    const usage = await commands.getUsage(request.creator.id, query);
+    return reply.send(usage);
+  });
+}
@@ -1,10 +1,14 @@
 import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
-import { eq, and, gte } from 'drizzle-orm';
+import { eq, and, gte, inArray } from 'drizzle-orm';
 import { AppError, ErrorCodes } from '@unifyed/utils';
+import type { ChatMessage } from '@unifyed/types';
+import { chatMessagePlatformSchema } from '@unifyed/types/api';
 import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
 import { getChatService } from '../services/chat.service.js';
-import { offers, shortLinks, flashSales, attributionContexts, liveSessions } from '@unifyed/db/schema';
+import { ViewerService } from '../services/viewer.service.js';
+import { offers, shortLinks, flashSales, attributionContexts, liveSessions, platformEnum } from '@unifyed/db/schema';
 import { randomBytes } from 'crypto';
 
 // Request schemas
@@ -18,13 +22,25 @@ const dropLinkSchema = z.object({
   message: z.string().max(500).optional(),
 });
 
+const replyLinkSchema = z.object({
+  offerId: z.string().uuid(),
+  // The chat message being replied to
+  platform: chatMessagePlatformSchema,
+  messageId: z.string().min(1).max(255),
+  message: z.string().max(300).optional(),
+});
+
 const flashSaleSchema = z.object({
   offerId: z.string().uuid(),
   durationMinutes: z.number().min(1).max(60).default(5),
   additionalDiscount: z.number().min(0).max(50).optional(),
   message: z.string().max(500).optional(),
+  startsAt: z.coerce.date().optional(),
 });
 
+// Minutes before the end of a sale to post a reminder
+const FLASH_SALE_COUNTDOWN_MINUTES = [5, 1];
+
 const endFlashSaleSchema = z.object({
   flashSaleId: z.string().uuid(),
 });
@@ -33,15 +49,63 @@ const sendQuickMessageSchema = z.object({
   message: z.string().min(1).max(500),
 });
 
+type AttributionPlatform = (typeof platformEnum.enumValues)[number];
+
+function isAttributionPlatform(platform: string): platform is AttributionPlatform {
+  return (platformEnum.enumValues as readonly string[]).includes(platform);
+}
+
+/**
+ * What an offer gives, for chat messages. Values other than percentages are
+ * in cents.
+ */
+function describeOffer(offer: Pick<typeof offers.$inferSelect, 'type' | 'value'>): string {
+  const amount = `$${(offer.value / 100).toFixed(2)}`;
+
+  switch (offer.type) {
+    case 'percentage_off':
+      return `${offer.value}% off`;
+    case 'fixed_amount_off':
+      return `${amount} off`;
+    case 'fixed_price':
+      return `only ${amount}`;
+    case 'bundle':
+      return `bundle for ${amount}`;
+  }
+}
+
+/**
+ * Refuse offers a link couldn't check out, as checkout itself would
+ */
+function assertOfferAvailable(offer: typeof offers.$inferSelect): void {
+  const now = new Date();
+
+  if (offer.status !== 'active') {
+    throw new AppError(ErrorCodes.OFFER_NOT_ACTIVE, 'Offer is not active');
+  }
+
+  if (offer.startsAt && offer.startsAt > now) {
+    throw new AppError(ErrorCodes.OFFER_NOT_ACTIVE, 'Offer has not started yet');
+  }
+
+  if (offer.endsAt && offer.endsAt < now) {
+    throw new AppError(ErrorCodes.OFFER_EXPIRED, 'Offer has expired');
+  }
+}
+
 export async function chatCommerceRoutes(fastify: FastifyInstance) {
-  await fastify.register(authPlugin);
+  const viewerService = new ViewerService(fastify.db);
+
+  await fastify.register(authPlugin, { access: ROUTE_ACCESS.chat });
   fastify.addHook('onRequest', fastify.authenticate);
 
-  // Helper to create a short link with attribution
+  // Helper to create a short link with attribution. Links minted in reply to
+  // a chat message carry its author and ID, so a sale traces back to it.
   async function createOfferLink(
     creatorId: string,
     offerId: string,
-    source: string
+    source: string,
+    replyTo?: ChatMessage
   ): Promise<{ code: string; linkId: string }> {
     const code = randomBytes(4).toString('hex');
 
@@ -61,9 +125,19 @@ export async function chatCommerceRoutes(fastify: FastifyInstance) {
       .values({
         creatorId,
         liveSessionId: activeSession?.id || null,
-        platform: null, // Will be determined on click
+        // Will be determined on click, unless we know who the link is for
+        platform: replyTo && isAttributionPlatform(replyTo.platform) ? replyTo.platform : null,
         surface: 'live',
-        metadata: { source, chatCommerce: true },
+        ...(replyTo && {
+          chatPlatform: replyTo.platform,
+          chatUserId: replyTo.user.id,
+          chatMessageId: replyTo.id,
+        }),
+        metadata: {
+          source,
+          chatCommerce: true,
+          ...(replyTo && { chatUsername: replyTo.user.username }),
+        },
       })
       .returning();
 
@@ -91,6 +165,54 @@ export async function chatCommerceRoutes(fastify: FastifyInstance) {
     return { code, linkId: link.id };
   }
 
+  // Queue the worker jobs that drive a sale through scheduled → active → ended.
+  // Job IDs are deterministic so a retried request doesn't double-announce.
+  async function scheduleFlashSaleJobs(
+    flashSale: { id: string; status: string; startsAt: Date; endsAt: Date }
+  ): Promise<void> {
+    const queue = fastify.queues.flashSale;
+    const now = Date.now();
+    const durationMs = flashSale.endsAt.getTime() - flashSale.startsAt.getTime();
+
+    if (flashSale.status === 'scheduled') {
+      await queue.add(
+        'start',
+        { type: 'start', flashSaleId: flashSale.id },
+        { jobId: `flash-sale-${flashSale.id}-start`, delay: flashSale.startsAt.getTime() - now }
+      );
+    }
+
+    for (const minutesLeft of FLASH_SALE_COUNTDOWN_MINUTES) {
+      if (minutesLeft * 60 * 1000 >= durationMs) continue;
+
+      await queue.add(
+        'countdown',
+        { type: 'countdown', flashSaleId: flashSale.id, minutesLeft },
+        {
+          jobId: `flash-sale-${flashSale.id}-countdown-${minutesLeft}`,
+          delay: flashSale.endsAt.getTime() - minutesLeft * 60 * 1000 - now,
+        }
+      );
+    }
+
+    await queue.add(
+      'end',
+      { type: 'end', flashSaleId: flashSale.id },
+      { jobId: `flash-sale-${flashSale.id}-end`, delay: flashSale.endsAt.getTime() - now }
+    );
+  }
+
+  async function removeFlashSaleJobs(flashSaleId: string): Promise<void> {
+    const jobIds = [
+      `flash-sale-${flashSaleId}-start`,
+      `flash-sale-${flashSaleId}-end`,
+      ...FLASH_SALE_COUNTDOWN_MINUTES.map((m) => `flash-sale-${flashSaleId}-countdown-${m}`),
+    ];
+
+    // A job that is running right now is locked and can't be removed; it will no-op
+    await Promise.allSettled(jobIds.map((jobId) => fastify.queues.flashSale.remove(jobId)));
+  }
+
   /**
    * POST /chat-commerce/pin-offer
    * Pin an offer to chat with a message
@@ -119,9 +241,7 @@ export async function chatCommerceRoutes(fastify: FastifyInstance) {
     const { code } = await createOfferLink(creatorId, offerId, 'pin');
 
     // Build the chat message
-    const discount = offer.type === 'percentage_off'
-      ? `${offer.value}% off`
-      : `$${(offer.value / 100).toFixed(2)} off`;
+    const discount = describeOffer(offer);
 
     const chatMessage = message
       ? `📌 ${message}\n\n${offer.name} - ${discount}!\n🔗 unifyed.link/${code}`
@@ -177,9 +297,7 @@ export async function chatCommerceRoutes(fastify: FastifyInstance) {
     const { code } = await createOfferLink(creatorId, offerId, 'drop_link');
 
     // Build the chat message
-    const discount = offer.type === 'percentage_off'
-      ? `${offer.value}% off`
-      : `$${(offer.value / 100).toFixed(2)} off`;
+    const discount = describeOffer(offer);
 
     const chatMessage = message
       ? `🔗 ${message}\n\nunifyed.link/${code}`
@@ -202,9 +320,78 @@ export async function chatCommerceRoutes(fastify: FastifyInstance) {
     });
   });
 
+  /**
+   * POST /chat-commerce/reply-link
+   * Reply to a viewer's message with a link minted just for them, posted as
+   * a mention on the platform they wrote from
+   */
+  fastify.post('/reply-link', async (request, reply) => {
+    const chatService = getChatService();
+    if (!chatService) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Chat service not initialized');
+    }
+
+    const { offerId, platform, messageId, message } = replyLinkSchema.parse(request.body);
+    const creatorId = request.creator.id;
+
+    // Get the offer
+    const [offer] = await fastify.db
+      .select()
+      .from(offers)
+      .where(and(eq(offers.id, offerId), eq(offers.creatorId, creatorId)))
+      .limit(1);
+
+    if (!offer) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Offer not found');
+    }
+
+    // The link is posted in public chat, so it has to work
+    assertOfferAvailable(offer);
+
+    // The author comes from chat history, not the request
+    const chatMessage = await chatService.findMessage(creatorId, platform, messageId);
+    if (!chatMessage) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Chat message not found in recent chat');
+    }
+
+    // A link of their own, carrying their viewer handle
+    const { code } = await createOfferLink(creatorId, offerId, 'reply_link', chatMessage);
+    const viewer = await viewerService.identify(creatorId, chatMessage.platform, chatMessage.user);
+    const url = `unifyed.link/${code}?v=${viewer.handle}`;
+
+    const discount = describeOffer(offer);
+
+    const replyMessage = message
+      ? `@${chatMessage.user.username} ${message} 🔗 ${url}`
+      : `@${chatMessage.user.username} here's your link for ${offer.name} - ${discount} 🔗 ${url}`;
+
+    // Only the platform the viewer wrote from
+    let sent = true;
+    try {
+      await chatService.sendMessage(creatorId, replyMessage, [chatMessage.platform]);
+    } catch {
+      // Chat might not be active; the link still works when shared by hand
+      sent = false;
+    }
+
+    return reply.send({
+      success: true,
+      sent,
+      link: {
+        code,
+        url,
+      },
+      viewer: {
+        id: viewer.id,
+        handle: viewer.handle,
+      },
+      message: replyMessage,
+    });
+  });
+
   /**
    * POST /chat-commerce/flash-sale
-   * Start a flash sale and announce it to chat
+   * Start a flash sale (now or at `startsAt`) and announce it to chat
    */
   fastify.post('/flash-sale', async (request, reply) => {
     const chatService = getChatService();
@@ -212,7 +399,8 @@ export async function chatCommerceRoutes(fastify: FastifyInstance) {
       throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Chat service not initialized');
     }
 
-    const { offerId, durationMinutes, additionalDiscount, message } = flashSaleSchema.parse(request.body);
+    const { offerId, durationMinutes, additionalDiscount, message, startsAt: requestedStart } =
+      flashSaleSchema.parse(request.body);
     const creatorId = request.creator.id;
 
     // Get the offer
@@ -226,8 +414,14 @@ export async function chatCommerceRoutes(fastify: FastifyInstance) {
       throw new AppError(ErrorCodes.NOT_FOUND, 'Offer not found');
     }
 
-    // Calculate flash sale end time
-    const endsAt = new Date(Date.now() + durationMinutes * 60 * 1000);
+    // Future-dated sales start as scheduled and are activated by the worker
+    const now = new Date();
+    const isScheduled = !!requestedStart && requestedStart > now;
+    const startsAt = isScheduled ? requestedStart : now;
+    const endsAt = new Date(startsAt.getTime() + durationMinutes * 60 * 1000);
+
+    // Create a trackable short link
+    const { code, linkId } = await createOfferLink(creatorId, offerId, 'flash_sale');
 
     // Create flash sale record
     const [flashSale] = await fastify.db
@@ -235,13 +429,15 @@ export async function chatCommerceRoutes(fastify: FastifyInstance) {
       .values({
         creatorId,
         offerId,
+        shortLinkId: linkId,
+        message: message ?? null,
         originalDiscount: offer.value,
         flashDiscount: additionalDiscount
           ? offer.value + additionalDiscount
           : offer.value,
-        startsAt: new Date(),
+        startsAt,
         endsAt,
-        status: 'active',
+        status: isScheduled ? 'scheduled' : 'active',
       })
       .returning();
 
@@ -249,49 +445,25 @@ export async function chatCommerceRoutes(fastify: FastifyInstance) {
       throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to create flash sale');
     }
 
-    // Create a trackable short link
-    const { code } = await createOfferLink(creatorId, offerId, 'flash_sale');
+    // Hand the rest of the lifecycle to the worker
+    await scheduleFlashSaleJobs(flashSale);
 
-    // Build the announcement message
-    const totalDiscount = additionalDiscount
-      ? `${offer.value + additionalDiscount}%`
-      : `${offer.value}%`;
+    const totalDiscount = `${flashSale.flashDiscount}%`;
+    let chatMessage: string | null = null;
 
-    const chatMessage = message
-      ? `⚡ FLASH SALE! ${message}\n\n${offer.name} - ${totalDiscount} OFF!\n⏰ Ends in ${durationMinutes} minutes!\n🔗 unifyed.link/${code}`
-      : `⚡ FLASH SALE! ${offer.name}\n\n💰 ${totalDiscount} OFF - LIMITED TIME!\n⏰ Ends in ${durationMinutes} minutes!\n🔗 unifyed.link/${code}`;
-
-    // Send to all platforms
-    try {
-      await chatService.sendMessage(creatorId, chatMessage);
-    } catch {
-      // Chat might not be active
-    }
+    if (!isScheduled) {
+      // Build the announcement message
+      chatMessage = message
+        ? `⚡ FLASH SALE! ${message}\n\n${offer.name} - ${totalDiscount} OFF!\n⏰ Ends in ${durationMinutes} minutes!\n🔗 unifyed.link/${code}`
+        : `⚡ FLASH SALE! ${offer.name}\n\n💰 ${totalDiscount} OFF - LIMITED TIME!\n⏰ Ends in ${durationMinutes} minutes!\n🔗 unifyed.link/${code}`;
 
-    // Schedule end announcement (in production, use a proper job queue)
-    const flashSaleId = flashSale.id;
-    const offerName = offer.name;
-    setTimeout(async () => {
+      // Send to all platforms
       try {
-        // Update flash sale status
-        await fastify.db
-          .update(flashSales)
-          .set({ status: 'ended' })
-          .where(eq(flashSales.id, flashSaleId));
-
-        // Announce end
-        try {
-          await chatService.sendMessage(
-            creatorId,
-            `⏰ Flash sale ended! ${offerName} is back to regular price. Thanks to everyone who grabbed this deal!`
-          );
-        } catch {
-          // Chat might not be active
-        }
-      } catch (error) {
-        console.error('Error ending flash sale:', error);
+        await chatService.sendMessage(creatorId, chatMessage);
+      } catch {
+        // Chat might not be active
       }
-    }, durationMinutes * 60 * 1000);
+    }
 
     return reply.send({
       success: true,
@@ -300,6 +472,8 @@ export async function chatCommerceRoutes(fastify: FastifyInstance) {
         offerId: offer.id,
         offerName: offer.name,
         discount: totalDiscount,
+        status: flashSale.status,
+        startsAt: startsAt.toISOString(),
         endsAt: endsAt.toISOString(),
         durationMinutes,
       },
@@ -313,7 +487,7 @@ export async function chatCommerceRoutes(fastify: FastifyInstance) {
 
   /**
    * POST /chat-commerce/end-flash-sale
-   * Manually end a flash sale
+   * Manually end an active flash sale, or cancel a scheduled one
    */
   fastify.post('/end-flash-sale', async (request, reply) => {
     const chatService = getChatService();
@@ -331,7 +505,7 @@ export async function chatCommerceRoutes(fastify: FastifyInstance) {
       .where(and(
         eq(flashSales.id, flashSaleId),
         eq(flashSales.creatorId, creatorId),
-        eq(flashSales.status, 'active')
+        inArray(flashSales.status, ['scheduled', 'active'])
       ))
       .limit(1);
 
@@ -339,6 +513,22 @@ export async function chatCommerceRoutes(fastify: FastifyInstance) {
       throw new AppError(ErrorCodes.NOT_FOUND, 'Active flash sale not found');
     }
 
+    // Pending lifecycle jobs become no-ops once the status changes, but
+    // remove them so they don't sit in the queue
+    await removeFlashSaleJobs(flashSale.id);
+
+    if (flashSale.status === 'scheduled') {
+      await fastify.db
+        .update(flashSales)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(eq(flashSales.id, flashSaleId));
+
+      return reply.send({
+        success: true,
+        message: 'Flash sale cancelled',
+      });
+    }
+
     // Get the offer name
     const [offer] = await fastify.db
       .select()
@@ -349,7 +539,7 @@ export async function chatCommerceRoutes(fastify: FastifyInstance) {
     // End the flash sale
     await fastify.db
       .update(flashSales)
-      .set({ status: 'ended', endsAt: new Date() })
+      .set({ status: 'ended', endsAt: new Date(), updatedAt: new Date() })
       .where(eq(flashSales.id, flashSaleId));
 
     // Announce end
@@ -3,10 +3,20 @@ import { z } from 'zod';
 import { eq, and, count, sum, desc } from 'drizzle-orm';
 import { AppError, ErrorCodes } from '@unifyed/utils';
 import { authPlugin } from '../plugins/auth.js';
-import { getChatService, createChatService } from '../services/chat.service.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
+import { getChatService, createChatService, type ModerationEvent, type AnswerEvent } from '../services/chat.service.js';
+import { ChatModerationService } from '../services/chat-moderation.service.js';
 import { liveSessions, orders, checkoutSessions, attributionContexts } from '@unifyed/db/schema';
 import { env } from '../config/env.js';
-import type { ChatMessage, ChatState, ChatPlatform } from '@unifyed/types';
+import type { ChatMessage, ChatState, ChatPlatform, ChatModerationCommand } from '@unifyed/types';
+import {
+  updateChatModerationSettingsSchema,
+  chatModerationCommandSchema,
+  moderationQueueParamsSchema,
+  moderationDecisionSchema,
+  listStrikesQuerySchema,
+  type ModerationDecision,
+} from '@unifyed/types/api';
 
 // Request schemas
 const sendMessageSchema = z.object({
@@ -19,18 +29,42 @@ const getMessagesQuerySchema = z.object({
   platform: z.enum(['tiktok', 'youtube', 'twitch']).optional(),
 });
 
+// Recent history is filtered by platform in memory
+const MESSAGE_HISTORY_SCAN = 1000;
+
+// Audit actions for moderation
+const MODERATION_AUDIT_ACTIONS: Record<ChatModerationCommand['action'], string> = {
+  delete_message: 'chat.message_deleted',
+  timeout: 'chat.user_timed_out',
+  ban: 'chat.user_banned',
+  slow_mode: 'chat.slow_mode_changed',
+};
+const DECISION_AUDIT_ACTIONS: Record<ModerationDecision['decision'], string> = {
+  approve: 'chat.message_approved',
+  remove: 'chat.message_deleted',
+  timeout: 'chat.user_timed_out',
+  ban: 'chat.user_banned',
+};
+
 export async function chatRoutes(fastify: FastifyInstance) {
-  // Ensure chat service is initialized
-  if (!getChatService()) {
-    createChatService(fastify.db, env.CREDENTIALS_ENCRYPTION_KEY, {
-      youtubeClientId: env.YOUTUBE_CLIENT_ID,
-      youtubeClientSecret: env.YOUTUBE_CLIENT_SECRET,
-      twitchClientId: env.TWITCH_CLIENT_ID,
-      twitchClientSecret: env.TWITCH_CLIENT_SECRET,
-    });
-  }
+  // Ensure chat service is initialized and joined to the Redis fan-out
+  // (which also relays announcements from the worker, e.g. flash sales)
+  const chatService = getChatService() ?? createChatService(fastify.db, fastify.redis, env.CREDENTIALS_ENCRYPTION_KEY, {
+    youtubeClientId: env.YOUTUBE_CLIENT_ID,
+    youtubeClientSecret: env.YOUTUBE_CLIENT_SECRET,
+    twitchClientId: env.TWITCH_CLIENT_ID,
+    twitchClientSecret: env.TWITCH_CLIENT_SECRET,
+  });
+  await chatService.connect();
+
+  fastify.addHook('onClose', async () => {
+    // Hand running chats to another instance and write queued transcript messages
+    await chatService.shutdown();
+  });
+
+  const moderation = new ChatModerationService(fastify.db, fastify.redis);
 
-  await fastify.register(authPlugin);
+  await fastify.register(authPlugin, { access: ROUTE_ACCESS.chat });
   fastify.addHook('onRequest', fastify.authenticate);
 
   /**
@@ -44,13 +78,13 @@ export async function chatRoutes(fastify: FastifyInstance) {
     }
 
     const creatorId = request.creator.id;
-    const isActive = chatService.isActive(creatorId);
-    const state = chatService.getChatState(creatorId);
+    const isActive = await chatService.isActive(creatorId);
+    const state = await chatService.getChatState(creatorId);
 
     return reply.send({
       active: isActive,
       state: state,
-      connections: chatService.getConnectionStatuses(creatorId),
+      connections: state?.connections ?? [],
     });
   });
 
@@ -67,8 +101,7 @@ export async function chatRoutes(fastify: FastifyInstance) {
     const creatorId = request.creator.id;
 
     try {
-      const aggregator = await chatService.startChat(creatorId);
-      const state = aggregator.getState();
+      const state = await chatService.startChat(creatorId);
 
       return reply.send({
         success: true,
@@ -113,8 +146,7 @@ export async function chatRoutes(fastify: FastifyInstance) {
     const { limit, platform } = getMessagesQuerySchema.parse(request.query);
     const creatorId = request.creator.id;
 
-    const aggregator = chatService.getAggregator(creatorId);
-    if (!aggregator) {
+    if (!(await chatService.isActive(creatorId))) {
       return reply.send({
         messages: [],
         active: false,
@@ -123,9 +155,11 @@ export async function chatRoutes(fastify: FastifyInstance) {
 
     let messages: ChatMessage[];
     if (platform) {
-      messages = aggregator.getMessagesByPlatform(platform, limit);
+      messages = (await chatService.getMessages(creatorId, MESSAGE_HISTORY_SCAN))
+        .filter((m) => m.platform === platform)
+        .slice(-limit);
     } else {
-      messages = aggregator.getMessages(limit);
+      messages = await chatService.getMessages(creatorId, limit);
     }
 
     return reply.send({
@@ -159,6 +193,115 @@ export async function chatRoutes(fastify: FastifyInstance) {
       throw new AppError(ErrorCodes.INTEGRATION_ERROR, message);
     }
   });
+
+  /**
+   * GET /chat/moderation/settings
+   * Automod settings (defaults until saved)
+   */
+  fastify.get('/moderation/settings', async (request, reply) => {
+    const settings = await moderation.getSettings(request.creator.id);
+    return reply.send({ settings });
+  });
+
+  /**
+   * PUT /chat/moderation/settings
+   * Update automod settings; a running chat picks them up straight away
+   */
+  fastify.put('/moderation/settings', async (request, reply) => {
+    const update = updateChatModerationSettingsSchema.parse(request.body);
+    const creatorId = request.creator.id;
+
+    const before = await moderation.getSettings(creatorId);
+    const settings = await moderation.updateSettings(creatorId, update);
+
+    await fastify.audit(request, {
+      action: 'chat.moderation_settings_updated',
+      resourceType: 'chat_moderation_settings',
+      resourceId: creatorId,
+      before,
+      after: settings,
+    });
+
+    await chatService.reloadAutomod(creatorId);
+
+    return reply.send({ settings });
+  });
+
+  /**
+   * GET /chat/moderation/queue
+   * Messages automod is holding for a decision
+   */
+  fastify.get('/moderation/queue', async (request, reply) => {
+    const items = await chatService.getModerationQueue(request.creator.id);
+    return reply.send({ items });
+  });
+
+  /**
+   * POST /chat/moderation/queue/:messageId
+   * Approve a held message into chat, or remove it (optionally timing out
+   * or banning its author)
+   */
+  fastify.post('/moderation/queue/:messageId', async (request, reply) => {
+    const { messageId } = moderationQueueParamsSchema.parse(request.params);
+    const decision = moderationDecisionSchema.parse(request.body);
+
+    let item;
+    try {
+      item = await chatService.resolveQueued(request.creator.id, messageId, decision, request.member.profileId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Moderation failed';
+      throw new AppError(ErrorCodes.INTEGRATION_ERROR, message);
+    }
+
+    if (!item) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Message is not in the moderation queue');
+    }
+
+    await fastify.audit(request, {
+      action: DECISION_AUDIT_ACTIONS[decision.decision],
+      resourceType: 'chat_message',
+      resourceId: `${item.message.platform}:${item.message.id}`,
+      before: { author: item.message.user.username, content: item.message.content, reasons: item.reasons },
+    });
+
+    return reply.send({ success: true });
+  });
+
+  /**
+   * POST /chat/moderation/actions
+   * Delete a message, time out or ban a viewer, or set slow mode on a platform
+   */
+  fastify.post('/moderation/actions', async (request, reply) => {
+    const command = chatModerationCommandSchema.parse(request.body) as ChatModerationCommand;
+
+    try {
+      await chatService.moderate(request.creator.id, command);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Moderation failed';
+      throw new AppError(ErrorCodes.INTEGRATION_ERROR, message);
+    }
+
+    await fastify.audit(request, {
+      action: MODERATION_AUDIT_ACTIONS[command.action],
+      resourceType: command.action === 'slow_mode' ? 'chat' : command.action === 'delete_message' ? 'chat_message' : 'chat_user',
+      resourceId: command.action === 'slow_mode'
+        ? command.platform
+        : `${command.platform}:${command.action === 'delete_message' ? command.messageId : command.userId}`,
+      after: { ...command },
+    });
+
+    return reply.send({ success: true });
+  });
+
+  /**
+   * GET /chat/moderation/strikes
+   * Strike history for one viewer (platform + userId) or the whole chat
+   */
+  fastify.get('/moderation/strikes', async (request, reply) => {
+    const query = listStrikesQuerySchema.parse(request.query);
+    const strikes = await moderation.listStrikes(request.creator.id, query);
+    return reply.send({ strikes });
+  });
 }
 
 /**
@@ -226,23 +369,65 @@ export async function chatWebSocketRoutes(fastify: FastifyInstance) {
       }
     });
 
-    // Send initial state
-    const currentState = chatService.getChatState(creatorId);
-    if (currentState) {
-      socket.send(JSON.stringify({
-        type: 'state',
-        data: currentState,
-      }));
-    }
+    // Subscribe to the moderation queue
+    const unsubModeration = chatService.onModeration(creatorId, (event: ModerationEvent) => {
+      try {
+        socket.send(JSON.stringify(event.type === 'held'
+          ? { type: 'moderation_held', data: event.item }
+          : { type: 'moderation_resolved', data: { messageId: event.messageId, decision: event.decision } }
+        ));
+      } catch {
+        // Socket might be closed
+      }
+    });
 
-    // Send recent messages
-    const recentMessages = chatService.getMessages(creatorId, 50);
-    if (recentMessages.length > 0) {
-      socket.send(JSON.stringify({
-        type: 'history',
-        data: recentMessages,
-      }));
-    }
+    // Subscribe to drafted answers
+    const unsubAnswer = chatService.onAnswer(creatorId, (event: AnswerEvent) => {
+      try {
+        socket.send(JSON.stringify(event.type === 'suggested'
+          ? { type: 'answer_suggested', data: event.suggestion }
+          : { type: 'answer_resolved', data: { id: event.id, sent: event.sent } }
+        ));
+      } catch {
+        // Socket might be closed
+      }
+    });
+
+    // Send initial state and recent messages (the chat may run on another instance)
+    const sendInitialState = async () => {
+      try {
+        const currentState = await chatService.getChatState(creatorId);
+        if (currentState) {
+          socket.send(JSON.stringify({
+            type: 'state',
+            data: currentState,
+          }));
+        }
+
+        const recentMessages = await chatService.getMessages(creatorId, 50);
+        if (recentMessages.length > 0) {
+          socket.send(JSON.stringify({
+            type: 'history',
+            data: recentMessages,
+          }));
+        }
+
+        const moderationQueue = await chatService.getModerationQueue(creatorId);
+        socket.send(JSON.stringify({
+          type: 'moderation_queue',
+          data: moderationQueue,
+        }));
+
+        const answerSuggestions = await chatService.getAnswerSuggestions(creatorId);
+        socket.send(JSON.stringify({
+          type: 'answer_suggestions',
+          data: answerSuggestions,
+        }));
+      } catch (error) {
+        console.error('Failed to send initial chat state:', error);
+      }
+    };
+    void sendInitialState();
 
     // Session stats polling + sale notifications
     let statsIntervalId: NodeJS.Timeout | null = null;
@@ -378,7 +563,7 @@ export async function chatWebSocketRoutes(fastify: FastifyInstance) {
             break;
 
           case 'start':
-            if (!chatService.isActive(creatorId)) {
+            if (!(await chatService.isActive(creatorId))) {
               await chatService.startChat(creatorId);
             }
             break;
@@ -401,6 +586,8 @@ export async function chatWebSocketRoutes(fastify: FastifyInstance) {
       console.log(`💬 WebSocket disconnected for creator ${creatorId}`);
       unsubMessage();
       unsubState();
+      unsubModeration();
+      unsubAnswer();
       if (statsIntervalId) {
         clearInterval(statsIntervalId);
       }
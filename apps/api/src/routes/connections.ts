@@ -5,13 +5,16 @@ import {
   getAuthUrlParamsSchema,
   getAuthUrlQuerySchema,
   deleteConnectionParamsSchema,
+  connectWooCommerceRequestSchema,
   type ListConnectionsResponse,
   type GetAuthUrlResponse,
   type DeleteConnectionResponse,
+  type ConnectWooCommerceResponse,
 } from '@unifyed/types/api';
-import { AppError, ErrorCodes, generateId, encrypt } from '@unifyed/utils';
+import { AppError, ErrorCodes, generateId, encrypt, randomHex, integrationError } from '@unifyed/utils';
 import { EVENT_TYPES } from '@unifyed/events';
 import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
 import { env } from '../config/env.js';
 
 // Integration adapters
@@ -20,9 +23,16 @@ import * as tiktokIntegration from '@unifyed/integrations-tiktok';
 import * as youtubeIntegration from '@unifyed/integrations-youtube';
 import * as twitchIntegration from '@unifyed/integrations-twitch';
 import * as restreamIntegration from '@unifyed/integrations-restream';
+import * as wooCommerceIntegration from '@unifyed/integrations-woocommerce';
+
+// Credentials never go into the audit log
+function toAuditSnapshot(connection: { credentials: string } & Record<string, unknown>) {
+  const { credentials: _credentials, ...rest } = connection;
+  return rest;
+}
 
 export async function connectionsRoutes(fastify: FastifyInstance) {
-  await fastify.register(authPlugin);
+  await fastify.register(authPlugin, { access: ROUTE_ACCESS.connections });
 
   // GET /connections - List all connections for creator (no auth check on hook - checked per route)
   fastify.get('/', {
@@ -366,6 +376,121 @@ export async function connectionsRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // POST /connections/woocommerce - Connect a WooCommerce store with REST API keys
+  fastify.post('/woocommerce', {
+    onRequest: [fastify.authenticate],
+  }, async (request, reply) => {
+    const input = connectWooCommerceRequestSchema.parse(request.body);
+    const storeUrl = wooCommerceIntegration.normalizeStoreUrl(input.storeUrl);
+
+    const client = new wooCommerceIntegration.WooCommerceClient({
+      storeUrl,
+      consumerKey: input.consumerKey,
+      consumerSecret: input.consumerSecret,
+    });
+
+    // Checking the store currency doubles as a credentials check
+    let currency: string;
+    try {
+      currency = await client.getCurrency();
+    } catch (err) {
+      request.log.warn({ err, storeUrl }, 'WooCommerce credentials check failed');
+      throw integrationError('woocommerce', 'Could not reach the store with these API keys');
+    }
+
+    // Register order and stock webhooks, replacing any from an earlier connection
+    const webhookBaseUrl = `${env.API_URL}/webhooks/woocommerce`;
+    const webhookSecret = randomHex(32);
+    const webhookIds: number[] = [];
+
+    try {
+      const existingWebhooks = await client.listWebhooks();
+      for (const webhook of existingWebhooks) {
+        if (webhook.delivery_url.startsWith(webhookBaseUrl)) {
+          await client.deleteWebhook(webhook.id);
+        }
+      }
+
+      for (const topic of wooCommerceIntegration.WOOCOMMERCE_WEBHOOK_TOPICS) {
+        const { id } = await client.createWebhook({
+          topic,
+          deliveryUrl: `${webhookBaseUrl}/${topic.startsWith('order.') ? 'orders' : 'products'}`,
+          secret: webhookSecret,
+        });
+        webhookIds.push(id);
+      }
+    } catch (err) {
+      request.log.error({ err, storeUrl }, 'Failed to register WooCommerce webhooks');
+      throw integrationError('woocommerce', 'Failed to register webhooks. Check the API keys have read/write access.');
+    }
+
+    const encryptedCredentials = encrypt(
+      JSON.stringify({
+        storeUrl,
+        consumerKey: input.consumerKey,
+        consumerSecret: input.consumerSecret,
+        webhookSecret,
+      }),
+      env.CREDENTIALS_ENCRYPTION_KEY
+    );
+
+    const displayName = new URL(storeUrl).host;
+    const metadata = { currency, webhookIds };
+
+    const [connection] = await fastify.db
+      .insert(platformConnections)
+      .values({
+        creatorId: request.creator.id,
+        platform: 'woocommerce',
+        credentials: encryptedCredentials,
+        externalId: storeUrl,
+        displayName,
+        status: 'healthy',
+        metadata,
+      })
+      .onConflictDoUpdate({
+        target: [platformConnections.creatorId, platformConnections.platform],
+        set: {
+          credentials: encryptedCredentials,
+          externalId: storeUrl,
+          displayName,
+          status: 'healthy',
+          lastError: null,
+          metadata,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+
+    if (!connection) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to save connection');
+    }
+
+    await fastify.audit(request, {
+      action: 'connection.connected',
+      resourceType: 'platform_connection',
+      resourceId: connection.id,
+      after: toAuditSnapshot(connection),
+    });
+
+    await fastify.emitEvent(EVENT_TYPES.PLATFORM_CONNECTED, {
+      connectionId: connection.id,
+      platform: 'woocommerce',
+      externalId: storeUrl,
+      displayName,
+    }, { creatorId: request.creator.id });
+
+    await fastify.queues.catalogSync.add(
+      'sync',
+      { connectionId: connection.id },
+      { jobId: `initial-sync-${connection.id}-${Date.now()}` }
+    );
+
+    const { credentials: _credentials, ...publicConnection } = connection;
+    const response: ConnectWooCommerceResponse = { connection: publicConnection };
+    return reply.status(201).send(response);
+  });
+
   // DELETE /connections/:id - Disconnect a platform
   fastify.delete('/:id', {
     onRequest: [fastify.authenticate],
@@ -391,6 +516,13 @@ export async function connectionsRoutes(fastify: FastifyInstance) {
       .delete(platformConnections)
       .where(eq(platformConnections.id, id));
 
+    await fastify.audit(request, {
+      action: 'connection.disconnected',
+      resourceType: 'platform_connection',
+      resourceId: id,
+      before: toAuditSnapshot(connection),
+    });
+
     // Emit event
     await fastify.emitEvent(EVENT_TYPES.PLATFORM_DISCONNECTED, {
       connectionId: id,
@@ -428,6 +560,11 @@ export async function connectionsRoutes(fastify: FastifyInstance) {
       return reply.send({ success: true, message: 'Shopify tokens do not expire' });
     }
 
+    if (connection.platform === 'woocommerce') {
+      // WooCommerce REST keys don't expire
+      return reply.send({ success: true, message: 'WooCommerce API keys do not expire' });
+    }
+
     try {
       const { decrypt } = await import('@unifyed/utils');
       const currentCredentials = JSON.parse(
@@ -724,6 +861,13 @@ export async function connectionsRoutes(fastify: FastifyInstance) {
       .delete(streamingToolConnections)
       .where(eq(streamingToolConnections.id, id));
 
+    await fastify.audit(request, {
+      action: 'streaming_tool.disconnected',
+      resourceType: 'streaming_tool_connection',
+      resourceId: id,
+      before: toAuditSnapshot(connection),
+    });
+
     // TODO: Create dedicated STREAMING_TOOL_DISCONNECTED event type
     // For now, skip platform event emission for streaming tools
     fastify.log.info({ connectionId: id, tool: connection.tool }, 'Streaming tool disconnected');
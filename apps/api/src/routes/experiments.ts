@@ -0,0 +1,113 @@
+import { FastifyInstance } from 'fastify';
+import {
+  listExperimentsQuerySchema,
+  createExperimentRequestSchema,
+  experimentParamsSchema,
+  promoteExperimentRequestSchema,
+} from '@unifyed/types/api';
+import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
+import { ExperimentService } from '../services/experiment.service.js';
+
+export async function experimentsRoutes(fastify: FastifyInstance) {
+  const experiments = new ExperimentService(fastify.db);
+
+  // Experiments change what offers sell at, so they share the offers policy
+  await fastify.register(authPlugin, { apiKeyScope: 'offers', access: ROUTE_ACCESS.offers });
+  fastify.addHook('onRequest', fastify.authenticate);
+
+  /**
+   * GET /experiments
+   * Experiments, newest first; ?offerId= and ?status= narrow the list
+   */
+  fastify.get('/', async (request, reply) => {
+    const query = listExperimentsQuerySchema.parse(request.query);
+    const list = await experiments.list(request.creator.id, query);
+    return reply.send({ experiments: list });
+  });
+
+  /**
+   * POST /experiments
+   * Start testing an offer's terms. The first variant is the control.
+   */
+  fastify.post('/', async (request, reply) => {
+    const input = createExperimentRequestSchema.parse(request.body);
+    const experiment = await experiments.create(request.creator.id, input);
+
+    await fastify.audit(request, {
+      action: 'experiment.created',
+      resourceType: 'offer_experiment',
+      resourceId: experiment.id,
+      after: experiment,
+    });
+
+    return reply.status(201).send({ experiment });
+  });
+
+  /**
+   * GET /experiments/:id
+   */
+  fastify.get('/:id', async (request, reply) => {
+    const { id } = experimentParamsSchema.parse(request.params);
+    const experiment = await experiments.get(request.creator.id, id);
+    return reply.send({ experiment });
+  });
+
+  /**
+   * GET /experiments/:id/results
+   * Conversion rate and revenue per visitor for each variant with 95%
+   * confidence intervals, compared with the control
+   */
+  fastify.get('/:id/results', async (request, reply) => {
+    const { id } = experimentParamsSchema.parse(request.params);
+    const results = await experiments.getResults(request.creator.id, id);
+    return reply.send(results);
+  });
+
+  /**
+   * POST /experiments/:id/stop
+   * Send every visitor to the offer's own terms again
+   */
+  fastify.post('/:id/stop', async (request, reply) => {
+    const { id } = experimentParamsSchema.parse(request.params);
+    const { before, after } = await experiments.stop(request.creator.id, id);
+
+    await fastify.audit(request, {
+      action: 'experiment.stopped',
+      resourceType: 'offer_experiment',
+      resourceId: id,
+      before,
+      after,
+    });
+
+    return reply.send({ experiment: after });
+  });
+
+  /**
+   * POST /experiments/:id/promote
+   * Write the winning variant's terms onto the offer and end the experiment
+   */
+  fastify.post('/:id/promote', async (request, reply) => {
+    const { id } = experimentParamsSchema.parse(request.params);
+    const { variantId } = promoteExperimentRequestSchema.parse(request.body);
+    const { experiment, offer } = await experiments.promote(request.creator.id, id, variantId);
+
+    await fastify.audit(request, {
+      action: 'experiment.promoted',
+      resourceType: 'offer_experiment',
+      resourceId: id,
+      before: experiment.before,
+      after: experiment.after,
+    });
+
+    await fastify.audit(request, {
+      action: 'offer.updated',
+      resourceType: 'offer',
+      resourceId: offer.after.id,
+      before: offer.before,
+      after: offer.after,
+    });
+
+    return reply.send({ experiment: experiment.after, offer: offer.after });
+  });
+}
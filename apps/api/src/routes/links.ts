@@ -14,10 +14,11 @@ import {
 import { AppError, ErrorCodes, generateShortLinkCode } from '@unifyed/utils';
 import { EVENT_TYPES } from '@unifyed/events';
 import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
 import { env } from '../config/env.js';
 
 export async function linksRoutes(fastify: FastifyInstance) {
-  await fastify.register(authPlugin);
+  await fastify.register(authPlugin, { apiKeyScope: 'links', access: ROUTE_ACCESS.links });
   fastify.addHook('onRequest', fastify.authenticate);
 
   // GET /links - List short links
@@ -198,6 +199,14 @@ export async function linksRoutes(fastify: FastifyInstance) {
       throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to revoke link');
     }
 
+    await fastify.audit(request, {
+      action: 'link.revoked',
+      resourceType: 'link',
+      resourceId: id,
+      before: link,
+      after: updated,
+    });
+
     // Emit event
     await fastify.emitEvent(EVENT_TYPES.LINK_REVOKED, {
       linkId: updated.id,
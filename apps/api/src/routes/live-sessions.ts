@@ -1,11 +1,24 @@
 import { randomBytes } from 'crypto';
+import { Readable } from 'stream';
 import { FastifyInstance } from 'fastify';
 import { eq, and, count, desc, inArray, sum } from 'drizzle-orm';
 import { liveSessions, streams, platformConnections, sessionTemplates, offers, products, orders, checkoutSessions, attributionContexts, shortLinks } from '@unifyed/db/schema';
 import { z } from 'zod';
+import {
+  transcriptParamsSchema,
+  listTranscriptQuerySchema,
+  exportTranscriptQuerySchema,
+} from '@unifyed/types/api';
 import { AppError, ErrorCodes } from '@unifyed/utils';
 import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
 import { env } from '../config/env.js';
+import {
+  ChatTranscriptService,
+  transcriptCsvHeader,
+  toTranscriptCsvRow,
+  toTranscriptJsonLine,
+} from '../services/chat-transcript.service.js';
 import * as restreamIntegration from '@unifyed/integrations-restream';
 
 // Request/Response schemas
@@ -52,9 +65,28 @@ interface LiveStatusResponse {
 }
 
 export async function liveSessionsRoutes(fastify: FastifyInstance) {
-  await fastify.register(authPlugin);
+  await fastify.register(authPlugin, { access: ROUTE_ACCESS.liveSessions });
   fastify.addHook('onRequest', fastify.authenticate);
 
+  const transcripts = new ChatTranscriptService(fastify.db);
+
+  async function getOwnedSession(id: string, creatorId: string) {
+    const [session] = await fastify.db
+      .select({ id: liveSessions.id })
+      .from(liveSessions)
+      .where(and(
+        eq(liveSessions.id, id),
+        eq(liveSessions.creatorId, creatorId)
+      ))
+      .limit(1);
+
+    if (!session) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Live session not found');
+    }
+
+    return session;
+  }
+
   // GET /live-sessions - List live sessions
   fastify.get('/', async (request, reply) => {
     const query = listLiveSessionsQuerySchema.parse(request.query);
@@ -637,6 +669,40 @@ export async function liveSessionsRoutes(fastify: FastifyInstance) {
     });
   });
 
+  // GET /live-sessions/:id/transcript - Search a session's chat transcript
+  fastify.get('/:id/transcript', async (request, reply) => {
+    const { id } = transcriptParamsSchema.parse(request.params);
+    const query = listTranscriptQuerySchema.parse(request.query);
+
+    await getOwnedSession(id, request.creator.id);
+
+    const result = await transcripts.list(id, query);
+    return reply.send(result);
+  });
+
+  // GET /live-sessions/:id/transcript/export - Download the transcript as CSV or JSONL
+  fastify.get('/:id/transcript/export', async (request, reply) => {
+    const { id } = transcriptParamsSchema.parse(request.params);
+    const { format, ...filter } = exportTranscriptQuerySchema.parse(request.query);
+
+    await getOwnedSession(id, request.creator.id);
+
+    const messages = transcripts.iterate(id, filter);
+    const lines = async function* () {
+      if (format === 'csv') {
+        yield transcriptCsvHeader();
+      }
+      for await (const message of messages) {
+        yield format === 'csv' ? toTranscriptCsvRow(message) : toTranscriptJsonLine(message);
+      }
+    };
+
+    return reply
+      .header('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson')
+      .header('Content-Disposition', `attachment; filename="transcript-${id}.${format}"`)
+      .send(Readable.from(lines()));
+  });
+
   // GET /live-sessions/current/stats - Get stats for currently live session
   fastify.get('/current/stats', async (request, reply) => {
     // Find currently live session
@@ -858,6 +924,14 @@ export async function liveSessionsRoutes(fastify: FastifyInstance) {
       })
       .where(eq(liveSessions.id, id));
 
+    await fastify.audit(request, {
+      action: 'live_session.queue_set',
+      resourceType: 'live_session',
+      resourceId: id,
+      before: { ...getQueueState(existingMetadata) },
+      after: { ...newQueue },
+    });
+
     return reply.status(201).send({
       queue: {
         items: newQueue.items,
@@ -892,6 +966,8 @@ export async function liveSessionsRoutes(fastify: FastifyInstance) {
       throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Product queue is empty');
     }
 
+    const previousQueue = { ...queue };
+
     // Advance to next (wrap around to beginning)
     const nextIndex = (queue.currentIndex + 1) % queue.items.length;
     queue.currentIndex = nextIndex;
@@ -905,6 +981,14 @@ export async function liveSessionsRoutes(fastify: FastifyInstance) {
       })
       .where(eq(liveSessions.id, id));
 
+    await fastify.audit(request, {
+      action: 'live_session.queue_advanced',
+      resourceType: 'live_session',
+      resourceId: id,
+      before: previousQueue,
+      after: { ...queue },
+    });
+
     const currentProduct = queue.items[nextIndex] || null;
 
     return reply.send({
@@ -945,6 +1029,7 @@ export async function liveSessionsRoutes(fastify: FastifyInstance) {
       throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Index out of range');
     }
 
+    const previousQueue = { ...queue };
     queue.currentIndex = targetIndex;
     queue.lastDroppedAt = null;
 
@@ -956,6 +1041,14 @@ export async function liveSessionsRoutes(fastify: FastifyInstance) {
       })
       .where(eq(liveSessions.id, id));
 
+    await fastify.audit(request, {
+      action: 'live_session.queue_spotlighted',
+      resourceType: 'live_session',
+      resourceId: id,
+      before: previousQueue,
+      after: { ...queue },
+    });
+
     return reply.send({
       queue: {
         currentIndex: targetIndex,
@@ -1015,6 +1108,8 @@ export async function liveSessionsRoutes(fastify: FastifyInstance) {
       offerId: body.offerId,
     };
 
+    const previousQueue = { ...queue, items: [...queue.items] };
+
     if (body.position === 'next') {
       // Insert right after the current product
       queue.items.splice(queue.currentIndex + 1, 0, newItem);
@@ -1031,6 +1126,14 @@ export async function liveSessionsRoutes(fastify: FastifyInstance) {
       })
       .where(eq(liveSessions.id, id));
 
+    await fastify.audit(request, {
+      action: 'live_session.queue_product_added',
+      resourceType: 'live_session',
+      resourceId: id,
+      before: previousQueue,
+      after: { ...queue },
+    });
+
     return reply.send({
       queue: {
         items: queue.items,
@@ -1068,6 +1171,8 @@ export async function liveSessionsRoutes(fastify: FastifyInstance) {
     const metadata = (session.metadata as Record<string, unknown>) || {};
     const queue = getQueueState(metadata);
 
+    const previousQueue = { ...queue };
+
     if (body.autoDropEnabled !== undefined) {
       queue.autoDropEnabled = body.autoDropEnabled;
     }
@@ -1083,6 +1188,14 @@ export async function liveSessionsRoutes(fastify: FastifyInstance) {
       })
       .where(eq(liveSessions.id, id));
 
+    await fastify.audit(request, {
+      action: 'live_session.queue_settings_updated',
+      resourceType: 'live_session',
+      resourceId: id,
+      before: previousQueue,
+      after: { ...queue },
+    });
+
     return reply.send({
       settings: {
         autoDropEnabled: queue.autoDropEnabled,
@@ -1116,6 +1229,9 @@ export async function liveSessionsRoutes(fastify: FastifyInstance) {
       throw new AppError(ErrorCodes.VALIDATION_ERROR, 'No product currently spotlighted');
     }
 
+    // The dropped product is updated in place, so copy the items too
+    const previousQueue = { ...queue, items: queue.items.map(item => ({ ...item })) };
+
     // Generate a short link for this product if it has an offer
     let linkUrl = '';
     if (currentProduct.offerId) {
@@ -1175,6 +1291,14 @@ export async function liveSessionsRoutes(fastify: FastifyInstance) {
       })
       .where(eq(liveSessions.id, id));
 
+    await fastify.audit(request, {
+      action: 'live_session.queue_dropped',
+      resourceType: 'live_session',
+      resourceId: id,
+      before: previousQueue,
+      after: { ...queue },
+    });
+
     return reply.send({
       dropped: true,
       product: currentProduct,
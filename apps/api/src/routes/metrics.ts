@@ -2,6 +2,7 @@ import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { MetricsService, type MetricEventType } from '../services/metrics.service.js';
 import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
 
 // Validation schemas
 const trackEventSchema = z.object({
@@ -49,7 +50,7 @@ export async function metricsRoutes(fastify: FastifyInstance) {
 
   // Protected routes require authentication
   await fastify.register(async function protectedRoutes(fastify) {
-    await fastify.register(authPlugin);
+    await fastify.register(authPlugin, { access: ROUTE_ACCESS.metrics });
 
     // POST /metrics/events - Track authenticated events
     fastify.post('/events', {
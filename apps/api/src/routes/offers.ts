@@ -1,6 +1,6 @@
 import { FastifyInstance } from 'fastify';
-import { eq, and, count, sql } from 'drizzle-orm';
-import { offers, offerProducts, products, platformConnections } from '@unifyed/db/schema';
+import { eq, and, count } from 'drizzle-orm';
+import { offers, offerProducts } from '@unifyed/db/schema';
 import { 
   listOffersQuerySchema,
   getOfferParamsSchema,
@@ -21,9 +21,13 @@ import {
 import { AppError, ErrorCodes } from '@unifyed/utils';
 import { EVENT_TYPES } from '@unifyed/events';
 import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
+import { OfferService } from '../services/offer.service.js';
 
 export async function offersRoutes(fastify: FastifyInstance) {
-  await fastify.register(authPlugin);
+  const offerService = new OfferService(fastify.db);
+
+  await fastify.register(authPlugin, { apiKeyScope: 'offers', access: ROUTE_ACCESS.offers });
   fastify.addHook('onRequest', fastify.authenticate);
 
   // GET /offers - List offers
@@ -102,59 +106,11 @@ export async function offersRoutes(fastify: FastifyInstance) {
   fastify.post('/', async (request, reply) => {
     const input = createOfferRequestSchema.parse(request.body);
 
-    // Verify all products belong to creator
-    const validProducts = await fastify.db
-      .select({ id: products.id })
-      .from(products)
-      .where(
-        and(
-          sql`${products.id} IN ${input.productIds}`,
-          sql`${products.connectionId} IN (
-            SELECT id FROM ${platformConnections}
-            WHERE creator_id = ${request.creator.id}
-          )`
-        )
-      );
-
-    if (validProducts.length !== input.productIds.length) {
-      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Some products not found or not owned by creator');
-    }
-
-    // Create offer
-    const [offer] = await fastify.db
-      .insert(offers)
-      .values({
-        creatorId: request.creator.id,
-        name: input.name,
-        description: input.description,
-        type: input.type,
-        value: input.value,
-        status: 'draft',
-        startsAt: input.startsAt,
-        endsAt: input.endsAt,
-        maxRedemptions: input.maxRedemptions,
-        maxPerCustomer: input.maxPerCustomer,
-        badgeText: input.badgeText,
-      })
-      .returning();
-
-    if (!offer) {
-      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to create offer');
-    }
-
-    // Create offer products
-    const offerProductsData = input.productIds.map((productId, index) => ({
-      offerId: offer.id,
-      productId,
-      sortOrder: index,
-    }));
-
-    await fastify.db.insert(offerProducts).values(offerProductsData);
-
-    const createdOfferProducts = await fastify.db
-      .select()
-      .from(offerProducts)
-      .where(eq(offerProducts.offerId, offer.id));
+    // Validates product ownership (and bundle rules) before inserting
+    const { products: createdOfferProducts, ...offer } = await offerService.create(
+      request.creator.id,
+      input
+    );
 
     // Emit event
     await fastify.emitEvent(EVENT_TYPES.OFFER_CREATED, {
@@ -191,6 +147,10 @@ export async function offersRoutes(fastify: FastifyInstance) {
       throw new AppError(ErrorCodes.NOT_FOUND, 'Offer not found');
     }
 
+    if (existing.type === 'bundle' && input.value !== undefined) {
+      await offerService.validateBundleValue(id, input.value);
+    }
+
     const [updated] = await fastify.db
       .update(offers)
       .set({
@@ -204,6 +164,14 @@ export async function offersRoutes(fastify: FastifyInstance) {
       throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to update offer');
     }
 
+    await fastify.audit(request, {
+      action: 'offer.updated',
+      resourceType: 'offer',
+      resourceId: id,
+      before: existing,
+      after: updated,
+    });
+
     const offerProductsList = await fastify.db
       .select()
       .from(offerProducts)
@@ -251,6 +219,14 @@ export async function offersRoutes(fastify: FastifyInstance) {
       throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to activate offer');
     }
 
+    await fastify.audit(request, {
+      action: 'offer.activated',
+      resourceType: 'offer',
+      resourceId: id,
+      before: offer,
+      after: updated,
+    });
+
     // Emit event
     await fastify.emitEvent(EVENT_TYPES.OFFER_ACTIVATED, {
       offerId: updated.id,
@@ -295,6 +271,14 @@ export async function offersRoutes(fastify: FastifyInstance) {
       throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to deactivate offer');
     }
 
+    await fastify.audit(request, {
+      action: 'offer.deactivated',
+      resourceType: 'offer',
+      resourceId: id,
+      before: offer,
+      after: updated,
+    });
+
     // Emit event
     await fastify.emitEvent(EVENT_TYPES.OFFER_DEACTIVATED, {
       offerId: updated.id,
@@ -328,6 +312,13 @@ export async function offersRoutes(fastify: FastifyInstance) {
 
     await fastify.db.delete(offers).where(eq(offers.id, id));
 
+    await fastify.audit(request, {
+      action: 'offer.deleted',
+      resourceType: 'offer',
+      resourceId: id,
+      before: offer,
+    });
+
     // Emit event
     await fastify.emitEvent(EVENT_TYPES.OFFER_DELETED, {
       offerId: id,
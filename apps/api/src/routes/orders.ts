@@ -1,6 +1,6 @@
 import { FastifyInstance } from 'fastify';
 import { eq, and, count } from 'drizzle-orm';
-import { orders } from '@unifyed/db/schema';
+import { orders, chatMessages } from '@unifyed/db/schema';
 import { 
   listOrdersQuerySchema,
   getOrderParamsSchema,
@@ -9,9 +9,10 @@ import {
 } from '@unifyed/types/api';
 import { AppError, ErrorCodes } from '@unifyed/utils';
 import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
 
 export async function ordersRoutes(fastify: FastifyInstance) {
-  await fastify.register(authPlugin);
+  await fastify.register(authPlugin, { apiKeyScope: 'orders', access: ROUTE_ACCESS.orders });
   fastify.addHook('onRequest', fastify.authenticate);
 
   // GET /orders - List orders
@@ -76,6 +77,22 @@ export async function ordersRoutes(fastify: FastifyInstance) {
       throw new AppError(ErrorCodes.NOT_FOUND, 'Order not found');
     }
 
+    const [chatMessage] = order.chatMessageId
+      ? await fastify.db
+          .select({
+            id: chatMessages.id,
+            liveSessionId: chatMessages.liveSessionId,
+            platform: chatMessages.platform,
+            authorId: chatMessages.authorId,
+            authorName: chatMessages.authorName,
+            content: chatMessages.content,
+            sentAt: chatMessages.sentAt,
+          })
+          .from(chatMessages)
+          .where(eq(chatMessages.id, order.chatMessageId))
+          .limit(1)
+      : [];
+
     const response: GetOrderResponse = {
       order: {
         ...order,
@@ -87,6 +104,7 @@ export async function ordersRoutes(fastify: FastifyInstance) {
           price: number;
         }> | null,
       },
+      chatMessage: chatMessage ?? null,
     };
 
     return reply.send(response);
@@ -6,6 +6,7 @@ import * as stripeIntegration from '@unifyed/integrations-stripe';
 import { AppError, ErrorCodes } from '@unifyed/utils';
 import { authPlugin } from '../plugins/auth.js';
 import { env } from '../config/env.js';
+import { commerceBackends } from '../lib/commerce.js';
 
 // Initialize Stripe
 stripeIntegration.initStripe({
@@ -73,50 +74,48 @@ export async function paymentsRoutes(fastify: FastifyInstance) {
       imageUrl?: string;
     }>;
 
-    // Create Stripe checkout session
-    const lineItems = cartItems.map((item) => ({
-      name: item.title ?? 'Product',
-      unitAmount: item.offerPrice ?? item.price,
-      quantity: item.quantity,
-      currency: session.currency.toLowerCase(),
-      imageUrl: item.imageUrl,
-    }));
-
-    const stripeParams: stripeIntegration.CreateCheckoutSessionParams = {
-      lineItems,
-      successUrl: successUrl ?? `${env.APP_URL}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
-      cancelUrl: cancelUrl ?? `${env.APP_URL}/checkout/cancel`,
-      customerEmail: session.customerEmail ?? undefined,
+    // Create Stripe checkout session. With a Connect account the payment is
+    // routed to the creator.
+    const backend = commerceBackends.create(
+      'stripe',
+      stripeConnectAccountId ? { connectedAccountId: stripeConnectAccountId } : {}
+    );
+    const stripeSession = await backend.buildCheckout({
+      checkoutSessionId: session.id,
+      currency: session.currency,
+      customerEmail: session.customerEmail,
+      lines: cartItems.map((item) => ({
+        // Stripe sells our own catalog, so lines are keyed by our variant
+        productExternalId: item.variantId,
+        variantExternalId: item.variantId,
+        title: item.title ?? 'Product',
+        imageUrl: item.imageUrl ?? null,
+        quantity: item.quantity,
+        unitPrice: item.price,
+        unitOfferPrice: item.offerPrice ?? item.price,
+      })),
+      ...(successUrl && { successUrl }),
+      ...(cancelUrl && { cancelUrl }),
       metadata: {
-        unifyed_checkout_session_id: session.id,
         creator_id: session.creatorId,
         offer_id: session.offerId ?? '',
         attribution_context_id: session.attributionContextId ?? '',
       },
-      clientReferenceId: session.id,
-    };
-
-    // If creator has Connect account, route payment to them
-    if (stripeConnectAccountId) {
-      stripeParams.connectedAccountId = stripeConnectAccountId;
-      stripeParams.applicationFeeAmount = stripeIntegration.calculatePlatformFee(session.total);
-    }
-
-    const stripeSession = await stripeIntegration.createCheckoutSession(stripeParams);
+    });
 
     // Update our checkout session with Stripe session URL
     await fastify.db
       .update(checkoutSessions)
       .set({
         externalCheckoutUrl: stripeSession.url,
-        externalCheckoutId: stripeSession.id,
+        externalCheckoutId: stripeSession.externalCheckoutId ?? null,
         updatedAt: new Date(),
       })
       .where(eq(checkoutSessions.id, checkoutSessionId));
 
     return reply.send({
       checkoutUrl: stripeSession.url,
-      stripeSessionId: stripeSession.id,
+      stripeSessionId: stripeSession.externalCheckoutId,
     });
   });
 
@@ -176,6 +175,7 @@ export async function paymentsRoutes(fastify: FastifyInstance) {
   // Protected Routes (for creators)
   // =============================================
 
+  // Payouts are owner-only: team members get no access policy here
   await fastify.register(async function protectedRoutes(fastify) {
     await fastify.register(authPlugin);
     fastify.addHook('onRequest', fastify.authenticate);
@@ -256,6 +256,14 @@ export async function paymentsRoutes(fastify: FastifyInstance) {
         })
         .where(eq(profiles.id, profile.id));
 
+      await fastify.audit(request, {
+        action: 'stripe_connect.account_created',
+        resourceType: 'stripe_connect',
+        resourceId: account.id,
+        before: { stripeConnectAccountId: existingAccountId },
+        after: { stripeConnectAccountId: account.id },
+      });
+
       return reply.send({
         status: 'created',
         accountId: account.id,
@@ -372,6 +380,13 @@ export async function paymentsRoutes(fastify: FastifyInstance) {
         })
         .where(eq(profiles.id, profile.id));
 
+      await fastify.audit(request, {
+        action: 'stripe_connect.disconnected',
+        resourceType: 'stripe_connect',
+        resourceId: accountId,
+        before: { stripeConnectAccountId: accountId },
+      });
+
       return reply.send({
         success: true,
         message: 'Connect account disconnected',
@@ -1,4 +1,4 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyRequest } from 'fastify';
 import { eq, and, sql } from 'drizzle-orm';
 import { 
   replays, 
@@ -22,8 +22,47 @@ import {
 import { AppError, ErrorCodes, generateShortLinkCode } from '@unifyed/utils';
 import { EVENT_TYPES } from '@unifyed/events';
 import { env } from '../config/env.js';
+import { AttributionService, visitorLinkUrl } from '../services/attribution.service.js';
+import { ExperimentService } from '../services/experiment.service.js';
+import { allocateBundlePrice, offerUnitPrice } from '../services/pricing.js';
+
+/**
+ * The visitor ID sent by the web app, which it keeps in a cookie
+ */
+function getVisitorId(request: FastifyRequest): string | undefined {
+  const visitorId = request.headers['x-visitor-id'];
+  return typeof visitorId === 'string' && visitorId.length > 0 ? visitorId : undefined;
+}
+
+/**
+ * Add the offer price to each product shown with an offer, priced the way
+ * checkout prices it (a bundle's price is split across its products)
+ */
+function withOfferPrices<T extends { originalPrice: number }>(
+  offer: typeof offers.$inferSelect,
+  products: T[],
+  overrideValues: Array<number | null>
+): Array<T & { offerPrice: number }> {
+  const bundleShares = offer.type === 'bundle'
+    ? allocateBundlePrice(
+        products.map((product, index) => ({
+          price: product.originalPrice,
+          overrideValue: overrideValues[index] ?? null,
+        })),
+        offer.value
+      )
+    : [];
+
+  return products.map((product, index) => ({
+    ...product,
+    offerPrice: offerUnitPrice(product.originalPrice, offer, bundleShares[index]),
+  }));
+}
 
 export async function publicRoutes(fastify: FastifyInstance) {
+  const attribution = new AttributionService(fastify.db);
+  const experiments = new ExperimentService(fastify.db);
+
   // GET /public/replays/:idOrSlug - Get published replay with moments and offers
   fastify.get('/replays/:idOrSlug', async (request, reply) => {
     const { idOrSlug } = getPublicReplayParamsSchema.parse(request.params);
@@ -95,6 +134,10 @@ export async function publicRoutes(fastify: FastifyInstance) {
         )
       );
 
+    // Offers under test show the visitor their variant's price and badge
+    const visitorId = getVisitorId(request);
+    const visibleOffers = await experiments.forVisitor(activeOffers, visitorId);
+
     // Group offers with their products and create short links
     const offersMap = new Map<string, {
       offer: typeof offers.$inferSelect;
@@ -103,35 +146,22 @@ export async function publicRoutes(fastify: FastifyInstance) {
         title: string;
         imageUrl: string | null;
         originalPrice: number;
-        offerPrice: number;
         currency: string;
         shortLinkCode: string;
         shortLinkUrl: string;
       }>;
+      overrideValues: Array<number | null>;
     }>();
 
-    for (const row of activeOffers) {
+    for (const row of visibleOffers) {
       if (!offersMap.has(row.offer.id)) {
         offersMap.set(row.offer.id, {
           offer: row.offer,
           products: [],
+          overrideValues: [],
         });
       }
 
-      // Calculate offer price
-      let offerPrice = row.variant.price;
-      switch (row.offer.type) {
-        case 'percentage_off':
-          offerPrice = Math.round(row.variant.price * (1 - row.offer.value / 100));
-          break;
-        case 'fixed_amount_off':
-          offerPrice = Math.max(0, row.variant.price - row.offer.value);
-          break;
-        case 'fixed_price':
-          offerPrice = row.offer.value;
-          break;
-      }
-
       // Find or create short link for this offer with replay attribution
       let [existingLink] = await fastify.db
         .select()
@@ -200,11 +230,11 @@ export async function publicRoutes(fastify: FastifyInstance) {
           title: row.product.title,
           imageUrl: row.product.imageUrl,
           originalPrice: row.variant.price,
-          offerPrice,
           currency: row.variant.currency,
           shortLinkCode,
-          shortLinkUrl: `${env.API_URL}/go/${shortLinkCode}`,
+          shortLinkUrl: visitorLinkUrl(env.API_URL, shortLinkCode, visitorId),
         });
+        entry.overrideValues.push(row.offerProduct.overrideValue);
       }
     }
 
@@ -234,14 +264,14 @@ export async function publicRoutes(fastify: FastifyInstance) {
           avatarUrl: creator.avatarUrl,
         },
         moments: replayMoments,
-        offers: Array.from(offersMap.values()).map(({ offer, products }) => ({
+        offers: Array.from(offersMap.values()).map(({ offer, products, overrideValues }) => ({
           id: offer.id,
           name: offer.name,
           description: offer.description,
           type: offer.type,
           value: offer.value,
           badgeText: offer.badgeText,
-          products,
+          products: withOfferPrices(offer, products, overrideValues),
         })),
       },
     };
@@ -283,6 +313,10 @@ export async function publicRoutes(fastify: FastifyInstance) {
         )
       );
 
+    // Offers under test show the visitor their variant's price and badge
+    const visitorId = getVisitorId(request);
+    const visibleOffers = await experiments.forVisitor(activeOffers, visitorId);
+
     // Group offers with products
     const offersMap = new Map<string, {
       offer: typeof offers.$inferSelect;
@@ -291,14 +325,14 @@ export async function publicRoutes(fastify: FastifyInstance) {
         title: string;
         imageUrl: string | null;
         originalPrice: number;
-        offerPrice: number;
         currency: string;
       }>;
+      overrideValues: Array<number | null>;
       shortLinkCode: string;
       shortLinkUrl: string;
     }>();
 
-    for (const row of activeOffers) {
+    for (const row of visibleOffers) {
       if (!offersMap.has(row.offer.id)) {
         // Find or create short link for link-in-bio
         let [existingLink] = await fastify.db
@@ -361,25 +395,12 @@ export async function publicRoutes(fastify: FastifyInstance) {
         offersMap.set(row.offer.id, {
           offer: row.offer,
           products: [],
+          overrideValues: [],
           shortLinkCode,
-          shortLinkUrl: `${env.API_URL}/go/${shortLinkCode}`,
+          shortLinkUrl: visitorLinkUrl(env.API_URL, shortLinkCode, visitorId),
         });
       }
 
-      // Calculate offer price
-      let offerPrice = row.variant.price;
-      switch (row.offer.type) {
-        case 'percentage_off':
-          offerPrice = Math.round(row.variant.price * (1 - row.offer.value / 100));
-          break;
-        case 'fixed_amount_off':
-          offerPrice = Math.max(0, row.variant.price - row.offer.value);
-          break;
-        case 'fixed_price':
-          offerPrice = row.offer.value;
-          break;
-      }
-
       const entry = offersMap.get(row.offer.id)!;
       // Avoid duplicate products
       if (!entry.products.find(p => p.id === row.product.id)) {
@@ -388,9 +409,9 @@ export async function publicRoutes(fastify: FastifyInstance) {
           title: row.product.title,
           imageUrl: row.product.imageUrl,
           originalPrice: row.variant.price,
-          offerPrice,
           currency: row.variant.currency,
         });
+        entry.overrideValues.push(row.offerProduct.overrideValue);
       }
     }
 
@@ -400,14 +421,14 @@ export async function publicRoutes(fastify: FastifyInstance) {
         handle: creator.handle!,
         avatarUrl: creator.avatarUrl,
         bio: null, // Could add bio field to creators table later
-        offers: Array.from(offersMap.values()).map(({ offer, products, shortLinkCode, shortLinkUrl }) => ({
+        offers: Array.from(offersMap.values()).map(({ offer, products, overrideValues, shortLinkCode, shortLinkUrl }) => ({
           id: offer.id,
           name: offer.name,
           description: offer.description,
           badgeText: offer.badgeText,
           shortLinkCode,
           shortLinkUrl,
-          products,
+          products: withOfferPrices(offer, products, overrideValues),
         })),
       },
     };
@@ -415,7 +436,9 @@ export async function publicRoutes(fastify: FastifyInstance) {
     return reply.send(response);
   });
 
-  // POST /public/events - Emit client-side events (view, click tracking)
+  // POST /public/events - Emit client-side events (view, click tracking).
+  // Views are also kept as the visitor's attribution touchpoints; clicks are
+  // kept once the link opens a checkout.
   fastify.post('/events', async (request, reply) => {
     const input = emitPublicEventRequestSchema.parse(request.body);
     const { eventType, payload } = input;
@@ -425,6 +448,7 @@ export async function publicRoutes(fastify: FastifyInstance) {
     const referrer = payload.referrer ?? request.headers.referer ?? null;
 
     let creatorId: string | undefined;
+    let replayPlatform: typeof replays.$inferSelect['platform'] = null;
 
     // Determine creator ID based on event type
     if (eventType === 'REPLAY_VIEW' || eventType === 'REPLAY_CLICK') {
@@ -433,7 +457,7 @@ export async function publicRoutes(fastify: FastifyInstance) {
       }
 
       const [replay] = await fastify.db
-        .select({ creatorId: replays.creatorId })
+        .select({ creatorId: replays.creatorId, platform: replays.platform })
         .from(replays)
         .where(eq(replays.id, payload.replayId))
         .limit(1);
@@ -443,6 +467,7 @@ export async function publicRoutes(fastify: FastifyInstance) {
       }
 
       creatorId = replay.creatorId;
+      replayPlatform = replay.platform;
     } else if (eventType === 'LINK_IN_BIO_VIEW' || eventType === 'LINK_IN_BIO_CLICK') {
       if (!payload.handle && !payload.creatorId) {
         throw new AppError(ErrorCodes.VALIDATION_ERROR, 'handle or creatorId is required for link-in-bio events');
@@ -475,6 +500,16 @@ export async function publicRoutes(fastify: FastifyInstance) {
           visitorId,
           referrer,
         }, creatorId ? { creatorId } : {});
+
+        if (creatorId && visitorId) {
+          await attribution.recordView({
+            creatorId,
+            visitorId,
+            type: 'replay_view',
+            platform: replayPlatform,
+            replayId: payload.replayId!,
+          });
+        }
         break;
 
       case 'REPLAY_CLICK':
@@ -505,6 +540,10 @@ export async function publicRoutes(fastify: FastifyInstance) {
           visitorId,
           referrer,
         }, { creatorId });
+
+        if (visitorId) {
+          await attribution.recordView({ creatorId, visitorId, type: 'link_in_bio_view' });
+        }
         break;
 
       case 'LINK_IN_BIO_CLICK':
@@ -16,9 +16,10 @@ import {
 import { AppError, ErrorCodes, generateSlug } from '@unifyed/utils';
 import { EVENT_TYPES } from '@unifyed/events';
 import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
 
 export async function replaysRoutes(fastify: FastifyInstance) {
-  await fastify.register(authPlugin);
+  await fastify.register(authPlugin, { access: ROUTE_ACCESS.replays });
   fastify.addHook('onRequest', fastify.authenticate);
 
   // GET /replays - List replays
@@ -4,6 +4,7 @@ import { sessionTemplates, liveSessions } from '@unifyed/db/schema';
 import { z } from 'zod';
 import { AppError, ErrorCodes } from '@unifyed/utils';
 import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
 
 // Request/Response schemas
 const listTemplatesQuerySchema = z.object({
@@ -63,7 +64,7 @@ interface SessionTemplateResponse {
 }
 
 export async function sessionTemplatesRoutes(fastify: FastifyInstance) {
-  await fastify.register(authPlugin);
+  await fastify.register(authPlugin, { access: ROUTE_ACCESS.sessionTemplates });
   fastify.addHook('onRequest', fastify.authenticate);
 
   // GET /session-templates - List templates
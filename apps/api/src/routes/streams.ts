@@ -19,9 +19,10 @@ import {
 import { AppError, ErrorCodes, generateSlug } from '@unifyed/utils';
 import { EVENT_TYPES } from '@unifyed/events';
 import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
 
 export async function streamsRoutes(fastify: FastifyInstance) {
-  await fastify.register(authPlugin);
+  await fastify.register(authPlugin, { apiKeyScope: 'streams', access: ROUTE_ACCESS.streams });
   fastify.addHook('onRequest', fastify.authenticate);
 
   // GET /streams - List streams
@@ -0,0 +1,120 @@
+import { FastifyInstance } from 'fastify';
+import {
+  teamParamsSchema,
+  updateTeamMemberRequestSchema,
+  createTeamInvitationRequestSchema,
+  acceptTeamInvitationRequestSchema,
+} from '@unifyed/types/api';
+import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
+import { TeamService } from '../services/team.service.js';
+import { env } from '../config/env.js';
+
+// Team members act on an account by sending its id in the X-Creator-Id header
+export async function teamRoutes(fastify: FastifyInstance) {
+  const teamService = new TeamService(fastify.db, env.APP_URL);
+
+  // =============================================
+  // The current user's own memberships
+  // =============================================
+
+  await fastify.register(async function membershipRoutes(fastify) {
+    await fastify.register(authPlugin, { access: ROUTE_ACCESS.account });
+    fastify.addHook('onRequest', fastify.authenticate);
+
+    /**
+     * GET /team/accounts
+     * Accounts the current user is a member of
+     */
+    fastify.get('/accounts', async (request, reply) => {
+      const accounts = await teamService.listAccounts(request.member.profileId);
+      return reply.send({ accounts });
+    });
+
+    /**
+     * POST /team/invitations/accept
+     * Join an account with an invitation token
+     */
+    fastify.post('/invitations/accept', async (request, reply) => {
+      const body = acceptTeamInvitationRequestSchema.parse(request.body);
+      const member = await teamService.acceptInvitation(request.member.profileId, body.token);
+      return reply.send({ creatorId: member.creatorId, role: member.role });
+    });
+  });
+
+  // =============================================
+  // Managing the account's team
+  // =============================================
+
+  await fastify.register(async function managementRoutes(fastify) {
+    await fastify.register(authPlugin, { access: ROUTE_ACCESS.team });
+    fastify.addHook('onRequest', fastify.authenticate);
+
+    /**
+     * GET /team/members
+     * List team members
+     */
+    fastify.get('/members', async (request, reply) => {
+      const members = await teamService.listMembers(request.creator.id);
+      return reply.send({ members });
+    });
+
+    /**
+     * PATCH /team/members/:id
+     * Change a member's role
+     */
+    fastify.patch('/members/:id', async (request, reply) => {
+      const { id } = teamParamsSchema.parse(request.params);
+      const body = updateTeamMemberRequestSchema.parse(request.body);
+
+      const member = await teamService.updateMember(request.creator.id, request.member.role, id, body.role);
+      return reply.send({ member });
+    });
+
+    /**
+     * DELETE /team/members/:id
+     * Remove a member
+     */
+    fastify.delete('/members/:id', async (request, reply) => {
+      const { id } = teamParamsSchema.parse(request.params);
+      await teamService.removeMember(request.creator.id, request.member.role, id);
+      return reply.send({ success: true });
+    });
+
+    /**
+     * GET /team/invitations
+     * List pending invitations
+     */
+    fastify.get('/invitations', async (request, reply) => {
+      const invitations = await teamService.listInvitations(request.creator.id);
+      return reply.send({ invitations });
+    });
+
+    /**
+     * POST /team/invitations
+     * Invite someone by email. The response includes the invite link (shown once).
+     */
+    fastify.post('/invitations', async (request, reply) => {
+      const body = createTeamInvitationRequestSchema.parse(request.body);
+
+      const result = await teamService.createInvitation(
+        request.creator.id,
+        request.member.profileId,
+        request.member.role,
+        body
+      );
+
+      return reply.status(201).send(result);
+    });
+
+    /**
+     * DELETE /team/invitations/:id
+     * Revoke a pending invitation
+     */
+    fastify.delete('/invitations/:id', async (request, reply) => {
+      const { id } = teamParamsSchema.parse(request.params);
+      await teamService.revokeInvitation(request.creator.id, id);
+      return reply.send({ success: true });
+    });
+  });
+}
@@ -0,0 +1,68 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { AppError, ErrorCodes } from '@unifyed/utils';
+import {
+  listViewersQuerySchema,
+  viewerParamsSchema,
+  lookupViewerQuerySchema,
+} from '@unifyed/types/api';
+import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS, canAccess } from '../lib/access.js';
+import { ViewerService } from '../services/viewer.service.js';
+
+/**
+ * Buyer emails are shown to the roles that can read orders
+ */
+function withEmail<T extends { email: string | null }>(request: FastifyRequest, viewer: T): T {
+  return canAccess(request.member.role, 'GET', ROUTE_ACCESS.orders) ? viewer : { ...viewer, email: null };
+}
+
+export async function viewersRoutes(fastify: FastifyInstance) {
+  const viewerService = new ViewerService(fastify.db);
+
+  await fastify.register(authPlugin, { access: ROUTE_ACCESS.viewers });
+  fastify.addHook('onRequest', fastify.authenticate);
+
+  /**
+   * GET /viewers
+   * The creator's audience, biggest spenders first by default
+   */
+  fastify.get('/', async (request, reply) => {
+    const query = listViewersQuerySchema.parse(request.query);
+    const result = await viewerService.list(request.creator.id, query);
+
+    return reply.send({
+      viewers: result.viewers.map(viewer => withEmail(request, viewer)),
+      pagination: result.pagination,
+    });
+  });
+
+  /**
+   * GET /viewers/lookup?platform=twitch&platformUserId=...
+   * The viewer behind a chat account
+   */
+  fastify.get('/lookup', async (request, reply) => {
+    const { platform, platformUserId } = lookupViewerQuerySchema.parse(request.query);
+
+    const viewer = await viewerService.lookup(request.creator.id, platform, platformUserId);
+    if (!viewer) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Viewer not found');
+    }
+
+    return reply.send({ viewer: withEmail(request, viewer) });
+  });
+
+  /**
+   * GET /viewers/:id
+   * A viewer's chat accounts, spend, top products and recent sessions
+   */
+  fastify.get('/:id', async (request, reply) => {
+    const { id } = viewerParamsSchema.parse(request.params);
+
+    const viewer = await viewerService.get(request.creator.id, id);
+    if (!viewer) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Viewer not found');
+    }
+
+    return reply.send({ viewer: withEmail(request, viewer) });
+  });
+}
@@ -0,0 +1,108 @@
+import { FastifyInstance } from 'fastify';
+import {
+  webhookEndpointParamsSchema,
+  createWebhookEndpointRequestSchema,
+  updateWebhookEndpointRequestSchema,
+  listWebhookDeliveriesQuerySchema,
+  webhookDeliveryParamsSchema,
+} from '@unifyed/types/api';
+import { authPlugin } from '../plugins/auth.js';
+import { ROUTE_ACCESS } from '../lib/access.js';
+import { WebhookEndpointService } from '../services/webhook-endpoint.service.js';
+import { env } from '../config/env.js';
+
+// Outbound webhooks: creators subscribe their own URLs to the event log.
+// (Inbound platform webhooks live in routes/webhooks.ts.)
+export async function webhookEndpointsRoutes(fastify: FastifyInstance) {
+  await fastify.register(authPlugin, { apiKeyScope: 'webhooks', access: ROUTE_ACCESS.webhooks });
+  fastify.addHook('onRequest', fastify.authenticate);
+
+  const webhookEndpointService = new WebhookEndpointService(fastify.db, env.CREDENTIALS_ENCRYPTION_KEY);
+
+  /**
+   * GET /webhook-endpoints
+   * List webhook endpoints
+   */
+  fastify.get('/', async (request, reply) => {
+    const endpoints = await webhookEndpointService.list(request.creator.id);
+    return reply.send({ endpoints });
+  });
+
+  /**
+   * POST /webhook-endpoints
+   * Create an endpoint. The response includes the signing secret (shown once).
+   */
+  fastify.post('/', async (request, reply) => {
+    const body = createWebhookEndpointRequestSchema.parse(request.body);
+
+    const result = await webhookEndpointService.create(request.creator.id, {
+      url: body.url,
+      description: body.description,
+      eventTypes: body.eventTypes,
+    });
+
+    return reply.status(201).send(result);
+  });
+
+  /**
+   * GET /webhook-endpoints/:id
+   * Get a single endpoint
+   */
+  fastify.get('/:id', async (request, reply) => {
+    const { id } = webhookEndpointParamsSchema.parse(request.params);
+    const endpoint = await webhookEndpointService.get(request.creator.id, id);
+    return reply.send({ endpoint });
+  });
+
+  /**
+   * PATCH /webhook-endpoints/:id
+   * Update url, description, event filters or enable/disable
+   */
+  fastify.patch('/:id', async (request, reply) => {
+    const { id } = webhookEndpointParamsSchema.parse(request.params);
+    const body = updateWebhookEndpointRequestSchema.parse(request.body);
+
+    const endpoint = await webhookEndpointService.update(request.creator.id, id, body);
+    return reply.send({ endpoint });
+  });
+
+  /**
+   * DELETE /webhook-endpoints/:id
+   * Delete an endpoint and its delivery log
+   */
+  fastify.delete('/:id', async (request, reply) => {
+    const { id } = webhookEndpointParamsSchema.parse(request.params);
+    await webhookEndpointService.delete(request.creator.id, id);
+    return reply.status(204).send();
+  });
+
+  /**
+   * GET /webhook-endpoints/:id/deliveries
+   * Delivery log, newest first
+   */
+  fastify.get('/:id/deliveries', async (request, reply) => {
+    const { id } = webhookEndpointParamsSchema.parse(request.params);
+    const query = listWebhookDeliveriesQuerySchema.parse(request.query);
+
+    const result = await webhookEndpointService.listDeliveries(request.creator.id, id, query);
+    return reply.send(result);
+  });
+
+  /**
+   * POST /webhook-endpoints/:id/deliveries/:deliveryId/redeliver
+   * Send the same event again
+   */
+  fastify.post('/:id/deliveries/:deliveryId/redeliver', async (request, reply) => {
+    const { id, deliveryId } = webhookDeliveryParamsSchema.parse(request.params);
+
+    const delivery = await webhookEndpointService.redeliver(request.creator.id, id, deliveryId);
+
+    await fastify.queues.webhookDelivery.add(
+      'deliver',
+      { deliveryId: delivery.id },
+      { jobId: delivery.id }
+    );
+
+    return reply.status(202).send({ delivery });
+  });
+}
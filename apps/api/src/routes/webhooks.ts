@@ -1,15 +1,23 @@
 import { FastifyInstance } from 'fastify';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, inArray, desc } from 'drizzle-orm';
 import { 
   orders, 
   checkoutSessions, 
   reservations, 
   platformConnections,
+  products,
+  variants,
+  attributionContexts,
+  chatMessages,
 } from '@unifyed/db/schema';
-import { AppError, ErrorCodes, verifyHmacSignature } from '@unifyed/utils';
+import { AppError, ErrorCodes, decrypt, hashEmail } from '@unifyed/utils';
 import { EVENT_TYPES } from '@unifyed/events';
 import * as stripeIntegration from '@unifyed/integrations-stripe';
+import * as wooCommerceIntegration from '@unifyed/integrations-woocommerce';
+import type { CommerceBackend, ParsedOrder } from '@unifyed/commerce';
 import { env } from '../config/env.js';
+import { commerceBackends } from '../lib/commerce.js';
+import { matchOrderLines, toDiscountLine, type CheckoutCartItem } from '../services/order-lines.js';
 
 // Initialize Stripe for webhooks
 stripeIntegration.initStripe({
@@ -17,31 +25,6 @@ stripeIntegration.initStripe({
   webhookSecret: env.STRIPE_WEBHOOK_SECRET,
 });
 
-interface ShopifyOrder {
-  id: number;
-  order_number: string;
-  email: string;
-  total_price: string;
-  subtotal_price: string;
-  total_discounts: string;
-  total_tax: string;
-  total_shipping_price_set?: { shop_money?: { amount: string } };
-  currency: string;
-  created_at: string;
-  note?: string;
-  line_items: Array<{
-    variant_id: number;
-    title: string;
-    quantity: number;
-    price: string;
-  }>;
-  customer?: {
-    email: string;
-    first_name?: string;
-    last_name?: string;
-  };
-}
-
 export async function webhooksRoutes(fastify: FastifyInstance) {
   // Disable body parsing for webhooks (need raw body for signature verification)
   fastify.addContentTypeParser(
@@ -52,6 +35,15 @@ export async function webhooksRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // WooCommerce pings a new webhook's delivery URL with a form-encoded body
+  fastify.addContentTypeParser(
+    'application/x-www-form-urlencoded',
+    { parseAs: 'buffer' },
+    (_req, body, done) => {
+      done(null, body);
+    }
+  );
+
   // POST /webhooks/shopify/orders - Shopify order webhook
   fastify.post('/shopify/orders', async (request, reply) => {
     const rawBody = request.body as Buffer;
@@ -81,133 +73,20 @@ export async function webhooksRoutes(fastify: FastifyInstance) {
       return reply.status(200).send({ received: true });
     }
 
-    // Verify webhook signature
-    // In production, use the app's webhook signing secret
-    if (env.SHOPIFY_CLIENT_SECRET) {
-      const isValid = verifyHmacSignature(
-        rawBody.toString('utf8'),
-        hmacHeader,
-        env.SHOPIFY_CLIENT_SECRET
-      );
-
-      if (!isValid) {
-        throw new AppError(ErrorCodes.WEBHOOK_VERIFICATION_FAILED, 'Invalid webhook signature');
-      }
-    }
-
-    // Parse order data
-    const orderData = JSON.parse(rawBody.toString('utf8')) as ShopifyOrder;
-
-    // Check for idempotency (already processed this webhook)
-    const [existingOrder] = await fastify.db
-      .select({ id: orders.id })
-      .from(orders)
-      .where(
-        and(
-          eq(orders.connectionId, connection.id),
-          eq(orders.externalOrderId, String(orderData.id))
-        )
-      )
-      .limit(1);
-
-    if (existingOrder) {
-      request.log.debug({ orderId: existingOrder.id }, 'Order already processed');
-      return reply.status(200).send({ received: true, duplicate: true });
-    }
-
-    // Try to find checkout session by note (we store session ID in checkout note)
-    let checkoutSession = null;
-    let attributionContextId = null;
-
-    if (orderData.note) {
-      [checkoutSession] = await fastify.db
-        .select()
-        .from(checkoutSessions)
-        .where(eq(checkoutSessions.id, orderData.note))
-        .limit(1);
-
-      if (checkoutSession) {
-        attributionContextId = checkoutSession.attributionContextId;
-      }
+    // Verify webhook signature with the app's signing secret
+    const backend = createBackend(connection);
+    if (!backend.verifyWebhook({ headers: request.headers, rawBody: rawBody.toString('utf8') })) {
+      throw new AppError(ErrorCodes.WEBHOOK_VERIFICATION_FAILED, 'Invalid webhook signature');
     }
 
-    // Convert prices to cents
-    const toCents = (price: string) => Math.round(parseFloat(price) * 100);
-
-    // Create order
-    const [order] = await fastify.db
-      .insert(orders)
-      .values({
-        creatorId: connection.creatorId,
-        checkoutSessionId: checkoutSession?.id,
-        attributionContextId,
-        connectionId: connection.id,
-        externalOrderId: String(orderData.id),
-        externalOrderNumber: String(orderData.order_number),
-        status: 'confirmed',
-        subtotal: toCents(orderData.subtotal_price),
-        discount: toCents(orderData.total_discounts),
-        shipping: orderData.total_shipping_price_set?.shop_money 
-          ? toCents(orderData.total_shipping_price_set.shop_money.amount)
-          : 0,
-        tax: toCents(orderData.total_tax),
-        total: toCents(orderData.total_price),
-        currency: orderData.currency,
-        customerEmail: orderData.customer?.email ?? orderData.email,
-        customerName: orderData.customer
-          ? `${orderData.customer.first_name ?? ''} ${orderData.customer.last_name ?? ''}`.trim()
-          : null,
-        lineItems: orderData.line_items.map(item => ({
-          variantId: '', // We'd need to look this up
-          externalVariantId: String(item.variant_id),
-          title: item.title,
-          quantity: item.quantity,
-          price: toCents(item.price),
-        })),
-        rawPayload: orderData as unknown as Record<string, unknown>,
-        externalCreatedAt: new Date(orderData.created_at),
-      })
-      .returning();
-
-    if (!order) {
-      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to create order');
+    const parsed = backend.parseOrder(JSON.parse(rawBody.toString('utf8')));
+    if (!parsed) {
+      return reply.status(200).send({ received: true, ignored: true });
     }
 
-    // If we have a checkout session, update it and confirm reservations
-    if (checkoutSession) {
-      await fastify.db
-        .update(checkoutSessions)
-        .set({
-          status: 'completed',
-          completedAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(checkoutSessions.id, checkoutSession.id));
-
-      // Confirm reservations
-      await fastify.db
-        .update(reservations)
-        .set({
-          status: 'confirmed',
-          updatedAt: new Date(),
-        })
-        .where(eq(reservations.checkoutSessionId, checkoutSession.id));
-    }
+    const result = await recordOrder(fastify, connection, parsed);
 
-    // Emit event
-    await fastify.emitEvent(EVENT_TYPES.PURCHASE_COMPLETED, {
-      orderId: order.id,
-      checkoutSessionId: checkoutSession?.id ?? null,
-      attributionContextId,
-      externalOrderId: order.externalOrderId,
-      total: order.total,
-      currency: order.currency,
-      itemCount: orderData.line_items.reduce((sum, item) => sum + item.quantity, 0),
-    }, { creatorId: connection.creatorId });
-
-    request.log.info({ orderId: order.id, externalOrderId: order.externalOrderId }, 'Order created from webhook');
-
-    return reply.status(200).send({ received: true, orderId: order.id });
+    return reply.status(200).send({ received: true, ...result });
   });
 
   // POST /webhooks/shopify/inventory - Shopify inventory webhook
@@ -225,6 +104,41 @@ export async function webhooksRoutes(fastify: FastifyInstance) {
     return reply.status(200).send({ received: true });
   });
 
+  // =============================================
+  // WooCommerce Webhooks
+  // =============================================
+
+  // POST /webhooks/woocommerce/orders - WooCommerce order.created / order.updated webhook
+  fastify.post('/woocommerce/orders', async (request, reply) => {
+    const verified = await verifyWooCommerceWebhook(fastify, request.headers, request.body as Buffer);
+    if (!verified) {
+      return reply.status(200).send({ received: true });
+    }
+
+    const parsed = verified.backend.parseOrder(JSON.parse(verified.rawBody));
+    // Orders are created pending at checkout; only paid orders become ours
+    if (!parsed?.isPaid) {
+      return reply.status(200).send({ received: true, ignored: true });
+    }
+
+    const result = await recordOrder(fastify, verified.connection, parsed);
+
+    return reply.status(200).send({ received: true, ...result });
+  });
+
+  // POST /webhooks/woocommerce/products - WooCommerce product.updated webhook (stock sync)
+  fastify.post('/woocommerce/products', async (request, reply) => {
+    const verified = await verifyWooCommerceWebhook(fastify, request.headers, request.body as Buffer);
+    if (!verified) {
+      return reply.status(200).send({ received: true });
+    }
+
+    const productData = JSON.parse(verified.rawBody) as wooCommerceIntegration.WooProduct | wooCommerceIntegration.WooVariation;
+    await handleWooCommerceStockUpdate(fastify, verified.connection, productData);
+
+    return reply.status(200).send({ received: true });
+  });
+
   // =============================================
   // Stripe Webhooks
   // =============================================
@@ -238,33 +152,28 @@ export async function webhooksRoutes(fastify: FastifyInstance) {
       throw new AppError(ErrorCodes.WEBHOOK_VERIFICATION_FAILED, 'Missing Stripe signature');
     }
 
-    // Verify and construct the event
-    let event: stripeIntegration.Stripe.Event;
-    
-    try {
-      if (!env.STRIPE_WEBHOOK_SECRET) {
-        // In development without webhook secret, just parse the JSON
-        event = JSON.parse(rawBody.toString('utf8')) as stripeIntegration.Stripe.Event;
-        request.log.warn('Stripe webhook signature not verified (no webhook secret configured)');
-      } else {
-        event = stripeIntegration.constructWebhookEvent(
-          rawBody,
-          signature,
-          env.STRIPE_WEBHOOK_SECRET
-        );
-      }
-    } catch (err) {
-      request.log.error({ err }, 'Stripe webhook signature verification failed');
+    // Verify the signature, then parse the event
+    const backend = commerceBackends.create('stripe');
+    if (!backend.verifyWebhook({ headers: request.headers, rawBody: rawBody.toString('utf8') })) {
+      request.log.error('Stripe webhook signature verification failed');
       throw new AppError(ErrorCodes.WEBHOOK_VERIFICATION_FAILED, 'Invalid Stripe signature');
     }
 
+    if (!env.STRIPE_WEBHOOK_SECRET) {
+      request.log.warn('Stripe webhook signature not verified (no webhook secret configured)');
+    }
+
+    const event = JSON.parse(rawBody.toString('utf8')) as stripeIntegration.Stripe.Event;
+
     request.log.info({ eventType: event.type, eventId: event.id }, 'Processing Stripe webhook');
 
     // Handle different event types
     switch (event.type) {
       case 'checkout.session.completed': {
-        const session = event.data.object as stripeIntegration.Stripe.Checkout.Session;
-        await handleStripeCheckoutCompleted(fastify, session);
+        const parsed = backend.parseOrder(event);
+        if (parsed) {
+          await handleStripeCheckoutCompleted(fastify, parsed);
+        }
         break;
       }
 
@@ -297,18 +206,194 @@ export async function webhooksRoutes(fastify: FastifyInstance) {
   });
 }
 
+type PlatformConnection = typeof platformConnections.$inferSelect;
+
+/**
+ * The commerce backend for a connection, with its decrypted credentials
+ */
+function createBackend(connection: PlatformConnection): CommerceBackend {
+  const credentials = JSON.parse(
+    decrypt(connection.credentials, env.CREDENTIALS_ENCRYPTION_KEY)
+  ) as Record<string, string>;
+  return commerceBackends.create(connection.platform, credentials);
+}
+
+/**
+ * The chat message a reply link was minted for, from the transcript, so an
+ * order through that link points at the message that drove the sale
+ */
+async function resolveChatMessage(
+  fastify: FastifyInstance,
+  attributionContextId: string | null
+): Promise<string | null> {
+  if (!attributionContextId) return null;
+
+  const [context] = await fastify.db
+    .select({
+      creatorId: attributionContexts.creatorId,
+      liveSessionId: attributionContexts.liveSessionId,
+      chatPlatform: attributionContexts.chatPlatform,
+      chatMessageId: attributionContexts.chatMessageId,
+    })
+    .from(attributionContexts)
+    .where(eq(attributionContexts.id, attributionContextId))
+    .limit(1);
+
+  if (!context?.chatPlatform || !context.chatMessageId) return null;
+
+  const [message] = await fastify.db
+    .select({ id: chatMessages.id })
+    .from(chatMessages)
+    .where(and(
+      eq(chatMessages.creatorId, context.creatorId),
+      eq(chatMessages.platform, context.chatPlatform),
+      eq(chatMessages.externalId, context.chatMessageId),
+      context.liveSessionId ? eq(chatMessages.liveSessionId, context.liveSessionId) : undefined
+    ))
+    .orderBy(desc(chatMessages.sentAt))
+    .limit(1);
+
+  return message?.id ?? null;
+}
+
+/**
+ * Store a paid store order, attributing it to our checkout session when it
+ * came through one, and confirm that session's reservations
+ */
+async function recordOrder(
+  fastify: FastifyInstance,
+  connection: PlatformConnection,
+  parsed: ParsedOrder
+): Promise<{ orderId?: string; duplicate?: boolean }> {
+  // Check for idempotency (stores can deliver the same order more than once)
+  const [existingOrder] = await fastify.db
+    .select({ id: orders.id })
+    .from(orders)
+    .where(
+      and(
+        eq(orders.connectionId, connection.id),
+        eq(orders.externalOrderId, parsed.externalOrderId)
+      )
+    )
+    .limit(1);
+
+  if (existingOrder) {
+    fastify.log.debug({ orderId: existingOrder.id }, 'Order already processed');
+    return { duplicate: true };
+  }
+
+  let checkoutSession = null;
+  let attributionContextId = null;
+
+  if (parsed.checkoutSessionId) {
+    [checkoutSession] = await fastify.db
+      .select()
+      .from(checkoutSessions)
+      .where(eq(checkoutSessions.id, parsed.checkoutSessionId))
+      .limit(1);
+
+    if (checkoutSession) {
+      attributionContextId = checkoutSession.attributionContextId;
+    }
+  }
+
+  const chatMessageId = await resolveChatMessage(fastify, attributionContextId);
+
+  // Order lines are matched back to our cart lines by external variant ID
+  const cartItems = checkoutSession?.cartItems ?? [];
+  const cartVariants = cartItems.length > 0
+    ? await fastify.db
+        .select({ id: variants.id, externalId: variants.externalId })
+        .from(variants)
+        .where(inArray(variants.id, cartItems.map(item => item.variantId)))
+    : [];
+  const lineItems = matchOrderLines(
+    parsed.lineItems,
+    cartItems,
+    new Map(cartVariants.map(variant => [variant.id, variant.externalId]))
+  );
+
+  const [order] = await fastify.db
+    .insert(orders)
+    .values({
+      creatorId: connection.creatorId,
+      checkoutSessionId: checkoutSession?.id,
+      attributionContextId,
+      chatMessageId,
+      connectionId: connection.id,
+      externalOrderId: parsed.externalOrderId,
+      externalOrderNumber: parsed.externalOrderNumber,
+      status: 'confirmed',
+      subtotal: parsed.subtotal,
+      discount: parsed.discount,
+      shipping: parsed.shipping,
+      tax: parsed.tax,
+      total: parsed.total,
+      currency: parsed.currency,
+      customerEmail: parsed.customerEmail,
+      customerName: parsed.customerName,
+      customerEmailHash: hashEmail(parsed.customerEmail),
+      lineItems,
+      rawPayload: parsed.raw,
+      externalCreatedAt: parsed.createdAt,
+    })
+    .returning();
+
+  if (!order) {
+    throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to create order');
+  }
+
+  // If we have a checkout session, update it and confirm reservations
+  if (checkoutSession) {
+    await fastify.db
+      .update(checkoutSessions)
+      .set({
+        status: 'completed',
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(checkoutSessions.id, checkoutSession.id));
+
+    await fastify.db
+      .update(reservations)
+      .set({
+        status: 'confirmed',
+        updatedAt: new Date(),
+      })
+      .where(eq(reservations.checkoutSessionId, checkoutSession.id));
+  }
+
+  await fastify.emitEvent(EVENT_TYPES.PURCHASE_COMPLETED, {
+    orderId: order.id,
+    checkoutSessionId: checkoutSession?.id ?? null,
+    attributionContextId,
+    externalOrderId: order.externalOrderId,
+    total: order.total,
+    currency: order.currency,
+    itemCount: parsed.lineItems.reduce((sum, item) => sum + item.quantity, 0),
+  }, { creatorId: connection.creatorId });
+
+  fastify.log.info(
+    { orderId: order.id, externalOrderId: order.externalOrderId, platform: connection.platform, chatMessageId },
+    'Order created from webhook'
+  );
+
+  return { orderId: order.id };
+}
+
 // =============================================
 // Stripe Webhook Handlers
 // =============================================
 
 async function handleStripeCheckoutCompleted(
   fastify: FastifyInstance,
-  session: stripeIntegration.Stripe.Checkout.Session
+  parsed: ParsedOrder
 ) {
-  const unifydSessionId = session.client_reference_id ?? session.metadata?.['unifyed_checkout_session_id'];
+  const unifydSessionId = parsed.checkoutSessionId;
+  const stripeSessionId = parsed.raw['stripeSessionId'];
 
   if (!unifydSessionId) {
-    fastify.log.warn({ stripeSessionId: session.id }, 'Stripe checkout completed without Unifyed session ID');
+    fastify.log.warn({ stripeSessionId }, 'Stripe checkout completed without Unifyed session ID');
     return;
   }
 
@@ -331,13 +416,8 @@ async function handleStripeCheckoutCompleted(
   }
 
   // Create order from Stripe session
-  const cartItems = checkoutSession.cartItems as Array<{
-    variantId: string;
-    quantity: number;
-    price: number;
-    offerPrice?: number;
-    title?: string;
-  }>;
+  const cartItems = checkoutSession.cartItems as Array<CheckoutCartItem & { title?: string }>;
+  const chatMessageId = await resolveChatMessage(fastify, checkoutSession.attributionContextId);
 
   const [order] = await fastify.db
     .insert(orders)
@@ -345,9 +425,10 @@ async function handleStripeCheckoutCompleted(
       creatorId: checkoutSession.creatorId,
       checkoutSessionId: checkoutSession.id,
       attributionContextId: checkoutSession.attributionContextId,
+      chatMessageId,
       connectionId: checkoutSession.connectionId,
-      externalOrderId: (session.payment_intent as string) ?? session.id,
-      externalOrderNumber: session.id.slice(-8).toUpperCase(),
+      externalOrderId: parsed.externalOrderId,
+      externalOrderNumber: parsed.externalOrderNumber,
       status: 'confirmed',
       subtotal: checkoutSession.subtotal,
       discount: checkoutSession.discount,
@@ -355,19 +436,18 @@ async function handleStripeCheckoutCompleted(
       tax: 0,
       total: checkoutSession.total,
       currency: checkoutSession.currency,
-      customerEmail: session.customer_email ?? undefined,
+      customerEmail: parsed.customerEmail,
+      customerName: parsed.customerName,
+      customerEmailHash: hashEmail(parsed.customerEmail),
       lineItems: cartItems.map(item => ({
         variantId: item.variantId,
         externalVariantId: '',
         title: item.title ?? 'Product',
         quantity: item.quantity,
         price: item.offerPrice ?? item.price,
+        ...toDiscountLine(item, item.quantity),
       })),
-      rawPayload: {
-        stripeSessionId: session.id,
-        stripePaymentIntentId: session.payment_intent,
-        stripeCustomerId: session.customer,
-      },
+      rawPayload: parsed.raw,
     })
     .returning();
 
@@ -406,7 +486,7 @@ async function handleStripeCheckoutCompleted(
     itemCount: cartItems.reduce((sum, item) => sum + item.quantity, 0),
   }, { creatorId: checkoutSession.creatorId });
 
-  fastify.log.info({ orderId: order.id, stripeSessionId: session.id }, 'Order created from Stripe checkout');
+  fastify.log.info({ orderId: order.id, stripeSessionId }, 'Order created from Stripe checkout');
 }
 
 async function handleStripeCheckoutExpired(
@@ -449,3 +529,94 @@ async function handleStripeCheckoutExpired(
 
   fastify.log.info({ unifydSessionId }, 'Checkout session expired from Stripe');
 }
+
+// =============================================
+// WooCommerce Webhook Handlers
+// =============================================
+
+/**
+ * Find the store a WooCommerce webhook came from and verify its signature
+ * with the secret we registered the webhook with. Returns null for the ping
+ * WooCommerce sends when a webhook is created and for unknown stores.
+ */
+async function verifyWooCommerceWebhook(
+  fastify: FastifyInstance,
+  headers: Record<string, string | string[] | undefined>,
+  body: Buffer
+): Promise<{ connection: PlatformConnection; backend: CommerceBackend; rawBody: string } | null> {
+  const rawBody = body.toString('utf8');
+  const webhookHeaders = wooCommerceIntegration.parseWebhookHeaders(headers);
+
+  if (!webhookHeaders) {
+    if (rawBody.startsWith('webhook_id=')) {
+      return null;
+    }
+    throw new AppError(ErrorCodes.WEBHOOK_VERIFICATION_FAILED, 'Missing webhook headers');
+  }
+
+  const [connection] = await fastify.db
+    .select()
+    .from(platformConnections)
+    .where(
+      and(
+        eq(platformConnections.platform, 'woocommerce'),
+        eq(platformConnections.externalId, wooCommerceIntegration.normalizeStoreUrl(webhookHeaders.source))
+      )
+    )
+    .limit(1);
+
+  if (!connection) {
+    fastify.log.warn({ source: webhookHeaders.source }, 'WooCommerce webhook from unknown store');
+    return null;
+  }
+
+  const backend = createBackend(connection);
+  if (!backend.verifyWebhook({ headers, rawBody })) {
+    throw new AppError(ErrorCodes.WEBHOOK_VERIFICATION_FAILED, 'Invalid webhook signature');
+  }
+
+  return { connection, backend, rawBody };
+}
+
+async function handleWooCommerceStockUpdate(
+  fastify: FastifyInstance,
+  connection: PlatformConnection,
+  productData: wooCommerceIntegration.WooProduct | wooCommerceIntegration.WooVariation
+) {
+  // Variations that share the parent's stock are updated by the parent's sync
+  if (productData.manage_stock === 'parent') {
+    return;
+  }
+
+  const { inventoryQuantity } = wooCommerceIntegration.toInventory(productData);
+
+  const matching = await fastify.db
+    .select({ id: variants.id, inventoryQuantity: variants.inventoryQuantity })
+    .from(variants)
+    .innerJoin(products, eq(variants.productId, products.id))
+    .where(
+      and(
+        eq(products.connectionId, connection.id),
+        eq(variants.externalId, String(productData.id))
+      )
+    );
+
+  for (const variant of matching) {
+    if (variant.inventoryQuantity === inventoryQuantity) continue;
+
+    await fastify.db
+      .update(variants)
+      .set({
+        inventoryQuantity,
+        updatedAt: new Date(),
+      })
+      .where(eq(variants.id, variant.id));
+
+    await fastify.emitEvent(EVENT_TYPES.INVENTORY_UPDATED, {
+      variantId: variant.id,
+      previousQuantity: variant.inventoryQuantity,
+      newQuantity: inventoryQuantity,
+      source: 'woocommerce_webhook',
+    }, { creatorId: connection.creatorId });
+  }
+}
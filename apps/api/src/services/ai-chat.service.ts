@@ -1,4 +1,4 @@
-import type { ChatMessage } from '@unifyed/types';
+import type { ChatMessage, ChatPlatform, ChatCommandInvocation } from '@unifyed/types';
 
 /**
  * AI Chat Intelligence Service
@@ -68,11 +68,53 @@ export interface AIAnalysisResult {
   priority: 'high' | 'medium' | 'low';
 }
 
+export type ChatIntent = 'purchase' | 'question' | 'praise' | 'complaint' | 'other';
+
+// A catalog product as classifiers see it
+export interface CatalogProduct {
+  id: string;
+  title: string;
+}
+
+export interface ProductMention {
+  productId: string;
+  title: string;
+}
+
+export interface ChatClassification extends ChatSignals {
+  intent: ChatIntent;
+  // Only products from the creator's catalog
+  productMentions: ProductMention[];
+  // ISO 639-1 code, null when the classifier can't tell
+  language: string | null;
+}
+
+export interface ClassifiedMessage {
+  message: ChatMessage;
+  signals: ChatClassification;
+  priority: 'high' | 'medium' | 'low';
+}
+
+/**
+ * Classifies chat messages for intent, product mentions and language.
+ * Results come back in the order the messages were given.
+ */
+export interface ChatClassifier {
+  readonly name: string;
+  classify(messages: ChatMessage[], catalog: CatalogProduct[]): Promise<ChatClassification[]>;
+}
+
 export interface SuggestedAction {
   type: 'drop_link' | 'answer_question' | 'pin_offer' | 'flash_sale' | 'acknowledge';
   message: string;
   offerId?: string | undefined;
   urgency: 'immediate' | 'soon' | 'optional';
+  // A drafted answer, sent with POST /chat-answers/suggestions/:id/send
+  reply?: {
+    suggestionId: string;
+    content: string;
+    platform: ChatPlatform;
+  } | undefined;
 }
 
 /**
@@ -136,29 +178,85 @@ export function analyzeMessage(message: ChatMessage): ChatSignals {
     (isQuestion ? 0.2 : 0)
   );
   
-  // Suggest action
-  let suggestedAction: string | undefined;
-  
-  if (hasBuyingIntent && !isQuestion) {
-    suggestedAction = 'Drop a link now! This viewer is ready to buy.';
-  } else if (hasBuyingIntent && isQuestion) {
-    suggestedAction = 'Answer this question and include a link.';
-  } else if (isQuestion) {
-    suggestedAction = 'This viewer has a question about the product.';
-  } else if (sentiment === 'positive' && message.type === 'gift') {
-    suggestedAction = 'Thank this viewer and mention your deal!';
-  }
-  
   return {
     hasBuyingIntent,
     isQuestion,
     sentiment,
-    suggestedAction,
+    suggestedAction: suggestAction(message, { hasBuyingIntent, isQuestion, sentiment }),
     confidence,
     keywords: [...new Set(keywords)],
   };
 }
 
+/**
+ * What the creator should do about a message, given its signals
+ */
+export function suggestAction(
+  message: ChatMessage,
+  signals: Pick<ChatSignals, 'hasBuyingIntent' | 'isQuestion' | 'sentiment'>
+): string | undefined {
+  const { hasBuyingIntent, isQuestion, sentiment } = signals;
+
+  if (hasBuyingIntent && !isQuestion) {
+    return 'Drop a link now! This viewer is ready to buy.';
+  } else if (hasBuyingIntent && isQuestion) {
+    return 'Answer this question and include a link.';
+  } else if (isQuestion) {
+    return 'This viewer has a question about the product.';
+  } else if (sentiment === 'positive' && message.type === 'gift') {
+    return 'Thank this viewer and mention your deal!';
+  }
+  return undefined;
+}
+
+/**
+ * Catalog products named in a message, matched on whole words of the title
+ */
+export function findProductMentions(content: string, catalog: CatalogProduct[]): ProductMention[] {
+  const mentions: ProductMention[] = [];
+  for (const product of catalog) {
+    const title = product.title.trim();
+    if (!title) continue;
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(title)}(?![\\p{L}\\p{N}])`, 'iu');
+    if (pattern.test(content)) {
+      mentions.push({ productId: product.id, title: product.title });
+    }
+  }
+  return mentions;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The regex engine as a ChatClassifier. English only, so it never reports
+ * a language.
+ */
+export class RegexChatClassifier implements ChatClassifier {
+  readonly name = 'regex';
+
+  async classify(messages: ChatMessage[], catalog: CatalogProduct[]): Promise<ChatClassification[]> {
+    return messages.map(message => {
+      const signals = analyzeMessage(message);
+      return {
+        ...signals,
+        intent: intentFromSignals(signals),
+        productMentions: findProductMentions(message.content, catalog),
+        language: null,
+      };
+    });
+  }
+}
+
+function intentFromSignals(signals: ChatSignals): ChatIntent {
+  if (signals.hasBuyingIntent) return 'purchase';
+  if (signals.isQuestion) return 'question';
+  if (signals.sentiment === 'negative') return 'complaint';
+  if (signals.sentiment === 'positive') return 'praise';
+  return 'other';
+}
+
 /**
  * Batch analyze multiple messages and prioritize
  */
@@ -168,36 +266,79 @@ export function analyzeMessages(messages: ChatMessage[]): AIAnalysisResult[] {
   for (const message of messages) {
     const signals = analyzeMessage(message);
     
-    // Determine priority
-    let priority: 'high' | 'medium' | 'low' = 'low';
-    
-    if (signals.hasBuyingIntent && signals.confidence > 0.5) {
-      priority = 'high';
-    } else if (signals.hasBuyingIntent || (signals.isQuestion && signals.confidence > 0.3)) {
-      priority = 'medium';
-    }
-    
-    // Also boost priority for gifts and subscribers
-    if (message.type === 'gift' || message.type === 'subscription') {
-      priority = 'high';
-    }
-    
     results.push({
       message,
       signals,
-      priority,
+      priority: prioritize(message, signals),
     });
   }
   
-  // Sort by priority and confidence
-  results.sort((a, b) => {
-    const priorityOrder = { high: 0, medium: 1, low: 2 };
+  return sortByPriority(results);
+}
+
+/**
+ * Batch classify messages with a classifier and prioritize
+ */
+export async function classifyMessages(
+  messages: ChatMessage[],
+  classifier: ChatClassifier,
+  catalog: CatalogProduct[]
+): Promise<ClassifiedMessage[]> {
+  const classifications = await classifier.classify(messages, catalog);
+
+  const results = messages.map((message, index) => {
+    const signals = classifications[index];
+    if (!signals) {
+      throw new Error(`Classifier ${classifier.name} returned no result for message ${message.id}`);
+    }
+    return { message, signals, priority: prioritize(message, signals) };
+  });
+
+  return sortByPriority(results);
+}
+
+function prioritize(message: ChatMessage, signals: ChatSignals): 'high' | 'medium' | 'low' {
+  let priority: 'high' | 'medium' | 'low' = 'low';
+  
+  if (signals.hasBuyingIntent && signals.confidence > 0.5) {
+    priority = 'high';
+  } else if (signals.hasBuyingIntent || (signals.isQuestion && signals.confidence > 0.3)) {
+    priority = 'medium';
+  }
+  
+  // Also boost priority for gifts and subscribers
+  if (message.type === 'gift' || message.type === 'subscription') {
+    priority = 'high';
+  }
+
+  return priority;
+}
+
+// Sort by priority and confidence
+function sortByPriority<T extends AIAnalysisResult>(results: T[]): T[] {
+  const priorityOrder = { high: 0, medium: 1, low: 2 };
+  return results.sort((a, b) => {
     const priorityDiff = priorityOrder[a.priority] - priorityOrder[b.priority];
     if (priorityDiff !== 0) return priorityDiff;
     return b.signals.confidence - a.signals.confidence;
   });
-  
-  return results;
+}
+
+/**
+ * How often each catalog product came up, most mentioned first
+ */
+export function countProductMentions(
+  results: ClassifiedMessage[]
+): Array<{ productId: string; title: string; count: number }> {
+  const counts = new Map<string, { productId: string; title: string; count: number }>();
+  for (const { signals } of results) {
+    for (const mention of signals.productMentions) {
+      const entry = counts.get(mention.productId) ?? { ...mention, count: 0 };
+      entry.count++;
+      counts.set(mention.productId, entry);
+    }
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count);
 }
 
 /**
@@ -263,12 +404,29 @@ export function getSuggestedActions(
   return actions;
 }
 
+// "!buy 2": a bang, a word, then anything
+const CHAT_COMMAND_PATTERN = /^!([a-z][a-z0-9_]{0,19})(?:\s+(.*))?$/i;
+
+/**
+ * The command a message starts with, if it's one
+ */
+export function parseChatCommand(content: string): ChatCommandInvocation | null {
+  const match = content.trim().match(CHAT_COMMAND_PATTERN);
+  if (!match?.[1]) return null;
+
+  return {
+    name: match[1].toLowerCase(),
+    args: match[2]?.split(/\s+/).filter(Boolean).slice(0, 5) ?? [],
+  };
+}
+
 /**
  * Real-time message processor for the chat stream
- * Returns enriched messages with signals
+ * Returns enriched messages with signals and any command
  */
 export function processMessage(message: ChatMessage): ChatMessage {
   const signals = analyzeMessage(message);
+  const command = message.type === 'chat' ? parseChatCommand(message.content) : null;
   
   return {
     ...message,
@@ -278,6 +436,7 @@ export function processMessage(message: ChatMessage): ChatMessage {
       sentiment: signals.sentiment,
       suggestedAction: signals.suggestedAction,
     },
+    ...(command && { command }),
   };
 }
 
@@ -289,8 +448,12 @@ export class AIChatService {
   private readonly maxBufferSize = 200;
   private actionCallbacks: Set<(actions: SuggestedAction[]) => void> = new Set();
   private checkInterval: NodeJS.Timeout | undefined;
+  private catalog: CatalogProduct[] = [];
   
-  constructor(private activeOfferIds: string[] = []) {}
+  constructor(
+    private activeOfferIds: string[] = [],
+    private classifier: ChatClassifier = new RegexChatClassifier()
+  ) {}
   
   /**
    * Start the AI service
@@ -338,6 +501,13 @@ export class AIChatService {
   setActiveOffers(offerIds: string[]): void {
     this.activeOfferIds = offerIds;
   }
+
+  /**
+   * Update the products messages are matched against
+   */
+  setCatalog(products: CatalogProduct[]): void {
+    this.catalog = products;
+  }
   
   /**
    * Subscribe to suggested actions
@@ -358,19 +528,20 @@ export class AIChatService {
   }
   
   /**
-   * Get current analysis
+   * Get current analysis, classified against the catalog
    */
-  getAnalysis(): {
-    recentSignals: AIAnalysisResult[];
+  async getAnalysis(): Promise<{
+    recentSignals: ClassifiedMessage[];
     suggestedActions: SuggestedAction[];
     stats: {
       totalMessages: number;
       buyingIntents: number;
       questions: number;
       positiveMessages: number;
+      productMentions: Array<{ productId: string; title: string; count: number }>;
     };
-  } {
-    const analyzed = analyzeMessages(this.messageBuffer);
+  }> {
+    const analyzed = await classifyMessages(this.messageBuffer, this.classifier, this.catalog);
     const actions = getSuggestedActions(this.messageBuffer, this.activeOfferIds);
     
     return {
@@ -381,6 +552,7 @@ export class AIChatService {
         buyingIntents: analyzed.filter(r => r.signals.hasBuyingIntent).length,
         questions: analyzed.filter(r => r.signals.isQuestion).length,
         positiveMessages: analyzed.filter(r => r.signals.sentiment === 'positive').length,
+        productMentions: countProductMentions(analyzed),
       },
     };
   }
@@ -389,6 +561,6 @@ export class AIChatService {
 /**
  * Create an AI chat service instance
  */
-export function createAIChatService(activeOfferIds: string[] = []): AIChatService {
-  return new AIChatService(activeOfferIds);
+export function createAIChatService(activeOfferIds: string[] = [], classifier?: ChatClassifier): AIChatService {
+  return new AIChatService(activeOfferIds, classifier);
 }
@@ -1,16 +1,31 @@
 import type { Database } from '@unifyed/db';
 import { 
   orders, 
-  checkoutSessions, 
-  attributionContexts
+  attributionContexts,
+  chatGifts,
+  analyticsRollups
 } from '@unifyed/db/schema';
-import { eq, and, gte, lte, sql, count, sum, desc, isNotNull } from 'drizzle-orm';
+import { eq, and, gt, gte, lt, sql, count, sum, desc, isNotNull } from 'drizzle-orm';
+import { AttributionService, type AttributionModel, type CreditedOrder } from './attribution.service.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
 
 export interface DateRange {
   start: Date;
   end: Date;
 }
 
+export interface RollupTotals {
+  orders: number;
+  revenue: number;    // cents
+  checkouts: number;
+  views: number;
+  giftCount: number;
+  giftValue: number;  // cents
+  giftPayout: number; // cents
+}
+
 export interface AnalyticsSummary {
   revenue: {
     total: number;
@@ -37,6 +52,31 @@ export interface AnalyticsSummary {
     previousTotal: number;
     change: number;
   };
+  // Gifts and donations sent in chat, a revenue stream apart from orders
+  gifts: {
+    total: number;
+    previousTotal: number;
+    change: number;
+    estimatedPayout: number;
+    previousEstimatedPayout: number;
+    count: number;
+  };
+  // Order revenue plus the estimated gift payout
+  monetization: {
+    total: number;
+    previousTotal: number;
+    change: number;
+  };
+}
+
+export interface GiftRevenue {
+  value: number;           // cents
+  estimatedPayout: number; // cents
+  count: number;           // gift messages
+}
+
+export interface GiftRevenueByPlatform extends GiftRevenue {
+  platform: string;
 }
 
 export interface RevenueByPlatform {
@@ -78,7 +118,11 @@ export interface TopStream {
 }
 
 export class AnalyticsService {
-  constructor(private db: Database) {}
+  private attribution: AttributionService;
+
+  constructor(private db: Database) {
+    this.attribution = new AttributionService(db);
+  }
 
   /**
    * Get date range based on period
@@ -131,66 +175,21 @@ export class AnalyticsService {
     const range = this.getDateRange(period);
     const prevRange = this.getPreviousDateRange(range);
 
-    // Current period
-    const [currentOrders] = await this.db
-      .select({
-        count: count(),
-        total: sum(orders.total),
-      })
-      .from(orders)
-      .where(
-        and(
-          eq(orders.creatorId, creatorId),
-          gte(orders.createdAt, range.start),
-          lte(orders.createdAt, range.end)
-        )
-      );
-
-    // Previous period
-    const [prevOrders] = await this.db
-      .select({
-        count: count(),
-        total: sum(orders.total),
-      })
-      .from(orders)
-      .where(
-        and(
-          eq(orders.creatorId, creatorId),
-          gte(orders.createdAt, prevRange.start),
-          lte(orders.createdAt, prevRange.end)
-        )
-      );
-
-    // Checkout sessions (for conversion calculation)
-    const [currentCheckouts] = await this.db
-      .select({ count: count() })
-      .from(checkoutSessions)
-      .where(
-        and(
-          eq(checkoutSessions.creatorId, creatorId),
-          gte(checkoutSessions.createdAt, range.start),
-          lte(checkoutSessions.createdAt, range.end)
-        )
-      );
-
-    const [prevCheckouts] = await this.db
-      .select({ count: count() })
-      .from(checkoutSessions)
-      .where(
-        and(
-          eq(checkoutSessions.creatorId, creatorId),
-          gte(checkoutSessions.createdAt, prevRange.start),
-          lte(checkoutSessions.createdAt, prevRange.end)
-        )
-      );
+    const current = await this.getRollupTotals(creatorId, range);
+    const prev = await this.getRollupTotals(creatorId, prevRange);
 
     // Calculate metrics
-    const currentRevenue = Number(currentOrders?.total ?? 0) / 100; // Convert cents to dollars
-    const prevRevenue = Number(prevOrders?.total ?? 0) / 100;
-    const currentOrderCount = Number(currentOrders?.count ?? 0);
-    const prevOrderCount = Number(prevOrders?.count ?? 0);
-    const currentCheckoutCount = Number(currentCheckouts?.count ?? 0);
-    const prevCheckoutCount = Number(prevCheckouts?.count ?? 0);
+    const currentRevenue = current.revenue / 100; // Convert cents to dollars
+    const prevRevenue = prev.revenue / 100;
+    const currentOrderCount = current.orders;
+    const prevOrderCount = prev.orders;
+    const currentCheckoutCount = current.checkouts;
+    const prevCheckoutCount = prev.checkouts;
+
+    const currentGiftValue = current.giftValue / 100;
+    const prevGiftValue = prev.giftValue / 100;
+    const currentGiftPayout = current.giftPayout / 100;
+    const prevGiftPayout = prev.giftPayout / 100;
 
     const currentAov = currentOrderCount > 0 ? currentRevenue / currentOrderCount : 0;
     const prevAov = prevOrderCount > 0 ? prevRevenue / prevOrderCount : 0;
@@ -224,97 +223,233 @@ export class AnalyticsService {
         change: calcChange(currentAov, prevAov),
       },
       views: {
-        // TODO: Implement actual view tracking
-        total: currentCheckoutCount * 10, // Placeholder: assume 10 views per checkout
-        previousTotal: prevCheckoutCount * 10,
-        change: calcChange(currentCheckoutCount * 10, prevCheckoutCount * 10),
+        total: current.views,
+        previousTotal: prev.views,
+        change: calcChange(current.views, prev.views),
       },
       conversionRate: {
         total: currentConversion,
         previousTotal: prevConversion,
         change: calcChange(currentConversion, prevConversion),
       },
+      gifts: {
+        total: currentGiftValue,
+        previousTotal: prevGiftValue,
+        change: calcChange(currentGiftValue, prevGiftValue),
+        estimatedPayout: currentGiftPayout,
+        previousEstimatedPayout: prevGiftPayout,
+        count: current.giftCount,
+      },
+      monetization: {
+        total: currentRevenue + currentGiftPayout,
+        previousTotal: prevRevenue + prevGiftPayout,
+        change: calcChange(currentRevenue + currentGiftPayout, prevRevenue + prevGiftPayout),
+      },
+    };
+  }
+
+  /**
+   * Rollup rows covering a date range, rounded to the hour. Whole UTC days
+   * come from the daily rows, anything else from the hourly ones.
+   */
+  private rollupsIn(creatorId: string, range: DateRange) {
+    const start = Math.round(range.start.getTime() / HOUR_MS) * HOUR_MS;
+    const end = Math.round((range.end.getTime() + 1) / HOUR_MS) * HOUR_MS;
+    const granularity = start % DAY_MS === 0 && end % DAY_MS === 0 ? 'day' : 'hour';
+
+    return and(
+      eq(analyticsRollups.creatorId, creatorId),
+      eq(analyticsRollups.granularity, granularity),
+      gte(analyticsRollups.bucketStart, new Date(start)),
+      lt(analyticsRollups.bucketStart, new Date(end))
+    );
+  }
+
+  /**
+   * Everything the rollups count over a date range (cents for money)
+   */
+  async getRollupTotals(creatorId: string, range: DateRange): Promise<RollupTotals> {
+    const [row] = await this.db
+      .select({
+        orders: sum(analyticsRollups.orders),
+        revenue: sum(analyticsRollups.revenue),
+        checkouts: sum(analyticsRollups.checkouts),
+        views: sum(analyticsRollups.views),
+        giftCount: sum(analyticsRollups.giftCount),
+        giftValue: sum(analyticsRollups.giftValue),
+        giftPayout: sum(analyticsRollups.giftPayout),
+      })
+      .from(analyticsRollups)
+      .where(this.rollupsIn(creatorId, range));
+
+    return {
+      orders: Number(row?.orders ?? 0),
+      revenue: Number(row?.revenue ?? 0),
+      checkouts: Number(row?.checkouts ?? 0),
+      views: Number(row?.views ?? 0),
+      giftCount: Number(row?.giftCount ?? 0),
+      giftValue: Number(row?.giftValue ?? 0),
+      giftPayout: Number(row?.giftPayout ?? 0),
     };
   }
 
   /**
-   * Get revenue breakdown by platform
+   * Gifts sent during a live session, by platform
+   */
+  async getSessionGiftsByPlatform(liveSessionId: string): Promise<GiftRevenueByPlatform[]> {
+    const rows = await this.db
+      .select({
+        platform: chatGifts.platform,
+        value: sum(chatGifts.value),
+        estimatedPayout: sum(chatGifts.estimatedPayout),
+        count: count(),
+      })
+      .from(chatGifts)
+      .where(eq(chatGifts.liveSessionId, liveSessionId))
+      .groupBy(chatGifts.platform)
+      .orderBy(desc(sum(chatGifts.estimatedPayout)));
+
+    return rows.map(row => ({
+      platform: row.platform,
+      value: Number(row.value ?? 0),
+      estimatedPayout: Number(row.estimatedPayout ?? 0),
+      count: Number(row.count),
+    }));
+  }
+
+  /**
+   * A live session's most generous gifters
+   */
+  async getSessionTopGifters(liveSessionId: string, limit = 10) {
+    const rows = await this.db
+      .select({
+        platform: chatGifts.platform,
+        senderId: chatGifts.senderId,
+        senderName: sql<string>`max(${chatGifts.senderName})`,
+        value: sum(chatGifts.value),
+        estimatedPayout: sum(chatGifts.estimatedPayout),
+        count: count(),
+      })
+      .from(chatGifts)
+      .where(eq(chatGifts.liveSessionId, liveSessionId))
+      .groupBy(chatGifts.platform, chatGifts.senderId)
+      .orderBy(desc(sum(chatGifts.value)))
+      .limit(limit);
+
+    return rows.map(row => ({
+      platform: row.platform,
+      senderId: row.senderId,
+      senderName: row.senderName,
+      value: Number(row.value ?? 0),
+      estimatedPayout: Number(row.estimatedPayout ?? 0),
+      count: Number(row.count),
+    }));
+  }
+
+  /**
+   * Get revenue breakdown by platform. Last touch credits each order to the
+   * link it was bought through; other models spread it across the visitor's
+   * earlier touchpoints too.
    */
   async getRevenueByPlatform(
     creatorId: string,
-    period: 'day' | 'week' | 'month' | '7d' | '30d' | '90d' = '7d'
+    period: 'day' | 'week' | 'month' | '7d' | '30d' | '90d' = '7d',
+    model: AttributionModel = 'last_touch'
   ): Promise<RevenueByPlatform[]> {
     const range = this.getDateRange(period);
 
+    if (model !== 'last_touch') {
+      const credited = await this.attribution.getCreditedOrders(creatorId, range, model);
+      return this.splitCreditedRevenue(credited, touch => touch.platform || 'direct')
+        .map(({ key, ...share }) => ({ platform: key, ...share }));
+    }
+
     const results = await this.db
       .select({
-        platform: attributionContexts.platform,
-        revenue: sum(orders.total),
-        orderCount: count(),
+        platform: analyticsRollups.platform,
+        revenue: sum(analyticsRollups.revenue),
+        orderCount: sum(analyticsRollups.orders),
       })
-      .from(orders)
-      .leftJoin(
-        attributionContexts,
-        eq(orders.attributionContextId, attributionContexts.id)
-      )
-      .where(
-        and(
-          eq(orders.creatorId, creatorId),
-          gte(orders.createdAt, range.start),
-          lte(orders.createdAt, range.end)
-        )
-      )
-      .groupBy(attributionContexts.platform);
+      .from(analyticsRollups)
+      .where(and(this.rollupsIn(creatorId, range), gt(analyticsRollups.orders, 0)))
+      .groupBy(analyticsRollups.platform);
 
     const totalRevenue = results.reduce((acc, r) => acc + Number(r.revenue ?? 0), 0);
 
     return results.map((r) => ({
       platform: r.platform || 'direct',
       revenue: Number(r.revenue ?? 0) / 100,
-      orders: Number(r.orderCount),
+      orders: Number(r.orderCount ?? 0),
       percentage: totalRevenue > 0 ? (Number(r.revenue ?? 0) / totalRevenue) * 100 : 0,
     }));
   }
 
   /**
-   * Get revenue breakdown by surface type
+   * Get revenue breakdown by surface type, under the same attribution models
    */
   async getRevenueBySurface(
     creatorId: string,
-    period: 'day' | 'week' | 'month' | '7d' | '30d' | '90d' = '7d'
+    period: 'day' | 'week' | 'month' | '7d' | '30d' | '90d' = '7d',
+    model: AttributionModel = 'last_touch'
   ): Promise<RevenueBySurface[]> {
     const range = this.getDateRange(period);
 
+    if (model !== 'last_touch') {
+      const credited = await this.attribution.getCreditedOrders(creatorId, range, model);
+      return this.splitCreditedRevenue(credited, touch => touch.surface)
+        .map(({ key, ...share }) => ({ surface: key, ...share }));
+    }
+
     const results = await this.db
       .select({
-        surface: attributionContexts.surface,
-        revenue: sum(orders.total),
-        orderCount: count(),
+        surface: analyticsRollups.surface,
+        revenue: sum(analyticsRollups.revenue),
+        orderCount: sum(analyticsRollups.orders),
       })
-      .from(orders)
-      .leftJoin(
-        attributionContexts,
-        eq(orders.attributionContextId, attributionContexts.id)
-      )
-      .where(
-        and(
-          eq(orders.creatorId, creatorId),
-          gte(orders.createdAt, range.start),
-          lte(orders.createdAt, range.end)
-        )
-      )
-      .groupBy(attributionContexts.surface);
+      .from(analyticsRollups)
+      .where(and(this.rollupsIn(creatorId, range), gt(analyticsRollups.orders, 0)))
+      .groupBy(analyticsRollups.surface);
 
     const totalRevenue = results.reduce((acc, r) => acc + Number(r.revenue ?? 0), 0);
 
     return results.map((r) => ({
       surface: r.surface || 'direct',
       revenue: Number(r.revenue ?? 0) / 100,
-      orders: Number(r.orderCount),
+      orders: Number(r.orderCount ?? 0),
       percentage: totalRevenue > 0 ? (Number(r.revenue ?? 0) / totalRevenue) * 100 : 0,
     }));
   }
 
+  /**
+   * Add up credited orders by platform or surface. Orders are counted in
+   * fractions, as credited.
+   */
+  private splitCreditedRevenue(
+    credited: CreditedOrder[],
+    keyOf: (touch: CreditedOrder['touches'][number]['touch']) => string
+  ): Array<{ key: string; revenue: number; orders: number; percentage: number }> {
+    const totals = new Map<string, { revenue: number; orders: number }>();
+
+    for (const order of credited) {
+      for (const { touch, credit } of order.touches) {
+        const key = keyOf(touch);
+        const total = totals.get(key) ?? { revenue: 0, orders: 0 };
+        total.revenue += order.total * credit;
+        total.orders += credit;
+        totals.set(key, total);
+      }
+    }
+
+    const totalRevenue = credited.reduce((acc, order) => acc + order.total, 0);
+
+    return [...totals].map(([key, total]) => ({
+      key,
+      revenue: Math.round(total.revenue) / 100,
+      orders: Math.round(total.orders * 100) / 100,
+      percentage: totalRevenue > 0 ? (total.revenue / totalRevenue) * 100 : 0,
+    }));
+  }
+
   /**
    * Get time-series revenue data for charts
    */
@@ -332,31 +467,26 @@ export class AnalyticsService {
       current.setDate(current.getDate() + 1);
     }
 
-    // Query orders grouped by date
+    // Rollups grouped by bucket (days, or hours added up per day below)
     const results = await this.db
       .select({
-        date: sql<string>`DATE(${orders.createdAt})`,
-        revenue: sum(orders.total),
-        orderCount: count(),
+        bucketStart: analyticsRollups.bucketStart,
+        revenue: sum(analyticsRollups.revenue),
+        orderCount: sum(analyticsRollups.orders),
       })
-      .from(orders)
-      .where(
-        and(
-          eq(orders.creatorId, creatorId),
-          gte(orders.createdAt, range.start),
-          lte(orders.createdAt, range.end)
-        )
-      )
-      .groupBy(sql`DATE(${orders.createdAt})`)
-      .orderBy(sql`DATE(${orders.createdAt})`);
+      .from(analyticsRollups)
+      .where(this.rollupsIn(creatorId, range))
+      .groupBy(analyticsRollups.bucketStart)
+      .orderBy(analyticsRollups.bucketStart);
 
     // Create lookup map
     const dataByDate = new Map<string, { revenue: number; orders: number }>();
     for (const r of results) {
-      dataByDate.set(r.date, {
-        revenue: Number(r.revenue ?? 0) / 100,
-        orders: Number(r.orderCount),
-      });
+      const date = r.bucketStart.toISOString().split('T')[0]!;
+      const day = dataByDate.get(date) ?? { revenue: 0, orders: 0 };
+      day.revenue += Number(r.revenue ?? 0) / 100;
+      day.orders += Number(r.orderCount ?? 0);
+      dataByDate.set(date, day);
     }
 
     // Fill in all dates
@@ -377,56 +507,28 @@ export class AnalyticsService {
   ): Promise<TopOffer[]> {
     const range = this.getDateRange(period);
 
-    // Get orders with offers
-    const orderResults = await this.db
+    // Orders and checkouts per offer
+    const results = await this.db
       .select({
-        offerId: checkoutSessions.offerId,
-        revenue: sum(orders.total),
-        orderCount: count(),
+        offerId: analyticsRollups.offerId,
+        revenue: sum(analyticsRollups.revenue),
+        orderCount: sum(analyticsRollups.orders),
+        checkoutCount: sum(analyticsRollups.checkouts),
       })
-      .from(orders)
-      .innerJoin(
-        checkoutSessions,
-        eq(orders.checkoutSessionId, checkoutSessions.id)
-      )
+      .from(analyticsRollups)
       .where(
         and(
-          eq(orders.creatorId, creatorId),
-          gte(orders.createdAt, range.start),
-          lte(orders.createdAt, range.end),
-          isNotNull(checkoutSessions.offerId)
+          this.rollupsIn(creatorId, range),
+          isNotNull(analyticsRollups.offerId)
         )
       )
-      .groupBy(checkoutSessions.offerId)
-      .orderBy(desc(sum(orders.total)))
+      .groupBy(analyticsRollups.offerId)
+      .having(gt(sum(analyticsRollups.orders), 0))
+      .orderBy(desc(sum(analyticsRollups.revenue)))
       .limit(limit);
 
-    // Get checkout counts for conversion rate
-    const checkoutResults = await this.db
-      .select({
-        offerId: checkoutSessions.offerId,
-        checkoutCount: count(),
-      })
-      .from(checkoutSessions)
-      .where(
-        and(
-          eq(checkoutSessions.creatorId, creatorId),
-          gte(checkoutSessions.createdAt, range.start),
-          lte(checkoutSessions.createdAt, range.end),
-          isNotNull(checkoutSessions.offerId)
-        )
-      )
-      .groupBy(checkoutSessions.offerId);
-
-    const checkoutsByOffer = new Map<string, number>();
-    for (const c of checkoutResults) {
-      if (c.offerId) {
-        checkoutsByOffer.set(c.offerId, Number(c.checkoutCount));
-      }
-    }
-
     // Get offer details
-    const offerIds = orderResults
+    const offerIds = results
       .map((r) => r.offerId)
       .filter((id): id is string => id !== null);
     
@@ -438,12 +540,12 @@ export class AnalyticsService {
 
     const offerMap = new Map(offerDetails.map((o) => [o.id, o]));
 
-    return orderResults
+    return results
       .filter((r) => r.offerId)
       .map((r) => {
         const offer = offerMap.get(r.offerId!);
-        const orderCount = Number(r.orderCount);
-        const checkoutCount = checkoutsByOffer.get(r.offerId!) || orderCount;
+        const orderCount = Number(r.orderCount ?? 0);
+        const checkoutCount = Number(r.checkoutCount ?? 0) || orderCount;
         return {
           id: r.offerId!,
           title: offer?.name || 'Unknown Offer',
@@ -467,25 +569,20 @@ export class AnalyticsService {
     // Get orders attributed to live sessions
     const results = await this.db
       .select({
-        liveSessionId: attributionContexts.liveSessionId,
-        revenue: sum(orders.total),
-        orderCount: count(),
+        liveSessionId: analyticsRollups.liveSessionId,
+        revenue: sum(analyticsRollups.revenue),
+        orderCount: sum(analyticsRollups.orders),
       })
-      .from(orders)
-      .innerJoin(
-        attributionContexts,
-        eq(orders.attributionContextId, attributionContexts.id)
-      )
+      .from(analyticsRollups)
       .where(
         and(
-          eq(orders.creatorId, creatorId),
-          gte(orders.createdAt, range.start),
-          lte(orders.createdAt, range.end),
-          isNotNull(attributionContexts.liveSessionId)
+          this.rollupsIn(creatorId, range),
+          isNotNull(analyticsRollups.liveSessionId)
         )
       )
-      .groupBy(attributionContexts.liveSessionId)
-      .orderBy(desc(sum(orders.total)))
+      .groupBy(analyticsRollups.liveSessionId)
+      .having(gt(sum(analyticsRollups.orders), 0))
+      .orderBy(desc(sum(analyticsRollups.revenue)))
       .limit(limit);
 
     // Get session details
@@ -510,7 +607,7 @@ export class AnalyticsService {
           title: session?.title || 'Live Stream',
           platform: null, // Live session spans multiple platforms
           revenue: Number(r.revenue ?? 0) / 100,
-          orders: Number(r.orderCount),
+          orders: Number(r.orderCount ?? 0),
           peakViewers: session?.totalPeakViewers || null,
           startedAt: session?.startedAt || null,
         };
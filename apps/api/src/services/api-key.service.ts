@@ -0,0 +1,232 @@
+import { createHash } from 'crypto';
+import { eq, and, isNull, desc } from 'drizzle-orm';
+import type { FastifyRequest } from 'fastify';
+import type { Database } from '@unifyed/db';
+import { apiKeys } from '@unifyed/db/schema';
+import type { ApiKeyScope } from '@unifyed/types/api';
+import { AppError, ErrorCodes, randomHex } from '@unifyed/utils';
+
+// Every key starts with this, so auth can tell keys from session tokens
+export const API_KEY_PREFIX = 'uk_live_';
+
+// Requests per minute for callers without a key (matches the global limit)
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 100;
+
+// lastUsedAt is only written when it is older than this, to avoid a write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Per-key limits are read on every request by @fastify/rate-limit, so recent
+// lookups are kept in a small LRU. A null limit means the key doesn't
+// authenticate (unknown, revoked or expired).
+const RATE_LIMIT_CACHE_TTL_MS = 60 * 1000;
+const RATE_LIMIT_CACHE_MAX_ENTRIES = 10000;
+const rateLimitCache = new Map<string, { limit: number | null; expiresAt: number }>();
+
+function getCachedRateLimit(keyHash: string) {
+  const cached = rateLimitCache.get(keyHash);
+  if (!cached) {
+    return undefined;
+  }
+  rateLimitCache.delete(keyHash);
+  if (cached.expiresAt <= Date.now()) {
+    return undefined;
+  }
+  // Re-insert so Map order tracks recency
+  rateLimitCache.set(keyHash, cached);
+  return cached;
+}
+
+function setCachedRateLimit(keyHash: string, limit: number | null, expiresAt: number) {
+  rateLimitCache.delete(keyHash);
+  rateLimitCache.set(keyHash, { limit, expiresAt });
+  while (rateLimitCache.size > RATE_LIMIT_CACHE_MAX_ENTRIES) {
+    const oldest = rateLimitCache.keys().next().value;
+    if (oldest === undefined) break;
+    rateLimitCache.delete(oldest);
+  }
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number | undefined;
+  expiresAt?: Date | undefined;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * The API key on a request, if the bearer token is one
+ */
+export function getApiKeyFromRequest(request: FastifyRequest): string | null {
+  const authHeader = request.headers.authorization;
+  if (!authHeader?.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+    return null;
+  }
+  return authHeader.substring(7);
+}
+
+/**
+ * Rate-limit bucket for a request. Only keys that would authenticate get
+ * their own bucket; a made-up, revoked or expired key counts against the
+ * caller's IP like any other anonymous request.
+ */
+export async function getRateLimitKey(request: FastifyRequest, service: ApiKeyService): Promise<string> {
+  const apiKey = getApiKeyFromRequest(request);
+  if (!apiKey) {
+    return request.ip;
+  }
+
+  const keyHash = hashApiKey(apiKey);
+  const limit = await service.getRateLimit(keyHash);
+  return limit === null ? request.ip : `api-key:${keyHash}`;
+}
+
+/**
+ * Requests per minute for a bucket from `getRateLimitKey`
+ */
+export async function getRateLimitMax(key: string, service: ApiKeyService): Promise<number> {
+  if (!key.startsWith('api-key:')) {
+    return DEFAULT_RATE_LIMIT_PER_MINUTE;
+  }
+  return (await service.getRateLimit(key.slice('api-key:'.length))) ?? DEFAULT_RATE_LIMIT_PER_MINUTE;
+}
+
+export class ApiKeyService {
+  constructor(private db: Database) {}
+
+  /**
+   * List a creator's API keys (revoked ones included)
+   */
+  async list(creatorId: string) {
+    const keys = await this.db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.creatorId, creatorId))
+      .orderBy(desc(apiKeys.createdAt));
+
+    return keys.map(toPublicApiKey);
+  }
+
+  /**
+   * Create a key. The plaintext key is returned only here.
+   */
+  async create(creatorId: string, input: CreateApiKeyInput) {
+    const key = `${API_KEY_PREFIX}${randomHex(24)}`;
+
+    const [apiKey] = await this.db
+      .insert(apiKeys)
+      .values({
+        creatorId,
+        name: input.name,
+        keyHash: hashApiKey(key),
+        prefix: key.slice(0, API_KEY_PREFIX.length + 4),
+        scopes: [...new Set(input.scopes)],
+        ...(input.rateLimitPerMinute !== undefined && { rateLimitPerMinute: input.rateLimitPerMinute }),
+        expiresAt: input.expiresAt ?? null,
+      })
+      .returning();
+
+    if (!apiKey) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to create API key');
+    }
+
+    return { apiKey: toPublicApiKey(apiKey), key };
+  }
+
+  /**
+   * Revoke a key. Takes effect on the next request.
+   */
+  async revoke(creatorId: string, apiKeyId: string) {
+    const [apiKey] = await this.db
+      .update(apiKeys)
+      .set({ revokedAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(apiKeys.id, apiKeyId),
+        eq(apiKeys.creatorId, creatorId),
+        isNull(apiKeys.revokedAt)
+      ))
+      .returning();
+
+    if (!apiKey) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'API key not found');
+    }
+
+    rateLimitCache.delete(apiKey.keyHash);
+    return toPublicApiKey(apiKey);
+  }
+
+  /**
+   * Resolve a plaintext key to an active API key and record its use
+   */
+  async authenticate(key: string) {
+    const [apiKey] = await this.db
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.keyHash, hashApiKey(key)), isNull(apiKeys.revokedAt)))
+      .limit(1);
+
+    if (!apiKey) {
+      return null;
+    }
+
+    const now = new Date();
+    if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+      return null;
+    }
+
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await this.db
+        .update(apiKeys)
+        .set({ lastUsedAt: now })
+        .where(eq(apiKeys.id, apiKey.id));
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Requests per minute allowed for a key (by hash), or null when the key
+   * would not authenticate
+   */
+  async getRateLimit(keyHash: string): Promise<number | null> {
+    const cached = getCachedRateLimit(keyHash);
+    if (cached) {
+      return cached.limit;
+    }
+
+    const [apiKey] = await this.db
+      .select({ rateLimitPerMinute: apiKeys.rateLimitPerMinute, expiresAt: apiKeys.expiresAt })
+      .from(apiKeys)
+      .where(and(eq(apiKeys.keyHash, keyHash), isNull(apiKeys.revokedAt)))
+      .limit(1);
+
+    const now = Date.now();
+    const active = apiKey && (!apiKey.expiresAt || apiKey.expiresAt.getTime() > now);
+
+    // Don't cache a key as valid past its expiry
+    const expiresAt = active && apiKey.expiresAt
+      ? Math.min(now + RATE_LIMIT_CACHE_TTL_MS, apiKey.expiresAt.getTime())
+      : now + RATE_LIMIT_CACHE_TTL_MS;
+
+    const limit = active ? apiKey.rateLimitPerMinute : null;
+    setCachedRateLimit(keyHash, limit, expiresAt);
+    return limit;
+  }
+}
+
+function toPublicApiKey(apiKey: typeof apiKeys.$inferSelect) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    rateLimitPerMinute: apiKey.rateLimitPerMinute,
+    lastUsedAt: apiKey.lastUsedAt,
+    expiresAt: apiKey.expiresAt,
+    revokedAt: apiKey.revokedAt,
+    createdAt: apiKey.createdAt,
+  };
+}
@@ -0,0 +1,222 @@
+import { eq, and, gte, lte, inArray, asc } from 'drizzle-orm';
+import type { Database } from '@unifyed/db';
+import {
+  orders,
+  checkoutSessions,
+  attributionContexts,
+  attributionTouchpoints,
+  type TouchpointType,
+} from '@unifyed/db/schema';
+
+// How an order's revenue is split across the touchpoints that led to it
+export const ATTRIBUTION_MODELS = ['first_touch', 'last_touch', 'linear', 'time_decay'] as const;
+
+export type AttributionModel = (typeof ATTRIBUTION_MODELS)[number];
+
+// Touchpoints older than this before the order get no credit
+export const ATTRIBUTION_LOOKBACK_DAYS = 30;
+
+// Under time decay, a touch this long before the order counts half as much
+// as one right before it
+export const TIME_DECAY_HALF_LIFE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Touch {
+  surface: string;
+  platform: string | null;
+  occurredAt: Date;
+}
+
+export interface CreditedTouch<T extends Touch = Touch> {
+  touch: T;
+  credit: number; // Share of the order, all of an order's credits add up to 1
+}
+
+export interface CreditedOrder {
+  orderId: string;
+  total: number; // cents
+  touches: CreditedTouch[];
+}
+
+/**
+ * Split one order across the touches before it. Touches outside the
+ * lookback window, or after the order, get nothing.
+ */
+export function creditTouchpoints<T extends Touch>(
+  touches: T[],
+  orderedAt: Date,
+  model: AttributionModel
+): CreditedTouch<T>[] {
+  const windowStart = orderedAt.getTime() - ATTRIBUTION_LOOKBACK_DAYS * DAY_MS;
+  const eligible = touches
+    .filter(touch => touch.occurredAt.getTime() >= windowStart && touch.occurredAt <= orderedAt)
+    .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+  if (eligible.length === 0) return [];
+
+  switch (model) {
+    case 'first_touch':
+      return [{ touch: eligible[0]!, credit: 1 }];
+
+    case 'last_touch':
+      return [{ touch: eligible[eligible.length - 1]!, credit: 1 }];
+
+    case 'linear':
+      return eligible.map(touch => ({ touch, credit: 1 / eligible.length }));
+
+    case 'time_decay': {
+      const weights = eligible.map(touch => {
+        const ageDays = (orderedAt.getTime() - touch.occurredAt.getTime()) / DAY_MS;
+        return Math.pow(0.5, ageDays / TIME_DECAY_HALF_LIFE_DAYS);
+      });
+      const totalWeight = weights.reduce((acc, weight) => acc + weight, 0);
+      return eligible.map((touch, index) => ({ touch, credit: weights[index]! / totalWeight }));
+    }
+  }
+}
+
+/**
+ * Attribution Service
+ * Records the touchpoints visitors leave on the way to a purchase and
+ * credits orders across them
+ */
+/**
+ * Short link URL handed to a known visitor. The visitor ID rides along to
+ * /go, so the click is recorded (and the checkout priced) for the same
+ * visitor as their page views.
+ */
+export function visitorLinkUrl(baseUrl: string, code: string, visitorId: string | undefined): string {
+  const url = `${baseUrl}/go/${code}`;
+  return visitorId ? `${url}?visitorId=${encodeURIComponent(visitorId)}` : url;
+}
+
+export class AttributionService {
+  constructor(private db: Database) {}
+
+  /**
+   * Record a checkout opened from a short link, where the link's own
+   * attribution context says it was shared
+   */
+  async recordLinkClick(input: {
+    creatorId: string;
+    visitorId: string;
+    shortLinkId: string;
+    attributionContextId: string;
+  }): Promise<void> {
+    const [context] = await this.db
+      .select({ surface: attributionContexts.surface, platform: attributionContexts.platform })
+      .from(attributionContexts)
+      .where(eq(attributionContexts.id, input.attributionContextId))
+      .limit(1);
+
+    if (!context) return;
+
+    await this.db.insert(attributionTouchpoints).values({
+      creatorId: input.creatorId,
+      visitorId: input.visitorId,
+      type: 'link_click',
+      surface: context.surface,
+      platform: context.platform,
+      attributionContextId: input.attributionContextId,
+      shortLinkId: input.shortLinkId,
+    });
+  }
+
+  /**
+   * Record a page view that didn't go through a short link
+   */
+  async recordView(input: {
+    creatorId: string;
+    visitorId: string;
+    type: Exclude<TouchpointType, 'link_click'>;
+    platform?: typeof attributionTouchpoints.$inferInsert['platform'];
+    replayId?: string;
+  }): Promise<void> {
+    await this.db.insert(attributionTouchpoints).values({
+      creatorId: input.creatorId,
+      visitorId: input.visitorId,
+      type: input.type,
+      surface: input.type === 'replay_view' ? 'replay' : 'link_in_bio',
+      platform: input.platform ?? null,
+      replayId: input.replayId ?? null,
+    });
+  }
+
+  /**
+   * Orders placed in a date range, each split across its visitor's
+   * touchpoints. An order without any (placed before touchpoints were
+   * recorded, or from outside a short link) is credited in full to its
+   * own attribution context.
+   */
+  async getCreditedOrders(
+    creatorId: string,
+    range: { start: Date; end: Date },
+    model: AttributionModel
+  ): Promise<CreditedOrder[]> {
+    const orderRows = await this.db
+      .select({
+        id: orders.id,
+        total: orders.total,
+        createdAt: orders.createdAt,
+        visitorId: checkoutSessions.visitorId,
+        surface: attributionContexts.surface,
+        platform: attributionContexts.platform,
+      })
+      .from(orders)
+      .leftJoin(checkoutSessions, eq(orders.checkoutSessionId, checkoutSessions.id))
+      .leftJoin(attributionContexts, eq(orders.attributionContextId, attributionContexts.id))
+      .where(
+        and(
+          eq(orders.creatorId, creatorId),
+          gte(orders.createdAt, range.start),
+          lte(orders.createdAt, range.end)
+        )
+      );
+
+    const visitorIds = [...new Set(orderRows.flatMap(row => (row.visitorId ? [row.visitorId] : [])))];
+
+    const touchesByVisitor = new Map<string, Touch[]>();
+    if (visitorIds.length > 0) {
+      const touchRows = await this.db
+        .select({
+          visitorId: attributionTouchpoints.visitorId,
+          surface: attributionTouchpoints.surface,
+          platform: attributionTouchpoints.platform,
+          occurredAt: attributionTouchpoints.occurredAt,
+        })
+        .from(attributionTouchpoints)
+        .where(
+          and(
+            eq(attributionTouchpoints.creatorId, creatorId),
+            inArray(attributionTouchpoints.visitorId, visitorIds),
+            gte(attributionTouchpoints.occurredAt, new Date(range.start.getTime() - ATTRIBUTION_LOOKBACK_DAYS * DAY_MS)),
+            lte(attributionTouchpoints.occurredAt, range.end)
+          )
+        )
+        .orderBy(asc(attributionTouchpoints.occurredAt));
+
+      for (const row of touchRows) {
+        const touches = touchesByVisitor.get(row.visitorId) ?? [];
+        touches.push({ surface: row.surface, platform: row.platform, occurredAt: row.occurredAt });
+        touchesByVisitor.set(row.visitorId, touches);
+      }
+    }
+
+    return orderRows.map(row => {
+      const touches = row.visitorId ? touchesByVisitor.get(row.visitorId) ?? [] : [];
+      const credited = creditTouchpoints(touches, row.createdAt, model);
+
+      return {
+        orderId: row.id,
+        total: row.total,
+        touches: credited.length > 0
+          ? credited
+          : [{
+              touch: { surface: row.surface ?? 'direct', platform: row.platform, occurredAt: row.createdAt },
+              credit: 1,
+            }],
+      };
+    });
+  }
+}
@@ -0,0 +1,113 @@
+import { eq, and, gte, lte, count, desc, sql } from 'drizzle-orm';
+import type { Database } from '@unifyed/db';
+import { auditLog, apiKeys, profiles, type AuditChanges } from '@unifyed/db/schema';
+import type { AuditActorType, ListAuditLogQuery } from '@unifyed/types/api';
+
+// Bookkeeping columns that change on every write and say nothing about who did what
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+export interface AuditRecordInput {
+  creatorId: string;
+  actorType: AuditActorType;
+  actorId: string;
+  actorRole: string | null;
+  action: string;
+  resourceType: string;
+  resourceId: string | null;
+  changes: AuditChanges;
+  reason: string | null;
+  method: string;
+  route: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * Top-level fields that differ between two snapshots of a resource. A field
+ * missing on one side is recorded as null (created or deleted).
+ */
+export function diffChanges(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): AuditChanges {
+  const changes: AuditChanges = {};
+
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const from = toJsonValue(before[field]);
+    const to = toJsonValue(after[field]);
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+function toJsonValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+export class AuditService {
+  constructor(private db: Database) {}
+
+  /**
+   * Append an entry. The table rejects updates and deletes.
+   */
+  async record(input: AuditRecordInput) {
+    await this.db.insert(auditLog).values(input);
+  }
+
+  /**
+   * An account's audit trail, newest first
+   */
+  async list(creatorId: string, query: ListAuditLogQuery) {
+    const { page, limit } = query;
+    const offset = (page - 1) * limit;
+
+    const conditions = [eq(auditLog.creatorId, creatorId)];
+    if (query.action) conditions.push(eq(auditLog.action, query.action));
+    if (query.resourceType) conditions.push(eq(auditLog.resourceType, query.resourceType));
+    if (query.resourceId) conditions.push(eq(auditLog.resourceId, query.resourceId));
+    if (query.actorId) conditions.push(eq(auditLog.actorId, query.actorId));
+    if (query.from) conditions.push(gte(auditLog.createdAt, query.from));
+    if (query.to) conditions.push(lte(auditLog.createdAt, query.to));
+
+    const [countResult] = await this.db
+      .select({ count: count() })
+      .from(auditLog)
+      .where(and(...conditions));
+
+    const total = Number(countResult?.count ?? 0);
+
+    const rows = await this.db
+      .select({
+        entry: auditLog,
+        actorName: sql<string | null>`coalesce(${profiles.name}, ${profiles.email}, ${apiKeys.name})`,
+      })
+      .from(auditLog)
+      .leftJoin(profiles, and(eq(auditLog.actorType, 'user'), eq(profiles.id, auditLog.actorId)))
+      .leftJoin(apiKeys, and(eq(auditLog.actorType, 'api_key'), eq(apiKeys.id, auditLog.actorId)))
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    return {
+      entries: rows.map(({ entry, actorName }) => {
+        const { creatorId: _creatorId, ...rest } = entry;
+        return { ...rest, actorName };
+      }),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+}
@@ -0,0 +1,628 @@
+import { randomUUID } from 'crypto';
+import { eq, and, or, isNull, asc, desc } from 'drizzle-orm';
+import type { Redis } from 'ioredis';
+import type { Database } from '@unifyed/db';
+import { AppError, ErrorCodes } from '@unifyed/utils';
+import {
+  chatAnswerSettings,
+  productFaqs,
+  products,
+  variants,
+  platformConnections,
+  liveSessions,
+} from '@unifyed/db/schema';
+import type { AnswerSuggestion, AnswerTopic, ChatMessage } from '@unifyed/types';
+import type {
+  ChatAnswerSettings,
+  UpdateChatAnswerSettingsRequest,
+  CreateProductFaqRequest,
+  UpdateProductFaqRequest,
+} from '@unifyed/types/api';
+import { analyzeMessage, type SuggestedAction } from './ai-chat.service.js';
+
+export const DEFAULT_ANSWER_SETTINGS: ChatAnswerSettings = {
+  autoSend: false,
+  autoSendTopics: ['size', 'material', 'shipping', 'returns', 'stock'],
+  maxPerMinute: 3,
+  topicCooldownSeconds: 120,
+};
+
+// Checked in order: "can I return it if it doesn't fit" is about returns
+const TOPIC_PATTERNS: Array<[AnswerTopic, RegExp]> = [
+  ['returns', /\b(return|returns|returning|refund|refunds|exchange|exchanges)\b/i],
+  ['shipping', /\b(ship|ships|shipping|deliver|delivery|arrive|international(ly)?|worldwide)\b/i],
+  ['size', /\b(size|sizes|sizing|fit|fits|true to size|runs?\s+(small|big|large)|how big|measurements?|dimensions?)\b/i],
+  ['material', /\b(material|materials|fabric|made\s+(of|from|with)|ingredients?|cotton|leather|polyester|silk|wool|vegan|cruelty[\s-]?free)\b/i],
+  ['stock', /\b(in\s+stock|stock|sold\s+out|available|availability|any\s+left|restock|how\s+many\s+left)\b/i],
+];
+
+// Option values that read as sizes: letters, numbers, one size, volumes
+const SIZE_VALUE =
+  /^(xxs|xs|s|m|l|xl|xxl|xxxl|[2-5]xl|small|medium|large|x-large|one size|os|petite|plus|\d+(\.\d+)?\s*(ml|l|oz|fl oz|g|kg|cm|mm|in|")?|(eu|us|uk)\s*\d+(\.\d+)?)$/i;
+
+const MATERIAL_SENTENCE =
+  /\b(made\s+(of|from|with)|material|fabric|ingredients?|\d+\s*%|cotton|linen|leather|polyester|nylon|silk|wool|cashmere|spandex|elastane|viscose|bamboo|stainless|vegan|cruelty[\s-]?free)\b/i;
+
+// Low stock gets a nudge instead of a plain "in stock"
+const LOW_STOCK_THRESHOLD = 5;
+// Chat platforms cap message length; TikTok and Twitch at 500
+const MAX_REPLY_LENGTH = 500;
+
+// Drafts wait for a click for an hour
+const ANSWER_SUGGESTIONS_KEY = (creatorId: string) => `chat:answers:${creatorId}`;
+const ANSWER_SUGGESTIONS_TTL_SECONDS = 60 * 60;
+const ANSWER_RATE_KEY = (creatorId: string, minute: number) => `chat:answers:rate:${creatorId}:${minute}`;
+const ANSWER_COOLDOWN_KEY = (creatorId: string, productId: string | null, topic: AnswerTopic) =>
+  `chat:answers:cooldown:${creatorId}:${productId ?? 'none'}:${topic}`;
+
+// Words too common to say what a question is about
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'at', 'be', 'can', 'do', 'does', 'for', 'how', 'i', 'if', 'in', 'is', 'it',
+  'me', 'my', 'of', 'on', 'or', 'the', 'this', 'that', 'to', 'u', 'what', 'when', 'where', 'which',
+  'will', 'with', 'you', 'your',
+]);
+
+/**
+ * A spotlighted product with what we need to answer questions about it
+ */
+export interface AnswerProduct {
+  id: string;
+  title: string;
+  description: string | null;
+  variants: Array<{
+    title: string;
+    option1: string | null;
+    option2: string | null;
+    option3: string | null;
+    inventoryQuantity: number;
+    inventoryPolicy: string | null;
+  }>;
+}
+
+export interface AnswerFaq {
+  productId: string | null;
+  topic: AnswerTopic | null;
+  question: string;
+  answer: string;
+}
+
+export interface DraftedAnswer {
+  topic: AnswerTopic | null; // null for an untagged FAQ entry matched on words
+  answer: string;
+  source: 'faq' | 'catalog';
+}
+
+/**
+ * What a product question is about, if it's one we can answer
+ */
+export function detectAnswerTopic(content: string): AnswerTopic | null {
+  for (const [topic, pattern] of TOPIC_PATTERNS) {
+    if (pattern.test(content)) return topic;
+  }
+  return null;
+}
+
+/**
+ * Draft an answer to a question from the creator's FAQ, falling back to the
+ * product's catalog data. Null when neither has an answer.
+ */
+export function draftAnswer(
+  question: string,
+  product: AnswerProduct | null,
+  faqs: AnswerFaq[]
+): DraftedAnswer | null {
+  const topic = detectAnswerTopic(question);
+
+  const faq = matchFaq(question, topic, product?.id ?? null, faqs);
+  if (faq) {
+    return { topic: faq.topic ?? topic, answer: faq.answer, source: 'faq' };
+  }
+
+  if (!topic || !product) return null;
+
+  const answer = answerFromCatalog(question, topic, product);
+  return answer ? { topic, answer, source: 'catalog' } : null;
+}
+
+/**
+ * The FAQ entry answering a question: the product's own entries before
+ * general ones, a topic match before a match on words
+ */
+function matchFaq(
+  question: string,
+  topic: AnswerTopic | null,
+  productId: string | null,
+  faqs: AnswerFaq[]
+): AnswerFaq | null {
+  const questionWords = significantWords(question);
+  let best: { faq: AnswerFaq; score: number } | null = null;
+
+  for (const faq of faqs) {
+    if (faq.productId !== null && faq.productId !== productId) continue;
+
+    let score = 0;
+    if (faq.topic !== null) {
+      if (faq.topic !== topic) continue;
+      score = 2;
+    } else {
+      // Untagged entries need most of their question's words in the viewer's
+      const faqWords = significantWords(faq.question);
+      if (faqWords.size === 0) continue;
+      const shared = [...faqWords].filter(word => questionWords.has(word)).length;
+      if (shared < Math.min(2, faqWords.size) || shared / faqWords.size < 0.5) continue;
+      score = 1 + shared / faqWords.size;
+    }
+    if (faq.productId !== null) score += 2;
+
+    if (!best || score > best.score) {
+      best = { faq, score };
+    }
+  }
+
+  return best?.faq ?? null;
+}
+
+function significantWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+  );
+}
+
+function answerFromCatalog(question: string, topic: AnswerTopic, product: AnswerProduct): string | null {
+  switch (topic) {
+    case 'size':
+      return answerSize(product);
+    case 'material':
+      return answerMaterial(product);
+    case 'stock':
+      return answerStock(question, product);
+    default:
+      // Shipping and returns policies only come from the FAQ
+      return null;
+  }
+}
+
+function isAvailable(variant: AnswerProduct['variants'][number]): boolean {
+  return variant.inventoryQuantity > 0 || variant.inventoryPolicy === 'continue';
+}
+
+function optionValues(variant: AnswerProduct['variants'][number]): Array<string | null> {
+  return [variant.option1, variant.option2, variant.option3];
+}
+
+/**
+ * Sizes from the variant option that holds them. Catalogs don't say which
+ * option is the size, so it's the one whose values look like sizes. Null if
+ * the product doesn't come in sizes.
+ */
+export function sizeOptions(product: Pick<AnswerProduct, 'variants'>): { available: string[]; soldOut: string[] } | null {
+  for (let position = 0; position < 3; position++) {
+    const values = [...new Set(
+      product.variants
+        .map(variant => optionValues(variant)[position])
+        .filter((value): value is string => Boolean(value))
+    )];
+    if (values.length === 0 || !values.every(value => SIZE_VALUE.test(value.trim()))) continue;
+
+    const soldOut = values.filter(value =>
+      !product.variants.some(variant => optionValues(variant)[position] === value && isAvailable(variant))
+    );
+    return { available: values.filter(value => !soldOut.includes(value)), soldOut };
+  }
+  return null;
+}
+
+function answerSize(product: AnswerProduct): string | null {
+  const sizes = sizeOptions(product);
+  if (!sizes) return null;
+
+  if (sizes.available.length === 0) {
+    return `${product.title} is sold out in every size.`;
+  }
+  return `${product.title} comes in ${sizes.available.join(', ')}.`
+    + (sizes.soldOut.length > 0 ? ` Sold out: ${sizes.soldOut.join(', ')}.` : '');
+}
+
+function answerMaterial(product: AnswerProduct): string | null {
+  if (!product.description) return null;
+
+  const text = product.description
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  const matching = sentences.filter(sentence => MATERIAL_SENTENCE.test(sentence)).slice(0, 2);
+  if (matching.length === 0) return null;
+
+  return `${product.title}: ${matching.join(' ')}`;
+}
+
+/**
+ * Stock for the variant the viewer named ("is M in stock?"), or the product
+ */
+function answerStock(question: string, product: AnswerProduct): string | null {
+  if (product.variants.length === 0) return null;
+
+  const words = new Set(question.toLowerCase().split(/[^\p{L}\p{N}]+/u));
+  const named = product.variants.filter(variant =>
+    optionValues(variant).some(value => value && words.has(value.toLowerCase()))
+  );
+
+  if (named.length > 0 && named.length < product.variants.length) {
+    const label = [...new Set(
+      named.flatMap(variant => optionValues(variant).filter(value => value && words.has(value.toLowerCase())))
+    )].join('/');
+    return stockSentence(`${product.title} in ${label}`, named);
+  }
+
+  return stockSentence(product.title, product.variants);
+}
+
+function stockSentence(subject: string, stock: AnswerProduct['variants']): string {
+  if (stock.some(variant => variant.inventoryPolicy === 'continue')) {
+    return `${subject} is available.`;
+  }
+  const quantity = stock.reduce((sum, variant) => sum + Math.max(0, variant.inventoryQuantity), 0);
+  if (quantity === 0) return `${subject} is sold out right now.`;
+  if (quantity <= LOW_STOCK_THRESHOLD) return `Only ${quantity} left of ${subject}!`;
+  return `${subject} is in stock.`;
+}
+
+/**
+ * The reply as sent in chat, addressed to the viewer
+ */
+export function formatReply(message: ChatMessage, answer: string): string {
+  const reply = `@${message.user.username} ${answer}`;
+  return reply.length > MAX_REPLY_LENGTH ? `${reply.slice(0, MAX_REPLY_LENGTH - 1)}…` : reply;
+}
+
+/**
+ * A drafted answer as a suggested action for the command center
+ */
+export function toSuggestedAction(suggestion: AnswerSuggestion): SuggestedAction {
+  return {
+    type: 'answer_question',
+    message: `${suggestion.message.user.username} asked about ${suggestion.topic}: "${suggestion.message.content}"`,
+    urgency: 'soon',
+    reply: {
+      suggestionId: suggestion.id,
+      content: suggestion.reply,
+      platform: suggestion.message.platform,
+    },
+  };
+}
+
+function reviveSuggestion(raw: string): AnswerSuggestion {
+  const suggestion = JSON.parse(raw) as AnswerSuggestion;
+  return {
+    ...suggestion,
+    message: { ...suggestion.message, timestamp: new Date(suggestion.message.timestamp) },
+    createdAt: new Date(suggestion.createdAt),
+  };
+}
+
+/**
+ * Chat Answer Service
+ * Drafts answers to viewers' product questions from the spotlighted product
+ * and the creator's FAQ, keeps drafts for one-click sending, and rate limits
+ * answers sent automatically
+ */
+export class ChatAnswerService {
+  constructor(
+    private db: Database,
+    private redis: Redis,
+  ) {}
+
+  /**
+   * Draft an answer to a chat message. Null unless it's a question we can
+   * answer about the spotlighted product (or from a general FAQ entry).
+   */
+  async answer(creatorId: string, message: ChatMessage): Promise<AnswerSuggestion | null> {
+    if (message.type !== 'chat' && message.type !== 'question') return null;
+
+    const isQuestion = message.signals?.isQuestion ?? analyzeMessage(message).isQuestion;
+    const topic = detectAnswerTopic(message.content);
+    if (!isQuestion || !topic) return null;
+
+    const product = await this.getSpotlightProduct(creatorId);
+    const faqs = await this.listFaqsFor(creatorId, product?.id ?? null);
+
+    const drafted = draftAnswer(message.content, product, faqs);
+    if (!drafted) return null;
+
+    return {
+      id: randomUUID(),
+      message,
+      topic: drafted.topic ?? topic,
+      productId: product?.id ?? null,
+      reply: formatReply(message, drafted.answer),
+      source: drafted.source,
+      autoSent: false,
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * The product currently spotlighted in the creator's live session queue
+   */
+  async getSpotlightProduct(creatorId: string): Promise<AnswerProduct | null> {
+    const [session] = await this.db
+      .select({ metadata: liveSessions.metadata })
+      .from(liveSessions)
+      .where(and(
+        eq(liveSessions.creatorId, creatorId),
+        eq(liveSessions.status, 'live')
+      ))
+      .orderBy(desc(liveSessions.startedAt))
+      .limit(1);
+
+    const queue = session?.metadata?.['productQueue'] as
+      | { items?: Array<{ productId: string }>; currentIndex?: number }
+      | undefined;
+    const productId = queue?.items?.[queue.currentIndex ?? 0]?.productId;
+    if (!productId) return null;
+
+    return this.getProduct(creatorId, productId);
+  }
+
+  /**
+   * A creator's product with its active variants
+   */
+  async getProduct(creatorId: string, productId: string): Promise<AnswerProduct | null> {
+    const [product] = await this.db
+      .select({ id: products.id, title: products.title, description: products.description })
+      .from(products)
+      .innerJoin(platformConnections, eq(products.connectionId, platformConnections.id))
+      .where(and(
+        eq(products.id, productId),
+        eq(platformConnections.creatorId, creatorId)
+      ))
+      .limit(1);
+
+    if (!product) return null;
+
+    const productVariants = await this.db
+      .select({
+        title: variants.title,
+        option1: variants.option1,
+        option2: variants.option2,
+        option3: variants.option3,
+        inventoryQuantity: variants.inventoryQuantity,
+        inventoryPolicy: variants.inventoryPolicy,
+      })
+      .from(variants)
+      .where(and(
+        eq(variants.productId, productId),
+        eq(variants.isActive, true)
+      ))
+      .orderBy(asc(variants.createdAt));
+
+    return { ...product, variants: productVariants };
+  }
+
+  // ============================================
+  // FAQ entries
+  // ============================================
+
+  async listFaqs(creatorId: string, productId?: string) {
+    return this.db
+      .select()
+      .from(productFaqs)
+      .where(and(
+        eq(productFaqs.creatorId, creatorId),
+        productId ? eq(productFaqs.productId, productId) : undefined
+      ))
+      .orderBy(asc(productFaqs.createdAt));
+  }
+
+  /**
+   * Entries for a product plus the ones for every product
+   */
+  private async listFaqsFor(creatorId: string, productId: string | null): Promise<AnswerFaq[]> {
+    return this.db
+      .select({
+        productId: productFaqs.productId,
+        topic: productFaqs.topic,
+        question: productFaqs.question,
+        answer: productFaqs.answer,
+      })
+      .from(productFaqs)
+      .where(and(
+        eq(productFaqs.creatorId, creatorId),
+        productId ? or(isNull(productFaqs.productId), eq(productFaqs.productId, productId)) : isNull(productFaqs.productId)
+      ));
+  }
+
+  async createFaq(creatorId: string, data: CreateProductFaqRequest) {
+    if (data.productId) {
+      await this.assertOwnsProduct(creatorId, data.productId);
+    }
+
+    const [faq] = await this.db
+      .insert(productFaqs)
+      .values({
+        creatorId,
+        productId: data.productId ?? null,
+        topic: data.topic ?? null,
+        question: data.question,
+        answer: data.answer,
+      })
+      .returning();
+
+    if (!faq) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to save FAQ entry');
+    }
+    return faq;
+  }
+
+  /**
+   * Returns the entry before and after the update, or null if it isn't the creator's
+   */
+  async updateFaq(creatorId: string, id: string, data: UpdateProductFaqRequest) {
+    const [before] = await this.db
+      .select()
+      .from(productFaqs)
+      .where(and(eq(productFaqs.id, id), eq(productFaqs.creatorId, creatorId)))
+      .limit(1);
+
+    if (!before) return null;
+
+    if (data.productId) {
+      await this.assertOwnsProduct(creatorId, data.productId);
+    }
+
+    const [after] = await this.db
+      .update(productFaqs)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(productFaqs.id, id))
+      .returning();
+
+    return after ? { before, after } : null;
+  }
+
+  async deleteFaq(creatorId: string, id: string) {
+    const [deleted] = await this.db
+      .delete(productFaqs)
+      .where(and(eq(productFaqs.id, id), eq(productFaqs.creatorId, creatorId)))
+      .returning();
+
+    return deleted ?? null;
+  }
+
+  private async assertOwnsProduct(creatorId: string, productId: string): Promise<void> {
+    const [product] = await this.db
+      .select({ id: products.id })
+      .from(products)
+      .innerJoin(platformConnections, eq(products.connectionId, platformConnections.id))
+      .where(and(
+        eq(products.id, productId),
+        eq(platformConnections.creatorId, creatorId)
+      ))
+      .limit(1);
+
+    if (!product) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Product not found');
+    }
+  }
+
+  // ============================================
+  // Settings
+  // ============================================
+
+  async getSettings(creatorId: string): Promise<ChatAnswerSettings> {
+    const [row] = await this.db
+      .select()
+      .from(chatAnswerSettings)
+      .where(eq(chatAnswerSettings.creatorId, creatorId))
+      .limit(1);
+
+    return row ? toSettings(row) : { ...DEFAULT_ANSWER_SETTINGS };
+  }
+
+  async updateSettings(creatorId: string, update: UpdateChatAnswerSettingsRequest): Promise<ChatAnswerSettings> {
+    const [row] = await this.db
+      .insert(chatAnswerSettings)
+      .values({ ...update, creatorId })
+      .onConflictDoUpdate({
+        target: chatAnswerSettings.creatorId,
+        set: { ...update, updatedAt: new Date() },
+      })
+      .returning();
+
+    if (!row) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to save answer settings');
+    }
+
+    return toSettings(row);
+  }
+
+  // ============================================
+  // Drafts and auto-send
+  // ============================================
+
+  /**
+   * Whether an answer may go out on its own: auto-send is on for its topic,
+   * the per-minute limit isn't reached, and the same product and topic
+   * wasn't answered within the cooldown
+   */
+  async claimAutoSend(creatorId: string, suggestion: AnswerSuggestion, settings: ChatAnswerSettings): Promise<boolean> {
+    if (!settings.autoSend || !settings.autoSendTopics.includes(suggestion.topic)) return false;
+
+    if (settings.topicCooldownSeconds > 0) {
+      const claimed = await this.redis.set(
+        ANSWER_COOLDOWN_KEY(creatorId, suggestion.productId, suggestion.topic),
+        suggestion.id,
+        'EX',
+        settings.topicCooldownSeconds,
+        'NX'
+      );
+      if (claimed !== 'OK') return false;
+    }
+
+    const minute = Math.floor(Date.now() / 60_000);
+    const results = await this.redis
+      .multi()
+      .incr(ANSWER_RATE_KEY(creatorId, minute))
+      .expire(ANSWER_RATE_KEY(creatorId, minute), 60)
+      .exec();
+
+    const sent = results?.[0]?.[1];
+    return typeof sent === 'number' && sent <= settings.maxPerMinute;
+  }
+
+  /**
+   * Keep a draft for one-click sending
+   */
+  async saveSuggestion(creatorId: string, suggestion: AnswerSuggestion): Promise<void> {
+    await this.redis
+      .multi()
+      .hset(ANSWER_SUGGESTIONS_KEY(creatorId), suggestion.id, JSON.stringify(suggestion))
+      .expire(ANSWER_SUGGESTIONS_KEY(creatorId), ANSWER_SUGGESTIONS_TTL_SECONDS)
+      .exec();
+  }
+
+  /**
+   * Drafts waiting to be sent, newest first
+   */
+  async listSuggestions(creatorId: string): Promise<AnswerSuggestion[]> {
+    const raw = await this.redis.hvals(ANSWER_SUGGESTIONS_KEY(creatorId));
+    const cutoff = Date.now() - ANSWER_SUGGESTIONS_TTL_SECONDS * 1000;
+    return raw
+      .map(reviveSuggestion)
+      .filter(suggestion => suggestion.createdAt.getTime() > cutoff)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Take a draft to send or dismiss it. Null if it's gone, e.g. someone
+   * else already sent it.
+   */
+  async takeSuggestion(creatorId: string, id: string): Promise<AnswerSuggestion | null> {
+    const results = await this.redis
+      .multi()
+      .hget(ANSWER_SUGGESTIONS_KEY(creatorId), id)
+      .hdel(ANSWER_SUGGESTIONS_KEY(creatorId), id)
+      .exec();
+
+    const raw = results?.[0]?.[1];
+    const removed = results?.[1]?.[1];
+    if (typeof raw !== 'string' || removed !== 1) return null;
+
+    return reviveSuggestion(raw);
+  }
+}
+
+function toSettings(row: typeof chatAnswerSettings.$inferSelect): ChatAnswerSettings {
+  return {
+    autoSend: row.autoSend,
+    autoSendTopics: row.autoSendTopics,
+    maxPerMinute: row.maxPerMinute,
+    topicCooldownSeconds: row.topicCooldownSeconds,
+  };
+}
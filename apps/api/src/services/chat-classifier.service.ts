@@ -0,0 +1,214 @@
+import { z } from 'zod';
+import type { ChatMessage } from '@unifyed/types';
+import {
+  RegexChatClassifier,
+  analyzeMessage,
+  suggestAction,
+  type CatalogProduct,
+  type ChatClassification,
+  type ChatClassifier,
+} from './ai-chat.service.js';
+
+export interface ModelChatClassifierOptions {
+  // Base URL of an OpenAI-compatible API, e.g. https://api.openai.com/v1
+  baseUrl: string;
+  model: string;
+  apiKey?: string | undefined;
+  batchSize?: number | undefined;
+  timeoutMs?: number | undefined;
+  // Classifications kept, by message id
+  cacheSize?: number | undefined;
+  // Used for batches the model couldn't classify
+  fallback?: ChatClassifier | undefined;
+}
+
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_CACHE_SIZE = 10_000;
+// Titles beyond this are left out of the prompt; big catalogs get the first ones
+const MAX_CATALOG_PRODUCTS = 300;
+
+const SYSTEM_PROMPT = `You classify live shopping chat messages for a creator's command center.
+You receive JSON with the creator's product catalog and a list of chat messages.
+For every message, return one result with:
+- index: the message's index
+- intent: "purchase" (wants to buy), "question", "praise", "complaint" or "other"
+- isQuestion: true if the viewer asks something
+- sentiment: "positive", "neutral" or "negative"
+- productIds: ids of catalog products the message refers to, by name or clear description; never invent ids
+- language: ISO 639-1 code of the message's language
+- confidence: 0 to 1
+Reply with JSON only: {"results": [...]}`;
+
+const modelResultSchema = z.object({
+  index: z.number().int(),
+  intent: z.enum(['purchase', 'question', 'praise', 'complaint', 'other']).catch('other'),
+  isQuestion: z.boolean().catch(false),
+  sentiment: z.enum(['positive', 'neutral', 'negative']).catch('neutral'),
+  productIds: z.array(z.string()).catch([]),
+  language: z.string().regex(/^[a-z]{2}$/i).nullable().catch(null),
+  confidence: z.number().min(0).max(1).catch(0.5),
+});
+
+const modelResponseSchema = z.object({
+  results: z.array(z.unknown()),
+});
+
+type ModelResult = z.infer<typeof modelResultSchema>;
+
+/**
+ * Model-backed chat classifier. Sends messages in batches to an
+ * OpenAI-compatible chat completions endpoint together with the catalog, so
+ * product mentions are matched by title in any language. Product ids the model
+ * returns that aren't in the catalog are dropped. A batch that fails is
+ * classified by the fallback (the regex engine) instead.
+ *
+ * Chat messages don't change, so each one is sent to the model once: its
+ * classification is cached by message id. Fallback results aren't cached,
+ * so those messages go to the model again next time.
+ */
+export class ModelChatClassifier implements ChatClassifier {
+  readonly name = 'model';
+  private readonly batchSize: number;
+  private readonly timeoutMs: number;
+  private readonly fallback: ChatClassifier;
+  private readonly cacheSize: number;
+  // Least recently used first
+  private readonly cache = new Map<string, ChatClassification>();
+
+  constructor(private options: ModelChatClassifierOptions) {
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.fallback = options.fallback ?? new RegexChatClassifier();
+    this.cacheSize = options.cacheSize ?? DEFAULT_CACHE_SIZE;
+  }
+
+  async classify(messages: ChatMessage[], catalog: CatalogProduct[]): Promise<ChatClassification[]> {
+    const results = new Map<string, ChatClassification>();
+    for (const message of messages) {
+      const cached = this.cache.get(message.id);
+      if (cached) {
+        this.cache.delete(message.id);
+        this.cache.set(message.id, cached);
+        results.set(message.id, cached);
+      }
+    }
+
+    const uncached = messages.filter(message => !results.has(message.id));
+
+    // One batch at a time keeps us inside the provider's rate limits
+    for (let start = 0; start < uncached.length; start += this.batchSize) {
+      const batch = uncached.slice(start, start + this.batchSize);
+      const classified = await this.classifyBatch(batch, catalog);
+      batch.forEach((message, index) => results.set(message.id, classified[index]!));
+    }
+
+    return messages.map(message => results.get(message.id)!);
+  }
+
+  private remember(messageId: string, classification: ChatClassification) {
+    this.cache.set(messageId, classification);
+    if (this.cache.size > this.cacheSize) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+  }
+
+  private async classifyBatch(batch: ChatMessage[], catalog: CatalogProduct[]): Promise<ChatClassification[]> {
+    let modelResults: Map<number, ModelResult>;
+    try {
+      modelResults = await this.requestClassification(batch, catalog);
+    } catch (error) {
+      console.error(`Chat classifier request failed, using ${this.fallback.name}:`, error);
+      return this.fallback.classify(batch, catalog);
+    }
+
+    const catalogById = new Map(catalog.map(product => [product.id, product]));
+
+    // Messages the model skipped are classified by the fallback
+    const missing = batch.filter((_, index) => !modelResults.has(index));
+    const fallbackResults = missing.length > 0 ? await this.fallback.classify(missing, catalog) : [];
+    const fallbackById = new Map(missing.map((message, index) => [message.id, fallbackResults[index]]));
+
+    return batch.map((message, index) => {
+      const result = modelResults.get(index);
+      if (!result) {
+        const fallback = fallbackById.get(message.id);
+        if (!fallback) throw new Error(`No classification for message ${message.id}`);
+        return fallback;
+      }
+
+      const hasBuyingIntent = result.intent === 'purchase';
+      const isQuestion = result.isQuestion || result.intent === 'question';
+
+      const classification: ChatClassification = {
+        hasBuyingIntent,
+        isQuestion,
+        sentiment: result.sentiment,
+        suggestedAction: suggestAction(message, { hasBuyingIntent, isQuestion, sentiment: result.sentiment }),
+        confidence: result.confidence,
+        // Keywords still come from the regex engine for the keyword cloud
+        keywords: analyzeMessage(message).keywords,
+        intent: result.intent,
+        productMentions: [...new Set(result.productIds)].flatMap(id => {
+          const product = catalogById.get(id);
+          return product ? [{ productId: product.id, title: product.title }] : [];
+        }),
+        language: result.language?.toLowerCase() ?? null,
+      };
+      this.remember(message.id, classification);
+      return classification;
+    });
+  }
+
+  private async requestClassification(
+    batch: ChatMessage[],
+    catalog: CatalogProduct[]
+  ): Promise<Map<number, ModelResult>> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) {
+      headers['Authorization'] = `Bearer ${this.options.apiKey}`;
+    }
+
+    const input = {
+      catalog: catalog.slice(0, MAX_CATALOG_PRODUCTS).map(({ id, title }) => ({ id, title })),
+      messages: batch.map((message, index) => ({ index, type: message.type, content: message.content })),
+    };
+
+    const response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.options.model,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: JSON.stringify(input) },
+        ],
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Classifier returned ${response.status}`);
+    }
+
+    const completion = await response.json() as { choices?: Array<{ message?: { content?: string | null } }> };
+    const content = completion.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error('Classifier returned no content');
+    }
+
+    const { results } = modelResponseSchema.parse(JSON.parse(content));
+
+    const byIndex = new Map<number, ModelResult>();
+    for (const raw of results) {
+      const parsed = modelResultSchema.safeParse(raw);
+      if (parsed.success && parsed.data.index >= 0 && parsed.data.index < batch.length) {
+        byIndex.set(parsed.data.index, parsed.data);
+      }
+    }
+    return byIndex;
+  }
+}
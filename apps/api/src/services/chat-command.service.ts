@@ -0,0 +1,602 @@
+import { randomBytes } from 'crypto';
+import { eq, and, asc, desc, gte, lte, gt, inArray, sql, type SQL } from 'drizzle-orm';
+import type { Redis } from 'ioredis';
+import type { Database } from '@unifyed/db';
+import { AppError, ErrorCodes } from '@unifyed/utils';
+import {
+  chatCommands,
+  chatCommandUses,
+  liveSessions,
+  products,
+  variants,
+  offers,
+  flashSales,
+  platformConnections,
+  attributionContexts,
+  shortLinks,
+  checkoutSessions,
+  orders,
+  platformEnum,
+  type ChatCommandName,
+  type ChatCommandOutcome,
+} from '@unifyed/db/schema';
+import type { ChatMessage, ChatPlatform } from '@unifyed/types';
+import {
+  chatCommandNameSchema,
+  type ChatCommandSettings,
+  type UpdateChatCommandRequest,
+  type ChatCommandUsageQuery,
+} from '@unifyed/types/api';
+import { sizeOptions } from './chat-answer.service.js';
+import { offerUnitPrice } from './pricing.js';
+import { ViewerService } from './viewer.service.js';
+
+export const CHAT_COMMAND_NAMES = chatCommandNameSchema.options;
+
+// Built-in replies; creators can replace them with their own wording
+export const DEFAULT_COMMAND_RESPONSES: Record<ChatCommandName, string> = {
+  buy: '@{user} your checkout for {quantity}x {product} ({price} each{deal}) 🛒 {link}',
+  price: '@{user} {product} is {price}{deal}',
+  sizes: '@{user} {product} comes in {sizes}',
+  link: '@{user} grab {product} here 🔗 {link}',
+};
+
+// Twitch and YouTube are where we can reply; a creator can add others
+const DEFAULT_COMMAND_PLATFORMS: ChatPlatform[] = ['twitch', 'youtube'];
+const DEFAULT_COOLDOWN_SECONDS = 10;
+const DEFAULT_USER_COOLDOWN_SECONDS = 60;
+
+// Largest quantity !buy puts in a checkout
+const MAX_BUY_QUANTITY = 10;
+// Chat platforms cap message length; TikTok and Twitch at 500
+const MAX_REPLY_LENGTH = 500;
+
+const COMMAND_COOLDOWN_KEY = (creatorId: string, command: ChatCommandName) =>
+  `chat:commands:cooldown:${creatorId}:${command}`;
+const COMMAND_USER_COOLDOWN_KEY = (creatorId: string, command: ChatCommandName, platform: ChatPlatform, userId: string) =>
+  `chat:commands:cooldown:${creatorId}:${command}:${platform}:${userId}`;
+
+/**
+ * The spotlighted product with what commands answer with
+ */
+export interface CommandProduct {
+  title: string;
+  regularPrice: number | null; // cents; null without an active variant
+  price: number | null;        // after the live offer, cents
+  offerId: string | null;      // null when there's no active offer to link to
+  variants: Array<{
+    id: string;
+    title: string;
+    option1: string | null;
+    option2: string | null;
+    option3: string | null;
+    inventoryQuantity: number;
+    inventoryPolicy: string | null;
+  }>;
+}
+
+/**
+ * What a viewer's command got: the reply to send, or why there's none
+ */
+export interface CommandResponse {
+  command: ChatCommandName;
+  outcome: ChatCommandOutcome;
+  reply: string | null;
+  liveSessionId: string | null;
+  shortLinkId: string | null;
+}
+
+export function isChatCommandName(name: string): name is ChatCommandName {
+  return (CHAT_COMMAND_NAMES as readonly string[]).includes(name);
+}
+
+export function defaultCommandSettings(command: ChatCommandName): ChatCommandSettings {
+  return {
+    command,
+    enabled: true,
+    platforms: [...DEFAULT_COMMAND_PLATFORMS],
+    cooldownSeconds: DEFAULT_COOLDOWN_SECONDS,
+    userCooldownSeconds: DEFAULT_USER_COOLDOWN_SECONDS,
+    response: null,
+  };
+}
+
+function formatPrice(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * What "!buy 2 M" asks for: a quantity and the variant named by its option
+ * values, if exactly one matches
+ */
+export function parseBuyArgs(args: string[], product: Pick<CommandProduct, 'variants'>): { quantity: number; variantId: string | null } {
+  let quantity = 1;
+  const words: string[] = [];
+
+  for (const arg of args) {
+    if (/^\d+x?$/i.test(arg)) {
+      quantity = Math.min(MAX_BUY_QUANTITY, Math.max(1, parseInt(arg, 10)));
+    } else {
+      words.push(arg.toLowerCase());
+    }
+  }
+
+  if (words.length === 0) return { quantity, variantId: null };
+
+  const matching = product.variants.filter(variant => {
+    const values = [variant.option1, variant.option2, variant.option3]
+      .filter((value): value is string => Boolean(value))
+      .map(value => value.toLowerCase());
+    return words.every(word => values.includes(word));
+  });
+
+  return { quantity, variantId: matching.length === 1 ? matching[0]!.id : null };
+}
+
+/**
+ * Fill in a reply template. Null when it needs something we don't have,
+ * e.g. {link} with no offer to link to.
+ */
+export function renderCommandReply(template: string, values: Record<string, string | null>): string | null {
+  let missing = false;
+
+  const reply = template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    if (!(name in values)) return placeholder;
+    const value = values[name];
+    if (value === null || value === undefined) {
+      missing = true;
+      return '';
+    }
+    return value;
+  });
+
+  if (missing) return null;
+  return reply.length > MAX_REPLY_LENGTH ? `${reply.slice(0, MAX_REPLY_LENGTH - 1)}…` : reply;
+}
+
+/**
+ * The values a command's reply is built from, except the link
+ */
+export function commandValues(message: ChatMessage, product: CommandProduct, quantity: number): Record<string, string | null> {
+  const sizes = sizeOptions(product);
+  const discounted = product.price !== null && product.regularPrice !== null && product.price < product.regularPrice;
+
+  return {
+    user: message.user.username,
+    product: product.title,
+    price: product.price !== null ? formatPrice(product.price) : null,
+    regular_price: product.regularPrice !== null ? formatPrice(product.regularPrice) : null,
+    deal: discounted ? `, was ${formatPrice(product.regularPrice!)}` : '',
+    sizes: sizes
+      ? [...sizes.available, ...sizes.soldOut.map(size => `${size} (sold out)`)].join(', ')
+      : null,
+    quantity: String(quantity),
+  };
+}
+
+/**
+ * Chat Command Service
+ * Answers viewers' !buy, !price, !sizes and !link from the live session's
+ * spotlighted product and its offer, with cooldowns per command and viewer,
+ * and logs every use for analytics
+ */
+export class ChatCommandService {
+  // Command settings for the chats this instance runs
+  private settings: Map<string, Map<ChatCommandName, ChatCommandSettings>> = new Map();
+  private viewers: ViewerService;
+
+  constructor(
+    private db: Database,
+    private redis: Redis,
+    // The live session chat currently belongs to, for usage and attribution
+    private getLiveSessionId: (creatorId: string) => Promise<string | null> = async () => null
+  ) {
+    this.viewers = new ViewerService(db);
+  }
+
+  /**
+   * Keep a creator's command settings at hand while their chat runs
+   */
+  async load(creatorId: string): Promise<void> {
+    const settings = await this.listSettings(creatorId);
+    this.settings.set(creatorId, new Map(settings.map(command => [command.command, command])));
+  }
+
+  forget(creatorId: string): void {
+    this.settings.delete(creatorId);
+  }
+
+  /**
+   * Answer a viewer's command. Null if the message isn't a command this
+   * creator has on for its platform.
+   */
+  async respond(creatorId: string, message: ChatMessage): Promise<CommandResponse | null> {
+    const name = message.command?.name;
+    if (!name || !isChatCommandName(name)) return null;
+
+    const settings = this.settings.get(creatorId)?.get(name) ?? (await this.getSettings(creatorId, name));
+    if (!settings.enabled || !settings.platforms.includes(message.platform)) return null;
+
+    const response: CommandResponse = {
+      command: name,
+      outcome: 'unavailable',
+      reply: null,
+      liveSessionId: await this.getLiveSessionId(creatorId),
+      shortLinkId: null,
+    };
+
+    if (!(await this.claimCooldown(creatorId, settings, message))) {
+      return { ...response, outcome: 'cooldown' };
+    }
+
+    const product = await this.getSpotlightProduct(creatorId);
+    if (!product) return response;
+
+    const args = message.command?.args ?? [];
+    const { quantity, variantId } = name === 'buy' ? parseBuyArgs(args, product) : { quantity: 1, variantId: null };
+    const values = commandValues(message, product, quantity);
+    const template = settings.response ?? DEFAULT_COMMAND_RESPONSES[name];
+
+    // Only mint a link when the reply has everything else it needs
+    values['link'] = null;
+    if (template.includes('{link}')) {
+      if (!product.offerId || renderCommandReply(template, { ...values, link: '' }) === null) {
+        return response;
+      }
+
+      const link = await this.createLink(creatorId, product.offerId, response.liveSessionId, message);
+      const viewer = await this.viewers.identify(creatorId, message.platform, message.user);
+      const params = new URLSearchParams({
+        ...(quantity > 1 && { quantity: String(quantity) }),
+        ...(variantId && { variantId }),
+        v: viewer.handle,
+      });
+      values['link'] = `unifyed.link/${link.code}?${params.toString()}`;
+      response.shortLinkId = link.id;
+    }
+
+    const reply = renderCommandReply(template, values);
+    return reply ? { ...response, outcome: 'replied', reply } : response;
+  }
+
+  /**
+   * Log a command a viewer used
+   */
+  async recordUse(creatorId: string, message: ChatMessage, response: CommandResponse): Promise<void> {
+    await this.db.insert(chatCommandUses).values({
+      creatorId,
+      liveSessionId: response.liveSessionId,
+      command: response.command,
+      platform: message.platform,
+      platformUserId: message.user.id,
+      username: message.user.username,
+      outcome: response.outcome,
+      shortLinkId: response.shortLinkId,
+    });
+  }
+
+  /**
+   * Whether the command may answer: it's off cooldown, and so is this viewer
+   */
+  private async claimCooldown(creatorId: string, settings: ChatCommandSettings, message: ChatMessage): Promise<boolean> {
+    const userKey = COMMAND_USER_COOLDOWN_KEY(creatorId, settings.command, message.platform, message.user.id);
+    if (settings.userCooldownSeconds > 0) {
+      const claimed = await this.redis.set(userKey, message.id, 'EX', settings.userCooldownSeconds, 'NX');
+      if (claimed !== 'OK') return false;
+    }
+
+    if (settings.cooldownSeconds > 0) {
+      const claimed = await this.redis.set(
+        COMMAND_COOLDOWN_KEY(creatorId, settings.command),
+        message.id,
+        'EX',
+        settings.cooldownSeconds,
+        'NX'
+      );
+      if (claimed !== 'OK') {
+        // Nobody answered them, so they can try again
+        if (settings.userCooldownSeconds > 0) {
+          await this.redis.del(userKey);
+        }
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * The product spotlighted in the live session queue, priced with its
+   * offer (and any flash sale running on it)
+   */
+  async getSpotlightProduct(creatorId: string): Promise<CommandProduct | null> {
+    const [session] = await this.db
+      .select({ metadata: liveSessions.metadata })
+      .from(liveSessions)
+      .where(and(
+        eq(liveSessions.creatorId, creatorId),
+        eq(liveSessions.status, 'live')
+      ))
+      .orderBy(desc(liveSessions.startedAt))
+      .limit(1);
+
+    const queue = session?.metadata?.['productQueue'] as
+      | { items?: Array<{ productId: string; variantId?: string; offerId?: string }>; currentIndex?: number }
+      | undefined;
+    const item = queue?.items?.[queue.currentIndex ?? 0];
+    if (!item) return null;
+
+    const [product] = await this.db
+      .select({ id: products.id, title: products.title })
+      .from(products)
+      .innerJoin(platformConnections, eq(products.connectionId, platformConnections.id))
+      .where(and(
+        eq(products.id, item.productId),
+        eq(platformConnections.creatorId, creatorId)
+      ))
+      .limit(1);
+
+    if (!product) return null;
+
+    const productVariants = await this.db
+      .select({
+        id: variants.id,
+        title: variants.title,
+        price: variants.price,
+        option1: variants.option1,
+        option2: variants.option2,
+        option3: variants.option3,
+        inventoryQuantity: variants.inventoryQuantity,
+        inventoryPolicy: variants.inventoryPolicy,
+      })
+      .from(variants)
+      .where(and(
+        eq(variants.productId, product.id),
+        eq(variants.isActive, true)
+      ))
+      .orderBy(asc(variants.createdAt));
+
+    // The queued variant's price, or the lowest
+    const queued = productVariants.find(variant => variant.id === item.variantId);
+    const prices = productVariants.map(variant => variant.price);
+    const regularPrice = queued?.price ?? (prices.length > 0 ? Math.min(...prices) : null);
+
+    const offer = item.offerId ? await this.getActiveOffer(creatorId, item.offerId) : null;
+    // A bundle's price isn't one product's price
+    const price = regularPrice !== null && offer && offer.offer.type !== 'bundle'
+      ? offerUnitPrice(regularPrice, offer.offer, undefined, offer.flashSale ?? undefined)
+      : regularPrice;
+
+    return {
+      title: product.title,
+      regularPrice,
+      price,
+      offerId: offer?.offer.id ?? null,
+      variants: productVariants,
+    };
+  }
+
+  private async getActiveOffer(creatorId: string, offerId: string) {
+    const [offer] = await this.db
+      .select()
+      .from(offers)
+      .where(and(
+        eq(offers.id, offerId),
+        eq(offers.creatorId, creatorId),
+        eq(offers.status, 'active')
+      ))
+      .limit(1);
+
+    if (!offer) return null;
+
+    const now = new Date();
+    const [flashSale] = await this.db
+      .select()
+      .from(flashSales)
+      .where(and(
+        eq(flashSales.offerId, offerId),
+        eq(flashSales.status, 'active'),
+        lte(flashSales.startsAt, now),
+        gt(flashSales.endsAt, now)
+      ))
+      .orderBy(desc(flashSales.flashDiscount))
+      .limit(1);
+
+    return { offer, flashSale: flashSale ?? null };
+  }
+
+  /**
+   * A link of the viewer's own, attributed to the message with the command
+   */
+  private async createLink(
+    creatorId: string,
+    offerId: string,
+    liveSessionId: string | null,
+    message: ChatMessage
+  ): Promise<{ id: string; code: string }> {
+    const command = message.command?.name ?? 'command';
+    const code = randomBytes(4).toString('hex');
+    const platform = (platformEnum.enumValues as readonly string[]).includes(message.platform)
+      ? (message.platform as (typeof platformEnum.enumValues)[number])
+      : null;
+
+    const [attrCtx] = await this.db
+      .insert(attributionContexts)
+      .values({
+        creatorId,
+        liveSessionId,
+        platform,
+        surface: 'live',
+        chatPlatform: message.platform,
+        chatUserId: message.user.id,
+        chatMessageId: message.id,
+        metadata: { source: 'chat_command', command, chatUsername: message.user.username },
+      })
+      .returning();
+
+    if (!attrCtx) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to create attribution');
+    }
+
+    const [link] = await this.db
+      .insert(shortLinks)
+      .values({
+        creatorId,
+        code,
+        offerId,
+        attributionContextId: attrCtx.id,
+        name: `Chat !${command}`,
+        metadata: { source: 'chat_command', command },
+      })
+      .returning();
+
+    if (!link) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to create link');
+    }
+
+    return { id: link.id, code };
+  }
+
+  // ============================================
+  // Settings
+  // ============================================
+
+  /**
+   * Every command with the creator's settings, or the defaults
+   */
+  async listSettings(creatorId: string): Promise<ChatCommandSettings[]> {
+    const rows = await this.db
+      .select()
+      .from(chatCommands)
+      .where(eq(chatCommands.creatorId, creatorId));
+
+    return CHAT_COMMAND_NAMES.map(command => {
+      const row = rows.find(r => r.command === command);
+      return row ? toSettings(row) : defaultCommandSettings(command);
+    });
+  }
+
+  async getSettings(creatorId: string, command: ChatCommandName): Promise<ChatCommandSettings> {
+    const [row] = await this.db
+      .select()
+      .from(chatCommands)
+      .where(and(eq(chatCommands.creatorId, creatorId), eq(chatCommands.command, command)))
+      .limit(1);
+
+    return row ? toSettings(row) : defaultCommandSettings(command);
+  }
+
+  async updateSettings(
+    creatorId: string,
+    command: ChatCommandName,
+    update: UpdateChatCommandRequest
+  ): Promise<ChatCommandSettings> {
+    const [row] = await this.db
+      .insert(chatCommands)
+      .values({ ...defaultCommandSettings(command), ...update, creatorId })
+      .onConflictDoUpdate({
+        target: [chatCommands.creatorId, chatCommands.command],
+        set: { ...update, updatedAt: new Date() },
+      })
+      .returning();
+
+    if (!row) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to save command settings');
+    }
+
+    return toSettings(row);
+  }
+
+  // ============================================
+  // Usage
+  // ============================================
+
+  /**
+   * How each command was used, and what its links sold
+   */
+  async getUsage(creatorId: string, query: ChatCommandUsageQuery) {
+    const conditions: SQL[] = [eq(chatCommandUses.creatorId, creatorId)];
+    if (query.liveSessionId) conditions.push(eq(chatCommandUses.liveSessionId, query.liveSessionId));
+    if (query.platform) conditions.push(eq(chatCommandUses.platform, query.platform));
+    if (query.from) conditions.push(gte(chatCommandUses.createdAt, query.from));
+    if (query.to) conditions.push(lte(chatCommandUses.createdAt, query.to));
+
+    const rows = await this.db
+      .select({
+        command: chatCommandUses.command,
+        platform: chatCommandUses.platform,
+        outcome: chatCommandUses.outcome,
+        uses: sql<number>`count(*)::int`,
+      })
+      .from(chatCommandUses)
+      .where(and(...conditions))
+      .groupBy(chatCommandUses.command, chatCommandUses.platform, chatCommandUses.outcome);
+
+    const uniqueViewers = await this.db
+      .select({
+        command: chatCommandUses.command,
+        viewers: sql<number>`count(distinct (${chatCommandUses.platform}, ${chatCommandUses.platformUserId}))::int`,
+      })
+      .from(chatCommandUses)
+      .where(and(...conditions))
+      .groupBy(chatCommandUses.command);
+
+    // Clicks and sales on the links commands handed out
+    const linkStats = await this.db
+      .select({
+        command: chatCommandUses.command,
+        clicks: sql<number>`coalesce(sum(${shortLinks.clickCount}), 0)::int`,
+      })
+      .from(chatCommandUses)
+      .innerJoin(shortLinks, eq(chatCommandUses.shortLinkId, shortLinks.id))
+      .where(and(...conditions))
+      .groupBy(chatCommandUses.command);
+
+    const sales = await this.db
+      .select({
+        command: chatCommandUses.command,
+        orders: sql<number>`count(${orders.id})::int`,
+        revenue: sql<number>`coalesce(sum(${orders.total}), 0)::int`,
+      })
+      .from(chatCommandUses)
+      .innerJoin(checkoutSessions, eq(checkoutSessions.shortLinkId, chatCommandUses.shortLinkId))
+      .innerJoin(orders, eq(orders.checkoutSessionId, checkoutSessions.id))
+      .where(and(...conditions, inArray(orders.status, ['confirmed', 'fulfilled'])))
+      .groupBy(chatCommandUses.command);
+
+    const commands = CHAT_COMMAND_NAMES.map(command => {
+      const commandRows = rows.filter(row => row.command === command);
+      const byPlatform: Record<string, number> = {};
+      const byOutcome: Record<ChatCommandOutcome, number> = { replied: 0, cooldown: 0, unavailable: 0, failed: 0 };
+
+      for (const row of commandRows) {
+        byPlatform[row.platform] = (byPlatform[row.platform] ?? 0) + row.uses;
+        byOutcome[row.outcome] += row.uses;
+      }
+
+      return {
+        command,
+        uses: commandRows.reduce((total, row) => total + row.uses, 0),
+        uniqueViewers: uniqueViewers.find(row => row.command === command)?.viewers ?? 0,
+        byOutcome,
+        byPlatform,
+        clicks: linkStats.find(row => row.command === command)?.clicks ?? 0,
+        orders: sales.find(row => row.command === command)?.orders ?? 0,
+        revenue: sales.find(row => row.command === command)?.revenue ?? 0,
+      };
+    });
+
+    return { commands };
+  }
+}
+
+function toSettings(row: typeof chatCommands.$inferSelect): ChatCommandSettings {
+  return {
+    command: row.command,
+    enabled: row.enabled,
+    platforms: row.platforms as ChatPlatform[],
+    cooldownSeconds: row.cooldownSeconds,
+    userCooldownSeconds: row.userCooldownSeconds,
+    response: row.response,
+  };
+}
@@ -0,0 +1,312 @@
+import { eq, and, gte, count, desc, type SQL } from 'drizzle-orm';
+import type { Redis } from 'ioredis';
+import type { Database } from '@unifyed/db';
+import { AppError, ErrorCodes } from '@unifyed/utils';
+import { chatModerationSettings, chatModerationStrikes, type ChatStrikeAction } from '@unifyed/db/schema';
+import type { AutomodReason, ChatMessage, ChatMessageType, ModerationQueueItem } from '@unifyed/types';
+import type {
+  ChatModerationSettings,
+  UpdateChatModerationSettingsRequest,
+  ListStrikesQuery,
+} from '@unifyed/types/api';
+
+export const DEFAULT_MODERATION_SETTINGS: ChatModerationSettings = {
+  blockedTerms: [],
+  filterLinks: true,
+  allowedLinkDomains: [],
+  filterCaps: true,
+  filterSpam: true,
+  strikeLimit: 3,
+  strikeTimeoutSeconds: 600,
+};
+
+// Only what viewers type is screened; gifts, follows and the like pass
+const SCREENED_TYPES: ReadonlySet<ChatMessageType> = new Set(['chat', 'question']);
+
+// Shouting: mostly capitals over enough letters to not catch "OMG" or "LOL"
+const CAPS_MIN_LETTERS = 12;
+const CAPS_RATIO = 0.7;
+
+// Spam: the same message again and again, a flood of messages, or a key held down
+const SPAM_WINDOW_MS = 30_000;
+const SPAM_REPEAT_LIMIT = 3;
+const SPAM_FLOOD_LIMIT = 10;
+const REPEATED_CHARACTER = /(.)\1{14,}/u;
+// Past this many tracked authors, forget the ones who went quiet
+const SPAM_TRACKED_AUTHORS = 5000;
+
+// Links with a scheme or www., or bare domains on TLDs people actually paste
+const LINK_PATTERN =
+  /\b(?:https?:\/\/|www\.)([a-z0-9.-]+\.[a-z]{2,})|\b((?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+(?:com|net|org|io|co|me|ly|gg|tv|shop|store|link|xyz|info|biz|app|site|online|live|us|uk|ca|de))\b/gi;
+
+// Strikes older than this don't count towards a timeout
+const STRIKE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Held messages wait for a decision for at most a day
+const MODERATION_QUEUE_KEY = (creatorId: string) => `chat:modqueue:${creatorId}`;
+const MODERATION_QUEUE_TTL_SECONDS = 24 * 60 * 60;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Hosts of the links in a message, lowercased and without www.
+ */
+export function findLinkHosts(content: string): string[] {
+  const hosts: string[] = [];
+  for (const match of content.matchAll(LINK_PATTERN)) {
+    const host = (match[1] ?? match[2] ?? '').toLowerCase().replace(/^www\./, '');
+    if (host) hosts.push(host);
+  }
+  return hosts;
+}
+
+/**
+ * Automod for one creator's chat. Checks each message against the creator's
+ * settings and remembers recent messages per author to spot spam. Runs on
+ * the instance that owns the chat, so the memory sees every message.
+ */
+export class ChatAutomod {
+  private blockedTerms: RegExp[] = [];
+  private recent: Map<string, Array<{ text: string; at: number }>> = new Map();
+
+  constructor(private settings: ChatModerationSettings) {
+    this.update(settings);
+  }
+
+  update(settings: ChatModerationSettings): void {
+    this.settings = settings;
+    // Whole words only, so "ass" doesn't catch "class"
+    this.blockedTerms = settings.blockedTerms.map(
+      term => new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'iu')
+    );
+  }
+
+  /**
+   * Why the message should be held or removed; empty when it's fine
+   */
+  check(message: ChatMessage, now = Date.now()): AutomodReason[] {
+    if (!SCREENED_TYPES.has(message.type)) return [];
+    // The creator and their moderators are trusted
+    if (message.user.isModerator || message.user.badges.includes('creator')) return [];
+
+    const reasons: AutomodReason[] = [];
+    const { content } = message;
+
+    if (this.blockedTerms.some(term => term.test(content))) {
+      reasons.push('blocked_term');
+    }
+    if (this.settings.filterLinks && findLinkHosts(content).some(host => !this.isAllowedHost(host))) {
+      reasons.push('link');
+    }
+    if (this.settings.filterCaps && this.isShouting(content)) {
+      reasons.push('caps');
+    }
+    if (this.settings.filterSpam && this.isSpam(message, now)) {
+      reasons.push('spam');
+    }
+
+    return reasons;
+  }
+
+  private isAllowedHost(host: string): boolean {
+    return this.settings.allowedLinkDomains.some(domain => host === domain || host.endsWith(`.${domain}`));
+  }
+
+  private isShouting(content: string): boolean {
+    const letters = content.match(/\p{L}/gu)?.length ?? 0;
+    if (letters < CAPS_MIN_LETTERS) return false;
+    const capitals = content.match(/\p{Lu}/gu)?.length ?? 0;
+    return capitals / letters >= CAPS_RATIO;
+  }
+
+  private isSpam(message: ChatMessage, now: number): boolean {
+    const key = `${message.platform}:${message.user.id}`;
+    const text = message.content.trim().toLowerCase().replace(/\s+/g, ' ');
+
+    const history = (this.recent.get(key) ?? []).filter(entry => now - entry.at < SPAM_WINDOW_MS);
+    history.push({ text, at: now });
+    this.recent.set(key, history);
+
+    if (this.recent.size > SPAM_TRACKED_AUTHORS) {
+      this.forgetQuietAuthors(now);
+    }
+
+    const repeats = history.filter(entry => entry.text === text).length;
+    return repeats >= SPAM_REPEAT_LIMIT
+      || history.length > SPAM_FLOOD_LIMIT
+      || REPEATED_CHARACTER.test(text);
+  }
+
+  private forgetQuietAuthors(now: number): void {
+    for (const [key, history] of this.recent) {
+      const last = history[history.length - 1];
+      if (!last || now - last.at >= SPAM_WINDOW_MS) {
+        this.recent.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Revive a queue item read back from Redis
+ */
+function reviveQueueItem(raw: string): ModerationQueueItem {
+  const item = JSON.parse(raw) as ModerationQueueItem;
+  return {
+    ...item,
+    message: { ...item.message, timestamp: new Date(item.message.timestamp) },
+    heldAt: new Date(item.heldAt),
+  };
+}
+
+/**
+ * Chat Moderation Service
+ * Automod settings, per-viewer strike history and the queue of messages
+ * waiting for a moderator
+ */
+export class ChatModerationService {
+  constructor(
+    private db: Database,
+    private redis: Redis,
+  ) {}
+
+  async getSettings(creatorId: string): Promise<ChatModerationSettings> {
+    const [row] = await this.db
+      .select()
+      .from(chatModerationSettings)
+      .where(eq(chatModerationSettings.creatorId, creatorId))
+      .limit(1);
+
+    return row ? toSettings(row) : { ...DEFAULT_MODERATION_SETTINGS };
+  }
+
+  async updateSettings(creatorId: string, update: UpdateChatModerationSettingsRequest): Promise<ChatModerationSettings> {
+    const [row] = await this.db
+      .insert(chatModerationSettings)
+      .values({ ...update, creatorId })
+      .onConflictDoUpdate({
+        target: chatModerationSettings.creatorId,
+        set: { ...update, updatedAt: new Date() },
+      })
+      .returning();
+
+    if (!row) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to save moderation settings');
+    }
+
+    return toSettings(row);
+  }
+
+  /**
+   * Record a strike against the message's author. Returns how many strikes
+   * they now have within the strike window.
+   */
+  async addStrike(
+    creatorId: string,
+    strike: { message: ChatMessage; reasons: AutomodReason[]; action: ChatStrikeAction; moderatorId: string | null }
+  ): Promise<number> {
+    const { message } = strike;
+
+    await this.db.insert(chatModerationStrikes).values({
+      creatorId,
+      platform: message.platform,
+      authorId: message.user.id,
+      authorName: message.user.username,
+      messageId: message.id,
+      content: message.content,
+      reasons: strike.reasons,
+      action: strike.action,
+      moderatorId: strike.moderatorId,
+    });
+
+    return this.countStrikes(creatorId, message.platform, message.user.id);
+  }
+
+  /**
+   * Strikes a viewer collected within the strike window
+   */
+  async countStrikes(creatorId: string, platform: string, authorId: string): Promise<number> {
+    const [result] = await this.db
+      .select({ count: count() })
+      .from(chatModerationStrikes)
+      .where(and(
+        eq(chatModerationStrikes.creatorId, creatorId),
+        eq(chatModerationStrikes.platform, platform),
+        eq(chatModerationStrikes.authorId, authorId),
+        gte(chatModerationStrikes.createdAt, new Date(Date.now() - STRIKE_WINDOW_MS))
+      ));
+
+    return Number(result?.count ?? 0);
+  }
+
+  /**
+   * Strike history, newest first: one viewer's, or the whole chat's
+   */
+  async listStrikes(creatorId: string, query: ListStrikesQuery) {
+    const conditions: SQL[] = [eq(chatModerationStrikes.creatorId, creatorId)];
+    if (query.platform) conditions.push(eq(chatModerationStrikes.platform, query.platform));
+    if (query.userId) conditions.push(eq(chatModerationStrikes.authorId, query.userId));
+
+    const rows = await this.db
+      .select()
+      .from(chatModerationStrikes)
+      .where(and(...conditions))
+      .orderBy(desc(chatModerationStrikes.createdAt))
+      .limit(query.limit);
+
+    return rows.map(({ creatorId: _creatorId, ...strike }) => strike);
+  }
+
+  /**
+   * Put a message in the moderation queue
+   */
+  async hold(creatorId: string, item: ModerationQueueItem): Promise<void> {
+    await this.redis
+      .multi()
+      .hset(MODERATION_QUEUE_KEY(creatorId), item.message.id, JSON.stringify(item))
+      .expire(MODERATION_QUEUE_KEY(creatorId), MODERATION_QUEUE_TTL_SECONDS)
+      .exec();
+  }
+
+  /**
+   * Messages waiting for a decision, oldest first
+   */
+  async listQueue(creatorId: string): Promise<ModerationQueueItem[]> {
+    const raw = await this.redis.hvals(MODERATION_QUEUE_KEY(creatorId));
+    return raw
+      .map(reviveQueueItem)
+      .sort((a, b) => a.heldAt.getTime() - b.heldAt.getTime());
+  }
+
+  /**
+   * Take a message off the queue to decide on it. Null if it isn't queued,
+   * e.g. another moderator got there first.
+   */
+  async takeQueued(creatorId: string, messageId: string): Promise<ModerationQueueItem | null> {
+    const results = await this.redis
+      .multi()
+      .hget(MODERATION_QUEUE_KEY(creatorId), messageId)
+      .hdel(MODERATION_QUEUE_KEY(creatorId), messageId)
+      .exec();
+
+    const raw = results?.[0]?.[1];
+    const removed = results?.[1]?.[1];
+    if (typeof raw !== 'string' || removed !== 1) return null;
+
+    return reviveQueueItem(raw);
+  }
+}
+
+function toSettings(row: typeof chatModerationSettings.$inferSelect): ChatModerationSettings {
+  return {
+    blockedTerms: row.blockedTerms,
+    filterLinks: row.filterLinks,
+    allowedLinkDomains: row.allowedLinkDomains,
+    filterCaps: row.filterCaps,
+    filterSpam: row.filterSpam,
+    strikeLimit: row.strikeLimit,
+    strikeTimeoutSeconds: row.strikeTimeoutSeconds,
+  };
+}
@@ -0,0 +1,319 @@
+import { eq, and, gte, lte, gt, or, count, asc, desc, inArray, sql, type SQL } from 'drizzle-orm';
+import type { Database } from '@unifyed/db';
+import { chatMessages, chatGifts, liveSessions } from '@unifyed/db/schema';
+import type { ChatMessage } from '@unifyed/types';
+import type { ListTranscriptQuery, TranscriptFilter } from '@unifyed/types/api';
+import { estimateGiftPayout } from './gift-payouts.js';
+
+// Messages are written in batches; a busy stream sends hundreds a minute
+const FLUSH_INTERVAL_MS = 2000;
+const MAX_BATCH_SIZE = 200;
+
+// How long a creator's current live session is cached before looking it up again
+const SESSION_CACHE_TTL_MS = 30_000;
+
+// Rows per query when streaming an export
+const EXPORT_PAGE_SIZE = 1000;
+
+const CSV_COLUMNS = [
+  'sent_at',
+  'platform',
+  'type',
+  'author_name',
+  'author_id',
+  'content',
+  'badges',
+  'gift_name',
+  'gift_count',
+  'gift_value',
+  'is_question',
+  'has_buying_intent',
+  'sentiment',
+] as const;
+
+type ChatMessageRow = typeof chatMessages.$inferSelect;
+
+export type TranscriptMessageRow = Omit<ChatMessageRow, 'liveSessionId' | 'creatorId' | 'createdAt'>;
+
+/**
+ * Escape a CSV field. Fields that a spreadsheet would run as a formula are
+ * prefixed with a quote, since chat content comes from anyone.
+ */
+function csvField(value: string | number | boolean | null): string {
+  if (value === null) return '';
+
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function transcriptCsvHeader(): string {
+  return `${CSV_COLUMNS.join(',')}\r\n`;
+}
+
+export function toTranscriptCsvRow(message: TranscriptMessageRow): string {
+  return [
+    message.sentAt.toISOString(),
+    message.platform,
+    message.type,
+    message.authorName,
+    message.authorId,
+    message.content,
+    message.badges.join(' '),
+    message.gift?.name ?? null,
+    message.gift?.count ?? null,
+    message.giftValue,
+    message.signals?.isQuestion ?? null,
+    message.signals?.hasBuyingIntent ?? null,
+    message.signals?.sentiment ?? null,
+  ].map(csvField).join(',') + '\r\n';
+}
+
+export function toTranscriptJsonLine(message: TranscriptMessageRow): string {
+  return `${JSON.stringify(message)}\n`;
+}
+
+/**
+ * Chat Transcript Service
+ * Stores every chat message against the creator's live session, and reads
+ * transcripts back for search and export
+ */
+export class ChatTranscriptService {
+  private pending: Map<string, ChatMessage[]> = new Map();
+  private sessionCache: Map<string, { liveSessionId: string | null; resolvedAt: number }> = new Map();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(private db: Database) {}
+
+  /**
+   * Queue a message for the creator's transcript. Written on the next flush.
+   */
+  record(creatorId: string, message: ChatMessage): void {
+    const queue = this.pending.get(creatorId) ?? [];
+    queue.push(message);
+    this.pending.set(creatorId, queue);
+
+    if (queue.length >= MAX_BATCH_SIZE) {
+      void this.flush(creatorId);
+      return;
+    }
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        void this.flushAll();
+      }, FLUSH_INTERVAL_MS);
+      this.flushTimer.unref();
+    }
+  }
+
+  /**
+   * Write a creator's queued messages. Messages that arrive while the creator
+   * has no live session are dropped.
+   */
+  async flush(creatorId: string): Promise<void> {
+    const queue = this.pending.get(creatorId);
+    if (!queue || queue.length === 0) return;
+    this.pending.delete(creatorId);
+
+    try {
+      const liveSessionId = await this.getCurrentLiveSessionId(creatorId);
+      if (!liveSessionId) return;
+
+      await this.db
+        .insert(chatMessages)
+        .values(queue.map(message => ({
+          liveSessionId,
+          creatorId,
+          platform: message.platform,
+          externalId: message.id,
+          type: message.type,
+          content: message.content,
+          emotes: message.emotes ?? null,
+          authorId: message.user.id,
+          authorName: message.user.username,
+          authorImageUrl: message.user.profileImageUrl ?? null,
+          badges: message.user.badges,
+          isModerator: message.user.isModerator,
+          isSubscriber: message.user.isSubscriber,
+          isVerified: message.user.isVerified,
+          gift: message.gift ?? null,
+          giftValue: message.gift ? message.gift.value * message.gift.count : 0,
+          signals: message.signals ?? null,
+          sentAt: message.timestamp,
+        })))
+        .onConflictDoNothing();
+
+      await this.recordGifts(creatorId, liveSessionId, queue);
+    } catch (error) {
+      console.error(`💬 Failed to store ${queue.length} chat message(s) for creator ${creatorId}:`, error);
+    }
+  }
+
+  /**
+   * Store the paid gifts among a batch of messages with their estimated
+   * payout. A TikTok streak is stored once, from its last message.
+   */
+  private async recordGifts(creatorId: string, liveSessionId: string, messages: ChatMessage[]): Promise<void> {
+    const gifts = messages.filter(message =>
+      message.type === 'gift' && message.gift && message.gift.value > 0 && !message.gift.streaking
+    );
+    if (gifts.length === 0) return;
+
+    await this.db
+      .insert(chatGifts)
+      .values(gifts.map(message => ({
+        liveSessionId,
+        creatorId,
+        platform: message.platform,
+        externalId: message.id,
+        senderId: message.user.id,
+        senderName: message.user.username,
+        giftId: message.gift!.id,
+        giftName: message.gift!.name,
+        count: message.gift!.count,
+        ...estimateGiftPayout(message.platform, message.gift!),
+        sentAt: message.timestamp,
+      })))
+      .onConflictDoNothing();
+  }
+
+  async flushAll(): Promise<void> {
+    await Promise.allSettled(Array.from(this.pending.keys()).map(id => this.flush(id)));
+  }
+
+  /**
+   * Flush everything and stop the timer (for graceful shutdown)
+   */
+  async close(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flushAll();
+  }
+
+  /**
+   * Forget the cached live session, e.g. when chat stops
+   */
+  forgetSession(creatorId: string): void {
+    this.sessionCache.delete(creatorId);
+  }
+
+  /**
+   * The live session chat currently belongs to: the newest one that hasn't ended
+   */
+  async getCurrentLiveSessionId(creatorId: string): Promise<string | null> {
+    const cached = this.sessionCache.get(creatorId);
+    if (cached && Date.now() - cached.resolvedAt < SESSION_CACHE_TTL_MS) {
+      return cached.liveSessionId;
+    }
+
+    const [session] = await this.db
+      .select({ id: liveSessions.id })
+      .from(liveSessions)
+      .where(and(
+        eq(liveSessions.creatorId, creatorId),
+        inArray(liveSessions.status, ['preparing', 'live', 'ending'])
+      ))
+      .orderBy(desc(liveSessions.createdAt))
+      .limit(1);
+
+    const liveSessionId = session?.id ?? null;
+    this.sessionCache.set(creatorId, { liveSessionId, resolvedAt: Date.now() });
+    return liveSessionId;
+  }
+
+  /**
+   * A page of a live session's transcript, oldest first
+   */
+  async list(liveSessionId: string, query: ListTranscriptQuery) {
+    const { page, limit } = query;
+    const offset = (page - 1) * limit;
+    const conditions = this.buildConditions(liveSessionId, query);
+
+    const [countResult] = await this.db
+      .select({ count: count() })
+      .from(chatMessages)
+      .where(and(...conditions));
+
+    const total = Number(countResult?.count ?? 0);
+
+    const rows = await this.db
+      .select()
+      .from(chatMessages)
+      .where(and(...conditions))
+      .orderBy(asc(chatMessages.sentAt), asc(chatMessages.id))
+      .limit(limit)
+      .offset(offset);
+
+    return {
+      messages: rows.map(toTranscriptMessage),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Every matching message, oldest first, read a page at a time so large
+   * transcripts can be streamed
+   */
+  async *iterate(liveSessionId: string, filter: TranscriptFilter): AsyncGenerator<TranscriptMessageRow> {
+    const conditions = this.buildConditions(liveSessionId, filter);
+    let cursor: { sentAt: Date; id: string } | null = null;
+
+    while (true) {
+      const rows: ChatMessageRow[] = await this.db
+        .select()
+        .from(chatMessages)
+        .where(and(
+          ...conditions,
+          cursor
+            ? or(
+                gt(chatMessages.sentAt, cursor.sentAt),
+                and(eq(chatMessages.sentAt, cursor.sentAt), gt(chatMessages.id, cursor.id))
+              )
+            : undefined
+        ))
+        .orderBy(asc(chatMessages.sentAt), asc(chatMessages.id))
+        .limit(EXPORT_PAGE_SIZE);
+
+      for (const row of rows) {
+        yield toTranscriptMessage(row);
+      }
+
+      const last = rows[rows.length - 1];
+      if (!last || rows.length < EXPORT_PAGE_SIZE) return;
+      cursor = { sentAt: last.sentAt, id: last.id };
+    }
+  }
+
+  private buildConditions(liveSessionId: string, filter: TranscriptFilter): SQL[] {
+    const conditions: SQL[] = [eq(chatMessages.liveSessionId, liveSessionId)];
+
+    if (filter.q) {
+      // Matches the GIN index on to_tsvector('simple', content)
+      conditions.push(
+        sql`to_tsvector('simple', ${chatMessages.content}) @@ websearch_to_tsquery('simple', ${filter.q})`
+      );
+    }
+    if (filter.platform) conditions.push(eq(chatMessages.platform, filter.platform));
+    if (filter.type) conditions.push(eq(chatMessages.type, filter.type));
+    if (filter.from) conditions.push(gte(chatMessages.sentAt, filter.from));
+    if (filter.to) conditions.push(lte(chatMessages.sentAt, filter.to));
+
+    return conditions;
+  }
+}
+
+function toTranscriptMessage(row: ChatMessageRow): TranscriptMessageRow {
+  const { liveSessionId: _liveSessionId, creatorId: _creatorId, createdAt: _createdAt, ...message } = row;
+  return message;
+}
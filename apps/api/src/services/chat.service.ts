@@ -1,17 +1,33 @@
+import { randomUUID } from 'crypto';
+import type { Redis } from 'ioredis';
 import { ChatAggregator, createChatAggregator, type PlatformConfig } from '@unifyed/chat';
-import type { ChatMessage, ChatConnectionStatus, ChatState, ChatPlatform } from '@unifyed/types';
+import {
+  CHAT_ANNOUNCEMENT_CHANNEL,
+  type ChatMessage,
+  type ChatConnectionStatus,
+  type ChatState,
+  type ChatPlatform,
+  type ChatAnnouncement,
+  type ChatModerationAction,
+  type ChatModerationCommand,
+  type AutomodReason,
+  type ModerationQueueItem,
+  type AnswerSuggestion,
+} from '@unifyed/types';
+import type { ModerationDecision } from '@unifyed/types/api';
 import type { Database } from '@unifyed/db';
 import { eq, and } from 'drizzle-orm';
-import { platformConnections } from '@unifyed/db/schema';
+import { platformConnections, type ChatStrikeAction } from '@unifyed/db/schema';
 import { decrypt, encrypt } from '@unifyed/utils';
 import * as youtubeIntegration from '@unifyed/integrations-youtube';
 import * as twitchIntegration from '@unifyed/integrations-twitch';
 import { processMessage } from './ai-chat.service.js';
+import { ChatTranscriptService } from './chat-transcript.service.js';
+import { ChatAutomod, ChatModerationService } from './chat-moderation.service.js';
+import { ChatAnswerService } from './chat-answer.service.js';
+import { ViewerService } from './viewer.service.js';
+import { ChatCommandService } from './chat-command.service.js';
 
-/**
- * Chat Service
- * Manages chat aggregators for each creator and provides unified chat access
- */
 interface OAuthConfig {
   youtubeClientId?: string | undefined;
   youtubeClientSecret?: string | undefined;
@@ -19,35 +35,207 @@ interface OAuthConfig {
   twitchClientSecret?: string | undefined;
 }
 
+// Redis keys and channels shared by every API instance
+const CHAT_OWNER_KEY = (creatorId: string) => `chat:owner:${creatorId}`;
+const CHAT_STATE_KEY = (creatorId: string) => `chat:state:${creatorId}`;
+const CHAT_HISTORY_KEY = (creatorId: string) => `chat:history:${creatorId}`;
+const CHAT_EVENTS_CHANNEL = (creatorId: string) => `chat:events:${creatorId}`;
+const CHAT_REPLIES_CHANNEL = (instanceId: string) => `chat:replies:${instanceId}`;
+// Creators whose chat should be running, whichever instance runs it
+const CHAT_ACTIVE_KEY = 'chat:active';
+const CHAT_COMMANDS_CHANNEL = 'chat:commands';
+
+// The owning instance renews its lease well within the TTL. If it dies,
+// another instance takes the chat over once the lease expires.
+const LEASE_TTL_MS = 15_000;
+const LEASE_RENEW_INTERVAL_MS = 5_000;
+const COMMAND_TIMEOUT_MS = 5_000;
+const MESSAGE_HISTORY_LIMIT = 1000;
+const MESSAGE_HISTORY_TTL_SECONDS = 24 * 60 * 60;
+
+// Only touch the lease if this instance still holds it
+const RENEW_LEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+const RELEASE_LEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+// Changes to a creator's moderation queue
+export type ModerationEvent =
+  | { type: 'held'; item: ModerationQueueItem }
+  | { type: 'resolved'; messageId: string; decision: ModerationDecision['decision'] };
+
+// Answers drafted for viewers' product questions
+export type AnswerEvent =
+  | { type: 'suggested'; suggestion: AnswerSuggestion }
+  | { type: 'resolved'; id: string; sent: boolean };
+
+type ChatFanoutEvent =
+  | { type: 'message'; data: ChatMessage }
+  | { type: 'state'; data: ChatState }
+  | { type: 'moderation'; data: ModerationEvent }
+  | { type: 'answer'; data: AnswerEvent };
+
+// Work only the owning instance can do, because it needs the platform connections
+type ChatOwnerRequest =
+  | { action: 'send'; content: string; platforms?: ChatPlatform[] | undefined }
+  | { action: 'moderate'; command: ChatModerationCommand };
+
+// Work for the instance that owns a creator's chat
+type ChatCommand =
+  | (ChatOwnerRequest & { creatorId: string; requestId: string; replyTo: string })
+  | { action: 'stop'; creatorId: string }
+  | { action: 'reload_automod'; creatorId: string }
+  | { action: 'reload_chat_commands'; creatorId: string };
+
+interface ChatCommandReply {
+  requestId: string;
+  error?: string | undefined;
+}
+
+/**
+ * Messages come back from Redis as JSON; restore their dates
+ */
+function reviveMessage(message: ChatMessage): ChatMessage {
+  return { ...message, timestamp: new Date(message.timestamp) };
+}
+
+/**
+ * Chat Service
+ * Manages chat aggregators for each creator and provides unified chat access.
+ * A creator's chat runs on one API instance at a time, the holder of a Redis
+ * lease. Messages and state changes are published on Redis so any instance
+ * can serve subscribers, and sends are forwarded to the owner.
+ */
 export class ChatService {
+  // Chats this instance owns (holds the lease for)
   private aggregators: Map<string, ChatAggregator> = new Map();
   private messageCallbacks: Map<string, Set<(message: ChatMessage) => void>> = new Map();
   private stateCallbacks: Map<string, Set<(state: ChatState) => void>> = new Map();
+  private moderationCallbacks: Map<string, Set<(event: ModerationEvent) => void>> = new Map();
+  private answerCallbacks: Map<string, Set<(event: AnswerEvent) => void>> = new Map();
+  private transcripts: ChatTranscriptService;
+  private moderation: ChatModerationService;
+  private answers: ChatAnswerService;
+  private viewers: ViewerService;
+  private commands: ChatCommandService;
+  // Automod for the chats this instance owns
+  private automods: Map<string, ChatAutomod> = new Map();
+  private readonly instanceId = randomUUID();
+  private subscriber: Redis | null = null;
+  private leaseTimer: NodeJS.Timeout | null = null;
+  private maintainingLeases = false;
+  // Chats this instance is taking over, which can outlast a lease check
+  private takeovers: Set<string> = new Set();
+  private pendingCommands: Map<string, { resolve: () => void; reject: (error: Error) => void; timer: NodeJS.Timeout }> = new Map();
 
   constructor(
     private db: Database,
+    private redis: Redis,
     private encryptionKey: string,
     private oauthConfig: OAuthConfig = {},
-  ) {}
+  ) {
+    this.transcripts = new ChatTranscriptService(db);
+    this.moderation = new ChatModerationService(db, redis);
+    this.answers = new ChatAnswerService(db, redis);
+    this.viewers = new ViewerService(db, (creatorId) => this.transcripts.getCurrentLiveSessionId(creatorId));
+    this.commands = new ChatCommandService(db, redis, (creatorId) => this.transcripts.getCurrentLiveSessionId(creatorId));
+  }
 
   /**
-   * Get or create a chat aggregator for a creator
+   * Join the fan-out: receive chat events, commands and announcements, and
+   * start renewing leases and picking up chats whose owner went away
    */
-  getAggregator(creatorId: string): ChatAggregator | undefined {
-    return this.aggregators.get(creatorId);
+  async connect(): Promise<void> {
+    if (this.subscriber) return;
+
+    this.subscriber = this.redis.duplicate();
+
+    this.subscriber.on('pmessage', (_pattern: string, channel: string, raw: string) => {
+      this.handleFanoutEvent(channel.slice(CHAT_EVENTS_CHANNEL('').length), raw);
+    });
+
+    this.subscriber.on('message', (channel: string, raw: string) => {
+      try {
+        if (channel === CHAT_COMMANDS_CHANNEL) {
+          void this.handleCommand(JSON.parse(raw) as ChatCommand);
+        } else if (channel === CHAT_ANNOUNCEMENT_CHANNEL) {
+          void this.handleAnnouncement(JSON.parse(raw) as ChatAnnouncement);
+        } else if (channel === CHAT_REPLIES_CHANNEL(this.instanceId)) {
+          this.handleCommandReply(JSON.parse(raw) as ChatCommandReply);
+        }
+      } catch (error) {
+        console.error(`💬 Bad message on ${channel}:`, error);
+      }
+    });
+
+    await this.subscriber.psubscribe(CHAT_EVENTS_CHANNEL('*'));
+    await this.subscriber.subscribe(
+      CHAT_COMMANDS_CHANNEL,
+      CHAT_ANNOUNCEMENT_CHANNEL,
+      CHAT_REPLIES_CHANNEL(this.instanceId)
+    );
+
+    this.leaseTimer = setInterval(() => {
+      void this.maintainLeases();
+    }, LEASE_RENEW_INTERVAL_MS);
+    this.leaseTimer.unref();
   }
 
   /**
    * Start chat aggregation for a creator
-   * Automatically detects available connections (Restream or direct platforms)
+   * Automatically detects available connections (Restream or direct platforms).
+   * If another instance already runs the chat, this is a no-op.
    */
-  async startChat(creatorId: string): Promise<ChatAggregator> {
+  async startChat(creatorId: string): Promise<ChatState | null> {
+    await this.redis.sadd(CHAT_ACTIVE_KEY, creatorId);
+
     // Check if already running
     const existing = this.aggregators.get(creatorId);
     if (existing) {
-      return existing;
+      return existing.getState();
+    }
+
+    if (!(await this.acquireLease(creatorId))) {
+      return this.getChatState(creatorId);
+    }
+
+    try {
+      const aggregator = await this.startLocal(creatorId);
+      return aggregator.getState();
+    } catch (error) {
+      await this.redis.srem(CHAT_ACTIVE_KEY, creatorId);
+      await this.releaseLease(creatorId);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a creator's chat on this instance. The caller must hold the lease,
+   * which is kept alive here until the chat is running and the lease check
+   * renews it.
+   */
+  private async startLocal(creatorId: string): Promise<ChatAggregator> {
+    const renewal = setInterval(() => {
+      this.renewLease(creatorId).catch((error: unknown) => {
+        console.error(`💬 Failed to renew chat lease for creator ${creatorId}:`, error);
+      });
+    }, LEASE_RENEW_INTERVAL_MS);
+    renewal.unref();
+
+    try {
+      return await this.connectLocal(creatorId);
+    } finally {
+      clearInterval(renewal);
     }
+  }
 
+  private async connectLocal(creatorId: string): Promise<ChatAggregator> {
     // Get connection configs
     const configs = await this.getConnectionConfigs(creatorId);
     
@@ -60,23 +248,39 @@ export class ChatService {
 
     // Create aggregator
     const aggregator = createChatAggregator(creatorId);
+    const automod = new ChatAutomod(await this.moderation.getSettings(creatorId));
+    this.automods.set(creatorId, automod);
+    await this.viewers.loadBadges(creatorId);
+    await this.commands.load(creatorId);
     
-    // Set up event forwarding with AI enrichment
+    // Publish messages with AI enrichment to every instance
     aggregator.on('message', (message) => {
-      // Enrich message with AI signals
-      const enrichedMessage = processMessage(message);
-      
-      const callbacks = this.messageCallbacks.get(creatorId);
-      if (callbacks) {
-        callbacks.forEach((cb) => cb(enrichedMessage));
+      // Enrich message with AI signals and the author's buyer badge
+      const viewer = this.viewers.badgeFor(creatorId, message);
+      const enrichedMessage = { ...processMessage(message), ...(viewer && { viewer }) };
+
+      // Keep the full transcript; Redis only holds recent history
+      this.transcripts.record(creatorId, enrichedMessage);
+      this.viewers.record(creatorId, enrichedMessage);
+
+      // Flagged messages are held or removed instead of shown
+      const reasons = automod.check(enrichedMessage);
+      if (reasons.length > 0) {
+        void this.applyAutomod(creatorId, enrichedMessage, reasons);
+        return;
+      }
+
+      void this.publishMessage(creatorId, enrichedMessage);
+
+      if (enrichedMessage.command) {
+        void this.runViewerCommand(creatorId, enrichedMessage);
+      } else if (enrichedMessage.signals?.isQuestion) {
+        void this.answerQuestion(creatorId, enrichedMessage);
       }
     });
 
     aggregator.on('stateChange', (state) => {
-      const callbacks = this.stateCallbacks.get(creatorId);
-      if (callbacks) {
-        callbacks.forEach((cb) => cb(state));
-      }
+      void this.publishState(creatorId, state);
     });
 
     aggregator.on('error', (error, platform) => {
@@ -94,25 +298,59 @@ export class ChatService {
     }
     
     this.aggregators.set(creatorId, aggregator);
-    console.log(`💬 Started chat aggregation for creator ${creatorId}`);
+    await this.publishState(creatorId, aggregator.getState());
+    console.log(`💬 Started chat aggregation for creator ${creatorId} on instance ${this.instanceId}`);
     
     return aggregator;
   }
 
   /**
-   * Stop chat aggregation for a creator
+   * Stop chat aggregation for a creator, wherever it runs
    */
   async stopChat(creatorId: string): Promise<void> {
+    await this.redis.srem(CHAT_ACTIVE_KEY, creatorId);
+
+    if (this.aggregators.has(creatorId)) {
+      await this.stopLocal(creatorId);
+      return;
+    }
+
+    // The owner also stops on its next lease check; tell it now
+    const command: ChatCommand = { action: 'stop', creatorId };
+    await this.redis.publish(CHAT_COMMANDS_CHANNEL, JSON.stringify(command));
+  }
+
+  /**
+   * Stop a chat this instance runs and give up its lease
+   */
+  private async stopLocal(creatorId: string, options: { releaseLease: boolean } = { releaseLease: true }): Promise<void> {
     const aggregator = this.aggregators.get(creatorId);
-    if (aggregator) {
-      await aggregator.disconnect();
-      this.aggregators.delete(creatorId);
-      console.log(`💬 Stopped chat aggregation for creator ${creatorId}`);
+    if (!aggregator) return;
+
+    this.aggregators.delete(creatorId);
+    this.automods.delete(creatorId);
+    aggregator.removeAllListeners();
+    await aggregator.disconnect();
+    await this.transcripts.flush(creatorId);
+    await this.viewers.flush(creatorId);
+    this.transcripts.forgetSession(creatorId);
+    this.viewers.forget(creatorId);
+    this.commands.forget(creatorId);
+
+    if (options.releaseLease) {
+      await this.releaseLease(creatorId);
+      await this.redis.del(CHAT_STATE_KEY(creatorId));
+
+      // Let viewers on every instance know the chat went offline
+      const event: ChatFanoutEvent = { type: 'state', data: aggregator.getState() };
+      await this.redis.publish(CHAT_EVENTS_CHANNEL(creatorId), JSON.stringify(event));
     }
+
+    console.log(`💬 Stopped chat aggregation for creator ${creatorId}`);
   }
 
   /**
-   * Subscribe to chat messages for a creator
+   * Subscribe to chat messages for a creator (from whichever instance runs the chat)
    */
   onMessage(creatorId: string, callback: (message: ChatMessage) => void): () => void {
     if (!this.messageCallbacks.has(creatorId)) {
@@ -152,33 +390,568 @@ export class ChatService {
     };
   }
 
+  /**
+   * Subscribe to moderation queue changes for a creator
+   */
+  onModeration(creatorId: string, callback: (event: ModerationEvent) => void): () => void {
+    if (!this.moderationCallbacks.has(creatorId)) {
+      this.moderationCallbacks.set(creatorId, new Set());
+    }
+    this.moderationCallbacks.get(creatorId)!.add(callback);
+
+    return () => {
+      const callbacks = this.moderationCallbacks.get(creatorId);
+      if (callbacks) {
+        callbacks.delete(callback);
+        if (callbacks.size === 0) {
+          this.moderationCallbacks.delete(creatorId);
+        }
+      }
+    };
+  }
+
+  /**
+   * Subscribe to drafted answers for a creator
+   */
+  onAnswer(creatorId: string, callback: (event: AnswerEvent) => void): () => void {
+    if (!this.answerCallbacks.has(creatorId)) {
+      this.answerCallbacks.set(creatorId, new Set());
+    }
+    this.answerCallbacks.get(creatorId)!.add(callback);
+
+    return () => {
+      const callbacks = this.answerCallbacks.get(creatorId);
+      if (callbacks) {
+        callbacks.delete(callback);
+        if (callbacks.size === 0) {
+          this.answerCallbacks.delete(creatorId);
+        }
+      }
+    };
+  }
+
   /**
    * Get current chat state for a creator
    */
-  getChatState(creatorId: string): ChatState | null {
-    const aggregator = this.aggregators.get(creatorId);
-    if (!aggregator) return null;
-    return aggregator.getState();
+  async getChatState(creatorId: string): Promise<ChatState | null> {
+    const local = this.aggregators.get(creatorId);
+    if (local) return local.getState();
+
+    const raw = await this.redis.get(CHAT_STATE_KEY(creatorId));
+    return raw ? (JSON.parse(raw) as ChatState) : null;
   }
 
   /**
-   * Get recent messages for a creator
+   * Get recent messages for a creator, oldest first
    */
-  getMessages(creatorId: string, limit = 100): ChatMessage[] {
-    const aggregator = this.aggregators.get(creatorId);
-    if (!aggregator) return [];
-    return aggregator.getMessages(limit);
+  async getMessages(creatorId: string, limit = 100): Promise<ChatMessage[]> {
+    const raw = await this.redis.lrange(CHAT_HISTORY_KEY(creatorId), -Math.min(limit, MESSAGE_HISTORY_LIMIT), -1);
+    return raw.map(item => reviveMessage(JSON.parse(item) as ChatMessage));
   }
 
   /**
-   * Send a message to chat (if supported)
+   * A message from the creator's recent chat history
+   */
+  async findMessage(creatorId: string, platform: ChatPlatform, messageId: string): Promise<ChatMessage | null> {
+    const messages = await this.getMessages(creatorId, MESSAGE_HISTORY_LIMIT);
+    return messages.find(message => message.platform === platform && message.id === messageId) ?? null;
+  }
+
+  /**
+   * Send a message to chat (if supported). Forwarded to the owning instance
+   * when the chat runs elsewhere.
    */
   async sendMessage(creatorId: string, content: string, platforms?: ChatPlatform[]): Promise<void> {
+    await this.runOnOwner(creatorId, { action: 'send', content, platforms });
+  }
+
+  /**
+   * Delete a message, time out or ban a viewer, or set slow mode on one
+   * platform. Throws if the platform doesn't support the action.
+   */
+  async moderate(creatorId: string, command: ChatModerationCommand): Promise<void> {
+    await this.runOnOwner(creatorId, { action: 'moderate', command });
+  }
+
+  /**
+   * Whether a connected platform supports a moderation action
+   */
+  async canModerate(creatorId: string, platform: ChatPlatform, action: ChatModerationAction): Promise<boolean> {
+    const connections = await this.getConnectionStatuses(creatorId);
+    return connections.some(conn => conn.platform === platform && conn.connected && (conn.moderation?.includes(action) ?? false));
+  }
+
+  /**
+   * Messages automod is holding for a decision
+   */
+  async getModerationQueue(creatorId: string): Promise<ModerationQueueItem[]> {
+    return this.moderation.listQueue(creatorId);
+  }
+
+  /**
+   * Decide on a held message: show it in chat, or remove it from the
+   * platform (and time out or ban its author) and record a strike. Null if
+   * the message isn't queued.
+   */
+  async resolveQueued(
+    creatorId: string,
+    messageId: string,
+    decision: ModerationDecision,
+    moderatorId: string | null,
+  ): Promise<ModerationQueueItem | null> {
+    const item = await this.moderation.takeQueued(creatorId, messageId);
+    if (!item) return null;
+
+    const { message } = item;
+
+    try {
+      if (decision.decision === 'approve') {
+        await this.publishMessage(creatorId, message);
+      } else {
+        // Held messages never reached our feed, but they are still up on the platform
+        if (await this.canModerate(creatorId, message.platform, 'delete_message')) {
+          await this.moderate(creatorId, { action: 'delete_message', platform: message.platform, messageId: message.id });
+        }
+
+        if (decision.decision === 'timeout') {
+          const durationSeconds = decision.durationSeconds ?? (await this.moderation.getSettings(creatorId)).strikeTimeoutSeconds;
+          await this.moderate(creatorId, { action: 'timeout', platform: message.platform, userId: message.user.id, durationSeconds });
+        } else if (decision.decision === 'ban') {
+          await this.moderate(creatorId, { action: 'ban', platform: message.platform, userId: message.user.id });
+        }
+
+        const action: ChatStrikeAction = decision.decision === 'remove' ? 'deleted' : decision.decision;
+        await this.recordStrike(creatorId, message, item.reasons, action, moderatorId);
+      }
+    } catch (error) {
+      // Leave it for another try
+      await this.moderation.hold(creatorId, item);
+      throw error;
+    }
+
+    await this.publishModeration(creatorId, { type: 'resolved', messageId, decision: decision.decision });
+    return item;
+  }
+
+  /**
+   * Answers drafted for viewers' questions, waiting to be sent
+   */
+  async getAnswerSuggestions(creatorId: string): Promise<AnswerSuggestion[]> {
+    return this.answers.listSuggestions(creatorId);
+  }
+
+  /**
+   * Send a drafted answer to the platform the question came from. Null if
+   * the draft is gone (sent, dismissed or expired).
+   */
+  async sendAnswerSuggestion(creatorId: string, id: string): Promise<AnswerSuggestion | null> {
+    const suggestion = await this.answers.takeSuggestion(creatorId, id);
+    if (!suggestion) return null;
+
+    try {
+      await this.sendMessage(creatorId, suggestion.reply, [suggestion.message.platform]);
+    } catch (error) {
+      // Keep it for another click
+      await this.answers.saveSuggestion(creatorId, suggestion);
+      throw error;
+    }
+
+    await this.publishAnswer(creatorId, { type: 'resolved', id, sent: true });
+    return suggestion;
+  }
+
+  /**
+   * Drop a drafted answer without sending it
+   */
+  async dismissAnswerSuggestion(creatorId: string, id: string): Promise<AnswerSuggestion | null> {
+    const suggestion = await this.answers.takeSuggestion(creatorId, id);
+    if (!suggestion) return null;
+
+    await this.publishAnswer(creatorId, { type: 'resolved', id, sent: false });
+    return suggestion;
+  }
+
+  /**
+   * Draft an answer to a viewer's question. Sent straight away when the
+   * creator allows it and the rate limits do; otherwise kept for one click.
+   */
+  private async answerQuestion(creatorId: string, message: ChatMessage): Promise<void> {
+    try {
+      const suggestion = await this.answers.answer(creatorId, message);
+      if (!suggestion) return;
+
+      const settings = await this.answers.getSettings(creatorId);
+      if (await this.answers.claimAutoSend(creatorId, suggestion, settings)) {
+        try {
+          await this.sendMessage(creatorId, suggestion.reply, [message.platform]);
+          await this.publishAnswer(creatorId, { type: 'suggested', suggestion: { ...suggestion, autoSent: true } });
+          return;
+        } catch (error) {
+          console.warn(`💬 Could not auto-answer on ${message.platform}, keeping the draft:`, error instanceof Error ? error.message : error);
+        }
+      }
+
+      await this.answers.saveSuggestion(creatorId, suggestion);
+      await this.publishAnswer(creatorId, { type: 'suggested', suggestion });
+    } catch (error) {
+      console.error(`💬 Failed to answer question for creator ${creatorId}:`, error);
+    }
+  }
+
+  /**
+   * Pick up changed automod settings on whichever instance runs the chat
+   */
+  async reloadAutomod(creatorId: string): Promise<void> {
+    if (this.aggregators.has(creatorId)) {
+      await this.reloadLocalAutomod(creatorId);
+      return;
+    }
+
+    const command: ChatCommand = { action: 'reload_automod', creatorId };
+    await this.redis.publish(CHAT_COMMANDS_CHANNEL, JSON.stringify(command));
+  }
+
+  /**
+   * Pick up changed chat command settings on whichever instance runs the chat
+   */
+  async reloadChatCommands(creatorId: string): Promise<void> {
+    if (this.aggregators.has(creatorId)) {
+      await this.commands.load(creatorId);
+      return;
+    }
+
+    const command: ChatCommand = { action: 'reload_chat_commands', creatorId };
+    await this.redis.publish(CHAT_COMMANDS_CHANNEL, JSON.stringify(command));
+  }
+
+  /**
+   * Reply to a viewer's !buy, !price, !sizes or !link on the platform they
+   * typed it on, and log the use
+   */
+  private async runViewerCommand(creatorId: string, message: ChatMessage): Promise<void> {
+    try {
+      const response = await this.commands.respond(creatorId, message);
+      if (!response) return;
+
+      if (response.reply) {
+        try {
+          await this.sendMessage(creatorId, response.reply, [message.platform]);
+        } catch (error) {
+          console.warn(`💬 Could not answer !${response.command} on ${message.platform}:`, error instanceof Error ? error.message : error);
+          response.outcome = 'failed';
+        }
+      }
+
+      await this.commands.recordUse(creatorId, message, response);
+    } catch (error) {
+      console.error(`💬 Failed to run chat command for creator ${creatorId}:`, error);
+    }
+  }
+
+  private async reloadLocalAutomod(creatorId: string): Promise<void> {
+    const automod = this.automods.get(creatorId);
+    if (automod) {
+      automod.update(await this.moderation.getSettings(creatorId));
+    }
+  }
+
+  /**
+   * Remove messages with blocked terms straight away where the platform
+   * allows it; hold everything else automod flagged for a moderator
+   */
+  private async applyAutomod(creatorId: string, message: ChatMessage, reasons: AutomodReason[]): Promise<void> {
+    try {
+      if (reasons.includes('blocked_term') && (await this.canModerate(creatorId, message.platform, 'delete_message'))) {
+        try {
+          await this.moderate(creatorId, { action: 'delete_message', platform: message.platform, messageId: message.id });
+          await this.recordStrike(creatorId, message, reasons, 'deleted', null);
+          return;
+        } catch (error) {
+          console.warn(`💬 Automod could not delete ${message.platform} message ${message.id}, holding it:`, error instanceof Error ? error.message : error);
+        }
+      }
+
+      const item: ModerationQueueItem = {
+        message,
+        reasons,
+        strikes: await this.moderation.countStrikes(creatorId, message.platform, message.user.id),
+        heldAt: new Date(),
+      };
+      await this.moderation.hold(creatorId, item);
+      await this.publishModeration(creatorId, { type: 'held', item });
+    } catch (error) {
+      console.error(`💬 Automod failed for creator ${creatorId}:`, error);
+    }
+  }
+
+  /**
+   * Record a strike and time out authors who reached the strike limit
+   */
+  private async recordStrike(
+    creatorId: string,
+    message: ChatMessage,
+    reasons: AutomodReason[],
+    action: ChatStrikeAction,
+    moderatorId: string | null,
+  ): Promise<void> {
+    const strikes = await this.moderation.addStrike(creatorId, { message, reasons, action, moderatorId });
+    if (action !== 'deleted') return;
+
+    const settings = await this.moderation.getSettings(creatorId);
+    if (strikes < settings.strikeLimit || !(await this.canModerate(creatorId, message.platform, 'timeout'))) return;
+
+    try {
+      await this.moderate(creatorId, {
+        action: 'timeout',
+        platform: message.platform,
+        userId: message.user.id,
+        durationSeconds: settings.strikeTimeoutSeconds,
+        reason: `${strikes} chat strikes`,
+      });
+    } catch (error) {
+      console.error(`💬 Failed to time out ${message.platform} user ${message.user.id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Run work on the instance that owns the chat: here, or forwarded and
+   * awaited when the chat runs elsewhere
+   */
+  private async runOnOwner(creatorId: string, request: ChatOwnerRequest): Promise<void> {
     const aggregator = this.aggregators.get(creatorId);
-    if (!aggregator) {
+    if (aggregator) {
+      await runOwnerRequest(aggregator, request);
+      return;
+    }
+
+    if (!(await this.isActive(creatorId))) {
       throw new Error('Chat not active');
     }
-    await aggregator.sendMessage(content, platforms);
+
+    const requestId = randomUUID();
+    const command: ChatCommand = { ...request, creatorId, requestId, replyTo: this.instanceId };
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingCommands.delete(requestId);
+        reject(new Error('Chat owner did not respond'));
+      }, COMMAND_TIMEOUT_MS);
+
+      this.pendingCommands.set(requestId, { resolve, reject, timer });
+      this.redis.publish(CHAT_COMMANDS_CHANNEL, JSON.stringify(command)).catch((error: unknown) => {
+        clearTimeout(timer);
+        this.pendingCommands.delete(requestId);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      });
+    });
+  }
+
+  /**
+   * Post an announcement published by another process (e.g. a worker job).
+   * Every API instance receives it; only the one running the creator's chat sends it.
+   */
+  async handleAnnouncement(announcement: ChatAnnouncement): Promise<void> {
+    if (!this.aggregators.has(announcement.creatorId)) {
+      return;
+    }
+
+    try {
+      await this.sendMessage(announcement.creatorId, announcement.message, announcement.platforms);
+    } catch (error) {
+      console.error(`Failed to post announcement for creator ${announcement.creatorId}:`, error);
+    }
+  }
+
+  private async publishMessage(creatorId: string, message: ChatMessage): Promise<void> {
+    const raw = JSON.stringify(message);
+    const event: ChatFanoutEvent = { type: 'message', data: message };
+
+    try {
+      await this.redis
+        .multi()
+        .rpush(CHAT_HISTORY_KEY(creatorId), raw)
+        .ltrim(CHAT_HISTORY_KEY(creatorId), -MESSAGE_HISTORY_LIMIT, -1)
+        .expire(CHAT_HISTORY_KEY(creatorId), MESSAGE_HISTORY_TTL_SECONDS)
+        .publish(CHAT_EVENTS_CHANNEL(creatorId), JSON.stringify(event))
+        .exec();
+    } catch (error) {
+      console.error(`💬 Failed to publish chat message for creator ${creatorId}:`, error);
+    }
+  }
+
+  private async publishModeration(creatorId: string, event: ModerationEvent): Promise<void> {
+    const fanout: ChatFanoutEvent = { type: 'moderation', data: event };
+    await this.redis.publish(CHAT_EVENTS_CHANNEL(creatorId), JSON.stringify(fanout));
+  }
+
+  private async publishAnswer(creatorId: string, event: AnswerEvent): Promise<void> {
+    const fanout: ChatFanoutEvent = { type: 'answer', data: event };
+    await this.redis.publish(CHAT_EVENTS_CHANNEL(creatorId), JSON.stringify(fanout));
+  }
+
+  private async publishState(creatorId: string, state: ChatState): Promise<void> {
+    const event: ChatFanoutEvent = { type: 'state', data: state };
+
+    try {
+      await this.redis
+        .multi()
+        .set(CHAT_STATE_KEY(creatorId), JSON.stringify(state), 'PX', LEASE_TTL_MS)
+        .publish(CHAT_EVENTS_CHANNEL(creatorId), JSON.stringify(event))
+        .exec();
+    } catch (error) {
+      console.error(`💬 Failed to publish chat state for creator ${creatorId}:`, error);
+    }
+  }
+
+  /**
+   * Deliver a published message or state change to this instance's subscribers
+   */
+  private handleFanoutEvent(creatorId: string, raw: string): void {
+    let event: ChatFanoutEvent;
+    try {
+      event = JSON.parse(raw) as ChatFanoutEvent;
+    } catch {
+      return;
+    }
+
+    if (event.type === 'message') {
+      const message = reviveMessage(event.data);
+      this.messageCallbacks.get(creatorId)?.forEach((cb) => cb(message));
+    } else if (event.type === 'state') {
+      this.stateCallbacks.get(creatorId)?.forEach((cb) => cb(event.data));
+    } else if (event.type === 'answer') {
+      const answerEvent = event.data.type === 'suggested'
+        ? { ...event.data, suggestion: { ...event.data.suggestion, message: reviveMessage(event.data.suggestion.message), createdAt: new Date(event.data.suggestion.createdAt) } }
+        : event.data;
+      this.answerCallbacks.get(creatorId)?.forEach((cb) => cb(answerEvent));
+    } else {
+      const moderationEvent = event.data.type === 'held'
+        ? { ...event.data, item: { ...event.data.item, message: reviveMessage(event.data.item.message), heldAt: new Date(event.data.item.heldAt) } }
+        : event.data;
+      this.moderationCallbacks.get(creatorId)?.forEach((cb) => cb(moderationEvent));
+    }
+  }
+
+  private async handleCommand(command: ChatCommand): Promise<void> {
+    // Only the owner acts on commands
+    if (!this.aggregators.has(command.creatorId)) return;
+
+    if (command.action === 'stop') {
+      await this.stopLocal(command.creatorId);
+      return;
+    }
+
+    if (command.action === 'reload_automod') {
+      await this.reloadLocalAutomod(command.creatorId);
+      return;
+    }
+
+    if (command.action === 'reload_chat_commands') {
+      await this.commands.load(command.creatorId);
+      return;
+    }
+
+    const reply: ChatCommandReply = { requestId: command.requestId };
+    try {
+      await runOwnerRequest(this.aggregators.get(command.creatorId)!, command);
+    } catch (error) {
+      reply.error = error instanceof Error ? error.message : 'Chat request failed';
+    }
+    await this.redis.publish(CHAT_REPLIES_CHANNEL(command.replyTo), JSON.stringify(reply));
+  }
+
+  private handleCommandReply(reply: ChatCommandReply): void {
+    const pending = this.pendingCommands.get(reply.requestId);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pendingCommands.delete(reply.requestId);
+    if (reply.error) {
+      pending.reject(new Error(reply.error));
+    } else {
+      pending.resolve();
+    }
+  }
+
+  private async acquireLease(creatorId: string): Promise<boolean> {
+    const result = await this.redis.set(CHAT_OWNER_KEY(creatorId), this.instanceId, 'PX', LEASE_TTL_MS, 'NX');
+    return result === 'OK';
+  }
+
+  private async renewLease(creatorId: string): Promise<boolean> {
+    const renewed = await this.redis.eval(
+      RENEW_LEASE_SCRIPT, 1, CHAT_OWNER_KEY(creatorId), this.instanceId, String(LEASE_TTL_MS)
+    );
+    return renewed === 1;
+  }
+
+  private async releaseLease(creatorId: string): Promise<void> {
+    await this.redis.eval(RELEASE_LEASE_SCRIPT, 1, CHAT_OWNER_KEY(creatorId), this.instanceId);
+  }
+
+  /**
+   * Renew the leases of chats this instance runs, stop chats that were
+   * stopped elsewhere or whose lease was lost, and take over active chats
+   * that have no owner (their instance died). A pass is skipped while the
+   * previous one is still running.
+   */
+  private async maintainLeases(): Promise<void> {
+    if (this.maintainingLeases) return;
+    this.maintainingLeases = true;
+
+    try {
+      const active = new Set(await this.redis.smembers(CHAT_ACTIVE_KEY));
+
+      for (const [creatorId, aggregator] of this.aggregators) {
+        if (!active.has(creatorId)) {
+          await this.stopLocal(creatorId);
+          continue;
+        }
+
+        if (!(await this.renewLease(creatorId))) {
+          // Another instance took over (e.g. we stalled past the TTL)
+          console.warn(`💬 Lost chat lease for creator ${creatorId}, stopping local aggregator`);
+          await this.stopLocal(creatorId, { releaseLease: false });
+          continue;
+        }
+
+        await this.publishState(creatorId, aggregator.getState());
+      }
+
+      for (const creatorId of active) {
+        if (this.aggregators.has(creatorId) || this.takeovers.has(creatorId)) continue;
+        if (!(await this.acquireLease(creatorId))) continue;
+
+        // Started in the background so a slow platform doesn't hold up
+        // renewing the leases of chats already running here
+        void this.takeOver(creatorId);
+      }
+    } catch (error) {
+      console.error('💬 Chat lease maintenance failed:', error);
+    } finally {
+      this.maintainingLeases = false;
+    }
+  }
+
+  /**
+   * Start a chat whose owner went away. The chat stays active if it fails
+   * to start, so this or another instance tries again on a later pass.
+   */
+  private async takeOver(creatorId: string): Promise<void> {
+    this.takeovers.add(creatorId);
+    console.log(`💬 Taking over chat for creator ${creatorId}`);
+
+    try {
+      await this.startLocal(creatorId);
+    } catch (error) {
+      console.error(`💬 Failed to take over chat for creator ${creatorId}:`, error instanceof Error ? error.message : error);
+      // Let another instance try without waiting for the lease to expire
+      await this.releaseLease(creatorId).catch((releaseError: unknown) => {
+        console.error(`💬 Failed to release chat lease for creator ${creatorId}:`, releaseError);
+      });
+    } finally {
+      this.takeovers.delete(creatorId);
+    }
   }
 
   /**
@@ -375,38 +1148,74 @@ export class ChatService {
   }
 
   /**
-   * Check if chat is active for a creator
+   * Check if chat is running for a creator on any instance
    */
-  isActive(creatorId: string): boolean {
-    return this.aggregators.has(creatorId);
+  async isActive(creatorId: string): Promise<boolean> {
+    if (this.aggregators.has(creatorId)) return true;
+    return (await this.redis.exists(CHAT_OWNER_KEY(creatorId))) === 1;
   }
 
   /**
    * Get connection status for all platforms
    */
-  getConnectionStatuses(creatorId: string): ChatConnectionStatus[] {
-    const aggregator = this.aggregators.get(creatorId);
-    if (!aggregator) return [];
-    return aggregator.getState().connections;
+  async getConnectionStatuses(creatorId: string): Promise<ChatConnectionStatus[]> {
+    const state = await this.getChatState(creatorId);
+    return state?.connections ?? [];
   }
 
   /**
-   * Stop all chat aggregators (for graceful shutdown)
+   * Stop all chat aggregators on this instance
    */
   async stopAll(): Promise<void> {
     const stopPromises = Array.from(this.aggregators.keys()).map((id) =>
       this.stopChat(id)
     );
     await Promise.allSettled(stopPromises);
+    await this.transcripts.close();
+    await this.viewers.close();
+  }
+
+  /**
+   * Hand chats over for graceful shutdown: disconnect and release leases but
+   * leave the chats active, so another instance picks them up
+   */
+  async shutdown(): Promise<void> {
+    if (this.leaseTimer) {
+      clearInterval(this.leaseTimer);
+      this.leaseTimer = null;
+    }
+
+    await Promise.allSettled(
+      Array.from(this.aggregators.keys()).map((id) => this.stopLocal(id))
+    );
+    await this.transcripts.close();
+    await this.viewers.close();
+
+    for (const [requestId, pending] of this.pendingCommands) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error('Chat service shutting down'));
+      this.pendingCommands.delete(requestId);
+    }
+
+    await this.subscriber?.quit();
+    this.subscriber = null;
+  }
+}
+
+async function runOwnerRequest(aggregator: ChatAggregator, request: ChatOwnerRequest): Promise<void> {
+  if (request.action === 'send') {
+    await aggregator.sendMessage(request.content, request.platforms);
+  } else {
+    await aggregator.moderate(request.command);
   }
 }
 
 // Singleton instance
 let chatServiceInstance: ChatService | null = null;
 
-export function createChatService(db: Database, encryptionKey: string, oauthConfig?: OAuthConfig): ChatService {
+export function createChatService(db: Database, redis: Redis, encryptionKey: string, oauthConfig?: OAuthConfig): ChatService {
   if (!chatServiceInstance) {
-    chatServiceInstance = new ChatService(db, encryptionKey, oauthConfig);
+    chatServiceInstance = new ChatService(db, redis, encryptionKey, oauthConfig);
   }
   return chatServiceInstance;
 }
@@ -1,4 +1,4 @@
-import { eq, and, gt, sql } from 'drizzle-orm';
+import { eq, and, gt, lte, inArray, sql } from 'drizzle-orm';
 import type { Database } from '@unifyed/db';
 import {
   shortLinks,
@@ -9,17 +9,39 @@ import {
   checkoutSessions,
   reservations,
   platformConnections,
+  carts,
+  cartItems,
+  flashSales,
+  viewers,
+  linkRejections,
+  type LinkRejectionReason,
 } from '@unifyed/db/schema';
-import { AppError, ErrorCodes, generateIdempotencyKey, decrypt } from '@unifyed/utils';
+import { AppError, ErrorCodes, generateIdempotencyKey, decrypt, integrationError, type ErrorCode } from '@unifyed/utils';
+import type { CommerceBackendRegistry } from '@unifyed/commerce';
+import { allocateBundlePrice, offerUnitPrice } from './pricing.js';
+import { AttributionService } from './attribution.service.js';
+import { ExperimentService, applyVariant } from './experiment.service.js';
 
 const CHECKOUT_SESSION_TTL_MINUTES = 30;
 const RESERVATION_TTL_MINUTES = 15;
+const CART_TTL_MINUTES = 120;
+
+// Errors that turn a visitor away from a link, recorded for the funnel
+const LINK_REJECTION_REASONS: Partial<Record<ErrorCode, LinkRejectionReason>> = {
+  [ErrorCodes.LINK_REVOKED]: 'link_revoked',
+  [ErrorCodes.LINK_EXPIRED]: 'link_expired',
+  [ErrorCodes.OFFER_NOT_ACTIVE]: 'offer_inactive',
+  [ErrorCodes.OFFER_EXPIRED]: 'offer_expired',
+  [ErrorCodes.INSUFFICIENT_INVENTORY]: 'insufficient_inventory',
+  [ErrorCodes.NOT_FOUND]: 'unavailable',
+};
 
 export interface CheckoutStartInput {
   code: string;
   variantId?: string;
   quantity: number;
   visitorId?: string;
+  viewerHandle?: string; // ?v= on links dropped in chat
   userAgent?: string;
   ipAddress?: string;
 }
@@ -30,11 +52,84 @@ export interface CheckoutResult {
   isExisting: boolean;
 }
 
+export interface CartItemInput {
+  code: string;
+  variantId?: string;
+  quantity: number;
+}
+
+export interface CreateCartInput extends CartItemInput {
+  visitorId?: string;
+}
+
+export interface CartCheckoutInput {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface PricedCartLine {
+  id: string;
+  shortLinkId: string;
+  offerId: string;
+  variantId: string;
+  productTitle: string;
+  variantTitle: string;
+  imageUrl: string | null;
+  quantity: number;
+  price: number;
+  offerPrice: number;
+  subtotal: number;
+  discount: number;
+  total: number;
+}
+
+export interface PricedCart {
+  cart: typeof carts.$inferSelect;
+  items: PricedCartLine[];
+  itemCount: number;
+  subtotal: number;
+  discount: number;
+  total: number;
+  currency: string;
+}
+
+/**
+ * A single priced line going into a checkout session
+ */
+interface CheckoutLine {
+  shortLinkId: string;
+  offerId: string;
+  variant: typeof variants.$inferSelect;
+  quantity: number;
+  prices: ReturnType<CheckoutService['calculatePrices']>;
+  flashSaleId: string | null;
+}
+
+/**
+ * A line waiting to be priced. Bundle lines added from the same short link
+ * with the same bundle key are priced together so they share the bundle price.
+ */
+interface PricingRow {
+  shortLinkId: string;
+  bundleKey: string;
+  offer: typeof offers.$inferSelect;
+  variant: typeof variants.$inferSelect;
+  quantity: number;
+  overrideValue: number | null;
+}
+
 export class CheckoutService {
+  private attribution: AttributionService;
+  private experiments: ExperimentService;
+
   constructor(
     private db: Database,
-    private credentialsEncryptionKey: string
-  ) {}
+    private credentialsEncryptionKey: string,
+    private commerceBackends: CommerceBackendRegistry
+  ) {
+    this.attribution = new AttributionService(db);
+    this.experiments = new ExperimentService(db);
+  }
 
   /**
    * Start a checkout session from a short link
@@ -53,36 +148,56 @@ export class CheckoutService {
       throw new AppError(ErrorCodes.NOT_FOUND, 'Link not found');
     }
 
-    // Validate link
-    this.validateLink(link);
+    const { offer, components } = await this.recordRejection(link, input.visitorId, async () => {
+      // Validate link
+      this.validateLink(link);
 
-    // Get and validate offer
-    const offer = await this.getAndValidateOffer(link.offerId);
+      // Get and validate offer
+      const offer = await this.getAndValidateOffer(link.offerId);
 
-    // Get offer products and variants
-    const offerProductsList = await this.getOfferProducts(offer.id);
+      // Get offer products and variants
+      const offerProductsList = await this.getOfferProducts(offer.id);
 
-    if (offerProductsList.length === 0) {
-      throw new AppError(ErrorCodes.NOT_FOUND, 'No products in offer');
-    }
+      if (offerProductsList.length === 0) {
+        throw new AppError(ErrorCodes.NOT_FOUND, 'No products in offer');
+      }
 
-    // Select variant
-    const selectedVariant = this.selectVariant(offerProductsList, input.variantId);
+      // Select variant (every component for a bundle)
+      const components = this.selectComponents(offer, offerProductsList, input.variantId);
 
-    // Check inventory
-    if (selectedVariant.variant.inventoryQuantity < quantity) {
-      throw new AppError(ErrorCodes.INSUFFICIENT_INVENTORY, 'Not enough inventory');
-    }
+      // Check inventory
+      for (const component of components) {
+        if (component.variant.inventoryQuantity < quantity) {
+          throw new AppError(ErrorCodes.INSUFFICIENT_INVENTORY, 'Not enough inventory');
+        }
+      }
+
+      return { offer, components };
+    });
+    const firstComponent = components[0]!;
 
     // Get connection
-    const connection = await this.getConnection(selectedVariant.product.connectionId);
+    const connection = await this.getConnection(firstComponent.product.connectionId);
+
+    const visitorId = input.visitorId ?? generateIdempotencyKey();
+
+    // Offers under test are priced at the visitor's variant
+    const assignment = await this.experiments.assign(offer.id, visitorId);
 
     // Calculate prices
-    const prices = this.calculatePrices(selectedVariant.variant.price, offer, quantity);
+    const lines = await this.priceLines(components.map(component => ({
+      shortLinkId: link.id,
+      bundleKey: this.bundleKey(offer, components),
+      offer: assignment ? applyVariant(offer, assignment.variant) : offer,
+      variant: component.variant,
+      quantity,
+      overrideValue: component.overrideValue,
+    })));
 
     // Generate idempotency key
-    const visitorId = input.visitorId ?? generateIdempotencyKey();
-    const idempotencyKey = `${visitorId}:${link.code}:${selectedVariant.variant.id}`;
+    const idempotencyKey = offer.type === 'bundle'
+      ? `${visitorId}:${link.code}:bundle:${input.variantId ?? 'default'}`
+      : `${visitorId}:${link.code}:${firstComponent.variant.id}`;
 
     // Check for existing checkout session
     const existingSession = await this.findExistingSession(idempotencyKey);
@@ -94,6 +209,10 @@ export class CheckoutService {
       };
     }
 
+    const viewerId = input.viewerHandle
+      ? await this.findViewerId(offer.creatorId, input.viewerHandle)
+      : null;
+
     // Create checkout session and reservation
     const checkoutSession = await this.createCheckoutSession({
       creatorId: offer.creatorId,
@@ -102,12 +221,13 @@ export class CheckoutService {
       attributionContextId: link.attributionContextId,
       offerId: offer.id,
       connectionId: connection.id,
-      variant: selectedVariant.variant,
-      quantity,
-      prices,
+      lines,
       visitorId,
+      viewerId,
       userAgent,
       ipAddress,
+      experimentId: assignment?.experimentId,
+      experimentVariantId: assignment?.variant.id,
     });
 
     // Update link click count
@@ -119,18 +239,22 @@ export class CheckoutService {
       })
       .where(eq(shortLinks.id, link.id));
 
+    // Record the click as one of the visitor's touchpoints
+    await this.attribution.recordLinkClick({
+      creatorId: offer.creatorId,
+      visitorId,
+      shortLinkId: link.id,
+      attributionContextId: link.attributionContextId,
+    });
+
     // Build checkout URL
-    const checkoutUrl = await this.buildCheckoutUrl(
-      connection,
-      selectedVariant.variant.externalId,
-      quantity,
-      checkoutSession.id
-    );
+    const { url: checkoutUrl, externalCheckoutId } = await this.buildCheckout(connection, lines, checkoutSession.id);
 
     // Update session with checkout URL
     await this.db
       .update(checkoutSessions)
       .set({
+        externalCheckoutId: externalCheckoutId ?? null,
         externalCheckoutUrl: checkoutUrl,
         status: 'redirected',
         redirectedAt: new Date(),
@@ -144,6 +268,507 @@ export class CheckoutService {
     };
   }
 
+  /**
+   * Create a cart for a visitor, seeded with the item behind a short link
+   */
+  async createCart(input: CreateCartInput): Promise<PricedCart> {
+    const line = await this.resolveCartLine(input);
+    const connection = await this.getConnection(line.components[0]!.product.connectionId);
+
+    const expiresAt = new Date();
+    expiresAt.setMinutes(expiresAt.getMinutes() + CART_TTL_MINUTES);
+
+    const [cart] = await this.db
+      .insert(carts)
+      .values({
+        creatorId: line.offer.creatorId,
+        connectionId: connection.id,
+        visitorId: input.visitorId ?? generateIdempotencyKey(),
+        currency: line.components[0]!.variant.currency,
+        expiresAt,
+      })
+      .returning();
+
+    if (!cart) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to create cart');
+    }
+
+    await this.db.insert(cartItems).values(
+      line.components.map(component => ({
+        cartId: cart.id,
+        shortLinkId: line.link.id,
+        offerId: line.offer.id,
+        variantId: component.variant.id,
+        bundleKey: line.bundleKey,
+        quantity: input.quantity,
+      }))
+    );
+
+    return this.priceCart(cart.id);
+  }
+
+  /**
+   * Add an item to an open cart. Adding the same link + variant again
+   * increases the quantity of the existing line. A bundle link adds one
+   * line per bundle component; the same bundle with other variants is added
+   * as another bundle.
+   */
+  async addCartItem(cartId: string, input: CartItemInput): Promise<PricedCart> {
+    const cart = await this.getOpenCart(cartId);
+    const line = await this.resolveCartLine(input);
+
+    if (line.offer.creatorId !== cart.creatorId) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Items in a cart must come from the same creator');
+    }
+
+    for (const component of line.components) {
+      if (component.product.connectionId !== cart.connectionId || component.variant.currency !== cart.currency) {
+        throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Items in a cart must check out from the same store');
+      }
+
+      const [existing] = await this.db
+        .select({ quantity: cartItems.quantity })
+        .from(cartItems)
+        .where(
+          and(
+            eq(cartItems.cartId, cart.id),
+            eq(cartItems.shortLinkId, line.link.id),
+            eq(cartItems.variantId, component.variant.id),
+            eq(cartItems.bundleKey, line.bundleKey)
+          )
+        )
+        .limit(1);
+
+      if (component.variant.inventoryQuantity < (existing?.quantity ?? 0) + input.quantity) {
+        throw new AppError(ErrorCodes.INSUFFICIENT_INVENTORY, 'Not enough inventory');
+      }
+    }
+
+    for (const component of line.components) {
+      await this.db
+        .insert(cartItems)
+        .values({
+          cartId: cart.id,
+          shortLinkId: line.link.id,
+          offerId: line.offer.id,
+          variantId: component.variant.id,
+          bundleKey: line.bundleKey,
+          quantity: input.quantity,
+        })
+        .onConflictDoUpdate({
+          target: [cartItems.cartId, cartItems.shortLinkId, cartItems.variantId, cartItems.bundleKey],
+          set: {
+            quantity: sql`${cartItems.quantity} + ${input.quantity}`,
+            updatedAt: new Date(),
+          },
+        });
+    }
+
+    await this.touchCart(cart.id);
+
+    return this.priceCart(cart.id);
+  }
+
+  /**
+   * Remove a line from an open cart. Removing any component of a bundle
+   * removes the whole bundle.
+   */
+  async removeCartItem(cartId: string, itemId: string): Promise<PricedCart> {
+    const cart = await this.getOpenCart(cartId);
+
+    const [line] = await this.db
+      .select({ item: cartItems, offerType: offers.type })
+      .from(cartItems)
+      .innerJoin(offers, eq(offers.id, cartItems.offerId))
+      .where(and(eq(cartItems.id, itemId), eq(cartItems.cartId, cart.id)))
+      .limit(1);
+
+    if (!line) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Cart item not found');
+    }
+
+    await this.db
+      .delete(cartItems)
+      .where(
+        line.offerType === 'bundle'
+          ? and(
+              eq(cartItems.cartId, cart.id),
+              eq(cartItems.shortLinkId, line.item.shortLinkId),
+              eq(cartItems.offerId, line.item.offerId),
+              eq(cartItems.bundleKey, line.item.bundleKey)
+            )
+          : eq(cartItems.id, line.item.id)
+      );
+
+    await this.touchCart(cart.id);
+
+    return this.priceCart(cart.id);
+  }
+
+  /**
+   * Price every line of a cart with the offer it was added from
+   */
+  async priceCart(cartId: string): Promise<PricedCart> {
+    const [cart] = await this.db
+      .select()
+      .from(carts)
+      .where(eq(carts.id, cartId))
+      .limit(1);
+
+    if (!cart) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Cart not found');
+    }
+
+    const rows = await this.getCartRows(cart.id, cart.visitorId);
+    const lines = await this.priceLines(rows.map(this.toPricingRow));
+
+    const items: PricedCartLine[] = rows.map(({ item, product, variant }, index) => {
+      const { prices } = lines[index]!;
+      return {
+        id: item.id,
+        shortLinkId: item.shortLinkId,
+        offerId: item.offerId,
+        variantId: item.variantId,
+        productTitle: product.title,
+        variantTitle: variant.title,
+        imageUrl: variant.imageUrl ?? product.imageUrl,
+        quantity: item.quantity,
+        price: prices.originalPrice,
+        offerPrice: prices.discountedPrice,
+        subtotal: prices.subtotal,
+        discount: prices.discount,
+        total: prices.total,
+      };
+    });
+
+    return {
+      cart,
+      items,
+      itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+      subtotal: items.reduce((sum, item) => sum + item.subtotal, 0),
+      discount: items.reduce((sum, item) => sum + item.discount, 0),
+      total: items.reduce((sum, item) => sum + item.total, 0),
+      currency: cart.currency,
+    };
+  }
+
+  /**
+   * Convert a cart into a single checkout session, reserving every line.
+   * If the store can't build the checkout, the cart is left open.
+   */
+  async checkoutCart(cartId: string, input: CartCheckoutInput = {}): Promise<CheckoutResult> {
+    const [cart] = await this.db
+      .select()
+      .from(carts)
+      .where(eq(carts.id, cartId))
+      .limit(1);
+
+    if (!cart) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Cart not found');
+    }
+
+    // Converting twice returns the session created the first time
+    const idempotencyKey = `cart:${cart.id}`;
+    if (cart.status === 'converted') {
+      const existingSession = await this.findExistingSession(idempotencyKey);
+      if (!existingSession?.externalCheckoutUrl) {
+        throw new AppError(ErrorCodes.CHECKOUT_EXPIRED, 'Cart checkout has expired');
+      }
+      return {
+        checkoutSession: existingSession,
+        checkoutUrl: existingSession.externalCheckoutUrl,
+        isExisting: true,
+      };
+    }
+
+    this.assertCartOpen(cart);
+
+    const rows = await this.getCartRows(cart.id, cart.visitorId);
+    const firstRow = rows[0];
+    if (!firstRow) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Cart is empty');
+    }
+
+    // Re-validate every link and offer at checkout time
+    const linkIds = [...new Set(rows.map(row => row.item.shortLinkId))];
+    const links = await this.db
+      .select()
+      .from(shortLinks)
+      .where(inArray(shortLinks.id, linkIds));
+
+    for (const link of links) {
+      this.validateLink(link);
+    }
+
+    for (const offerId of new Set(rows.map(row => row.item.offerId))) {
+      await this.getAndValidateOffer(offerId);
+    }
+
+    // Check inventory per variant (the same variant can appear on several lines)
+    const requestedByVariant = new Map<string, number>();
+    for (const { item } of rows) {
+      requestedByVariant.set(item.variantId, (requestedByVariant.get(item.variantId) ?? 0) + item.quantity);
+    }
+
+    for (const { variant } of rows) {
+      if (variant.inventoryQuantity < (requestedByVariant.get(variant.id) ?? 0)) {
+        throw new AppError(ErrorCodes.INSUFFICIENT_INVENTORY, 'Not enough inventory', {
+          variantId: variant.id,
+        });
+      }
+    }
+
+    const connection = await this.getConnection(cart.connectionId);
+
+    const lines = await this.priceLines(rows.map(this.toPricingRow));
+
+    // The first line is the entry point: it owns the session-level attribution
+    const entryLink = links.find(link => link.id === firstRow.item.shortLinkId);
+    if (!entryLink) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Link not found');
+    }
+
+    // A session records one experiment: the first line's offer under test
+    const assignment = rows.find(row => row.assignment)?.assignment;
+
+    const checkoutSession = await this.createCheckoutSession({
+      creatorId: cart.creatorId,
+      idempotencyKey,
+      shortLinkId: entryLink.id,
+      attributionContextId: entryLink.attributionContextId,
+      offerId: firstRow.item.offerId,
+      connectionId: connection.id,
+      lines,
+      visitorId: cart.visitorId,
+      userAgent: input.userAgent,
+      ipAddress: input.ipAddress,
+      cartId: cart.id,
+      experimentId: assignment?.experimentId,
+      experimentVariantId: assignment?.variant.id,
+    });
+
+    let checkout: Awaited<ReturnType<CheckoutService['buildCheckout']>>;
+    try {
+      checkout = await this.buildCheckout(connection, lines, checkoutSession.id);
+    } catch (err) {
+      // The buyer never left for the store, so let them try again
+      await this.reopenCart(cart.id, checkoutSession.id);
+      throw err;
+    }
+
+    await this.db
+      .update(checkoutSessions)
+      .set({
+        externalCheckoutId: checkout.externalCheckoutId ?? null,
+        externalCheckoutUrl: checkout.url,
+        status: 'redirected',
+        redirectedAt: new Date(),
+      })
+      .where(eq(checkoutSessions.id, checkoutSession.id));
+
+    // Update click counts for every link in the cart
+    await this.db
+      .update(shortLinks)
+      .set({
+        clickCount: sql`${shortLinks.clickCount} + 1`,
+        lastClickedAt: new Date(),
+      })
+      .where(inArray(shortLinks.id, linkIds));
+
+    await this.attribution.recordLinkClick({
+      creatorId: cart.creatorId,
+      visitorId: cart.visitorId,
+      shortLinkId: entryLink.id,
+      attributionContextId: entryLink.attributionContextId,
+    });
+
+    return {
+      checkoutSession,
+      checkoutUrl: checkout.url,
+      isExisting: false,
+    };
+  }
+
+  /**
+   * Undo a cart conversion whose store checkout couldn't be built: drop the
+   * session and release its reservations, and open the cart again so the
+   * next checkout starts over
+   */
+  private async reopenCart(cartId: string, checkoutSessionId: string) {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .update(carts)
+        .set({ status: 'open', convertedAt: null, checkoutSessionId: null, updatedAt: new Date() })
+        .where(eq(carts.id, cartId));
+
+      await tx
+        .delete(reservations)
+        .where(eq(reservations.checkoutSessionId, checkoutSessionId));
+
+      await tx
+        .delete(checkoutSessions)
+        .where(eq(checkoutSessions.id, checkoutSessionId));
+    });
+  }
+
+  private async resolveCartLine(input: CartItemInput) {
+    const [link] = await this.db
+      .select()
+      .from(shortLinks)
+      .where(eq(shortLinks.code, input.code))
+      .limit(1);
+
+    if (!link) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Link not found');
+    }
+
+    this.validateLink(link);
+
+    const offer = await this.getAndValidateOffer(link.offerId);
+    const offerProductsList = await this.getOfferProducts(offer.id);
+
+    if (offerProductsList.length === 0) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'No products in offer');
+    }
+
+    const components = this.selectComponents(offer, offerProductsList, input.variantId);
+
+    for (const component of components) {
+      if (component.variant.inventoryQuantity < input.quantity) {
+        throw new AppError(ErrorCodes.INSUFFICIENT_INVENTORY, 'Not enough inventory');
+      }
+    }
+
+    return { link, offer, components, bundleKey: this.bundleKey(offer, components) };
+  }
+
+  private async getOpenCart(cartId: string) {
+    const [cart] = await this.db
+      .select()
+      .from(carts)
+      .where(eq(carts.id, cartId))
+      .limit(1);
+
+    if (!cart) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Cart not found');
+    }
+
+    this.assertCartOpen(cart);
+
+    return cart;
+  }
+
+  private assertCartOpen(cart: typeof carts.$inferSelect) {
+    if (cart.status !== 'open') {
+      throw new AppError(ErrorCodes.CONFLICT, `Cart is ${cart.status}`);
+    }
+
+    if (cart.expiresAt < new Date()) {
+      throw new AppError(ErrorCodes.CHECKOUT_EXPIRED, 'Cart has expired');
+    }
+  }
+
+  private async touchCart(cartId: string) {
+    const expiresAt = new Date();
+    expiresAt.setMinutes(expiresAt.getMinutes() + CART_TTL_MINUTES);
+
+    await this.db
+      .update(carts)
+      .set({ expiresAt, updatedAt: new Date() })
+      .where(eq(carts.id, cartId));
+  }
+
+  /**
+   * A cart's lines with their offer, product and variant. Offers under test
+   * carry the terms of the cart visitor's variant, as on the link itself.
+   */
+  private async getCartRows(cartId: string, visitorId: string) {
+    const itemRows = await this.db
+      .select({
+        item: cartItems,
+        offer: offers,
+        product: products,
+        variant: variants,
+      })
+      .from(cartItems)
+      .innerJoin(offers, eq(offers.id, cartItems.offerId))
+      .innerJoin(variants, eq(variants.id, cartItems.variantId))
+      .innerJoin(products, eq(products.id, variants.productId))
+      .where(eq(cartItems.cartId, cartId))
+      .orderBy(cartItems.createdAt);
+
+    const assignments = new Map<string, Awaited<ReturnType<ExperimentService['assign']>>>();
+    for (const offerId of new Set(itemRows.map(row => row.offer.id))) {
+      assignments.set(offerId, await this.experiments.assign(offerId, visitorId));
+    }
+
+    const rows = itemRows.map(row => {
+      const assignment = assignments.get(row.offer.id) ?? null;
+      return {
+        ...row,
+        offer: assignment ? applyVariant(row.offer, assignment.variant) : row.offer,
+        assignment,
+      };
+    });
+
+    // Bundle lines need each component's share of the bundle price
+    const bundleOfferIds = [...new Set(
+      rows.filter(row => row.offer.type === 'bundle').map(row => row.offer.id)
+    )];
+    const overrides = new Map<string, number | null>();
+
+    if (bundleOfferIds.length > 0) {
+      const bundleProducts = await this.db
+        .select()
+        .from(offerProducts)
+        .where(inArray(offerProducts.offerId, bundleOfferIds));
+
+      for (const offerProduct of bundleProducts) {
+        overrides.set(`${offerProduct.offerId}:${offerProduct.productId}`, offerProduct.overrideValue);
+      }
+    }
+
+    return rows.map(row => ({
+      ...row,
+      overrideValue: overrides.get(`${row.offer.id}:${row.product.id}`) ?? null,
+    }));
+  }
+
+  private toPricingRow(row: Awaited<ReturnType<CheckoutService['getCartRows']>>[number]): PricingRow {
+    return {
+      shortLinkId: row.item.shortLinkId,
+      bundleKey: row.item.bundleKey,
+      offer: row.offer,
+      variant: row.variant,
+      quantity: row.item.quantity,
+      overrideValue: row.overrideValue,
+    };
+  }
+
+  /**
+   * Run a link's checks, recording why the visitor was turned away if one fails
+   */
+  private async recordRejection<T>(
+    link: typeof shortLinks.$inferSelect,
+    visitorId: string | undefined,
+    check: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await check();
+    } catch (err) {
+      const reason = err instanceof AppError ? LINK_REJECTION_REASONS[err.code] : undefined;
+      if (reason) {
+        await this.db.insert(linkRejections).values({
+          creatorId: link.creatorId,
+          shortLinkId: link.id,
+          reason,
+          visitorId: visitorId ?? null,
+        });
+      }
+      throw err;
+    }
+  }
+
   private validateLink(link: typeof shortLinks.$inferSelect) {
     if (link.isRevoked) {
       throw new AppError(ErrorCodes.LINK_REVOKED, 'Link has been revoked');
@@ -221,6 +846,72 @@ export class CheckoutService {
     return selectedVariant;
   }
 
+  /**
+   * Pick the variants a link checks out. Regular offers check out a single
+   * variant; bundles check out one variant of every product in the offer.
+   */
+  private selectComponents(
+    offer: typeof offers.$inferSelect,
+    offerProductsList: Array<{
+      offerProduct: typeof offerProducts.$inferSelect;
+      product: typeof products.$inferSelect;
+      variant: typeof variants.$inferSelect;
+    }>,
+    requestedVariantId?: string
+  ) {
+    if (offer.type !== 'bundle') {
+      const selected = this.selectVariant(offerProductsList, requestedVariantId);
+      return [{
+        product: selected.product,
+        variant: selected.variant,
+        overrideValue: selected.offerProduct.overrideValue,
+      }];
+    }
+
+    const components: Array<{
+      product: typeof products.$inferSelect;
+      variant: typeof variants.$inferSelect;
+      overrideValue: number | null;
+    }> = [];
+
+    const seen = new Set<string>();
+    for (const { offerProduct } of offerProductsList) {
+      if (seen.has(offerProduct.id)) continue;
+      seen.add(offerProduct.id);
+
+      const candidates = offerProductsList.filter(op => op.offerProduct.id === offerProduct.id);
+      const selected =
+        candidates.find(op => op.variant.id === offerProduct.variantId) ??
+        candidates.find(op => op.variant.id === requestedVariantId) ??
+        candidates.find(op => op.variant.isActive) ??
+        candidates[0];
+
+      if (!selected) {
+        throw new AppError(ErrorCodes.NOT_FOUND, 'No variant available');
+      }
+
+      components.push({
+        product: selected.product,
+        variant: selected.variant,
+        overrideValue: offerProduct.overrideValue,
+      });
+    }
+
+    return components;
+  }
+
+  /**
+   * Which bundle a link's components make up, keyed by their variants.
+   * Empty for regular offers.
+   */
+  private bundleKey(
+    offer: typeof offers.$inferSelect,
+    components: Array<{ variant: typeof variants.$inferSelect }>
+  ) {
+    if (offer.type !== 'bundle') return '';
+    return components.map(component => component.variant.id).sort().join(',');
+  }
+
   private async getConnection(connectionId: string) {
     const [connection] = await this.db
       .select()
@@ -228,31 +919,91 @@ export class CheckoutService {
       .where(eq(platformConnections.id, connectionId))
       .limit(1);
 
-    if (!connection || connection.platform !== 'shopify') {
-      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Shopify connection not found');
+    // Only connections with a commerce backend can be sold through
+    if (!connection || !this.commerceBackends.has(connection.platform)) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Commerce connection not found');
     }
 
     return connection;
   }
 
+  /**
+   * Price lines, allocating the bundle price across the components of each
+   * bundle and applying any flash sale running on the offer. Output keeps
+   * the input order.
+   */
+  private async priceLines(rows: PricingRow[]): Promise<CheckoutLine[]> {
+    const flashSalesByOffer = await this.getActiveFlashSales(
+      [...new Set(rows.map(row => row.offer.id))]
+    );
+
+    const bundleGroups = new Map<string, PricingRow[]>();
+    for (const row of rows) {
+      if (row.offer.type !== 'bundle') continue;
+      const key = `${row.shortLinkId}:${row.offer.id}:${row.bundleKey}`;
+      bundleGroups.set(key, [...(bundleGroups.get(key) ?? []), row]);
+    }
+
+    const bundleShares = new Map<PricingRow, number>();
+    for (const group of bundleGroups.values()) {
+      const shares = allocateBundlePrice(
+        group.map(row => ({ price: row.variant.price, overrideValue: row.overrideValue })),
+        group[0]!.offer.value
+      );
+      group.forEach((row, index) => bundleShares.set(row, shares[index]!));
+    }
+
+    return rows.map(row => {
+      const flashSale = flashSalesByOffer.get(row.offer.id);
+      return {
+        shortLinkId: row.shortLinkId,
+        offerId: row.offer.id,
+        variant: row.variant,
+        quantity: row.quantity,
+        prices: this.calculatePrices(row.variant.price, row.offer, row.quantity, bundleShares.get(row), flashSale),
+        flashSaleId: flashSale?.id ?? null,
+      };
+    });
+  }
+
+  /**
+   * Flash sales running right now, keyed by offer (best discount wins)
+   */
+  private async getActiveFlashSales(offerIds: string[]) {
+    const byOffer = new Map<string, typeof flashSales.$inferSelect>();
+    if (offerIds.length === 0) return byOffer;
+
+    const now = new Date();
+    const sales = await this.db
+      .select()
+      .from(flashSales)
+      .where(
+        and(
+          inArray(flashSales.offerId, offerIds),
+          eq(flashSales.status, 'active'),
+          lte(flashSales.startsAt, now),
+          gt(flashSales.endsAt, now)
+        )
+      );
+
+    for (const sale of sales) {
+      const current = byOffer.get(sale.offerId);
+      if (!current || sale.flashDiscount > current.flashDiscount) {
+        byOffer.set(sale.offerId, sale);
+      }
+    }
+
+    return byOffer;
+  }
+
   private calculatePrices(
     originalPrice: number,
     offer: typeof offers.$inferSelect,
-    quantity: number
+    quantity: number,
+    bundleShare?: number,
+    flashSale?: typeof flashSales.$inferSelect
   ) {
-    let discountedPrice = originalPrice;
-
-    switch (offer.type) {
-      case 'percentage_off':
-        discountedPrice = Math.round(originalPrice * (1 - offer.value / 100));
-        break;
-      case 'fixed_amount_off':
-        discountedPrice = Math.max(0, originalPrice - offer.value);
-        break;
-      case 'fixed_price':
-        discountedPrice = offer.value;
-        break;
-    }
+    const discountedPrice = offerUnitPrice(originalPrice, offer, bundleShare, flashSale);
 
     return {
       originalPrice,
@@ -263,6 +1014,20 @@ export class CheckoutService {
     };
   }
 
+  /**
+   * The creator's viewer with this handle. Handles from another creator's
+   * audience are ignored.
+   */
+  private async findViewerId(creatorId: string, handle: string): Promise<string | null> {
+    const [viewer] = await this.db
+      .select({ id: viewers.id })
+      .from(viewers)
+      .where(and(eq(viewers.creatorId, creatorId), eq(viewers.handle, handle)))
+      .limit(1);
+
+    return viewer?.id ?? null;
+  }
+
   private async findExistingSession(idempotencyKey: string) {
     const [existing] = await this.db
       .select()
@@ -285,12 +1050,14 @@ export class CheckoutService {
     attributionContextId: string;
     offerId: string;
     connectionId: string;
-    variant: typeof variants.$inferSelect;
-    quantity: number;
-    prices: ReturnType<CheckoutService['calculatePrices']>;
+    lines: CheckoutLine[];
     visitorId: string;
+    viewerId?: string | null | undefined;
     userAgent?: string | undefined;
     ipAddress?: string | undefined;
+    cartId?: string | undefined;
+    experimentId?: string | undefined;
+    experimentVariantId?: string | undefined;
   }) {
     const expiresAt = new Date();
     expiresAt.setMinutes(expiresAt.getMinutes() + CHECKOUT_SESSION_TTL_MINUTES);
@@ -298,7 +1065,25 @@ export class CheckoutService {
     const reservationExpiresAt = new Date();
     reservationExpiresAt.setMinutes(reservationExpiresAt.getMinutes() + RESERVATION_TTL_MINUTES);
 
+    const subtotal = input.lines.reduce((sum, line) => sum + line.prices.subtotal, 0);
+    const discount = input.lines.reduce((sum, line) => sum + line.prices.discount, 0);
+    const total = input.lines.reduce((sum, line) => sum + line.prices.total, 0);
+
     const [session] = await this.db.transaction(async (tx) => {
+      // Claim the source cart before anything else. The row lock makes a
+      // concurrent conversion wait here, then find the cart no longer open.
+      if (input.cartId) {
+        const [claimed] = await tx
+          .update(carts)
+          .set({ status: 'converted', convertedAt: new Date(), updatedAt: new Date() })
+          .where(and(eq(carts.id, input.cartId), eq(carts.status, 'open')))
+          .returning({ id: carts.id });
+
+        if (!claimed) {
+          throw new AppError(ErrorCodes.CONFLICT, 'Cart is already being checked out');
+        }
+      }
+
       // Create checkout session
       const [session] = await tx
         .insert(checkoutSessions)
@@ -310,19 +1095,23 @@ export class CheckoutService {
           offerId: input.offerId,
           connectionId: input.connectionId,
           status: 'pending',
-          cartItems: [
-            {
-              variantId: input.variant.id,
-              quantity: input.quantity,
-              price: input.prices.originalPrice,
-              offerPrice: input.prices.discountedPrice,
-            },
-          ],
-          subtotal: input.prices.subtotal,
-          discount: input.prices.discount,
-          total: input.prices.total,
-          currency: input.variant.currency,
+          cartItems: input.lines.map(line => ({
+            variantId: line.variant.id,
+            quantity: line.quantity,
+            price: line.prices.originalPrice,
+            offerPrice: line.prices.discountedPrice,
+            offerId: line.offerId,
+            shortLinkId: line.shortLinkId,
+            ...(line.flashSaleId && { flashSaleId: line.flashSaleId }),
+          })),
+          subtotal,
+          discount,
+          total,
+          currency: input.lines[0]?.variant.currency ?? 'USD',
           visitorId: input.visitorId,
+          viewerId: input.viewerId ?? null,
+          experimentId: input.experimentId ?? null,
+          experimentVariantId: input.experimentVariantId ?? null,
           userAgent: input.userAgent,
           ipAddress: input.ipAddress,
           expiresAt,
@@ -333,14 +1122,23 @@ export class CheckoutService {
         throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to create checkout session');
       }
 
-      // Create reservation
-      await tx.insert(reservations).values({
-        variantId: input.variant.id,
-        checkoutSessionId: session.id,
-        quantity: input.quantity,
-        status: 'pending',
-        expiresAt: reservationExpiresAt,
-      });
+      // Reserve every line
+      await tx.insert(reservations).values(
+        input.lines.map(line => ({
+          variantId: line.variant.id,
+          checkoutSessionId: session.id,
+          quantity: line.quantity,
+          status: 'pending' as const,
+          expiresAt: reservationExpiresAt,
+        }))
+      );
+
+      if (input.cartId) {
+        await tx
+          .update(carts)
+          .set({ checkoutSessionId: session.id })
+          .where(eq(carts.id, input.cartId));
+      }
 
       return [session];
     });
@@ -348,16 +1146,45 @@ export class CheckoutService {
     return session!;
   }
 
-  private async buildCheckoutUrl(
+  /**
+   * Hand the priced lines to the connection's commerce backend, which returns
+   * where to send the buyer
+   */
+  private async buildCheckout(
     connection: typeof platformConnections.$inferSelect,
-    variantExternalId: string,
-    quantity: number,
+    lines: CheckoutLine[],
     checkoutSessionId: string
   ) {
     const credentials = JSON.parse(
       decrypt(connection.credentials, this.credentialsEncryptionKey)
-    ) as { shopDomain: string };
+    ) as Record<string, string>;
+    const backend = this.commerceBackends.create(connection.platform, credentials);
+
+    const productRows = await this.db
+      .select({ id: products.id, externalId: products.externalId, title: products.title })
+      .from(products)
+      .where(inArray(products.id, [...new Set(lines.map(line => line.variant.productId))]));
+    const productsById = new Map(productRows.map(row => [row.id, row]));
 
-    return `https://${credentials.shopDomain}.myshopify.com/cart/${variantExternalId}:${quantity}?checkout[note]=${checkoutSessionId}`;
+    try {
+      return await backend.buildCheckout({
+        checkoutSessionId,
+        currency: lines[0]?.variant.currency ?? 'USD',
+        lines: lines.map(line => {
+          const product = productsById.get(line.variant.productId);
+          return {
+            productExternalId: product?.externalId ?? line.variant.externalId,
+            variantExternalId: line.variant.externalId,
+            title: product?.title ?? line.variant.title,
+            imageUrl: line.variant.imageUrl,
+            quantity: line.quantity,
+            unitPrice: line.prices.originalPrice,
+            unitOfferPrice: line.prices.discountedPrice,
+          };
+        }),
+      });
+    } catch (err) {
+      throw integrationError(connection.platform, err instanceof Error ? err.message : 'Failed to create checkout');
+    }
   }
 }
@@ -0,0 +1,175 @@
+import { eq, and, isNotNull, notInArray, count, sum, sql } from 'drizzle-orm';
+import type { Database } from '@unifyed/db';
+import { orders, attributionContexts } from '@unifyed/db/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One buyer (a distinct customer email) and how they bought
+ */
+export interface CohortBuyer {
+  firstOrderAt: Date;
+  secondOrderAt: Date | null;
+  // Where the first order came from
+  platform: string | null;
+  surface: string | null;
+  orders: number;
+  revenue: number; // cents, every order to date
+}
+
+export interface CohortStats {
+  buyers: number;
+  repeatBuyers: number;
+  repeatRate: number; // % of buyers with a second order
+  medianDaysToSecondOrder: number | null;
+  avgOrders: number;
+  ltv: number; // revenue per buyer to date, dollars
+  revenue: number; // dollars
+}
+
+export interface WeeklyCohort extends CohortStats {
+  week: string; // Monday of the first-purchase week (UTC), YYYY-MM-DD
+  surface: string;
+}
+
+export interface PlatformCohort extends CohortStats {
+  platform: string;
+}
+
+/**
+ * Monday of the week a date falls in (UTC)
+ */
+export function cohortWeek(date: Date): string {
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return monday.toISOString().slice(0, 10);
+}
+
+/**
+ * Repeat rate, time to second order and LTV for a group of buyers
+ */
+export function summarizeCohort(buyers: CohortBuyer[]): CohortStats {
+  const daysToSecond = buyers
+    .flatMap(buyer => (buyer.secondOrderAt
+      ? [(buyer.secondOrderAt.getTime() - buyer.firstOrderAt.getTime()) / DAY_MS]
+      : []))
+    .sort((a, b) => a - b);
+
+  const middle = Math.floor(daysToSecond.length / 2);
+  const median = daysToSecond.length === 0
+    ? null
+    : daysToSecond.length % 2 === 1
+      ? daysToSecond[middle]!
+      : (daysToSecond[middle - 1]! + daysToSecond[middle]!) / 2;
+
+  const revenue = buyers.reduce((acc, buyer) => acc + buyer.revenue, 0);
+  const orderCount = buyers.reduce((acc, buyer) => acc + buyer.orders, 0);
+
+  return {
+    buyers: buyers.length,
+    repeatBuyers: daysToSecond.length,
+    repeatRate: buyers.length > 0 ? (daysToSecond.length / buyers.length) * 100 : 0,
+    medianDaysToSecondOrder: median === null ? null : Math.round(median * 10) / 10,
+    avgOrders: buyers.length > 0 ? orderCount / buyers.length : 0,
+    ltv: buyers.length > 0 ? revenue / buyers.length / 100 : 0,
+    revenue: revenue / 100,
+  };
+}
+
+function groupBuyers(buyers: CohortBuyer[], keyOf: (buyer: CohortBuyer) => string): Map<string, CohortBuyer[]> {
+  const groups = new Map<string, CohortBuyer[]>();
+  for (const buyer of buyers) {
+    const key = keyOf(buyer);
+    groups.set(key, [...(groups.get(key) ?? []), buyer]);
+  }
+  return groups;
+}
+
+/**
+ * Cohort Service
+ * Groups a creator's buyers by when and where they first bought, to see
+ * which of them come back
+ */
+export class CohortService {
+  constructor(private db: Database) {}
+
+  /**
+   * Buyers by first-purchase week and the surface of that first purchase,
+   * newest week first
+   */
+  async getWeeklyCohorts(creatorId: string, weeks: number): Promise<WeeklyCohort[]> {
+    const buyers = await this.getBuyers(creatorId, this.cohortsSince(weeks));
+    const groups = groupBuyers(buyers, buyer => `${cohortWeek(buyer.firstOrderAt)}|${buyer.surface ?? 'direct'}`);
+
+    return [...groups]
+      .map(([key, group]) => {
+        const [week, surface] = key.split('|') as [string, string];
+        return { week, surface, ...summarizeCohort(group) };
+      })
+      .sort((a, b) => b.week.localeCompare(a.week) || b.buyers - a.buyers);
+  }
+
+  /**
+   * Buyers by the platform of their first purchase, most valuable first
+   */
+  async getPlatformCohorts(creatorId: string, weeks: number): Promise<PlatformCohort[]> {
+    const buyers = await this.getBuyers(creatorId, this.cohortsSince(weeks));
+    const groups = groupBuyers(buyers, buyer => buyer.platform ?? 'direct');
+
+    return [...groups]
+      .map(([platform, group]) => ({ platform, ...summarizeCohort(group) }))
+      .sort((a, b) => b.ltv - a.ltv);
+  }
+
+  private cohortsSince(weeks: number): Date {
+    return new Date(`${cohortWeek(new Date(Date.now() - (weeks - 1) * 7 * DAY_MS))}T00:00:00.000Z`);
+  }
+
+  /**
+   * Every buyer whose first order was placed since a date. Buyers are told
+   * apart by email hash; cancelled and refunded orders don't count.
+   */
+  private async getBuyers(creatorId: string, since: Date): Promise<CohortBuyer[]> {
+    const ranked = this.db
+      .select({
+        emailHash: orders.customerEmailHash,
+        createdAt: orders.createdAt,
+        total: orders.total,
+        platform: sql<string | null>`${attributionContexts.platform}::text`.as('platform'),
+        surface: sql<string | null>`${attributionContexts.surface}::text`.as('surface'),
+        rank: sql<number>`row_number() over (partition by ${orders.customerEmailHash} order by ${orders.createdAt})`.as('rank'),
+      })
+      .from(orders)
+      .leftJoin(attributionContexts, eq(orders.attributionContextId, attributionContexts.id))
+      .where(
+        and(
+          eq(orders.creatorId, creatorId),
+          isNotNull(orders.customerEmailHash),
+          notInArray(orders.status, ['cancelled', 'refunded'])
+        )
+      )
+      .as('ranked');
+
+    const rows = await this.db
+      .select({
+        firstOrderAt: sql<Date>`min(${ranked.createdAt})`.mapWith(orders.createdAt),
+        secondOrderAt: sql<Date | null>`min(${ranked.createdAt}) filter (where ${ranked.rank} = 2)`.mapWith(orders.createdAt),
+        platform: sql<string | null>`max(${ranked.platform}) filter (where ${ranked.rank} = 1)`,
+        surface: sql<string | null>`max(${ranked.surface}) filter (where ${ranked.rank} = 1)`,
+        orders: count(),
+        revenue: sum(ranked.total),
+      })
+      .from(ranked)
+      .groupBy(ranked.emailHash)
+      .having(sql`min(${ranked.createdAt}) >= ${since.toISOString()}::timestamptz`);
+
+    return rows.map(row => ({
+      firstOrderAt: row.firstOrderAt,
+      secondOrderAt: row.secondOrderAt,
+      platform: row.platform,
+      surface: row.surface,
+      orders: Number(row.orders),
+      revenue: Number(row.revenue ?? 0),
+    }));
+  }
+}
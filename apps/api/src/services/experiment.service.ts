@@ -0,0 +1,456 @@
+import { createHash } from 'crypto';
+import { eq, and, asc, desc, inArray, notInArray, count, countDistinct, sql } from 'drizzle-orm';
+import type { Database } from '@unifyed/db';
+import { offers, offerExperiments, offerExperimentVariants, checkoutSessions, orders } from '@unifyed/db/schema';
+import type { CreateExperimentRequest, ListExperimentsQuery } from '@unifyed/types/api';
+import { AppError, ErrorCodes } from '@unifyed/utils';
+
+// Two-sided 95% confidence
+const Z_95 = 1.96;
+
+type Offer = typeof offers.$inferSelect;
+type ExperimentVariant = typeof offerExperimentVariants.$inferSelect;
+
+export type Interval = [number, number];
+
+/**
+ * What one variant's visitors did
+ */
+export interface VariantCounts {
+  visitors: number;
+  converted: number; // Visitors with at least one order
+  checkouts: number;
+  orders: number;
+  revenue: number; // cents
+  revenueSquares: number; // Sum of each visitor's revenue squared, cents²
+}
+
+export interface VariantStats {
+  visitors: number;
+  checkouts: number;
+  orders: number;
+  revenue: number; // dollars
+  conversionRate: number; // %
+  conversionRateCi: Interval;
+  revenuePerVisitor: number; // dollars
+  revenuePerVisitorCi: Interval;
+  // Against the control; null for the control itself
+  vsControl: {
+    conversionRateDiff: number; // percentage points
+    conversionRateDiffCi: Interval;
+    revenuePerVisitorDiff: number; // dollars
+    revenuePerVisitorDiffCi: Interval;
+    significant: boolean; // Either interval excludes zero
+  } | null;
+}
+
+/**
+ * Pick a visitor's variant. The same visitor always gets the same variant
+ * of an experiment, in proportion to the variants' weights.
+ */
+export function assignVariant<T extends { weight: number }>(
+  experimentId: string,
+  visitorId: string,
+  variants: T[]
+): T | undefined {
+  const totalWeight = variants.reduce((total, variant) => total + variant.weight, 0);
+  if (totalWeight <= 0) return undefined;
+
+  const hash = createHash('sha256').update(`${experimentId}:${visitorId}`).digest();
+  let point = (hash.readUInt32BE(0) / 0x100000000) * totalWeight;
+
+  for (const variant of variants) {
+    point -= variant.weight;
+    if (point < 0) return variant;
+  }
+  return variants[variants.length - 1];
+}
+
+/**
+ * An offer with a variant's terms in place of its own
+ */
+export function applyVariant(offer: Offer, variant: ExperimentVariant): Offer {
+  return {
+    ...offer,
+    type: variant.type ?? offer.type,
+    value: variant.value ?? offer.value,
+    badgeText: variant.badgeText ?? offer.badgeText,
+  };
+}
+
+/**
+ * Wilson score interval for a proportion
+ */
+export function wilsonInterval(successes: number, trials: number, z = Z_95): Interval {
+  if (trials === 0) return [0, 0];
+  const p = successes / trials;
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const center = (p + z2 / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator;
+  return [Math.max(0, center - margin), Math.min(1, center + margin)];
+}
+
+function meanAndVariance(sum: number, sumSquares: number, n: number) {
+  const mean = n > 0 ? sum / n : 0;
+  const variance = n > 1 ? Math.max(0, (sumSquares - n * mean * mean) / (n - 1)) : 0;
+  return { mean, variance };
+}
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+const roundInterval = ([low, high]: Interval, scale: number): Interval => [round(low * scale), round(high * scale)];
+
+/**
+ * Conversion rate and revenue per visitor for each variant, with 95%
+ * confidence intervals, compared with the first variant (the control)
+ */
+export function summarizeVariants(variants: VariantCounts[]): VariantStats[] {
+  const control = variants[0];
+
+  return variants.map((counts, index) => {
+    const rate = counts.visitors > 0 ? counts.converted / counts.visitors : 0;
+    const revenue = meanAndVariance(counts.revenue, counts.revenueSquares, counts.visitors);
+    const revenueMargin = counts.visitors > 0 ? Z_95 * Math.sqrt(revenue.variance / counts.visitors) : 0;
+
+    let vsControl: VariantStats['vsControl'] = null;
+    if (index > 0 && control) {
+      const controlRate = control.visitors > 0 ? control.converted / control.visitors : 0;
+      const controlRevenue = meanAndVariance(control.revenue, control.revenueSquares, control.visitors);
+      const measurable = counts.visitors > 0 && control.visitors > 0;
+
+      const rateDiff = rate - controlRate;
+      const rateMargin = measurable
+        ? Z_95 * Math.sqrt((rate * (1 - rate)) / counts.visitors + (controlRate * (1 - controlRate)) / control.visitors)
+        : 0;
+      const revenueDiff = revenue.mean - controlRevenue.mean;
+      const revenueDiffMargin = measurable
+        ? Z_95 * Math.sqrt(revenue.variance / counts.visitors + controlRevenue.variance / control.visitors)
+        : 0;
+
+      const excludesZero = (diff: number, margin: number) => margin > 0 && Math.abs(diff) > margin;
+
+      vsControl = {
+        conversionRateDiff: round(rateDiff * 100),
+        conversionRateDiffCi: roundInterval([rateDiff - rateMargin, rateDiff + rateMargin], 100),
+        revenuePerVisitorDiff: round(revenueDiff / 100),
+        revenuePerVisitorDiffCi: roundInterval([revenueDiff - revenueDiffMargin, revenueDiff + revenueDiffMargin], 0.01),
+        significant: measurable && (excludesZero(rateDiff, rateMargin) || excludesZero(revenueDiff, revenueDiffMargin)),
+      };
+    }
+
+    return {
+      visitors: counts.visitors,
+      checkouts: counts.checkouts,
+      orders: counts.orders,
+      revenue: counts.revenue / 100,
+      conversionRate: round(rate * 100),
+      conversionRateCi: roundInterval(wilsonInterval(counts.converted, counts.visitors), 100),
+      revenuePerVisitor: round(revenue.mean / 100),
+      revenuePerVisitorCi: roundInterval([Math.max(0, revenue.mean - revenueMargin), revenue.mean + revenueMargin], 0.01),
+      vsControl,
+    };
+  });
+}
+
+/**
+ * Experiment Service
+ * A/B tests of an offer's discount and badge. Checkouts are split across
+ * the variants by visitor; the winner can be written onto the offer.
+ */
+export class ExperimentService {
+  constructor(private db: Database) {}
+
+  async list(creatorId: string, query: ListExperimentsQuery) {
+    const conditions = [eq(offerExperiments.creatorId, creatorId)];
+    if (query.offerId) {
+      conditions.push(eq(offerExperiments.offerId, query.offerId));
+    }
+    if (query.status) {
+      conditions.push(eq(offerExperiments.status, query.status));
+    }
+
+    return this.db
+      .select()
+      .from(offerExperiments)
+      .where(and(...conditions))
+      .orderBy(desc(offerExperiments.createdAt));
+  }
+
+  async get(creatorId: string, experimentId: string) {
+    const [experiment] = await this.db
+      .select()
+      .from(offerExperiments)
+      .where(and(eq(offerExperiments.id, experimentId), eq(offerExperiments.creatorId, creatorId)))
+      .limit(1);
+
+    if (!experiment) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Experiment not found');
+    }
+
+    const variants = await this.db
+      .select()
+      .from(offerExperimentVariants)
+      .where(eq(offerExperimentVariants.experimentId, experimentId))
+      .orderBy(asc(offerExperimentVariants.position));
+
+    return { ...experiment, variants };
+  }
+
+  async create(creatorId: string, input: CreateExperimentRequest) {
+    const [offer] = await this.db
+      .select()
+      .from(offers)
+      .where(and(eq(offers.id, input.offerId), eq(offers.creatorId, creatorId)))
+      .limit(1);
+
+    if (!offer) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Offer not found');
+    }
+
+    if (offer.type === 'bundle') {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Bundle offers cannot be tested');
+    }
+
+    for (const variant of input.variants) {
+      const type = variant.type ?? offer.type;
+      const value = variant.value ?? offer.value;
+      if (type === 'percentage_off' && value > 100) {
+        throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Percentage off cannot be more than 100', {
+          variant: variant.name,
+        });
+      }
+    }
+
+    const [running] = await this.db
+      .select({ id: offerExperiments.id })
+      .from(offerExperiments)
+      .where(and(eq(offerExperiments.offerId, offer.id), eq(offerExperiments.status, 'running')))
+      .limit(1);
+
+    if (running) {
+      throw new AppError(ErrorCodes.CONFLICT, 'Offer already has a running experiment', {
+        experimentId: running.id,
+      });
+    }
+
+    return this.db.transaction(async (tx) => {
+      const [experiment] = await tx
+        .insert(offerExperiments)
+        .values({ creatorId, offerId: offer.id, name: input.name })
+        .returning();
+
+      if (!experiment) {
+        throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to create experiment');
+      }
+
+      const variants = await tx
+        .insert(offerExperimentVariants)
+        .values(
+          input.variants.map((variant, position) => ({
+            experimentId: experiment.id,
+            name: variant.name,
+            position,
+            weight: variant.weight,
+            type: variant.type ?? null,
+            value: variant.value ?? null,
+            badgeText: variant.badgeText ?? null,
+          }))
+        )
+        .returning();
+
+      return { ...experiment, variants: variants.sort((a, b) => a.position - b.position) };
+    });
+  }
+
+  /**
+   * The running experiment on an offer and the visitor's variant in it
+   */
+  async assign(offerId: string, visitorId: string) {
+    const running = await this.getRunning([offerId]);
+    const experiment = running.get(offerId);
+    if (!experiment) return null;
+
+    const variant = assignVariant(experiment.id, visitorId, experiment.variants);
+    return variant ? { experimentId: experiment.id, variant } : null;
+  }
+
+  /**
+   * Offer rows as a visitor sees them: offers under test carry the terms of
+   * the visitor's variant. Without a visitor everyone sees the offer's own.
+   */
+  async forVisitor<T extends { offer: Offer }>(rows: T[], visitorId: string | undefined): Promise<T[]> {
+    if (!visitorId || rows.length === 0) return rows;
+
+    const running = await this.getRunning([...new Set(rows.map(row => row.offer.id))]);
+    if (running.size === 0) return rows;
+
+    return rows.map(row => {
+      const experiment = running.get(row.offer.id);
+      const variant = experiment && assignVariant(experiment.id, visitorId, experiment.variants);
+      return variant ? { ...row, offer: applyVariant(row.offer, variant) } : row;
+    });
+  }
+
+  async getResults(creatorId: string, experimentId: string) {
+    const experiment = await this.get(creatorId, experimentId);
+
+    // Each visitor once, with what they bought
+    const perVisitor = this.db
+      .select({
+        variantId: checkoutSessions.experimentVariantId,
+        visitorId: checkoutSessions.visitorId,
+        checkouts: countDistinct(checkoutSessions.id).as('checkouts'),
+        orders: count(orders.id).as('orders'),
+        revenue: sql<number>`coalesce(sum(${orders.total}), 0)`.as('revenue'),
+      })
+      .from(checkoutSessions)
+      .leftJoin(
+        orders,
+        and(eq(orders.checkoutSessionId, checkoutSessions.id), notInArray(orders.status, ['cancelled', 'refunded']))
+      )
+      .where(eq(checkoutSessions.experimentId, experimentId))
+      .groupBy(checkoutSessions.experimentVariantId, checkoutSessions.visitorId)
+      .as('per_visitor');
+
+    const rows = await this.db
+      .select({
+        variantId: perVisitor.variantId,
+        visitors: count(),
+        converted: sql<number>`count(*) filter (where ${perVisitor.orders} > 0)`.mapWith(Number),
+        checkouts: sql<number>`sum(${perVisitor.checkouts})`.mapWith(Number),
+        orders: sql<number>`sum(${perVisitor.orders})`.mapWith(Number),
+        revenue: sql<number>`sum(${perVisitor.revenue})`.mapWith(Number),
+        revenueSquares: sql<number>`sum(${perVisitor.revenue}::numeric * ${perVisitor.revenue})`.mapWith(Number),
+      })
+      .from(perVisitor)
+      .groupBy(perVisitor.variantId);
+
+    const countsByVariant = new Map(rows.map(row => [row.variantId, row]));
+    const stats = summarizeVariants(
+      experiment.variants.map(variant => countsByVariant.get(variant.id) ?? {
+        visitors: 0,
+        converted: 0,
+        checkouts: 0,
+        orders: 0,
+        revenue: 0,
+        revenueSquares: 0,
+      })
+    );
+
+    const { variants, ...rest } = experiment;
+    return {
+      experiment: rest,
+      confidenceLevel: 0.95,
+      variants: variants.map((variant, index) => ({
+        variantId: variant.id,
+        name: variant.name,
+        isControl: index === 0,
+        weight: variant.weight,
+        type: variant.type,
+        value: variant.value,
+        badgeText: variant.badgeText,
+        ...stats[index]!,
+      })),
+    };
+  }
+
+  /**
+   * Stop splitting traffic; every visitor gets the offer's own terms again
+   */
+  async stop(creatorId: string, experimentId: string) {
+    const experiment = await this.get(creatorId, experimentId);
+
+    if (experiment.status !== 'running') {
+      throw new AppError(ErrorCodes.CONFLICT, `Experiment is already ${experiment.status}`);
+    }
+
+    const [updated] = await this.db
+      .update(offerExperiments)
+      .set({ status: 'stopped', stoppedAt: new Date(), updatedAt: new Date() })
+      .where(eq(offerExperiments.id, experimentId))
+      .returning();
+
+    if (!updated) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to stop experiment');
+    }
+
+    return { before: experiment, after: { ...updated, variants: experiment.variants } };
+  }
+
+  /**
+   * Write a variant's terms onto the offer and end the experiment
+   */
+  async promote(creatorId: string, experimentId: string, variantId: string) {
+    const experiment = await this.get(creatorId, experimentId);
+
+    if (experiment.status === 'promoted') {
+      throw new AppError(ErrorCodes.CONFLICT, 'Experiment is already promoted');
+    }
+
+    const variant = experiment.variants.find(v => v.id === variantId);
+    if (!variant) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Variant not found');
+    }
+
+    return this.db.transaction(async (tx) => {
+      const [offer] = await tx
+        .select()
+        .from(offers)
+        .where(eq(offers.id, experiment.offerId))
+        .limit(1);
+
+      if (!offer) {
+        throw new AppError(ErrorCodes.NOT_FOUND, 'Offer not found');
+      }
+
+      const { type, value, badgeText } = applyVariant(offer, variant);
+      const [updatedOffer] = await tx
+        .update(offers)
+        .set({ type, value, badgeText, updatedAt: new Date() })
+        .where(eq(offers.id, offer.id))
+        .returning();
+
+      const [updated] = await tx
+        .update(offerExperiments)
+        .set({
+          status: 'promoted',
+          winnerVariantId: variant.id,
+          stoppedAt: experiment.stoppedAt ?? new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(offerExperiments.id, experimentId))
+        .returning();
+
+      if (!updatedOffer || !updated) {
+        throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to promote variant');
+      }
+
+      return {
+        experiment: { before: experiment, after: { ...updated, variants: experiment.variants } },
+        offer: { before: offer, after: updatedOffer },
+      };
+    });
+  }
+
+  private async getRunning(offerIds: string[]) {
+    const experiments = await this.db
+      .select()
+      .from(offerExperiments)
+      .where(and(inArray(offerExperiments.offerId, offerIds), eq(offerExperiments.status, 'running')));
+
+    if (experiments.length === 0) {
+      return new Map<string, typeof experiments[number] & { variants: ExperimentVariant[] }>();
+    }
+
+    const variants = await this.db
+      .select()
+      .from(offerExperimentVariants)
+      .where(inArray(offerExperimentVariants.experimentId, experiments.map(experiment => experiment.id)))
+      .orderBy(asc(offerExperimentVariants.position));
+
+    return new Map(experiments.map(experiment => [
+      experiment.offerId,
+      { ...experiment, variants: variants.filter(variant => variant.experimentId === experiment.id) },
+    ]));
+  }
+}
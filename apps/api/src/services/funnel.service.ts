@@ -0,0 +1,309 @@
+import { eq, and, gte, lt, inArray, notInArray, isNotNull, count, sum, sql } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import type { Database } from '@unifyed/db';
+import {
+  checkoutSessions,
+  orders,
+  attributionContexts,
+  shortLinks,
+  linkRejections,
+  liveSessions,
+  type LinkRejectionReason,
+} from '@unifyed/db/schema';
+import type { Platform } from '@unifyed/types';
+import type { DateRange } from './analytics.service.js';
+
+export type FunnelStageName = 'impression' | 'click' | 'checkout_started' | 'redirected' | 'completed';
+
+export type DropOffReason = LinkRejectionReason | 'checkout_failed' | 'abandoned_after_redirect' | 'in_progress';
+
+// Rejections that stop a visitor before the link counts as clicked; the
+// rest (stock, missing variants) stop them between click and checkout
+const LINK_REJECTIONS: LinkRejectionReason[] = ['link_revoked', 'link_expired', 'offer_inactive', 'offer_expired'];
+const CHECKOUT_REJECTIONS: LinkRejectionReason[] = ['insufficient_inventory', 'unavailable'];
+
+/**
+ * What happened to every visit to a link (or a live session's links) in a range
+ */
+export interface FunnelCounts {
+  rejections: Partial<Record<LinkRejectionReason, number>>;
+  checkoutsStarted: number;
+  redirected: number;
+  completed: number;
+  abandonedAfterRedirect: number;
+  revenue: number; // cents
+}
+
+export interface FunnelStage {
+  stage: FunnelStageName;
+  count: number;
+  rate: number; // % of the previous stage
+}
+
+export interface FunnelDropOff {
+  stage: FunnelStageName; // Last stage reached
+  reason: DropOffReason;
+  count: number;
+}
+
+export interface Funnel {
+  stages: FunnelStage[];
+  dropOffs: FunnelDropOff[];
+  conversionRate: number; // % of impressions completed
+  revenue: number; // dollars
+}
+
+export interface LinkFunnel extends Funnel {
+  shortLinkId: string;
+  code: string;
+  name: string | null;
+  platform: string | null;
+  clickCount: number; // All time
+}
+
+export interface SessionFunnel extends Funnel {
+  liveSessionId: string;
+  title: string | null;
+  startedAt: Date | null;
+}
+
+export interface FunnelFilters {
+  range: DateRange;
+  platform?: Platform | undefined;
+  limit: number;
+}
+
+/**
+ * Turn raw counts into funnel stages and drop-offs. Impressions are every
+ * visit to a link; clicks are visits the link and offer let through.
+ */
+export function buildFunnel(counts: FunnelCounts): Funnel {
+  const rejected = (reasons: LinkRejectionReason[]) =>
+    reasons.reduce((total, reason) => total + (counts.rejections[reason] ?? 0), 0);
+
+  const clicks = counts.checkoutsStarted + rejected(CHECKOUT_REJECTIONS);
+  const impressions = clicks + rejected(LINK_REJECTIONS);
+
+  const stageCounts: Array<[FunnelStageName, number]> = [
+    ['impression', impressions],
+    ['click', clicks],
+    ['checkout_started', counts.checkoutsStarted],
+    ['redirected', counts.redirected],
+    ['completed', counts.completed],
+  ];
+
+  const stages = stageCounts.map(([stage, stageCount], index) => {
+    const previous = index === 0 ? stageCount : stageCounts[index - 1]![1];
+    const rate = previous > 0 ? (stageCount / previous) * 100 : 0;
+    return { stage, count: stageCount, rate: Math.round(rate * 10) / 10 };
+  });
+
+  const dropOffs: FunnelDropOff[] = [
+    ...LINK_REJECTIONS.map(reason => ({ stage: 'impression' as const, reason, count: counts.rejections[reason] ?? 0 })),
+    ...CHECKOUT_REJECTIONS.map(reason => ({ stage: 'click' as const, reason, count: counts.rejections[reason] ?? 0 })),
+    { stage: 'checkout_started', reason: 'checkout_failed', count: counts.checkoutsStarted - counts.redirected },
+    { stage: 'redirected', reason: 'abandoned_after_redirect', count: counts.abandonedAfterRedirect },
+    {
+      stage: 'redirected',
+      reason: 'in_progress',
+      count: Math.max(0, counts.redirected - counts.completed - counts.abandonedAfterRedirect),
+    },
+  ];
+
+  return {
+    stages,
+    dropOffs: dropOffs.filter(dropOff => dropOff.count > 0),
+    conversionRate: impressions > 0 ? (counts.completed / impressions) * 100 : 0,
+    revenue: counts.revenue / 100,
+  };
+}
+
+function emptyCounts(): FunnelCounts {
+  return {
+    rejections: {},
+    checkoutsStarted: 0,
+    redirected: 0,
+    completed: 0,
+    abandonedAfterRedirect: 0,
+    revenue: 0,
+  };
+}
+
+/**
+ * Funnel Service
+ * Follows visits to a creator's links from impression to order, per link
+ * and per live session, and says where and why visitors dropped off
+ */
+export class FunnelService {
+  constructor(private db: Database) {}
+
+  /**
+   * Funnel for each short link, busiest first
+   */
+  async getLinkFunnels(creatorId: string, filters: FunnelFilters): Promise<LinkFunnel[]> {
+    const counts = await this.getCounts(creatorId, filters, checkoutSessions.shortLinkId, linkRejections.shortLinkId);
+    const ids = this.busiest(counts, filters.limit);
+    if (ids.length === 0) return [];
+
+    const links = await this.db
+      .select({
+        id: shortLinks.id,
+        code: shortLinks.code,
+        name: shortLinks.name,
+        clickCount: shortLinks.clickCount,
+        platform: attributionContexts.platform,
+      })
+      .from(shortLinks)
+      .innerJoin(attributionContexts, eq(shortLinks.attributionContextId, attributionContexts.id))
+      .where(inArray(shortLinks.id, ids));
+    const linksById = new Map(links.map(link => [link.id, link]));
+
+    return ids.flatMap(id => {
+      const link = linksById.get(id);
+      if (!link) return [];
+      return [{
+        shortLinkId: id,
+        code: link.code,
+        name: link.name,
+        platform: link.platform,
+        clickCount: link.clickCount,
+        ...buildFunnel(counts.get(id)!),
+      }];
+    });
+  }
+
+  /**
+   * Funnel for each live session across all of its links, busiest first
+   */
+  async getSessionFunnels(creatorId: string, filters: FunnelFilters): Promise<SessionFunnel[]> {
+    const counts = await this.getCounts(
+      creatorId,
+      filters,
+      attributionContexts.liveSessionId,
+      attributionContexts.liveSessionId
+    );
+    const ids = this.busiest(counts, filters.limit);
+    if (ids.length === 0) return [];
+
+    const sessions = await this.db
+      .select({ id: liveSessions.id, title: liveSessions.title, startedAt: liveSessions.startedAt })
+      .from(liveSessions)
+      .where(inArray(liveSessions.id, ids));
+    const sessionsById = new Map(sessions.map(session => [session.id, session]));
+
+    return ids.flatMap(id => {
+      const session = sessionsById.get(id);
+      if (!session) return [];
+      return [{
+        liveSessionId: id,
+        title: session.title,
+        startedAt: session.startedAt,
+        ...buildFunnel(counts.get(id)!),
+      }];
+    });
+  }
+
+  private busiest(counts: Map<string, FunnelCounts>, limit: number): string[] {
+    const impressions = (entry: FunnelCounts) =>
+      entry.checkoutsStarted + Object.values(entry.rejections).reduce((total, n) => total + n, 0);
+
+    return [...counts]
+      .sort(([, a], [, b]) => impressions(b) - impressions(a))
+      .slice(0, limit)
+      .map(([id]) => id);
+  }
+
+  /**
+   * Funnel counts grouped by a key: the short link or the live session.
+   * Checkout sessions and rejections are placed in the range by when they
+   * happened; orders follow the checkout session they came from.
+   */
+  private async getCounts(
+    creatorId: string,
+    filters: FunnelFilters,
+    sessionKey: PgColumn,
+    rejectionKey: PgColumn
+  ): Promise<Map<string, FunnelCounts>> {
+    const { range, platform } = filters;
+    const platformFilter = platform ? eq(attributionContexts.platform, platform) : undefined;
+    const sessionsInRange = and(
+      eq(checkoutSessions.creatorId, creatorId),
+      gte(checkoutSessions.createdAt, range.start),
+      lt(checkoutSessions.createdAt, range.end),
+      isNotNull(sessionKey),
+      platformFilter
+    );
+
+    const [sessionRows, rejectionRows, revenueRows] = await Promise.all([
+      this.db
+        .select({
+          key: sql<string>`${sessionKey}`,
+          started: count(),
+          redirected: count(checkoutSessions.redirectedAt),
+          completed: sql<number>`count(*) filter (where ${checkoutSessions.status} = 'completed')`.mapWith(Number),
+          abandoned: sql<number>`count(*) filter (where ${checkoutSessions.redirectedAt} is not null and ${checkoutSessions.status} <> 'completed' and (${checkoutSessions.status} = 'abandoned' or ${checkoutSessions.expiresAt} < now()))`.mapWith(Number),
+        })
+        .from(checkoutSessions)
+        .innerJoin(attributionContexts, eq(checkoutSessions.attributionContextId, attributionContexts.id))
+        .where(sessionsInRange)
+        .groupBy(sessionKey),
+
+      this.db
+        .select({
+          key: sql<string>`${rejectionKey}`,
+          reason: linkRejections.reason,
+          count: count(),
+        })
+        .from(linkRejections)
+        .innerJoin(shortLinks, eq(linkRejections.shortLinkId, shortLinks.id))
+        .innerJoin(attributionContexts, eq(shortLinks.attributionContextId, attributionContexts.id))
+        .where(
+          and(
+            eq(linkRejections.creatorId, creatorId),
+            gte(linkRejections.occurredAt, range.start),
+            lt(linkRejections.occurredAt, range.end),
+            isNotNull(rejectionKey),
+            platformFilter
+          )
+        )
+        .groupBy(rejectionKey, linkRejections.reason),
+
+      this.db
+        .select({
+          key: sql<string>`${sessionKey}`,
+          revenue: sum(orders.total),
+        })
+        .from(orders)
+        .innerJoin(checkoutSessions, eq(orders.checkoutSessionId, checkoutSessions.id))
+        .innerJoin(attributionContexts, eq(checkoutSessions.attributionContextId, attributionContexts.id))
+        .where(and(sessionsInRange, notInArray(orders.status, ['cancelled', 'refunded'])))
+        .groupBy(sessionKey),
+    ]);
+
+    const counts = new Map<string, FunnelCounts>();
+    const countsFor = (key: string) => {
+      const existing = counts.get(key);
+      if (existing) return existing;
+      const created = emptyCounts();
+      counts.set(key, created);
+      return created;
+    };
+
+    for (const row of sessionRows) {
+      Object.assign(countsFor(row.key), {
+        checkoutsStarted: row.started,
+        redirected: row.redirected,
+        completed: row.completed,
+        abandonedAfterRedirect: row.abandoned,
+      });
+    }
+    for (const row of rejectionRows) {
+      countsFor(row.key).rejections[row.reason] = row.count;
+    }
+    for (const row of revenueRows) {
+      countsFor(row.key).revenue = Number(row.revenue ?? 0);
+    }
+
+    return counts;
+  }
+}
@@ -0,0 +1,28 @@
+import type { ChatGift, ChatPlatform } from '@unifyed/types';
+
+/**
+ * Share of a gift's value that reaches the creator, by platform, in basis
+ * points. Estimates from each platform's published terms; the platforms pay
+ * out on their own schedules, net of local taxes and currency conversion.
+ */
+export const GIFT_PAYOUT_RATES: Record<ChatPlatform, number> = {
+  youtube: 7000,   // Super Chats and Super Stickers, after YouTube's 30%
+  twitch: 10000,   // Bits are valued at the cent per Bit Twitch pays
+  tiktok: 5000,    // Gifts turn into Diamonds worth about half the coins spent
+  facebook: 10000, // Stars are valued at the cent per Star Meta pays
+  instagram: 10000,
+  kick: 10000,     // Kicks are valued at the cent per Kick Kick pays
+  restream: 5000,  // Source platform unknown; assume the lowest share
+};
+
+/**
+ * A gift's total value and the creator's estimated payout from it (in cents)
+ */
+export function estimateGiftPayout(
+  platform: ChatPlatform,
+  gift: Pick<ChatGift, 'value' | 'count'>
+): { value: number; payoutRate: number; estimatedPayout: number } {
+  const value = gift.value * gift.count;
+  const payoutRate = GIFT_PAYOUT_RATES[platform];
+  return { value, payoutRate, estimatedPayout: Math.round((value * payoutRate) / 10000) };
+}
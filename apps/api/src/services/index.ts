@@ -1,4 +1,21 @@
-export { OfferService, type CreateOfferInput, type UpdateOfferInput } from './offer.service.js';
-export { CheckoutService, type CheckoutStartInput, type CheckoutResult } from './checkout.service.js';
+export { OfferService, type CreateOfferInput, type UpdateOfferInput, type BundleItemInput } from './offer.service.js';
+export {
+  CheckoutService,
+  type CheckoutStartInput,
+  type CheckoutResult,
+  type CartItemInput,
+  type CreateCartInput,
+  type CartCheckoutInput,
+  type PricedCart,
+  type PricedCartLine,
+} from './checkout.service.js';
+export { ApiKeyService, type CreateApiKeyInput } from './api-key.service.js';
+export { TeamService, type CreateTeamInvitationInput } from './team.service.js';
+export { AuditService, diffChanges, type AuditRecordInput } from './audit.service.js';
+export {
+  WebhookEndpointService,
+  type CreateWebhookEndpointInput,
+  type UpdateWebhookEndpointInput,
+} from './webhook-endpoint.service.js';
 export { StreamService, type CreateStreamInput, type CreateMomentInput } from './stream.service.js';
 export { MetricsService, type MetricEvent, type MetricEventType, type MetricsSummary } from './metrics.service.js';
\ No newline at end of file
@@ -136,31 +136,36 @@ export class MetricsService {
 
     // Get date range based on period
     const days = period === 'day' ? 1 : period === 'week' ? 7 : 30;
-    
+
+    // Aggregate metrics for each event type
+    const eventTypes: MetricEventType[] = [
+      'offer.viewed',
+      'offer.clicked',
+      'checkout.started',
+      'checkout.completed',
+      'order.created',
+      'replay.viewed',
+      'replay.clicked',
+    ];
+
+    // One round trip for every day and event type
+    const pipeline = this.redis.pipeline();
     for (let i = 0; i < days; i++) {
       const date = new Date(now);
       date.setDate(date.getDate() - i);
       const dateKey = this.getDateKey(date);
 
-      // Aggregate metrics for each event type
-      const eventTypes: MetricEventType[] = [
-        'offer.viewed',
-        'offer.clicked',
-        'checkout.started',
-        'checkout.completed',
-        'order.created',
-        'replay.viewed',
-        'replay.clicked',
-      ];
-
       for (const eventType of eventTypes) {
-        const key = `metrics:creator:${creatorId}:${eventType}:${dateKey}`;
-        const count = await this.redis.hget(key, 'count');
-        const metricName = eventType.replace('.', '_');
-        metrics[metricName] = (metrics[metricName] ?? 0) + (parseInt(count ?? '0', 10));
+        pipeline.hget(`metrics:creator:${creatorId}:${eventType}:${dateKey}`, 'count');
       }
     }
 
+    const results = (await pipeline.exec()) ?? [];
+    results.forEach(([, count], index) => {
+      const metricName = eventTypes[index % eventTypes.length]!.replace('.', '_');
+      metrics[metricName] = (metrics[metricName] ?? 0) + parseInt((count as string | null) ?? '0', 10);
+    });
+
     // Calculate conversion rate
     if (metrics['offer_clicked'] && metrics['order_created']) {
       metrics['conversion_rate'] = (metrics['order_created'] / metrics['offer_clicked']) * 100;
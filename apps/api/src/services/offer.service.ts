@@ -1,19 +1,26 @@
-import { eq, and, count, sql } from 'drizzle-orm';
+import { eq, and, count, inArray, sql } from 'drizzle-orm';
 import type { Database } from '@unifyed/db';
-import { offers, offerProducts, products, platformConnections } from '@unifyed/db/schema';
+import { offers, offerProducts, products, variants, platformConnections } from '@unifyed/db/schema';
 import { AppError, ErrorCodes } from '@unifyed/utils';
 
+export interface BundleItemInput {
+  productId: string;
+  variantId?: string | undefined;
+  overrideValue?: number | undefined;
+}
+
 export interface CreateOfferInput {
   name: string;
-  description?: string;
+  description?: string | undefined;
   type: 'percentage_off' | 'fixed_amount_off' | 'fixed_price' | 'bundle';
   value: number;
   productIds: string[];
-  startsAt?: Date;
-  endsAt?: Date;
-  maxRedemptions?: number;
-  maxPerCustomer?: number;
-  badgeText?: string;
+  bundleItems?: BundleItemInput[] | undefined;
+  startsAt?: Date | undefined;
+  endsAt?: Date | undefined;
+  maxRedemptions?: number | undefined;
+  maxPerCustomer?: number | undefined;
+  badgeText?: string | undefined;
 }
 
 export interface UpdateOfferInput {
@@ -103,7 +110,7 @@ export class OfferService {
   async create(creatorId: string, input: CreateOfferInput) {
     // Verify all products belong to creator
     const validProducts = await this.db
-      .select({ id: products.id })
+      .select({ id: products.id, connectionId: products.connectionId })
       .from(products)
       .where(
         and(
@@ -122,6 +129,12 @@ export class OfferService {
       );
     }
 
+    if (input.type === 'bundle') {
+      await this.validateBundle(input, validProducts);
+    } else if (input.bundleItems?.length) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Bundle items are only allowed on bundle offers');
+    }
+
     // Create offer
     const [offer] = await this.db
       .insert(offers)
@@ -145,9 +158,12 @@ export class OfferService {
     }
 
     // Create offer products
+    const bundleItems = new Map(input.bundleItems?.map(item => [item.productId, item]));
     const offerProductsData = input.productIds.map((productId, index) => ({
       offerId: offer.id,
       productId,
+      variantId: bundleItems.get(productId)?.variantId,
+      overrideValue: bundleItems.get(productId)?.overrideValue,
       sortOrder: index,
     }));
 
@@ -164,6 +180,110 @@ export class OfferService {
     };
   }
 
+  /**
+   * Validate a bundle offer: two or more products from one store, a positive
+   * bundle price, and per-item overrides that fit inside that price.
+   */
+  private async validateBundle(
+    input: CreateOfferInput,
+    bundleProducts: Array<{ id: string; connectionId: string }>
+  ) {
+    if (new Set(input.productIds).size < 2) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'A bundle needs at least two products');
+    }
+
+    if (input.value <= 0) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Bundle price must be greater than zero');
+    }
+
+    if (new Set(bundleProducts.map(p => p.connectionId)).size > 1) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Bundle products must come from the same store');
+    }
+
+    const items = input.bundleItems ?? [];
+    const itemProductIds = new Set<string>();
+
+    for (const item of items) {
+      if (!input.productIds.includes(item.productId)) {
+        throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Bundle item is not one of the offer products', {
+          productId: item.productId,
+        });
+      }
+      if (itemProductIds.has(item.productId)) {
+        throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Bundle item listed more than once', {
+          productId: item.productId,
+        });
+      }
+      itemProductIds.add(item.productId);
+    }
+
+    // Pinned variants must belong to their product
+    const pinned = items.filter(item => item.variantId);
+    if (pinned.length > 0) {
+      const found = await this.db
+        .select({ id: variants.id, productId: variants.productId })
+        .from(variants)
+        .where(inArray(variants.id, pinned.map(item => item.variantId!)));
+
+      for (const item of pinned) {
+        if (!found.some(v => v.id === item.variantId && v.productId === item.productId)) {
+          throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Bundle variant does not belong to its product', {
+            productId: item.productId,
+            variantId: item.variantId,
+          });
+        }
+      }
+    }
+
+    this.validateBundleOverrides(
+      input.value,
+      input.productIds.length,
+      items.flatMap(item => (item.overrideValue === undefined ? [] : [item.overrideValue]))
+    );
+  }
+
+  /**
+   * Overrides can't add up to more than the bundle price, and must add up to
+   * exactly the bundle price when every item has one.
+   */
+  private validateBundleOverrides(bundlePrice: number, itemCount: number, overrides: number[]) {
+    const overrideTotal = overrides.reduce((sum, value) => sum + value, 0);
+
+    if (overrideTotal > bundlePrice) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Bundle item prices exceed the bundle price', {
+        bundlePrice,
+        overrideTotal,
+      });
+    }
+
+    if (overrides.length === itemCount && overrideTotal !== bundlePrice) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Bundle item prices must add up to the bundle price', {
+        bundlePrice,
+        overrideTotal,
+      });
+    }
+  }
+
+  /**
+   * Check that a new price still fits an existing bundle's item overrides
+   */
+  async validateBundleValue(offerId: string, value: number) {
+    if (value <= 0) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Bundle price must be greater than zero');
+    }
+
+    const items = await this.db
+      .select({ overrideValue: offerProducts.overrideValue })
+      .from(offerProducts)
+      .where(eq(offerProducts.offerId, offerId));
+
+    this.validateBundleOverrides(
+      value,
+      items.length,
+      items.flatMap(item => (item.overrideValue === null ? [] : [item.overrideValue]))
+    );
+  }
+
   /**
    * Update an existing offer
    */
@@ -178,6 +298,10 @@ export class OfferService {
       throw new AppError(ErrorCodes.NOT_FOUND, 'Offer not found');
     }
 
+    if (existing.type === 'bundle' && input.value !== undefined) {
+      await this.validateBundleValue(offerId, input.value);
+    }
+
     const [updated] = await this.db
       .update(offers)
       .set({
@@ -0,0 +1,74 @@
+import type { checkoutSessions, orders } from '@unifyed/db/schema';
+import type { ParsedOrderLine } from '@unifyed/commerce';
+
+export type CheckoutCartItem = (typeof checkoutSessions.$inferSelect)['cartItems'][number];
+export type OrderLine = NonNullable<(typeof orders.$inferSelect)['lineItems']>[number];
+
+/**
+ * Discount fields for an order line, from the cart line it was sold from
+ */
+export function toDiscountLine(cartLine: CheckoutCartItem, quantity: number) {
+  const offerPrice = cartLine.offerPrice ?? cartLine.price;
+  return {
+    originalPrice: cartLine.price,
+    discount: (cartLine.price - offerPrice) * quantity,
+    ...(cartLine.offerId && { offerId: cartLine.offerId }),
+  };
+}
+
+/**
+ * Match a store order's lines back to the checkout's cart lines, so each
+ * line carries our variant and the offer discount applied to it.
+ *
+ * The same variant can be on several cart lines (in two bundles, or a bundle
+ * and on its own), and stores may keep those lines apart or merge them. Cart
+ * lines are taken in order, by quantity: an order line covering several cart
+ * lines is split into one line per cart line. Quantities no cart line
+ * accounts for are kept without a discount.
+ */
+export function matchOrderLines(
+  lines: ParsedOrderLine[],
+  cartItems: CheckoutCartItem[],
+  externalIdByVariantId: Map<string, string>
+): OrderLine[] {
+  const unmatched = cartItems.map(item => ({
+    item,
+    externalId: externalIdByVariantId.get(item.variantId),
+    quantity: item.quantity,
+  }));
+
+  return lines.flatMap(line => {
+    const matched: OrderLine[] = [];
+    let quantity = line.quantity;
+
+    for (const cartLine of unmatched) {
+      if (quantity === 0) break;
+      if (cartLine.externalId !== line.externalVariantId || cartLine.quantity === 0) continue;
+
+      const taken = Math.min(quantity, cartLine.quantity);
+      cartLine.quantity -= taken;
+      quantity -= taken;
+
+      matched.push({
+        variantId: cartLine.item.variantId,
+        externalVariantId: line.externalVariantId,
+        title: line.title,
+        quantity: taken,
+        price: line.price,
+        ...toDiscountLine(cartLine.item, taken),
+      });
+    }
+
+    if (quantity > 0) {
+      matched.push({
+        variantId: '',
+        externalVariantId: line.externalVariantId,
+        title: line.title,
+        quantity,
+        price: line.price,
+      });
+    }
+
+    return matched;
+  });
+}
@@ -0,0 +1,88 @@
+import type { offers, flashSales } from '@unifyed/db/schema';
+
+/**
+ * A single item inside a bundle, priced per unit in cents
+ */
+export interface BundleComponentPrice {
+  price: number;
+  overrideValue: number | null;
+}
+
+/**
+ * Split a bundle price across its components (per unit, in cents).
+ *
+ * Components with an `overrideValue` get exactly that share. The rest of the
+ * bundle price is split across the remaining components in proportion to
+ * their regular price, with any rounding remainder going to the last one so
+ * the shares always add up to the bundle price.
+ */
+export function allocateBundlePrice(
+  components: BundleComponentPrice[],
+  bundlePrice: number
+): number[] {
+  const overrideTotal = components.reduce((sum, c) => sum + (c.overrideValue ?? 0), 0);
+  const remaining = Math.max(0, bundlePrice - overrideTotal);
+
+  const unassigned = components.filter(c => c.overrideValue === null);
+  const unassignedTotal = unassigned.reduce((sum, c) => sum + c.price, 0);
+  const lastUnassigned = unassigned[unassigned.length - 1];
+
+  let allocated = 0;
+
+  return components.map((component) => {
+    if (component.overrideValue !== null) {
+      return component.overrideValue;
+    }
+
+    if (component === lastUnassigned) {
+      return remaining - allocated;
+    }
+
+    const share = unassignedTotal > 0
+      ? Math.floor((remaining * component.price) / unassignedTotal)
+      : Math.floor(remaining / unassigned.length);
+
+    allocated += share;
+    return share;
+  });
+}
+
+/**
+ * What one unit costs under an offer (in cents).
+ *
+ * Bundle components are charged their allocated share of the bundle price.
+ * A flash sale replaces a percentage offer's percentage with its own; other
+ * offer types get the sale's extra percentage points off the offer price.
+ */
+export function offerUnitPrice(
+  originalPrice: number,
+  offer: Pick<typeof offers.$inferSelect, 'type' | 'value'>,
+  bundleShare?: number,
+  flashSale?: Pick<typeof flashSales.$inferSelect, 'flashDiscount' | 'originalDiscount'>
+): number {
+  let price = originalPrice;
+
+  switch (offer.type) {
+    case 'percentage_off': {
+      const percent = flashSale ? Math.min(100, flashSale.flashDiscount) : offer.value;
+      price = Math.round(originalPrice * (1 - percent / 100));
+      break;
+    }
+    case 'fixed_amount_off':
+      price = Math.max(0, originalPrice - offer.value);
+      break;
+    case 'fixed_price':
+      price = offer.value;
+      break;
+    case 'bundle':
+      price = bundleShare ?? originalPrice;
+      break;
+  }
+
+  if (flashSale && offer.type !== 'percentage_off') {
+    const extraPercent = Math.min(100, Math.max(0, flashSale.flashDiscount - flashSale.originalDiscount));
+    price = Math.round(price * (1 - extraPercent / 100));
+  }
+
+  return price;
+}
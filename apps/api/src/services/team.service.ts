@@ -0,0 +1,289 @@
+import { createHash } from 'crypto';
+import { eq, and, isNull, gt, desc, sql } from 'drizzle-orm';
+import type { Database } from '@unifyed/db';
+import { profiles, teamMembers, teamInvitations } from '@unifyed/db/schema';
+import type { TeamRole } from '@unifyed/types/api';
+import { AppError, ErrorCodes, forbidden, randomHex } from '@unifyed/utils';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface CreateTeamInvitationInput {
+  email: string;
+  role: TeamRole;
+}
+
+function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export class TeamService {
+  constructor(
+    private db: Database,
+    private appUrl: string
+  ) {}
+
+  /**
+   * Members of an account (the owner's own login is implicit and not listed)
+   */
+  async listMembers(creatorId: string) {
+    return this.db
+      .select({
+        id: teamMembers.id,
+        profileId: teamMembers.profileId,
+        email: profiles.email,
+        name: profiles.name,
+        role: teamMembers.role,
+        createdAt: teamMembers.createdAt,
+      })
+      .from(teamMembers)
+      .innerJoin(profiles, eq(teamMembers.profileId, profiles.id))
+      .where(eq(teamMembers.creatorId, creatorId))
+      .orderBy(teamMembers.createdAt);
+  }
+
+  /**
+   * Change a member's role. Only owners can grant or take away ownership.
+   */
+  async updateMember(creatorId: string, actorRole: TeamRole, memberId: string, role: TeamRole) {
+    const member = await this.getMember(creatorId, memberId);
+    this.assertCanManage(actorRole, member.role, role);
+
+    const [updated] = await this.db
+      .update(teamMembers)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(teamMembers.id, memberId))
+      .returning();
+
+    if (!updated) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to update team member');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Remove a member. Takes effect on their next request.
+   */
+  async removeMember(creatorId: string, actorRole: TeamRole, memberId: string) {
+    const member = await this.getMember(creatorId, memberId);
+    this.assertCanManage(actorRole, member.role);
+
+    await this.db
+      .delete(teamMembers)
+      .where(eq(teamMembers.id, memberId));
+  }
+
+  /**
+   * Invitations that can still be accepted
+   */
+  async listInvitations(creatorId: string) {
+    const invitations = await this.db
+      .select()
+      .from(teamInvitations)
+      .where(and(
+        eq(teamInvitations.creatorId, creatorId),
+        isNull(teamInvitations.acceptedAt),
+        isNull(teamInvitations.revokedAt),
+        gt(teamInvitations.expiresAt, new Date())
+      ))
+      .orderBy(desc(teamInvitations.createdAt));
+
+    return invitations.map(toPublicInvitation);
+  }
+
+  /**
+   * Invite someone by email. The invite link (with the token) is returned
+   * only here. Inviting the same email again replaces the pending invitation.
+   */
+  async createInvitation(
+    creatorId: string,
+    invitedBy: string,
+    actorRole: TeamRole,
+    input: CreateTeamInvitationInput
+  ) {
+    this.assertCanManage(actorRole, input.role);
+
+    const email = input.email.toLowerCase();
+
+    const [existingMember] = await this.db
+      .select({ id: teamMembers.id })
+      .from(teamMembers)
+      .innerJoin(profiles, eq(teamMembers.profileId, profiles.id))
+      .where(and(
+        eq(teamMembers.creatorId, creatorId),
+        sql`lower(${profiles.email}) = ${email}`
+      ))
+      .limit(1);
+
+    if (existingMember) {
+      throw new AppError(ErrorCodes.ALREADY_EXISTS, 'This person is already a team member');
+    }
+
+    const token = randomHex(24);
+
+    const invitation = await this.db.transaction(async (tx) => {
+      await tx
+        .update(teamInvitations)
+        .set({ revokedAt: new Date() })
+        .where(and(
+          eq(teamInvitations.creatorId, creatorId),
+          eq(teamInvitations.email, email),
+          isNull(teamInvitations.acceptedAt),
+          isNull(teamInvitations.revokedAt)
+        ));
+
+      const [created] = await tx
+        .insert(teamInvitations)
+        .values({
+          creatorId,
+          email,
+          role: input.role,
+          tokenHash: hashInvitationToken(token),
+          invitedBy,
+          expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+        })
+        .returning();
+
+      return created;
+    });
+
+    if (!invitation) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to create invitation');
+    }
+
+    return {
+      invitation: toPublicInvitation(invitation),
+      inviteUrl: `${this.appUrl}/invite/${token}`,
+    };
+  }
+
+  /**
+   * Revoke a pending invitation
+   */
+  async revokeInvitation(creatorId: string, invitationId: string) {
+    const [invitation] = await this.db
+      .update(teamInvitations)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(teamInvitations.id, invitationId),
+        eq(teamInvitations.creatorId, creatorId),
+        isNull(teamInvitations.acceptedAt),
+        isNull(teamInvitations.revokedAt)
+      ))
+      .returning();
+
+    if (!invitation) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Invitation not found');
+    }
+
+    return toPublicInvitation(invitation);
+  }
+
+  /**
+   * Accept an invitation as the logged-in user. Their email has to match the
+   * invited one, so a forwarded link can't be used by someone else.
+   */
+  async acceptInvitation(profileId: string, token: string) {
+    const [invitation] = await this.db
+      .select()
+      .from(teamInvitations)
+      .where(eq(teamInvitations.tokenHash, hashInvitationToken(token)))
+      .limit(1);
+
+    if (!invitation || invitation.revokedAt || invitation.acceptedAt) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Invitation not found');
+    }
+
+    if (invitation.expiresAt <= new Date()) {
+      throw new AppError(ErrorCodes.CONFLICT, 'Invitation has expired');
+    }
+
+    const [profile] = await this.db
+      .select({ email: profiles.email })
+      .from(profiles)
+      .where(eq(profiles.id, profileId))
+      .limit(1);
+
+    if (!profile || profile.email.toLowerCase() !== invitation.email.toLowerCase()) {
+      throw forbidden('This invitation was sent to a different email address');
+    }
+
+    if (invitation.creatorId === profileId) {
+      throw new AppError(ErrorCodes.CONFLICT, 'You already own this account');
+    }
+
+    const member = await this.db.transaction(async (tx) => {
+      await tx
+        .update(teamInvitations)
+        .set({ acceptedAt: new Date() })
+        .where(eq(teamInvitations.id, invitation.id));
+
+      const [created] = await tx
+        .insert(teamMembers)
+        .values({
+          creatorId: invitation.creatorId,
+          profileId,
+          role: invitation.role,
+          invitedBy: invitation.invitedBy,
+        })
+        .onConflictDoUpdate({
+          target: [teamMembers.creatorId, teamMembers.profileId],
+          set: { role: invitation.role, updatedAt: new Date() },
+        })
+        .returning();
+
+      return created;
+    });
+
+    if (!member) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to accept invitation');
+    }
+
+    return member;
+  }
+
+  /**
+   * Accounts a user can act on besides their own
+   */
+  async listAccounts(profileId: string) {
+    return this.db
+      .select({
+        creatorId: teamMembers.creatorId,
+        name: profiles.name,
+        handle: profiles.handle,
+        role: teamMembers.role,
+      })
+      .from(teamMembers)
+      .innerJoin(profiles, eq(teamMembers.creatorId, profiles.id))
+      .where(eq(teamMembers.profileId, profileId))
+      .orderBy(profiles.name);
+  }
+
+  private async getMember(creatorId: string, memberId: string) {
+    const [member] = await this.db
+      .select()
+      .from(teamMembers)
+      .where(and(
+        eq(teamMembers.id, memberId),
+        eq(teamMembers.creatorId, creatorId)
+      ))
+      .limit(1);
+
+    if (!member) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Team member not found');
+    }
+
+    return member;
+  }
+
+  private assertCanManage(actorRole: TeamRole, ...roles: TeamRole[]) {
+    if (actorRole !== 'owner' && roles.includes('owner')) {
+      throw forbidden('Only an owner can manage owners');
+    }
+  }
+}
+
+function toPublicInvitation(invitation: typeof teamInvitations.$inferSelect) {
+  const { tokenHash: _tokenHash, creatorId: _creatorId, invitedBy: _invitedBy, ...rest } = invitation;
+  return rest;
+}
@@ -0,0 +1,529 @@
+import { eq, and, or, ilike, inArray, desc, gt, count, sql, type SQL } from 'drizzle-orm';
+import type { Database } from '@unifyed/db';
+import { viewers, viewerIdentities, viewerSessions, viewerProducts, products, liveSessions } from '@unifyed/db/schema';
+import type { ChatMessage, ChatPlatform, ChatUser, ChatViewer, ViewerTier } from '@unifyed/types';
+import type { ListViewersQuery } from '@unifyed/types/api';
+import { generateViewerHandle } from '@unifyed/utils';
+
+// Chatters are written in batches; the same few people send most messages
+const FLUSH_INTERVAL_MS = 5000;
+
+// How long a creator's buyer badges are used before reloading them.
+// Purchases are rolled up by the worker, so a new buyer shows up within this.
+const BADGE_TTL_MS = 60_000;
+
+// A buyer becomes a VIP past either threshold
+export const VIP_MIN_LIFETIME_SPEND = 50_000; // cents
+export const VIP_MIN_ORDERS = 5;
+
+const TOP_PRODUCTS_LIMIT = 5;
+const RECENT_SESSIONS_LIMIT = 10;
+
+type ViewerRow = typeof viewers.$inferSelect;
+
+interface PendingChatter {
+  platform: ChatPlatform;
+  user: ChatUser;
+  messages: number;
+  lastSeenAt: Date;
+}
+
+/**
+ * Known buyers, and VIPs among them. Viewers who never bought have no tier.
+ */
+export function viewerTier(viewer: Pick<ViewerRow, 'ordersCount' | 'lifetimeSpend'>): ViewerTier | null {
+  if (viewer.ordersCount === 0) return null;
+  if (viewer.lifetimeSpend >= VIP_MIN_LIFETIME_SPEND || viewer.ordersCount >= VIP_MIN_ORDERS) {
+    return 'vip';
+  }
+  return 'buyer';
+}
+
+function identityKey(platform: string, platformUserId: string): string {
+  return `${platform}:${platformUserId}`;
+}
+
+/**
+ * Viewer Service
+ * Links chat accounts to viewer profiles as people chat, tracks the live
+ * sessions they attend, and badges known buyers on their messages
+ */
+export class ViewerService {
+  private pending: Map<string, Map<string, PendingChatter>> = new Map();
+  private badges: Map<string, { byIdentity: Map<string, ChatViewer>; loadedAt: number }> = new Map();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private db: Database,
+    // The live session chat currently belongs to, for attendance
+    private getLiveSessionId: (creatorId: string) => Promise<string | null> = async () => null
+  ) {}
+
+  /**
+   * Queue a chatter for the creator's viewer graph. Written on the next flush.
+   */
+  record(creatorId: string, message: ChatMessage): void {
+    if (message.type === 'system' || !message.user.id) return;
+
+    const batch = this.pending.get(creatorId) ?? new Map<string, PendingChatter>();
+    const key = identityKey(message.platform, message.user.id);
+    const entry = batch.get(key);
+
+    if (entry) {
+      entry.user = message.user;
+      entry.messages += 1;
+      entry.lastSeenAt = message.timestamp;
+    } else {
+      batch.set(key, { platform: message.platform, user: message.user, messages: 1, lastSeenAt: message.timestamp });
+    }
+    this.pending.set(creatorId, batch);
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        void this.flushAll();
+      }, FLUSH_INTERVAL_MS);
+      this.flushTimer.unref();
+    }
+  }
+
+  /**
+   * The author's buyer badge, from the creator's loaded badges
+   */
+  badgeFor(creatorId: string, message: ChatMessage): ChatViewer | undefined {
+    return this.badges.get(creatorId)?.byIdentity.get(identityKey(message.platform, message.user.id));
+  }
+
+  /**
+   * Load the chat accounts of the creator's buyers, so their messages can be
+   * badged without a lookup
+   */
+  async loadBadges(creatorId: string): Promise<void> {
+    const rows = await this.db
+      .select({
+        platform: viewerIdentities.platform,
+        platformUserId: viewerIdentities.platformUserId,
+        viewer: viewers,
+      })
+      .from(viewerIdentities)
+      .innerJoin(viewers, eq(viewerIdentities.viewerId, viewers.id))
+      .where(and(eq(viewerIdentities.creatorId, creatorId), gt(viewers.ordersCount, 0)));
+
+    const byIdentity = new Map<string, ChatViewer>();
+    for (const row of rows) {
+      const tier = viewerTier(row.viewer);
+      if (!tier) continue;
+
+      byIdentity.set(identityKey(row.platform, row.platformUserId), {
+        id: row.viewer.id,
+        tier,
+        ordersCount: row.viewer.ordersCount,
+        lifetimeSpend: row.viewer.lifetimeSpend,
+        sessionsAttended: row.viewer.sessionsAttended,
+      });
+    }
+
+    this.badges.set(creatorId, { byIdentity, loadedAt: Date.now() });
+  }
+
+  /**
+   * Drop a creator's badges, e.g. when chat stops
+   */
+  forget(creatorId: string): void {
+    this.badges.delete(creatorId);
+  }
+
+  /**
+   * Write a creator's queued chatters: new accounts get a viewer profile, and
+   * everyone is counted as attending the current live session
+   */
+  async flush(creatorId: string): Promise<void> {
+    const batch = this.pending.get(creatorId);
+    if (batch && batch.size > 0) {
+      this.pending.delete(creatorId);
+
+      try {
+        const chatters = Array.from(batch.values());
+        const viewerIds = await this.linkIdentities(creatorId, chatters);
+        await this.recordAttendance(creatorId, chatters, viewerIds);
+      } catch (error) {
+        console.error(`👤 Failed to store ${batch.size} viewer(s) for creator ${creatorId}:`, error);
+      }
+    }
+
+    const badges = this.badges.get(creatorId);
+    if (badges && Date.now() - badges.loadedAt >= BADGE_TTL_MS) {
+      await this.loadBadges(creatorId).catch(error => {
+        console.error(`👤 Failed to reload viewer badges for creator ${creatorId}:`, error);
+      });
+    }
+  }
+
+  async flushAll(): Promise<void> {
+    await Promise.allSettled(Array.from(this.pending.keys()).map(id => this.flush(id)));
+  }
+
+  /**
+   * Flush everything and stop the timer (for graceful shutdown)
+   */
+  async close(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flushAll();
+  }
+
+  /**
+   * The viewer behind each chat account, creating profiles for new ones
+   */
+  private async linkIdentities(creatorId: string, chatters: PendingChatter[]): Promise<Map<string, string>> {
+    const existing = await this.db
+      .select()
+      .from(viewerIdentities)
+      .where(and(
+        eq(viewerIdentities.creatorId, creatorId),
+        inArray(viewerIdentities.platformUserId, chatters.map(chatter => chatter.user.id))
+      ));
+
+    const byKey = new Map(existing.map(row => [identityKey(row.platform, row.platformUserId), row]));
+    const viewerIds = new Map<string, string>();
+    const seenIds: string[] = [];
+    const missing: PendingChatter[] = [];
+
+    for (const chatter of chatters) {
+      const key = identityKey(chatter.platform, chatter.user.id);
+      const row = byKey.get(key);
+      if (!row) {
+        missing.push(chatter);
+        continue;
+      }
+
+      viewerIds.set(key, row.viewerId);
+      const profileImageUrl = chatter.user.profileImageUrl ?? null;
+      if (row.username === chatter.user.username && row.profileImageUrl === profileImageUrl) {
+        seenIds.push(row.id);
+        continue;
+      }
+
+      // Renamed, or a new avatar
+      await this.db
+        .update(viewerIdentities)
+        .set({ username: chatter.user.username, profileImageUrl, lastSeenAt: chatter.lastSeenAt })
+        .where(eq(viewerIdentities.id, row.id));
+    }
+
+    if (seenIds.length > 0) {
+      await this.db
+        .update(viewerIdentities)
+        .set({ lastSeenAt: new Date() })
+        .where(inArray(viewerIdentities.id, seenIds));
+    }
+
+    if (missing.length === 0) return viewerIds;
+
+    const handles = missing.map(() => generateViewerHandle());
+    const created = await this.db
+      .insert(viewers)
+      .values(missing.map((chatter, index) => ({
+        creatorId,
+        handle: handles[index]!,
+        displayName: chatter.user.username,
+        firstSeenAt: chatter.lastSeenAt,
+        lastSeenAt: chatter.lastSeenAt,
+      })))
+      .returning({ id: viewers.id, handle: viewers.handle });
+
+    const idByHandle = new Map(created.map(row => [row.handle, row.id]));
+    const inserted = await this.db
+      .insert(viewerIdentities)
+      .values(missing.map((chatter, index) => ({
+        viewerId: idByHandle.get(handles[index]!)!,
+        creatorId,
+        platform: chatter.platform,
+        platformUserId: chatter.user.id,
+        username: chatter.user.username,
+        profileImageUrl: chatter.user.profileImageUrl ?? null,
+        firstSeenAt: chatter.lastSeenAt,
+        lastSeenAt: chatter.lastSeenAt,
+      })))
+      .onConflictDoNothing()
+      .returning({ viewerId: viewerIdentities.viewerId, platform: viewerIdentities.platform, platformUserId: viewerIdentities.platformUserId });
+
+    for (const row of inserted) {
+      viewerIds.set(identityKey(row.platform, row.platformUserId), row.viewerId);
+    }
+
+    // Another instance linked some of these accounts first: use its
+    // profiles and drop the ones we just made
+    if (inserted.length < missing.length) {
+      const linked = new Set(inserted.map(row => row.viewerId));
+      const orphaned = created.filter(row => !linked.has(row.id)).map(row => row.id);
+      await this.db.delete(viewers).where(inArray(viewers.id, orphaned));
+
+      const raced = await this.db
+        .select({ viewerId: viewerIdentities.viewerId, platform: viewerIdentities.platform, platformUserId: viewerIdentities.platformUserId })
+        .from(viewerIdentities)
+        .where(and(
+          eq(viewerIdentities.creatorId, creatorId),
+          inArray(viewerIdentities.platformUserId, missing.map(chatter => chatter.user.id))
+        ));
+      for (const row of raced) {
+        viewerIds.set(identityKey(row.platform, row.platformUserId), row.viewerId);
+      }
+    }
+
+    return viewerIds;
+  }
+
+  /**
+   * Count the chatters' messages against the current live session and keep
+   * each viewer's sessions-attended count in step
+   */
+  private async recordAttendance(
+    creatorId: string,
+    chatters: PendingChatter[],
+    viewerIds: Map<string, string>
+  ): Promise<void> {
+    // One viewer can chat from several accounts
+    const byViewer = new Map<string, { messages: number; lastSeenAt: Date }>();
+    for (const chatter of chatters) {
+      const viewerId = viewerIds.get(identityKey(chatter.platform, chatter.user.id));
+      if (!viewerId) continue;
+
+      const entry = byViewer.get(viewerId);
+      if (entry) {
+        entry.messages += chatter.messages;
+        if (chatter.lastSeenAt > entry.lastSeenAt) entry.lastSeenAt = chatter.lastSeenAt;
+      } else {
+        byViewer.set(viewerId, { messages: chatter.messages, lastSeenAt: chatter.lastSeenAt });
+      }
+    }
+
+    const ids = Array.from(byViewer.keys());
+    if (ids.length === 0) return;
+
+    const liveSessionId = await this.getLiveSessionId(creatorId);
+    if (liveSessionId) {
+      await this.db
+        .insert(viewerSessions)
+        .values(Array.from(byViewer, ([viewerId, entry]) => ({
+          viewerId,
+          liveSessionId,
+          messageCount: entry.messages,
+          lastSeenAt: entry.lastSeenAt,
+        })))
+        .onConflictDoUpdate({
+          target: [viewerSessions.viewerId, viewerSessions.liveSessionId],
+          set: {
+            messageCount: sql`${viewerSessions.messageCount} + excluded.message_count`,
+            lastSeenAt: sql`excluded.last_seen_at`,
+          },
+        });
+    }
+
+    await this.db
+      .update(viewers)
+      .set({
+        lastSeenAt: new Date(),
+        updatedAt: new Date(),
+        ...(liveSessionId && {
+          sessionsAttended: sql`(select count(*) from ${viewerSessions} where ${viewerSessions.viewerId} = ${viewers.id})::int`,
+        }),
+      })
+      .where(inArray(viewers.id, ids));
+  }
+
+  /**
+   * The viewer behind a chat account, creating the profile if the account
+   * hasn't been written yet (e.g. when replying to its first message)
+   */
+  async identify(creatorId: string, platform: ChatPlatform, user: ChatUser): Promise<{ id: string; handle: string }> {
+    const viewerIds = await this.linkIdentities(creatorId, [{ platform, user, messages: 0, lastSeenAt: new Date() }]);
+    const viewerId = viewerIds.get(identityKey(platform, user.id));
+
+    const [viewer] = viewerId
+      ? await this.db
+          .select({ id: viewers.id, handle: viewers.handle })
+          .from(viewers)
+          .where(eq(viewers.id, viewerId))
+          .limit(1)
+      : [];
+
+    if (!viewer) {
+      throw new Error(`Failed to identify ${platform} user ${user.id}`);
+    }
+    return viewer;
+  }
+
+  // ============================================
+  // Reads
+  // ============================================
+
+  /**
+   * A page of the creator's viewers
+   */
+  async list(creatorId: string, query: ListViewersQuery) {
+    const { page, limit } = query;
+    const conditions: SQL[] = [eq(viewers.creatorId, creatorId)];
+
+    if (query.tier === 'buyer') {
+      conditions.push(gt(viewers.ordersCount, 0));
+    } else if (query.tier === 'vip') {
+      conditions.push(or(
+        sql`${viewers.lifetimeSpend} >= ${VIP_MIN_LIFETIME_SPEND}`,
+        sql`${viewers.ordersCount} >= ${VIP_MIN_ORDERS}`
+      )!);
+      conditions.push(gt(viewers.ordersCount, 0));
+    }
+
+    if (query.q) {
+      const pattern = `%${query.q.replace(/[%_\\]/g, '\\$&')}%`;
+      conditions.push(or(
+        ilike(viewers.displayName, pattern),
+        ilike(viewers.email, pattern),
+        eq(viewers.handle, query.q.toLowerCase()),
+        sql`exists (select 1 from ${viewerIdentities} where ${viewerIdentities.viewerId} = ${viewers.id} and ${viewerIdentities.username} ilike ${pattern})`
+      )!);
+    }
+
+    const orderBy = {
+      spend: [desc(viewers.lifetimeSpend), desc(viewers.lastSeenAt)],
+      recent: [desc(viewers.lastSeenAt)],
+      sessions: [desc(viewers.sessionsAttended), desc(viewers.lastSeenAt)],
+    }[query.sort];
+
+    const [countResult] = await this.db
+      .select({ count: count() })
+      .from(viewers)
+      .where(and(...conditions));
+
+    const total = Number(countResult?.count ?? 0);
+
+    const rows = await this.db
+      .select()
+      .from(viewers)
+      .where(and(...conditions))
+      .orderBy(...orderBy)
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    const identities = rows.length > 0
+      ? await this.db
+          .select()
+          .from(viewerIdentities)
+          .where(inArray(viewerIdentities.viewerId, rows.map(row => row.id)))
+      : [];
+
+    return {
+      viewers: rows.map(row => ({
+        ...toViewerResponse(row),
+        identities: identities.filter(identity => identity.viewerId === row.id).map(toIdentityResponse),
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * A viewer's profile: chat accounts, top products and recent sessions
+   */
+  async get(creatorId: string, viewerId: string) {
+    const [viewer] = await this.db
+      .select()
+      .from(viewers)
+      .where(and(eq(viewers.id, viewerId), eq(viewers.creatorId, creatorId)))
+      .limit(1);
+
+    if (!viewer) return null;
+
+    const identities = await this.db
+      .select()
+      .from(viewerIdentities)
+      .where(eq(viewerIdentities.viewerId, viewer.id))
+      .orderBy(desc(viewerIdentities.lastSeenAt));
+
+    const topProducts = await this.db
+      .select({
+        productId: viewerProducts.productId,
+        title: products.title,
+        imageUrl: products.imageUrl,
+        quantity: viewerProducts.quantity,
+        revenue: viewerProducts.revenue,
+        lastPurchasedAt: viewerProducts.lastPurchasedAt,
+      })
+      .from(viewerProducts)
+      .innerJoin(products, eq(viewerProducts.productId, products.id))
+      .where(eq(viewerProducts.viewerId, viewer.id))
+      .orderBy(desc(viewerProducts.revenue), desc(viewerProducts.quantity))
+      .limit(TOP_PRODUCTS_LIMIT);
+
+    const recentSessions = await this.db
+      .select({
+        liveSessionId: viewerSessions.liveSessionId,
+        title: liveSessions.title,
+        startedAt: liveSessions.startedAt,
+        messageCount: viewerSessions.messageCount,
+        firstSeenAt: viewerSessions.firstSeenAt,
+      })
+      .from(viewerSessions)
+      .innerJoin(liveSessions, eq(viewerSessions.liveSessionId, liveSessions.id))
+      .where(eq(viewerSessions.viewerId, viewer.id))
+      .orderBy(desc(viewerSessions.firstSeenAt))
+      .limit(RECENT_SESSIONS_LIMIT);
+
+    return {
+      ...toViewerResponse(viewer),
+      identities: identities.map(toIdentityResponse),
+      topProducts,
+      recentSessions,
+    };
+  }
+
+  /**
+   * The viewer behind a chat account, if it has chatted before
+   */
+  async lookup(creatorId: string, platform: ChatPlatform, platformUserId: string) {
+    const [identity] = await this.db
+      .select({ viewerId: viewerIdentities.viewerId })
+      .from(viewerIdentities)
+      .where(and(
+        eq(viewerIdentities.creatorId, creatorId),
+        eq(viewerIdentities.platform, platform),
+        eq(viewerIdentities.platformUserId, platformUserId)
+      ))
+      .limit(1);
+
+    return identity ? this.get(creatorId, identity.viewerId) : null;
+  }
+}
+
+function toViewerResponse(viewer: ViewerRow) {
+  return {
+    id: viewer.id,
+    handle: viewer.handle,
+    displayName: viewer.displayName,
+    email: viewer.email,
+    tier: viewerTier(viewer),
+    ordersCount: viewer.ordersCount,
+    lifetimeSpend: viewer.lifetimeSpend,
+    sessionsAttended: viewer.sessionsAttended,
+    firstSeenAt: viewer.firstSeenAt,
+    lastSeenAt: viewer.lastSeenAt,
+    lastPurchaseAt: viewer.lastPurchaseAt,
+  };
+}
+
+function toIdentityResponse(identity: typeof viewerIdentities.$inferSelect) {
+  return {
+    platform: identity.platform,
+    platformUserId: identity.platformUserId,
+    username: identity.username,
+    profileImageUrl: identity.profileImageUrl,
+    lastSeenAt: identity.lastSeenAt,
+  };
+}
@@ -0,0 +1,258 @@
+import { eq, and, count, desc } from 'drizzle-orm';
+import type { Database } from '@unifyed/db';
+import { webhookEndpoints, webhookDeliveries } from '@unifyed/db/schema';
+import { AppError, ErrorCodes, encrypt, randomHex, assertPublicUrl } from '@unifyed/utils';
+import { EVENT_TYPES } from '@unifyed/events';
+
+const MAX_ENDPOINTS_PER_CREATOR = 10;
+
+export interface CreateWebhookEndpointInput {
+  url: string;
+  description?: string | undefined;
+  eventTypes: string[];
+}
+
+export interface UpdateWebhookEndpointInput {
+  url?: string | undefined;
+  description?: string | null | undefined;
+  eventTypes?: string[] | undefined;
+  isActive?: boolean | undefined;
+}
+
+export class WebhookEndpointService {
+  constructor(
+    private db: Database,
+    private credentialsEncryptionKey: string
+  ) {}
+
+  /**
+   * List a creator's webhook endpoints
+   */
+  async list(creatorId: string) {
+    const endpoints = await this.db
+      .select()
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.creatorId, creatorId))
+      .orderBy(webhookEndpoints.createdAt);
+
+    return endpoints.map(toPublicEndpoint);
+  }
+
+  /**
+   * Get a single endpoint
+   */
+  async get(creatorId: string, endpointId: string) {
+    return toPublicEndpoint(await this.getRow(creatorId, endpointId));
+  }
+
+  /**
+   * Create an endpoint. The signing secret is returned only here.
+   */
+  async create(creatorId: string, input: CreateWebhookEndpointInput) {
+    this.validateEventTypes(input.eventTypes);
+    await assertPublicUrl(input.url);
+
+    const [existing] = await this.db
+      .select({ count: count() })
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.creatorId, creatorId));
+
+    if (Number(existing?.count ?? 0) >= MAX_ENDPOINTS_PER_CREATOR) {
+      throw new AppError(
+        ErrorCodes.VALIDATION_ERROR,
+        `A creator can have at most ${MAX_ENDPOINTS_PER_CREATOR} webhook endpoints`
+      );
+    }
+
+    const secret = `whsec_${randomHex(24)}`;
+
+    const [endpoint] = await this.db
+      .insert(webhookEndpoints)
+      .values({
+        creatorId,
+        url: input.url,
+        description: input.description ?? null,
+        eventTypes: [...new Set(input.eventTypes)],
+        secret: encrypt(secret, this.credentialsEncryptionKey),
+      })
+      .returning();
+
+    if (!endpoint) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to create webhook endpoint');
+    }
+
+    return { endpoint: toPublicEndpoint(endpoint), secret };
+  }
+
+  /**
+   * Update url, description, event filters or active flag
+   */
+  async update(creatorId: string, endpointId: string, input: UpdateWebhookEndpointInput) {
+    await this.getRow(creatorId, endpointId);
+
+    if (input.eventTypes) {
+      this.validateEventTypes(input.eventTypes);
+    }
+
+    if (input.url !== undefined) {
+      await assertPublicUrl(input.url);
+    }
+
+    const [updated] = await this.db
+      .update(webhookEndpoints)
+      .set({
+        ...(input.url !== undefined && { url: input.url }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.eventTypes !== undefined && { eventTypes: [...new Set(input.eventTypes)] }),
+        // Re-enabling an endpoint starts its failure streak over
+        ...(input.isActive !== undefined && {
+          isActive: input.isActive,
+          ...(input.isActive && { consecutiveFailures: 0 }),
+        }),
+        updatedAt: new Date(),
+      })
+      .where(eq(webhookEndpoints.id, endpointId))
+      .returning();
+
+    if (!updated) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to update webhook endpoint');
+    }
+
+    return toPublicEndpoint(updated);
+  }
+
+  /**
+   * Delete an endpoint (and its delivery log)
+   */
+  async delete(creatorId: string, endpointId: string) {
+    await this.getRow(creatorId, endpointId);
+
+    await this.db
+      .delete(webhookEndpoints)
+      .where(eq(webhookEndpoints.id, endpointId));
+  }
+
+  /**
+   * Delivery log for an endpoint, newest first
+   */
+  async listDeliveries(
+    creatorId: string,
+    endpointId: string,
+    options: { page: number; limit: number; status?: 'pending' | 'succeeded' | 'failed' | undefined }
+  ) {
+    await this.getRow(creatorId, endpointId);
+
+    const { page, limit, status } = options;
+    const offset = (page - 1) * limit;
+
+    const conditions = [eq(webhookDeliveries.endpointId, endpointId)];
+    if (status) {
+      conditions.push(eq(webhookDeliveries.status, status));
+    }
+
+    const [countResult] = await this.db
+      .select({ count: count() })
+      .from(webhookDeliveries)
+      .where(and(...conditions));
+
+    const total = Number(countResult?.count ?? 0);
+
+    const deliveries = await this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    return {
+      deliveries: deliveries.map(toPublicDelivery),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Queue a fresh delivery of the same event. The original row is kept
+   * so the log shows every attempt.
+   */
+  async redeliver(creatorId: string, endpointId: string, deliveryId: string) {
+    const endpoint = await this.getRow(creatorId, endpointId);
+
+    if (!endpoint.isActive) {
+      throw new AppError(ErrorCodes.CONFLICT, 'Webhook endpoint is disabled');
+    }
+
+    const [original] = await this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(
+        eq(webhookDeliveries.id, deliveryId),
+        eq(webhookDeliveries.endpointId, endpointId)
+      ))
+      .limit(1);
+
+    if (!original) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Webhook delivery not found');
+    }
+
+    const [delivery] = await this.db
+      .insert(webhookDeliveries)
+      .values({
+        endpointId,
+        creatorId,
+        eventId: original.eventId,
+        eventType: original.eventType,
+        redeliveryOf: original.redeliveryOf ?? original.id,
+      })
+      .returning();
+
+    if (!delivery) {
+      throw new AppError(ErrorCodes.INTERNAL_ERROR, 'Failed to create webhook delivery');
+    }
+
+    return toPublicDelivery(delivery);
+  }
+
+  private async getRow(creatorId: string, endpointId: string) {
+    const [endpoint] = await this.db
+      .select()
+      .from(webhookEndpoints)
+      .where(and(
+        eq(webhookEndpoints.id, endpointId),
+        eq(webhookEndpoints.creatorId, creatorId)
+      ))
+      .limit(1);
+
+    if (!endpoint) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Webhook endpoint not found');
+    }
+
+    return endpoint;
+  }
+
+  private validateEventTypes(eventTypes: string[]) {
+    const known = new Set<string>(Object.values(EVENT_TYPES));
+    const unknown = eventTypes.filter(type => !known.has(type));
+
+    if (unknown.length > 0) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Unknown event types', { eventTypes: unknown });
+    }
+  }
+}
+
+function toPublicEndpoint(endpoint: typeof webhookEndpoints.$inferSelect) {
+  const { secret: _secret, creatorId: _creatorId, ...rest } = endpoint;
+  return rest;
+}
+
+// Response bodies stay in the database for support; echoing whatever a
+// remote server sent back isn't part of the API
+function toPublicDelivery(delivery: typeof webhookDeliveries.$inferSelect) {
+  const { creatorId: _creatorId, updatedAt: _updatedAt, responseBody: _responseBody, ...rest } = delivery;
+  return rest;
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useState, useCallback } from 'react';
+import { getVisitorId } from '@/lib/visitor';
 
 interface OfferProduct {
   id: string;
@@ -34,18 +35,6 @@ interface CreatorContentProps {
   apiUrl: string;
 }
 
-// Get or create visitor ID
-function getVisitorId(): string {
-  if (typeof window === 'undefined') return '';
-  
-  let visitorId = localStorage.getItem('unifyed_visitor_id');
-  if (!visitorId) {
-    visitorId = `v_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    localStorage.setItem('unifyed_visitor_id', visitorId);
-  }
-  return visitorId;
-}
-
 // Format price
 function formatPrice(cents: number, currency: string): string {
   const amount = cents / 100;
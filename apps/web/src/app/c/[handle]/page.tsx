@@ -1,4 +1,6 @@
+import { cookies } from 'next/headers';
 import { notFound } from 'next/navigation';
+import { VISITOR_COOKIE } from '@/lib/visitor';
 import { CreatorContent } from './CreatorContent';
 
 interface LinkInBioPageProps {
@@ -10,10 +12,14 @@ export default async function LinkInBioPage({ params }: LinkInBioPageProps) {
   const { handle } = await params;
   
   const apiUrl = process.env.NEXT_PUBLIC_API_URL || process.env.API_URL || 'http://localhost:3001';
+  const visitorId = (await cookies()).get(VISITOR_COOKIE)?.value;
   
   try {
     const response = await fetch(`${apiUrl}/public/creators/${handle}`, {
-      next: { revalidate: 60 }, // Revalidate every 60 seconds
+      // Prices and links depend on the visitor (offer experiments), so this
+      // response isn't shared between visitors
+      headers: visitorId ? { 'x-visitor-id': visitorId } : {},
+      cache: 'no-store',
     });
 
     if (!response.ok) {
@@ -69,6 +69,25 @@ interface DashboardData {
   recentOrders: RecentOrder[];
 }
 
+interface CohortStats {
+  buyers: number;
+  repeatBuyers: number;
+  repeatRate: number;
+  medianDaysToSecondOrder: number | null;
+  avgOrders: number;
+  ltv: number;
+  revenue: number;
+}
+
+interface WeeklyCohort extends CohortStats {
+  week: string;
+  surface: string;
+}
+
+interface PlatformCohort extends CohortStats {
+  platform: string;
+}
+
 const PERIODS = [
   { value: '7d', label: 'Last 7 Days' },
   { value: '30d', label: 'Last 30 Days' },
@@ -103,6 +122,7 @@ const SURFACE_LABELS: Record<string, string> = {
 };
 
 export default function AnalyticsPage() {
+  const [activeTab, setActiveTab] = useState<'overview' | 'cohorts'>('overview');
   const [period, setPeriod] = useState<'7d' | '30d' | '90d'>('7d');
   const [data, setData] = useState<DashboardData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -175,7 +195,7 @@ export default function AnalyticsPage() {
         <Header 
           title="Analytics" 
           subtitle="Track your performance across all platforms"
-          actions={
+          actions={activeTab === 'overview' && (
             <div className="flex gap-2">
               {PERIODS.map((p) => (
                 <button
@@ -191,7 +211,7 @@ export default function AnalyticsPage() {
                 </button>
               ))}
             </div>
-          }
+          )}
         />
 
         {error && (
@@ -203,7 +223,26 @@ export default function AnalyticsPage() {
           </div>
         )}
 
-        {data && (
+        {/* Tabs */}
+        <div className="flex gap-1 mb-6 border-b border-gray-200">
+          {(['overview', 'cohorts'] as const).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-4 py-2 text-sm font-medium capitalize border-b-2 transition-colors ${
+                activeTab === tab
+                  ? 'border-indigo-600 text-indigo-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'cohorts' && <CohortsTab formatCurrency={formatCurrency} />}
+
+        {activeTab === 'overview' && data && (
           <>
             {/* Summary Stats */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
@@ -436,6 +475,181 @@ export default function AnalyticsPage() {
   );
 }
 
+const COHORT_WEEKS = [
+  { value: 4, label: '4 Weeks' },
+  { value: 12, label: '12 Weeks' },
+  { value: 26, label: '26 Weeks' },
+];
+
+// Buyer Cohorts Tab
+function CohortsTab({ formatCurrency }: { formatCurrency: (value: number) => string }) {
+  const [weeks, setWeeks] = useState(12);
+  const [cohorts, setCohorts] = useState<WeeklyCohort[]>([]);
+  const [platforms, setPlatforms] = useState<PlatformCohort[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCohorts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const supabase = createClient();
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session?.access_token) {
+        setError('Not authenticated');
+        return;
+      }
+
+      const apiUrl = process.env['NEXT_PUBLIC_API_URL'] || 'http://localhost:3001';
+      const headers = { Authorization: `Bearer ${session.access_token}` };
+      const [cohortsRes, platformsRes] = await Promise.all([
+        fetch(`${apiUrl}/analytics/cohorts?weeks=${weeks}`, { headers }),
+        fetch(`${apiUrl}/analytics/cohorts/platforms?weeks=${weeks}`, { headers }),
+      ]);
+
+      if (!cohortsRes.ok || !platformsRes.ok) {
+        throw new Error('Failed to fetch cohorts');
+      }
+
+      setCohorts((await cohortsRes.json()).cohorts);
+      setPlatforms((await platformsRes.json()).platforms);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load cohorts');
+    } finally {
+      setLoading(false);
+    }
+  }, [weeks]);
+
+  useEffect(() => {
+    fetchCohorts();
+  }, [fetchCohorts]);
+
+  const formatDays = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)} days`);
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-6">
+        <p className="text-sm text-gray-500">
+          Buyers grouped by when and where they first bought. Repeat orders count toward LTV whenever they happen.
+        </p>
+        <div className="flex gap-2">
+          {COHORT_WEEKS.map((w) => (
+            <button
+              key={w.value}
+              onClick={() => setWeeks(w.value)}
+              className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                weeks === w.value
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {w.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          {error}
+          <button onClick={() => setError(null)} className="ml-4 text-red-500 hover:text-red-700">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : (
+        <>
+          {/* By Acquisition Platform */}
+          <div className="bg-white rounded-xl border border-gray-200 p-6 mb-8">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Buyers by Acquisition Platform</h2>
+            {platforms.length === 0 ? (
+              <EmptyState message="No buyers yet" />
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-left text-sm text-gray-500 border-b border-gray-200">
+                      <th className="pb-3 font-medium">Platform</th>
+                      <th className="pb-3 font-medium text-right">Buyers</th>
+                      <th className="pb-3 font-medium text-right">Repeat Rate</th>
+                      <th className="pb-3 font-medium text-right">Time to 2nd Order</th>
+                      <th className="pb-3 font-medium text-right">Orders / Buyer</th>
+                      <th className="pb-3 font-medium text-right">LTV</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {platforms.map((row) => (
+                      <tr key={row.platform} className="text-sm">
+                        <td className="py-3">
+                          <span className="inline-flex items-center gap-1">
+                            {PLATFORM_ICONS[row.platform] || '🔗'}
+                            <span className="capitalize">{row.platform}</span>
+                          </span>
+                        </td>
+                        <td className="py-3 text-right text-gray-900">{row.buyers}</td>
+                        <td className="py-3 text-right text-gray-900">{row.repeatRate.toFixed(1)}%</td>
+                        <td className="py-3 text-right text-gray-500">{formatDays(row.medianDaysToSecondOrder)}</td>
+                        <td className="py-3 text-right text-gray-500">{row.avgOrders.toFixed(2)}</td>
+                        <td className="py-3 text-right font-medium text-gray-900">{formatCurrency(row.ltv)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* By First-Purchase Week */}
+          <div className="bg-white rounded-xl border border-gray-200 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Weekly Cohorts</h2>
+            {cohorts.length === 0 ? (
+              <EmptyState message="No buyers yet" />
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-left text-sm text-gray-500 border-b border-gray-200">
+                      <th className="pb-3 font-medium">First Purchase Week</th>
+                      <th className="pb-3 font-medium">Source</th>
+                      <th className="pb-3 font-medium text-right">Buyers</th>
+                      <th className="pb-3 font-medium text-right">Repeat Rate</th>
+                      <th className="pb-3 font-medium text-right">Time to 2nd Order</th>
+                      <th className="pb-3 font-medium text-right">LTV</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {cohorts.map((row) => (
+                      <tr key={`${row.week}-${row.surface}`} className="text-sm">
+                        <td className="py-3 text-gray-900">
+                          {new Date(`${row.week}T00:00:00Z`).toLocaleDateString('en-US', {
+                            month: 'short',
+                            day: 'numeric',
+                            timeZone: 'UTC',
+                          })}
+                        </td>
+                        <td className="py-3 text-gray-500">{SURFACE_LABELS[row.surface] || row.surface}</td>
+                        <td className="py-3 text-right text-gray-900">{row.buyers}</td>
+                        <td className="py-3 text-right text-gray-900">{row.repeatRate.toFixed(1)}%</td>
+                        <td className="py-3 text-right text-gray-500">{formatDays(row.medianDaysToSecondOrder)}</td>
+                        <td className="py-3 text-right font-medium text-gray-900">{formatCurrency(row.ltv)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </>
+  );
+}
+
 // Stat Card Component
 function StatCard({
   title,
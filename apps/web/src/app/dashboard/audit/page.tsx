@@ -0,0 +1,265 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Header } from '@/components/dashboard';
+import { createClient } from '@/lib/supabase/client';
+
+interface AuditEntry {
+  id: string;
+  actorType: 'user' | 'api_key';
+  actorId: string;
+  actorRole: string | null;
+  actorName: string | null;
+  action: string;
+  resourceType: string;
+  resourceId: string | null;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  reason: string | null;
+  method: string;
+  route: string;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+const RESOURCE_FILTERS: Array<{ value: string; label: string }> = [
+  { value: '', label: 'All Changes' },
+  { value: 'offer', label: 'Offers' },
+  { value: 'link', label: 'Links' },
+  { value: 'live_session', label: 'Product Queue' },
+  { value: 'platform_connection', label: 'Connections' },
+  { value: 'stripe_connect', label: 'Payments' },
+];
+
+const PAGE_SIZE = 25;
+
+export default function AuditPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [resourceType, setResourceType] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const supabase = createClient();
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session?.access_token) {
+        setError('Not authenticated');
+        setLoading(false);
+        return;
+      }
+
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (resourceType) {
+        params.set('resourceType', resourceType);
+      }
+
+      const apiUrl = process.env['NEXT_PUBLIC_API_URL'] || 'http://localhost:3001';
+      const res = await fetch(`${apiUrl}/audit?${params}`, {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+
+      if (res.status === 403) {
+        throw new Error('Only the account owner and managers can view the activity log');
+      }
+      if (!res.ok) {
+        throw new Error('Failed to fetch activity log');
+      }
+
+      const data = await res.json();
+      setEntries(data.entries || []);
+      setPagination(data.pagination || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load activity log');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, resourceType]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="p-8">
+        <Header
+          title="Activity Log"
+          subtitle="Who changed offers, links, the product queue, connections and payouts"
+        />
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+            {error}
+            <button onClick={() => setError(null)} className="ml-4 text-red-500 hover:text-red-700">
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-2 mb-6">
+          {RESOURCE_FILTERS.map((filter) => (
+            <button
+              key={filter.value}
+              onClick={() => {
+                setResourceType(filter.value);
+                setPage(1);
+              }}
+              className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                resourceType === filter.value
+                  ? 'bg-indigo-100 text-indigo-700'
+                  : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
+            <div className="text-4xl mb-4">📋</div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No activity yet</h3>
+            <p className="text-gray-500">
+              Changes to offers, links, the product queue, connections and payouts will show up here.
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+            {entries.map((entry) => (
+              <AuditRow
+                key={entry.id}
+                entry={entry}
+                expanded={expandedId === entry.id}
+                onToggle={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {pagination && pagination.totalPages > 1 && (
+          <div className="mt-6 flex items-center justify-between text-sm text-gray-500">
+            <span>
+              Page {pagination.page} of {pagination.totalPages} ({pagination.total} changes)
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="px-3 py-2 font-medium text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pagination.totalPages}
+                className="px-3 py-2 font-medium text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface AuditRowProps {
+  entry: AuditEntry;
+  expanded: boolean;
+  onToggle: () => void;
+}
+
+function AuditRow({ entry, expanded, onToggle }: AuditRowProps) {
+  const fields = Object.keys(entry.changes);
+  const actor = entry.actorType === 'api_key'
+    ? `🔑 ${entry.actorName || 'API key'}`
+    : entry.actorName || 'Unknown user';
+
+  return (
+    <div className="p-4">
+      <button onClick={onToggle} className="w-full flex items-start justify-between gap-4 text-left">
+        <div className="min-w-0">
+          <div className="font-medium text-gray-900">
+            {actor}
+            {entry.actorRole && (
+              <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600">
+                {entry.actorRole}
+              </span>
+            )}
+          </div>
+          <div className="mt-1 text-sm text-gray-600">
+            <span className="font-mono">{entry.action}</span>
+            {fields.length > 0 && (
+              <span className="text-gray-400"> · {fields.join(', ')}</span>
+            )}
+          </div>
+          {entry.reason && (
+            <div className="mt-1 text-sm text-gray-500 italic">&ldquo;{entry.reason}&rdquo;</div>
+          )}
+        </div>
+        <div className="text-right text-xs text-gray-400 whitespace-nowrap">
+          <div>{new Date(entry.createdAt).toLocaleString()}</div>
+          {entry.ipAddress && <div className="mt-1">{entry.ipAddress}</div>}
+        </div>
+      </button>
+
+      {expanded && (
+        <div className="mt-4 text-sm">
+          <div className="mb-2 text-xs text-gray-400 font-mono">
+            {entry.method} {entry.route}
+          </div>
+          {fields.length === 0 ? (
+            <p className="text-gray-500">No field changes recorded.</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase">
+                  <th className="py-1 pr-4 font-medium">Field</th>
+                  <th className="py-1 pr-4 font-medium">Before</th>
+                  <th className="py-1 font-medium">After</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono text-xs">
+                {fields.map((field) => (
+                  <tr key={field} className="align-top border-t border-gray-100">
+                    <td className="py-2 pr-4 text-gray-700">{field}</td>
+                    <td className="py-2 pr-4 text-red-600 break-all">{formatValue(entry.changes[field]?.from)}</td>
+                    <td className="py-2 text-green-700 break-all">{formatValue(entry.changes[field]?.to)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
@@ -3,7 +3,8 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { createClient } from '@/lib/supabase/client';
 import { ChatPanel, LiveStats, QuickActions, ProductQueue } from '@/components/command-center';
-import type { ChatMessage, ChatState, ChatPlatform } from '@unifyed/types';
+import type { ChatMessage, ChatState, ChatPlatform, ModerationQueueItem, AnswerSuggestion } from '@unifyed/types';
+import type { ModerationDecision } from '@unifyed/types/api';
 
 interface SessionStatsData {
   isLive: boolean;
@@ -25,6 +26,8 @@ export default function CommandCenterPage() {
   const supabase = createClient();
   const [chatState, setChatState] = useState<ChatState | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [moderationQueue, setModerationQueue] = useState<ModerationQueueItem[]>([]);
+  const [answerSuggestions, setAnswerSuggestions] = useState<AnswerSuggestion[]>([]);
   const [isConnecting, setIsConnecting] = useState(false);
   const [wsConnected, setWsConnected] = useState(false);
   const [chatStarted, setChatStarted] = useState(false);
@@ -58,6 +61,36 @@ export default function CommandCenterPage() {
           setChatState(data.data);
           break;
 
+        case 'moderation_queue':
+          setModerationQueue(data.data);
+          break;
+
+        case 'moderation_held':
+          setModerationQueue((prev) => [
+            ...prev.filter((item) => item.message.id !== data.data.message.id),
+            data.data,
+          ]);
+          break;
+
+        case 'moderation_resolved':
+          setModerationQueue((prev) => prev.filter((item) => item.message.id !== data.data.messageId));
+          break;
+
+        case 'answer_suggestions':
+          setAnswerSuggestions(data.data);
+          break;
+
+        case 'answer_suggested':
+          // Auto-sent answers show up in chat on their own
+          if (!data.data.autoSent) {
+            setAnswerSuggestions((prev) => [data.data, ...prev.filter((s) => s.id !== data.data.id)]);
+          }
+          break;
+
+        case 'answer_resolved':
+          setAnswerSuggestions((prev) => prev.filter((s) => s.id !== data.data.id));
+          break;
+
         case 'session_stats':
           setSessionStats(data.data);
           // Start duration timer if live
@@ -418,6 +451,73 @@ export default function CommandCenterPage() {
     }
   }, [supabase]);
 
+  // Handle a decision on a message automod held back
+  const handleModerationDecision = useCallback(async (messageId: string, decision: ModerationDecision) => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        setError('Please sign in to moderate chat');
+        return;
+      }
+
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/chat/moderation/queue/${encodeURIComponent(messageId)}`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(decision),
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message || 'Failed to moderate message');
+      }
+
+      // The resolved event removes it too; don't wait for it
+      setModerationQueue((prev) => prev.filter((item) => item.message.id !== messageId));
+    } catch (err) {
+      console.error('Failed to moderate message:', err);
+      setError(err instanceof Error ? err.message : 'Failed to moderate message');
+    }
+  }, [supabase]);
+
+  // Send or dismiss an answer drafted for a viewer's question
+  const handleAnswerSuggestion = useCallback(async (id: string, action: 'send' | 'dismiss') => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        setError('Please sign in to answer questions');
+        return;
+      }
+
+      const response = await fetch(
+        action === 'send'
+          ? `${process.env.NEXT_PUBLIC_API_URL}/chat-answers/suggestions/${id}/send`
+          : `${process.env.NEXT_PUBLIC_API_URL}/chat-answers/suggestions/${id}`,
+        {
+          method: action === 'send' ? 'POST' : 'DELETE',
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message || 'Failed to send answer');
+      }
+
+      setAnswerSuggestions((prev) => prev.filter((s) => s.id !== id));
+    } catch (err) {
+      console.error('Failed to handle answer suggestion:', err);
+      setError(err instanceof Error ? err.message : 'Failed to send answer');
+    }
+  }, [supabase]);
+
   // Handle drop link
   const handleDropLink = useCallback(async (offerId: string) => {
     try {
@@ -448,6 +548,39 @@ export default function CommandCenterPage() {
     }
   }, [supabase]);
 
+  // Reply to a viewer with a link minted for them
+  const handleReplyWithLink = useCallback(async (message: ChatMessage, offerId: string) => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        setError('Please sign in to send links');
+        return;
+      }
+
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/chat-commerce/reply-link`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ offerId, platform: message.platform, messageId: message.id }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message || 'Failed to send link');
+      }
+
+      const data = await response.json();
+      if (!data.sent) {
+        setError(`Chat is offline - share ${data.link.url} with @${message.user.username} by hand`);
+      }
+    } catch (err) {
+      console.error('Failed to reply with link:', err);
+      setError(err instanceof Error ? err.message : 'Failed to send link');
+    }
+  }, [supabase]);
+
   // Handle flash sale
   const handleFlashSale = useCallback(async (offerId: string, duration: number) => {
     try {
@@ -580,6 +713,12 @@ export default function CommandCenterPage() {
             messages={messages}
             chatState={chatState}
             onSendMessage={sendMessage}
+            moderationQueue={moderationQueue}
+            onModerationDecision={handleModerationDecision}
+            answerSuggestions={answerSuggestions}
+            onAnswerSuggestion={handleAnswerSuggestion}
+            replyOffers={offers}
+            onReplyWithLink={handleReplyWithLink}
             onPinProduct={(msg) => {
               console.log('Pin product from message:', msg);
             }}
@@ -32,6 +32,12 @@ const PLATFORM_INFO: Record<string, { name: string; description: string; icon: s
     icon: '🛒',
     color: 'bg-green-500',
   },
+  woocommerce: {
+    name: 'WooCommerce',
+    description: 'Connect your WooCommerce store with REST API keys to sync products and track orders',
+    icon: '🛍️',
+    color: 'bg-violet-600',
+  },
   tiktok: {
     name: 'TikTok',
     description: 'Connect to track live streams and detect when you go live',
@@ -86,6 +92,8 @@ export default function ConnectionsPage() {
   const [connectingPlatform, setConnectingPlatform] = useState<string | null>(null);
   const [showShopifyModal, setShowShopifyModal] = useState(false);
   const [shopifyDomain, setShopifyDomain] = useState('');
+  const [showWooCommerceModal, setShowWooCommerceModal] = useState(false);
+  const [wooCommerceForm, setWooCommerceForm] = useState({ storeUrl: '', consumerKey: '', consumerSecret: '' });
   const supabase = createClient();
 
   const getToken = useCallback(async () => {
@@ -158,6 +166,12 @@ export default function ConnectionsPage() {
       return;
     }
 
+    // WooCommerce connects with REST API keys instead of OAuth
+    if (platform === 'woocommerce') {
+      setShowWooCommerceModal(true);
+      return;
+    }
+
     try {
       setConnectingPlatform(platform);
       const token = await getToken();
@@ -208,6 +222,51 @@ export default function ConnectionsPage() {
     handleConnect('shopify', 'platform', cleanDomain);
   };
 
+  const handleWooCommerceConnect = async () => {
+    const storeUrl = wooCommerceForm.storeUrl.trim().replace(/\/+$/, '');
+    if (!storeUrl || !wooCommerceForm.consumerKey.trim() || !wooCommerceForm.consumerSecret.trim()) {
+      setError('Please enter your store URL, consumer key and consumer secret');
+      return;
+    }
+
+    try {
+      setConnectingPlatform('woocommerce');
+      const token = await getToken();
+      if (!token) {
+        setError('Not authenticated');
+        return;
+      }
+
+      const apiUrl = process.env['NEXT_PUBLIC_API_URL'] || 'http://localhost:3001';
+
+      const res = await fetch(`${apiUrl}/connections/woocommerce`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          storeUrl: /^https?:\/\//.test(storeUrl) ? storeUrl : `https://${storeUrl}`,
+          consumerKey: wooCommerceForm.consumerKey.trim(),
+          consumerSecret: wooCommerceForm.consumerSecret.trim(),
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error?.message || 'Failed to connect WooCommerce store');
+      }
+
+      setShowWooCommerceModal(false);
+      setWooCommerceForm({ storeUrl: '', consumerKey: '', consumerSecret: '' });
+      fetchConnections();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to connect');
+    } finally {
+      setConnectingPlatform(null);
+    }
+  };
+
   const handleDisconnect = async (connectionId: string, type: 'platform' | 'tool') => {
     if (!confirm('Are you sure you want to disconnect this account?')) {
       return;
@@ -327,12 +386,75 @@ export default function ConnectionsPage() {
           </div>
         )}
 
+        {/* WooCommerce API Keys Modal */}
+        {showWooCommerceModal && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">Connect WooCommerce Store</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Create a REST API key with Read/Write permissions in WooCommerce &rarr; Settings &rarr; Advanced &rarr; REST API.
+              </p>
+              <div className="space-y-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Store URL</label>
+                  <input
+                    type="text"
+                    value={wooCommerceForm.storeUrl}
+                    onChange={(e) => setWooCommerceForm({ ...wooCommerceForm, storeUrl: e.target.value })}
+                    placeholder="https://your-store.com"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Consumer Key</label>
+                  <input
+                    type="text"
+                    value={wooCommerceForm.consumerKey}
+                    onChange={(e) => setWooCommerceForm({ ...wooCommerceForm, consumerKey: e.target.value })}
+                    placeholder="ck_..."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Consumer Secret</label>
+                  <input
+                    type="password"
+                    value={wooCommerceForm.consumerSecret}
+                    onChange={(e) => setWooCommerceForm({ ...wooCommerceForm, consumerSecret: e.target.value })}
+                    placeholder="cs_..."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                    onKeyDown={(e) => e.key === 'Enter' && handleWooCommerceConnect()}
+                  />
+                </div>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => {
+                    setShowWooCommerceModal(false);
+                    setWooCommerceForm({ storeUrl: '', consumerKey: '', consumerSecret: '' });
+                  }}
+                  className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleWooCommerceConnect}
+                  disabled={connectingPlatform === 'woocommerce'}
+                  className="flex-1 px-4 py-2 text-sm font-medium text-white bg-violet-600 rounded-lg hover:bg-violet-700 transition-colors disabled:opacity-50"
+                >
+                  {connectingPlatform === 'woocommerce' ? 'Connecting...' : 'Connect Store'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* E-commerce Platforms */}
         <section className="mb-10">
           <h2 className="text-lg font-semibold text-gray-900 mb-4">E-commerce Platforms</h2>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {Object.entries(PLATFORM_INFO)
-              .filter(([key]) => key === 'shopify')
+              .filter(([key]) => ['shopify', 'woocommerce'].includes(key))
               .map(([platform, info]) => {
                 const connection = getConnectionForPlatform(platform);
                 const isConnecting = connectingPlatform === platform;
@@ -347,6 +469,7 @@ export default function ConnectionsPage() {
                     connection={connection}
                     isConnecting={isConnecting}
                     connectionType="ecommerce"
+                    displayNameSuffix={platform === 'shopify' ? '.myshopify.com' : ''}
                     onConnect={() => handleConnect(platform, 'platform')}
                     onDisconnect={() => connection && handleDisconnect(connection.id, 'platform')}
                   />
@@ -438,6 +561,7 @@ interface ConnectionCardProps {
   isConnecting: boolean;
   isComingSoon?: boolean;
   connectionType: 'ecommerce' | 'streaming' | 'tool';
+  displayNameSuffix?: string;
   onConnect: () => void;
   onDisconnect: () => void;
 }
@@ -451,19 +575,17 @@ function ConnectionCard({
   isConnecting,
   isComingSoon,
   connectionType,
+  displayNameSuffix,
   onConnect,
   onDisconnect,
 }: ConnectionCardProps) {
   // Check for both 'connected' and 'healthy' status
   const isConnected = connection?.status === 'connected' || connection?.status === 'healthy';
 
-  // Get the display name based on connection type
+  // Shopify stores are stored by subdomain, so they get the .myshopify.com suffix back
   const getDisplayName = () => {
     if (!connection?.displayName) return null;
-    if (connectionType === 'ecommerce') {
-      return `${connection.displayName}.myshopify.com`;
-    }
-    return connection.displayName;
+    return `${connection.displayName}${displayNameSuffix ?? ''}`;
   };
 
   // Get the connected message based on connection type
@@ -96,7 +96,7 @@ export default function ProductsPage() {
       }
       const apiUrl = process.env['NEXT_PUBLIC_API_URL'] || 'http://localhost:3001';
       
-      // First, get the Shopify connection
+      // First, get the store connection
       const connectionsRes = await fetch(`${apiUrl}/connections`, {
         headers: { Authorization: `Bearer ${token}` },
       });
@@ -106,12 +106,13 @@ export default function ProductsPage() {
       }
       
       const connectionsData = await connectionsRes.json();
-      const shopifyConnection = connectionsData.connections?.find(
-        (c: { platform: string; status: string }) => c.platform === 'shopify' && (c.status === 'healthy' || c.status === 'connected')
+      const storeConnection = connectionsData.connections?.find(
+        (c: { platform: string; status: string }) =>
+          ['shopify', 'woocommerce'].includes(c.platform) && (c.status === 'healthy' || c.status === 'connected')
       );
       
-      if (!shopifyConnection) {
-        throw new Error('No Shopify connection found. Please connect your Shopify store first.');
+      if (!storeConnection) {
+        throw new Error('No store connection found. Please connect your Shopify or WooCommerce store first.');
       }
       
       // Trigger sync with connectionId
@@ -121,7 +122,7 @@ export default function ProductsPage() {
           Authorization: `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ connectionId: shopifyConnection.id }),
+        body: JSON.stringify({ connectionId: storeConnection.id }),
       });
 
       if (!res.ok) {
@@ -172,7 +173,7 @@ export default function ProductsPage() {
                 disabled={syncing}
                 className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
               >
-                {syncing ? 'Syncing...' : 'Sync from Shopify'}
+                {syncing ? 'Syncing...' : 'Sync from Store'}
               </button>
             </div>
           }
@@ -203,12 +204,12 @@ export default function ProductsPage() {
           <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
             <div className="text-4xl mb-4">📦</div>
             <h3 className="text-lg font-medium text-gray-900 mb-2">No products yet</h3>
-            <p className="text-gray-500 mb-4">Connect your Shopify store and sync your products.</p>
+            <p className="text-gray-500 mb-4">Connect your Shopify or WooCommerce store and sync your products.</p>
             <a
               href="/dashboard/connections"
               className="inline-flex px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700"
             >
-              Connect Shopify
+              Connect Store
             </a>
           </div>
         ) : (
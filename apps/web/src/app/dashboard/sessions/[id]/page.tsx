@@ -32,6 +32,13 @@ interface PlatformRevenue {
   orders: number;
 }
 
+interface PlatformGifts {
+  platform: string;
+  value: number;
+  estimatedPayout: number;
+  count: number;
+}
+
 interface SessionDetail {
   session: {
     id: string;
@@ -54,8 +61,17 @@ interface SessionDetail {
     checkouts: number;
     conversionRate: number;
     averageOrderValue: number;
+    giftValue: number;
+    giftPayout: number;
+    monetization: number;
   };
   revenueByPlatform: PlatformRevenue[];
+  gifts: {
+    value: number;
+    estimatedPayout: number;
+    count: number;
+    byPlatform: PlatformGifts[];
+  };
   orders: Order[];
 }
 
@@ -183,7 +199,7 @@ export default function SessionDetailPage() {
     );
   }
 
-  const { session, streams, stats, revenueByPlatform, orders } = data;
+  const { session, streams, stats, revenueByPlatform, gifts, orders } = data;
 
   // Calculate total viewers from platform breakdown
   const totalViewersByPlatform = session.viewsByPlatform
@@ -221,12 +237,17 @@ export default function SessionDetailPage() {
         </div>
 
         {/* Key Metrics */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-8">
           <StatsCard
             title="Revenue"
             value={formatCurrency(stats.revenue)}
             subtitle={stats.orders > 0 ? `${stats.orders} order${stats.orders !== 1 ? 's' : ''}` : undefined}
           />
+          <StatsCard
+            title="Gifts (est. payout)"
+            value={formatCurrency(stats.giftPayout)}
+            subtitle={gifts.count > 0 ? `${formatCurrency(stats.giftValue)} sent · ${formatCurrency(stats.monetization)} total` : undefined}
+          />
           <StatsCard
             title="Peak Viewers"
             value={session.totalPeakViewers?.toLocaleString() || '0'}
@@ -302,6 +323,27 @@ export default function SessionDetailPage() {
               </div>
             )}
 
+            {/* Gifts by platform */}
+            {gifts.byPlatform.length > 0 && (
+              <div className="mt-6">
+                <p className="text-sm text-gray-500 mb-2">Gifts by Platform</p>
+                <div className="space-y-3">
+                  {gifts.byPlatform.map((item) => (
+                    <div key={item.platform} className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <span className={`w-3 h-3 rounded-full ${PLATFORM_COLORS[item.platform] || 'bg-gray-500'}`}></span>
+                        <span className="text-gray-700 capitalize">{item.platform}</span>
+                      </div>
+                      <div className="text-right">
+                        <span className="font-medium text-gray-900">{formatCurrency(item.estimatedPayout)}</span>
+                        <span className="text-gray-500 text-sm ml-2">({formatCurrency(item.value)} sent, {item.count} gifts)</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Streams */}
             {streams.length > 0 && (
               <div className="mt-6 pt-6 border-t border-gray-200">
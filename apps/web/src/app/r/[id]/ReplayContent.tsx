@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useState, useCallback } from 'react';
+import { getVisitorId } from '@/lib/visitor';
 import { VideoPlayer } from '@/components/VideoPlayer';
 import { MomentsTimeline } from '@/components/MomentsTimeline';
 import { ProductCard } from '@/components/ProductCard';
@@ -61,18 +62,6 @@ interface ReplayContentProps {
   apiUrl: string;
 }
 
-// Get or create visitor ID
-function getVisitorId(): string {
-  if (typeof window === 'undefined') return '';
-  
-  let visitorId = localStorage.getItem('unifyed_visitor_id');
-  if (!visitorId) {
-    visitorId = `v_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    localStorage.setItem('unifyed_visitor_id', visitorId);
-  }
-  return visitorId;
-}
-
 export function ReplayContent({ replay, apiUrl }: ReplayContentProps) {
   const [currentTime, setCurrentTime] = useState(0);
   const [hasTrackedView, setHasTrackedView] = useState(false);
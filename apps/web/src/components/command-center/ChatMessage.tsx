@@ -1,6 +1,7 @@
 'use client';
 
-import type { ChatMessage as ChatMessageType, ChatPlatform, BadgeType } from '@unifyed/types';
+import { useState } from 'react';
+import type { ChatMessage as ChatMessageType, ChatPlatform, BadgeType, ViewerTier } from '@unifyed/types';
 
 // Simple relative time formatter
 function formatRelativeTime(date: Date): string {
@@ -35,14 +36,30 @@ const badgeIcons: Record<BadgeType, string> = {
   new_viewer: '🆕',
 };
 
+// Buyer badges from the viewer's purchase history
+const viewerTierConfig: Record<ViewerTier, { label: string; className: string }> = {
+  buyer: { label: 'Buyer', className: 'text-green-400 bg-green-500/10' },
+  vip: { label: 'VIP', className: 'text-amber-300 bg-amber-500/15' },
+};
+
 interface ChatMessageProps {
   message: ChatMessageType;
   onHighlight?: (message: ChatMessageType) => void;
   onPin?: (message: ChatMessageType) => void;
+  // Offers a personal link can be sent for
+  replyOffers?: Array<{ id: string; name: string }>;
+  onReplyWithLink?: (message: ChatMessageType, offerId: string) => void;
 }
 
-export function ChatMessage({ message, onHighlight, onPin }: ChatMessageProps) {
+export function ChatMessage({ message, onHighlight, onPin, replyOffers = [], onReplyWithLink }: ChatMessageProps) {
+  const [choosingOffer, setChoosingOffer] = useState(false);
   const platform = platformConfig[message.platform] || platformConfig.restream;
+  const canReply = !!onReplyWithLink && replyOffers.length > 0 && message.type !== 'system';
+
+  const replyWithLink = (offerId: string) => {
+    setChoosingOffer(false);
+    onReplyWithLink?.(message, offerId);
+  };
   const isGift = message.type === 'gift';
   const isSpecial = ['subscription', 'raid', 'follow'].includes(message.type);
 
@@ -84,6 +101,16 @@ export function ChatMessage({ message, onHighlight, onPin }: ChatMessageProps) {
             </span>
           ))}
           
+          {/* Known buyer */}
+          {message.viewer && (
+            <span
+              className={`text-[10px] font-semibold uppercase px-1.5 py-px rounded ${viewerTierConfig[message.viewer.tier].className}`}
+              title={`${message.viewer.ordersCount} order${message.viewer.ordersCount === 1 ? '' : 's'} · $${(message.viewer.lifetimeSpend / 100).toFixed(2)} spent · ${message.viewer.sessionsAttended} session${message.viewer.sessionsAttended === 1 ? '' : 's'}`}
+            >
+              {viewerTierConfig[message.viewer.tier].label}
+            </span>
+          )}
+          
           {/* Timestamp */}
           <span className="text-xs text-gray-500">
             {formatRelativeTime(new Date(message.timestamp))}
@@ -114,6 +141,28 @@ export function ChatMessage({ message, onHighlight, onPin }: ChatMessageProps) {
             <span>Buying intent detected</span>
           </div>
         )}
+
+        {/* Offer picker for a personal link */}
+        {choosingOffer && (
+          <div className="mt-1 flex flex-wrap items-center gap-1">
+            <span className="text-xs text-gray-400">Send @{message.user.username} a link for:</span>
+            {replyOffers.map((offer) => (
+              <button
+                key={offer.id}
+                onClick={() => replyWithLink(offer.id)}
+                className="text-xs px-2 py-0.5 rounded bg-green-600/20 text-green-300 hover:bg-green-600/40"
+              >
+                {offer.name}
+              </button>
+            ))}
+            <button
+              onClick={() => setChoosingOffer(false)}
+              className="text-xs px-1 text-gray-500 hover:text-gray-300"
+            >
+              ✕
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Action buttons (visible on hover) */}
@@ -127,6 +176,15 @@ export function ChatMessage({ message, onHighlight, onPin }: ChatMessageProps) {
             ⭐
           </button>
         )}
+        {canReply && (
+          <button
+            onClick={() => (replyOffers.length === 1 ? replyWithLink(replyOffers[0]!.id) : setChoosingOffer(true))}
+            className="p-1 hover:bg-gray-700 rounded text-gray-400 hover:text-green-400"
+            title="Reply with link"
+          >
+            🔗
+          </button>
+        )}
         {onPin && (
           <button
             onClick={() => onPin(message)}
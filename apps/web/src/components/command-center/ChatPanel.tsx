@@ -1,22 +1,59 @@
 'use client';
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import type { ChatMessage as ChatMessageType, ChatState, ChatPlatform } from '@unifyed/types';
+import type {
+  ChatMessage as ChatMessageType,
+  ChatState,
+  ChatPlatform,
+  ChatModerationAction,
+  AutomodReason,
+  ModerationQueueItem,
+  AnswerSuggestion,
+} from '@unifyed/types';
+import type { ModerationDecision } from '@unifyed/types/api';
 import { ChatMessage } from './ChatMessage';
 
 interface ChatPanelProps {
   messages: ChatMessageType[];
   chatState: ChatState | null;
+  moderationQueue?: ModerationQueueItem[];
   onSendMessage?: (content: string, platforms?: ChatPlatform[]) => void;
   onPinProduct?: (message: ChatMessageType) => void;
+  onModerationDecision?: (messageId: string, decision: ModerationDecision) => void;
+  answerSuggestions?: AnswerSuggestion[];
+  onAnswerSuggestion?: (id: string, action: 'send' | 'dismiss') => void;
+  replyOffers?: Array<{ id: string; name: string }>;
+  onReplyWithLink?: (message: ChatMessageType, offerId: string) => void;
 }
 
-export function ChatPanel({ messages, chatState, onSendMessage, onPinProduct }: ChatPanelProps) {
+const REASON_LABELS: Record<AutomodReason, string> = {
+  blocked_term: 'Blocked term',
+  link: 'Link',
+  caps: 'Caps',
+  spam: 'Spam',
+};
+
+// Default timeout from the queue; longer ones go through the API
+const QUEUE_TIMEOUT_SECONDS = 600;
+
+export function ChatPanel({
+  messages,
+  chatState,
+  moderationQueue = [],
+  onSendMessage,
+  onPinProduct,
+  onModerationDecision,
+  answerSuggestions = [],
+  onAnswerSuggestion,
+  replyOffers = [],
+  onReplyWithLink,
+}: ChatPanelProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [messageInput, setMessageInput] = useState('');
   const [filterPlatform, setFilterPlatform] = useState<ChatPlatform | 'all'>('all');
   const [autoScroll, setAutoScroll] = useState(true);
+  const [view, setView] = useState<'chat' | 'queue'>('chat');
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -56,6 +93,12 @@ export function ChatPanel({ messages, chatState, onSendMessage, onPinProduct }:
 
   const totalViewers = Object.values(viewersByPlatform).reduce((a, b) => a + b, 0);
 
+  // What each platform lets us do to a held message
+  const canModerate = (platform: ChatPlatform, action: ChatModerationAction) =>
+    chatState?.connections.some(
+      (conn) => conn.platform === platform && conn.moderation?.includes(action)
+    ) ?? false;
+
   return (
     <div className="flex flex-col h-full bg-gray-900 rounded-lg overflow-hidden">
       {/* Header */}
@@ -68,6 +111,16 @@ export function ChatPanel({ messages, chatState, onSendMessage, onPinProduct }:
               <span className="text-gray-400">{totalViewers.toLocaleString()} viewers</span>
             </span>
           )}
+          {onModerationDecision && (
+            <button
+              onClick={() => setView(view === 'chat' ? 'queue' : 'chat')}
+              className={`text-xs px-2 py-1 rounded transition-colors ${
+                view === 'queue' ? 'bg-yellow-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {view === 'queue' ? 'Back to chat' : `Held (${moderationQueue.length})`}
+            </button>
+          )}
         </div>
 
         {/* Platform filter */}
@@ -80,6 +133,8 @@ export function ChatPanel({ messages, chatState, onSendMessage, onPinProduct }:
           <option value="tiktok">TikTok</option>
           <option value="youtube">YouTube</option>
           <option value="twitch">Twitch</option>
+          <option value="kick">Kick</option>
+          <option value="facebook">Facebook</option>
         </select>
       </div>
 
@@ -107,11 +162,82 @@ export function ChatPanel({ messages, chatState, onSendMessage, onPinProduct }:
         </div>
       )}
 
+      {/* Moderation queue */}
+      {view === 'queue' && (
+        <div className="flex-1 overflow-y-auto overflow-x-hidden">
+          {moderationQueue.length === 0 ? (
+            <div className="flex items-center justify-center h-full text-gray-500 text-sm">
+              No messages waiting for review
+            </div>
+          ) : (
+            <div className="py-2 divide-y divide-gray-800">
+              {moderationQueue.map((item) => {
+                const { message } = item;
+                const canDelete = canModerate(message.platform, 'delete_message');
+                return (
+                  <div key={message.id} className="px-4 py-3">
+                    <div className="flex items-center gap-2 text-xs text-gray-400">
+                      <span className="capitalize">{message.platform}</span>
+                      <span className="font-medium text-gray-200">{message.user.username}</span>
+                      {item.strikes > 0 && (
+                        <span className="text-red-400">
+                          {item.strikes} strike{item.strikes === 1 ? '' : 's'}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-white mt-1 break-words">{message.content}</p>
+                    <div className="flex items-center gap-1 mt-1.5">
+                      {item.reasons.map((reason) => (
+                        <span key={reason} className="text-xs bg-yellow-900/50 text-yellow-300 px-1.5 py-0.5 rounded">
+                          {REASON_LABELS[reason]}
+                        </span>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-2 mt-2">
+                      <button
+                        onClick={() => onModerationDecision?.(message.id, { decision: 'approve' })}
+                        className="text-xs px-2 py-1 rounded bg-green-700 text-white hover:bg-green-600"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => onModerationDecision?.(message.id, { decision: 'remove' })}
+                        className="text-xs px-2 py-1 rounded bg-gray-700 text-white hover:bg-gray-600"
+                        title={canDelete ? undefined : 'Keeps it out of the overlay; the platform still shows it'}
+                      >
+                        Remove
+                      </button>
+                      <button
+                        onClick={() => onModerationDecision?.(message.id, {
+                          decision: 'timeout',
+                          durationSeconds: QUEUE_TIMEOUT_SECONDS,
+                        })}
+                        disabled={!canModerate(message.platform, 'timeout')}
+                        className="text-xs px-2 py-1 rounded bg-orange-700 text-white hover:bg-orange-600 disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        Timeout 10m
+                      </button>
+                      <button
+                        onClick={() => onModerationDecision?.(message.id, { decision: 'ban' })}
+                        disabled={!canModerate(message.platform, 'ban')}
+                        className="text-xs px-2 py-1 rounded bg-red-700 text-white hover:bg-red-600 disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        Ban
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Messages */}
       <div
         ref={containerRef}
         onScroll={handleScroll}
-        className="flex-1 overflow-y-auto overflow-x-hidden"
+        className={`flex-1 overflow-y-auto overflow-x-hidden ${view === 'queue' ? 'hidden' : ''}`}
       >
         {filteredMessages.length === 0 ? (
           <div className="flex items-center justify-center h-full text-gray-500 text-sm">
@@ -126,6 +252,8 @@ export function ChatPanel({ messages, chatState, onSendMessage, onPinProduct }:
                 key={message.id}
                 message={message}
                 onPin={onPinProduct}
+                replyOffers={replyOffers}
+                onReplyWithLink={onReplyWithLink}
               />
             ))}
             <div ref={messagesEndRef} />
@@ -146,6 +274,37 @@ export function ChatPanel({ messages, chatState, onSendMessage, onPinProduct }:
         </button>
       )}
 
+      {/* Drafted answers to viewers' questions */}
+      {onAnswerSuggestion && answerSuggestions.length > 0 && (
+        <div className="px-3 pt-3 border-t border-gray-800 space-y-2 max-h-48 overflow-y-auto">
+          {answerSuggestions.slice(0, 3).map((suggestion) => (
+            <div key={suggestion.id} className="bg-gray-800 rounded-lg p-2">
+              <p className="text-xs text-gray-400 truncate">
+                <span className="capitalize">{suggestion.message.platform}</span> · {suggestion.message.user.username}: {suggestion.message.content}
+              </p>
+              <p className="text-sm text-white mt-1 break-words">{suggestion.reply}</p>
+              <div className="flex items-center gap-2 mt-1.5">
+                <button
+                  onClick={() => onAnswerSuggestion(suggestion.id, 'send')}
+                  className="text-xs px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700"
+                >
+                  Send reply
+                </button>
+                <button
+                  onClick={() => onAnswerSuggestion(suggestion.id, 'dismiss')}
+                  className="text-xs px-2 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600"
+                >
+                  Dismiss
+                </button>
+                <span className="text-xs text-gray-500 ml-auto">
+                  {suggestion.source === 'faq' ? 'From your FAQ' : 'From the catalog'}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Message input */}
       {onSendMessage && (
         <form onSubmit={handleSend} className="p-3 border-t border-gray-800">
@@ -37,7 +37,8 @@ export function OnboardingWizard() {
       ]);
 
       const hasEcommerce = (connectionsRes.connections || []).some(
-        (c: { platform: string; status: string }) => c.platform === 'shopify' && (c.status === 'healthy' || c.status === 'connected')
+        (c: { platform: string; status: string }) =>
+          ['shopify', 'woocommerce'].includes(c.platform) && (c.status === 'healthy' || c.status === 'connected')
       );
       const hasStreaming = (connectionsRes.connections || []).some(
         (c: { status: string }) => c.status === 'healthy' || c.status === 'connected'
@@ -51,11 +52,11 @@ export function OnboardingWizard() {
         {
           id: 'connect-store',
           title: 'Connect your store',
-          description: 'Link your Shopify store to sync products and process orders.',
+          description: 'Link your Shopify or WooCommerce store to sync products and process orders.',
           icon: '🛍️',
           href: '/dashboard/connections',
           completed: hasEcommerce,
-          ctaText: 'Connect Shopify',
+          ctaText: 'Connect Store',
         },
         {
           id: 'connect-streaming',
@@ -69,7 +70,7 @@ export function OnboardingWizard() {
         {
           id: 'sync-products',
           title: 'Sync your products',
-          description: 'Your product catalog will sync automatically from Shopify.',
+          description: 'Your product catalog will sync automatically from your store.',
           icon: '📦',
           href: '/dashboard/products',
           completed: hasProducts,
@@ -2,6 +2,8 @@
  * Client-side analytics module for tracking user events
  */
 
+import { getVisitorId } from './visitor';
+
 type TrackEventType =
   | 'offer.viewed'
   | 'offer.clicked'
@@ -16,18 +18,6 @@ interface TrackEventOptions {
   properties?: Record<string, unknown>;
 }
 
-// Generate or retrieve visitor ID
-function getVisitorId(): string {
-  if (typeof window === 'undefined') return '';
-  
-  let visitorId = localStorage.getItem('unifyed_visitor_id');
-  if (!visitorId) {
-    visitorId = `v_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-    localStorage.setItem('unifyed_visitor_id', visitorId);
-  }
-  return visitorId;
-}
-
 // Generate or retrieve session ID (expires after 30 min of inactivity)
 function getSessionId(): string {
   if (typeof window === 'undefined') return '';
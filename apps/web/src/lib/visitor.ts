@@ -0,0 +1,41 @@
+/**
+ * Visitor ID shared by the server render, the browser and checkout links
+ *
+ * The ID lives in a first-party cookie so server components can send it to
+ * the API (offer prices under test, /go link URLs) and the browser reports
+ * views with the same ID. Middleware sets it on the first request.
+ */
+
+export const VISITOR_COOKIE = 'unifyed_visitor_id';
+export const VISITOR_COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // seconds
+
+// Older builds kept the ID in localStorage only
+const LEGACY_STORAGE_KEY = 'unifyed_visitor_id';
+
+export function createVisitorId(): string {
+  return `v_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+function readCookie(): string | null {
+  const match = document.cookie
+    .split('; ')
+    .find((entry) => entry.startsWith(`${VISITOR_COOKIE}=`));
+  return match ? decodeURIComponent(match.slice(VISITOR_COOKIE.length + 1)) : null;
+}
+
+/**
+ * The browser's visitor ID (client only). The cookie wins, since links on
+ * the page were rendered with it.
+ */
+export function getVisitorId(): string {
+  if (typeof window === 'undefined') return '';
+
+  let visitorId = readCookie() ?? localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!visitorId) {
+    visitorId = createVisitorId();
+  }
+
+  document.cookie = `${VISITOR_COOKIE}=${encodeURIComponent(visitorId)}; path=/; max-age=${VISITOR_COOKIE_MAX_AGE}; samesite=lax`;
+  localStorage.setItem(LEGACY_STORAGE_KEY, visitorId);
+  return visitorId;
+}
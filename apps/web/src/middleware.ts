@@ -1,8 +1,26 @@
 import { type NextRequest } from 'next/server';
 import { updateSession } from '@/lib/supabase/middleware';
+import { VISITOR_COOKIE, VISITOR_COOKIE_MAX_AGE, createVisitorId } from '@/lib/visitor';
 
 export async function middleware(request: NextRequest) {
-  return await updateSession(request);
+  // Give first-time visitors an ID before the page renders, so server
+  // components can already send it to the API
+  const newVisitorId = request.cookies.has(VISITOR_COOKIE) ? null : createVisitorId();
+  if (newVisitorId) {
+    request.cookies.set(VISITOR_COOKIE, newVisitorId);
+  }
+
+  const response = await updateSession(request);
+
+  if (newVisitorId) {
+    response.cookies.set(VISITOR_COOKIE, newVisitorId, {
+      path: '/',
+      maxAge: VISITOR_COOKIE_MAX_AGE,
+      sameSite: 'lax',
+    });
+  }
+
+  return response;
 }
 
 export const config = {
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { sumRollupFacts, type RollupFact } from '../processors/analytics-rollup.js';
+
+/**
+ * Analytics Rollup Tests
+ *
+ * These tests verify that:
+ * 1. Orders, checkouts, views and gifts with the same dimensions share a row
+ * 2. Hourly rows keep hours apart; daily rows add them up
+ * 3. Different platforms, surfaces, offers and sessions stay apart
+ */
+
+const offerId = '11111111-1111-1111-1111-111111111111';
+const liveSessionId = '22222222-2222-2222-2222-222222222222';
+
+function fact(overrides: Partial<RollupFact>): RollupFact {
+  return {
+    hour: 20,
+    platform: 'tiktok',
+    surface: 'live',
+    offerId,
+    liveSessionId,
+    orders: 0,
+    revenue: 0,
+    checkouts: 0,
+    views: 0,
+    giftCount: 0,
+    giftValue: 0,
+    giftPayout: 0,
+    ...overrides,
+  };
+}
+
+const facts: RollupFact[] = [
+  fact({ orders: 2, revenue: 9600 }),
+  fact({ checkouts: 5 }),
+  fact({ hour: 21, orders: 1, revenue: 4800, checkouts: 1 }),
+  fact({ hour: 21, offerId: null, giftCount: 3, giftValue: 500, giftPayout: 250 }),
+  fact({ hour: 9, platform: 'youtube', surface: 'replay', offerId: null, liveSessionId: null, views: 40 }),
+];
+
+describe('Analytics rollups', () => {
+  it('should add up facts per hour', () => {
+    const hourly = sumRollupFacts(facts, 'hour');
+
+    expect(hourly).toHaveLength(4);
+    expect(hourly.find(row => row.hour === 20)).toMatchObject({ orders: 2, revenue: 9600, checkouts: 5 });
+    expect(hourly.find(row => row.hour === 21 && row.offerId === offerId)).toMatchObject({
+      orders: 1,
+      revenue: 4800,
+      checkouts: 1,
+      giftCount: 0,
+    });
+  });
+
+  it('should add up hours into the day', () => {
+    const daily = sumRollupFacts(facts, 'day');
+
+    expect(daily).toHaveLength(3);
+    expect(daily.every(row => row.hour === 0)).toBe(true);
+    expect(daily.find(row => row.offerId === offerId)).toMatchObject({ orders: 3, revenue: 14400, checkouts: 6 });
+    expect(daily.find(row => row.surface === 'live' && row.offerId === null)).toMatchObject({ giftCount: 3, giftPayout: 250 });
+    expect(daily.find(row => row.surface === 'replay')).toMatchObject({ platform: 'youtube', views: 40 });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { buildMoments, type MomentDrop } from '../processors/event-handlers.js';
+
+/**
+ * Replay Moment Tests
+ *
+ * These tests verify that:
+ * 1. Every link dropped for the whole chat becomes a moment, timed from the stream start
+ * 2. Links replied to a single viewer are not moments
+ */
+
+const context = {
+  creatorId: '11111111-1111-1111-1111-111111111111',
+  streamId: '22222222-2222-2222-2222-222222222222',
+  replayId: '33333333-3333-3333-3333-333333333333',
+  startedAt: new Date('2026-03-01T20:00:00Z'),
+};
+
+function drop(linkId: string, minutes: number, source: string | null): MomentDrop {
+  return {
+    linkId,
+    createdAt: new Date(context.startedAt.getTime() + minutes * 60_000),
+    metadata: source ? { source } : null,
+    offerName: 'Glow Serum 20% off',
+  };
+}
+
+describe('Replay moments', () => {
+  it('should make a moment of every drop, in order', () => {
+    const moments = buildMoments([drop('pin', 5, 'pin'), drop('flash', 12, 'flash_sale'), drop('manual', 30, null)], context);
+
+    expect(moments.map(moment => [moment.title, moment.timestamp, moment.sortOrder])).toEqual([
+      ['📌 Glow Serum 20% off', 300, 0],
+      ['⚡ Flash sale: Glow Serum 20% off', 720, 1],
+      ['Glow Serum 20% off', 1800, 2],
+    ]);
+    expect(moments[0]).toMatchObject({
+      creatorId: context.creatorId,
+      streamId: context.streamId,
+      replayId: context.replayId,
+      metadata: { generated: true, shortLinkId: 'pin', source: 'pin' },
+    });
+  });
+
+  it('should leave out links replied to a single viewer', () => {
+    const moments = buildMoments([
+      drop('pin', 5, 'pin'),
+      drop('reply-1', 6, 'reply_link'),
+      drop('reply-2', 7, 'reply_link'),
+      drop('flash', 12, 'flash_sale'),
+    ], context);
+
+    expect(moments.map(moment => moment.metadata)).toEqual([
+      { generated: true, shortLinkId: 'pin', source: 'pin' },
+      { generated: true, shortLinkId: 'flash', source: 'flash_sale' },
+    ]);
+    expect(moments.map(moment => moment.sortOrder)).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,64 @@
+import * as dotenv from 'dotenv';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+
+/**
+ * Rebuild analytics rollups from the source tables.
+ *
+ *   pnpm rollups:backfill [--creator <id>] [--from YYYY-MM-DD] [--to YYYY-MM-DD]
+ *
+ * Without --from, each creator starts from their first order, checkout, view
+ * or gift. Safe to run while the worker is refreshing.
+ */
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const workspaceRoot = resolve(__dirname, '..', '..', '..');
+
+dotenv.config({ path: resolve(workspaceRoot, '.env.local') });
+dotenv.config({ path: resolve(workspaceRoot, '.env') });
+
+function parseDay(value: string | undefined, name: string): Date | undefined {
+  if (value === undefined) return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new Error(`--${name} must be a date like 2026-01-31`);
+  }
+  return new Date(`${value}T00:00:00.000Z`);
+}
+
+async function backfill() {
+  const { values } = parseArgs({
+    options: {
+      creator: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+    },
+  });
+
+  // Dynamic import after env is loaded
+  const { env } = await import('./config.js');
+  const { createDatabase } = await import('@unifyed/db');
+  const { backfillRollups } = await import('./processors/analytics-rollup.js');
+
+  const db = createDatabase(env.DATABASE_URL);
+
+  console.log('🔄 Backfilling analytics rollups...');
+
+  const rebuilt = await backfillRollups(
+    db,
+    {
+      creatorId: values.creator,
+      from: parseDay(values.from, 'from'),
+      to: parseDay(values.to, 'to'),
+    },
+    (creatorId, day) => console.log(`  ${creatorId} ${day}`)
+  );
+
+  console.log(`✅ Rebuilt ${rebuilt} rollup day(s)`);
+  process.exit(0);
+}
+
+backfill().catch((err) => {
+  console.error('❌ Backfill failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,486 @@
+import { Job } from 'bullmq';
+import { eq, and, gte, lt, inArray, sql, count, sum, min, type AnyColumn } from 'drizzle-orm';
+import type { Database } from '@unifyed/db';
+import {
+  analyticsRollups,
+  analyticsRollupCursors,
+  attributionContexts,
+  chatGifts,
+  checkoutSessions,
+  creators,
+  eventLog,
+  orders,
+  replays,
+} from '@unifyed/db/schema';
+import { EVENT_TYPES } from '@unifyed/events';
+
+/**
+ * Analytics rollups
+ *
+ * `refresh` runs on a schedule. It reads the event log since its cursor,
+ * works out which creator-days those events touched, and rebuilds those days
+ * from the source tables. Rebuilding is idempotent, so every pass re-reads a
+ * minute before the cursor to pick up events that committed late.
+ *
+ * Days before the first refresh are filled in by `pnpm rollups:backfill`.
+ */
+export type AnalyticsRollupJob = { type: 'refresh' };
+
+const CURSOR_NAME = 'event_log';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Re-read this much before the cursor on every pass
+const OVERLAP_MS = 60_000;
+
+// Event log read per query while catching up
+const WINDOW_MS = HOUR_MS;
+
+// Where the first refresh starts when there's no cursor yet
+const INITIAL_LOOKBACK_MS = DAY_MS;
+
+const ORDER_EVENTS: string[] = [
+  EVENT_TYPES.PURCHASE_COMPLETED,
+  EVENT_TYPES.ORDER_UPDATED,
+  EVENT_TYPES.ORDER_CANCELLED,
+  EVENT_TYPES.ORDER_REFUNDED,
+];
+const CHECKOUT_EVENTS: string[] = [EVENT_TYPES.CHECKOUT_STARTED];
+const VIEW_EVENTS: string[] = [EVENT_TYPES.REPLAY_VIEW, EVENT_TYPES.LINK_IN_BIO_VIEW];
+
+/**
+ * One hour's facts for one combination of dimensions
+ */
+export interface RollupFact {
+  hour: number; // 0-23, UTC
+  platform: string | null;
+  surface: string | null;
+  offerId: string | null;
+  liveSessionId: string | null;
+  orders: number;
+  revenue: number;
+  checkouts: number;
+  views: number;
+  giftCount: number;
+  giftValue: number;
+  giftPayout: number;
+}
+
+const EMPTY_FACTS = {
+  orders: 0,
+  revenue: 0,
+  checkouts: 0,
+  views: 0,
+  giftCount: 0,
+  giftValue: 0,
+  giftPayout: 0,
+};
+
+/**
+ * Add up facts sharing the same dimensions, per hour or across the whole day
+ * (where every result has hour 0)
+ */
+export function sumRollupFacts(facts: RollupFact[], granularity: 'hour' | 'day'): RollupFact[] {
+  const totals = new Map<string, RollupFact>();
+
+  for (const fact of facts) {
+    const hour = granularity === 'hour' ? fact.hour : 0;
+    const key = [hour, fact.platform, fact.surface, fact.offerId, fact.liveSessionId].join('|');
+    const total = totals.get(key) ?? {
+      hour,
+      platform: fact.platform,
+      surface: fact.surface,
+      offerId: fact.offerId,
+      liveSessionId: fact.liveSessionId,
+      ...EMPTY_FACTS,
+    };
+
+    total.orders += fact.orders;
+    total.revenue += fact.revenue;
+    total.checkouts += fact.checkouts;
+    total.views += fact.views;
+    total.giftCount += fact.giftCount;
+    total.giftValue += fact.giftValue;
+    total.giftPayout += fact.giftPayout;
+    totals.set(key, total);
+  }
+
+  return [...totals.values()];
+}
+
+function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10); // YYYY-MM-DD
+}
+
+function utcHour(column: AnyColumn) {
+  return sql<number>`extract(hour from ${column} at time zone 'UTC')::int`;
+}
+
+export async function analyticsRollupProcessor(
+  job: Job<AnalyticsRollupJob>,
+  db: Database
+): Promise<void> {
+  switch (job.data.type) {
+    case 'refresh': {
+      const rebuilt = await refreshRollups(db);
+      if (rebuilt > 0) {
+        console.log(`📊 Rebuilt ${rebuilt} rollup day(s)`);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Rebuild every creator-day touched by events since the cursor, then move
+ * the cursor up. Returns how many days were rebuilt.
+ */
+export async function refreshRollups(db: Database, now: Date = new Date()): Promise<number> {
+  const [cursor] = await db
+    .select({ position: analyticsRollupCursors.position })
+    .from(analyticsRollupCursors)
+    .where(eq(analyticsRollupCursors.name, CURSOR_NAME))
+    .limit(1);
+
+  let position = cursor?.position ?? new Date(now.getTime() - INITIAL_LOOKBACK_MS);
+  let rebuilt = 0;
+
+  while (position < now) {
+    const windowEnd = new Date(Math.min(position.getTime() + WINDOW_MS, now.getTime()));
+    const days = await findTouchedDays(db, new Date(position.getTime() - OVERLAP_MS), windowEnd);
+
+    for (const { creatorId, day } of days) {
+      await rebuildRollupDay(db, creatorId, day);
+    }
+
+    rebuilt += days.length;
+    position = windowEnd;
+    await saveCursor(db, position);
+  }
+
+  return rebuilt;
+}
+
+/**
+ * Creator-days with events logged in [from, to), plus days with chat gifts
+ * stored in that time (gifts are written with the transcript, not as events)
+ */
+async function findTouchedDays(
+  db: Database,
+  from: Date,
+  to: Date
+): Promise<Array<{ creatorId: string; day: string }>> {
+  const touched = new Map<string, { creatorId: string; day: string }>();
+  const touch = (creatorId: string, day: string) => {
+    touched.set(`${creatorId}:${day}`, { creatorId, day });
+  };
+
+  const events = await db
+    .select({
+      creatorId: eventLog.creatorId,
+      eventType: eventLog.eventType,
+      payload: eventLog.payload,
+      occurredAt: eventLog.occurredAt,
+    })
+    .from(eventLog)
+    .where(
+      and(
+        gte(eventLog.createdAt, from),
+        lt(eventLog.createdAt, to),
+        inArray(eventLog.eventType, [...ORDER_EVENTS, ...CHECKOUT_EVENTS, ...VIEW_EVENTS])
+      )
+    );
+
+  // Orders and checkouts land in the bucket of their own row, which the
+  // event only points at
+  const orderIds = new Set<string>();
+  const checkoutSessionIds = new Set<string>();
+
+  for (const event of events) {
+    if (ORDER_EVENTS.includes(event.eventType)) {
+      const orderId = event.payload['orderId'];
+      if (typeof orderId === 'string') orderIds.add(orderId);
+    } else if (CHECKOUT_EVENTS.includes(event.eventType)) {
+      const checkoutSessionId = event.payload['checkoutSessionId'];
+      if (typeof checkoutSessionId === 'string') checkoutSessionIds.add(checkoutSessionId);
+    } else if (event.creatorId) {
+      touch(event.creatorId, utcDay(event.occurredAt));
+    }
+  }
+
+  if (orderIds.size > 0) {
+    const rows = await db
+      .select({ creatorId: orders.creatorId, createdAt: orders.createdAt })
+      .from(orders)
+      .where(inArray(orders.id, [...orderIds]));
+    for (const row of rows) touch(row.creatorId, utcDay(row.createdAt));
+  }
+
+  if (checkoutSessionIds.size > 0) {
+    const rows = await db
+      .select({ creatorId: checkoutSessions.creatorId, createdAt: checkoutSessions.createdAt })
+      .from(checkoutSessions)
+      .where(inArray(checkoutSessions.id, [...checkoutSessionIds]));
+    for (const row of rows) touch(row.creatorId, utcDay(row.createdAt));
+  }
+
+  const giftDays = await db
+    .selectDistinct({
+      creatorId: chatGifts.creatorId,
+      day: sql<string>`to_char(${chatGifts.sentAt} at time zone 'UTC', 'YYYY-MM-DD')`,
+    })
+    .from(chatGifts)
+    .where(and(gte(chatGifts.createdAt, from), lt(chatGifts.createdAt, to)));
+  for (const row of giftDays) touch(row.creatorId, row.day);
+
+  return [...touched.values()];
+}
+
+/**
+ * Replace one creator's hourly and daily rollups for a UTC day with fresh
+ * totals from orders, checkout sessions, page views and chat gifts
+ */
+export async function rebuildRollupDay(db: Database, creatorId: string, day: string): Promise<void> {
+  const start = new Date(`${day}T00:00:00.000Z`);
+  const end = new Date(start.getTime() + DAY_MS);
+  const facts: RollupFact[] = [];
+
+  // Orders, by the link's context and the offer checked out
+  const orderHour = utcHour(orders.createdAt);
+  const orderRows = await db
+    .select({
+      hour: orderHour,
+      platform: attributionContexts.platform,
+      surface: attributionContexts.surface,
+      offerId: checkoutSessions.offerId,
+      liveSessionId: attributionContexts.liveSessionId,
+      orders: count(),
+      revenue: sum(orders.total),
+    })
+    .from(orders)
+    .leftJoin(attributionContexts, eq(orders.attributionContextId, attributionContexts.id))
+    .leftJoin(checkoutSessions, eq(orders.checkoutSessionId, checkoutSessions.id))
+    .where(and(eq(orders.creatorId, creatorId), gte(orders.createdAt, start), lt(orders.createdAt, end)))
+    .groupBy(
+      orderHour,
+      attributionContexts.platform,
+      attributionContexts.surface,
+      checkoutSessions.offerId,
+      attributionContexts.liveSessionId
+    );
+
+  for (const row of orderRows) {
+    facts.push({
+      ...EMPTY_FACTS,
+      hour: row.hour,
+      platform: row.platform,
+      surface: row.surface,
+      offerId: row.offerId,
+      liveSessionId: row.liveSessionId,
+      orders: Number(row.orders),
+      revenue: Number(row.revenue ?? 0),
+    });
+  }
+
+  // Checkouts started
+  const checkoutHour = utcHour(checkoutSessions.createdAt);
+  const checkoutRows = await db
+    .select({
+      hour: checkoutHour,
+      platform: attributionContexts.platform,
+      surface: attributionContexts.surface,
+      offerId: checkoutSessions.offerId,
+      liveSessionId: attributionContexts.liveSessionId,
+      checkouts: count(),
+    })
+    .from(checkoutSessions)
+    .leftJoin(attributionContexts, eq(checkoutSessions.attributionContextId, attributionContexts.id))
+    .where(
+      and(
+        eq(checkoutSessions.creatorId, creatorId),
+        gte(checkoutSessions.createdAt, start),
+        lt(checkoutSessions.createdAt, end)
+      )
+    )
+    .groupBy(
+      checkoutHour,
+      attributionContexts.platform,
+      attributionContexts.surface,
+      checkoutSessions.offerId,
+      attributionContexts.liveSessionId
+    );
+
+  for (const row of checkoutRows) {
+    facts.push({
+      ...EMPTY_FACTS,
+      hour: row.hour,
+      platform: row.platform,
+      surface: row.surface,
+      offerId: row.offerId,
+      liveSessionId: row.liveSessionId,
+      checkouts: Number(row.checkouts),
+    });
+  }
+
+  // Replay and link-in-bio page views, straight from the event log
+  const viewHour = utcHour(eventLog.occurredAt);
+  const viewRows = await db
+    .select({
+      hour: viewHour,
+      eventType: eventLog.eventType,
+      platform: replays.platform,
+      views: count(),
+    })
+    .from(eventLog)
+    .leftJoin(replays, sql`${replays.id}::text = ${eventLog.payload}->>'replayId'`)
+    .where(
+      and(
+        eq(eventLog.creatorId, creatorId),
+        inArray(eventLog.eventType, VIEW_EVENTS),
+        gte(eventLog.occurredAt, start),
+        lt(eventLog.occurredAt, end)
+      )
+    )
+    .groupBy(viewHour, eventLog.eventType, replays.platform);
+
+  for (const row of viewRows) {
+    facts.push({
+      ...EMPTY_FACTS,
+      hour: row.hour,
+      platform: row.platform,
+      surface: row.eventType === EVENT_TYPES.REPLAY_VIEW ? 'replay' : 'link_in_bio',
+      offerId: null,
+      liveSessionId: null,
+      views: Number(row.views),
+    });
+  }
+
+  // Gifts sent in live chat
+  const giftHour = utcHour(chatGifts.sentAt);
+  const giftRows = await db
+    .select({
+      hour: giftHour,
+      platform: chatGifts.platform,
+      liveSessionId: chatGifts.liveSessionId,
+      giftCount: count(),
+      giftValue: sum(chatGifts.value),
+      giftPayout: sum(chatGifts.estimatedPayout),
+    })
+    .from(chatGifts)
+    .where(and(eq(chatGifts.creatorId, creatorId), gte(chatGifts.sentAt, start), lt(chatGifts.sentAt, end)))
+    .groupBy(giftHour, chatGifts.platform, chatGifts.liveSessionId);
+
+  for (const row of giftRows) {
+    facts.push({
+      ...EMPTY_FACTS,
+      hour: row.hour,
+      platform: row.platform,
+      surface: 'live',
+      offerId: null,
+      liveSessionId: row.liveSessionId,
+      giftCount: Number(row.giftCount),
+      giftValue: Number(row.giftValue ?? 0),
+      giftPayout: Number(row.giftPayout ?? 0),
+    });
+  }
+
+  const toRow = (fact: RollupFact, granularity: 'hour' | 'day') => {
+    const { hour, ...rest } = fact;
+    return {
+      ...rest,
+      creatorId,
+      granularity,
+      bucketStart: new Date(start.getTime() + hour * HOUR_MS),
+    };
+  };
+
+  const rows = [
+    ...sumRollupFacts(facts, 'hour').map(fact => toRow(fact, 'hour')),
+    ...sumRollupFacts(facts, 'day').map(fact => toRow(fact, 'day')),
+  ];
+
+  await db.transaction(async (tx) => {
+    // A backfill and a refresh can rebuild the same day at once
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`rollup:${creatorId}:${day}`}))`);
+
+    await tx
+      .delete(analyticsRollups)
+      .where(
+        and(
+          eq(analyticsRollups.creatorId, creatorId),
+          gte(analyticsRollups.bucketStart, start),
+          lt(analyticsRollups.bucketStart, end)
+        )
+      );
+
+    if (rows.length > 0) {
+      await tx.insert(analyticsRollups).values(rows);
+    }
+  });
+}
+
+/**
+ * Rebuild every day from `from` (or the creator's first fact) through `to`
+ * (or today), for one creator or all of them
+ */
+export async function backfillRollups(
+  db: Database,
+  options: { creatorId?: string | undefined; from?: Date | undefined; to?: Date | undefined } = {},
+  onDay?: (creatorId: string, day: string) => void
+): Promise<number> {
+  const startedAt = new Date();
+  const creatorIds = options.creatorId
+    ? [options.creatorId]
+    : (await db.select({ id: creators.id }).from(creators)).map(creator => creator.id);
+
+  let rebuilt = 0;
+
+  for (const creatorId of creatorIds) {
+    const from = options.from ?? (await firstFactAt(db, creatorId));
+    if (!from) continue;
+
+    const to = options.to ?? startedAt;
+    for (let day = new Date(`${utcDay(from)}T00:00:00.000Z`); day <= to; day = new Date(day.getTime() + DAY_MS)) {
+      await rebuildRollupDay(db, creatorId, utcDay(day));
+      onDay?.(creatorId, utcDay(day));
+      rebuilt++;
+    }
+  }
+
+  // Refreshes pick up from when the backfill began, unless already running
+  await db
+    .insert(analyticsRollupCursors)
+    .values({ name: CURSOR_NAME, position: startedAt })
+    .onConflictDoNothing();
+
+  return rebuilt;
+}
+
+async function firstFactAt(db: Database, creatorId: string): Promise<Date | null> {
+  const [[order], [checkout], [view], [gift]] = await Promise.all([
+    db.select({ at: min(orders.createdAt) }).from(orders).where(eq(orders.creatorId, creatorId)),
+    db
+      .select({ at: min(checkoutSessions.createdAt) })
+      .from(checkoutSessions)
+      .where(eq(checkoutSessions.creatorId, creatorId)),
+    db
+      .select({ at: min(eventLog.occurredAt) })
+      .from(eventLog)
+      .where(and(eq(eventLog.creatorId, creatorId), inArray(eventLog.eventType, VIEW_EVENTS))),
+    db.select({ at: min(chatGifts.sentAt) }).from(chatGifts).where(eq(chatGifts.creatorId, creatorId)),
+  ]);
+
+  const dates = [order?.at, checkout?.at, view?.at, gift?.at].filter((at): at is Date => at instanceof Date);
+  if (dates.length === 0) return null;
+  return new Date(Math.min(...dates.map(date => date.getTime())));
+}
+
+async function saveCursor(db: Database, position: Date): Promise<void> {
+  await db
+    .insert(analyticsRollupCursors)
+    .values({ name: CURSOR_NAME, position })
+    .onConflictDoUpdate({
+      target: analyticsRollupCursors.name,
+      set: { position, updatedAt: new Date() },
+    });
+}
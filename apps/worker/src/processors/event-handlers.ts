@@ -0,0 +1,509 @@
+import { eq, and, or, gte, lte, asc, inArray, sql } from 'drizzle-orm';
+import type { Database } from '@unifyed/db';
+import {
+  attributionContexts,
+  checkoutSessions,
+  flashSales,
+  liveSessions,
+  moments,
+  offers,
+  orders,
+  replays,
+  shortLinks,
+  streams,
+  variants,
+  viewerIdentities,
+  viewerProducts,
+  viewers,
+  viewerSessions,
+} from '@unifyed/db/schema';
+import {
+  offerExpiredPayloadSchema,
+  purchaseCompletedPayloadSchema,
+  streamEndedPayloadSchema,
+} from '@unifyed/events';
+import { generateSlug } from '@unifyed/utils';
+
+/**
+ * Handlers run inside the transaction that marks the event completed, so a
+ * side effect is either applied together with the completion or not at all.
+ */
+export type EventTransaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+type Stream = typeof streams.$inferSelect;
+
+/**
+ * PURCHASE_COMPLETED
+ * Roll the order up into flash sale, live session and viewer counters
+ */
+export async function handlePurchaseCompleted(
+  tx: EventTransaction,
+  payload: Record<string, unknown>
+): Promise<void> {
+  const data = purchaseCompletedPayloadSchema.parse(payload);
+
+  // Flash sales: one order per sale that priced at least one line
+  if (data.checkoutSessionId) {
+    const [session] = await tx
+      .select({ cartItems: checkoutSessions.cartItems })
+      .from(checkoutSessions)
+      .where(eq(checkoutSessions.id, data.checkoutSessionId))
+      .limit(1);
+
+    const revenueBySale = new Map<string, number>();
+    for (const item of session?.cartItems ?? []) {
+      if (!item.flashSaleId) continue;
+      const lineTotal = (item.offerPrice ?? item.price) * item.quantity;
+      revenueBySale.set(item.flashSaleId, (revenueBySale.get(item.flashSaleId) ?? 0) + lineTotal);
+    }
+
+    for (const [flashSaleId, revenue] of revenueBySale) {
+      await tx
+        .update(flashSales)
+        .set({
+          ordersCount: sql`${flashSales.ordersCount} + 1`,
+          revenueTotal: sql`${flashSales.revenueTotal} + ${revenue}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(flashSales.id, flashSaleId));
+    }
+  }
+
+  // Live session the purchase is attributed to
+  if (data.attributionContextId) {
+    const [context] = await tx
+      .select({ liveSessionId: attributionContexts.liveSessionId })
+      .from(attributionContexts)
+      .where(eq(attributionContexts.id, data.attributionContextId))
+      .limit(1);
+
+    if (context?.liveSessionId) {
+      await tx
+        .update(liveSessions)
+        .set({
+          ordersCount: sql`${liveSessions.ordersCount} + 1`,
+          revenueTotal: sql`${liveSessions.revenueTotal} + ${data.total}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(liveSessions.id, context.liveSessionId));
+    }
+  }
+
+  await creditViewer(tx, data.orderId, data.checkoutSessionId);
+}
+
+/**
+ * Credit an order to the viewer who placed it: the one whose handle was on the
+ * link, or else the one who bought with the same email before. A handle on a
+ * link can be anyone's, so when both exist and differ the email wins. The two
+ * are only merged when the link's viewer has the same email too; otherwise
+ * both profiles are kept.
+ */
+async function creditViewer(
+  tx: EventTransaction,
+  orderId: string,
+  checkoutSessionId: string | null
+): Promise<void> {
+  const [order] = await tx
+    .select({
+      creatorId: orders.creatorId,
+      customerEmail: orders.customerEmail,
+      total: orders.total,
+      lineItems: orders.lineItems,
+    })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+
+  if (!order) return;
+
+  const email = order.customerEmail?.trim().toLowerCase() || null;
+
+  let linked: { id: string; email: string | null } | null = null;
+  if (checkoutSessionId) {
+    const [session] = await tx
+      .select({ id: viewers.id, email: viewers.email })
+      .from(checkoutSessions)
+      .innerJoin(viewers, eq(viewers.id, checkoutSessions.viewerId))
+      .where(eq(checkoutSessions.id, checkoutSessionId))
+      .limit(1);
+    linked = session ?? null;
+  }
+
+  let known: { id: string } | undefined;
+  if (email) {
+    [known] = await tx
+      .select({ id: viewers.id })
+      .from(viewers)
+      .where(and(eq(viewers.creatorId, order.creatorId), eq(viewers.email, email)))
+      .orderBy(asc(viewers.createdAt))
+      .limit(1);
+
+    if (known && linked && known.id !== linked.id && linked.email?.trim().toLowerCase() === email) {
+      await mergeViewers(tx, known.id, linked.id);
+    }
+  }
+
+  const buyerId = known?.id ?? linked?.id;
+  if (!buyerId) return;
+
+  // Top products, by the product behind each line's variant
+  const lines = (order.lineItems ?? []).filter(line => line.variantId);
+  const lineVariants = lines.length > 0
+    ? await tx
+        .select({ id: variants.id, productId: variants.productId })
+        .from(variants)
+        .where(inArray(variants.id, lines.map(line => line.variantId)))
+    : [];
+
+  const byProduct = new Map<string, { quantity: number; revenue: number }>();
+  for (const line of lines) {
+    const productId = lineVariants.find(variant => variant.id === line.variantId)?.productId;
+    if (!productId) continue;
+
+    const entry = byProduct.get(productId) ?? { quantity: 0, revenue: 0 };
+    entry.quantity += line.quantity;
+    entry.revenue += line.price * line.quantity;
+    byProduct.set(productId, entry);
+  }
+
+  if (byProduct.size > 0) {
+    await tx
+      .insert(viewerProducts)
+      .values(Array.from(byProduct, ([productId, entry]) => ({
+        viewerId: buyerId,
+        productId,
+        quantity: entry.quantity,
+        revenue: entry.revenue,
+      })))
+      .onConflictDoUpdate({
+        target: [viewerProducts.viewerId, viewerProducts.productId],
+        set: {
+          quantity: sql`${viewerProducts.quantity} + excluded.quantity`,
+          revenue: sql`${viewerProducts.revenue} + excluded.revenue`,
+          lastPurchasedAt: new Date(),
+        },
+      });
+  }
+
+  await tx
+    .update(viewers)
+    .set({
+      ordersCount: sql`${viewers.ordersCount} + 1`,
+      lifetimeSpend: sql`${viewers.lifetimeSpend} + ${order.total}`,
+      lastPurchaseAt: new Date(),
+      // The email goes on the buyer unless another profile already has it
+      ...(email && !known && { email: sql`coalesce(${viewers.email}, ${email})` }),
+      updatedAt: new Date(),
+    })
+    .where(eq(viewers.id, buyerId));
+}
+
+/**
+ * Fold one viewer into another: chat accounts, checkouts, attendance and
+ * purchases move over, then the source profile is deleted
+ */
+async function mergeViewers(tx: EventTransaction, targetId: string, sourceId: string): Promise<void> {
+  const [source] = await tx
+    .select()
+    .from(viewers)
+    .where(eq(viewers.id, sourceId))
+    .limit(1);
+
+  if (!source) return;
+
+  await tx
+    .update(viewerIdentities)
+    .set({ viewerId: targetId })
+    .where(eq(viewerIdentities.viewerId, sourceId));
+
+  await tx
+    .update(checkoutSessions)
+    .set({ viewerId: targetId })
+    .where(eq(checkoutSessions.viewerId, sourceId));
+
+  const sessions = await tx
+    .select()
+    .from(viewerSessions)
+    .where(eq(viewerSessions.viewerId, sourceId));
+
+  if (sessions.length > 0) {
+    await tx
+      .insert(viewerSessions)
+      .values(sessions.map(({ id: _id, ...session }) => ({ ...session, viewerId: targetId })))
+      .onConflictDoUpdate({
+        target: [viewerSessions.viewerId, viewerSessions.liveSessionId],
+        set: {
+          messageCount: sql`${viewerSessions.messageCount} + excluded.message_count`,
+          firstSeenAt: sql`least(${viewerSessions.firstSeenAt}, excluded.first_seen_at)`,
+          lastSeenAt: sql`greatest(${viewerSessions.lastSeenAt}, excluded.last_seen_at)`,
+        },
+      });
+  }
+
+  const purchased = await tx
+    .select()
+    .from(viewerProducts)
+    .where(eq(viewerProducts.viewerId, sourceId));
+
+  if (purchased.length > 0) {
+    await tx
+      .insert(viewerProducts)
+      .values(purchased.map(({ id: _id, ...product }) => ({ ...product, viewerId: targetId })))
+      .onConflictDoUpdate({
+        target: [viewerProducts.viewerId, viewerProducts.productId],
+        set: {
+          quantity: sql`${viewerProducts.quantity} + excluded.quantity`,
+          revenue: sql`${viewerProducts.revenue} + excluded.revenue`,
+          lastPurchasedAt: sql`greatest(${viewerProducts.lastPurchasedAt}, excluded.last_purchased_at)`,
+        },
+      });
+  }
+
+  // Cascades the source's own session and product rows
+  await tx.delete(viewers).where(eq(viewers.id, sourceId));
+
+  await tx
+    .update(viewers)
+    .set({
+      ordersCount: sql`${viewers.ordersCount} + ${source.ordersCount}`,
+      lifetimeSpend: sql`${viewers.lifetimeSpend} + ${source.lifetimeSpend}`,
+      sessionsAttended: sql`(select count(*) from ${viewerSessions} where ${viewerSessions.viewerId} = ${viewers.id})::int`,
+      firstSeenAt: sql`least(${viewers.firstSeenAt}, ${source.firstSeenAt.toISOString()}::timestamptz)`,
+      lastSeenAt: sql`greatest(${viewers.lastSeenAt}, ${source.lastSeenAt.toISOString()}::timestamptz)`,
+      ...(source.lastPurchaseAt && {
+        lastPurchaseAt: sql`greatest(${viewers.lastPurchaseAt}, ${source.lastPurchaseAt.toISOString()}::timestamptz)`,
+      }),
+      email: sql`coalesce(${viewers.email}, ${source.email})`,
+      updatedAt: new Date(),
+    })
+    .where(eq(viewers.id, targetId));
+}
+
+/**
+ * OFFER_EXPIRED
+ * Revoke every link still pointing at the offer
+ */
+export async function handleOfferExpired(
+  tx: EventTransaction,
+  payload: Record<string, unknown>
+): Promise<void> {
+  const { offerId } = offerExpiredPayloadSchema.parse(payload);
+
+  const revoked = await tx
+    .update(shortLinks)
+    .set({
+      isRevoked: true,
+      revokedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(shortLinks.offerId, offerId), eq(shortLinks.isRevoked, false)))
+    .returning({ id: shortLinks.id });
+
+  console.log(`🔒 Revoked ${revoked.length} links for expired offer ${offerId}`);
+}
+
+/**
+ * STREAM_ENDED
+ * Make sure the stream has a replay (importing the VOD where the platform
+ * allows it) and mark the commerce moments from the stream on it
+ */
+export async function handleStreamEnded(
+  tx: EventTransaction,
+  payload: Record<string, unknown>
+): Promise<void> {
+  const { streamId } = streamEndedPayloadSchema.parse(payload);
+
+  const [stream] = await tx
+    .select()
+    .from(streams)
+    .where(eq(streams.id, streamId))
+    .limit(1);
+
+  if (!stream) {
+    console.warn(`Stream ${streamId} not found`);
+    return;
+  }
+
+  const replayId = await importReplay(tx, stream);
+  const created = await generateMoments(tx, stream, replayId);
+
+  console.log(`🎬 Replay ${replayId} ready for stream ${stream.id} (${created} moments)`);
+}
+
+/**
+ * Find or create the stream's replay and point it at the platform VOD
+ */
+async function importReplay(tx: EventTransaction, stream: Stream): Promise<string> {
+  const vod = getPlatformVod(stream);
+
+  const [existing] = await tx
+    .select()
+    .from(replays)
+    .where(eq(replays.streamId, stream.id))
+    .limit(1);
+
+  if (existing) {
+    // Don't overwrite a URL the creator already set
+    if (vod && !existing.videoUrl) {
+      await tx
+        .update(replays)
+        .set({
+          videoSource: 'platform_import',
+          platformVideoId: vod.platformVideoId,
+          videoUrl: vod.videoUrl,
+          updatedAt: new Date(),
+        })
+        .where(eq(replays.id, existing.id));
+    }
+    return existing.id;
+  }
+
+  const [replay] = await tx
+    .insert(replays)
+    .values({
+      creatorId: stream.creatorId,
+      streamId: stream.id,
+      platform: stream.platform,
+      platformConnectionId: stream.platformConnectionId,
+      videoSource: vod ? 'platform_import' : 'manual_url',
+      platformVideoId: vod?.platformVideoId ?? null,
+      videoUrl: vod?.videoUrl ?? null,
+      title: stream.title,
+      description: stream.description,
+      thumbnailUrl: stream.thumbnailUrl,
+      duration: stream.actualStartAt && stream.endedAt
+        ? Math.floor((stream.endedAt.getTime() - stream.actualStartAt.getTime()) / 1000)
+        : null,
+      slug: generateSlug(stream.title ?? undefined),
+      isPublished: false,
+    })
+    .returning({ id: replays.id });
+
+  if (!replay) {
+    throw new Error(`Failed to create replay for stream ${stream.id}`);
+  }
+
+  return replay.id;
+}
+
+/**
+ * YouTube keeps the live broadcast as a video with the same ID. Other
+ * platforms publish the VOD under a new ID, so those replays wait for a URL.
+ */
+function getPlatformVod(stream: Stream): { platformVideoId: string; videoUrl: string } | null {
+  if (stream.platform === 'youtube' && stream.platformStreamId) {
+    return {
+      platformVideoId: stream.platformStreamId,
+      videoUrl: `https://www.youtube.com/watch?v=${stream.platformStreamId}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Create a moment for every link dropped in chat during the stream, leaving
+ * out links sent to a single viewer
+ */
+async function generateMoments(
+  tx: EventTransaction,
+  stream: Stream,
+  replayId: string
+): Promise<number> {
+  const startedAt = stream.actualStartAt ?? stream.createdAt;
+  const endedAt = stream.endedAt ?? new Date();
+
+  // Skip if an earlier STREAM_ENDED for this stream already generated them
+  const [alreadyGenerated] = await tx
+    .select({ id: moments.id })
+    .from(moments)
+    .where(and(
+      eq(moments.streamId, stream.id),
+      sql`${moments.metadata}->>'generated' = 'true'`
+    ))
+    .limit(1);
+
+  if (alreadyGenerated) {
+    return 0;
+  }
+
+  const contextMatch = stream.liveSessionId
+    ? or(
+        eq(attributionContexts.streamId, stream.id),
+        eq(attributionContexts.liveSessionId, stream.liveSessionId)
+      )
+    : eq(attributionContexts.streamId, stream.id);
+
+  const drops = await tx
+    .select({
+      linkId: shortLinks.id,
+      createdAt: shortLinks.createdAt,
+      metadata: shortLinks.metadata,
+      offerName: offers.name,
+    })
+    .from(shortLinks)
+    .innerJoin(attributionContexts, eq(shortLinks.attributionContextId, attributionContexts.id))
+    .innerJoin(offers, eq(shortLinks.offerId, offers.id))
+    .where(and(
+      eq(shortLinks.creatorId, stream.creatorId),
+      gte(shortLinks.createdAt, startedAt),
+      lte(shortLinks.createdAt, endedAt),
+      contextMatch
+    ))
+    .orderBy(shortLinks.createdAt);
+
+  const values = buildMoments(drops, { creatorId: stream.creatorId, streamId: stream.id, replayId, startedAt });
+  if (values.length === 0) {
+    return 0;
+  }
+
+  await tx.insert(moments).values(values);
+
+  return values.length;
+}
+
+// Links made for one viewer (a reply in chat) rather than dropped for everyone
+const PER_VIEWER_LINK_SOURCES = new Set(['reply_link']);
+
+export interface MomentDrop {
+  linkId: string;
+  createdAt: Date;
+  metadata: Record<string, unknown> | null;
+  offerName: string;
+}
+
+/**
+ * Moments for the links dropped during a stream, in drop order. Links made
+ * for a single viewer aren't moments.
+ */
+export function buildMoments(
+  drops: MomentDrop[],
+  context: { creatorId: string; streamId: string; replayId: string; startedAt: Date }
+): Array<typeof moments.$inferInsert> {
+  return drops
+    .map(drop => ({
+      drop,
+      source: typeof drop.metadata?.['source'] === 'string' ? drop.metadata['source'] : null,
+    }))
+    .filter(({ source }) => !source || !PER_VIEWER_LINK_SOURCES.has(source))
+    .map(({ drop, source }, index) => ({
+      creatorId: context.creatorId,
+      streamId: context.streamId,
+      replayId: context.replayId,
+      title: momentTitle(source, drop.offerName).slice(0, 255),
+      timestamp: Math.max(0, Math.floor((drop.createdAt.getTime() - context.startedAt.getTime()) / 1000)),
+      sortOrder: index,
+      metadata: { generated: true, shortLinkId: drop.linkId, source },
+    }));
+}
+
+function momentTitle(source: string | null, offerName: string): string {
+  switch (source) {
+    case 'flash_sale':
+      return `⚡ Flash sale: ${offerName}`;
+    case 'pin':
+      return `📌 ${offerName}`;
+    default:
+      return offerName;
+  }
+}
@@ -1,8 +1,15 @@
-import { Job } from 'bullmq';
-import { eq } from 'drizzle-orm';
+import { Job, Queue } from 'bullmq';
+import { eq, and, ne, sql } from 'drizzle-orm';
 import type { Database } from '@unifyed/db';
 import { eventLog } from '@unifyed/db/schema';
 import { EVENT_TYPES } from '@unifyed/events';
+import {
+  handlePurchaseCompleted,
+  handleOfferExpired,
+  handleStreamEnded,
+  type EventTransaction,
+} from './event-handlers.js';
+import { createWebhookDeliveries, enqueueDeliveries, type WebhookDeliveryJob } from './webhook-delivery.js';
 
 interface EventProcessorJob {
   eventId: string;
@@ -10,7 +17,8 @@ interface EventProcessorJob {
 
 export async function eventProcessor(
   job: Job<EventProcessorJob>,
-  db: Database
+  db: Database,
+  webhookQueue: Queue<WebhookDeliveryJob>
 ): Promise<void> {
   const { eventId } = job.data;
   
@@ -32,29 +40,48 @@ export async function eventProcessor(
     return;
   }
   
-  // Mark as processing
+  // Mark as processing (never downgrade an event another job just completed)
   await db
     .update(eventLog)
     .set({
       processingStatus: 'processing',
-      processingAttempts: event.processingAttempts + 1,
+      processingAttempts: sql`${eventLog.processingAttempts} + 1`,
     })
-    .where(eq(eventLog.id, event.id));
+    .where(and(eq(eventLog.id, event.id), ne(eventLog.processingStatus, 'completed')));
   
+  let deliveryIds: string[] | null;
   try {
-    // Process event based on type
-    await processEvent(event.eventType, event.payload as Record<string, unknown>, db);
-    
-    // Mark as completed
-    await db
-      .update(eventLog)
-      .set({
-        processingStatus: 'completed',
-        processedAt: new Date(),
-      })
-      .where(eq(eventLog.id, event.id));
-    
-    console.log(`✅ Processed event ${eventId} (${event.eventType})`);
+    // Side effects and the completed flag commit together. The row lock makes
+    // a concurrent job for the same event wait, then see it completed.
+    deliveryIds = await db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select({ processingStatus: eventLog.processingStatus })
+        .from(eventLog)
+        .where(eq(eventLog.id, event.id))
+        .for('update');
+      
+      if (!locked || locked.processingStatus === 'completed') {
+        return null;
+      }
+      
+      // Process event based on type
+      await processEvent(event.eventType, event.payload, tx);
+      
+      // Fan out to creator webhook endpoints
+      const deliveryIds = await createWebhookDeliveries(tx, event);
+      
+      // Mark as completed
+      await tx
+        .update(eventLog)
+        .set({
+          processingStatus: 'completed',
+          processedAt: new Date(),
+          processingError: null,
+        })
+        .where(eq(eventLog.id, event.id));
+      
+      return deliveryIds;
+    });
   } catch (error) {
     // Mark as failed
     await db
@@ -67,37 +94,36 @@ export async function eventProcessor(
     
     throw error;
   }
+  
+  if (!deliveryIds) {
+    console.log(`Event ${eventId} already processed`);
+    return;
+  }
+  
+  // Queue after commit so the delivery rows exist when the jobs run. The event
+  // is already completed here, so a queue error must not fail it; deliveries
+  // left pending are picked up by the sweep.
+  await enqueueDeliveries(webhookQueue, deliveryIds);
+  
+  console.log(`✅ Processed event ${eventId} (${event.eventType})`);
 }
 
 async function processEvent(
   eventType: string,
   payload: Record<string, unknown>,
-  _db: Database
+  tx: EventTransaction
 ): Promise<void> {
-  // Event-specific processing logic
-  // This is where you'd trigger side effects, send notifications, etc.
-  
   switch (eventType) {
     case EVENT_TYPES.PURCHASE_COMPLETED:
-      // Could trigger:
-      // - Send purchase notification to creator
-      // - Update analytics
-      // - Trigger post-purchase automation
-      console.log('Processing purchase completed event', payload);
+      await handlePurchaseCompleted(tx, payload);
       break;
       
     case EVENT_TYPES.OFFER_EXPIRED:
-      // Could trigger:
-      // - Revoke all short links for this offer
-      // - Send notification to creator
-      console.log('Processing offer expired event', payload);
+      await handleOfferExpired(tx, payload);
       break;
       
     case EVENT_TYPES.STREAM_ENDED:
-      // Could trigger:
-      // - Start video import process
-      // - Generate replay page
-      console.log('Processing stream ended event', payload);
+      await handleStreamEnded(tx, payload);
       break;
       
     case EVENT_TYPES.RESERVATION_EXPIRED:
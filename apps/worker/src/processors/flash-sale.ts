@@ -0,0 +1,204 @@
+import { Job } from 'bullmq';
+import type { Redis } from 'ioredis';
+import { eq, and, lte, inArray } from 'drizzle-orm';
+import type { Database } from '@unifyed/db';
+import { flashSales, offers, shortLinks } from '@unifyed/db/schema';
+import { CHAT_ANNOUNCEMENT_CHANNEL, type ChatAnnouncement } from '@unifyed/types';
+
+/**
+ * Flash sale lifecycle jobs
+ *
+ * The API queues start/countdown/end as delayed jobs when a sale is created.
+ * `reconcile` runs on a schedule and catches anything those jobs missed
+ * (Redis flushed, sale edited in the database, etc.), so state always
+ * converges on scheduled → active → ended.
+ */
+export type FlashSaleJob =
+  | { type: 'start'; flashSaleId: string }
+  | { type: 'countdown'; flashSaleId: string; minutesLeft: number }
+  | { type: 'end'; flashSaleId: string }
+  | { type: 'reconcile' };
+
+type FlashSale = typeof flashSales.$inferSelect;
+
+export async function flashSaleProcessor(
+  job: Job<FlashSaleJob>,
+  db: Database,
+  redis: Redis
+): Promise<void> {
+  const data = job.data;
+
+  switch (data.type) {
+    case 'start':
+      await startFlashSale(db, redis, data.flashSaleId);
+      break;
+
+    case 'countdown':
+      await announceCountdown(db, redis, data.flashSaleId);
+      break;
+
+    case 'end':
+      await endFlashSale(db, redis, data.flashSaleId);
+      break;
+
+    case 'reconcile':
+      await reconcileFlashSales(db, redis);
+      break;
+  }
+}
+
+/**
+ * Move a scheduled sale to active and announce it.
+ * The status check in the UPDATE makes this safe to run more than once.
+ */
+async function startFlashSale(db: Database, redis: Redis, flashSaleId: string): Promise<void> {
+  const [sale] = await db
+    .update(flashSales)
+    .set({ status: 'active', updatedAt: new Date() })
+    .where(and(eq(flashSales.id, flashSaleId), eq(flashSales.status, 'scheduled')))
+    .returning();
+
+  if (!sale) {
+    console.log(`⚡ Flash sale ${flashSaleId} is not scheduled, skipping start`);
+    return;
+  }
+
+  // Started too late to matter (e.g. worker was down the whole window)
+  if (sale.endsAt <= new Date()) {
+    await endFlashSale(db, redis, sale.id);
+    return;
+  }
+
+  const context = await getAnnouncementContext(db, sale);
+  const minutes = minutesUntil(sale.endsAt);
+  const link = context.code ? `\n🔗 unifyed.link/${context.code}` : '';
+
+  const message = sale.message
+    ? `⚡ FLASH SALE! ${sale.message}\n\n${context.offerName} - ${sale.flashDiscount}% OFF!\n⏰ Ends in ${minutes} minutes!${link}`
+    : `⚡ FLASH SALE! ${context.offerName}\n\n💰 ${sale.flashDiscount}% OFF - LIMITED TIME!\n⏰ Ends in ${minutes} minutes!${link}`;
+
+  await announce(redis, { creatorId: sale.creatorId, message });
+  console.log(`⚡ Flash sale ${sale.id} started`);
+}
+
+/**
+ * Remind chat that an active sale is about to end
+ */
+async function announceCountdown(db: Database, redis: Redis, flashSaleId: string): Promise<void> {
+  const [sale] = await db
+    .select()
+    .from(flashSales)
+    .where(eq(flashSales.id, flashSaleId))
+    .limit(1);
+
+  if (!sale || sale.status !== 'active' || sale.endsAt <= new Date()) {
+    return;
+  }
+
+  const context = await getAnnouncementContext(db, sale);
+  const minutes = minutesUntil(sale.endsAt);
+  const link = context.code ? `\n🔗 unifyed.link/${context.code}` : '';
+
+  await announce(redis, {
+    creatorId: sale.creatorId,
+    message: `⏰ Only ${minutes} minute${minutes === 1 ? '' : 's'} left! ${context.offerName} - ${sale.flashDiscount}% OFF${link}`,
+  });
+}
+
+/**
+ * End a sale and announce it (only if it was actually running)
+ */
+async function endFlashSale(db: Database, redis: Redis, flashSaleId: string): Promise<void> {
+  const [sale] = await db
+    .update(flashSales)
+    .set({ status: 'ended', updatedAt: new Date() })
+    .where(and(
+      eq(flashSales.id, flashSaleId),
+      inArray(flashSales.status, ['scheduled', 'active'])
+    ))
+    .returning();
+
+  if (!sale) {
+    console.log(`⚡ Flash sale ${flashSaleId} already ended or cancelled`);
+    return;
+  }
+
+  const context = await getAnnouncementContext(db, sale);
+
+  await announce(redis, {
+    creatorId: sale.creatorId,
+    message: `⏰ Flash sale ended! ${context.offerName} is back to regular price. Thanks to everyone who grabbed this deal!`,
+  });
+  console.log(`⚡ Flash sale ${sale.id} ended`);
+}
+
+/**
+ * Catch up on any transitions that are due
+ */
+async function reconcileFlashSales(db: Database, redis: Redis): Promise<void> {
+  const now = new Date();
+
+  const dueToEnd = await db
+    .select({ id: flashSales.id })
+    .from(flashSales)
+    .where(and(
+      inArray(flashSales.status, ['scheduled', 'active']),
+      lte(flashSales.endsAt, now)
+    ))
+    .limit(100);
+
+  for (const sale of dueToEnd) {
+    await endFlashSale(db, redis, sale.id);
+  }
+
+  const dueToStart = await db
+    .select({ id: flashSales.id })
+    .from(flashSales)
+    .where(and(
+      eq(flashSales.status, 'scheduled'),
+      lte(flashSales.startsAt, now)
+    ))
+    .limit(100);
+
+  for (const sale of dueToStart) {
+    await startFlashSale(db, redis, sale.id);
+  }
+
+  if (dueToEnd.length > 0 || dueToStart.length > 0) {
+    console.log(`⚡ Reconciled flash sales: ${dueToStart.length} started, ${dueToEnd.length} ended`);
+  }
+}
+
+async function getAnnouncementContext(db: Database, sale: FlashSale) {
+  const [offer] = await db
+    .select({ name: offers.name })
+    .from(offers)
+    .where(eq(offers.id, sale.offerId))
+    .limit(1);
+
+  let code: string | null = null;
+  if (sale.shortLinkId) {
+    const [link] = await db
+      .select({ code: shortLinks.code, isRevoked: shortLinks.isRevoked })
+      .from(shortLinks)
+      .where(eq(shortLinks.id, sale.shortLinkId))
+      .limit(1);
+    code = link && !link.isRevoked ? link.code : null;
+  }
+
+  return {
+    offerName: offer?.name ?? 'The deal',
+    code,
+  };
+}
+
+function minutesUntil(date: Date): number {
+  return Math.max(1, Math.round((date.getTime() - Date.now()) / 60000));
+}
+
+/**
+ * Hand the message to whichever API instance holds the creator's chat
+ */
+async function announce(redis: Redis, announcement: ChatAnnouncement): Promise<void> {
+  await redis.publish(CHAT_ANNOUNCEMENT_CHANNEL, JSON.stringify(announcement));
+}
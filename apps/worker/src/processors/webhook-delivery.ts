@@ -0,0 +1,359 @@
+import http from 'node:http';
+import https from 'node:https';
+import { Job, Queue } from 'bullmq';
+import { eq, and, lt, sql } from 'drizzle-orm';
+import type { Database } from '@unifyed/db';
+import { eventLog, webhookEndpoints, webhookDeliveries } from '@unifyed/db/schema';
+import {
+  decrypt,
+  retry,
+  isRetryableError,
+  signWebhookPayload,
+  assertPublicUrl,
+  publicOnlyLookup,
+} from '@unifyed/utils';
+import { env } from '../config.js';
+import type { EventTransaction } from './event-handlers.js';
+
+/**
+ * Webhook delivery jobs
+ *
+ * One job per delivery row, keyed by the delivery id. `sweep` runs on a
+ * schedule and re-queues deliveries still pending whose job was never added
+ * (queue down after the event committed) or has gone from Redis.
+ */
+export type WebhookDeliveryJob =
+  | { deliveryId: string }
+  | { type: 'sweep' };
+
+const DELIVERY_TIMEOUT_MS = 10000;
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+// A delivery pending this long without a live job has lost it
+const SWEEP_PENDING_AFTER_MS = 2 * 60 * 1000;
+const SWEEP_BATCH_SIZE = 500;
+const LIVE_JOB_STATES = new Set(['active', 'waiting', 'delayed', 'prioritized', 'waiting-children']);
+
+/**
+ * Error from a single delivery attempt. `status` is null when the request
+ * never got a response (DNS, connection refused, timeout).
+ */
+class WebhookDeliveryError extends Error {
+  constructor(
+    message: string,
+    public status: number | null,
+    public responseBody: string | null = null
+  ) {
+    super(message);
+    this.name = 'WebhookDeliveryError';
+  }
+}
+
+/**
+ * Create a pending delivery for every active endpoint subscribed to the event.
+ * Runs inside the event processor transaction so fan-out happens exactly once.
+ */
+export async function createWebhookDeliveries(
+  tx: EventTransaction,
+  event: typeof eventLog.$inferSelect
+): Promise<string[]> {
+  if (!event.creatorId) {
+    return [];
+  }
+
+  const endpoints = await tx
+    .select({ id: webhookEndpoints.id, eventTypes: webhookEndpoints.eventTypes })
+    .from(webhookEndpoints)
+    .where(and(
+      eq(webhookEndpoints.creatorId, event.creatorId),
+      eq(webhookEndpoints.isActive, true)
+    ));
+
+  const subscribed = endpoints.filter(
+    (endpoint) => endpoint.eventTypes.length === 0 || endpoint.eventTypes.includes(event.eventType)
+  );
+
+  if (subscribed.length === 0) {
+    return [];
+  }
+
+  const deliveries = await tx
+    .insert(webhookDeliveries)
+    .values(subscribed.map((endpoint) => ({
+      endpointId: endpoint.id,
+      creatorId: event.creatorId!,
+      eventId: event.eventId,
+      eventType: event.eventType,
+    })))
+    .returning({ id: webhookDeliveries.id });
+
+  return deliveries.map((delivery) => delivery.id);
+}
+
+/**
+ * Queue a delivery job per row. Failures are logged rather than thrown: the
+ * rows are committed and stay pending, so the sweep queues them later.
+ */
+export async function enqueueDeliveries(
+  queue: Queue<WebhookDeliveryJob>,
+  deliveryIds: string[]
+): Promise<void> {
+  for (const deliveryId of deliveryIds) {
+    try {
+      await queue.add('deliver', { deliveryId }, { jobId: deliveryId });
+    } catch (error) {
+      console.warn(`⚠️ Could not queue webhook delivery ${deliveryId}, leaving it for the sweep:`, error);
+    }
+  }
+}
+
+/**
+ * Re-queue pending deliveries that have no job waiting or running.
+ * Finished jobs under the same id are removed first so the add isn't ignored.
+ */
+export async function sweepPendingDeliveries(
+  db: Database,
+  queue: Queue<WebhookDeliveryJob>
+): Promise<number> {
+  const pending = await db
+    .select({ id: webhookDeliveries.id })
+    .from(webhookDeliveries)
+    .where(and(
+      eq(webhookDeliveries.status, 'pending'),
+      lt(webhookDeliveries.createdAt, new Date(Date.now() - SWEEP_PENDING_AFTER_MS))
+    ))
+    .orderBy(webhookDeliveries.createdAt)
+    .limit(SWEEP_BATCH_SIZE);
+
+  const requeued: string[] = [];
+
+  for (const { id } of pending) {
+    const existing = await queue.getJob(id);
+    if (existing) {
+      if (LIVE_JOB_STATES.has(await existing.getState())) {
+        continue;
+      }
+      await existing.remove();
+    }
+    requeued.push(id);
+  }
+
+  await enqueueDeliveries(queue, requeued);
+
+  if (requeued.length > 0) {
+    console.log(`🧹 Re-queued ${requeued.length} pending webhook deliveries`);
+  }
+
+  return requeued.length;
+}
+
+export async function webhookDeliveryProcessor(
+  job: Job<WebhookDeliveryJob>,
+  db: Database,
+  queue: Queue<WebhookDeliveryJob>
+): Promise<void> {
+  if ('type' in job.data) {
+    await sweepPendingDeliveries(db, queue);
+    return;
+  }
+
+  const { deliveryId } = job.data;
+
+  const [delivery] = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.id, deliveryId))
+    .limit(1);
+
+  if (!delivery || delivery.status !== 'pending') {
+    console.log(`Webhook delivery ${deliveryId} not pending, skipping`);
+    return;
+  }
+
+  const [endpoint] = await db
+    .select()
+    .from(webhookEndpoints)
+    .where(eq(webhookEndpoints.id, delivery.endpointId))
+    .limit(1);
+
+  if (!endpoint || !endpoint.isActive) {
+    await markFailed(db, deliveryId, 0, new WebhookDeliveryError('Endpoint is disabled', null));
+    return;
+  }
+
+  const [event] = await db
+    .select()
+    .from(eventLog)
+    .where(eq(eventLog.eventId, delivery.eventId))
+    .limit(1);
+
+  if (!event) {
+    await markFailed(db, deliveryId, 0, new WebhookDeliveryError('Event not found', null));
+    return;
+  }
+
+  const secret = decrypt(endpoint.secret, env.CREDENTIALS_ENCRYPTION_KEY);
+  const body = JSON.stringify({
+    id: event.eventId,
+    type: event.eventType,
+    createdAt: event.occurredAt.toISOString(),
+    data: event.payload,
+  });
+
+  let attempts = 0;
+  const startedAt = Date.now();
+
+  try {
+    const response = await retry(
+      async () => {
+        attempts++;
+        return send(endpoint.url, body, secret, {
+          'X-Unifyed-Event': event.eventType,
+          'X-Unifyed-Delivery': delivery.id,
+        });
+      },
+      {
+        maxAttempts: 5,
+        initialDelay: 1000,
+        maxDelay: 30000,
+        backoffMultiplier: 2,
+        retryIf: (error) =>
+          error instanceof WebhookDeliveryError && (error.status === null || isRetryableError(error)),
+      }
+    );
+
+    await db
+      .update(webhookDeliveries)
+      .set({
+        status: 'succeeded',
+        attempts,
+        responseStatus: response.status,
+        responseBody: response.body,
+        error: null,
+        durationMs: Date.now() - startedAt,
+        deliveredAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(webhookDeliveries.id, deliveryId));
+
+    await db
+      .update(webhookEndpoints)
+      .set({ lastDeliveryAt: new Date(), consecutiveFailures: 0, updatedAt: new Date() })
+      .where(eq(webhookEndpoints.id, endpoint.id));
+
+    console.log(`📤 Delivered ${event.eventType} to webhook ${endpoint.id}`);
+  } catch (error) {
+    const deliveryError = error instanceof WebhookDeliveryError
+      ? error
+      : new WebhookDeliveryError(error instanceof Error ? error.message : String(error), null);
+
+    await markFailed(db, deliveryId, attempts, deliveryError, Date.now() - startedAt);
+
+    await db
+      .update(webhookEndpoints)
+      .set({
+        consecutiveFailures: sql`${webhookEndpoints.consecutiveFailures} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(webhookEndpoints.id, endpoint.id));
+
+    console.warn(`⚠️ Webhook delivery ${deliveryId} failed after ${attempts} attempts: ${deliveryError.message}`);
+  }
+}
+
+/**
+ * POST the signed body once. Signed per attempt so the timestamp stays fresh.
+ * The host is checked again here (not just when the endpoint was saved) and
+ * redirects are not followed, so a delivery can only reach a public address.
+ */
+async function send(
+  url: string,
+  body: string,
+  secret: string,
+  headers: Record<string, string>
+): Promise<{ status: number; body: string }> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = signWebhookPayload(body, timestamp, secret);
+
+  let response: { status: number; body: string };
+  try {
+    await assertPublicUrl(url);
+    response = await post(url, body, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Unifyed-Webhooks/1.0',
+      'X-Unifyed-Signature': `t=${timestamp},v1=${signature}`,
+      ...headers,
+    });
+  } catch (error) {
+    throw new WebhookDeliveryError(error instanceof Error ? error.message : String(error), null);
+  }
+
+  // 3xx counts as a failure: the endpoint must answer at its own URL
+  if (response.status < 200 || response.status >= 300) {
+    throw new WebhookDeliveryError(`Endpoint responded with ${response.status}`, response.status, response.body);
+  }
+
+  return response;
+}
+
+/**
+ * Plain http(s) POST whose DNS lookup refuses non-public addresses
+ */
+function post(
+  url: string,
+  body: string,
+  headers: Record<string, string>
+): Promise<{ status: number; body: string }> {
+  const target = new URL(url);
+  const request = target.protocol === 'https:' ? https.request : http.request;
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      target,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        lookup: publicOnlyLookup,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      (res) => {
+        let received = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          if (received.length < MAX_RESPONSE_BODY_LENGTH) {
+            received += chunk;
+          }
+        });
+        res.on('end', () => resolve({
+          status: res.statusCode ?? 0,
+          body: received.slice(0, MAX_RESPONSE_BODY_LENGTH),
+        }));
+        res.on('error', reject);
+      }
+    );
+
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+async function markFailed(
+  db: Database,
+  deliveryId: string,
+  attempts: number,
+  error: WebhookDeliveryError,
+  durationMs?: number
+): Promise<void> {
+  await db
+    .update(webhookDeliveries)
+    .set({
+      status: 'failed',
+      attempts,
+      responseStatus: error.status,
+      responseBody: error.responseBody,
+      error: error.message,
+      durationMs: durationMs ?? null,
+      updatedAt: new Date(),
+    })
+    .where(eq(webhookDeliveries.id, deliveryId));
+}
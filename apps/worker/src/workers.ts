@@ -1,4 +1,5 @@
-import { Worker } from 'bullmq';
+import { Worker, Queue } from 'bullmq';
+import { Redis } from 'ioredis';
 import { createDatabase } from '@unifyed/db';
 import { env } from './config.js';
 
@@ -7,11 +8,30 @@ import { catalogSyncProcessor } from './processors/catalog-sync.js';
 import { streamDetectionProcessor } from './processors/stream-detection.js';
 import { reservationExpiryProcessor } from './processors/reservation-expiry.js';
 import { eventProcessor } from './processors/event-processor.js';
+import { flashSaleProcessor } from './processors/flash-sale.js';
+import { webhookDeliveryProcessor, type WebhookDeliveryJob } from './processors/webhook-delivery.js';
+import { analyticsRollupProcessor, type AnalyticsRollupJob } from './processors/analytics-rollup.js';
 import { StreamDetectionScheduler, createStreamDetectionScheduler } from './processors/stream-detection-scheduler.js';
 
 // Store scheduler reference for shutdown
 let streamScheduler: StreamDetectionScheduler | null = null;
 
+// Flash sale reconcile runs as a BullMQ job scheduler (survives restarts)
+const FLASH_SALE_RECONCILE_INTERVAL_MS = 60000;
+let flashSaleQueue: Queue | null = null;
+
+// Analytics rollups refresh from the event log on a BullMQ job scheduler
+const ANALYTICS_ROLLUP_INTERVAL_MS = 60000;
+let analyticsRollupQueue: Queue<AnalyticsRollupJob> | null = null;
+
+// Event processor fans out to creator webhooks through this queue; a job
+// scheduler on it re-queues deliveries whose job was lost
+const WEBHOOK_SWEEP_INTERVAL_MS = 60000;
+let webhookQueue: Queue<WebhookDeliveryJob> | null = null;
+
+// Publisher for chat announcements (flash sales)
+let redis: Redis | null = null;
+
 export async function createWorkers(): Promise<Worker[]> {
   const db = createDatabase(env.DATABASE_URL);
   
@@ -24,6 +44,12 @@ export async function createWorkers(): Promise<Worker[]> {
   if (redisUrl.password) connection.password = redisUrl.password;
   if (redisUrl.username) connection.username = redisUrl.username;
   
+  redis = new Redis(env.REDIS_URL, { maxRetriesPerRequest: null });
+  const publisher = redis;
+
+  webhookQueue = new Queue<WebhookDeliveryJob>('webhook-delivery', { connection });
+  const deliveries = webhookQueue;
+
   const workers: Worker[] = [];
   
   // Catalog sync worker
@@ -72,7 +98,7 @@ export async function createWorkers(): Promise<Worker[]> {
   workers.push(
     new Worker(
       'event-processor',
-      async (job) => eventProcessor(job, db),
+      async (job) => eventProcessor(job, db, deliveries),
       {
         connection,
         concurrency: 10,
@@ -82,6 +108,48 @@ export async function createWorkers(): Promise<Worker[]> {
     )
   );
   
+  // Flash sale lifecycle worker
+  workers.push(
+    new Worker(
+      'flash-sale',
+      async (job) => flashSaleProcessor(job, db, publisher),
+      {
+        connection,
+        concurrency: 5,
+        removeOnComplete: { count: 100 },
+        removeOnFail: { count: 500 },
+      }
+    )
+  );
+  
+  // Outbound webhook delivery worker (retries with backoff inside each job)
+  workers.push(
+    new Worker(
+      'webhook-delivery',
+      async (job) => webhookDeliveryProcessor(job, db, deliveries),
+      {
+        connection,
+        concurrency: 10,
+        removeOnComplete: { count: 1000 },
+        removeOnFail: { count: 500 },
+      }
+    )
+  );
+  
+  // Analytics rollup worker (one at a time, refreshes share a cursor)
+  workers.push(
+    new Worker(
+      'analytics-rollup',
+      async (job) => analyticsRollupProcessor(job, db),
+      {
+        connection,
+        concurrency: 1,
+        removeOnComplete: { count: 100 },
+        removeOnFail: { count: 500 },
+      }
+    )
+  );
+  
   // Setup error handlers
   workers.forEach((worker) => {
     worker.on('completed', (job) => {
@@ -105,6 +173,41 @@ export async function createWorkers(): Promise<Worker[]> {
   });
   await streamScheduler.start();
   
+  // Reconcile flash sales every minute in case a lifecycle job was lost
+  flashSaleQueue = new Queue('flash-sale', { connection });
+  await flashSaleQueue.upsertJobScheduler(
+    'flash-sale-reconcile',
+    { every: FLASH_SALE_RECONCILE_INTERVAL_MS },
+    {
+      name: 'reconcile',
+      data: { type: 'reconcile' },
+      opts: { removeOnComplete: true, removeOnFail: 50 },
+    }
+  );
+  
+  // Refresh analytics rollups every minute
+  analyticsRollupQueue = new Queue<AnalyticsRollupJob>('analytics-rollup', { connection });
+  await analyticsRollupQueue.upsertJobScheduler(
+    'analytics-rollup-refresh',
+    { every: ANALYTICS_ROLLUP_INTERVAL_MS },
+    {
+      name: 'refresh',
+      data: { type: 'refresh' },
+      opts: { removeOnComplete: true, removeOnFail: 50 },
+    }
+  );
+  
+  // Re-queue stuck webhook deliveries every minute
+  await deliveries.upsertJobScheduler(
+    'webhook-delivery-sweep',
+    { every: WEBHOOK_SWEEP_INTERVAL_MS },
+    {
+      name: 'sweep',
+      data: { type: 'sweep' },
+      opts: { removeOnComplete: true, removeOnFail: 50 },
+    }
+  );
+  
   return workers;
 }
 
@@ -114,8 +217,24 @@ export async function gracefulShutdown(workers: Worker[]): Promise<void> {
     await streamScheduler.stop();
   }
   
+  if (flashSaleQueue) {
+    await flashSaleQueue.close();
+  }
+  
+  if (webhookQueue) {
+    await webhookQueue.close();
+  }
+  
+  if (analyticsRollupQueue) {
+    await analyticsRollupQueue.close();
+  }
+  
   // Close all workers
   await Promise.all(workers.map((w) => w.close()));
+  
+  if (redis) {
+    await redis.quit();
+  }
   console.log('✅ All workers shut down');
 }
 
@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import fs from 'fs';
+import type { AddressInfo } from 'net';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { ChatMessage } from '@unifyed/types';
+import { KickChatAdapter } from '../adapters/kick.js';
+
+/**
+ * Kick Chat Adapter Tests
+ *
+ * These tests replay a recorded Kick chatroom against local servers and verify that:
+ * 1. The chatroom and channel are looked up from the slug and both subscribed to
+ * 2. Chat, Kicks, gifted subs, subscriptions and follows normalize to ChatMessage
+ * 3. Unfollows and events we don't use are dropped
+ * 4. Viewer count comes from the public livestreams API
+ * 5. Messages are sent through the public chat API as the broadcaster
+ */
+
+interface KickFixture {
+  channel: unknown;
+  livestreams: unknown;
+  connectionEstablished: unknown;
+  frames: unknown[];
+}
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization: string | undefined;
+  body: unknown;
+}
+
+const fixture = JSON.parse(
+  fs.readFileSync(new URL('./fixtures/kick-chatroom.json', import.meta.url), 'utf8')
+) as KickFixture;
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const startedAt = Date.now();
+  while (!condition()) {
+    if (Date.now() - startedAt > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('KickChatAdapter', () => {
+  let server: http.Server;
+  let wss: WebSocketServer;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let subscriptions: string[];
+  let clientFrames: Array<{ event: string }>;
+  let adapter: KickChatAdapter;
+  let messages: ChatMessage[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        requests.push({
+          method: req.method ?? 'GET',
+          url: req.url ?? '',
+          authorization: req.headers.authorization,
+          body: raw ? JSON.parse(raw) : undefined,
+        });
+
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        res.setHeader('Content-Type', 'application/json');
+
+        if (url.pathname === '/api/v2/channels/glowlab') {
+          res.end(JSON.stringify(fixture.channel));
+        } else if (url.pathname === '/public/v1/livestreams') {
+          res.end(JSON.stringify(fixture.livestreams));
+        } else if (url.pathname === '/public/v1/chat' && req.method === 'POST') {
+          res.end(JSON.stringify({ data: { is_sent: true, message_id: 'sent-1' }, message: 'OK' }));
+        } else {
+          res.statusCode = 404;
+          res.end(JSON.stringify({ message: 'Not found' }));
+        }
+      });
+    });
+
+    // Pusher: acknowledge subscriptions, then replay the recording once both are live
+    wss = new WebSocketServer({ server });
+    wss.on('connection', (socket: WebSocket) => {
+      socket.send(JSON.stringify(fixture.connectionEstablished));
+      socket.on('message', data => {
+        const frame = JSON.parse(data.toString()) as { event: string; data: { channel?: string } };
+        clientFrames.push(frame);
+        if (frame.event !== 'pusher:subscribe' || !frame.data.channel) return;
+
+        subscriptions.push(frame.data.channel);
+        socket.send(JSON.stringify({
+          event: 'pusher_internal:subscription_succeeded',
+          data: '{}',
+          channel: frame.data.channel,
+        }));
+
+        if (subscriptions.length === 2) {
+          for (const recorded of fixture.frames) {
+            socket.send(JSON.stringify(recorded));
+          }
+          socket.send(JSON.stringify({ event: 'pusher:ping', data: '{}' }));
+        }
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    wss.close();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(async () => {
+    requests = [];
+    subscriptions = [];
+    clientFrames = [];
+    messages = [];
+
+    adapter = new KickChatAdapter(
+      {
+        creatorId: 'creator-1',
+        accessToken: 'kick-token',
+        channelId: 'glowlab',
+        broadcasterId: '550001',
+      },
+      {
+        apiUrl: `${baseUrl}/public/v1`,
+        channelApiUrl: `${baseUrl}/api/v2`,
+        pusherUrl: `${baseUrl.replace('http', 'ws')}/app/test-key`,
+      }
+    );
+    adapter.on('message', message => messages.push(message));
+
+    await adapter.connect();
+    await waitFor(() => messages.length === 6);
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+  });
+
+  it('should subscribe to the chatroom and channel looked up from the slug', () => {
+    expect(adapter.isConnected()).toBe(true);
+    expect(subscriptions).toEqual(['chatrooms.4321.v2', 'channel.1234']);
+  });
+
+  it('should normalize chat messages with badges', () => {
+    const [first, , , , , last] = messages;
+
+    expect(first).toMatchObject({
+      id: '9b1c5a3e-61d4-4b8f-a0f2-5e2f1c7d8a01',
+      platform: 'kick',
+      type: 'chat',
+      content: 'does the serum come in a bigger size?',
+      user: {
+        id: '880011',
+        username: 'glowgetter',
+        badges: ['subscriber', 'moderator'],
+        isModerator: true,
+        isSubscriber: true,
+        isVerified: false,
+      },
+      timestamp: new Date('2026-03-14T19:02:11Z'),
+    });
+    expect(last?.user).toMatchObject({ badges: ['creator', 'verified'], isVerified: true });
+  });
+
+  it('should value Kicks in cents and normalize subs and follows', () => {
+    expect(messages.map(message => message.type)).toEqual([
+      'chat',
+      'gift',
+      'subscription',
+      'subscription',
+      'follow',
+      'chat',
+    ]);
+
+    expect(messages[1]).toMatchObject({
+      content: 'take my kicks!',
+      user: { id: '880012', username: 'nightowl' },
+      gift: { id: 'hell_yeah', name: 'Hell Yeah', value: 100, count: 1 },
+    });
+    expect(messages[2]).toMatchObject({
+      content: 'gifted 3 subscriptions',
+      user: { username: 'nightowl', badges: ['gift_sender'] },
+    });
+    expect(messages[3]).toMatchObject({ content: 'subscribed for 6 months', user: { isSubscriber: true } });
+    expect(messages[4]).toMatchObject({
+      user: { username: 'newfan' },
+      timestamp: new Date(1773514990 * 1000),
+    });
+  });
+
+  it('should report viewer count from the livestreams API and answer pings', async () => {
+    await waitFor(() => adapter.getViewerCount() > 0);
+    await waitFor(() => clientFrames.some(frame => frame.event === 'pusher:pong'));
+
+    expect(adapter.getViewerCount()).toBe(1875);
+    expect(requests.find(r => r.url.startsWith('/public/v1/livestreams'))).toMatchObject({
+      url: '/public/v1/livestreams?broadcaster_user_id=550001',
+      authorization: 'Bearer kick-token',
+    });
+  });
+
+  it('should send messages through the public chat API', async () => {
+    await adapter.sendMessage('restock is live!');
+
+    expect(requests.find(r => r.method === 'POST')).toEqual({
+      method: 'POST',
+      url: '/public/v1/chat',
+      authorization: 'Bearer kick-token',
+      body: { broadcaster_user_id: 550001, content: 'restock is live!', type: 'user' },
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { EventEmitter } from 'eventemitter3';
-import type { ChatMessage, ChatPlatform, ChatConnectionStatus } from '@unifyed/types';
+import type { ChatMessage, ChatPlatform, ChatConnectionStatus, ChatModerationAction } from '@unifyed/types';
 
 /**
  * Events emitted by chat adapters
@@ -58,6 +58,44 @@ export abstract class ChatAdapter extends EventEmitter<ChatAdapterEvents> {
    */
   abstract sendMessage(content: string): Promise<void>;
 
+  /**
+   * Moderation actions this platform supports. Adapters override the
+   * matching methods below.
+   */
+  readonly moderationActions: readonly ChatModerationAction[] = [];
+
+  /**
+   * Delete a message from the chat
+   */
+  async deleteMessage(_messageId: string): Promise<void> {
+    throw this.unsupported('delete_message');
+  }
+
+  /**
+   * Keep a user from chatting for a while
+   */
+  async timeoutUser(_userId: string, _durationSeconds: number, _reason?: string): Promise<void> {
+    throw this.unsupported('timeout');
+  }
+
+  /**
+   * Ban a user from the chat
+   */
+  async banUser(_userId: string, _reason?: string): Promise<void> {
+    throw this.unsupported('ban');
+  }
+
+  /**
+   * Limit how often each viewer can post. Null turns slow mode off.
+   */
+  async setSlowMode(_delaySeconds: number | null): Promise<void> {
+    throw this.unsupported('slow_mode');
+  }
+
+  supportsModeration(action: ChatModerationAction): boolean {
+    return this.moderationActions.includes(action);
+  }
+
   /**
    * Check if the adapter is connected
    */
@@ -82,6 +120,7 @@ export abstract class ChatAdapter extends EventEmitter<ChatAdapterEvents> {
       viewerCount: this.viewerCount,
       error: this.lastError,
       lastMessageAt: this.lastMessageAt,
+      moderation: [...this.moderationActions],
     };
   }
 
@@ -128,4 +167,8 @@ export abstract class ChatAdapter extends EventEmitter<ChatAdapterEvents> {
     this.lastError = error.message;
     this.emit('error', error);
   }
+
+  private unsupported(action: ChatModerationAction): Error {
+    return new Error(`${this.platform} does not support ${action.replace('_', ' ')}`);
+  }
 }
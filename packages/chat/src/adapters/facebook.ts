@@ -0,0 +1,323 @@
+import { ChatAdapter, type ChatAdapterConfig } from './base.js';
+import type { ChatMessage, ChatUser, ChatModerationAction } from '@unifyed/types';
+
+/**
+ * Endpoints used by the Facebook adapter. Overridable so tests can replay
+ * recorded traffic against a local server.
+ */
+export interface FacebookChatAdapterOptions {
+  graphUrl?: string | undefined;
+}
+
+// Meta pays creators one US cent per Star
+const STAR_VALUE_CENTS = 1;
+
+const COMMENT_FIELDS = 'id,message,created_time,from{id,name,picture},stars';
+
+/**
+ * Facebook Live Chat Adapter
+ * - Polls live video comments from the Graph API (Stars arrive on comments)
+ * - Sends messages as the Page (POST /{live-video-id}/comments)
+ * - Polls live_views for viewer count
+ *
+ * The Graph API doesn't say who follows the Page during a broadcast, so
+ * Facebook never emits follow messages.
+ */
+export class FacebookChatAdapter extends ChatAdapter {
+  private liveVideoId: string | undefined;
+  private commentsInterval: NodeJS.Timeout | undefined = undefined;
+  private viewersInterval: NodeJS.Timeout | undefined = undefined;
+  private afterCursor: string | undefined = undefined;
+  private readonly pollIntervalMs = 3000; // 3 seconds for comments
+  private readonly viewersPollIntervalMs = 15000; // 15 seconds for viewer count
+  private readonly graphUrl: string;
+  // Pages can remove comments and block people, but not time them out
+  override readonly moderationActions: readonly ChatModerationAction[] = ['delete_message', 'ban'];
+
+  constructor(
+    config: ChatAdapterConfig & {
+      accessToken: string; // Page access token
+      channelId: string; // Page ID
+      liveChatId?: string | undefined; // Live video ID, found from the Page if missing
+    },
+    options: FacebookChatAdapterOptions = {}
+  ) {
+    super('facebook', config);
+    if (!config.accessToken || !config.channelId) {
+      throw new Error('Facebook requires accessToken and channelId');
+    }
+    this.liveVideoId = config.liveChatId ?? undefined;
+    this.graphUrl = options.graphUrl ?? 'https://graph.facebook.com/v21.0';
+  }
+
+  async connect(): Promise<void> {
+    if (this.connected) return;
+
+    try {
+      if (!this.liveVideoId) {
+        this.liveVideoId = await this.findLiveVideoId();
+      }
+
+      if (!this.liveVideoId) {
+        throw new Error('No active Facebook live video found');
+      }
+
+      this.startPolling();
+      this.onConnected();
+      console.log('📘 Facebook: Connected to live video comments');
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.onError(err);
+      throw err;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopPolling();
+    this.onDisconnected();
+  }
+
+  async sendMessage(content: string): Promise<void> {
+    if (!this.liveVideoId) {
+      throw new Error('Not connected to Facebook live video');
+    }
+
+    const response = await this.graphRequest(`/${this.liveVideoId}/comments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ message: content }).toString(),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => ({})) as GraphErrorResponse;
+      throw new Error(`Failed to send Facebook comment: ${response.status} - ${errorBody.error?.message || 'Unknown'}`);
+    }
+  }
+
+  override async deleteMessage(messageId: string): Promise<void> {
+    const response = await this.graphRequest(`/${encodeURIComponent(messageId)}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => ({})) as GraphErrorResponse;
+      throw new Error(`Failed to delete Facebook comment: ${response.status} - ${errorBody.error?.message || 'Unknown'}`);
+    }
+  }
+
+  /**
+   * Block the person from the Page, which also keeps them out of its live chats
+   */
+  override async banUser(userId: string): Promise<void> {
+    const response = await this.graphRequest(`/${this.config.channelId}/blocked`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ user: userId }).toString(),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => ({})) as GraphErrorResponse;
+      throw new Error(`Failed to block Facebook user: ${response.status} - ${errorBody.error?.message || 'Unknown'}`);
+    }
+  }
+
+  private async findLiveVideoId(): Promise<string | undefined> {
+    const params = new URLSearchParams({
+      broadcast_status: '["LIVE"]',
+      fields: 'id,status',
+      limit: '1',
+    });
+
+    const response = await this.graphRequest(`/${this.config.channelId}/live_videos?${params.toString()}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Facebook live videos: ${response.status}`);
+    }
+
+    const data = await response.json() as { data?: Array<{ id: string; status?: string }> };
+    return data.data?.[0]?.id;
+  }
+
+  private startPolling(): void {
+    this.commentsInterval = setInterval(async () => {
+      try {
+        await this.fetchComments();
+      } catch (error) {
+        console.error('Facebook comments polling error:', error);
+      }
+    }, this.pollIntervalMs);
+
+    this.viewersInterval = setInterval(async () => {
+      try {
+        await this.fetchViewerCount();
+      } catch {
+        // Non-critical
+      }
+    }, this.viewersPollIntervalMs);
+
+    // Fetch immediately
+    this.fetchComments().catch(console.error);
+    this.fetchViewerCount().catch(() => {});
+  }
+
+  private stopPolling(): void {
+    if (this.commentsInterval) {
+      clearInterval(this.commentsInterval);
+      this.commentsInterval = undefined;
+    }
+    if (this.viewersInterval) {
+      clearInterval(this.viewersInterval);
+      this.viewersInterval = undefined;
+    }
+  }
+
+  private async fetchComments(): Promise<void> {
+    if (!this.liveVideoId) return;
+
+    const params = new URLSearchParams({
+      fields: COMMENT_FIELDS,
+      order: 'chronological',
+      live_filter: 'no_filter',
+      limit: '100',
+    });
+
+    // Only comments after the last one we've seen
+    if (this.afterCursor) {
+      params.set('after', this.afterCursor);
+    }
+
+    const response = await this.graphRequest(`/${this.liveVideoId}/comments?${params.toString()}`);
+
+    if (!response.ok) {
+      if (response.status === 403) {
+        // Token lost the pages_read_user_content permission
+        this.stopPolling();
+        this.onDisconnected(new Error('Live video comments access denied'));
+        return;
+      }
+      throw new Error(`Failed to fetch Facebook comments: ${response.status}`);
+    }
+
+    const data = await response.json() as FacebookCommentsResponse;
+
+    // An empty page has no cursors; keep the one we have
+    if (data.paging?.cursors?.after && data.data?.length) {
+      this.afterCursor = data.paging.cursors.after;
+    }
+
+    for (const comment of data.data || []) {
+      const message = this.normalizeComment(comment);
+      if (message) {
+        this.emitMessage(message);
+      }
+    }
+  }
+
+  private async fetchViewerCount(): Promise<void> {
+    if (!this.liveVideoId) return;
+
+    const response = await this.graphRequest(`/${this.liveVideoId}?fields=live_views,status`);
+
+    if (response.ok) {
+      const data = await response.json() as { live_views?: number; status?: string };
+      if (data.live_views !== undefined) {
+        this.updateViewerCount(data.live_views);
+      }
+    }
+  }
+
+  private normalizeComment(comment: FacebookComment): ChatMessage | null {
+    // Comments from people who haven't granted the app access come without an author
+    const user = this.normalizeUser(comment.from);
+    const timestamp = comment.created_time ? new Date(comment.created_time) : new Date();
+
+    if (comment.stars?.amount) {
+      return {
+        id: comment.id,
+        platform: 'facebook',
+        type: 'gift',
+        content: comment.message || `sent ${comment.stars.amount} Stars`,
+        user: { ...user, badges: [...user.badges, 'gift_sender'] },
+        gift: {
+          id: `stars-${comment.id}`,
+          name: 'Stars',
+          value: STAR_VALUE_CENTS,
+          count: comment.stars.amount,
+        },
+        timestamp,
+        rawPlatformData: comment,
+      };
+    }
+
+    if (!comment.message) return null;
+
+    return {
+      id: comment.id,
+      platform: 'facebook',
+      type: 'chat',
+      content: comment.message,
+      user,
+      timestamp,
+      rawPlatformData: comment,
+    };
+  }
+
+  private normalizeUser(from: FacebookComment['from']): ChatUser {
+    const isPage = from?.id === this.config.channelId;
+
+    return {
+      id: from?.id || 'unknown',
+      username: from?.name || 'Facebook user',
+      profileImageUrl: from?.picture?.data?.url,
+      badges: isPage ? ['creator'] : [],
+      isModerator: false,
+      isSubscriber: false,
+      isVerified: false,
+    };
+  }
+
+  private graphRequest(path: string, init: RequestInit = {}): Promise<Response> {
+    return fetch(`${this.graphUrl}${path}`, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${this.config.accessToken}`,
+      },
+    });
+  }
+}
+
+// Graph API types
+interface GraphErrorResponse {
+  error?: {
+    message?: string;
+    code?: number;
+  };
+}
+
+interface FacebookCommentsResponse {
+  data?: FacebookComment[];
+  paging?: {
+    cursors?: {
+      before?: string;
+      after?: string;
+    };
+    next?: string;
+  };
+}
+
+interface FacebookComment {
+  id: string;
+  message?: string;
+  created_time?: string;
+  from?: {
+    id: string;
+    name?: string;
+    picture?: {
+      data?: {
+        url?: string;
+      };
+    };
+  };
+  stars?: {
+    amount: number;
+  };
+}
@@ -2,4 +2,6 @@ export { ChatAdapter, type ChatAdapterConfig, type ChatAdapterEvents } from './b
 export { TikTokChatAdapter } from './tiktok.js';
 export { YouTubeChatAdapter } from './youtube.js';
 export { TwitchChatAdapter } from './twitch.js';
+export { KickChatAdapter, type KickChatAdapterOptions } from './kick.js';
+export { FacebookChatAdapter, type FacebookChatAdapterOptions } from './facebook.js';
 export { RestreamChatAdapter } from './restream.js';
@@ -0,0 +1,516 @@
+import { WebSocket } from 'ws';
+import { ChatAdapter, type ChatAdapterConfig } from './base.js';
+import type { ChatMessage, ChatUser, BadgeType, ChatModerationAction } from '@unifyed/types';
+
+/**
+ * Endpoints used by the Kick adapter. Overridable so tests can replay
+ * recorded traffic against local servers.
+ */
+export interface KickChatAdapterOptions {
+  apiUrl?: string | undefined;
+  channelApiUrl?: string | undefined;
+  pusherUrl?: string | undefined;
+}
+
+// Kick's public Pusher app; chat events are broadcast without auth
+const DEFAULT_PUSHER_URL =
+  'wss://ws-us2.pusher.com/app/32cbd69e4b950bf97679?protocol=7&client=js&version=8.4.0&flash=false';
+
+// One Kick is worth one US cent
+const KICK_VALUE_CENTS = 1;
+
+/**
+ * Kick Chat Adapter
+ * - Receives chat, gifted subs, Kicks and follows from Kick's Pusher websocket
+ * - Sends messages via the public API (POST /public/v1/chat)
+ * - Polls the public livestreams API for viewer count
+ */
+export class KickChatAdapter extends ChatAdapter {
+  private ws: WebSocket | undefined = undefined;
+  private pollingInterval: NodeJS.Timeout | undefined = undefined;
+  private chatroomId: string | undefined;
+  private kickChannelId: string | undefined = undefined;
+  private reconnectAttempts = 0;
+  private readonly maxReconnectAttempts = 5;
+  private readonly pollIntervalMs = 15000; // 15 seconds for viewer count
+  private readonly apiUrl: string;
+  private readonly channelApiUrl: string;
+  private readonly pusherUrl: string;
+  // The public API has no slow mode endpoint
+  override readonly moderationActions: readonly ChatModerationAction[] = ['delete_message', 'timeout', 'ban'];
+
+  constructor(
+    config: ChatAdapterConfig & {
+      accessToken: string;
+      channelId: string; // Kick channel slug
+      broadcasterId: string; // Numeric Kick user ID
+      liveChatId?: string | undefined; // Chatroom ID, looked up from the slug if missing
+    },
+    options: KickChatAdapterOptions = {}
+  ) {
+    super('kick', config);
+    if (!config.accessToken || !config.channelId || !config.broadcasterId) {
+      throw new Error('Kick requires accessToken, channelId, and broadcasterId');
+    }
+    this.chatroomId = config.liveChatId ?? undefined;
+    this.apiUrl = options.apiUrl ?? 'https://api.kick.com/public/v1';
+    this.channelApiUrl = options.channelApiUrl ?? 'https://kick.com/api/v2';
+    this.pusherUrl = options.pusherUrl ?? DEFAULT_PUSHER_URL;
+  }
+
+  async connect(): Promise<void> {
+    if (this.connected) return;
+
+    try {
+      await this.resolveChannel();
+      await this.connectPusher();
+
+      this.startPolling();
+      this.onConnected();
+      console.log(`🟢 Kick: Connected to chat for ${this.config.channelId}`);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      console.error(`🟢 Kick: Connection failed - ${err.message}`);
+      this.onError(err);
+      throw err;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopPolling();
+    // Mark disconnected first so the close handler doesn't reconnect
+    this.onDisconnected();
+    if (this.ws) {
+      this.ws.close();
+      this.ws = undefined;
+    }
+  }
+
+  async sendMessage(content: string): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Not connected to Kick chat');
+    }
+
+    const response = await fetch(`${this.apiUrl}/chat`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.config.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        broadcaster_user_id: Number(this.config.broadcasterId),
+        content,
+        type: 'user',
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({})) as { message?: string };
+      throw new Error(`Failed to send Kick message: ${response.status} - ${errorData.message || 'Unknown error'}`);
+    }
+
+    const data = await response.json() as { data?: { is_sent?: boolean } };
+    if (data.data && !data.data.is_sent) {
+      console.warn('🟢 Kick: Message not sent');
+    }
+  }
+
+  // ========================================
+  // Moderation (needs the moderation:ban and moderation:chat_message:manage scopes)
+  // ========================================
+
+  override async deleteMessage(messageId: string): Promise<void> {
+    await this.moderationRequest('DELETE', `/chat/${encodeURIComponent(messageId)}`);
+  }
+
+  override async timeoutUser(userId: string, durationSeconds: number, reason?: string): Promise<void> {
+    await this.moderationRequest('POST', '/moderation/bans', {
+      broadcaster_user_id: Number(this.config.broadcasterId),
+      user_id: Number(userId),
+      // Kick times out in whole minutes, up to a week
+      duration: Math.min(Math.max(Math.ceil(durationSeconds / 60), 1), 10080),
+      reason,
+    });
+  }
+
+  override async banUser(userId: string, reason?: string): Promise<void> {
+    await this.moderationRequest('POST', '/moderation/bans', {
+      broadcaster_user_id: Number(this.config.broadcasterId),
+      user_id: Number(userId),
+      reason,
+    });
+  }
+
+  private async moderationRequest(method: 'POST' | 'DELETE', path: string, body?: unknown): Promise<void> {
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${this.config.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? null : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({})) as { message?: string };
+      throw new Error(`Kick moderation failed: ${response.status} - ${errorData.message || 'Unknown error'}`);
+    }
+  }
+
+  // ========================================
+  // Channel lookup
+  // ========================================
+
+  /**
+   * The public API doesn't expose chatroom IDs, so read them from the
+   * channel page API. The channel ID is needed for follow events.
+   */
+  private async resolveChannel(): Promise<void> {
+    const response = await fetch(`${this.channelApiUrl}/channels/${encodeURIComponent(this.config.channelId!)}`, {
+      headers: { Accept: 'application/json' },
+    });
+
+    if (!response.ok) {
+      if (this.chatroomId) return; // Chat still works without follow events
+      throw new Error(`Failed to look up Kick channel ${this.config.channelId}: ${response.status}`);
+    }
+
+    const channel = await response.json() as KickChannelResponse;
+    this.kickChannelId = channel.id !== undefined ? String(channel.id) : undefined;
+    this.chatroomId ??= channel.chatroom?.id !== undefined ? String(channel.chatroom.id) : undefined;
+
+    if (!this.chatroomId) {
+      throw new Error(`Kick channel ${this.config.channelId} has no chatroom`);
+    }
+  }
+
+  // ========================================
+  // Pusher websocket for receiving events
+  // ========================================
+
+  private connectPusher(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const ws = new WebSocket(this.pusherUrl);
+      this.ws = ws;
+
+      const timeout = setTimeout(() => {
+        if (!settled) {
+          settled = true;
+          reject(new Error('Kick websocket connection timeout'));
+          ws.close();
+        }
+      }, 15000);
+
+      ws.on('message', (data: WebSocket.Data) => {
+        try {
+          const frame = JSON.parse(data.toString()) as PusherFrame;
+          if (frame.event === 'pusher_internal:subscription_succeeded' && !settled) {
+            settled = true;
+            clearTimeout(timeout);
+            this.reconnectAttempts = 0;
+            resolve();
+          }
+          this.handleFrame(frame);
+        } catch (err) {
+          console.error('🟢 Kick: Failed to parse websocket frame:', err);
+        }
+      });
+
+      ws.on('close', (code: number) => {
+        if (this.ws !== ws) return;
+        console.log(`🟢 Kick: WebSocket closed (${code})`);
+        if (this.connected && this.reconnectAttempts < this.maxReconnectAttempts) {
+          this.reconnectAttempts++;
+          console.log(`🟢 Kick: Reconnecting (attempt ${this.reconnectAttempts})`);
+          setTimeout(() => this.connectPusher().catch(console.error), 5000 * this.reconnectAttempts);
+        }
+      });
+
+      ws.on('error', (error: Error) => {
+        console.error('🟢 Kick: WebSocket error:', error.message);
+        if (!settled) {
+          settled = true;
+          clearTimeout(timeout);
+          reject(error);
+        }
+      });
+    });
+  }
+
+  private handleFrame(frame: PusherFrame): void {
+    switch (frame.event) {
+      case 'pusher:connection_established':
+        this.subscribe(`chatrooms.${this.chatroomId}.v2`);
+        if (this.kickChannelId) {
+          this.subscribe(`channel.${this.kickChannelId}`);
+        }
+        return;
+
+      case 'pusher:ping':
+        this.send({ event: 'pusher:pong', data: {} });
+        return;
+
+      case 'pusher:error':
+        console.error('🟢 Kick: Pusher error:', frame.data);
+        return;
+    }
+
+    if (!frame.event || typeof frame.data !== 'string') return;
+
+    const message = this.normalizeEvent(frame.event, JSON.parse(frame.data) as unknown);
+    if (message) {
+      this.emitMessage(message);
+    }
+  }
+
+  private subscribe(channel: string): void {
+    this.send({ event: 'pusher:subscribe', data: { auth: '', channel } });
+  }
+
+  private send(frame: { event: string; data: unknown }): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(frame));
+    }
+  }
+
+  private normalizeEvent(event: string, data: unknown): ChatMessage | null {
+    switch (event) {
+      case 'App\\Events\\ChatMessageEvent': {
+        const chat = data as KickChatMessageEvent;
+        if (!chat.sender) return null;
+        return {
+          id: chat.id,
+          platform: 'kick',
+          type: 'chat',
+          content: chat.content || '',
+          user: this.normalizeUser(chat.sender),
+          timestamp: chat.created_at ? new Date(chat.created_at) : new Date(),
+          rawPlatformData: data,
+        };
+      }
+
+      case 'KicksGifted': {
+        const kicks = data as KickKicksGiftedEvent;
+        if (!kicks.sender || !kicks.gift) return null;
+        return {
+          id: kicks.id || `kick-kicks-${Date.now()}`,
+          platform: 'kick',
+          type: 'gift',
+          content: kicks.message || `sent ${kicks.gift.name}`,
+          user: this.normalizeUser(kicks.sender),
+          gift: {
+            id: kicks.gift.gift_id,
+            name: kicks.gift.name,
+            value: kicks.gift.amount * KICK_VALUE_CENTS,
+            count: 1,
+          },
+          timestamp: kicks.created_at ? new Date(kicks.created_at) : new Date(),
+          rawPlatformData: data,
+        };
+      }
+
+      case 'App\\Events\\GiftedSubscriptionsEvent': {
+        const gifted = data as KickGiftedSubscriptionsEvent;
+        const count = gifted.gifted_usernames?.length ?? 0;
+        return {
+          id: `kick-gifted-${gifted.chatroom_id}-${gifted.gifter_username}-${Date.now()}`,
+          platform: 'kick',
+          type: 'subscription',
+          content: `gifted ${count} subscription${count === 1 ? '' : 's'}`,
+          user: this.namedUser(gifted.gifter_username, ['gift_sender']),
+          timestamp: new Date(),
+          rawPlatformData: data,
+        };
+      }
+
+      case 'App\\Events\\SubscriptionEvent': {
+        const subscription = data as KickSubscriptionEvent;
+        return {
+          id: `kick-sub-${subscription.chatroom_id}-${subscription.username}-${Date.now()}`,
+          platform: 'kick',
+          type: 'subscription',
+          content: subscription.months && subscription.months > 1
+            ? `subscribed for ${subscription.months} months`
+            : 'subscribed',
+          user: this.namedUser(subscription.username, ['subscriber']),
+          timestamp: new Date(),
+          rawPlatformData: data,
+        };
+      }
+
+      case 'App\\Events\\FollowersUpdated': {
+        const follow = data as KickFollowersUpdatedEvent;
+        // Fired for unfollows too, and without a username when anonymous
+        if (!follow.followed || !follow.username) return null;
+        return {
+          id: `kick-follow-${follow.channel_id}-${follow.username}-${follow.created_at ?? Date.now()}`,
+          platform: 'kick',
+          type: 'follow',
+          content: 'followed',
+          user: this.namedUser(follow.username, []),
+          timestamp: follow.created_at ? new Date(follow.created_at * 1000) : new Date(),
+          rawPlatformData: data,
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  private normalizeUser(sender: KickSender): ChatUser {
+    const badges: BadgeType[] = [];
+
+    for (const badge of sender.identity?.badges ?? []) {
+      if (badge.type === 'moderator') badges.push('moderator');
+      if (badge.type === 'subscriber' || badge.type === 'founder') badges.push('subscriber');
+      if (badge.type === 'vip') badges.push('vip');
+      if (badge.type === 'verified') badges.push('verified');
+      if (badge.type === 'broadcaster') badges.push('creator');
+      if (badge.type === 'sub_gifter') badges.push('gift_sender');
+    }
+
+    return {
+      id: String(sender.id),
+      username: sender.username,
+      profileImageUrl: undefined,
+      badges,
+      isModerator: badges.includes('moderator'),
+      isSubscriber: badges.includes('subscriber'),
+      isVerified: badges.includes('verified'),
+    };
+  }
+
+  /**
+   * Subscription and follow events only carry a username
+   */
+  private namedUser(username: string, badges: BadgeType[]): ChatUser {
+    return {
+      id: username,
+      username,
+      profileImageUrl: undefined,
+      badges,
+      isModerator: false,
+      isSubscriber: badges.includes('subscriber'),
+      isVerified: false,
+    };
+  }
+
+  // ========================================
+  // Livestream polling for viewer count
+  // ========================================
+
+  private startPolling(): void {
+    this.fetchViewerCount().catch(() => {});
+    this.pollingInterval = setInterval(async () => {
+      try {
+        await this.fetchViewerCount();
+      } catch {
+        // Non-critical
+      }
+    }, this.pollIntervalMs);
+  }
+
+  private stopPolling(): void {
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval);
+      this.pollingInterval = undefined;
+    }
+  }
+
+  private async fetchViewerCount(): Promise<void> {
+    const response = await fetch(
+      `${this.apiUrl}/livestreams?broadcaster_user_id=${this.config.broadcasterId}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${this.config.accessToken}`,
+        },
+      }
+    );
+
+    if (response.ok) {
+      const data = await response.json() as { data?: Array<{ viewer_count?: number }> };
+      const viewerCount = data.data?.[0]?.viewer_count;
+      if (viewerCount !== undefined) {
+        this.updateViewerCount(viewerCount);
+      }
+    }
+  }
+}
+
+// ========================================
+// Kick API and Pusher types
+// ========================================
+
+interface KickChannelResponse {
+  id?: number;
+  slug?: string;
+  chatroom?: {
+    id: number;
+  };
+}
+
+interface PusherFrame {
+  event?: string;
+  channel?: string;
+  // Event payloads are JSON-encoded strings
+  data?: string | Record<string, unknown>;
+}
+
+interface KickSender {
+  id: number;
+  username: string;
+  slug?: string;
+  identity?: {
+    color?: string;
+    badges?: Array<{
+      type: string;
+      text?: string;
+      count?: number;
+    }>;
+  };
+}
+
+interface KickChatMessageEvent {
+  id: string;
+  chatroom_id: number;
+  content?: string;
+  type?: string;
+  created_at?: string;
+  sender?: KickSender;
+}
+
+interface KickKicksGiftedEvent {
+  id?: string;
+  message?: string;
+  created_at?: string;
+  sender?: KickSender;
+  gift?: {
+    gift_id: string;
+    name: string;
+    amount: number; // Kicks
+    type?: string;
+    tier?: string;
+  };
+}
+
+interface KickGiftedSubscriptionsEvent {
+  chatroom_id: number;
+  gifted_usernames?: string[];
+  gifter_username: string;
+}
+
+interface KickSubscriptionEvent {
+  chatroom_id: number;
+  username: string;
+  months?: number;
+}
+
+interface KickFollowersUpdatedEvent {
+  channel_id?: number;
+  followersCount?: number;
+  username?: string | null;
+  created_at?: number; // Unix seconds
+  followed?: boolean;
+}
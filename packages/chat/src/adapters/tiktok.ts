@@ -2,6 +2,11 @@ import { WebcastPushConnection } from 'tiktok-live-connector';
 import { ChatAdapter, type ChatAdapterConfig } from './base.js';
 import type { ChatMessage, ChatUser, ChatGift, BadgeType } from '@unifyed/types';
 
+// Viewers buy coins at roughly 1.3 US cents each
+const COIN_VALUE_CENTS = 1.3;
+// Gifts of this type can be sent in a streak
+const STREAKABLE_GIFT_TYPE = 1;
+
 /**
  * TikTok Live Chat Adapter
  * Uses tiktok-live-connector library for real-time chat
@@ -149,9 +154,12 @@ export class TikTokChatAdapter extends ChatAdapter {
     const gift: ChatGift = {
       id: String(data.giftId),
       name: data.giftName || 'Gift',
-      value: (data.diamondCount || 0) * data.repeatCount,
+      // Per gift; its diamond count is what it costs in coins
+      value: Math.round((data.diamondCount || 0) * COIN_VALUE_CENTS),
       count: data.repeatCount || 1,
       imageUrl: data.giftPictureUrl,
+      // Streakable gifts repeat the message as the streak grows
+      ...(data.giftType === STREAKABLE_GIFT_TYPE && !data.repeatEnd && { streaking: true }),
     };
 
     return {
@@ -240,6 +248,8 @@ interface TikTokGiftData extends TikTokUserData {
   giftPictureUrl?: string;
   diamondCount?: number;
   repeatCount: number;
+  giftType?: number;
+  repeatEnd?: boolean;
 }
 
 interface TikTokSocialData extends TikTokUserData {
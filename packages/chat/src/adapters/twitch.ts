@@ -1,6 +1,9 @@
 import { WebSocket } from 'ws';
 import { ChatAdapter, type ChatAdapterConfig } from './base.js';
-import type { ChatUser, BadgeType } from '@unifyed/types';
+import type { ChatUser, BadgeType, ChatModerationAction } from '@unifyed/types';
+
+// Twitch pays streamers one US cent per Bit cheered
+const BIT_VALUE_CENTS = 1;
 
 /**
  * Twitch Chat Adapter
@@ -18,6 +21,7 @@ export class TwitchChatAdapter extends ChatAdapter {
   private readonly pollIntervalMs = 15000; // 15 seconds for chatters count
   private readonly helixUrl = 'https://api.twitch.tv/helix';
   private userId: string | undefined = undefined;
+  override readonly moderationActions: readonly ChatModerationAction[] = ['delete_message', 'timeout', 'ban', 'slow_mode'];
 
   constructor(
     config: ChatAdapterConfig & {
@@ -110,6 +114,62 @@ export class TwitchChatAdapter extends ChatAdapter {
     }
   }
 
+  // ========================================
+  // Moderation (needs moderator:manage:* scopes)
+  // ========================================
+
+  override async deleteMessage(messageId: string): Promise<void> {
+    await this.moderationRequest('DELETE', '/moderation/chat', { message_id: messageId });
+  }
+
+  override async timeoutUser(userId: string, durationSeconds: number, reason?: string): Promise<void> {
+    await this.moderationRequest('POST', '/moderation/bans', {}, {
+      // Twitch allows timeouts of 1 second to 2 weeks
+      data: { user_id: userId, duration: Math.min(Math.max(Math.round(durationSeconds), 1), 1209600), reason },
+    });
+  }
+
+  override async banUser(userId: string, reason?: string): Promise<void> {
+    await this.moderationRequest('POST', '/moderation/bans', {}, {
+      data: { user_id: userId, reason },
+    });
+  }
+
+  override async setSlowMode(delaySeconds: number | null): Promise<void> {
+    await this.moderationRequest('PATCH', '/chat/settings', {}, delaySeconds === null
+      ? { slow_mode: false }
+      // Twitch allows 3 to 120 seconds between messages
+      : { slow_mode: true, slow_mode_wait_time: Math.min(Math.max(Math.round(delaySeconds), 3), 120) });
+  }
+
+  private async moderationRequest(
+    method: 'POST' | 'PATCH' | 'DELETE',
+    path: string,
+    params: Record<string, string>,
+    body?: unknown,
+  ): Promise<void> {
+    const query = new URLSearchParams({
+      broadcaster_id: this.config.broadcasterId!,
+      moderator_id: this.userId || this.config.broadcasterId!,
+      ...params,
+    });
+
+    const response = await fetch(`${this.helixUrl}${path}?${query.toString()}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${this.config.accessToken}`,
+        'Client-Id': this.config.clientId!,
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? null : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({})) as { message?: string };
+      throw new Error(`Twitch moderation failed: ${response.status} - ${errorData.message || 'Unknown error'}`);
+    }
+  }
+
   // ========================================
   // EventSub WebSocket for receiving messages
   // ========================================
@@ -279,13 +339,22 @@ export class TwitchChatAdapter extends ChatAdapter {
     if (!event) return;
 
     const user = this.normalizeUser(event);
+    const bits = event.cheer?.bits ?? 0;
 
     this.emitMessage({
       id: event.message_id || `twitch-${Date.now()}`,
       platform: 'twitch',
-      type: 'chat',
+      type: bits > 0 ? 'gift' : 'chat',
       content: event.message?.text || '',
-      user,
+      user: bits > 0 ? { ...user, badges: [...user.badges, 'gift_sender'] } : user,
+      ...(bits > 0 && {
+        gift: {
+          id: 'bits',
+          name: 'Bits',
+          value: BIT_VALUE_CENTS,
+          count: bits,
+        },
+      }),
       timestamp: new Date(),
       rawPlatformData: event,
     });
@@ -422,4 +491,7 @@ interface EventSubChatEvent {
     info: string;
   }>;
   color?: string;
+  cheer?: {
+    bits: number;
+  } | null;
 }
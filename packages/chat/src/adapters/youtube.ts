@@ -1,5 +1,5 @@
 import { ChatAdapter, type ChatAdapterConfig } from './base.js';
-import type { ChatMessage, ChatUser, BadgeType } from '@unifyed/types';
+import type { ChatMessage, ChatUser, BadgeType, ChatModerationAction } from '@unifyed/types';
 
 /**
  * YouTube Live Chat Adapter
@@ -10,6 +10,8 @@ export class YouTubeChatAdapter extends ChatAdapter {
   private pollingInterval: NodeJS.Timeout | undefined = undefined;
   private nextPageToken: string | undefined = undefined;
   private readonly pollIntervalMs = 5000; // 5 seconds
+  // YouTube has no API for slow mode
+  override readonly moderationActions: readonly ChatModerationAction[] = ['delete_message', 'timeout', 'ban'];
 
   constructor(config: ChatAdapterConfig & { accessToken: string; liveChatId?: string | undefined }) {
     super('youtube', config);
@@ -78,6 +80,61 @@ export class YouTubeChatAdapter extends ChatAdapter {
     }
   }
 
+  override async deleteMessage(messageId: string): Promise<void> {
+    const response = await fetch(
+      `https://www.googleapis.com/youtube/v3/liveChat/messages?id=${encodeURIComponent(messageId)}`,
+      {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${this.config.accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete YouTube message: ${response.status}`);
+    }
+  }
+
+  override async timeoutUser(userId: string, durationSeconds: number): Promise<void> {
+    await this.createBan(userId, { type: 'temporary', banDurationSeconds: Math.max(Math.round(durationSeconds), 1) });
+  }
+
+  override async banUser(userId: string): Promise<void> {
+    await this.createBan(userId, { type: 'permanent' });
+  }
+
+  private async createBan(
+    channelId: string,
+    ban: { type: 'temporary'; banDurationSeconds: number } | { type: 'permanent' }
+  ): Promise<void> {
+    if (!this.liveChatId) {
+      throw new Error('Not connected to live chat');
+    }
+
+    const response = await fetch(
+      'https://www.googleapis.com/youtube/v3/liveChat/bans?part=snippet',
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.config.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          snippet: {
+            liveChatId: this.liveChatId,
+            ...ban,
+            bannedUserDetails: { channelId },
+          },
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to ban YouTube user: ${response.status}`);
+    }
+  }
+
   private async findActiveLiveChatId(): Promise<string | undefined> {
     const response = await fetch(
       'https://www.googleapis.com/youtube/v3/liveBroadcasts?part=snippet&broadcastStatus=active&broadcastType=all',
@@ -3,12 +3,15 @@ import type {
   ChatMessage, 
   ChatConnectionStatus, 
   ChatState, 
-  ChatPlatform 
+  ChatPlatform,
+  ChatModerationCommand
 } from '@unifyed/types';
 import { ChatAdapter, type ChatAdapterConfig } from './adapters/base.js';
 import { TikTokChatAdapter } from './adapters/tiktok.js';
 import { YouTubeChatAdapter } from './adapters/youtube.js';
 import { TwitchChatAdapter } from './adapters/twitch.js';
+import { KickChatAdapter } from './adapters/kick.js';
+import { FacebookChatAdapter } from './adapters/facebook.js';
 import { RestreamChatAdapter } from './adapters/restream.js';
 
 /**
@@ -123,6 +126,27 @@ export class ChatAggregator extends EventEmitter<ChatAggregatorEvents> {
         );
         break;
 
+      case 'kick':
+        adapter = new KickChatAdapter(
+          config as ChatAdapterConfig & {
+            accessToken: string;
+            channelId: string;
+            broadcasterId: string;
+            liveChatId?: string | undefined;
+          }
+        );
+        break;
+
+      case 'facebook':
+        adapter = new FacebookChatAdapter(
+          config as ChatAdapterConfig & {
+            accessToken: string;
+            channelId: string;
+            liveChatId?: string | undefined;
+          }
+        );
+        break;
+
       default:
         throw new Error(`Unsupported platform: ${platform}`);
     }
@@ -276,6 +300,32 @@ export class ChatAggregator extends EventEmitter<ChatAggregatorEvents> {
     });
   }
 
+  /**
+   * Run a moderation action on one platform's chat. Throws if the platform
+   * isn't connected or doesn't support the action.
+   */
+  async moderate(command: ChatModerationCommand): Promise<void> {
+    const adapter = this.adapters.get(command.platform);
+    if (!adapter) {
+      throw new Error(`Not connected to ${command.platform} chat`);
+    }
+
+    switch (command.action) {
+      case 'delete_message':
+        await adapter.deleteMessage(command.messageId);
+        break;
+      case 'timeout':
+        await adapter.timeoutUser(command.userId, command.durationSeconds, command.reason);
+        break;
+      case 'ban':
+        await adapter.banUser(command.userId, command.reason);
+        break;
+      case 'slow_mode':
+        await adapter.setSlowMode(command.delaySeconds);
+        break;
+    }
+  }
+
   /**
    * Get connection status for a specific platform
    */
@@ -22,4 +22,6 @@ export type {
   ChatEvent,
   ChatEventType,
   BadgeType,
+  ChatModerationAction,
+  ChatModerationCommand,
 } from '@unifyed/types';
@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import { createCommerceRegistry, CommerceBackendRegistry } from '../index.js';
+import { ShopifyCommerceBackend } from '../backends/shopify.js';
+import { WooCommerceCommerceBackend } from '../backends/woocommerce.js';
+
+/**
+ * Commerce Backend Tests
+ *
+ * These tests verify that:
+ * 1. The registry picks a backend by connection platform and rejects unknown ones
+ * 2. Shopify checkouts are cart permalinks carrying our checkout session
+ * 3. Store order payloads parse to the same neutral order shape
+ * 4. Webhook signatures are checked with the right secret per backend
+ */
+
+const sign = (body: string, secret: string) =>
+  crypto.createHmac('sha256', secret).update(body, 'utf8').digest('base64');
+
+describe('CommerceBackendRegistry', () => {
+  const registry = createCommerceRegistry({ appUrl: 'https://app.test' });
+
+  it('creates the backend registered for a platform', () => {
+    const shopify = registry.create('shopify', { shopDomain: 'glow', accessToken: 'token' });
+    const woo = registry.create('woocommerce', {
+      storeUrl: 'https://shop.test',
+      consumerKey: 'ck_1',
+      consumerSecret: 'cs_1',
+    });
+
+    expect(shopify).toBeInstanceOf(ShopifyCommerceBackend);
+    expect(woo).toBeInstanceOf(WooCommerceCommerceBackend);
+    expect(registry.platforms()).toEqual(['shopify', 'woocommerce', 'stripe']);
+  });
+
+  it('rejects platforms without a backend', () => {
+    expect(registry.has('youtube')).toBe(false);
+    expect(() => registry.create('youtube')).toThrow('No commerce backend registered for youtube');
+  });
+
+  it('lets a new platform be registered without touching the others', () => {
+    const custom = new CommerceBackendRegistry().register('custom', () =>
+      registry.create('shopify', { shopDomain: 'custom' })
+    );
+
+    expect(custom.has('custom')).toBe(true);
+    expect(custom.has('shopify')).toBe(false);
+  });
+});
+
+describe('ShopifyCommerceBackend', () => {
+  const backend = new ShopifyCommerceBackend(
+    { shopDomain: 'glow', accessToken: 'token' },
+    { webhookSecret: 'shpss_secret' }
+  );
+
+  it('builds a cart permalink with the checkout session in the note', async () => {
+    const checkout = await backend.buildCheckout({
+      checkoutSessionId: 'session-1',
+      currency: 'USD',
+      lines: [
+        { productExternalId: '1', variantExternalId: '11', title: 'Serum', quantity: 2, unitPrice: 2500, unitOfferPrice: 2000 },
+        { productExternalId: '2', variantExternalId: '22', title: 'Toner', quantity: 1, unitPrice: 1500, unitOfferPrice: 1500 },
+      ],
+    });
+
+    expect(checkout.url).toBe('https://glow.myshopify.com/cart/11:2,22:1?checkout[note]=session-1');
+    expect(checkout.externalCheckoutId).toBeUndefined();
+  });
+
+  it('parses an order webhook into a neutral order', () => {
+    const parsed = backend.parseOrder({
+      id: 9001,
+      order_number: 1042,
+      email: 'buyer@example.com',
+      total_price: '45.00',
+      subtotal_price: '40.00',
+      total_discounts: '10.00',
+      total_tax: '3.00',
+      total_shipping_price_set: { shop_money: { amount: '2.00' } },
+      currency: 'USD',
+      created_at: '2026-01-10T12:00:00Z',
+      note: 'session-1',
+      line_items: [{ variant_id: 11, title: 'Serum', quantity: 2, price: '20.00' }],
+      customer: { email: 'buyer@example.com', first_name: 'Ada', last_name: 'Buyer' },
+    });
+
+    expect(parsed).toMatchObject({
+      externalOrderId: '9001',
+      externalOrderNumber: '1042',
+      checkoutSessionId: 'session-1',
+      isPaid: true,
+      subtotal: 4000,
+      discount: 1000,
+      shipping: 200,
+      tax: 300,
+      total: 4500,
+      customerName: 'Ada Buyer',
+      lineItems: [{ externalVariantId: '11', title: 'Serum', quantity: 2, price: 2000 }],
+    });
+  });
+
+  it('verifies webhooks with the app secret', () => {
+    const rawBody = JSON.stringify({ id: 9001 });
+
+    expect(backend.verifyWebhook({
+      headers: { 'x-shopify-hmac-sha256': sign(rawBody, 'shpss_secret') },
+      rawBody,
+    })).toBe(true);
+    expect(backend.verifyWebhook({
+      headers: { 'x-shopify-hmac-sha256': sign(rawBody, 'other') },
+      rawBody,
+    })).toBe(false);
+  });
+});
+
+describe('WooCommerceCommerceBackend', () => {
+  const backend = new WooCommerceCommerceBackend({
+    storeUrl: 'https://shop.test',
+    consumerKey: 'ck_1',
+    consumerSecret: 'cs_1',
+    webhookSecret: 'woo_secret',
+  });
+
+  const order = {
+    id: 77,
+    number: '77',
+    status: 'pending',
+    currency: 'EUR',
+    date_created_gmt: '2026-01-10T12:00:00',
+    discount_total: '5.00',
+    shipping_total: '0.00',
+    total_tax: '0.00',
+    total: '35.00',
+    payment_url: 'https://shop.test/checkout/order-pay/77',
+    billing: { email: 'buyer@example.com', first_name: 'Ada', last_name: 'Buyer' },
+    meta_data: [{ id: 1, key: '_unifyed_checkout_session_id', value: 'session-2' }],
+    line_items: [
+      { id: 1, name: 'Serum - Large', product_id: 10, variation_id: 12, quantity: 1, subtotal: '25.00', total: '20.00' },
+      { id: 2, name: 'Toner', product_id: 20, variation_id: 0, quantity: 1, subtotal: '15.00', total: '15.00' },
+    ],
+  };
+
+  it('only treats processing and completed orders as paid', () => {
+    expect(backend.parseOrder(order)?.isPaid).toBe(false);
+    expect(backend.parseOrder({ ...order, status: 'processing' })?.isPaid).toBe(true);
+  });
+
+  it('parses an order with variation and simple product lines', () => {
+    expect(backend.parseOrder({ ...order, status: 'completed' })).toMatchObject({
+      externalOrderId: '77',
+      checkoutSessionId: 'session-2',
+      subtotal: 4000,
+      discount: 500,
+      total: 3500,
+      currency: 'EUR',
+      lineItems: [
+        { externalVariantId: '12', quantity: 1, price: 2000 },
+        { externalVariantId: '20', quantity: 1, price: 1500 },
+      ],
+    });
+  });
+
+  it('ignores payloads that are not orders', () => {
+    expect(backend.parseOrder({ id: 10, name: 'Glow Serum' })).toBeNull();
+  });
+
+  it('verifies webhooks with the secret stored on the connection', () => {
+    const rawBody = JSON.stringify(order);
+    const headers = {
+      'x-wc-webhook-signature': sign(rawBody, 'woo_secret'),
+      'x-wc-webhook-topic': 'order.updated',
+      'x-wc-webhook-source': 'https://shop.test/',
+      'x-wc-webhook-id': '5',
+      'x-wc-webhook-delivery-id': '99',
+    };
+
+    expect(backend.verifyWebhook({ headers, rawBody })).toBe(true);
+    expect(backend.verifyWebhook({ headers, rawBody: `${rawBody} ` })).toBe(false);
+  });
+});
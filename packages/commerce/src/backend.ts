@@ -0,0 +1,169 @@
+/**
+ * Commerce backends
+ *
+ * A commerce backend is where products live and orders are paid: a store
+ * (Shopify, WooCommerce) or a payment provider selling our own catalog (Stripe).
+ * Checkout, catalog sync and order webhooks only talk to this interface, so a
+ * new store platform is a new backend plus a registry entry.
+ *
+ * All amounts are in cents.
+ */
+
+/**
+ * Decrypted credentials of a platform connection. The shape is owned by the
+ * backend that reads it.
+ */
+export type CommerceCredentials = Record<string, string>;
+
+export interface CatalogVariantInput {
+  externalId: string;
+  title: string;
+  sku: string | null;
+  barcode?: string | null;
+  price: number;
+  compareAtPrice: number | null;
+  currency?: string;
+  inventoryQuantity: number;
+  inventoryPolicy: string;
+  option1: string | null;
+  option2: string | null;
+  option3: string | null;
+  imageUrl?: string | null;
+  inventoryItemId?: string | null;
+  weight: string | null;
+  weightUnit?: string;
+  isActive: boolean;
+}
+
+export interface CatalogProductInput {
+  externalId: string;
+  title: string;
+  description: string | null;
+  vendor?: string | null;
+  productType: string | null;
+  imageUrl: string | null;
+  images: string[];
+  sourceMetadata?: Record<string, unknown>;
+  variants: CatalogVariantInput[];
+}
+
+/**
+ * A variant whose stock we want to know, with the IDs backends key stock by
+ */
+export interface InventoryQuery {
+  externalId: string;
+  productExternalId: string;
+  inventoryItemId?: string | null;
+}
+
+export interface InventoryLevel {
+  externalId: string;
+  quantity: number;
+}
+
+export interface CheckoutLineInput {
+  productExternalId: string;
+  variantExternalId: string;
+  title: string;
+  imageUrl?: string | null;
+  quantity: number;
+  // Catalog price and the price after offers, per unit
+  unitPrice: number;
+  unitOfferPrice: number;
+}
+
+export interface BuildCheckoutInput {
+  // Our checkout session; backends carry it through so the order can be attributed
+  checkoutSessionId: string;
+  lines: CheckoutLineInput[];
+  currency: string;
+  customerEmail?: string | null;
+  successUrl?: string;
+  cancelUrl?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface CheckoutRedirect {
+  url: string;
+  // The backend's own checkout/order ID, when it creates one up front
+  externalCheckoutId?: string;
+}
+
+export interface WebhookInput {
+  headers: Record<string, string | string[] | undefined>;
+  rawBody: string;
+}
+
+export interface ParsedOrderLine {
+  externalVariantId: string;
+  title: string;
+  quantity: number;
+  price: number; // per unit, as charged
+}
+
+/**
+ * An order in backend-neutral form, ready to be stored as an `orders` row
+ */
+export interface ParsedOrder {
+  externalOrderId: string;
+  externalOrderNumber: string;
+  // Our checkout session ID if the order came through one of our checkouts
+  checkoutSessionId: string | null;
+  // Unpaid orders (e.g. pending WooCommerce orders) are not recorded yet
+  isPaid: boolean;
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  total: number;
+  currency: string;
+  customerEmail: string | null;
+  customerName: string | null;
+  lineItems: ParsedOrderLine[];
+  createdAt: Date;
+  raw: Record<string, unknown>;
+}
+
+export interface CommerceBackend {
+  readonly platform: string;
+
+  /**
+   * Fetch the full catalog: every sellable product with its variants
+   */
+  syncCatalog(): Promise<CatalogProductInput[]>;
+
+  /**
+   * Current stock for the given variants. Variants the backend doesn't track
+   * stock for are left out.
+   */
+  getInventory(variants: InventoryQuery[]): Promise<InventoryLevel[]>;
+
+  /**
+   * Prepare a checkout at our prices and return where to send the buyer
+   */
+  buildCheckout(input: BuildCheckoutInput): Promise<CheckoutRedirect>;
+
+  /**
+   * Check a webhook delivery's signature against the raw body
+   */
+  verifyWebhook(input: WebhookInput): boolean;
+
+  /**
+   * Turn an order webhook payload into a neutral order. Returns null for
+   * payloads that are not orders.
+   */
+  parseOrder(payload: unknown): ParsedOrder | null;
+
+  /**
+   * Cancel an order (or refund the payment behind it) on the backend
+   */
+  cancelOrder(externalOrderId: string): Promise<void>;
+}
+
+/**
+ * Convert a decimal price string to cents
+ */
+export function toCents(price: string | number | null | undefined): number {
+  const value = typeof price === 'number' ? price : parseFloat(price ?? '');
+  return Number.isFinite(value) ? Math.round(value * 100) : 0;
+}
@@ -0,0 +1,3 @@
+export { ShopifyCommerceBackend, type ShopifyBackendOptions } from './shopify.js';
+export { WooCommerceCommerceBackend } from './woocommerce.js';
+export { StripeCommerceBackend, type StripeBackendOptions } from './stripe.js';
@@ -0,0 +1,172 @@
+import {
+  ShopifyClient,
+  verifyWebhookSignature,
+  type ShopifyProduct,
+} from '@unifyed/integrations-shopify';
+import type {
+  CommerceBackend,
+  CommerceCredentials,
+  CatalogProductInput,
+  InventoryQuery,
+  InventoryLevel,
+  BuildCheckoutInput,
+  CheckoutRedirect,
+  WebhookInput,
+  ParsedOrder,
+} from '../backend.js';
+import { toCents } from '../backend.js';
+
+export interface ShopifyBackendOptions {
+  // App client secret; Shopify signs webhooks with it
+  webhookSecret?: string | undefined;
+}
+
+// Order webhook payload (orders/create)
+interface ShopifyOrderPayload {
+  id: number;
+  order_number: number | string;
+  email: string | null;
+  total_price: string;
+  subtotal_price: string;
+  total_discounts: string;
+  total_tax: string;
+  total_shipping_price_set?: { shop_money?: { amount: string } };
+  currency: string;
+  created_at: string;
+  note?: string | null;
+  line_items: Array<{
+    variant_id: number | null;
+    title: string;
+    quantity: number;
+    price: string;
+  }>;
+  customer?: {
+    email: string | null;
+    first_name?: string | null;
+    last_name?: string | null;
+  } | null;
+}
+
+export class ShopifyCommerceBackend implements CommerceBackend {
+  readonly platform = 'shopify';
+  private readonly shopDomain: string;
+  private readonly client: ShopifyClient;
+
+  constructor(
+    credentials: CommerceCredentials,
+    private options: ShopifyBackendOptions = {}
+  ) {
+    this.shopDomain = credentials['shopDomain'] ?? '';
+    this.client = new ShopifyClient({
+      shopDomain: this.shopDomain,
+      accessToken: credentials['accessToken'] ?? '',
+    });
+  }
+
+  async syncCatalog(): Promise<CatalogProductInput[]> {
+    // In production, this would paginate through all products
+    const { products } = await this.client.getProducts({ limit: 250 });
+    return products.map(toCatalogProduct);
+  }
+
+  async getInventory(variants: InventoryQuery[]): Promise<InventoryLevel[]> {
+    const tracked = variants.filter(v => v.inventoryItemId);
+    if (tracked.length === 0) return [];
+
+    const levels = await this.client.getInventoryLevels(tracked.map(v => Number(v.inventoryItemId)));
+
+    // Stock is per location; sell against the total
+    return tracked.map(variant => ({
+      externalId: variant.externalId,
+      quantity: levels
+        .filter(level => String(level.inventory_item_id) === variant.inventoryItemId)
+        .reduce((sum, level) => sum + level.available, 0),
+    }));
+  }
+
+  async buildCheckout(input: BuildCheckoutInput): Promise<CheckoutRedirect> {
+    // Shopify cart permalinks accept comma-separated variant:quantity pairs
+    const cartPath = input.lines.map(line => `${line.variantExternalId}:${line.quantity}`).join(',');
+
+    return {
+      url: `https://${this.shopDomain}.myshopify.com/cart/${cartPath}?checkout[note]=${input.checkoutSessionId}`,
+    };
+  }
+
+  verifyWebhook(input: WebhookInput): boolean {
+    // Without an app secret (local development) signatures can't be checked
+    if (!this.options.webhookSecret) return true;
+
+    const hmac = input.headers['x-shopify-hmac-sha256'];
+    if (typeof hmac !== 'string') return false;
+
+    return verifyWebhookSignature(input.rawBody, hmac, this.options.webhookSecret);
+  }
+
+  parseOrder(payload: unknown): ParsedOrder | null {
+    const order = payload as ShopifyOrderPayload;
+    if (!order || typeof order.id !== 'number' || !Array.isArray(order.line_items)) {
+      return null;
+    }
+
+    return {
+      externalOrderId: String(order.id),
+      externalOrderNumber: String(order.order_number),
+      // We put our checkout session ID in the checkout note
+      checkoutSessionId: order.note || null,
+      // Shopify creates the order once checkout is paid
+      isPaid: true,
+      subtotal: toCents(order.subtotal_price),
+      discount: toCents(order.total_discounts),
+      shipping: toCents(order.total_shipping_price_set?.shop_money?.amount),
+      tax: toCents(order.total_tax),
+      total: toCents(order.total_price),
+      currency: order.currency,
+      customerEmail: order.customer?.email ?? order.email ?? null,
+      customerName: order.customer
+        ? `${order.customer.first_name ?? ''} ${order.customer.last_name ?? ''}`.trim()
+        : null,
+      lineItems: order.line_items.map(item => ({
+        externalVariantId: String(item.variant_id),
+        title: item.title,
+        quantity: item.quantity,
+        price: toCents(item.price),
+      })),
+      createdAt: new Date(order.created_at),
+      raw: order as unknown as Record<string, unknown>,
+    };
+  }
+
+  async cancelOrder(externalOrderId: string): Promise<void> {
+    await this.client.cancelOrder(Number(externalOrderId));
+  }
+}
+
+function toCatalogProduct(product: ShopifyProduct): CatalogProductInput {
+  return {
+    externalId: String(product.id),
+    title: product.title,
+    description: product.body_html,
+    vendor: product.vendor,
+    productType: product.product_type,
+    imageUrl: product.images[0]?.src ?? null,
+    images: product.images.map(img => img.src),
+    variants: product.variants.map(variant => ({
+      externalId: String(variant.id),
+      title: variant.title,
+      sku: variant.sku || null,
+      barcode: variant.barcode || null,
+      price: toCents(variant.price),
+      compareAtPrice: variant.compare_at_price ? toCents(variant.compare_at_price) : null,
+      inventoryQuantity: variant.inventory_quantity,
+      inventoryPolicy: variant.inventory_policy,
+      option1: variant.option1,
+      option2: variant.option2,
+      option3: variant.option3,
+      inventoryItemId: String(variant.inventory_item_id),
+      weight: String(variant.weight),
+      weightUnit: variant.weight_unit,
+      isActive: true,
+    })),
+  };
+}
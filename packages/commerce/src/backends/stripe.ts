@@ -0,0 +1,181 @@
+import * as stripeIntegration from '@unifyed/integrations-stripe';
+import type {
+  CommerceBackend,
+  CommerceCredentials,
+  CatalogProductInput,
+  InventoryLevel,
+  BuildCheckoutInput,
+  CheckoutRedirect,
+  WebhookInput,
+  ParsedOrder,
+} from '../backend.js';
+
+// Stripe doesn't track stock. Reservations still hold against this allowance.
+const UNTRACKED_STOCK_QUANTITY = 1000;
+
+export interface StripeBackendOptions {
+  webhookSecret?: string | undefined;
+  // Where Stripe Checkout returns the buyer when the caller doesn't say
+  appUrl?: string | undefined;
+}
+
+/**
+ * Sells our own catalog through Stripe Checkout. The Stripe client must be
+ * initialized (initStripe) before the backend is used.
+ */
+export class StripeCommerceBackend implements CommerceBackend {
+  readonly platform = 'stripe';
+  // Creator's Connect account; payments go to it minus the platform fee
+  private readonly connectedAccountId: string | undefined;
+
+  constructor(
+    credentials: CommerceCredentials,
+    private options: StripeBackendOptions = {}
+  ) {
+    this.connectedAccountId = credentials['connectedAccountId'];
+  }
+
+  async syncCatalog(): Promise<CatalogProductInput[]> {
+    const products = await stripeIntegration.listProducts();
+    const catalog: CatalogProductInput[] = [];
+
+    for (const product of products) {
+      const price = product.default_price;
+      // One-off prices only; subscriptions can't go through a product checkout
+      if (!price || typeof price === 'string' || price.recurring || price.unit_amount === null) continue;
+
+      catalog.push({
+        externalId: product.id,
+        title: product.name,
+        description: product.description,
+        productType: null,
+        imageUrl: product.images[0] ?? null,
+        images: product.images,
+        variants: [{
+          externalId: product.id,
+          title: 'Default Title',
+          sku: null,
+          price: price.unit_amount,
+          compareAtPrice: null,
+          currency: price.currency.toUpperCase(),
+          inventoryQuantity: UNTRACKED_STOCK_QUANTITY,
+          inventoryPolicy: 'continue',
+          option1: null,
+          option2: null,
+          option3: null,
+          imageUrl: product.images[0] ?? null,
+          weight: null,
+          isActive: true,
+        }],
+      });
+    }
+
+    return catalog;
+  }
+
+  async getInventory(): Promise<InventoryLevel[]> {
+    return [];
+  }
+
+  async buildCheckout(input: BuildCheckoutInput): Promise<CheckoutRedirect> {
+    const appUrl = this.options.appUrl;
+    if (!appUrl && (!input.successUrl || !input.cancelUrl)) {
+      throw new Error('Stripe checkout needs return URLs or an app URL');
+    }
+
+    const params: stripeIntegration.CreateCheckoutSessionParams = {
+      lineItems: input.lines.map(line => ({
+        name: line.title,
+        unitAmount: line.unitOfferPrice,
+        quantity: line.quantity,
+        currency: input.currency.toLowerCase(),
+        imageUrl: line.imageUrl ?? undefined,
+      })),
+      successUrl: input.successUrl ?? `${appUrl}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
+      cancelUrl: input.cancelUrl ?? `${appUrl}/checkout/cancel`,
+      customerEmail: input.customerEmail ?? undefined,
+      metadata: {
+        ...input.metadata,
+        unifyed_checkout_session_id: input.checkoutSessionId,
+      },
+      clientReferenceId: input.checkoutSessionId,
+    };
+
+    if (this.connectedAccountId) {
+      const total = input.lines.reduce((sum, line) => sum + line.unitOfferPrice * line.quantity, 0);
+      params.connectedAccountId = this.connectedAccountId;
+      params.applicationFeeAmount = stripeIntegration.calculatePlatformFee(total);
+    }
+
+    const session = await stripeIntegration.createCheckoutSession(params);
+    if (!session.url) {
+      throw new Error(`Stripe checkout session ${session.id} has no URL`);
+    }
+
+    return { url: session.url, externalCheckoutId: session.id };
+  }
+
+  verifyWebhook(input: WebhookInput): boolean {
+    // Without a webhook secret (local development) signatures can't be checked
+    if (!this.options.webhookSecret) return true;
+
+    const signature = input.headers['stripe-signature'];
+    if (typeof signature !== 'string') return false;
+
+    try {
+      stripeIntegration.constructWebhookEvent(input.rawBody, signature, this.options.webhookSecret);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Parse a `checkout.session.completed` event. Stripe sessions don't carry
+   * line items; they are on our checkout session.
+   */
+  parseOrder(payload: unknown): ParsedOrder | null {
+    const event = payload as stripeIntegration.Stripe.Event;
+    if (event?.type !== 'checkout.session.completed') {
+      return null;
+    }
+
+    const session = event.data.object as stripeIntegration.Stripe.Checkout.Session;
+    const paymentIntentId = typeof session.payment_intent === 'string'
+      ? session.payment_intent
+      : session.payment_intent?.id;
+
+    return {
+      externalOrderId: paymentIntentId ?? session.id,
+      externalOrderNumber: session.id.slice(-8).toUpperCase(),
+      checkoutSessionId: session.client_reference_id ?? session.metadata?.['unifyed_checkout_session_id'] ?? null,
+      isPaid: session.payment_status !== 'unpaid',
+      subtotal: session.amount_subtotal ?? 0,
+      discount: session.total_details?.amount_discount ?? 0,
+      shipping: session.total_details?.amount_shipping ?? 0,
+      tax: session.total_details?.amount_tax ?? 0,
+      total: session.amount_total ?? 0,
+      currency: (session.currency ?? 'usd').toUpperCase(),
+      customerEmail: session.customer_details?.email ?? session.customer_email ?? null,
+      customerName: session.customer_details?.name ?? null,
+      lineItems: [],
+      createdAt: new Date(session.created * 1000),
+      raw: {
+        stripeSessionId: session.id,
+        stripePaymentIntentId: paymentIntentId ?? null,
+        stripeCustomerId: session.customer,
+      },
+    };
+  }
+
+  /**
+   * Refund a paid order, or expire a checkout that was never paid
+   */
+  async cancelOrder(externalOrderId: string): Promise<void> {
+    if (externalOrderId.startsWith('cs_')) {
+      await stripeIntegration.expireCheckoutSession(externalOrderId);
+      return;
+    }
+    await stripeIntegration.createRefund(externalOrderId, undefined, 'requested_by_customer');
+  }
+}
@@ -0,0 +1,152 @@
+import {
+  WooCommerceClient,
+  CHECKOUT_SESSION_META_KEY,
+  WOOCOMMERCE_PAID_ORDER_STATUSES,
+  toCatalogProduct,
+  toInventory,
+  fromCents,
+  parseWebhookHeaders,
+  verifyWebhookSignature,
+  type WooOrder,
+} from '@unifyed/integrations-woocommerce';
+import type {
+  CommerceBackend,
+  CommerceCredentials,
+  CatalogProductInput,
+  InventoryQuery,
+  InventoryLevel,
+  BuildCheckoutInput,
+  CheckoutRedirect,
+  WebhookInput,
+  ParsedOrder,
+} from '../backend.js';
+import { toCents } from '../backend.js';
+
+export class WooCommerceCommerceBackend implements CommerceBackend {
+  readonly platform = 'woocommerce';
+  private readonly client: WooCommerceClient;
+  private readonly webhookSecret: string | undefined;
+
+  constructor(credentials: CommerceCredentials) {
+    this.client = new WooCommerceClient({
+      storeUrl: credentials['storeUrl'] ?? '',
+      consumerKey: credentials['consumerKey'] ?? '',
+      consumerSecret: credentials['consumerSecret'] ?? '',
+    });
+    // Secret we registered the store's webhooks with
+    this.webhookSecret = credentials['webhookSecret'];
+  }
+
+  async syncCatalog(): Promise<CatalogProductInput[]> {
+    const currency = await this.client.getCurrency();
+    const wooProducts = await this.client.getAllProducts();
+    const catalog: CatalogProductInput[] = [];
+
+    for (const wooProduct of wooProducts) {
+      // Grouped and external products can't be sold through a checkout
+      if (wooProduct.type !== 'simple' && wooProduct.type !== 'variable') continue;
+
+      const productVariations = wooProduct.type === 'variable'
+        ? await this.client.getProductVariations(wooProduct.id)
+        : [];
+
+      catalog.push(toCatalogProduct(wooProduct, productVariations, currency));
+    }
+
+    return catalog;
+  }
+
+  async getInventory(variants: InventoryQuery[]): Promise<InventoryLevel[]> {
+    const levels: InventoryLevel[] = [];
+
+    for (const variant of variants) {
+      // Simple products are a single variant keyed by the product ID
+      if (variant.externalId === variant.productExternalId) {
+        const product = await this.client.getProduct(Number(variant.productExternalId));
+        levels.push({ externalId: variant.externalId, quantity: toInventory(product).inventoryQuantity });
+        continue;
+      }
+
+      const variation = await this.client.getProductVariation(
+        Number(variant.productExternalId),
+        Number(variant.externalId)
+      );
+      const parent = variation.manage_stock === 'parent'
+        ? await this.client.getProduct(Number(variant.productExternalId))
+        : undefined;
+      levels.push({ externalId: variant.externalId, quantity: toInventory(variation, parent).inventoryQuantity });
+    }
+
+    return levels;
+  }
+
+  /**
+   * WooCommerce has no cart permalinks, so we create a pending order at the
+   * offer price and send the buyer to its payment page. The order carries the
+   * checkout session ID so the order webhook can attribute it.
+   */
+  async buildCheckout(input: BuildCheckoutInput): Promise<CheckoutRedirect> {
+    const order = await this.client.createOrder({
+      lines: input.lines.map(line => ({
+        productId: Number(line.productExternalId),
+        // Variations are ordered as product + variation
+        ...(line.productExternalId !== line.variantExternalId && { variationId: Number(line.variantExternalId) }),
+        quantity: line.quantity,
+        subtotal: fromCents(line.unitPrice * line.quantity),
+        total: fromCents(line.unitOfferPrice * line.quantity),
+      })),
+      metadata: { ...input.metadata, [CHECKOUT_SESSION_META_KEY]: input.checkoutSessionId },
+    });
+
+    if (!order.payment_url) {
+      throw new Error(`WooCommerce order ${order.id} has no payment URL`);
+    }
+
+    return { url: order.payment_url, externalCheckoutId: String(order.id) };
+  }
+
+  verifyWebhook(input: WebhookInput): boolean {
+    const headers = parseWebhookHeaders(input.headers);
+    if (!headers || !this.webhookSecret) return false;
+
+    return verifyWebhookSignature(input.rawBody, headers.signature, this.webhookSecret);
+  }
+
+  parseOrder(payload: unknown): ParsedOrder | null {
+    const order = payload as WooOrder;
+    if (!order || typeof order.id !== 'number' || !Array.isArray(order.line_items)) {
+      return null;
+    }
+
+    const checkoutSessionId = order.meta_data?.find(meta => meta.key === CHECKOUT_SESSION_META_KEY)?.value;
+
+    return {
+      externalOrderId: String(order.id),
+      externalOrderNumber: order.number,
+      checkoutSessionId: typeof checkoutSessionId === 'string' ? checkoutSessionId : null,
+      // Orders are created pending at checkout; only paid ones count
+      isPaid: (WOOCOMMERCE_PAID_ORDER_STATUSES as readonly string[]).includes(order.status),
+      subtotal: order.line_items.reduce((sum, item) => sum + toCents(item.subtotal), 0),
+      discount: toCents(order.discount_total),
+      shipping: toCents(order.shipping_total),
+      tax: toCents(order.total_tax),
+      total: toCents(order.total),
+      currency: order.currency,
+      customerEmail: order.billing.email || null,
+      customerName: `${order.billing.first_name} ${order.billing.last_name}`.trim() || null,
+      // Our variant external ID is the variation ID, or the product ID for simple products
+      lineItems: order.line_items.map(item => ({
+        externalVariantId: String(item.variation_id || item.product_id),
+        title: item.name,
+        quantity: item.quantity,
+        price: Math.round(toCents(item.total) / Math.max(1, item.quantity)),
+      })),
+      createdAt: new Date(`${order.date_created_gmt}Z`),
+      raw: order as unknown as Record<string, unknown>,
+    };
+  }
+
+  async cancelOrder(externalOrderId: string): Promise<void> {
+    await this.client.cancelOrder(Number(externalOrderId));
+  }
+}
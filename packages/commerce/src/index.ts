@@ -0,0 +1,30 @@
+import { CommerceBackendRegistry } from './registry.js';
+import { ShopifyCommerceBackend } from './backends/shopify.js';
+import { WooCommerceCommerceBackend } from './backends/woocommerce.js';
+import { StripeCommerceBackend } from './backends/stripe.js';
+
+export * from './backend.js';
+export * from './registry.js';
+export * from './backends/index.js';
+
+export interface CommerceRegistryOptions {
+  shopifyWebhookSecret?: string | undefined;
+  stripeWebhookSecret?: string | undefined;
+  appUrl?: string | undefined;
+}
+
+/**
+ * Registry with every built-in backend: Shopify and WooCommerce stores, and
+ * Stripe for selling without a store
+ */
+export function createCommerceRegistry(options: CommerceRegistryOptions = {}): CommerceBackendRegistry {
+  return new CommerceBackendRegistry()
+    .register('shopify', (credentials) => new ShopifyCommerceBackend(credentials, {
+      webhookSecret: options.shopifyWebhookSecret,
+    }))
+    .register('woocommerce', (credentials) => new WooCommerceCommerceBackend(credentials))
+    .register('stripe', (credentials) => new StripeCommerceBackend(credentials, {
+      webhookSecret: options.stripeWebhookSecret,
+      appUrl: options.appUrl,
+    }));
+}
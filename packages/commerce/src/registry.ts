@@ -0,0 +1,35 @@
+import type { CommerceBackend, CommerceCredentials } from './backend.js';
+
+export type CommerceBackendFactory = (credentials: CommerceCredentials) => CommerceBackend;
+
+/**
+ * Maps a platform (the `platform` of a platform connection, or `stripe`) to
+ * the backend implementation that serves it
+ */
+export class CommerceBackendRegistry {
+  private factories = new Map<string, CommerceBackendFactory>();
+
+  register(platform: string, factory: CommerceBackendFactory): this {
+    this.factories.set(platform, factory);
+    return this;
+  }
+
+  has(platform: string): boolean {
+    return this.factories.has(platform);
+  }
+
+  platforms(): string[] {
+    return [...this.factories.keys()];
+  }
+
+  /**
+   * Create the backend for a platform with a connection's decrypted credentials
+   */
+  create(platform: string, credentials: CommerceCredentials = {}): CommerceBackend {
+    const factory = this.factories.get(platform);
+    if (!factory) {
+      throw new Error(`No commerce backend registered for ${platform}`);
+    }
+    return factory(credentials);
+  }
+}
@@ -0,0 +1,7 @@
+-- Flash sales are now announced by the worker, which needs the link
+-- and custom message that were set when the sale was created
+
+ALTER TABLE "flash_sales" ADD COLUMN "short_link_id" uuid;--> statement-breakpoint
+ALTER TABLE "flash_sales" ADD COLUMN "message" text;--> statement-breakpoint
+ALTER TABLE "flash_sales" ADD CONSTRAINT "flash_sales_short_link_id_short_links_id_fk" FOREIGN KEY ("short_link_id") REFERENCES "public"."short_links"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "flash_sales_starts_at_idx" ON "flash_sales" USING btree ("starts_at");
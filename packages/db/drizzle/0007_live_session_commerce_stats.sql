@@ -0,0 +1,5 @@
+-- Orders and revenue per live session, maintained by the worker's
+-- PURCHASE_COMPLETED handler
+
+ALTER TABLE "live_sessions" ADD COLUMN "orders_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "live_sessions" ADD COLUMN "revenue_total" integer DEFAULT 0 NOT NULL;
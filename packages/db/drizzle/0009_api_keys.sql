@@ -0,0 +1,20 @@
+-- Scoped API keys for server-to-server access (hashed at rest)
+
+CREATE TABLE "api_keys" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"creator_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"key_hash" varchar(64) NOT NULL,
+	"prefix" varchar(20) NOT NULL,
+	"scopes" jsonb NOT NULL,
+	"rate_limit_per_minute" integer DEFAULT 120 NOT NULL,
+	"last_used_at" timestamp with time zone,
+	"expires_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "api_keys_key_hash_unique" UNIQUE("key_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "api_keys_creator_idx" ON "api_keys" USING btree ("creator_id");
@@ -0,0 +1,30 @@
+-- Append-only audit trail of who changed what on a creator account
+
+CREATE TYPE "public"."audit_actor_type" AS ENUM('user', 'api_key');--> statement-breakpoint
+CREATE TABLE "audit_log" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"creator_id" uuid NOT NULL,
+	"actor_type" "audit_actor_type" NOT NULL,
+	"actor_id" uuid NOT NULL,
+	"actor_role" varchar(50),
+	"action" varchar(100) NOT NULL,
+	"resource_type" varchar(50) NOT NULL,
+	"resource_id" varchar(255),
+	"changes" jsonb NOT NULL,
+	"reason" text,
+	"method" varchar(10) NOT NULL,
+	"route" varchar(255) NOT NULL,
+	"ip_address" varchar(45),
+	"user_agent" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "audit_log_creator_created_idx" ON "audit_log" USING btree ("creator_id","created_at");--> statement-breakpoint
+CREATE INDEX "audit_log_resource_idx" ON "audit_log" USING btree ("resource_type","resource_id");--> statement-breakpoint
+CREATE INDEX "audit_log_actor_idx" ON "audit_log" USING btree ("actor_id");--> statement-breakpoint
+CREATE FUNCTION "public"."audit_log_append_only"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "audit_log_append_only" BEFORE UPDATE OR DELETE ON "audit_log" FOR EACH ROW EXECUTE FUNCTION "public"."audit_log_append_only"();
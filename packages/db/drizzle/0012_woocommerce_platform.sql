@@ -0,0 +1 @@
+ALTER TYPE "public"."platform" ADD VALUE 'woocommerce';
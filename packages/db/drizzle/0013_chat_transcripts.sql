@@ -0,0 +1,31 @@
+-- Chat transcripts: every chat message of a live session
+
+CREATE TABLE "chat_messages" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"live_session_id" uuid NOT NULL,
+	"creator_id" uuid NOT NULL,
+	"platform" varchar(20) NOT NULL,
+	"external_id" varchar(255) NOT NULL,
+	"type" varchar(20) NOT NULL,
+	"content" text NOT NULL,
+	"emotes" jsonb,
+	"author_id" varchar(255) NOT NULL,
+	"author_name" varchar(255) NOT NULL,
+	"author_image_url" text,
+	"badges" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"is_moderator" boolean DEFAULT false NOT NULL,
+	"is_subscriber" boolean DEFAULT false NOT NULL,
+	"is_verified" boolean DEFAULT false NOT NULL,
+	"gift" jsonb,
+	"gift_value" integer DEFAULT 0 NOT NULL,
+	"signals" jsonb,
+	"sent_at" timestamp with time zone NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chat_messages" ADD CONSTRAINT "chat_messages_live_session_id_live_sessions_id_fk" FOREIGN KEY ("live_session_id") REFERENCES "public"."live_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chat_messages" ADD CONSTRAINT "chat_messages_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "chat_messages_session_sent_at_idx" ON "chat_messages" USING btree ("live_session_id","sent_at");--> statement-breakpoint
+CREATE INDEX "chat_messages_creator_idx" ON "chat_messages" USING btree ("creator_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "chat_messages_session_external_idx" ON "chat_messages" USING btree ("live_session_id","platform","external_id");--> statement-breakpoint
+CREATE INDEX "chat_messages_content_search_idx" ON "chat_messages" USING gin (to_tsvector('simple', "content"));
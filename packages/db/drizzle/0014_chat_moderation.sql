@@ -0,0 +1,35 @@
+-- Chat moderation: automod settings per creator and per-viewer strike history
+
+CREATE TABLE "chat_moderation_settings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"creator_id" uuid NOT NULL,
+	"blocked_terms" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"filter_links" boolean DEFAULT true NOT NULL,
+	"allowed_link_domains" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"filter_caps" boolean DEFAULT true NOT NULL,
+	"filter_spam" boolean DEFAULT true NOT NULL,
+	"strike_limit" integer DEFAULT 3 NOT NULL,
+	"strike_timeout_seconds" integer DEFAULT 600 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "chat_moderation_strikes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"creator_id" uuid NOT NULL,
+	"platform" varchar(20) NOT NULL,
+	"author_id" varchar(255) NOT NULL,
+	"author_name" varchar(255) NOT NULL,
+	"message_id" varchar(255) NOT NULL,
+	"content" text NOT NULL,
+	"reasons" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"action" varchar(20) NOT NULL,
+	"moderator_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chat_moderation_settings" ADD CONSTRAINT "chat_moderation_settings_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chat_moderation_strikes" ADD CONSTRAINT "chat_moderation_strikes_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "chat_moderation_settings_creator_idx" ON "chat_moderation_settings" USING btree ("creator_id");--> statement-breakpoint
+CREATE INDEX "chat_moderation_strikes_author_idx" ON "chat_moderation_strikes" USING btree ("creator_id","platform","author_id","created_at");--> statement-breakpoint
+CREATE INDEX "chat_moderation_strikes_creator_created_idx" ON "chat_moderation_strikes" USING btree ("creator_id","created_at");
@@ -0,0 +1,29 @@
+-- Chat auto-answers: creator FAQ entries and auto-send settings
+
+CREATE TABLE "product_faqs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"creator_id" uuid NOT NULL,
+	"product_id" uuid,
+	"topic" varchar(20),
+	"question" text NOT NULL,
+	"answer" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "chat_answer_settings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"creator_id" uuid NOT NULL,
+	"auto_send" boolean DEFAULT false NOT NULL,
+	"auto_send_topics" jsonb DEFAULT '["size","material","shipping","returns","stock"]'::jsonb NOT NULL,
+	"max_per_minute" integer DEFAULT 3 NOT NULL,
+	"topic_cooldown_seconds" integer DEFAULT 120 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "product_faqs" ADD CONSTRAINT "product_faqs_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "product_faqs" ADD CONSTRAINT "product_faqs_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chat_answer_settings" ADD CONSTRAINT "chat_answer_settings_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "product_faqs_creator_product_idx" ON "product_faqs" USING btree ("creator_id","product_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "chat_answer_settings_creator_idx" ON "chat_answer_settings" USING btree ("creator_id");
@@ -0,0 +1,66 @@
+-- Viewer profiles: chat identities across platforms, tied to checkouts by handle
+
+CREATE TABLE "viewers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"creator_id" uuid NOT NULL,
+	"handle" varchar(16) NOT NULL,
+	"display_name" varchar(255) NOT NULL,
+	"email" varchar(255),
+	"orders_count" integer DEFAULT 0 NOT NULL,
+	"lifetime_spend" integer DEFAULT 0 NOT NULL,
+	"sessions_attended" integer DEFAULT 0 NOT NULL,
+	"first_seen_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_purchase_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "viewers_handle_unique" UNIQUE("handle")
+);
+--> statement-breakpoint
+CREATE TABLE "viewer_identities" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"viewer_id" uuid NOT NULL,
+	"creator_id" uuid NOT NULL,
+	"platform" varchar(20) NOT NULL,
+	"platform_user_id" varchar(255) NOT NULL,
+	"username" varchar(255) NOT NULL,
+	"profile_image_url" text,
+	"first_seen_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "viewer_sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"viewer_id" uuid NOT NULL,
+	"live_session_id" uuid NOT NULL,
+	"message_count" integer DEFAULT 0 NOT NULL,
+	"first_seen_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "viewer_products" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"viewer_id" uuid NOT NULL,
+	"product_id" uuid NOT NULL,
+	"quantity" integer DEFAULT 0 NOT NULL,
+	"revenue" integer DEFAULT 0 NOT NULL,
+	"last_purchased_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "checkout_sessions" ADD COLUMN "viewer_id" uuid;--> statement-breakpoint
+ALTER TABLE "viewers" ADD CONSTRAINT "viewers_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "viewer_identities" ADD CONSTRAINT "viewer_identities_viewer_id_viewers_id_fk" FOREIGN KEY ("viewer_id") REFERENCES "public"."viewers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "viewer_identities" ADD CONSTRAINT "viewer_identities_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "viewer_sessions" ADD CONSTRAINT "viewer_sessions_viewer_id_viewers_id_fk" FOREIGN KEY ("viewer_id") REFERENCES "public"."viewers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "viewer_sessions" ADD CONSTRAINT "viewer_sessions_live_session_id_live_sessions_id_fk" FOREIGN KEY ("live_session_id") REFERENCES "public"."live_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "viewer_products" ADD CONSTRAINT "viewer_products_viewer_id_viewers_id_fk" FOREIGN KEY ("viewer_id") REFERENCES "public"."viewers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "viewer_products" ADD CONSTRAINT "viewer_products_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "checkout_sessions" ADD CONSTRAINT "checkout_sessions_viewer_id_viewers_id_fk" FOREIGN KEY ("viewer_id") REFERENCES "public"."viewers"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "viewers_creator_idx" ON "viewers" USING btree ("creator_id","lifetime_spend");--> statement-breakpoint
+CREATE INDEX "viewers_creator_email_idx" ON "viewers" USING btree ("creator_id","email");--> statement-breakpoint
+CREATE UNIQUE INDEX "viewer_identities_platform_user_idx" ON "viewer_identities" USING btree ("creator_id","platform","platform_user_id");--> statement-breakpoint
+CREATE INDEX "viewer_identities_viewer_idx" ON "viewer_identities" USING btree ("viewer_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "viewer_sessions_viewer_session_idx" ON "viewer_sessions" USING btree ("viewer_id","live_session_id");--> statement-breakpoint
+CREATE INDEX "viewer_sessions_live_session_idx" ON "viewer_sessions" USING btree ("live_session_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "viewer_products_viewer_product_idx" ON "viewer_products" USING btree ("viewer_id","product_id");--> statement-breakpoint
+CREATE INDEX "checkout_sessions_viewer_idx" ON "checkout_sessions" USING btree ("viewer_id");
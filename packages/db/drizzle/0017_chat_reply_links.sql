@@ -0,0 +1,7 @@
+-- Chat reply links: per-viewer attribution down to the chat message
+
+ALTER TABLE "attribution_contexts" ADD COLUMN "chat_platform" varchar(20);--> statement-breakpoint
+ALTER TABLE "attribution_contexts" ADD COLUMN "chat_user_id" varchar(255);--> statement-breakpoint
+ALTER TABLE "attribution_contexts" ADD COLUMN "chat_message_id" varchar(255);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "chat_message_id" uuid;--> statement-breakpoint
+ALTER TABLE "orders" ADD CONSTRAINT "orders_chat_message_id_chat_messages_id_fk" FOREIGN KEY ("chat_message_id") REFERENCES "public"."chat_messages"("id") ON DELETE set null ON UPDATE no action;
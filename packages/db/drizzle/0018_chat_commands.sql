@@ -0,0 +1,35 @@
+-- Chat commands: per-creator command settings and a log of commands viewers used
+
+CREATE TABLE "chat_commands" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"creator_id" uuid NOT NULL,
+	"command" varchar(20) NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"platforms" jsonb DEFAULT '["twitch","youtube"]'::jsonb NOT NULL,
+	"cooldown_seconds" integer DEFAULT 10 NOT NULL,
+	"user_cooldown_seconds" integer DEFAULT 60 NOT NULL,
+	"response" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "chat_command_uses" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"creator_id" uuid NOT NULL,
+	"live_session_id" uuid,
+	"command" varchar(20) NOT NULL,
+	"platform" varchar(20) NOT NULL,
+	"platform_user_id" varchar(255) NOT NULL,
+	"username" varchar(255) NOT NULL,
+	"outcome" varchar(20) NOT NULL,
+	"short_link_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chat_commands" ADD CONSTRAINT "chat_commands_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chat_command_uses" ADD CONSTRAINT "chat_command_uses_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chat_command_uses" ADD CONSTRAINT "chat_command_uses_live_session_id_live_sessions_id_fk" FOREIGN KEY ("live_session_id") REFERENCES "public"."live_sessions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chat_command_uses" ADD CONSTRAINT "chat_command_uses_short_link_id_short_links_id_fk" FOREIGN KEY ("short_link_id") REFERENCES "public"."short_links"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "chat_commands_creator_command_idx" ON "chat_commands" USING btree ("creator_id","command");--> statement-breakpoint
+CREATE INDEX "chat_command_uses_creator_created_idx" ON "chat_command_uses" USING btree ("creator_id","created_at");--> statement-breakpoint
+CREATE INDEX "chat_command_uses_live_session_idx" ON "chat_command_uses" USING btree ("live_session_id");
@@ -0,0 +1,24 @@
+-- Gift and donation revenue: gifts sent in each live session with the creator's estimated payout
+
+CREATE TABLE "chat_gifts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"live_session_id" uuid NOT NULL,
+	"creator_id" uuid NOT NULL,
+	"platform" varchar(20) NOT NULL,
+	"external_id" varchar(255) NOT NULL,
+	"sender_id" varchar(255) NOT NULL,
+	"sender_name" varchar(255) NOT NULL,
+	"gift_id" varchar(255) NOT NULL,
+	"gift_name" varchar(255) NOT NULL,
+	"count" integer NOT NULL,
+	"value" integer NOT NULL,
+	"payout_rate" integer NOT NULL,
+	"estimated_payout" integer NOT NULL,
+	"sent_at" timestamp with time zone NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chat_gifts" ADD CONSTRAINT "chat_gifts_live_session_id_live_sessions_id_fk" FOREIGN KEY ("live_session_id") REFERENCES "public"."live_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chat_gifts" ADD CONSTRAINT "chat_gifts_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "chat_gifts_session_external_idx" ON "chat_gifts" USING btree ("live_session_id","platform","external_id");--> statement-breakpoint
+CREATE INDEX "chat_gifts_creator_sent_at_idx" ON "chat_gifts" USING btree ("creator_id","sent_at");
@@ -0,0 +1,18 @@
+-- Multi-touch attribution: each visitor's link clicks, replay views and link-in-bio views before an order
+
+CREATE TABLE "attribution_touchpoints" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"creator_id" uuid NOT NULL,
+	"visitor_id" varchar(255) NOT NULL,
+	"type" varchar(30) NOT NULL,
+	"surface" "surface_type" NOT NULL,
+	"platform" "platform",
+	"attribution_context_id" uuid,
+	"short_link_id" uuid,
+	"replay_id" uuid,
+	"occurred_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "attribution_touchpoints" ADD CONSTRAINT "attribution_touchpoints_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attribution_touchpoints" ADD CONSTRAINT "attribution_touchpoints_attribution_context_id_attribution_contexts_id_fk" FOREIGN KEY ("attribution_context_id") REFERENCES "public"."attribution_contexts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "attribution_touchpoints_visitor_idx" ON "attribution_touchpoints" USING btree ("creator_id","visitor_id","occurred_at");
@@ -0,0 +1,29 @@
+-- Analytics rollups: hourly and daily facts per creator, refreshed by the worker from the event log
+
+CREATE TABLE "analytics_rollups" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"creator_id" uuid NOT NULL,
+	"granularity" varchar(10) NOT NULL,
+	"bucket_start" timestamp with time zone NOT NULL,
+	"platform" varchar(20),
+	"surface" varchar(20),
+	"offer_id" uuid,
+	"live_session_id" uuid,
+	"orders" integer DEFAULT 0 NOT NULL,
+	"revenue" integer DEFAULT 0 NOT NULL,
+	"checkouts" integer DEFAULT 0 NOT NULL,
+	"views" integer DEFAULT 0 NOT NULL,
+	"gift_count" integer DEFAULT 0 NOT NULL,
+	"gift_value" integer DEFAULT 0 NOT NULL,
+	"gift_payout" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "analytics_rollup_cursors" (
+	"name" varchar(50) PRIMARY KEY NOT NULL,
+	"position" timestamp with time zone NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "analytics_rollups" ADD CONSTRAINT "analytics_rollups_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "analytics_rollups_bucket_idx" ON "analytics_rollups" USING btree ("creator_id","granularity","bucket_start");
@@ -0,0 +1,5 @@
+-- Buyer cohorts: hash of each order's customer email, to follow a buyer across orders
+
+ALTER TABLE "orders" ADD COLUMN "customer_email_hash" varchar(64);--> statement-breakpoint
+UPDATE "orders" SET "customer_email_hash" = encode(sha256(convert_to(lower(trim("customer_email")), 'UTF8')), 'hex') WHERE "customer_email" IS NOT NULL AND trim("customer_email") <> '';--> statement-breakpoint
+CREATE INDEX "orders_customer_email_hash_idx" ON "orders" USING btree ("creator_id","customer_email_hash","created_at");
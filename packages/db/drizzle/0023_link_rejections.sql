@@ -0,0 +1,15 @@
+-- Conversion funnel: visits to a short link turned away before a checkout started, and why
+
+CREATE TABLE "link_rejections" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"creator_id" uuid NOT NULL,
+	"short_link_id" uuid NOT NULL,
+	"reason" varchar(30) NOT NULL,
+	"visitor_id" varchar(255),
+	"occurred_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "link_rejections" ADD CONSTRAINT "link_rejections_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "link_rejections" ADD CONSTRAINT "link_rejections_short_link_id_short_links_id_fk" FOREIGN KEY ("short_link_id") REFERENCES "public"."short_links"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "link_rejections_link_idx" ON "link_rejections" USING btree ("short_link_id","occurred_at");--> statement-breakpoint
+CREATE INDEX "link_rejections_creator_idx" ON "link_rejections" USING btree ("creator_id","occurred_at");
@@ -0,0 +1,38 @@
+-- Offer A/B experiments: variants of an offer's terms, and the variant each checkout session was assigned
+
+CREATE TABLE "offer_experiments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"creator_id" uuid NOT NULL,
+	"offer_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"status" varchar(20) DEFAULT 'running' NOT NULL,
+	"winner_variant_id" uuid,
+	"started_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"stopped_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "offer_experiment_variants" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"experiment_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"position" integer NOT NULL,
+	"weight" integer DEFAULT 1 NOT NULL,
+	"type" "offer_type",
+	"value" integer,
+	"badge_text" varchar(50),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "checkout_sessions" ADD COLUMN "experiment_id" uuid;--> statement-breakpoint
+ALTER TABLE "checkout_sessions" ADD COLUMN "experiment_variant_id" uuid;--> statement-breakpoint
+ALTER TABLE "offer_experiments" ADD CONSTRAINT "offer_experiments_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "offer_experiments" ADD CONSTRAINT "offer_experiments_offer_id_offers_id_fk" FOREIGN KEY ("offer_id") REFERENCES "public"."offers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "offer_experiment_variants" ADD CONSTRAINT "offer_experiment_variants_experiment_id_offer_experiments_id_fk" FOREIGN KEY ("experiment_id") REFERENCES "public"."offer_experiments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "checkout_sessions" ADD CONSTRAINT "checkout_sessions_experiment_id_offer_experiments_id_fk" FOREIGN KEY ("experiment_id") REFERENCES "public"."offer_experiments"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "checkout_sessions" ADD CONSTRAINT "checkout_sessions_experiment_variant_id_offer_experiment_variants_id_fk" FOREIGN KEY ("experiment_variant_id") REFERENCES "public"."offer_experiment_variants"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "offer_experiments_creator_idx" ON "offer_experiments" USING btree ("creator_id");--> statement-breakpoint
+CREATE INDEX "offer_experiments_offer_status_idx" ON "offer_experiments" USING btree ("offer_id","status");--> statement-breakpoint
+CREATE INDEX "offer_experiment_variants_experiment_idx" ON "offer_experiment_variants" USING btree ("experiment_id","position");--> statement-breakpoint
+CREATE INDEX "checkout_sessions_experiment_idx" ON "checkout_sessions" USING btree ("experiment_id","experiment_variant_id");
@@ -0,0 +1,5 @@
+-- Bundle lines remember which bundle they belong to, so the same bundle added with different variants is priced as separate bundles
+
+ALTER TABLE "cart_items" ADD COLUMN "bundle_key" text DEFAULT '' NOT NULL;--> statement-breakpoint
+DROP INDEX "cart_items_cart_link_variant_idx";--> statement-breakpoint
+CREATE UNIQUE INDEX "cart_items_cart_link_variant_bundle_idx" ON "cart_items" USING btree ("cart_id","short_link_id","variant_id","bundle_key");
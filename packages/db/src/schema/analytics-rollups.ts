@@ -0,0 +1,54 @@
+import { pgTable, timestamp, uuid, varchar, integer, index } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { creators } from './creators.js';
+
+export type RollupGranularity = 'hour' | 'day';
+
+// Analytics rollups - per-creator facts by hour and by day, split by
+// platform, surface, offer and live session. Maintained by the worker from
+// the event log; a bucket is always rebuilt whole, never incremented.
+export const analyticsRollups = pgTable(
+  'analytics_rollups',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+    granularity: varchar('granularity', { length: 10 }).$type<RollupGranularity>().notNull(),
+    bucketStart: timestamp('bucket_start', { withTimezone: true }).notNull(), // UTC hour or day
+
+    // Dimensions, null where the fact has none (e.g. orders from outside a link)
+    platform: varchar('platform', { length: 20 }),
+    surface: varchar('surface', { length: 20 }),
+    offerId: uuid('offer_id'),
+    liveSessionId: uuid('live_session_id'),
+
+    // Facts
+    orders: integer('orders').default(0).notNull(),
+    revenue: integer('revenue').default(0).notNull(), // cents
+    checkouts: integer('checkouts').default(0).notNull(),
+    views: integer('views').default(0).notNull(), // Replay and link-in-bio page views
+    giftCount: integer('gift_count').default(0).notNull(),
+    giftValue: integer('gift_value').default(0).notNull(), // cents
+    giftPayout: integer('gift_payout').default(0).notNull(), // cents, estimated
+
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    bucketIdx: index('analytics_rollups_bucket_idx').on(table.creatorId, table.granularity, table.bucketStart),
+  })
+);
+
+// How far into the event log the rollups have been refreshed
+export const analyticsRollupCursors = pgTable('analytics_rollup_cursors', {
+  name: varchar('name', { length: 50 }).primaryKey(),
+  position: timestamp('position', { withTimezone: true }).notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+export const analyticsRollupsRelations = relations(analyticsRollups, ({ one }) => ({
+  creator: one(creators, {
+    fields: [analyticsRollups.creatorId],
+    references: [creators.id],
+  }),
+}));
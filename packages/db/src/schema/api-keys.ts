@@ -0,0 +1,45 @@
+import { pgTable, timestamp, uuid, varchar, integer, jsonb, index } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { creators } from './creators.js';
+
+// API keys - creator-owned credentials for server-to-server access
+export const apiKeys = pgTable(
+  'api_keys',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+    
+    name: varchar('name', { length: 255 }).notNull(),
+    
+    // Only a SHA-256 of the key is stored; the prefix is kept so the
+    // creator can tell keys apart in the dashboard
+    keyHash: varchar('key_hash', { length: 64 }).notNull().unique(),
+    prefix: varchar('prefix', { length: 20 }).notNull(),
+    
+    // Granted scopes, e.g. ['catalog:read', 'offers:write']
+    scopes: jsonb('scopes').$type<string[]>().notNull(),
+    
+    // Requests per minute allowed for this key
+    rateLimitPerMinute: integer('rate_limit_per_minute').default(120).notNull(),
+    
+    lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+    expiresAt: timestamp('expires_at', { withTimezone: true }),
+    revokedAt: timestamp('revoked_at', { withTimezone: true }),
+    
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    creatorIdx: index('api_keys_creator_idx').on(table.creatorId),
+  })
+);
+
+// Relations
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  creator: one(creators, {
+    fields: [apiKeys.creatorId],
+    references: [creators.id],
+  }),
+}));
@@ -47,6 +47,12 @@ export const attributionContexts = pgTable(
     platformStreamId: varchar('platform_stream_id', { length: 255 }), // TikTok/YouTube stream ID
     platformVideoId: varchar('platform_video_id', { length: 255 }), // TikTok/YouTube video ID
     
+    // Chat reply links: the viewer the link was minted for and the message
+    // it answered (platform message ID, matches chat_messages.external_id)
+    chatPlatform: varchar('chat_platform', { length: 20 }),
+    chatUserId: varchar('chat_user_id', { length: 255 }),
+    chatMessageId: varchar('chat_message_id', { length: 255 }),
+    
     // Campaign/UTM tracking
     campaign: varchar('campaign', { length: 255 }),
     source: varchar('source', { length: 255 }),
@@ -66,6 +72,43 @@ export const attributionContexts = pgTable(
   })
 );
 
+// What a visitor did on the way to a purchase
+export type TouchpointType =
+  | 'link_click'        // Opened a checkout from a short link
+  | 'replay_view'       // Watched a replay page
+  | 'link_in_bio_view'; // Viewed the creator's link-in-bio page
+
+// Attribution touchpoints - every step a visitor took before buying, so an
+// order's credit can be spread across them instead of only its last click
+export const attributionTouchpoints = pgTable(
+  'attribution_touchpoints',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+    // Matches checkout_sessions.visitor_id
+    visitorId: varchar('visitor_id', { length: 255 }).notNull(),
+    type: varchar('type', { length: 30 }).$type<TouchpointType>().notNull(),
+    
+    // Where the touch happened, copied from the link's context for clicks
+    surface: surfaceTypeEnum('surface').notNull(),
+    platform: platformEnum('platform'),
+    
+    attributionContextId: uuid('attribution_context_id').references(
+      () => attributionContexts.id,
+      { onDelete: 'set null' }
+    ),
+    shortLinkId: uuid('short_link_id'), // Link clicks
+    replayId: uuid('replay_id'), // Replay views
+    
+    occurredAt: timestamp('occurred_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    visitorIdx: index('attribution_touchpoints_visitor_idx').on(table.creatorId, table.visitorId, table.occurredAt),
+  })
+);
+
 // Relations
 export const attributionContextsRelations = relations(attributionContexts, ({ one }) => ({
   creator: one(creators, {
@@ -81,3 +124,14 @@ export const attributionContextsRelations = relations(attributionContexts, ({ on
     references: [liveSessions.id],
   }),
 }));
+
+export const attributionTouchpointsRelations = relations(attributionTouchpoints, ({ one }) => ({
+  creator: one(creators, {
+    fields: [attributionTouchpoints.creatorId],
+    references: [creators.id],
+  }),
+  attributionContext: one(attributionContexts, {
+    fields: [attributionTouchpoints.attributionContextId],
+    references: [attributionContexts.id],
+  }),
+}));
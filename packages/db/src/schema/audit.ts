@@ -0,0 +1,46 @@
+import { pgTable, text, timestamp, uuid, varchar, jsonb, index, pgEnum } from 'drizzle-orm/pg-core';
+
+// How the actor authenticated
+export const auditActorTypeEnum = pgEnum('audit_actor_type', ['user', 'api_key']);
+
+// Field-level change: { price: { from: 1999, to: 1499 } }
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Audit log - append-only record of who changed what on an account.
+// Unlike event_log this is for people, not for processing. Rows have no
+// foreign keys so they outlive the accounts, keys and resources they
+// describe, and the migration blocks UPDATE/DELETE.
+export const auditLog = pgTable(
+  'audit_log',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+
+    // The account that was changed
+    creatorId: uuid('creator_id').notNull(),
+
+    // Who did it
+    actorType: auditActorTypeEnum('actor_type').notNull(),
+    actorId: uuid('actor_id').notNull(), // profile ID, or API key ID
+    actorRole: varchar('actor_role', { length: 50 }),
+
+    // What they did
+    action: varchar('action', { length: 100 }).notNull(), // e.g. offer.updated
+    resourceType: varchar('resource_type', { length: 50 }).notNull(),
+    resourceId: varchar('resource_id', { length: 255 }),
+    changes: jsonb('changes').$type<AuditChanges>().notNull(),
+    reason: text('reason'),
+
+    // Request context
+    method: varchar('method', { length: 10 }).notNull(),
+    route: varchar('route', { length: 255 }).notNull(),
+    ipAddress: varchar('ip_address', { length: 45 }),
+    userAgent: text('user_agent'),
+
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    creatorCreatedIdx: index('audit_log_creator_created_idx').on(table.creatorId, table.createdAt),
+    resourceIdx: index('audit_log_resource_idx').on(table.resourceType, table.resourceId),
+    actorIdx: index('audit_log_actor_idx').on(table.actorId),
+  })
+);
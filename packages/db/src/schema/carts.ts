@@ -0,0 +1,133 @@
+import { pgTable, timestamp, uuid, varchar, text, integer, pgEnum, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { creators } from './creators.js';
+import { platformConnections } from './platform-connections.js';
+import { offers } from './offers.js';
+import { variants } from './products.js';
+import { shortLinks } from './short-links.js';
+import { checkoutSessions } from './checkout.js';
+
+// Cart status
+export const cartStatusEnum = pgEnum('cart_status', [
+  'open',       // Viewer is still adding items
+  'converted',  // Turned into a checkout session
+  'abandoned',  // Expired without checkout
+]);
+
+// Carts - collect items from several short links before a single checkout
+export const carts = pgTable(
+  'carts',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+
+    // All items in a cart must check out through the same backend
+    connectionId: uuid('connection_id')
+      .notNull()
+      .references(() => platformConnections.id),
+
+    // Visitor tracking
+    visitorId: varchar('visitor_id', { length: 255 }).notNull(),
+
+    // State
+    status: cartStatusEnum('status').default('open').notNull(),
+    currency: varchar('currency', { length: 3 }).default('USD').notNull(),
+
+    // Checkout session created from this cart
+    checkoutSessionId: uuid('checkout_session_id').references(
+      () => checkoutSessions.id,
+      { onDelete: 'set null' }
+    ),
+
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    convertedAt: timestamp('converted_at', { withTimezone: true }),
+
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    creatorIdx: index('carts_creator_idx').on(table.creatorId),
+    visitorIdx: index('carts_visitor_idx').on(table.visitorId),
+    statusIdx: index('carts_status_idx').on(table.status),
+    expiresAtIdx: index('carts_expires_at_idx').on(table.expiresAt),
+  })
+);
+
+// Cart items - one line per (short link, variant)
+export const cartItems = pgTable(
+  'cart_items',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    cartId: uuid('cart_id')
+      .notNull()
+      .references(() => carts.id, { onDelete: 'cascade' }),
+
+    // Where the item was added from (drives offer + attribution for the line)
+    shortLinkId: uuid('short_link_id')
+      .notNull()
+      .references(() => shortLinks.id, { onDelete: 'cascade' }),
+    offerId: uuid('offer_id')
+      .notNull()
+      .references(() => offers.id, { onDelete: 'cascade' }),
+
+    variantId: uuid('variant_id')
+      .notNull()
+      .references(() => variants.id, { onDelete: 'cascade' }),
+    quantity: integer('quantity').notNull(),
+
+    // Which bundle the line belongs to: the bundle's component variants, so
+    // the same bundle added with different variants is priced as two
+    // bundles. Empty for regular offers.
+    bundleKey: text('bundle_key').default('').notNull(),
+
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    cartIdx: index('cart_items_cart_idx').on(table.cartId),
+    cartLineIdx: uniqueIndex('cart_items_cart_link_variant_bundle_idx').on(
+      table.cartId,
+      table.shortLinkId,
+      table.variantId,
+      table.bundleKey
+    ),
+  })
+);
+
+// Relations
+export const cartsRelations = relations(carts, ({ one, many }) => ({
+  creator: one(creators, {
+    fields: [carts.creatorId],
+    references: [creators.id],
+  }),
+  connection: one(platformConnections, {
+    fields: [carts.connectionId],
+    references: [platformConnections.id],
+  }),
+  checkoutSession: one(checkoutSessions, {
+    fields: [carts.checkoutSessionId],
+    references: [checkoutSessions.id],
+  }),
+  items: many(cartItems),
+}));
+
+export const cartItemsRelations = relations(cartItems, ({ one }) => ({
+  cart: one(carts, {
+    fields: [cartItems.cartId],
+    references: [carts.id],
+  }),
+  shortLink: one(shortLinks, {
+    fields: [cartItems.shortLinkId],
+    references: [shortLinks.id],
+  }),
+  offer: one(offers, {
+    fields: [cartItems.offerId],
+    references: [offers.id],
+  }),
+  variant: one(variants, {
+    fields: [cartItems.variantId],
+    references: [variants.id],
+  }),
+}));
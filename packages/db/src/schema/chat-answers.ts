@@ -0,0 +1,75 @@
+import { pgTable, timestamp, uuid, varchar, text, integer, boolean, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { creators } from './creators.js';
+import { products } from './products.js';
+
+// What a product question is about
+export type ChatAnswerTopic = 'size' | 'material' | 'shipping' | 'returns' | 'stock';
+
+// Product FAQ entries - the creator's own answers to common questions.
+// An entry without a product applies to every product (e.g. shipping).
+export const productFaqs = pgTable(
+  'product_faqs',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+    productId: uuid('product_id').references(() => products.id, { onDelete: 'cascade' }),
+
+    // Matched by topic, or by the words of the question when there's none
+    topic: varchar('topic', { length: 20 }).$type<ChatAnswerTopic>(),
+    question: text('question').notNull(),
+    answer: text('answer').notNull(),
+
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    creatorProductIdx: index('product_faqs_creator_product_idx').on(table.creatorId, table.productId),
+  })
+);
+
+// Chat auto-answer settings - one row per creator. Drafts only until the
+// creator turns on auto-send.
+export const chatAnswerSettings = pgTable(
+  'chat_answer_settings',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+
+    autoSend: boolean('auto_send').default(false).notNull(),
+    // Topics answered without asking; the rest stay drafts
+    autoSendTopics: jsonb('auto_send_topics').$type<ChatAnswerTopic[]>().default(['size', 'material', 'shipping', 'returns', 'stock']).notNull(),
+
+    // Rate limits for auto-sent answers
+    maxPerMinute: integer('max_per_minute').default(3).notNull(),
+    topicCooldownSeconds: integer('topic_cooldown_seconds').default(120).notNull(), // same product and topic
+
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    creatorIdx: uniqueIndex('chat_answer_settings_creator_idx').on(table.creatorId),
+  })
+);
+
+export const productFaqsRelations = relations(productFaqs, ({ one }) => ({
+  creator: one(creators, {
+    fields: [productFaqs.creatorId],
+    references: [creators.id],
+  }),
+  product: one(products, {
+    fields: [productFaqs.productId],
+    references: [products.id],
+  }),
+}));
+
+export const chatAnswerSettingsRelations = relations(chatAnswerSettings, ({ one }) => ({
+  creator: one(creators, {
+    fields: [chatAnswerSettings.creatorId],
+    references: [creators.id],
+  }),
+}));
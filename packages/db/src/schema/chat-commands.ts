@@ -0,0 +1,95 @@
+import { pgTable, timestamp, uuid, varchar, text, integer, boolean, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { creators } from './creators.js';
+import { liveSessions } from './live-sessions.js';
+import { shortLinks } from './short-links.js';
+
+// Commands viewers can type in chat, e.g. "!buy 2"
+export type ChatCommandName = 'buy' | 'price' | 'sizes' | 'link';
+
+// What happened when a viewer used a command
+export type ChatCommandOutcome =
+  | 'replied'      // Reply sent
+  | 'cooldown'     // Used again too soon, ignored
+  | 'unavailable'  // Nothing to answer with, e.g. no product spotlighted
+  | 'failed';      // Reply couldn't be sent
+
+// Chat command settings - one row per creator and command, created the first
+// time the creator changes a command. Commands without a row use the defaults.
+export const chatCommands = pgTable(
+  'chat_commands',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+    command: varchar('command', { length: 20 }).$type<ChatCommandName>().notNull(),
+
+    enabled: boolean('enabled').default(true).notNull(),
+    // Platforms where viewers get a reply
+    platforms: jsonb('platforms').$type<string[]>().default(['twitch', 'youtube']).notNull(),
+
+    // Seconds before the command answers anyone again, and the same viewer again
+    cooldownSeconds: integer('cooldown_seconds').default(10).notNull(),
+    userCooldownSeconds: integer('user_cooldown_seconds').default(60).notNull(),
+
+    // The creator's wording, with {user}, {product}, {price}... filled in.
+    // Null for the built-in reply.
+    response: text('response'),
+
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    creatorCommandIdx: uniqueIndex('chat_commands_creator_command_idx').on(table.creatorId, table.command),
+  })
+);
+
+// One row per command a viewer typed, for usage analytics
+export const chatCommandUses = pgTable(
+  'chat_command_uses',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+    liveSessionId: uuid('live_session_id').references(() => liveSessions.id, { onDelete: 'set null' }),
+
+    command: varchar('command', { length: 20 }).$type<ChatCommandName>().notNull(),
+    platform: varchar('platform', { length: 20 }).notNull(),
+    platformUserId: varchar('platform_user_id', { length: 255 }).notNull(),
+    username: varchar('username', { length: 255 }).notNull(),
+    outcome: varchar('outcome', { length: 20 }).$type<ChatCommandOutcome>().notNull(),
+
+    // The link minted for !buy and !link, to follow clicks and sales
+    shortLinkId: uuid('short_link_id').references(() => shortLinks.id, { onDelete: 'set null' }),
+
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    creatorCreatedIdx: index('chat_command_uses_creator_created_idx').on(table.creatorId, table.createdAt),
+    liveSessionIdx: index('chat_command_uses_live_session_idx').on(table.liveSessionId),
+  })
+);
+
+export const chatCommandsRelations = relations(chatCommands, ({ one }) => ({
+  creator: one(creators, {
+    fields: [chatCommands.creatorId],
+    references: [creators.id],
+  }),
+}));
+
+export const chatCommandUsesRelations = relations(chatCommandUses, ({ one }) => ({
+  creator: one(creators, {
+    fields: [chatCommandUses.creatorId],
+    references: [creators.id],
+  }),
+  liveSession: one(liveSessions, {
+    fields: [chatCommandUses.liveSessionId],
+    references: [liveSessions.id],
+  }),
+  shortLink: one(shortLinks, {
+    fields: [chatCommandUses.shortLinkId],
+    references: [shortLinks.id],
+  }),
+}));
@@ -0,0 +1,141 @@
+import { pgTable, text, timestamp, uuid, varchar, integer, boolean, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { creators } from './creators.js';
+import { liveSessions } from './live-sessions.js';
+
+// Gift attached to a chat message (TikTok gifts, Super Chats, bits)
+export interface ChatMessageGift {
+  id: string;
+  name: string;
+  value: number; // cents (USD)
+  count: number;
+  imageUrl?: string | undefined;
+}
+
+// Commerce signals the AI enrichment added to the message
+export interface ChatMessageSignals {
+  hasBuyingIntent: boolean;
+  isQuestion: boolean;
+  sentiment: 'positive' | 'neutral' | 'negative';
+  suggestedAction?: string | undefined;
+}
+
+// Chat messages - the transcript of a live session. Every normalized chat
+// message from every platform is stored against the session it arrived in.
+export const chatMessages = pgTable(
+  'chat_messages',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    liveSessionId: uuid('live_session_id')
+      .notNull()
+      .references(() => liveSessions.id, { onDelete: 'cascade' }),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+
+    // Source
+    platform: varchar('platform', { length: 20 }).notNull(),
+    externalId: varchar('external_id', { length: 255 }).notNull(), // platform message ID
+    type: varchar('type', { length: 20 }).notNull(), // chat, gift, subscription, ...
+
+    // Content
+    content: text('content').notNull(),
+    emotes: jsonb('emotes').$type<Array<{ id: string; code: string; imageUrl: string; startIndex: number; endIndex: number }>>(),
+
+    // Author
+    authorId: varchar('author_id', { length: 255 }).notNull(), // platform user ID
+    authorName: varchar('author_name', { length: 255 }).notNull(),
+    authorImageUrl: text('author_image_url'),
+    badges: jsonb('badges').$type<string[]>().default([]).notNull(),
+    isModerator: boolean('is_moderator').default(false).notNull(),
+    isSubscriber: boolean('is_subscriber').default(false).notNull(),
+    isVerified: boolean('is_verified').default(false).notNull(),
+
+    // Gifts and signals
+    gift: jsonb('gift').$type<ChatMessageGift>(),
+    giftValue: integer('gift_value').default(0).notNull(), // cents, value × count
+    signals: jsonb('signals').$type<ChatMessageSignals>(),
+
+    // When the message was sent on the platform
+    sentAt: timestamp('sent_at', { withTimezone: true }).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    sessionSentAtIdx: index('chat_messages_session_sent_at_idx').on(table.liveSessionId, table.sentAt),
+    creatorIdx: index('chat_messages_creator_idx').on(table.creatorId),
+    // Platforms can redeliver a message (reconnects, Restream + direct)
+    sessionExternalIdx: uniqueIndex('chat_messages_session_external_idx').on(
+      table.liveSessionId,
+      table.platform,
+      table.externalId
+    ),
+    contentSearchIdx: index('chat_messages_content_search_idx').using(
+      'gin',
+      sql`to_tsvector('simple', ${table.content})`
+    ),
+  })
+);
+
+// Gifts - paid gifts and donations sent in a live session (TikTok gifts, Super
+// Chats, Bits, Stars, Kicks) with the creator's estimated payout. Written from
+// the chat stream next to the transcript, once per gift message.
+export const chatGifts = pgTable(
+  'chat_gifts',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    liveSessionId: uuid('live_session_id')
+      .notNull()
+      .references(() => liveSessions.id, { onDelete: 'cascade' }),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+
+    platform: varchar('platform', { length: 20 }).notNull(),
+    externalId: varchar('external_id', { length: 255 }).notNull(), // the gift message's ID
+    senderId: varchar('sender_id', { length: 255 }).notNull(),
+    senderName: varchar('sender_name', { length: 255 }).notNull(),
+
+    giftId: varchar('gift_id', { length: 255 }).notNull(),
+    giftName: varchar('gift_name', { length: 255 }).notNull(),
+    count: integer('count').notNull(),
+    value: integer('value').notNull(), // cents, value × count
+
+    // Share of the value the platform pays out, in basis points, at the rate
+    // in force when the gift was sent
+    payoutRate: integer('payout_rate').notNull(),
+    estimatedPayout: integer('estimated_payout').notNull(), // cents
+
+    sentAt: timestamp('sent_at', { withTimezone: true }).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    sessionExternalIdx: uniqueIndex('chat_gifts_session_external_idx').on(
+      table.liveSessionId,
+      table.platform,
+      table.externalId
+    ),
+    creatorSentAtIdx: index('chat_gifts_creator_sent_at_idx').on(table.creatorId, table.sentAt),
+  })
+);
+
+export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
+  liveSession: one(liveSessions, {
+    fields: [chatMessages.liveSessionId],
+    references: [liveSessions.id],
+  }),
+  creator: one(creators, {
+    fields: [chatMessages.creatorId],
+    references: [creators.id],
+  }),
+}));
+
+export const chatGiftsRelations = relations(chatGifts, ({ one }) => ({
+  liveSession: one(liveSessions, {
+    fields: [chatGifts.liveSessionId],
+    references: [liveSessions.id],
+  }),
+  creator: one(creators, {
+    fields: [chatGifts.creatorId],
+    references: [creators.id],
+  }),
+}));
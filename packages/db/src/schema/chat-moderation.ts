@@ -0,0 +1,90 @@
+import { pgTable, timestamp, uuid, varchar, text, integer, boolean, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { creators } from './creators.js';
+
+// Why automod flagged a message
+export type ChatAutomodReason = 'blocked_term' | 'link' | 'caps' | 'spam';
+
+// What was done to the author's message
+export type ChatStrikeAction = 'deleted' | 'timeout' | 'ban';
+
+// Chat moderation settings - one row per creator. Automod uses the column
+// defaults until the creator saves their own.
+export const chatModerationSettings = pgTable(
+  'chat_moderation_settings',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+
+    // Messages containing these are removed outright (lowercase)
+    blockedTerms: jsonb('blocked_terms').$type<string[]>().default([]).notNull(),
+
+    // Messages matching these are held for a human
+    filterLinks: boolean('filter_links').default(true).notNull(),
+    allowedLinkDomains: jsonb('allowed_link_domains').$type<string[]>().default([]).notNull(),
+    filterCaps: boolean('filter_caps').default(true).notNull(),
+    filterSpam: boolean('filter_spam').default(true).notNull(),
+
+    // Strikes before automod times the author out, and for how long
+    strikeLimit: integer('strike_limit').default(3).notNull(),
+    strikeTimeoutSeconds: integer('strike_timeout_seconds').default(600).notNull(),
+
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    creatorIdx: uniqueIndex('chat_moderation_settings_creator_idx').on(table.creatorId),
+  })
+);
+
+// Chat strikes - each message of a viewer that automod or a moderator
+// removed. Counted per platform account to escalate repeat offenders.
+export const chatModerationStrikes = pgTable(
+  'chat_moderation_strikes',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+
+    // The viewer
+    platform: varchar('platform', { length: 20 }).notNull(),
+    authorId: varchar('author_id', { length: 255 }).notNull(), // platform user ID
+    authorName: varchar('author_name', { length: 255 }).notNull(),
+
+    // The offending message
+    messageId: varchar('message_id', { length: 255 }).notNull(), // platform message ID
+    content: text('content').notNull(),
+    reasons: jsonb('reasons').$type<ChatAutomodReason[]>().default([]).notNull(), // empty when a moderator acted unprompted
+
+    action: varchar('action', { length: 20 }).$type<ChatStrikeAction>().notNull(),
+    moderatorId: uuid('moderator_id'), // profile ID; null when automod acted
+
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    authorIdx: index('chat_moderation_strikes_author_idx').on(
+      table.creatorId,
+      table.platform,
+      table.authorId,
+      table.createdAt
+    ),
+    creatorCreatedIdx: index('chat_moderation_strikes_creator_created_idx').on(table.creatorId, table.createdAt),
+  })
+);
+
+export const chatModerationSettingsRelations = relations(chatModerationSettings, ({ one }) => ({
+  creator: one(creators, {
+    fields: [chatModerationSettings.creatorId],
+    references: [creators.id],
+  }),
+}));
+
+export const chatModerationStrikesRelations = relations(chatModerationStrikes, ({ one }) => ({
+  creator: one(creators, {
+    fields: [chatModerationStrikes.creatorId],
+    references: [creators.id],
+  }),
+}));
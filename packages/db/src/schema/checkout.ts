@@ -3,8 +3,11 @@ import { relations } from 'drizzle-orm';
 import { creators } from './creators.js';
 import { platformConnections } from './platform-connections.js';
 import { offers } from './offers.js';
+import { offerExperiments, offerExperimentVariants } from './experiments.js';
 import { attributionContexts } from './attribution.js';
 import { reservations } from './inventory.js';
+import { viewers } from './viewers.js';
+import { chatMessages } from './chat-messages.js';
 
 // Checkout session status
 export const checkoutStatusEnum = pgEnum('checkout_status', [
@@ -46,6 +49,12 @@ export const checkoutSessions = pgTable(
     
     // Offer applied
     offerId: uuid('offer_id').references(() => offers.id, { onDelete: 'set null' }),
+
+    // Experiment variant the visitor was assigned, if the offer was being tested
+    experimentId: uuid('experiment_id').references(() => offerExperiments.id, { onDelete: 'set null' }),
+    experimentVariantId: uuid('experiment_variant_id').references(() => offerExperimentVariants.id, {
+      onDelete: 'set null',
+    }),
     
     // Checkout backend
     connectionId: uuid('connection_id')
@@ -65,6 +74,9 @@ export const checkoutSessions = pgTable(
       quantity: number;
       price: number;
       offerPrice?: number;
+      offerId?: string;
+      shortLinkId?: string;
+      flashSaleId?: string;
     }>>().notNull(),
     
     // Totals
@@ -81,6 +93,9 @@ export const checkoutSessions = pgTable(
     visitorId: varchar('visitor_id', { length: 255 }), // fingerprint or cookie ID
     userAgent: text('user_agent'),
     ipAddress: varchar('ip_address', { length: 45 }),
+
+    // Viewer whose handle (?v=) was on the link
+    viewerId: uuid('viewer_id').references(() => viewers.id, { onDelete: 'set null' }),
     
     // Timestamps
     redirectedAt: timestamp('redirected_at', { withTimezone: true }),
@@ -98,6 +113,8 @@ export const checkoutSessions = pgTable(
       table.externalCheckoutId
     ),
     expiresAtIdx: index('checkout_sessions_expires_at_idx').on(table.expiresAt),
+    viewerIdx: index('checkout_sessions_viewer_idx').on(table.viewerId),
+    experimentIdx: index('checkout_sessions_experiment_idx').on(table.experimentId, table.experimentVariantId),
   })
 );
 
@@ -122,6 +139,12 @@ export const orders = pgTable(
       { onDelete: 'set null' }
     ),
     
+    // Chat message that drove the sale, for orders from chat reply links
+    chatMessageId: uuid('chat_message_id').references(
+      () => chatMessages.id,
+      { onDelete: 'set null' }
+    ),
+    
     // External order reference
     connectionId: uuid('connection_id')
       .notNull()
@@ -143,6 +166,8 @@ export const orders = pgTable(
     // Customer info (from order)
     customerEmail: varchar('customer_email', { length: 255 }),
     customerName: varchar('customer_name', { length: 255 }),
+    // SHA-256 of the normalized email, to follow a buyer across orders
+    customerEmailHash: varchar('customer_email_hash', { length: 64 }),
     
     // Order items snapshot
     lineItems: jsonb('line_items').$type<Array<{
@@ -151,6 +176,9 @@ export const orders = pgTable(
       title: string;
       quantity: number;
       price: number;
+      originalPrice?: number;
+      discount?: number;
+      offerId?: string;
     }>>(),
     
     // Raw webhook payload for debugging
@@ -171,6 +199,11 @@ export const orders = pgTable(
       table.externalOrderId
     ),
     statusIdx: index('orders_status_idx').on(table.status),
+    customerEmailHashIdx: index('orders_customer_email_hash_idx').on(
+      table.creatorId,
+      table.customerEmailHash,
+      table.createdAt
+    ),
   })
 );
 
@@ -192,6 +225,10 @@ export const checkoutSessionsRelations = relations(checkoutSessions, ({ one, man
     fields: [checkoutSessions.connectionId],
     references: [platformConnections.id],
   }),
+  viewer: one(viewers, {
+    fields: [checkoutSessions.viewerId],
+    references: [viewers.id],
+  }),
   reservations: many(reservations),
 }));
 
@@ -208,6 +245,10 @@ export const ordersRelations = relations(orders, ({ one }) => ({
     fields: [orders.attributionContextId],
     references: [attributionContexts.id],
   }),
+  chatMessage: one(chatMessages, {
+    fields: [orders.chatMessageId],
+    references: [chatMessages.id],
+  }),
   connection: one(platformConnections, {
     fields: [orders.connectionId],
     references: [platformConnections.id],
@@ -0,0 +1,78 @@
+import { pgTable, timestamp, uuid, varchar, integer, index } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { creators } from './creators.js';
+import { offers, offerTypeEnum } from './offers.js';
+
+export type ExperimentStatus = 'running' | 'stopped' | 'promoted';
+
+// Offer experiments - A/B tests of an offer's terms. Checkouts through the
+// offer's links are split across the variants by visitor while running.
+export const offerExperiments = pgTable(
+  'offer_experiments',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+    offerId: uuid('offer_id')
+      .notNull()
+      .references(() => offers.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 255 }).notNull(),
+    status: varchar('status', { length: 20 }).$type<ExperimentStatus>().default('running').notNull(),
+
+    // Variant written onto the offer when the experiment was promoted
+    winnerVariantId: uuid('winner_variant_id'),
+
+    startedAt: timestamp('started_at', { withTimezone: true }).defaultNow().notNull(),
+    stoppedAt: timestamp('stopped_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    creatorIdx: index('offer_experiments_creator_idx').on(table.creatorId),
+    offerStatusIdx: index('offer_experiments_offer_status_idx').on(table.offerId, table.status),
+  })
+);
+
+// Experiment variants - terms that replace the offer's own; null keeps the
+// offer's. The first variant (position 0) is the control.
+export const offerExperimentVariants = pgTable(
+  'offer_experiment_variants',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    experimentId: uuid('experiment_id')
+      .notNull()
+      .references(() => offerExperiments.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 100 }).notNull(),
+    position: integer('position').notNull(),
+    weight: integer('weight').default(1).notNull(), // Share of traffic, relative to the other variants
+
+    type: offerTypeEnum('type'),
+    value: integer('value'), // percentage (0-100) or cents
+    badgeText: varchar('badge_text', { length: 50 }),
+
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    experimentIdx: index('offer_experiment_variants_experiment_idx').on(table.experimentId, table.position),
+  })
+);
+
+export const offerExperimentsRelations = relations(offerExperiments, ({ one, many }) => ({
+  creator: one(creators, {
+    fields: [offerExperiments.creatorId],
+    references: [creators.id],
+  }),
+  offer: one(offers, {
+    fields: [offerExperiments.offerId],
+    references: [offers.id],
+  }),
+  variants: many(offerExperimentVariants),
+}));
+
+export const offerExperimentVariantsRelations = relations(offerExperimentVariants, ({ one }) => ({
+  experiment: one(offerExperiments, {
+    fields: [offerExperimentVariants.experimentId],
+    references: [offerExperiments.id],
+  }),
+}));
@@ -1,7 +1,8 @@
-import { pgTable, timestamp, uuid, integer, pgEnum, index } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, uuid, integer, pgEnum, index } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 import { creators } from './creators.js';
 import { offers } from './offers.js';
+import { shortLinks } from './short-links.js';
 
 // Flash sale status
 export const flashSaleStatusEnum = pgEnum('flash_sale_status', [
@@ -23,6 +24,10 @@ export const flashSales = pgTable(
       .notNull()
       .references(() => offers.id, { onDelete: 'cascade' }),
     
+    // Link announced to chat
+    shortLinkId: uuid('short_link_id').references(() => shortLinks.id, { onDelete: 'set null' }),
+    message: text('message'), // custom announcement text
+    
     // Discount values (percentage points)
     originalDiscount: integer('original_discount').notNull(),
     flashDiscount: integer('flash_discount').notNull(), // Additional or total discount during flash sale
@@ -45,6 +50,7 @@ export const flashSales = pgTable(
     creatorIdx: index('flash_sales_creator_idx').on(table.creatorId),
     offerIdx: index('flash_sales_offer_idx').on(table.offerId),
     statusIdx: index('flash_sales_status_idx').on(table.status),
+    startsAtIdx: index('flash_sales_starts_at_idx').on(table.startsAt),
     endsAtIdx: index('flash_sales_ends_at_idx').on(table.endsAt),
   })
 );
@@ -59,4 +65,8 @@ export const flashSalesRelations = relations(flashSales, ({ one }) => ({
     fields: [flashSales.offerId],
     references: [offers.id],
   }),
+  shortLink: one(shortLinks, {
+    fields: [flashSales.shortLinkId],
+    references: [shortLinks.id],
+  }),
 }));
@@ -5,11 +5,23 @@ export * from './platform-connections.js';
 export * from './streaming-tool-connections.js';
 export * from './products.js';
 export * from './offers.js';
+export * from './experiments.js';
 export * from './inventory.js';
 export * from './attribution.js';
 export * from './checkout.js';
+export * from './carts.js';
 export * from './live-sessions.js';
+export * from './chat-messages.js';
+export * from './chat-moderation.js';
+export * from './chat-answers.js';
+export * from './chat-commands.js';
+export * from './viewers.js';
 export * from './streams.js';
 export * from './short-links.js';
 export * from './flash-sales.js';
 export * from './events.js';
+export * from './webhooks.js';
+export * from './api-keys.js';
+export * from './team.js';
+export * from './audit.js';
+export * from './analytics-rollups.js';
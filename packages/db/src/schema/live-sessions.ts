@@ -41,6 +41,10 @@ export const liveSessions = pgTable(
     // Platform breakdown (e.g., { tiktok: 5000, youtube: 2000, twitch: 1000 })
     viewsByPlatform: jsonb('views_by_platform').$type<Record<string, number>>(),
     
+    // Commerce stats (rolled up by the worker on PURCHASE_COMPLETED)
+    ordersCount: integer('orders_count').default(0).notNull(),
+    revenueTotal: integer('revenue_total').default(0).notNull(), // cents
+    
     // Streaming tool used (if any)
     streamingToolConnectionId: uuid('streaming_tool_connection_id').references(
       () => streamingToolConnections.id,
@@ -9,6 +9,7 @@ export const platformEnum = pgEnum('platform', [
   'youtube',
   'instagram',
   'twitch',
+  'woocommerce',
 ]);
 
 // Connection health status
@@ -55,6 +55,37 @@ export const shortLinks = pgTable(
   })
 );
 
+// Why a visit to a short link didn't start a checkout
+export type LinkRejectionReason =
+  | 'link_revoked'
+  | 'link_expired' // Past its expiry or out of clicks
+  | 'offer_inactive'
+  | 'offer_expired'
+  | 'insufficient_inventory'
+  | 'unavailable'; // No product or variant to sell
+
+// Link rejections - visits to a short link turned away before a checkout
+// session was created. Successful visits are counted by clickCount.
+export const linkRejections = pgTable(
+  'link_rejections',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+    shortLinkId: uuid('short_link_id')
+      .notNull()
+      .references(() => shortLinks.id, { onDelete: 'cascade' }),
+    reason: varchar('reason', { length: 30 }).$type<LinkRejectionReason>().notNull(),
+    visitorId: varchar('visitor_id', { length: 255 }),
+    occurredAt: timestamp('occurred_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    linkIdx: index('link_rejections_link_idx').on(table.shortLinkId, table.occurredAt),
+    creatorIdx: index('link_rejections_creator_idx').on(table.creatorId, table.occurredAt),
+  })
+);
+
 // Relations
 export const shortLinksRelations = relations(shortLinks, ({ one }) => ({
   creator: one(creators, {
@@ -70,3 +101,14 @@ export const shortLinksRelations = relations(shortLinks, ({ one }) => ({
     references: [attributionContexts.id],
   }),
 }));
+
+export const linkRejectionsRelations = relations(linkRejections, ({ one }) => ({
+  creator: one(creators, {
+    fields: [linkRejections.creatorId],
+    references: [creators.id],
+  }),
+  shortLink: one(shortLinks, {
+    fields: [linkRejections.shortLinkId],
+    references: [shortLinks.id],
+  }),
+}));
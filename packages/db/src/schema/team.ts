@@ -0,0 +1,88 @@
+import { pgTable, timestamp, uuid, varchar, pgEnum, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { profiles } from './profiles.js';
+
+// Roles a team member can hold on a creator account
+export const teamRoleEnum = pgEnum('team_role', [
+  'owner',
+  'manager',
+  'producer',
+  'moderator',
+  'analyst',
+]);
+
+// Team members - people who can act on a creator account besides the creator
+export const teamMembers = pgTable(
+  'team_members',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    
+    // The account being shared (the owner's profile)
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => profiles.id, { onDelete: 'cascade' }),
+    
+    // The member's own login
+    profileId: uuid('profile_id')
+      .notNull()
+      .references(() => profiles.id, { onDelete: 'cascade' }),
+    
+    role: teamRoleEnum('role').notNull(),
+    invitedBy: uuid('invited_by').references(() => profiles.id, { onDelete: 'set null' }),
+    
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    creatorIdx: index('team_members_creator_idx').on(table.creatorId),
+    profileIdx: index('team_members_profile_idx').on(table.profileId),
+    creatorProfileIdx: uniqueIndex('team_members_creator_profile_idx').on(table.creatorId, table.profileId),
+  })
+);
+
+// Team invitations - pending until accepted by someone logged in with the invited email
+export const teamInvitations = pgTable(
+  'team_invitations',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => profiles.id, { onDelete: 'cascade' }),
+    
+    email: varchar('email', { length: 255 }).notNull(),
+    role: teamRoleEnum('role').notNull(),
+    
+    // SHA-256 of the invitation token (the token itself is only in the invite link)
+    tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+    
+    invitedBy: uuid('invited_by').references(() => profiles.id, { onDelete: 'set null' }),
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    acceptedAt: timestamp('accepted_at', { withTimezone: true }),
+    revokedAt: timestamp('revoked_at', { withTimezone: true }),
+    
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    creatorIdx: index('team_invitations_creator_idx').on(table.creatorId),
+    emailIdx: index('team_invitations_email_idx').on(table.email),
+  })
+);
+
+// Relations
+export const teamMembersRelations = relations(teamMembers, ({ one }) => ({
+  creator: one(profiles, {
+    fields: [teamMembers.creatorId],
+    references: [profiles.id],
+  }),
+  profile: one(profiles, {
+    fields: [teamMembers.profileId],
+    references: [profiles.id],
+  }),
+}));
+
+export const teamInvitationsRelations = relations(teamInvitations, ({ one }) => ({
+  creator: one(profiles, {
+    fields: [teamInvitations.creatorId],
+    references: [profiles.id],
+  }),
+}));
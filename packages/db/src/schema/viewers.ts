@@ -0,0 +1,154 @@
+import { pgTable, timestamp, uuid, varchar, text, integer, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { creators } from './creators.js';
+import { liveSessions } from './live-sessions.js';
+import { products } from './products.js';
+
+// Viewers - one person in a creator's audience. Chat accounts on any platform
+// point at a viewer, and checkouts reach it through the viewer's handle
+// (carried on links as ?v=). Spend and attendance are rolled up here.
+export const viewers = pgTable(
+  'viewers',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+
+    // Short public ID for links, e.g. /go/abc123?v=k3x9m2qa
+    handle: varchar('handle', { length: 16 }).notNull().unique(),
+    displayName: varchar('display_name', { length: 255 }).notNull(),
+
+    // Learned from the first order; links the viewer to later orders
+    // without a handle and merges viewers who buy with the same email
+    email: varchar('email', { length: 255 }),
+
+    // Rollups
+    ordersCount: integer('orders_count').default(0).notNull(),
+    lifetimeSpend: integer('lifetime_spend').default(0).notNull(), // cents
+    sessionsAttended: integer('sessions_attended').default(0).notNull(),
+
+    firstSeenAt: timestamp('first_seen_at', { withTimezone: true }).defaultNow().notNull(),
+    lastSeenAt: timestamp('last_seen_at', { withTimezone: true }).defaultNow().notNull(),
+    lastPurchaseAt: timestamp('last_purchase_at', { withTimezone: true }),
+
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    creatorIdx: index('viewers_creator_idx').on(table.creatorId, table.lifetimeSpend),
+    creatorEmailIdx: index('viewers_creator_email_idx').on(table.creatorId, table.email),
+  })
+);
+
+// A viewer's account on one chat platform
+export const viewerIdentities = pgTable(
+  'viewer_identities',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    viewerId: uuid('viewer_id')
+      .notNull()
+      .references(() => viewers.id, { onDelete: 'cascade' }),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+
+    platform: varchar('platform', { length: 20 }).notNull(),
+    platformUserId: varchar('platform_user_id', { length: 255 }).notNull(),
+    username: varchar('username', { length: 255 }).notNull(),
+    profileImageUrl: text('profile_image_url'),
+
+    firstSeenAt: timestamp('first_seen_at', { withTimezone: true }).defaultNow().notNull(),
+    lastSeenAt: timestamp('last_seen_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    platformUserIdx: uniqueIndex('viewer_identities_platform_user_idx').on(
+      table.creatorId,
+      table.platform,
+      table.platformUserId
+    ),
+    viewerIdx: index('viewer_identities_viewer_idx').on(table.viewerId),
+  })
+);
+
+// Live sessions a viewer chatted in
+export const viewerSessions = pgTable(
+  'viewer_sessions',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    viewerId: uuid('viewer_id')
+      .notNull()
+      .references(() => viewers.id, { onDelete: 'cascade' }),
+    liveSessionId: uuid('live_session_id')
+      .notNull()
+      .references(() => liveSessions.id, { onDelete: 'cascade' }),
+
+    messageCount: integer('message_count').default(0).notNull(),
+    firstSeenAt: timestamp('first_seen_at', { withTimezone: true }).defaultNow().notNull(),
+    lastSeenAt: timestamp('last_seen_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    viewerSessionIdx: uniqueIndex('viewer_sessions_viewer_session_idx').on(table.viewerId, table.liveSessionId),
+    liveSessionIdx: index('viewer_sessions_live_session_idx').on(table.liveSessionId),
+  })
+);
+
+// Products a viewer bought, rolled up from their orders
+export const viewerProducts = pgTable(
+  'viewer_products',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    viewerId: uuid('viewer_id')
+      .notNull()
+      .references(() => viewers.id, { onDelete: 'cascade' }),
+    productId: uuid('product_id')
+      .notNull()
+      .references(() => products.id, { onDelete: 'cascade' }),
+
+    quantity: integer('quantity').default(0).notNull(),
+    revenue: integer('revenue').default(0).notNull(), // cents
+    lastPurchasedAt: timestamp('last_purchased_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    viewerProductIdx: uniqueIndex('viewer_products_viewer_product_idx').on(table.viewerId, table.productId),
+  })
+);
+
+export const viewersRelations = relations(viewers, ({ one, many }) => ({
+  creator: one(creators, {
+    fields: [viewers.creatorId],
+    references: [creators.id],
+  }),
+  identities: many(viewerIdentities),
+  sessions: many(viewerSessions),
+  products: many(viewerProducts),
+}));
+
+export const viewerIdentitiesRelations = relations(viewerIdentities, ({ one }) => ({
+  viewer: one(viewers, {
+    fields: [viewerIdentities.viewerId],
+    references: [viewers.id],
+  }),
+}));
+
+export const viewerSessionsRelations = relations(viewerSessions, ({ one }) => ({
+  viewer: one(viewers, {
+    fields: [viewerSessions.viewerId],
+    references: [viewers.id],
+  }),
+  liveSession: one(liveSessions, {
+    fields: [viewerSessions.liveSessionId],
+    references: [liveSessions.id],
+  }),
+}));
+
+export const viewerProductsRelations = relations(viewerProducts, ({ one }) => ({
+  viewer: one(viewers, {
+    fields: [viewerProducts.viewerId],
+    references: [viewers.id],
+  }),
+  product: one(products, {
+    fields: [viewerProducts.productId],
+    references: [products.id],
+  }),
+}));
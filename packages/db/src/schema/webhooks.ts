@@ -0,0 +1,97 @@
+import { pgTable, text, timestamp, uuid, varchar, integer, boolean, jsonb, pgEnum, index } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { creators } from './creators.js';
+
+// Webhook delivery status
+export const webhookDeliveryStatusEnum = pgEnum('webhook_delivery_status', [
+  'pending',
+  'succeeded',
+  'failed',
+]);
+
+// Webhook endpoints - creator-owned URLs that receive events from the event log
+export const webhookEndpoints = pgTable(
+  'webhook_endpoints',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+    
+    url: text('url').notNull(),
+    description: varchar('description', { length: 255 }),
+    
+    // Event types to deliver (empty = all events)
+    eventTypes: jsonb('event_types').$type<string[]>().default([]).notNull(),
+    
+    // Signing secret (encrypted, shown to the creator once on create)
+    secret: text('secret').notNull(),
+    
+    isActive: boolean('is_active').default(true).notNull(),
+    
+    // Health
+    lastDeliveryAt: timestamp('last_delivery_at', { withTimezone: true }),
+    consecutiveFailures: integer('consecutive_failures').default(0).notNull(),
+    
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    creatorIdx: index('webhook_endpoints_creator_idx').on(table.creatorId),
+  })
+);
+
+// Webhook deliveries - one row per event sent to an endpoint (and per redelivery)
+export const webhookDeliveries = pgTable(
+  'webhook_deliveries',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    endpointId: uuid('endpoint_id')
+      .notNull()
+      .references(() => webhookEndpoints.id, { onDelete: 'cascade' }),
+    creatorId: uuid('creator_id')
+      .notNull()
+      .references(() => creators.id, { onDelete: 'cascade' }),
+    
+    // Event being delivered (event_log.event_id)
+    eventId: varchar('event_id', { length: 255 }).notNull(),
+    eventType: varchar('event_type', { length: 100 }).notNull(),
+    
+    // Set when this delivery was triggered manually from an earlier one
+    redeliveryOf: uuid('redelivery_of'),
+    
+    // Result
+    status: webhookDeliveryStatusEnum('status').default('pending').notNull(),
+    attempts: integer('attempts').default(0).notNull(),
+    responseStatus: integer('response_status'),
+    responseBody: text('response_body'), // truncated
+    error: text('error'),
+    durationMs: integer('duration_ms'),
+    deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+    
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    endpointIdx: index('webhook_deliveries_endpoint_idx').on(table.endpointId),
+    eventIdx: index('webhook_deliveries_event_idx').on(table.eventId),
+    statusIdx: index('webhook_deliveries_status_idx').on(table.status),
+    createdAtIdx: index('webhook_deliveries_created_at_idx').on(table.createdAt),
+  })
+);
+
+// Relations
+export const webhookEndpointsRelations = relations(webhookEndpoints, ({ one, many }) => ({
+  creator: one(creators, {
+    fields: [webhookEndpoints.creatorId],
+    references: [creators.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  endpoint: one(webhookEndpoints, {
+    fields: [webhookDeliveries.endpointId],
+    references: [webhookEndpoints.id],
+  }),
+}));
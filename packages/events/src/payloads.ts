@@ -4,14 +4,14 @@ import { EVENT_TYPES, type EventType, type BaseEvent } from './types.js';
 // Platform connection payloads
 export const platformConnectedPayloadSchema = z.object({
   connectionId: z.string().uuid(),
-  platform: z.enum(['shopify', 'tiktok', 'youtube', 'instagram', 'twitch']),
+  platform: z.enum(['shopify', 'tiktok', 'youtube', 'instagram', 'twitch', 'woocommerce']),
   externalId: z.string().nullable(),
   displayName: z.string().nullable(),
 });
 
 export const platformDisconnectedPayloadSchema = z.object({
   connectionId: z.string().uuid(),
-  platform: z.enum(['shopify', 'tiktok', 'youtube', 'instagram', 'twitch']),
+  platform: z.enum(['shopify', 'tiktok', 'youtube', 'instagram', 'twitch', 'woocommerce']),
   reason: z.string().optional(),
 });
 
@@ -52,11 +52,17 @@ export const offerDeactivatedPayloadSchema = z.object({
   reason: z.enum(['manual', 'expired', 'limit_reached']),
 });
 
+export const offerExpiredPayloadSchema = z.object({
+  offerId: z.string().uuid(),
+  name: z.string().optional(),
+  expiredAt: z.coerce.date().optional(),
+});
+
 // Stream payloads
 export const streamCreatedPayloadSchema = z.object({
   streamId: z.string().uuid(),
   title: z.string().nullable(),
-  platform: z.enum(['shopify', 'tiktok', 'youtube', 'instagram', 'twitch']).nullable(),
+  platform: z.enum(['shopify', 'tiktok', 'youtube', 'instagram', 'twitch', 'woocommerce']).nullable(),
   source: z.enum(['auto_detected', 'manual']),
 });
 
@@ -166,6 +172,7 @@ export type EventPayloads = {
   [EVENT_TYPES.OFFER_CREATED]: z.infer<typeof offerCreatedPayloadSchema>;
   [EVENT_TYPES.OFFER_ACTIVATED]: z.infer<typeof offerActivatedPayloadSchema>;
   [EVENT_TYPES.OFFER_DEACTIVATED]: z.infer<typeof offerDeactivatedPayloadSchema>;
+  [EVENT_TYPES.OFFER_EXPIRED]: z.infer<typeof offerExpiredPayloadSchema>;
   [EVENT_TYPES.STREAM_CREATED]: z.infer<typeof streamCreatedPayloadSchema>;
   [EVENT_TYPES.STREAM_AUTO_DETECTED]: z.infer<typeof streamAutoDetectedPayloadSchema>;
   [EVENT_TYPES.STREAM_STARTED]: z.infer<typeof streamStartedPayloadSchema>;
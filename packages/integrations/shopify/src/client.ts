@@ -92,6 +92,13 @@ export class ShopifyClient {
     return data.order;
   }
 
+  async cancelOrder(id: number, reason: string = 'other'): Promise<void> {
+    await this.request(`/orders/${id}/cancel.json`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
   // Inventory
   async getInventoryLevels(inventoryItemIds: number[]): Promise<Array<{
     inventory_item_id: number;
@@ -438,6 +438,24 @@ export async function createProduct(
   return stripe.products.create(params);
 }
 
+/**
+ * List active products with their default price expanded
+ */
+export async function listProducts(): Promise<Stripe.Product[]> {
+  const stripe = getStripe();
+  const products: Stripe.Product[] = [];
+
+  for await (const product of stripe.products.list({
+    active: true,
+    limit: 100,
+    expand: ['data.default_price'],
+  })) {
+    products.push(product);
+  }
+
+  return products;
+}
+
 /**
  * Create a price for a product
  */
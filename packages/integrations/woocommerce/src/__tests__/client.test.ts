@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import { WooCommerceClient } from '../client.js';
+import { toCatalogProduct, UNMANAGED_STOCK_QUANTITY } from '../mapping.js';
+import { verifyWebhookSignature, parseWebhookHeaders } from '../webhooks.js';
+import type { WooProduct, WooVariation } from '../types.js';
+
+/**
+ * WooCommerce Client Tests
+ *
+ * These tests run the client against a local mock WooCommerce server and verify that:
+ * 1. Requests carry REST-key Basic auth and products are paged via X-WP-TotalPages
+ * 2. Variable products map to one variant per variation, simple products to one variant
+ * 3. Pending orders are created with our checkout session in meta_data
+ * 4. Webhook signatures are verified against the raw body
+ */
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization: string | undefined;
+  body: unknown;
+}
+
+function createProduct(overrides: Partial<WooProduct> = {}): WooProduct {
+  return {
+    id: 10,
+    name: 'Glow Serum',
+    slug: 'glow-serum',
+    type: 'simple',
+    status: 'publish',
+    description: '<p>Serum</p>',
+    short_description: '',
+    sku: 'GLOW-1',
+    price: '24.00',
+    regular_price: '30.00',
+    sale_price: '24.00',
+    manage_stock: true,
+    stock_quantity: 12,
+    stock_status: 'instock',
+    backorders: 'no',
+    weight: '0.2',
+    categories: [{ id: 1, name: 'Skincare' }],
+    tags: [],
+    images: [{ id: 5, src: 'https://shop.test/serum.jpg' }],
+    variations: [],
+    ...overrides,
+  };
+}
+
+function createVariation(overrides: Partial<WooVariation> = {}): WooVariation {
+  return {
+    id: 101,
+    sku: 'TEE-S',
+    price: '20.00',
+    regular_price: '20.00',
+    sale_price: '',
+    status: 'publish',
+    manage_stock: true,
+    stock_quantity: 3,
+    stock_status: 'instock',
+    backorders: 'no',
+    weight: '',
+    image: null,
+    attributes: [{ name: 'Size', option: 'S' }],
+    ...overrides,
+  };
+}
+
+describe('WooCommerce Client', () => {
+  let server: http.Server;
+  let storeUrl: string;
+  let requests: RecordedRequest[] = [];
+
+  const productPages: WooProduct[][] = [
+    [createProduct({ id: 1 }), createProduct({ id: 2 })],
+    [createProduct({ id: 3 })],
+  ];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => { raw += chunk; });
+      req.on('end', () => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        requests.push({
+          method: req.method ?? 'GET',
+          url: url.pathname + url.search,
+          authorization: req.headers.authorization,
+          body: raw ? JSON.parse(raw) : null,
+        });
+
+        res.setHeader('Content-Type', 'application/json');
+
+        if (url.pathname === '/wp-json/wc/v3/products') {
+          const page = Number(url.searchParams.get('page') ?? '1');
+          res.setHeader('X-WP-TotalPages', String(productPages.length));
+          res.end(JSON.stringify(productPages[page - 1] ?? []));
+          return;
+        }
+
+        if (url.pathname === '/wp-json/wc/v3/orders' && req.method === 'POST') {
+          res.statusCode = 201;
+          res.end(JSON.stringify({ id: 555, payment_url: 'https://shop.test/checkout/order-pay/555/?key=wc_order_x' }));
+          return;
+        }
+
+        res.statusCode = 404;
+        res.end(JSON.stringify({ code: 'rest_no_route' }));
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    storeUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const createClient = () => new WooCommerceClient({
+    storeUrl,
+    consumerKey: 'ck_test',
+    consumerSecret: 'cs_test',
+  });
+
+  it('should authenticate with REST keys and follow X-WP-TotalPages', async () => {
+    const products = await createClient().getAllProducts();
+
+    expect(products.map((p) => p.id)).toEqual([1, 2, 3]);
+    expect(requests).toHaveLength(2);
+    expect(requests[0]?.url).toContain('/wp-json/wc/v3/products?page=1');
+    expect(requests[1]?.url).toContain('page=2');
+    expect(requests[0]?.authorization).toBe(
+      `Basic ${Buffer.from('ck_test:cs_test').toString('base64')}`
+    );
+  });
+
+  it('should create a pending order tagged with the checkout session', async () => {
+    const order = await createClient().createOrder({
+      lines: [{ productId: 20, variationId: 101, quantity: 2, subtotal: '40.00', total: '32.00' }],
+      metadata: { _unifyed_checkout_session_id: 'cs-1' },
+    });
+
+    expect(order.payment_url).toContain('order-pay/555');
+    expect(requests[0]?.method).toBe('POST');
+    expect(requests[0]?.body).toEqual({
+      status: 'pending',
+      set_paid: false,
+      line_items: [{ product_id: 20, variation_id: 101, quantity: 2, subtotal: '40.00', total: '32.00' }],
+      meta_data: [{ key: '_unifyed_checkout_session_id', value: 'cs-1' }],
+    });
+  });
+
+  it('should surface API errors', async () => {
+    await expect(createClient().getOrder(999)).rejects.toThrow('WooCommerce API error: 404');
+  });
+});
+
+describe('WooCommerce Catalog Mapping', () => {
+  it('should map a simple product to a single variant keyed by product ID', () => {
+    const mapped = toCatalogProduct(createProduct(), [], 'EUR');
+
+    expect(mapped.externalId).toBe('10');
+    expect(mapped.variants).toHaveLength(1);
+    expect(mapped.variants[0]).toMatchObject({
+      externalId: '10',
+      price: 2400,
+      compareAtPrice: 3000,
+      currency: 'EUR',
+      inventoryQuantity: 12,
+      inventoryPolicy: 'deny',
+    });
+  });
+
+  it('should map variations and inherit parent stock when managed by the parent', () => {
+    const product = createProduct({ id: 20, type: 'variable', stock_quantity: 7, variations: [101, 102] });
+    const mapped = toCatalogProduct(product, [
+      createVariation(),
+      createVariation({ id: 102, manage_stock: 'parent', stock_quantity: null, attributes: [{ name: 'Size', option: 'M' }] }),
+    ], 'USD');
+
+    expect(mapped.variants.map((v) => [v.externalId, v.title, v.inventoryQuantity])).toEqual([
+      ['101', 'S', 3],
+      ['102', 'M', 7],
+    ]);
+  });
+
+  it('should treat untracked in-stock items as available', () => {
+    const mapped = toCatalogProduct(createProduct({ manage_stock: false, stock_quantity: null }), [], 'USD');
+    expect(mapped.variants[0]?.inventoryQuantity).toBe(UNMANAGED_STOCK_QUANTITY);
+  });
+});
+
+describe('WooCommerce Webhooks', () => {
+  const secret = 'whsec_test';
+  const body = JSON.stringify({ id: 555, status: 'processing' });
+  const signature = crypto.createHmac('sha256', secret).update(body).digest('base64');
+
+  it('should verify signatures over the raw body', () => {
+    expect(verifyWebhookSignature(body, signature, secret)).toBe(true);
+    expect(verifyWebhookSignature(body + ' ', signature, secret)).toBe(false);
+    expect(verifyWebhookSignature(body, signature, 'other')).toBe(false);
+  });
+
+  it('should require signature, topic, source and webhook ID headers', () => {
+    const headers = {
+      'x-wc-webhook-signature': signature,
+      'x-wc-webhook-topic': 'order.updated',
+      'x-wc-webhook-source': 'https://shop.test/',
+      'x-wc-webhook-id': '7',
+    };
+
+    expect(parseWebhookHeaders(headers)).toEqual({
+      signature,
+      topic: 'order.updated',
+      source: 'https://shop.test/',
+      webhookId: '7',
+      deliveryId: null,
+    });
+    expect(parseWebhookHeaders({ ...headers, 'x-wc-webhook-topic': undefined })).toBeNull();
+  });
+});
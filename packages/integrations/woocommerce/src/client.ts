@@ -0,0 +1,187 @@
+import type { WooProduct, WooVariation, WooOrder, WooOrderLineInput } from './types.js';
+
+export interface WooCommerceClientConfig {
+  storeUrl: string;
+  consumerKey: string;
+  consumerSecret: string;
+}
+
+const PAGE_SIZE = 100;
+
+export class WooCommerceClient {
+  private readonly baseUrl: string;
+  private readonly authorization: string;
+
+  constructor(config: WooCommerceClientConfig) {
+    this.baseUrl = `${config.storeUrl.replace(/\/+$/, '')}/wp-json/wc/v3`;
+    this.authorization = `Basic ${Buffer.from(
+      `${config.consumerKey}:${config.consumerSecret}`
+    ).toString('base64')}`;
+  }
+
+  private async request<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<{ data: T; totalPages: number }> {
+    const url = `${this.baseUrl}${endpoint}`;
+
+    const response = await fetch(url, {
+      ...options,
+      headers: {
+        Authorization: this.authorization,
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`WooCommerce API error: ${response.status} - ${error}`);
+    }
+
+    const totalPages = Number(response.headers.get('x-wp-totalpages') ?? '1');
+
+    return {
+      data: (await response.json()) as T,
+      totalPages: Number.isFinite(totalPages) && totalPages > 0 ? totalPages : 1,
+    };
+  }
+
+  // Store
+  async getCurrency(): Promise<string> {
+    const { data } = await this.request<{ code: string }>('/data/currencies/current');
+    return data.code;
+  }
+
+  // Products
+  async getProducts(params?: {
+    page?: number;
+    perPage?: number;
+  }): Promise<{ products: WooProduct[]; totalPages: number }> {
+    const searchParams = new URLSearchParams({
+      page: String(params?.page ?? 1),
+      per_page: String(params?.perPage ?? PAGE_SIZE),
+      status: 'publish',
+    });
+
+    const { data, totalPages } = await this.request<WooProduct[]>(`/products?${searchParams}`);
+    return { products: data, totalPages };
+  }
+
+  async getAllProducts(): Promise<WooProduct[]> {
+    const all: WooProduct[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const result = await this.getProducts({ page });
+      all.push(...result.products);
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return all;
+  }
+
+  async getProduct(id: number): Promise<WooProduct> {
+    const { data } = await this.request<WooProduct>(`/products/${id}`);
+    return data;
+  }
+
+  async getProductVariations(productId: number): Promise<WooVariation[]> {
+    const all: WooVariation[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const searchParams = new URLSearchParams({
+        page: String(page),
+        per_page: String(PAGE_SIZE),
+      });
+      const result = await this.request<WooVariation[]>(
+        `/products/${productId}/variations?${searchParams}`
+      );
+      all.push(...result.data);
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return all;
+  }
+
+  async getProductVariation(productId: number, variationId: number): Promise<WooVariation> {
+    const { data } = await this.request<WooVariation>(`/products/${productId}/variations/${variationId}`);
+    return data;
+  }
+
+  // Orders
+  async getOrder(id: number): Promise<WooOrder> {
+    const { data } = await this.request<WooOrder>(`/orders/${id}`);
+    return data;
+  }
+
+  /**
+   * Create an unpaid order. The customer pays for it at `payment_url`, and
+   * WooCommerce moves it to processing once payment succeeds.
+   */
+  async createOrder(params: {
+    lines: WooOrderLineInput[];
+    metadata?: Record<string, string>;
+  }): Promise<WooOrder> {
+    const { data } = await this.request<WooOrder>('/orders', {
+      method: 'POST',
+      body: JSON.stringify({
+        status: 'pending',
+        set_paid: false,
+        line_items: params.lines.map((line) => ({
+          product_id: line.productId,
+          ...(line.variationId ? { variation_id: line.variationId } : {}),
+          quantity: line.quantity,
+          subtotal: line.subtotal,
+          total: line.total,
+        })),
+        meta_data: Object.entries(params.metadata ?? {}).map(([key, value]) => ({ key, value })),
+      }),
+    });
+    return data;
+  }
+
+  async cancelOrder(id: number): Promise<WooOrder> {
+    const { data } = await this.request<WooOrder>(`/orders/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ status: 'cancelled' }),
+    });
+    return data;
+  }
+
+  // Webhooks
+  async createWebhook(params: {
+    topic: string;
+    deliveryUrl: string;
+    secret: string;
+    name?: string;
+  }): Promise<{ id: number }> {
+    const { data } = await this.request<{ id: number }>('/webhooks', {
+      method: 'POST',
+      body: JSON.stringify({
+        name: params.name ?? `Unifyed ${params.topic}`,
+        topic: params.topic,
+        delivery_url: params.deliveryUrl,
+        secret: params.secret,
+        status: 'active',
+      }),
+    });
+    return { id: data.id };
+  }
+
+  async deleteWebhook(id: number): Promise<void> {
+    await this.request(`/webhooks/${id}?force=true`, { method: 'DELETE' });
+  }
+
+  async listWebhooks(): Promise<Array<{ id: number; topic: string; delivery_url: string }>> {
+    const { data } = await this.request<Array<{ id: number; topic: string; delivery_url: string }>>(
+      `/webhooks?per_page=${PAGE_SIZE}`
+    );
+    return data;
+  }
+}
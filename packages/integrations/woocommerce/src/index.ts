@@ -0,0 +1,4 @@
+export * from './client.js';
+export * from './types.js';
+export * from './mapping.js';
+export * from './webhooks.js';
@@ -0,0 +1,145 @@
+import type { WooProduct, WooVariation } from './types.js';
+
+// Stock we assume for items whose stock WooCommerce does not track. Reservations
+// still hold against it, so a live spike cannot claim more than this at once.
+export const UNMANAGED_STOCK_QUANTITY = 1000;
+
+export interface WooCatalogVariant {
+  externalId: string;
+  title: string;
+  sku: string | null;
+  price: number; // cents
+  compareAtPrice: number | null; // cents
+  currency: string;
+  inventoryQuantity: number;
+  inventoryPolicy: string;
+  option1: string | null;
+  option2: string | null;
+  option3: string | null;
+  imageUrl: string | null;
+  weight: string | null;
+  isActive: boolean;
+}
+
+export interface WooCatalogProduct {
+  externalId: string;
+  title: string;
+  description: string | null;
+  productType: string;
+  imageUrl: string | null;
+  images: string[];
+  sourceMetadata: Record<string, unknown>;
+  variants: WooCatalogVariant[];
+}
+
+/**
+ * Convert a WooCommerce decimal price string to cents
+ */
+export function toCents(price: string): number {
+  const value = parseFloat(price);
+  return Number.isFinite(value) ? Math.round(value * 100) : 0;
+}
+
+/**
+ * Convert cents to the decimal string WooCommerce expects
+ */
+export function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+interface StockFields {
+  manage_stock: boolean | 'parent';
+  stock_quantity: number | null;
+  stock_status: string;
+  backorders: string;
+}
+
+/**
+ * Map WooCommerce stock fields to our inventory quantity and policy.
+ * Variations with manage_stock 'parent' share the parent product's stock.
+ */
+export function toInventory(
+  item: StockFields,
+  parent?: StockFields
+): { inventoryQuantity: number; inventoryPolicy: string } {
+  const source = item.manage_stock === 'parent' && parent ? parent : item;
+  const inventoryPolicy = source.backorders === 'no' ? 'deny' : 'continue';
+
+  if (source.manage_stock === true) {
+    return { inventoryQuantity: Math.max(0, source.stock_quantity ?? 0), inventoryPolicy };
+  }
+
+  return {
+    inventoryQuantity: source.stock_status === 'outofstock' ? 0 : UNMANAGED_STOCK_QUANTITY,
+    inventoryPolicy,
+  };
+}
+
+function toCompareAtPrice(item: { price: string; regular_price: string }): number | null {
+  if (!item.regular_price) return null;
+  const regular = toCents(item.regular_price);
+  return regular > toCents(item.price) ? regular : null;
+}
+
+/**
+ * Map a WooCommerce product (and its variations, for variable products) to the
+ * canonical catalog shape. Simple products become a single variant whose
+ * external ID is the product ID; variable products get one variant per variation.
+ */
+export function toCatalogProduct(
+  product: WooProduct,
+  productVariations: WooVariation[],
+  currency: string
+): WooCatalogProduct {
+  const images = product.images.map((img) => img.src);
+
+  const variants: WooCatalogVariant[] = product.type === 'variable'
+    ? productVariations.map((variation) => {
+        const options = variation.attributes.map((attr) => attr.option);
+        return {
+          externalId: String(variation.id),
+          title: options.join(' / ') || product.name,
+          sku: variation.sku || null,
+          price: toCents(variation.price),
+          compareAtPrice: toCompareAtPrice(variation),
+          currency,
+          ...toInventory(variation, product),
+          option1: options[0] ?? null,
+          option2: options[1] ?? null,
+          option3: options[2] ?? null,
+          imageUrl: variation.image?.src ?? images[0] ?? null,
+          weight: variation.weight || null,
+          isActive: variation.status === 'publish',
+        };
+      })
+    : [{
+        externalId: String(product.id),
+        title: 'Default Title',
+        sku: product.sku || null,
+        price: toCents(product.price),
+        compareAtPrice: toCompareAtPrice(product),
+        currency,
+        ...toInventory(product),
+        option1: null,
+        option2: null,
+        option3: null,
+        imageUrl: images[0] ?? null,
+        weight: product.weight || null,
+        isActive: true,
+      }];
+
+  return {
+    externalId: String(product.id),
+    title: product.name,
+    description: product.description || null,
+    productType: product.type,
+    imageUrl: images[0] ?? null,
+    images,
+    sourceMetadata: {
+      slug: product.slug,
+      categories: product.categories.map((c) => c.name),
+      tags: product.tags.map((t) => t.name),
+    },
+    variants,
+  };
+}
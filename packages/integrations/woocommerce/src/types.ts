@@ -0,0 +1,130 @@
+import { z } from 'zod';
+
+// WooCommerce REST API keys (generated in WooCommerce > Settings > Advanced > REST API)
+export const wooCommerceCredentialsSchema = z.object({
+  storeUrl: z.string().url(),
+  consumerKey: z.string().startsWith('ck_'),
+  consumerSecret: z.string().startsWith('cs_'),
+  // Secret we set on the webhooks we register, used to verify deliveries
+  webhookSecret: z.string().optional(),
+});
+
+export type WooCommerceCredentials = z.infer<typeof wooCommerceCredentialsSchema>;
+
+// Image
+const wooImageSchema = z.object({
+  id: z.number(),
+  src: z.string(),
+});
+
+// Attribute on a variation (e.g. { name: 'Size', option: 'M' })
+const wooVariationAttributeSchema = z.object({
+  name: z.string(),
+  option: z.string(),
+});
+
+// WooCommerce product
+export const wooProductSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  slug: z.string(),
+  type: z.string(), // simple, variable, grouped, external
+  status: z.string(), // publish, draft, pending, private
+  description: z.string(),
+  short_description: z.string(),
+  sku: z.string(),
+  price: z.string(),
+  regular_price: z.string(),
+  sale_price: z.string(),
+  manage_stock: z.boolean(),
+  stock_quantity: z.number().nullable(),
+  stock_status: z.string(), // instock, outofstock, onbackorder
+  backorders: z.string(), // no, notify, yes
+  weight: z.string(),
+  categories: z.array(z.object({ id: z.number(), name: z.string() })),
+  tags: z.array(z.object({ id: z.number(), name: z.string() })),
+  images: z.array(wooImageSchema),
+  variations: z.array(z.number()),
+});
+
+export type WooProduct = z.infer<typeof wooProductSchema>;
+
+// WooCommerce product variation
+export const wooVariationSchema = z.object({
+  id: z.number(),
+  parent_id: z.number().optional(), // present in webhook payloads
+  sku: z.string(),
+  price: z.string(),
+  regular_price: z.string(),
+  sale_price: z.string(),
+  status: z.string(),
+  manage_stock: z.union([z.boolean(), z.literal('parent')]),
+  stock_quantity: z.number().nullable(),
+  stock_status: z.string(),
+  backorders: z.string(),
+  weight: z.string(),
+  image: wooImageSchema.nullable(),
+  attributes: z.array(wooVariationAttributeSchema),
+});
+
+export type WooVariation = z.infer<typeof wooVariationSchema>;
+
+// WooCommerce order
+export const wooOrderSchema = z.object({
+  id: z.number(),
+  number: z.string(),
+  status: z.string(), // pending, processing, on-hold, completed, cancelled, refunded, failed
+  currency: z.string(),
+  date_created_gmt: z.string(),
+  discount_total: z.string(),
+  shipping_total: z.string(),
+  total: z.string(),
+  total_tax: z.string(),
+  customer_note: z.string(),
+  payment_url: z.string().optional(),
+  billing: z.object({
+    first_name: z.string(),
+    last_name: z.string(),
+    email: z.string(),
+  }),
+  line_items: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    product_id: z.number(),
+    variation_id: z.number(),
+    quantity: z.number(),
+    subtotal: z.string(),
+    total: z.string(),
+    price: z.number(),
+  })),
+  meta_data: z.array(z.object({
+    key: z.string(),
+    value: z.unknown(),
+  })),
+});
+
+export type WooOrder = z.infer<typeof wooOrderSchema>;
+
+// Order line for creating an order. Totals are decimal strings in store currency.
+export interface WooOrderLineInput {
+  productId: number;
+  variationId?: number;
+  quantity: number;
+  subtotal: string;
+  total: string;
+}
+
+// Webhook topics we subscribe to
+export const WOOCOMMERCE_WEBHOOK_TOPICS = [
+  'order.created',
+  'order.updated',
+  'product.updated',
+] as const;
+
+export type WooCommerceWebhookTopic = (typeof WOOCOMMERCE_WEBHOOK_TOPICS)[number];
+
+// Order statuses that mean the customer has paid
+export const WOOCOMMERCE_PAID_ORDER_STATUSES = ['processing', 'completed'] as const;
+
+// Meta key linking a WooCommerce order to our checkout session
+export const CHECKOUT_SESSION_META_KEY = '_unifyed_checkout_session_id';
@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+
+/**
+ * Verify WooCommerce webhook signature (base64 HMAC-SHA256 of the raw body)
+ */
+export function verifyWebhookSignature(
+  rawBody: string | Buffer,
+  signatureHeader: string,
+  webhookSecret: string
+): boolean {
+  const body = typeof rawBody === 'string' ? rawBody : rawBody.toString('utf8');
+
+  const generatedSignature = crypto
+    .createHmac('sha256', webhookSecret)
+    .update(body)
+    .digest('base64');
+
+  try {
+    return crypto.timingSafeEqual(
+      Buffer.from(signatureHeader, 'utf8'),
+      Buffer.from(generatedSignature, 'utf8')
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse webhook headers
+ */
+export interface WooCommerceWebhookHeaders {
+  signature: string;
+  topic: string;
+  source: string;
+  webhookId: string;
+  deliveryId: string | null;
+}
+
+export function parseWebhookHeaders(
+  headers: Record<string, string | string[] | undefined>
+): WooCommerceWebhookHeaders | null {
+  const getHeader = (name: string): string | undefined => {
+    const value = headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const signature = getHeader('x-wc-webhook-signature');
+  const topic = getHeader('x-wc-webhook-topic');
+  const source = getHeader('x-wc-webhook-source');
+  const webhookId = getHeader('x-wc-webhook-id');
+  const deliveryId = getHeader('x-wc-webhook-delivery-id');
+
+  if (!signature || !topic || !source || !webhookId) {
+    return null;
+  }
+
+  return {
+    signature,
+    topic,
+    source,
+    webhookId,
+    deliveryId: deliveryId ?? null,
+  };
+}
+
+/**
+ * Normalize a store URL so webhook sources can be matched to connections
+ * (WooCommerce sends the site URL with a trailing slash)
+ */
+export function normalizeStoreUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '').toLowerCase();
+}
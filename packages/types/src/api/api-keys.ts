@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { uuidSchema } from '../common.js';
+
+// Scopes an API key can be granted. Reads (GET) need `<resource>:read`,
+// everything else needs `<resource>:write`.
+export const API_KEY_SCOPES = [
+  'catalog:read',
+  'catalog:write',
+  'offers:read',
+  'offers:write',
+  'links:read',
+  'links:write',
+  'orders:read',
+  'streams:read',
+  'streams:write',
+  'analytics:read',
+  'webhooks:read',
+  'webhooks:write',
+] as const;
+
+export const apiKeyScopeSchema = z.enum(API_KEY_SCOPES);
+
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+export type ApiKeyResource = ApiKeyScope extends `${infer Resource}:${string}` ? Resource : never;
+
+export const apiKeySchema = z.object({
+  id: uuidSchema,
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(apiKeyScopeSchema),
+  rateLimitPerMinute: z.number().int(),
+  lastUsedAt: z.coerce.date().nullable(),
+  expiresAt: z.coerce.date().nullable(),
+  revokedAt: z.coerce.date().nullable(),
+  createdAt: z.coerce.date(),
+});
+
+// POST /api-keys
+export const createApiKeyRequestSchema = z.object({
+  name: z.string().min(1).max(255),
+  scopes: z.array(apiKeyScopeSchema).min(1),
+  rateLimitPerMinute: z.number().int().min(1).max(1000).optional(),
+  expiresAt: z.coerce.date().optional(),
+});
+
+export const createApiKeyResponseSchema = z.object({
+  apiKey: apiKeySchema,
+  key: z.string(), // only returned here
+});
+
+// DELETE /api-keys/:id (revoke)
+export const apiKeyParamsSchema = z.object({
+  id: uuidSchema,
+});
+
+export type ApiKey = z.infer<typeof apiKeySchema>;
+export type CreateApiKeyRequest = z.infer<typeof createApiKeyRequestSchema>;
+export type CreateApiKeyResponse = z.infer<typeof createApiKeyResponseSchema>;
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { uuidSchema, paginationSchema } from '../common.js';
+
+// Optional header explaining a change, stored with the audit entry
+export const AUDIT_REASON_HEADER = 'x-audit-reason';
+
+export const auditActorTypeSchema = z.enum(['user', 'api_key']);
+
+export const auditLogEntrySchema = z.object({
+  id: uuidSchema,
+  actorType: auditActorTypeSchema,
+  actorId: uuidSchema,
+  actorRole: z.string().nullable(),
+  actorName: z.string().nullable(), // profile name or API key name
+  action: z.string(),
+  resourceType: z.string(),
+  resourceId: z.string().nullable(),
+  changes: z.record(z.object({ from: z.unknown(), to: z.unknown() })),
+  reason: z.string().nullable(),
+  method: z.string(),
+  route: z.string(),
+  ipAddress: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  createdAt: z.coerce.date(),
+});
+
+// GET /audit
+export const listAuditLogQuerySchema = paginationSchema.extend({
+  action: z.string().max(100).optional(),
+  resourceType: z.string().max(50).optional(),
+  resourceId: z.string().max(255).optional(),
+  actorId: uuidSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const listAuditLogResponseSchema = z.object({
+  entries: z.array(auditLogEntrySchema),
+  pagination: z.object({
+    page: z.number(),
+    limit: z.number(),
+    total: z.number(),
+    totalPages: z.number(),
+  }),
+});
+
+export type AuditActorType = z.infer<typeof auditActorTypeSchema>;
+export type AuditLogEntry = z.infer<typeof auditLogEntrySchema>;
+export type ListAuditLogQuery = z.infer<typeof listAuditLogQuerySchema>;
+export type ListAuditLogResponse = z.infer<typeof listAuditLogResponseSchema>;
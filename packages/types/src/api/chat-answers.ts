@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { uuidSchema } from '../common.js';
+
+export const answerTopicSchema = z.enum(['size', 'material', 'shipping', 'returns', 'stock']);
+
+// POST /chat-answers/faqs
+export const createProductFaqSchema = z.object({
+  productId: uuidSchema.nullable().optional(), // omit for every product
+  topic: answerTopicSchema.nullable().optional(), // omit to match on the question's words
+  question: z.string().trim().min(1).max(500),
+  answer: z.string().trim().min(1).max(450), // leaves room for the @mention in chat
+});
+
+// PATCH /chat-answers/faqs/:id
+export const updateProductFaqSchema = createProductFaqSchema.partial();
+
+export const productFaqParamsSchema = z.object({
+  id: uuidSchema,
+});
+
+// GET /chat-answers/faqs
+export const listProductFaqsQuerySchema = z.object({
+  productId: uuidSchema.optional(),
+});
+
+export const chatAnswerSettingsSchema = z.object({
+  autoSend: z.boolean(),
+  autoSendTopics: z.array(answerTopicSchema).max(5),
+  // Auto-sent answers per minute across all platforms
+  maxPerMinute: z.number().int().min(1).max(30),
+  // Seconds before the same product and topic is answered automatically again
+  topicCooldownSeconds: z.number().int().min(0).max(3600),
+});
+
+// PUT /chat-answers/settings
+export const updateChatAnswerSettingsSchema = chatAnswerSettingsSchema.partial();
+
+// POST /chat-answers/draft
+export const draftAnswerSchema = z.object({
+  question: z.string().trim().min(1).max(500),
+  productId: uuidSchema.optional(), // defaults to the spotlighted product
+});
+
+export type CreateProductFaqRequest = z.infer<typeof createProductFaqSchema>;
+export type UpdateProductFaqRequest = z.infer<typeof updateProductFaqSchema>;
+export type ChatAnswerSettings = z.infer<typeof chatAnswerSettingsSchema>;
+export type UpdateChatAnswerSettingsRequest = z.infer<typeof updateChatAnswerSettingsSchema>;
+export type DraftAnswerRequest = z.infer<typeof draftAnswerSchema>;
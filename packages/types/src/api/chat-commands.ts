@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { uuidSchema } from '../common.js';
+import { chatMessagePlatformSchema } from './transcripts.js';
+
+export const chatCommandNameSchema = z.enum(['buy', 'price', 'sizes', 'link']);
+
+export const chatCommandSettingsSchema = z.object({
+  command: chatCommandNameSchema,
+  enabled: z.boolean(),
+  // Platforms where viewers get a reply
+  platforms: z.array(chatMessagePlatformSchema).max(7),
+  // Seconds before the command answers anyone again
+  cooldownSeconds: z.number().int().min(0).max(3600),
+  // Seconds before it answers the same viewer again
+  userCooldownSeconds: z.number().int().min(0).max(3600),
+  // Own wording with {user}, {product}, {price}, {regular_price}, {deal},
+  // {sizes}, {link} and {quantity}; null for the built-in reply
+  response: z.string().trim().min(1).max(400).nullable(),
+});
+
+export const chatCommandParamsSchema = z.object({
+  command: chatCommandNameSchema,
+});
+
+// PUT /chat-commands/:command
+export const updateChatCommandSchema = chatCommandSettingsSchema.omit({ command: true }).partial();
+
+// GET /chat-commands/usage
+export const chatCommandUsageQuerySchema = z.object({
+  liveSessionId: uuidSchema.optional(),
+  platform: chatMessagePlatformSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type ChatCommandSettings = z.infer<typeof chatCommandSettingsSchema>;
+export type UpdateChatCommandRequest = z.infer<typeof updateChatCommandSchema>;
+export type ChatCommandUsageQuery = z.infer<typeof chatCommandUsageQuerySchema>;
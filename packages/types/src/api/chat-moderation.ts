@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { uuidSchema } from '../common.js';
+import { chatMessagePlatformSchema } from './transcripts.js';
+
+export const automodReasonSchema = z.enum(['blocked_term', 'link', 'caps', 'spam']);
+
+// Bare domains like shop.example.com; subdomains of an allowed domain are allowed too
+const linkDomainSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/, 'Must be a domain like example.com');
+
+export const chatModerationSettingsSchema = z.object({
+  blockedTerms: z.array(z.string().trim().toLowerCase().min(1).max(100)).max(500),
+  filterLinks: z.boolean(),
+  allowedLinkDomains: z.array(linkDomainSchema).max(100),
+  filterCaps: z.boolean(),
+  filterSpam: z.boolean(),
+  // Strikes before automod times the author out
+  strikeLimit: z.number().int().min(1).max(20),
+  strikeTimeoutSeconds: z.number().int().min(10).max(1209600),
+});
+
+// PUT /chat/moderation/settings
+export const updateChatModerationSettingsSchema = chatModerationSettingsSchema.partial();
+
+// POST /chat/moderation/actions
+export const chatModerationCommandSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('delete_message'),
+    platform: chatMessagePlatformSchema,
+    messageId: z.string().min(1).max(255),
+  }),
+  z.object({
+    action: z.literal('timeout'),
+    platform: chatMessagePlatformSchema,
+    userId: z.string().min(1).max(255),
+    durationSeconds: z.number().int().min(1).max(1209600),
+    reason: z.string().max(500).optional(),
+  }),
+  z.object({
+    action: z.literal('ban'),
+    platform: chatMessagePlatformSchema,
+    userId: z.string().min(1).max(255),
+    reason: z.string().max(500).optional(),
+  }),
+  z.object({
+    action: z.literal('slow_mode'),
+    platform: chatMessagePlatformSchema,
+    delaySeconds: z.number().int().min(1).max(300).nullable(), // null turns it off
+  }),
+]);
+
+// POST /chat/moderation/queue/:messageId
+export const moderationQueueParamsSchema = z.object({
+  messageId: z.string().min(1).max(255),
+});
+
+export const moderationDecisionSchema = z.object({
+  decision: z.enum(['approve', 'remove', 'timeout', 'ban']),
+  durationSeconds: z.number().int().min(1).max(1209600).optional(), // timeouts only
+});
+
+// GET /chat/moderation/strikes
+export const listStrikesQuerySchema = z.object({
+  platform: chatMessagePlatformSchema.optional(),
+  userId: z.string().min(1).max(255).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const moderationStrikeSchema = z.object({
+  id: uuidSchema,
+  platform: chatMessagePlatformSchema,
+  authorId: z.string(),
+  authorName: z.string(),
+  messageId: z.string(),
+  content: z.string(),
+  reasons: z.array(automodReasonSchema),
+  action: z.enum(['deleted', 'timeout', 'ban']),
+  moderatorId: uuidSchema.nullable(), // null when automod acted
+  createdAt: z.coerce.date(),
+});
+
+export type ChatModerationSettings = z.infer<typeof chatModerationSettingsSchema>;
+export type UpdateChatModerationSettingsRequest = z.infer<typeof updateChatModerationSettingsSchema>;
+export type ChatModerationCommandRequest = z.infer<typeof chatModerationCommandSchema>;
+export type ModerationDecision = z.infer<typeof moderationDecisionSchema>;
+export type ListStrikesQuery = z.infer<typeof listStrikesQuerySchema>;
+export type ModerationStrike = z.infer<typeof moderationStrikeSchema>;
@@ -11,10 +11,71 @@ export const resolveShortLinkQuerySchema = z.object({
   visitorId: z.string().optional(),
   variantId: uuidSchema.optional(),
   quantity: z.coerce.number().int().min(1).default(1),
+  // Viewer handle from a link dropped in chat; a bad one never blocks checkout
+  v: z.string().regex(/^[0-9a-z]{1,16}$/).optional().catch(undefined),
 });
 
 // Response is a redirect to Shopify checkout
 
+// POST /carts (public - create a cart from a short link)
+export const createCartRequestSchema = z.object({
+  code: z.string(),
+  variantId: uuidSchema.optional(),
+  quantity: z.number().int().min(1).default(1),
+  visitorId: z.string().optional(),
+});
+
+// POST /carts/:id/items
+export const addCartItemRequestSchema = z.object({
+  code: z.string(),
+  variantId: uuidSchema.optional(),
+  quantity: z.number().int().min(1).default(1),
+});
+
+// GET /carts/:id, POST /carts/:id/checkout
+export const cartParamsSchema = z.object({
+  id: uuidSchema,
+});
+
+// DELETE /carts/:id/items/:itemId
+export const cartItemParamsSchema = z.object({
+  id: uuidSchema,
+  itemId: uuidSchema,
+});
+
+export const pricedCartLineSchema = z.object({
+  id: uuidSchema,
+  shortLinkId: uuidSchema,
+  offerId: uuidSchema,
+  variantId: uuidSchema,
+  productTitle: z.string(),
+  variantTitle: z.string(),
+  imageUrl: z.string().nullable(),
+  quantity: z.number().int(),
+  price: z.number().int(),
+  offerPrice: z.number().int(),
+  subtotal: z.number().int(),
+  discount: z.number().int(),
+  total: z.number().int(),
+});
+
+export const cartResponseSchema = z.object({
+  cart: z.object({
+    id: uuidSchema,
+    status: z.enum(['open', 'converted', 'abandoned']),
+    visitorId: z.string(),
+    expiresAt: z.coerce.date(),
+  }),
+  items: z.array(pricedCartLineSchema),
+  itemCount: z.number().int(),
+  subtotal: z.number().int(),
+  discount: z.number().int(),
+  total: z.number().int(),
+  currency: z.string().length(3),
+});
+
+// Response for POST /carts/:id/checkout is checkoutStartResponseSchema
+
 // GET /orders
 export const listOrdersQuerySchema = paginationSchema.extend({
   status: z.enum(['pending', 'confirmed', 'fulfilled', 'cancelled', 'refunded']).optional(),
@@ -35,8 +96,20 @@ export const getOrderParamsSchema = z.object({
   id: uuidSchema,
 });
 
+// The chat message a reply link was sent for, when the order came through one
+export const orderChatMessageSchema = z.object({
+  id: uuidSchema,
+  liveSessionId: uuidSchema,
+  platform: z.string(),
+  authorId: z.string(),
+  authorName: z.string(),
+  content: z.string(),
+  sentAt: z.coerce.date(),
+});
+
 export const getOrderResponseSchema = z.object({
   order: orderSchema,
+  chatMessage: orderChatMessageSchema.nullable(),
 });
 
 // POST /webhooks/shopify/orders (Shopify webhook)
@@ -49,6 +122,12 @@ export const shopifyOrderWebhookHeadersSchema = z.object({
 
 export type ResolveShortLinkParams = z.infer<typeof resolveShortLinkParamsSchema>;
 export type ResolveShortLinkQuery = z.infer<typeof resolveShortLinkQuerySchema>;
+export type CreateCartRequest = z.infer<typeof createCartRequestSchema>;
+export type AddCartItemRequest = z.infer<typeof addCartItemRequestSchema>;
+export type CartParams = z.infer<typeof cartParamsSchema>;
+export type CartItemParams = z.infer<typeof cartItemParamsSchema>;
+export type PricedCartLine = z.infer<typeof pricedCartLineSchema>;
+export type CartResponse = z.infer<typeof cartResponseSchema>;
 export type ListOrdersQuery = z.infer<typeof listOrdersQuerySchema>;
 export type ListOrdersResponse = z.infer<typeof listOrdersResponseSchema>;
 export type GetOrderParams = z.infer<typeof getOrderParamsSchema>;
@@ -33,6 +33,17 @@ export const oauthCallbackResponseSchema = z.object({
   redirectUrl: z.string().url(),
 });
 
+// POST /connections/woocommerce
+export const connectWooCommerceRequestSchema = z.object({
+  storeUrl: z.string().url(),
+  consumerKey: z.string().startsWith('ck_'),
+  consumerSecret: z.string().startsWith('cs_'),
+});
+
+export const connectWooCommerceResponseSchema = z.object({
+  connection: platformConnectionSchema,
+});
+
 // DELETE /connections/:id
 export const deleteConnectionParamsSchema = z.object({
   id: uuidSchema,
@@ -49,5 +60,7 @@ export type GetAuthUrlResponse = z.infer<typeof getAuthUrlResponseSchema>;
 export type OAuthCallbackParams = z.infer<typeof oauthCallbackParamsSchema>;
 export type OAuthCallbackQuery = z.infer<typeof oauthCallbackQuerySchema>;
 export type OAuthCallbackResponse = z.infer<typeof oauthCallbackResponseSchema>;
+export type ConnectWooCommerceRequest = z.infer<typeof connectWooCommerceRequestSchema>;
+export type ConnectWooCommerceResponse = z.infer<typeof connectWooCommerceResponseSchema>;
 export type DeleteConnectionParams = z.infer<typeof deleteConnectionParamsSchema>;
 export type DeleteConnectionResponse = z.infer<typeof deleteConnectionResponseSchema>;
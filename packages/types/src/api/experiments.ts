@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { uuidSchema } from '../common.js';
+
+// Bundles are priced per component and can't be tested
+export const experimentOfferTypeSchema = z.enum(['percentage_off', 'fixed_amount_off', 'fixed_price']);
+
+export const experimentStatusSchema = z.enum(['running', 'stopped', 'promoted']);
+
+// Terms left out keep the offer's own
+export const experimentVariantInputSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    weight: z.number().int().min(1).max(100).default(1),
+    type: experimentOfferTypeSchema.optional(),
+    value: z.number().int().min(0).optional(),
+    badgeText: z.string().trim().min(1).max(50).optional(),
+  })
+  .refine(variant => variant.type === undefined || variant.value !== undefined, {
+    message: 'A variant that changes the offer type needs a value',
+    path: ['value'],
+  });
+
+// GET /experiments
+export const listExperimentsQuerySchema = z.object({
+  offerId: uuidSchema.optional(),
+  status: experimentStatusSchema.optional(),
+});
+
+// POST /experiments - the first variant is the control
+export const createExperimentRequestSchema = z.object({
+  offerId: uuidSchema,
+  name: z.string().trim().min(1).max(255),
+  variants: z.array(experimentVariantInputSchema).min(2).max(5),
+});
+
+// GET /experiments/:id, /experiments/:id/results, POST /experiments/:id/stop
+export const experimentParamsSchema = z.object({
+  id: uuidSchema,
+});
+
+// POST /experiments/:id/promote
+export const promoteExperimentRequestSchema = z.object({
+  variantId: uuidSchema,
+});
+
+export type ExperimentVariantInput = z.infer<typeof experimentVariantInputSchema>;
+export type ListExperimentsQuery = z.infer<typeof listExperimentsQuerySchema>;
+export type CreateExperimentRequest = z.infer<typeof createExperimentRequestSchema>;
+export type PromoteExperimentRequest = z.infer<typeof promoteExperimentRequestSchema>;
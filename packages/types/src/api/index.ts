@@ -7,4 +7,14 @@ export * from './offers.js';
 export * from './streams.js';
 export * from './links.js';
 export * from './checkout.js';
-export * from './public.js';
\ No newline at end of file
+export * from './public.js';
+export * from './webhook-endpoints.js';
+export * from './api-keys.js';
+export * from './team.js';
+export * from './audit.js';
+export * from './transcripts.js';
+export * from './chat-moderation.js';
+export * from './chat-answers.js';
+export * from './chat-commands.js';
+export * from './viewers.js';
+export * from './experiments.js';
@@ -45,7 +45,7 @@ export const publicReplayResponseSchema = z.object({
     duration: z.number().int().nullable(),
     slug: z.string().nullable(),
     viewCount: z.number().int(),
-    platform: z.enum(['shopify', 'tiktok', 'youtube', 'instagram', 'twitch']).nullable(),
+    platform: z.enum(['shopify', 'tiktok', 'youtube', 'instagram', 'twitch', 'woocommerce']).nullable(),
     publishedAt: z.coerce.date().nullable(),
     creator: z.object({
       name: z.string(),
@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { uuidSchema } from '../common.js';
+
+// Roles on a shared creator account, most to least privileged
+export const TEAM_ROLES = ['owner', 'manager', 'producer', 'moderator', 'analyst'] as const;
+
+export const teamRoleSchema = z.enum(TEAM_ROLES);
+
+export type TeamRole = z.infer<typeof teamRoleSchema>;
+
+// Header a team member sends to act on an account other than their own
+export const TEAM_ACCOUNT_HEADER = 'x-creator-id';
+
+export const teamMemberSchema = z.object({
+  id: uuidSchema,
+  profileId: uuidSchema,
+  email: z.string().email(),
+  name: z.string().nullable(),
+  role: teamRoleSchema,
+  createdAt: z.coerce.date(),
+});
+
+export const teamInvitationSchema = z.object({
+  id: uuidSchema,
+  email: z.string().email(),
+  role: teamRoleSchema,
+  expiresAt: z.coerce.date(),
+  acceptedAt: z.coerce.date().nullable(),
+  revokedAt: z.coerce.date().nullable(),
+  createdAt: z.coerce.date(),
+});
+
+// PATCH /team/members/:id, DELETE /team/members/:id, DELETE /team/invitations/:id
+export const teamParamsSchema = z.object({
+  id: uuidSchema,
+});
+
+export const updateTeamMemberRequestSchema = z.object({
+  role: teamRoleSchema,
+});
+
+// POST /team/invitations
+export const createTeamInvitationRequestSchema = z.object({
+  email: z.string().email(),
+  role: teamRoleSchema,
+});
+
+export const createTeamInvitationResponseSchema = z.object({
+  invitation: teamInvitationSchema,
+  inviteUrl: z.string().url(), // contains the token; only returned here
+});
+
+// POST /team/invitations/accept
+export const acceptTeamInvitationRequestSchema = z.object({
+  token: z.string().min(1),
+});
+
+// GET /team/accounts - accounts the current user can switch to
+export const teamAccountSchema = z.object({
+  creatorId: uuidSchema,
+  name: z.string().nullable(),
+  handle: z.string().nullable(),
+  role: teamRoleSchema,
+});
+
+export type TeamMember = z.infer<typeof teamMemberSchema>;
+export type TeamInvitation = z.infer<typeof teamInvitationSchema>;
+export type TeamAccount = z.infer<typeof teamAccountSchema>;
+export type UpdateTeamMemberRequest = z.infer<typeof updateTeamMemberRequestSchema>;
+export type CreateTeamInvitationRequest = z.infer<typeof createTeamInvitationRequestSchema>;
+export type CreateTeamInvitationResponse = z.infer<typeof createTeamInvitationResponseSchema>;
+export type AcceptTeamInvitationRequest = z.infer<typeof acceptTeamInvitationRequestSchema>;
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { uuidSchema, paginationSchema } from '../common.js';
+
+export const chatMessagePlatformSchema = z.enum([
+  'tiktok',
+  'youtube',
+  'twitch',
+  'facebook',
+  'instagram',
+  'kick',
+  'restream',
+]);
+
+export const chatMessageTypeSchema = z.enum([
+  'chat',
+  'gift',
+  'subscription',
+  'follow',
+  'raid',
+  'host',
+  'share',
+  'like',
+  'question',
+  'system',
+]);
+
+export const transcriptMessageSchema = z.object({
+  id: uuidSchema,
+  platform: chatMessagePlatformSchema,
+  externalId: z.string(),
+  type: chatMessageTypeSchema,
+  content: z.string(),
+  authorId: z.string(),
+  authorName: z.string(),
+  authorImageUrl: z.string().nullable(),
+  badges: z.array(z.string()),
+  isModerator: z.boolean(),
+  isSubscriber: z.boolean(),
+  isVerified: z.boolean(),
+  gift: z.object({
+    id: z.string(),
+    name: z.string(),
+    value: z.number(),
+    count: z.number(),
+    imageUrl: z.string().optional(),
+  }).nullable(),
+  giftValue: z.number(),
+  signals: z.object({
+    hasBuyingIntent: z.boolean(),
+    isQuestion: z.boolean(),
+    sentiment: z.enum(['positive', 'neutral', 'negative']),
+    suggestedAction: z.string().optional(),
+  }).nullable(),
+  sentAt: z.coerce.date(),
+});
+
+export const transcriptParamsSchema = z.object({
+  id: uuidSchema,
+});
+
+// Filters shared by the transcript listing and export
+const transcriptFilterSchema = z.object({
+  q: z.string().trim().min(1).max(200).optional(), // full-text search over message content
+  platform: chatMessagePlatformSchema.optional(),
+  type: chatMessageTypeSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// GET /live-sessions/:id/transcript
+export const listTranscriptQuerySchema = paginationSchema
+  .extend({ limit: z.coerce.number().int().min(1).max(500).default(100) })
+  .merge(transcriptFilterSchema);
+
+export const listTranscriptResponseSchema = z.object({
+  messages: z.array(transcriptMessageSchema),
+  pagination: z.object({
+    page: z.number(),
+    limit: z.number(),
+    total: z.number(),
+    totalPages: z.number(),
+  }),
+});
+
+// GET /live-sessions/:id/transcript/export
+export const exportTranscriptQuerySchema = transcriptFilterSchema.extend({
+  format: z.enum(['csv', 'jsonl']).default('csv'),
+});
+
+export type TranscriptMessage = z.infer<typeof transcriptMessageSchema>;
+export type TranscriptFilter = z.infer<typeof transcriptFilterSchema>;
+export type ListTranscriptQuery = z.infer<typeof listTranscriptQuerySchema>;
+export type ListTranscriptResponse = z.infer<typeof listTranscriptResponseSchema>;
+export type ExportTranscriptQuery = z.infer<typeof exportTranscriptQuerySchema>;
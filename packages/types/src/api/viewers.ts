@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { uuidSchema, paginationSchema } from '../common.js';
+import { chatMessagePlatformSchema } from './transcripts.js';
+
+export const viewerTierSchema = z.enum(['buyer', 'vip']);
+
+// GET /viewers
+export const listViewersQuerySchema = paginationSchema.extend({
+  tier: viewerTierSchema.optional(),
+  q: z.string().trim().min(1).max(100).optional(), // name, handle or email
+  sort: z.enum(['spend', 'recent', 'sessions']).default('spend'),
+});
+
+export const viewerParamsSchema = z.object({
+  id: uuidSchema,
+});
+
+// GET /viewers/lookup - the viewer behind a chat account
+export const lookupViewerQuerySchema = z.object({
+  platform: chatMessagePlatformSchema,
+  platformUserId: z.string().min(1).max(255),
+});
+
+export type ListViewersQuery = z.infer<typeof listViewersQuerySchema>;
+export type LookupViewerQuery = z.infer<typeof lookupViewerQuerySchema>;
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { paginationSchema, uuidSchema } from '../common.js';
+
+// Webhook endpoint (secret is never returned after create)
+export const webhookEndpointSchema = z.object({
+  id: uuidSchema,
+  url: z.string().url(),
+  description: z.string().nullable(),
+  eventTypes: z.array(z.string()), // empty = all events
+  isActive: z.boolean(),
+  lastDeliveryAt: z.coerce.date().nullable(),
+  consecutiveFailures: z.number().int(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+
+export const webhookDeliverySchema = z.object({
+  id: uuidSchema,
+  endpointId: uuidSchema,
+  eventId: z.string(),
+  eventType: z.string(),
+  redeliveryOf: uuidSchema.nullable(),
+  status: z.enum(['pending', 'succeeded', 'failed']),
+  attempts: z.number().int(),
+  responseStatus: z.number().int().nullable(),
+  error: z.string().nullable(),
+  durationMs: z.number().int().nullable(),
+  deliveredAt: z.coerce.date().nullable(),
+  createdAt: z.coerce.date(),
+});
+
+// GET /webhook-endpoints/:id
+export const webhookEndpointParamsSchema = z.object({
+  id: uuidSchema,
+});
+
+// Hosts are also resolved server-side and must be public
+const webhookUrlSchema = z.string().url().refine((url) => url.startsWith('https://') || url.startsWith('http://'), {
+  message: 'URL must use http or https',
+});
+
+// POST /webhook-endpoints
+export const createWebhookEndpointRequestSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string().max(255).optional(),
+  eventTypes: z.array(z.string()).default([]),
+});
+
+export const createWebhookEndpointResponseSchema = z.object({
+  endpoint: webhookEndpointSchema,
+  secret: z.string(), // only returned here
+});
+
+// PATCH /webhook-endpoints/:id
+export const updateWebhookEndpointRequestSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  description: z.string().max(255).nullable().optional(),
+  eventTypes: z.array(z.string()).optional(),
+  isActive: z.boolean().optional(),
+});
+
+// GET /webhook-endpoints/:id/deliveries
+export const listWebhookDeliveriesQuerySchema = paginationSchema.extend({
+  status: z.enum(['pending', 'succeeded', 'failed']).optional(),
+});
+
+export const listWebhookDeliveriesResponseSchema = z.object({
+  deliveries: z.array(webhookDeliverySchema),
+  pagination: z.object({
+    page: z.number(),
+    limit: z.number(),
+    total: z.number(),
+    totalPages: z.number(),
+  }),
+});
+
+// POST /webhook-endpoints/:id/deliveries/:deliveryId/redeliver
+export const webhookDeliveryParamsSchema = z.object({
+  id: uuidSchema,
+  deliveryId: uuidSchema,
+});
+
+export type WebhookEndpoint = z.infer<typeof webhookEndpointSchema>;
+export type WebhookDelivery = z.infer<typeof webhookDeliverySchema>;
+export type CreateWebhookEndpointRequest = z.infer<typeof createWebhookEndpointRequestSchema>;
+export type CreateWebhookEndpointResponse = z.infer<typeof createWebhookEndpointResponseSchema>;
+export type UpdateWebhookEndpointRequest = z.infer<typeof updateWebhookEndpointRequestSchema>;
+export type ListWebhookDeliveriesQuery = z.infer<typeof listWebhookDeliveriesQuerySchema>;
+export type ListWebhookDeliveriesResponse = z.infer<typeof listWebhookDeliveriesResponseSchema>;
@@ -54,6 +54,7 @@ export interface ChatGift {
   value: number;                 // Value in cents (USD)
   count: number;                 // Number of gifts
   imageUrl?: string | undefined;
+  streaking?: boolean | undefined; // TikTok streak still going; its last message has the final count
 }
 
 // Unified chat message
@@ -83,6 +84,30 @@ export interface ChatMessage {
     sentiment: 'positive' | 'neutral' | 'negative';
     suggestedAction?: string | undefined;
   };
+
+  // The author's viewer profile, when they've bought before
+  viewer?: ChatViewer | undefined;
+
+  // A command like "!buy 2" (added by processing)
+  command?: ChatCommandInvocation | undefined;
+}
+
+// A chat command: its name, lowercased and without the "!", and what followed
+export interface ChatCommandInvocation {
+  name: string;
+  args: string[];
+}
+
+// Known buyers, and VIPs among them by spend or order count
+export type ViewerTier = 'buyer' | 'vip';
+
+// What the command center shows about a chatter it knows
+export interface ChatViewer {
+  id: string;
+  tier: ViewerTier;
+  ordersCount: number;
+  lifetimeSpend: number;         // cents
+  sessionsAttended: number;
 }
 
 // Emote in message
@@ -101,6 +126,43 @@ export interface ChatConnectionStatus {
   viewerCount?: number | undefined;
   error?: string | undefined;
   lastMessageAt?: Date | undefined;
+  moderation?: ChatModerationAction[] | undefined; // What the platform lets us do
+}
+
+// Moderation actions a platform may support
+export type ChatModerationAction = 'delete_message' | 'timeout' | 'ban' | 'slow_mode';
+
+// A moderation action against one platform's chat
+export type ChatModerationCommand =
+  | { action: 'delete_message'; platform: ChatPlatform; messageId: string }
+  | { action: 'timeout'; platform: ChatPlatform; userId: string; durationSeconds: number; reason?: string | undefined }
+  | { action: 'ban'; platform: ChatPlatform; userId: string; reason?: string | undefined }
+  | { action: 'slow_mode'; platform: ChatPlatform; delaySeconds: number | null }; // null turns it off
+
+// Why automod flagged a message
+export type AutomodReason = 'blocked_term' | 'link' | 'caps' | 'spam';
+
+// A message automod held back from the chat feed until someone decides on it
+export interface ModerationQueueItem {
+  message: ChatMessage;
+  reasons: AutomodReason[];
+  strikes: number;               // Strikes the author already had when it was held
+  heldAt: Date;
+}
+
+// What a product question is about
+export type AnswerTopic = 'size' | 'material' | 'shipping' | 'returns' | 'stock';
+
+// A reply drafted for a viewer's product question
+export interface AnswerSuggestion {
+  id: string;
+  message: ChatMessage;          // The question
+  topic: AnswerTopic;
+  productId: string | null;      // The spotlighted product it was answered for
+  reply: string;
+  source: 'faq' | 'catalog';
+  autoSent: boolean;             // Already sent to the platform
+  createdAt: Date;
 }
 
 // Aggregated chat state
@@ -136,3 +198,13 @@ export interface ChatClientMessage {
   action: 'subscribe' | 'unsubscribe' | 'send_message' | 'pin_product' | 'drop_link';
   payload?: unknown;
 }
+
+// Redis pub/sub channel for messages another process (e.g. the worker)
+// wants posted to a creator's live chat by whichever API instance holds it
+export const CHAT_ANNOUNCEMENT_CHANNEL = 'chat:announcements';
+
+export interface ChatAnnouncement {
+  creatorId: string;
+  message: string;
+  platforms?: ChatPlatform[] | undefined;
+}
@@ -27,6 +27,9 @@ export const cartItemSchema = z.object({
   quantity: z.number().int().min(1),
   price: z.number().int(),
   offerPrice: z.number().int().optional(),
+  offerId: uuidSchema.optional(), // offer applied to this line
+  shortLinkId: uuidSchema.optional(), // link the line was added from
+  flashSaleId: uuidSchema.optional(), // flash sale applied when priced
 });
 
 export type CartItem = z.infer<typeof cartItemSchema>;
@@ -64,6 +67,9 @@ export const orderLineItemSchema = z.object({
   title: z.string(),
   quantity: z.number().int(),
   price: z.number().int(),
+  originalPrice: z.number().int().optional(), // unit price before the offer
+  discount: z.number().int().optional(), // total discount for the line
+  offerId: uuidSchema.optional(),
 });
 
 export type OrderLineItem = z.infer<typeof orderLineItemSchema>;
@@ -74,6 +80,7 @@ export const orderSchema = z.object({
   creatorId: uuidSchema,
   checkoutSessionId: uuidSchema.nullable(),
   attributionContextId: uuidSchema.nullable(),
+  chatMessageId: uuidSchema.nullable(),
   connectionId: uuidSchema,
   externalOrderId: z.string(),
   externalOrderNumber: z.string().nullable(),
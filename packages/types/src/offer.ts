@@ -60,6 +60,15 @@ export const offerWithProductsSchema = offerSchema.extend({
 
 export type OfferWithProducts = z.infer<typeof offerWithProductsSchema>;
 
+// Bundle component (only for type = 'bundle')
+export const bundleItemSchema = z.object({
+  productId: uuidSchema,
+  variantId: uuidSchema.optional(), // pin a specific variant
+  overrideValue: z.number().int().min(0).optional(), // this item's share of the bundle price (cents)
+});
+
+export type BundleItem = z.infer<typeof bundleItemSchema>;
+
 // Create offer input
 export const createOfferSchema = z.object({
   name: z.string().min(1).max(255),
@@ -72,6 +81,7 @@ export const createOfferSchema = z.object({
   maxPerCustomer: z.number().int().min(1).optional(),
   badgeText: z.string().max(50).optional(),
   productIds: z.array(uuidSchema).min(1),
+  bundleItems: z.array(bundleItemSchema).optional(),
 });
 
 export type CreateOfferInput = z.infer<typeof createOfferSchema>;
@@ -2,7 +2,7 @@ import { z } from 'zod';
 import { uuidSchema, timestampsSchema } from './common.js';
 
 // Platform enum
-export const platformSchema = z.enum(['shopify', 'tiktok', 'youtube', 'instagram', 'twitch']);
+export const platformSchema = z.enum(['shopify', 'tiktok', 'youtube', 'instagram', 'twitch', 'woocommerce']);
 export type Platform = z.infer<typeof platformSchema>;
 
 // Connection status
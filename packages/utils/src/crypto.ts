@@ -1,4 +1,4 @@
-import { createCipheriv, createDecipheriv, randomBytes, createHmac } from 'crypto';
+import { createCipheriv, createDecipheriv, randomBytes, createHmac, createHash } from 'crypto';
 
 const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 16;
@@ -75,9 +75,27 @@ export function verifyHmacSignature(data: string, signature: string, secret: str
   return result === 0;
 }
 
+/**
+ * Sign an outbound webhook body. Receivers recompute the HMAC over
+ * `${timestamp}.${body}` with their endpoint secret and compare.
+ */
+export function signWebhookPayload(body: string, timestamp: number, secret: string): string {
+  return createHmacSignature(`${timestamp}.${body}`, secret);
+}
+
 /**
  * Generate a random hex string
  */
 export function randomHex(bytes: number): string {
   return randomBytes(bytes).toString('hex');
 }
+
+/**
+ * Hash an email so orders from the same buyer can be matched without
+ * comparing raw addresses. Case and surrounding spaces don't matter.
+ */
+export function hashEmail(email: string | null | undefined): string | null {
+  const normalized = email?.trim().toLowerCase();
+  if (!normalized) return null;
+  return createHash('sha256').update(normalized).digest('hex');
+}
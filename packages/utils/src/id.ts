@@ -13,6 +13,13 @@ export function generateShortLinkCode(): string {
   return generateShortCode();
 }
 
+// Viewer handle generator (carried on links as ?v=)
+const generateHandle = customAlphabet(shortLinkAlphabet, 10);
+
+export function generateViewerHandle(): string {
+  return generateHandle();
+}
+
 // Slug generator (for replay URLs)
 const slugAlphabet = '0123456789abcdefghijklmnopqrstuvwxyz';
 const generateSlugId = customAlphabet(slugAlphabet, 10);
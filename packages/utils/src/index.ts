@@ -2,3 +2,4 @@ export * from './crypto.js';
 export * from './errors.js';
 export * from './id.js';
 export * from './retry.js';
+export * from './network.js';
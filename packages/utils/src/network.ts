@@ -0,0 +1,115 @@
+import { lookup, type LookupAddress } from 'node:dns';
+import { promises as dns } from 'node:dns';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { AppError, ErrorCodes } from './errors.js';
+
+// Loopback, private, link-local (incl. cloud metadata), shared, reserved,
+// documentation and multicast ranges. IPv4-mapped IPv6 addresses are
+// checked against the IPv4 rules.
+const nonPublicRanges = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  nonPublicRanges.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  nonPublicRanges.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is routable on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !nonPublicRanges.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function notPublic(hostname: string): AppError {
+  return new AppError(ErrorCodes.VALIDATION_ERROR, 'URL must point to a public host', { hostname });
+}
+
+/**
+ * Check that an outbound URL is http(s) and every address its host resolves
+ * to is public, so it can't be pointed at internal services.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Invalid URL');
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'URL must use http or https');
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+
+  let addresses: LookupAddress[];
+  if (isIP(hostname)) {
+    addresses = [{ address: hostname, family: isIP(hostname) }];
+  } else {
+    try {
+      addresses = await dns.lookup(hostname, { all: true });
+    } catch {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'URL host could not be resolved', { hostname });
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw notPublic(hostname);
+  }
+}
+
+/**
+ * DNS lookup for outbound requests that refuses non-public addresses. Runs
+ * at connect time, so a host that re-resolves after `assertPublicUrl`
+ * (DNS rebinding) still can't reach an internal address.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const first = addresses[0];
+    if (!first || addresses.some(({ address }) => !isPublicAddress(address))) {
+      callback(notPublic(hostname), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+};